@@ -0,0 +1,12 @@
+-- Kategori penarikan bank pada transaction_categories
+USE sidarsih;
+
+-- withdrawal_type mengisi kategori penarikan bank (operasional, pinjaman, dll). Aturan klasifikasi
+-- otomatis dan aturan validasi disimpan sebagai JSON, sama seperti di skema Supabase.
+ALTER TABLE transaction_categories
+ADD COLUMN withdrawal_type VARCHAR(50) NULL,
+ADD COLUMN auto_classification_rules JSON NULL,
+ADD COLUMN validation_rules JSON NULL,
+ADD INDEX idx_withdrawal_type (withdrawal_type);
+
+SELECT 'Bank withdrawal category fields added successfully!' AS status;
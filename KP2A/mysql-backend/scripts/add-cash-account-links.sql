@@ -0,0 +1,14 @@
+-- Akun kas/bank penerima untuk iuran dan angsuran
+USE sidarsih;
+
+-- cash_account_id menunjuk akun di cash_bank_accounts yang menerima uangnya. NULL berarti akun
+-- yang terhubung ke COA Kas (1-1100), atau akun kas tunai aktif yang paling lama.
+ALTER TABLE dues
+ADD COLUMN cash_account_id CHAR(36) NULL,
+ADD CONSTRAINT fk_dues_cash_account FOREIGN KEY (cash_account_id) REFERENCES cash_bank_accounts(id);
+
+ALTER TABLE loan_payments
+ADD COLUMN cash_account_id CHAR(36) NULL,
+ADD CONSTRAINT fk_loan_payments_cash_account FOREIGN KEY (cash_account_id) REFERENCES cash_bank_accounts(id);
+
+SELECT 'Cash account links added successfully!' AS status;
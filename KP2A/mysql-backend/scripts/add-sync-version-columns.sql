@@ -0,0 +1,22 @@
+-- Per-record versions and client references for the offline sync queue
+USE sidarsih;
+
+-- version dinaikkan setiap kali baris diubah. Klien mengirim expected_version saat mengubah/menghapus;
+-- bila berbeda dengan versi di server, perubahan ditolak (409) dan ditampilkan sebagai konflik.
+-- client_ref adalah id antrean dari perangkat petugas, sehingga data yang dikirim ulang tidak tercatat dua kali.
+ALTER TABLE dues
+ADD COLUMN version INT NOT NULL DEFAULT 1,
+ADD COLUMN client_ref CHAR(36) NULL,
+ADD UNIQUE KEY unique_client_ref (client_ref);
+
+ALTER TABLE loan_payments
+ADD COLUMN version INT NOT NULL DEFAULT 1,
+ADD COLUMN client_ref CHAR(36) NULL,
+ADD UNIQUE KEY unique_client_ref (client_ref);
+
+ALTER TABLE expenses
+ADD COLUMN version INT NOT NULL DEFAULT 1,
+ADD COLUMN client_ref CHAR(36) NULL,
+ADD UNIQUE KEY unique_client_ref (client_ref);
+
+SELECT 'Sync version columns added successfully!' AS status;
@@ -0,0 +1,18 @@
+-- Segmen penerima broadcast untuk backend MySQL, sama dengan skema Supabase
+USE sidarsih;
+
+-- Hanya aturan yang disimpan; anggota yang cocok dihitung ulang setiap kali broadcast dikirim.
+-- rules: [{ field, operator, value }], mis. { "field": "tunggakan_bulan", "operator": ">=", "value": 2 }
+-- match: all = semua aturan harus terpenuhi, any = minimal satu.
+CREATE TABLE IF NOT EXISTS audience_segments (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    `match` ENUM('all', 'any') NOT NULL DEFAULT 'all',
+    rules JSON NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_name (name)
+);
+
+SELECT 'Audience segment tables created successfully!' AS status;
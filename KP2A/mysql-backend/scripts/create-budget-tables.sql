@@ -0,0 +1,24 @@
+-- RAPB (Rencana Anggaran Pendapatan dan Belanja): budget per category per month
+USE sidarsih;
+
+-- Anggaran yang disahkan rapat anggota tahunan, satu baris per kategori per bulan.
+-- Kategori dicatat dengan namanya karena realisasi dihitung dari transaksi (kategori
+-- transaksi) dan pengeluaran (kolom kategori berupa teks) yang dicocokkan berdasarkan nama.
+CREATE TABLE IF NOT EXISTS budgets (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    tahun INT NOT NULL,
+    bulan TINYINT NOT NULL,
+    category_type ENUM('income', 'expense') NOT NULL,
+    category_name VARCHAR(100) NOT NULL,
+    category_id CHAR(36),
+    jumlah DECIMAL(15,2) NOT NULL DEFAULT 0,
+    catatan VARCHAR(255),
+    created_by CHAR(36),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_budget_period (tahun, bulan, category_type, category_name),
+    INDEX idx_tahun (tahun),
+    CHECK (bulan BETWEEN 1 AND 12)
+);
+
+SELECT 'Budget tables created successfully!' AS status;
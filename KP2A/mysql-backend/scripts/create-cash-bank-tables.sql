@@ -0,0 +1,65 @@
+-- Cash & bank ledger: accounts, transfers and double-entry ledger lines
+USE sidarsih;
+
+-- Kas / rekening bank milik koperasi
+CREATE TABLE IF NOT EXISTS cash_bank_accounts (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    name VARCHAR(100) NOT NULL,
+    type ENUM('cash', 'bank') NOT NULL,
+    bank_name VARCHAR(100),
+    account_number VARCHAR(50),
+    opening_balance DECIMAL(15,2) NOT NULL DEFAULT 0,
+    balance DECIMAL(15,2) NOT NULL DEFAULT 0,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_account_name (name)
+);
+
+-- Transfer antar akun (header)
+CREATE TABLE IF NOT EXISTS cash_bank_transfers (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    from_account_id CHAR(36) NOT NULL,
+    to_account_id CHAR(36) NOT NULL,
+    amount DECIMAL(15,2) NOT NULL,
+    description TEXT NOT NULL,
+    transaction_date DATE NOT NULL,
+    status ENUM('completed', 'pending', 'cancelled') DEFAULT 'completed',
+    created_by CHAR(36) NOT NULL,
+    cancelled_by CHAR(36),
+    cancelled_at DATETIME,
+    cancel_reason VARCHAR(500),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (from_account_id) REFERENCES cash_bank_accounts(id),
+    FOREIGN KEY (to_account_id) REFERENCES cash_bank_accounts(id),
+    INDEX idx_transaction_date (transaction_date),
+    INDEX idx_status (status)
+);
+
+-- Baris ledger (double-entry): setiap transfer menghasilkan satu debit dan satu kredit.
+-- Pembatalan tidak menghapus baris, tetapi menambah baris pembalik (reversal_of).
+-- source_type/source_id menunjuk dokumen asal (transfer, pencairan pinjaman, dll).
+CREATE TABLE IF NOT EXISTS cash_bank_entries (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    account_id CHAR(36) NOT NULL,
+    source_type VARCHAR(50) NOT NULL DEFAULT 'transfer',
+    source_id CHAR(36) NOT NULL,
+    entry_type ENUM('debit', 'credit') NOT NULL,
+    amount DECIMAL(15,2) NOT NULL,
+    entry_date DATE NOT NULL,
+    description TEXT,
+    reversal_of CHAR(36),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (account_id) REFERENCES cash_bank_accounts(id),
+    INDEX idx_account_date (account_id, entry_date),
+    INDEX idx_source (source_type, source_id)
+);
+
+-- Default accounts
+INSERT INTO cash_bank_accounts (name, type, bank_name, account_number) VALUES
+('Kas Tunai', 'cash', NULL, NULL),
+('Bank BJB', 'bank', 'Bank BJB', NULL)
+ON DUPLICATE KEY UPDATE name = name;
+
+SELECT 'Cash & bank ledger tables created successfully!' AS status;
@@ -0,0 +1,40 @@
+-- Automatic monthly dues obligations, configurable rates and arrears payments
+USE sidarsih;
+
+-- Iuran hasil generate belum dibayar, sehingga tanggal_bayar boleh kosong.
+-- payment_id menunjuk pembayaran tunggakan yang melunasi iuran ini (bila dibayar lewat dues_payments).
+ALTER TABLE dues
+MODIFY COLUMN tanggal_bayar DATE NULL,
+ADD COLUMN is_generated BOOLEAN NOT NULL DEFAULT FALSE AFTER status,
+ADD COLUMN payment_id CHAR(36) AFTER is_generated;
+
+-- Tarif iuran bulanan. Tarif berlaku mulai berlaku_bulan/berlaku_tahun sampai ada tarif yang lebih baru.
+-- Kewajiban iuran hanya dibuat untuk bulan yang sudah memiliki tarif.
+CREATE TABLE IF NOT EXISTS dues_rates (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    berlaku_bulan INT NOT NULL CHECK (berlaku_bulan >= 1 AND berlaku_bulan <= 12),
+    berlaku_tahun INT NOT NULL,
+    iuran_wajib DECIMAL(15,2) NOT NULL DEFAULT 0,
+    simpanan_wajib DECIMAL(15,2) NOT NULL DEFAULT 0,
+    created_by CHAR(36),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_berlaku (berlaku_tahun, berlaku_bulan)
+);
+
+-- Satu pembayaran tunggakan melunasi beberapa bulan iuran sekaligus, dimulai dari bulan tertua.
+-- Kelebihan yang tidak cukup untuk satu bulan penuh dicatat sebagai iuran sukarela.
+CREATE TABLE IF NOT EXISTS dues_payments (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    member_id CHAR(36) NOT NULL,
+    tanggal_bayar DATE NOT NULL,
+    amount DECIMAL(15,2) NOT NULL,
+    months_paid INT NOT NULL DEFAULT 0,
+    sukarela DECIMAL(15,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    created_by CHAR(36),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE,
+    INDEX idx_member_id (member_id)
+);
+
+SELECT 'Dues generation tables created successfully!' AS status;
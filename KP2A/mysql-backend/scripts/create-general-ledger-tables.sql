@@ -0,0 +1,98 @@
+-- General ledger: chart of accounts, journal entries and journal lines
+USE sidarsih;
+
+-- Bagan akun (chart of accounts)
+-- keywords: daftar kata kunci (dipisah koma) untuk memetakan kategori pengeluaran/transaksi ke akun ini
+CREATE TABLE IF NOT EXISTS chart_of_accounts (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    code VARCHAR(20) NOT NULL,
+    name VARCHAR(150) NOT NULL,
+    type ENUM('asset', 'liability', 'equity', 'income', 'expense') NOT NULL,
+    normal_balance ENUM('debit', 'credit') NOT NULL,
+    parent_code VARCHAR(20),
+    cash_bank_account_id CHAR(36),
+    keywords VARCHAR(500),
+    is_system BOOLEAN DEFAULT FALSE,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_code (code),
+    INDEX idx_type (type)
+);
+
+-- Jurnal (header). Satu dokumen sumber menghasilkan tepat satu jurnal aktif.
+CREATE TABLE IF NOT EXISTS journal_entries (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    entry_date DATE NOT NULL,
+    description TEXT NOT NULL,
+    source_type VARCHAR(50) NOT NULL,
+    source_id CHAR(36) NOT NULL,
+    created_by CHAR(36),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_source (source_type, source_id),
+    INDEX idx_entry_date (entry_date)
+);
+
+-- Baris jurnal (debit/kredit per akun)
+CREATE TABLE IF NOT EXISTS journal_lines (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    journal_id CHAR(36) NOT NULL,
+    account_code VARCHAR(20) NOT NULL,
+    debit DECIMAL(15,2) NOT NULL DEFAULT 0,
+    credit DECIMAL(15,2) NOT NULL DEFAULT 0,
+    memo VARCHAR(255),
+    FOREIGN KEY (journal_id) REFERENCES journal_entries(id) ON DELETE CASCADE,
+    FOREIGN KEY (account_code) REFERENCES chart_of_accounts(code),
+    INDEX idx_account_code (account_code)
+);
+
+-- Simpanan anggota (setoran/penarikan). Nilai negatif = penarikan.
+CREATE TABLE IF NOT EXISTS savings (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    member_id CHAR(36) NOT NULL,
+    type VARCHAR(100) NOT NULL DEFAULT 'Simpanan Sukarela',
+    amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    description TEXT,
+    transaction_date DATE NOT NULL,
+    created_by CHAR(36),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE,
+    INDEX idx_member_id (member_id),
+    INDEX idx_transaction_date (transaction_date)
+);
+
+-- Default chart of accounts
+INSERT INTO chart_of_accounts (code, name, type, normal_balance, parent_code, keywords, is_system) VALUES
+('1-0000', 'Harta', 'asset', 'debit', NULL, NULL, TRUE),
+('1-1100', 'Kas Tunai', 'asset', 'debit', '1-0000', NULL, TRUE),
+('1-1200', 'Bank', 'asset', 'debit', '1-0000', NULL, TRUE),
+('1-1300', 'Piutang Pinjaman Anggota', 'asset', 'debit', '1-0000', NULL, TRUE),
+('2-0000', 'Kewajiban', 'liability', 'credit', NULL, NULL, TRUE),
+('2-1100', 'Simpanan Wajib Anggota', 'liability', 'credit', '2-0000', NULL, TRUE),
+('2-1200', 'Simpanan Sukarela Anggota', 'liability', 'credit', '2-0000', NULL, TRUE),
+('3-0000', 'Modal', 'equity', 'credit', NULL, NULL, TRUE),
+('3-1100', 'Modal Iuran Wajib', 'equity', 'credit', '3-0000', NULL, TRUE),
+('3-9000', 'SHU Ditahan', 'equity', 'credit', '3-0000', NULL, TRUE),
+('4-0000', 'Pendapatan', 'income', 'credit', NULL, NULL, TRUE),
+('4-1100', 'Pendapatan Bunga Pinjaman', 'income', 'credit', '4-0000', NULL, TRUE),
+('4-1900', 'Pendapatan Lain-lain', 'income', 'credit', '4-0000', 'donasi,hibah,lain', TRUE),
+('5-0000', 'Beban', 'expense', 'debit', NULL, NULL, TRUE),
+('5-1100', 'Beban Operasional', 'expense', 'debit', '5-0000', 'operasional,listrik,air,internet,sewa', TRUE),
+('5-1200', 'Beban Administrasi', 'expense', 'debit', '5-0000', 'administrasi,atk,fotokopi,materai,admin bank', TRUE),
+('5-1300', 'Beban Honorarium', 'expense', 'debit', '5-0000', 'honor,gaji,insentif', TRUE),
+('5-1900', 'Beban Lain-lain', 'expense', 'debit', '5-0000', NULL, TRUE)
+ON DUPLICATE KEY UPDATE name = VALUES(name);
+
+-- Link kas/bank accounts from the cash & bank ledger
+UPDATE chart_of_accounts c
+JOIN cash_bank_accounts a ON a.name = 'Kas Tunai'
+SET c.cash_bank_account_id = a.id
+WHERE c.code = '1-1100';
+
+UPDATE chart_of_accounts c
+JOIN cash_bank_accounts a ON a.name = 'Bank BJB'
+SET c.cash_bank_account_id = a.id
+WHERE c.code = '1-1200';
+
+SELECT 'General ledger tables created successfully!' AS status;
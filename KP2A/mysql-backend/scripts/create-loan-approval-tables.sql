@@ -0,0 +1,46 @@
+-- Loan applications: member submissions, multi-level approval and disbursement
+USE sidarsih;
+
+-- pending -> disetujui (cukup persetujuan) -> aktif (dicairkan); atau pending -> ditolak
+ALTER TABLE loans
+MODIFY COLUMN status ENUM('pending', 'disetujui', 'aktif', 'lunas', 'ditolak') DEFAULT 'pending',
+ADD COLUMN tujuan TEXT AFTER tanggal_pinjaman,
+ADD COLUMN applied_by CHAR(36) AFTER tujuan,
+ADD COLUMN approved_at DATETIME AFTER applied_by,
+ADD COLUMN disbursed_at DATETIME AFTER approved_at,
+ADD COLUMN disbursement_account_id CHAR(36) AFTER disbursed_at;
+
+-- Kebijakan pengajuan pinjaman (satu baris).
+-- max_loan_savings_ratio: plafon pinjaman = rasio x total simpanan anggota (0 = tanpa batas)
+-- max_active_loans: jumlah pinjaman berjalan yang boleh dimiliki sekaligus (0 = tanpa batas)
+-- bunga_persen/interest_method: jasa yang dipakai untuk pengajuan dari anggota
+CREATE TABLE IF NOT EXISTS loan_policies (
+    id INT PRIMARY KEY DEFAULT 1,
+    required_approvals INT NOT NULL DEFAULT 2,
+    bunga_persen DECIMAL(5,2) NOT NULL DEFAULT 12,
+    interest_method ENUM('flat', 'efektif', 'anuitas') NOT NULL DEFAULT 'flat',
+    max_loan_savings_ratio DECIMAL(8,2) NOT NULL DEFAULT 3,
+    max_active_loans INT NOT NULL DEFAULT 1,
+    block_on_arrears BOOLEAN NOT NULL DEFAULT TRUE,
+    updated_by CHAR(36),
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+-- Riwayat keputusan dan catatan pengurus per pengajuan
+CREATE TABLE IF NOT EXISTS loan_approvals (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    loan_id CHAR(36) NOT NULL,
+    user_id CHAR(36) NOT NULL,
+    decision ENUM('setuju', 'tolak', 'catatan') NOT NULL,
+    comment TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_loan_id (loan_id)
+);
+
+INSERT INTO loan_policies (id, required_approvals, bunga_persen, interest_method, max_loan_savings_ratio, max_active_loans, block_on_arrears)
+VALUES (1, 2, 12, 'flat', 3, 1, TRUE)
+ON DUPLICATE KEY UPDATE id = id;
+
+SELECT 'Loan approval tables created successfully!' AS status;
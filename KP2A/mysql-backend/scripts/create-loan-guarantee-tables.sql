@@ -0,0 +1,38 @@
+-- Loan guarantors (penjamin) linked to members, and optional collateral (agunan)
+USE sidarsih;
+
+-- Penjamin pinjaman. guaranteed_amount kosong berarti menjamin seluruh sisa pinjaman.
+CREATE TABLE IF NOT EXISTS loan_guarantors (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    loan_id CHAR(36) NOT NULL,
+    member_id CHAR(36) NOT NULL,
+    guaranteed_amount DECIMAL(15,2),
+    notes TEXT,
+    created_by CHAR(36),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_loan_guarantor (loan_id, member_id),
+    FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE,
+    INDEX idx_member_id (member_id)
+);
+
+-- Agunan pinjaman. document_photo menyimpan foto dokumen sebagai data URL (JPEG terkompresi).
+CREATE TABLE IF NOT EXISTS loan_collaterals (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    loan_id CHAR(36) NOT NULL,
+    type ENUM('bpkb', 'sertifikat', 'emas', 'elektronik', 'lainnya') NOT NULL DEFAULT 'lainnya',
+    description TEXT,
+    estimated_value DECIMAL(15,2) NOT NULL DEFAULT 0,
+    document_photo MEDIUMTEXT,
+    created_by CHAR(36),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+    INDEX idx_loan_id (loan_id)
+);
+
+-- Batas jumlah pinjaman berjalan yang boleh dijamin satu anggota (0 = tanpa batas)
+ALTER TABLE loan_policies
+ADD COLUMN max_guarantees_per_member INT NOT NULL DEFAULT 2 AFTER max_active_loans;
+
+SELECT 'Loan guarantee tables created successfully!' AS status;
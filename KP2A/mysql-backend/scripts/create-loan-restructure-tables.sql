@@ -0,0 +1,36 @@
+-- Loan restructuring: tenor extension, rate change, installment pause and early payoff
+USE sidarsih;
+
+-- Riwayat restrukturisasi per pinjaman. Rencana angsuran sebelum dan sesudah perubahan
+-- disimpan utuh (JSON) sebagai jejak audit; baris loan_schedules hanya memuat versi terbaru.
+--   perpanjang_tenor     : sisa pokok diangsur ulang dengan tambahan jumlah_bulan angsuran
+--   ubah_bunga           : sisa pokok diangsur ulang dengan jasa baru, jumlah angsuran tetap
+--   penundaan            : angsuran berikutnya mundur jumlah_bulan bulan tanpa jasa selama penundaan
+--   pelunasan_dipercepat : seluruh sisa ditagih pada tanggal efektif dengan potongan jasa (rebate_persen)
+CREATE TABLE IF NOT EXISTS loan_restructures (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    loan_id CHAR(36) NOT NULL,
+    type ENUM('perpanjang_tenor', 'ubah_bunga', 'penundaan', 'pelunasan_dipercepat') NOT NULL,
+    effective_date DATE NOT NULL,
+    jumlah_bulan INT,
+    rebate_persen DECIMAL(5,2),
+    reason TEXT,
+    tenor_before INT NOT NULL,
+    tenor_after INT NOT NULL,
+    bunga_before DECIMAL(5,2) NOT NULL,
+    bunga_after DECIMAL(5,2) NOT NULL,
+    angsuran_before DECIMAL(15,2) NOT NULL DEFAULT 0,
+    angsuran_after DECIMAL(15,2) NOT NULL DEFAULT 0,
+    sisa_before DECIMAL(15,2) NOT NULL DEFAULT 0,
+    sisa_after DECIMAL(15,2) NOT NULL DEFAULT 0,
+    rebate_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    payment_id CHAR(36),
+    schedule_before JSON NOT NULL,
+    schedule_after JSON NOT NULL,
+    created_by CHAR(36),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+    INDEX idx_loan_created (loan_id, created_at)
+);
+
+SELECT 'Loan restructure tables created successfully!' AS status;
@@ -0,0 +1,45 @@
+-- Loan amortization: interest method per loan, persisted installment plan and payment allocations
+USE sidarsih;
+
+-- flat: jasa dari pokok awal; efektif: jasa dari sisa pokok (pokok tetap); anuitas: angsuran tetap
+ALTER TABLE loans
+ADD COLUMN interest_method ENUM('flat', 'efektif', 'anuitas') NOT NULL DEFAULT 'flat' AFTER bunga_persen;
+
+-- Rencana angsuran per pinjaman
+CREATE TABLE IF NOT EXISTS loan_schedules (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    loan_id CHAR(36) NOT NULL,
+    angsuran_ke INT NOT NULL,
+    due_date DATE NOT NULL,
+    pokok DECIMAL(15,2) NOT NULL DEFAULT 0,
+    bunga DECIMAL(15,2) NOT NULL DEFAULT 0,
+    total DECIMAL(15,2) NOT NULL DEFAULT 0,
+    sisa_pokok DECIMAL(15,2) NOT NULL DEFAULT 0,
+    paid_pokok DECIMAL(15,2) NOT NULL DEFAULT 0,
+    paid_bunga DECIMAL(15,2) NOT NULL DEFAULT 0,
+    status ENUM('belum_bayar', 'sebagian', 'lunas') NOT NULL DEFAULT 'belum_bayar',
+    paid_date DATE,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_loan_installment (loan_id, angsuran_ke),
+    FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+    INDEX idx_due_date (due_date)
+);
+
+-- Pembagian setiap pembayaran ke baris rencana angsuran
+CREATE TABLE IF NOT EXISTS loan_payment_allocations (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    payment_id CHAR(36) NOT NULL,
+    schedule_id CHAR(36) NOT NULL,
+    pokok DECIMAL(15,2) NOT NULL DEFAULT 0,
+    bunga DECIMAL(15,2) NOT NULL DEFAULT 0,
+    FOREIGN KEY (payment_id) REFERENCES loan_payments(id) ON DELETE CASCADE,
+    FOREIGN KEY (schedule_id) REFERENCES loan_schedules(id) ON DELETE CASCADE,
+    INDEX idx_payment_id (payment_id)
+);
+
+-- Satu angsuran dapat dibayar dalam beberapa pembayaran (pembayaran sebagian)
+ALTER TABLE loan_payments DROP INDEX unique_loan_angsuran;
+ALTER TABLE loan_payments ADD INDEX idx_loan_angsuran (loan_id, angsuran_ke);
+
+SELECT 'Loan schedule tables created successfully!' AS status;
@@ -0,0 +1,39 @@
+-- Member meetings (rapat anggota, RAT) and their attendance
+USE sidarsih;
+
+-- Rapat anggota. Kuorum terpenuhi bila jumlah hadir lebih dari kuorum_persen dari anggota aktif.
+-- jumlah_anggota_aktif diisi saat rapat ditutup agar daftar hadir tidak berubah sesudahnya.
+CREATE TABLE IF NOT EXISTS meetings (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    judul VARCHAR(255) NOT NULL,
+    jenis ENUM('rat', 'rapat_anggota', 'rapat_luar_biasa') NOT NULL DEFAULT 'rapat_anggota',
+    tanggal DATETIME NOT NULL,
+    lokasi VARCHAR(255) NOT NULL,
+    agenda TEXT,
+    kuorum_persen DECIMAL(5,2) NOT NULL DEFAULT 50.00,
+    status ENUM('terjadwal', 'berlangsung', 'selesai', 'dibatalkan') NOT NULL DEFAULT 'terjadwal',
+    jumlah_anggota_aktif INT,
+    closed_at DATETIME,
+    created_by CHAR(36),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    INDEX idx_tanggal (tanggal),
+    INDEX idx_status (status)
+);
+
+-- Kehadiran per anggota; metode 'qr' menyimpan serial kartu yang dipindai
+CREATE TABLE IF NOT EXISTS meeting_attendance (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    meeting_id CHAR(36) NOT NULL,
+    member_id CHAR(36) NOT NULL,
+    check_in_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    method ENUM('qr', 'manual') NOT NULL DEFAULT 'qr',
+    card_serial VARCHAR(20),
+    recorded_by CHAR(36),
+    UNIQUE KEY unique_meeting_member (meeting_id, member_id),
+    FOREIGN KEY (meeting_id) REFERENCES meetings(id) ON DELETE CASCADE,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE,
+    INDEX idx_meeting_id (meeting_id)
+);
+
+SELECT 'Meeting tables created successfully!' AS status;
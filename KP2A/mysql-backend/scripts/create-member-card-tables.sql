@@ -0,0 +1,30 @@
+-- Signed member QR cards and their revocation list
+USE sidarsih;
+
+-- Kartu anggota yang ditandatangani kunci koperasi (ECDSA P-256).
+-- Data yang ditandatangani disimpan apa adanya (nama dan ID anggota saat kartu diterbitkan)
+-- sehingga QR kartu tetap sama sampai kartu diterbitkan ulang.
+-- status 'dicabut' dan 'diganti' masuk daftar pencabutan (berdasarkan serial).
+CREATE TABLE IF NOT EXISTS member_cards (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    member_id CHAR(36) NOT NULL,
+    serial VARCHAR(20) NOT NULL,
+    key_id VARCHAR(50) NOT NULL,
+    member_name VARCHAR(255) NOT NULL,
+    id_anggota VARCHAR(50),
+    issued_at DATE NOT NULL,
+    expires_at DATE NOT NULL,
+    signature VARCHAR(200) NOT NULL,
+    status ENUM('aktif', 'dicabut', 'diganti') NOT NULL DEFAULT 'aktif',
+    revoked_at DATETIME,
+    revoked_by CHAR(36),
+    revoke_reason TEXT,
+    issued_by CHAR(36),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_serial (serial),
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE,
+    INDEX idx_member_id (member_id),
+    INDEX idx_status (status)
+);
+
+SELECT 'Member card tables created successfully!' AS status;
@@ -0,0 +1,58 @@
+-- Late-payment penalties (denda) for loan installments and dues
+USE sidarsih;
+
+-- Aturan denda per jenis tagihan.
+-- method 'flat'  : rate = denda tetap (Rupiah) sekali terlambat
+-- method 'harian': rate = persen per hari keterlambatan dari nilai tagihan
+-- Hari keterlambatan dihitung setelah masa tenggang (grace_days) sejak jatuh tempo.
+-- due_day hanya untuk iuran: iuran bulan M jatuh tempo pada tanggal due_day bulan M.
+CREATE TABLE IF NOT EXISTS penalty_rules (
+    target ENUM('loan', 'dues') PRIMARY KEY,
+    grace_days INT NOT NULL DEFAULT 0,
+    method ENUM('flat', 'harian') NOT NULL DEFAULT 'flat',
+    rate DECIMAL(15,4) NOT NULL DEFAULT 0,
+    max_amount DECIMAL(15,2),
+    due_day INT NOT NULL DEFAULT 10,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    updated_by CHAR(36),
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+-- Denda per tagihan yang terlambat. Denda belum_bayar dihitung ulang setiap kali diakses;
+-- denda lunas atau dihapuskan tidak berubah lagi.
+CREATE TABLE IF NOT EXISTS penalties (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    source_type ENUM('loan_schedule', 'due') NOT NULL,
+    source_id CHAR(36) NOT NULL,
+    member_id CHAR(36) NOT NULL,
+    loan_id CHAR(36),
+    due_date DATE NOT NULL,
+    days_late INT NOT NULL DEFAULT 0,
+    base_amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    amount DECIMAL(15,2) NOT NULL DEFAULT 0,
+    status ENUM('belum_bayar', 'lunas', 'dihapuskan') NOT NULL DEFAULT 'belum_bayar',
+    paid_date DATE,
+    cash_account_id CHAR(36),
+    paid_by CHAR(36),
+    waived_reason TEXT,
+    waived_by CHAR(36),
+    waived_at DATETIME,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_source (source_type, source_id),
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE,
+    FOREIGN KEY (loan_id) REFERENCES loans(id) ON DELETE CASCADE,
+    INDEX idx_status (status),
+    INDEX idx_paid_date (paid_date)
+);
+
+INSERT INTO penalty_rules (target, grace_days, method, rate, max_amount, due_day) VALUES
+('loan', 7, 'harian', 0.1, NULL, 10),
+('dues', 10, 'flat', 5000, NULL, 10)
+ON DUPLICATE KEY UPDATE target = target;
+
+INSERT INTO chart_of_accounts (code, name, type, normal_balance, parent_code, keywords, is_system) VALUES
+('4-1200', 'Pendapatan Denda', 'income', 'credit', '4-0000', 'denda', TRUE)
+ON DUPLICATE KEY UPDATE name = VALUES(name);
+
+SELECT 'Penalty tables created successfully!' AS status;
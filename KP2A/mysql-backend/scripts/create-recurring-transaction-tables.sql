@@ -0,0 +1,32 @@
+-- Template transaksi berulang untuk backend MySQL, sama dengan skema Supabase
+USE sidarsih;
+
+-- Setiap jatuh tempo dibuat transaksi pending dengan recurring_transaction_id template ini.
+-- Jatuh tempo mengikuti tanggal start_date (atau hari terakhir bulan bila bulannya lebih pendek).
+-- skipped_dates: array JSON tanggal jatuh tempo yang sengaja dilewati atau terlewat saat dijeda.
+CREATE TABLE IF NOT EXISTS recurring_transactions (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    name VARCHAR(150) NOT NULL,
+    transaction_type ENUM('income', 'expense') NOT NULL,
+    amount DECIMAL(15,2) NOT NULL,
+    category_id CHAR(36) NULL,
+    payment_method_id CHAR(36) NULL,
+    description TEXT,
+    frequency ENUM('monthly', 'quarterly', 'yearly') NOT NULL DEFAULT 'monthly',
+    start_date DATE NOT NULL,
+    end_date DATE NULL,
+    next_due_date DATE NOT NULL,
+    last_generated_date DATE NULL,
+    skipped_dates JSON NULL,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by CHAR(36) NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (category_id) REFERENCES transaction_categories(id) ON DELETE SET NULL,
+    FOREIGN KEY (payment_method_id) REFERENCES payment_methods(id) ON DELETE SET NULL,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_is_active (is_active),
+    INDEX idx_next_due_date (next_due_date)
+);
+
+SELECT 'Recurring transaction tables created successfully!' AS status;
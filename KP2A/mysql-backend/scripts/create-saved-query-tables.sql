@@ -0,0 +1,22 @@
+-- Saved SQL Editor queries, shareable between pengurus
+USE sidarsih;
+
+-- Query SELECT yang disimpan dari SQL Editor. Query hanya dijalankan di browser
+-- melalui parser read-only, server tidak pernah mengeksekusi isi kolom query.
+-- is_shared = TRUE membuat query terlihat (dan dapat dijalankan) oleh semua pengurus,
+-- tetapi hanya pembuatnya (atau admin) yang dapat mengubah atau menghapusnya.
+CREATE TABLE IF NOT EXISTS saved_queries (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    name VARCHAR(150) NOT NULL,
+    description TEXT,
+    query TEXT NOT NULL,
+    is_shared BOOLEAN NOT NULL DEFAULT FALSE,
+    created_by CHAR(36) NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_created_by (created_by),
+    INDEX idx_is_shared (is_shared)
+);
+
+SELECT 'Saved query tables created successfully!' AS status;
@@ -0,0 +1,69 @@
+-- SHU (Sisa Hasil Usaha): allocation scheme, yearly distribution and per-member shares
+USE sidarsih;
+
+-- Skema pembagian SHU. year = 0 adalah skema default untuk tahun yang belum punya skema sendiri.
+-- components: [{ key, label, percent, account_code, basis }] dengan basis 'modal' | 'jasa_pinjaman' | null
+CREATE TABLE IF NOT EXISTS shu_schemes (
+    year INT PRIMARY KEY,
+    components JSON NOT NULL,
+    updated_by CHAR(36),
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+-- Distribusi SHU yang sudah diposting (satu per tahun buku)
+CREATE TABLE IF NOT EXISTS shu_distributions (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    year INT NOT NULL,
+    shu_amount DECIMAL(15,2) NOT NULL,
+    components JSON NOT NULL,
+    total_member_share DECIMAL(15,2) NOT NULL DEFAULT 0,
+    posted_by CHAR(36),
+    posted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_year (year)
+);
+
+-- Bagian SHU per anggota (jasa modal + jasa pinjaman)
+CREATE TABLE IF NOT EXISTS shu_member_shares (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    distribution_id CHAR(36) NOT NULL,
+    member_id CHAR(36) NOT NULL,
+    modal_basis DECIMAL(15,2) NOT NULL DEFAULT 0,
+    interest_basis DECIMAL(15,2) NOT NULL DEFAULT 0,
+    jasa_modal DECIMAL(15,2) NOT NULL DEFAULT 0,
+    jasa_pinjaman DECIMAL(15,2) NOT NULL DEFAULT 0,
+    total DECIMAL(15,2) NOT NULL DEFAULT 0,
+    payout_method ENUM('tunai', 'simpanan'),
+    savings_id CHAR(36),
+    paid_at DATETIME,
+    paid_by CHAR(36),
+    FOREIGN KEY (distribution_id) REFERENCES shu_distributions(id) ON DELETE CASCADE,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_distribution_member (distribution_id, member_id)
+);
+
+-- Simpanan yang berasal dari dokumen lain (mis. SHU dibukukan ke simpanan)
+ALTER TABLE savings
+ADD COLUMN reference_type VARCHAR(50) AFTER transaction_date,
+ADD COLUMN reference_id CHAR(36) AFTER reference_type;
+
+-- Akun penampung alokasi SHU
+INSERT INTO chart_of_accounts (code, name, type, normal_balance, parent_code, keywords, is_system) VALUES
+('2-1300', 'Utang SHU Anggota', 'liability', 'credit', '2-0000', NULL, TRUE),
+('2-1400', 'Dana Pengurus & Karyawan', 'liability', 'credit', '2-0000', NULL, TRUE),
+('2-1500', 'Dana Pendidikan', 'liability', 'credit', '2-0000', NULL, TRUE),
+('2-1600', 'Dana Sosial', 'liability', 'credit', '2-0000', NULL, TRUE),
+('3-2000', 'Dana Cadangan', 'equity', 'credit', '3-0000', NULL, TRUE)
+ON DUPLICATE KEY UPDATE name = VALUES(name);
+
+-- Skema default (total 100%)
+INSERT INTO shu_schemes (year, components) VALUES (0, JSON_ARRAY(
+    JSON_OBJECT('key', 'cadangan', 'label', 'Dana Cadangan', 'percent', 40, 'account_code', '3-2000', 'basis', NULL),
+    JSON_OBJECT('key', 'jasa_modal', 'label', 'Jasa Modal', 'percent', 20, 'account_code', '2-1300', 'basis', 'modal'),
+    JSON_OBJECT('key', 'jasa_pinjaman', 'label', 'Jasa Pinjaman', 'percent', 25, 'account_code', '2-1300', 'basis', 'jasa_pinjaman'),
+    JSON_OBJECT('key', 'pengurus', 'label', 'Dana Pengurus & Karyawan', 'percent', 10, 'account_code', '2-1400', 'basis', NULL),
+    JSON_OBJECT('key', 'pendidikan', 'label', 'Dana Pendidikan', 'percent', 2.5, 'account_code', '2-1500', 'basis', NULL),
+    JSON_OBJECT('key', 'sosial', 'label', 'Dana Sosial', 'percent', 2.5, 'account_code', '2-1600', 'basis', NULL)
+))
+ON DUPLICATE KEY UPDATE year = year;
+
+SELECT 'SHU tables created successfully!' AS status;
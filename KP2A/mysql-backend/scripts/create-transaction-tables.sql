@@ -0,0 +1,35 @@
+-- Transaksi umum (pemasukan/pengeluaran) untuk backend MySQL
+USE sidarsih;
+
+-- Metode pembayaran, sama dengan skema Supabase
+CREATE TABLE IF NOT EXISTS payment_methods (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    name VARCHAR(100) NOT NULL,
+    type VARCHAR(30) NOT NULL DEFAULT 'cash',
+    description TEXT,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_name (name)
+);
+
+INSERT IGNORE INTO payment_methods (name, type, description) VALUES
+('Tunai', 'cash', 'Pembayaran dengan uang tunai'),
+('Transfer Bank', 'bank_transfer', 'Transfer melalui rekening bank');
+
+ALTER TABLE transaction_categories
+ADD COLUMN color_code VARCHAR(20) NULL,
+ADD COLUMN is_active BOOLEAN DEFAULT TRUE,
+ADD COLUMN updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP;
+
+-- status: hanya transaksi approved yang dijurnal. recurring_transaction_id diisi bila transaksi
+-- dibuat dari template transaksi berulang.
+ALTER TABLE transactions
+ADD COLUMN payment_method_id CHAR(36) NULL,
+ADD COLUMN status ENUM('pending', 'approved', 'rejected') NOT NULL DEFAULT 'approved',
+ADD COLUMN recurring_transaction_id CHAR(36) NULL,
+ADD FOREIGN KEY (payment_method_id) REFERENCES payment_methods(id) ON DELETE SET NULL,
+ADD INDEX idx_status (status),
+ADD INDEX idx_recurring (recurring_transaction_id);
+
+SELECT 'Transaction tables updated successfully!' AS status;
@@ -0,0 +1,28 @@
+-- Pengaturan, template balasan dan nomor terverifikasi bot WhatsApp
+USE sidarsih;
+
+-- whatsapp_config dan whatsapp_templates dibuat oleh schema.sql. Template mendapat kategori,
+-- daftar variabel dan status aktif seperti yang dikelola di halaman Bot WhatsApp.
+ALTER TABLE whatsapp_templates
+ADD COLUMN category ENUM('welcome', 'menu', 'balance', 'loan', 'error', 'help') NOT NULL DEFAULT 'help',
+ADD COLUMN variables JSON NULL,
+ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Nomor WhatsApp anggota. Bot hanya melayani nomor yang is_verified = TRUE; nomor disimpan
+-- seperti diketik saat verifikasi dan dibandingkan setelah dinormalisasi.
+CREATE TABLE IF NOT EXISTS whatsapp_verifications (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    member_id CHAR(36) NOT NULL,
+    phone_number VARCHAR(20) NOT NULL,
+    verification_token VARCHAR(255),
+    is_verified BOOLEAN NOT NULL DEFAULT FALSE,
+    verified_at DATETIME NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_phone_number (phone_number),
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE CASCADE,
+    INDEX idx_member_id (member_id),
+    INDEX idx_is_verified (is_verified)
+);
+
+SELECT 'WhatsApp bot tables updated successfully!' AS status;
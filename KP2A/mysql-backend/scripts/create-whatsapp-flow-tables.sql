@@ -0,0 +1,45 @@
+-- Alur percakapan bot WhatsApp untuk backend MySQL, sama dengan skema Supabase
+USE sidarsih;
+
+-- Alur dibuka dengan pesan pemicu (mis. /ajukan), menanyakan langkahnya satu per satu lalu
+-- menjalankan action. steps: [{ id, type, label, prompt, min?, max?, options? }],
+-- action: { type: command, command } | { type: loan_application } | { type: submission, reply? }
+-- active_trigger membuat satu pemicu hanya dipakai satu alur aktif.
+CREATE TABLE IF NOT EXISTS whatsapp_flows (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    `trigger` VARCHAR(50) NOT NULL,
+    title VARCHAR(100) NOT NULL,
+    description TEXT,
+    steps JSON NOT NULL,
+    action JSON NOT NULL,
+    confirm BOOLEAN NOT NULL DEFAULT TRUE,
+    requires_member BOOLEAN NOT NULL DEFAULT TRUE,
+    admin_only BOOLEAN NOT NULL DEFAULT FALSE,
+    timeout_minutes INT NOT NULL DEFAULT 10,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    active_trigger VARCHAR(50) AS (IF(is_active, LOWER(`trigger`), NULL)) STORED,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_active_trigger (active_trigger)
+);
+
+-- Jawaban yang dikirim anggota melalui alur dengan action submission, untuk ditindaklanjuti
+-- pengurus. flow_id bukan foreign key karena alur bawaan bot tidak disimpan di tabel.
+-- media: { mime_type, data } dengan foto sebagai data URL.
+CREATE TABLE IF NOT EXISTS whatsapp_flow_submissions (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    flow_id VARCHAR(100) NOT NULL,
+    flow_title VARCHAR(100) NOT NULL,
+    member_id CHAR(36) NULL,
+    phone_number VARCHAR(20) NOT NULL,
+    answers JSON NOT NULL,
+    media JSON NULL,
+    status ENUM('baru', 'diproses', 'selesai') NOT NULL DEFAULT 'baru',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (member_id) REFERENCES members(id) ON DELETE SET NULL,
+    INDEX idx_status (status, created_at),
+    INDEX idx_flow_id (flow_id)
+);
+
+SELECT 'WhatsApp flow tables created successfully!' AS status;
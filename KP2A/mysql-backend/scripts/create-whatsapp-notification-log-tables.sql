@@ -0,0 +1,28 @@
+-- Log notifikasi WhatsApp untuk backend MySQL
+USE sidarsih;
+
+-- Setiap notifikasi yang dikirim aplikasi. Pengingat terjadwal dikunci dengan jenis pengingat,
+-- pinjaman atau anggota yang dituju dan periodenya (dedup_key "jenis:referensi:periode"), sehingga
+-- run ulang atau tab kedua tidak mengirimnya lagi: insert yang mengklaim pengingat gagal untuk
+-- semua pengirim kecuali yang pertama. Kiriman manual tidak memiliki kunci.
+CREATE TABLE IF NOT EXISTS whatsapp_notification_logs (
+    id CHAR(36) PRIMARY KEY DEFAULT (UUID()),
+    recipient VARCHAR(20) NOT NULL,
+    -- Seperti dikirim pengirim; kiriman manual dapat memakai nomor anggota, bukan members.id
+    member_id VARCHAR(50) NULL,
+    template VARCHAR(50) NOT NULL,
+    message TEXT NOT NULL,
+    status ENUM('pending', 'sent', 'failed') NOT NULL DEFAULT 'pending',
+    kind VARCHAR(50) NULL,
+    reference VARCHAR(50) NULL,
+    period VARCHAR(20) NULL,
+    dedup_key VARCHAR(150) AS (IF(kind IS NULL, NULL, CONCAT(kind, ':', reference, ':', period))) STORED,
+    error TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    UNIQUE KEY unique_reminder (kind, reference, period),
+    INDEX idx_dedup_key (dedup_key),
+    INDEX idx_created_at (created_at)
+);
+
+SELECT 'WhatsApp notification log tables created successfully!' AS status;
@@ -0,0 +1,15 @@
+import crypto from 'crypto';
+
+// Generates the cooperative key pair used to sign member QR cards.
+// Paste the output into .env; the public key is served to scanners by /api/member-cards/trust.
+function generateCardKey() {
+  const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+  const keyId = `kp2a-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}`;
+
+  console.log('# Member card signing key (keep secret, do not commit)');
+  console.log(`MEMBER_CARD_KEY_ID=${keyId}`);
+  console.log(`MEMBER_CARD_PRIVATE_KEY="${pem.trim().replace(/\n/g, '\\n')}"`);
+}
+
+generateCardKey();
@@ -9,6 +9,20 @@ import loansRoutes from './routes/loans.js';
 import expensesRoutes from './routes/expenses.js';
 import usersRoutes from './routes/users.js';
 import reportsRoutes from './routes/reports.js';
+import cashBankRoutes from './routes/cashBank.js';
+import ledgerRoutes from './routes/ledger.js';
+import savingsRoutes from './routes/savings.js';
+import shuRoutes from './routes/shu.js';
+import penaltiesRoutes from './routes/penalties.js';
+import loanApplicationsRoutes from './routes/loanApplications.js';
+import loanGuaranteesRoutes from './routes/loanGuarantees.js';
+import portalRoutes from './routes/portal.js';
+import memberCardsRoutes from './routes/memberCards.js';
+import meetingsRoutes from './routes/meetings.js';
+import savedQueriesRoutes from './routes/savedQueries.js';
+import budgetsRoutes from './routes/budgets.js';
+import transactionsRoutes from './routes/transactions.js';
+import whatsappBotRoutes from './routes/whatsappBot.js';
 
 dotenv.config();
 
@@ -59,7 +73,8 @@ app.use(cors({
     },
     credentials: true
 }));
-app.use(express.json());
+// Collateral document photos are sent as data URLs
+app.use(express.json({ limit: '5mb' }));
 
 // Health check
 app.get('/health', (req, res) => {
@@ -74,6 +89,20 @@ app.use('/api/loans', loansRoutes);
 app.use('/api/expenses', expensesRoutes);
 app.use('/api/users', usersRoutes);
 app.use('/api/reports', reportsRoutes);
+app.use('/api/cash-bank', cashBankRoutes);
+app.use('/api/ledger', ledgerRoutes);
+app.use('/api/savings', savingsRoutes);
+app.use('/api/shu', shuRoutes);
+app.use('/api/penalties', penaltiesRoutes);
+app.use('/api/loan-applications', loanApplicationsRoutes);
+app.use('/api/loan-guarantees', loanGuaranteesRoutes);
+app.use('/api/portal', portalRoutes);
+app.use('/api/member-cards', memberCardsRoutes);
+app.use('/api/meetings', meetingsRoutes);
+app.use('/api/saved-queries', savedQueriesRoutes);
+app.use('/api/budgets', budgetsRoutes);
+app.use('/api/transactions', transactionsRoutes);
+app.use('/api/whatsapp-bot', whatsappBotRoutes);
 
 // Dashboard stats
 app.get('/api/dashboard/stats', async (req, res) => {
@@ -165,6 +194,10 @@ async function start() {
         console.log(`   - Loans: /api/loans`);
         console.log(`   - Expenses: /api/expenses`);
         console.log(`   - Reports: /api/reports`);
+        console.log(`   - Cash & Bank: /api/cash-bank`);
+        console.log(`   - Ledger: /api/ledger`);
+        console.log(`   - Savings: /api/savings`);
+        console.log(`   - SHU: /api/shu`);
         console.log(`   - Dashboard: /api/dashboard/stats`);
     });
 }
@@ -51,3 +51,33 @@ export function requireRole(...roles) {
         next();
     };
 }
+
+// Member self-service routes: the user must be linked to a member
+export function requireMember(req, res, next) {
+    if (!req.user) {
+        return res.status(401).json({ error: 'Tidak terautentikasi' });
+    }
+
+    if (!req.user.member_id) {
+        return res.status(403).json({ error: 'Akun belum terhubung dengan data anggota' });
+    }
+
+    next();
+}
+
+// Anggota only read their own rows: ?member_id is forced to the member in their token
+export function scopeToOwnMember(req, res, next) {
+    if (!req.user || req.user.role !== 'anggota') {
+        return next();
+    }
+
+    return requireMember(req, res, () => {
+        req.query.member_id = req.user.member_id;
+        next();
+    });
+}
+
+// Whether the user may read a row belonging to memberId
+export function canAccessMember(user, memberId) {
+    return user.role !== 'anggota' || (!!user.member_id && user.member_id === memberId);
+}
@@ -0,0 +1,112 @@
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+
+const router = express.Router();
+
+const CATEGORY_TYPES = ['income', 'expense'];
+
+// Each item is one category in one month of the plan
+function validateBudgetItems(items) {
+    if (!Array.isArray(items)) {
+        return 'Data anggaran harus berupa daftar';
+    }
+    const seen = new Set();
+    for (const item of items) {
+        const bulan = Number(item.bulan);
+        const name = String(item.category_name || '').trim();
+        if (!name) {
+            return 'Nama kategori anggaran wajib diisi';
+        }
+        if (!CATEGORY_TYPES.includes(item.category_type)) {
+            return `Jenis kategori ${name} harus income atau expense`;
+        }
+        if (!Number.isInteger(bulan) || bulan < 1 || bulan > 12) {
+            return `Bulan anggaran ${name} tidak valid`;
+        }
+        if (!Number.isFinite(Number(item.jumlah)) || Number(item.jumlah) < 0) {
+            return `Jumlah anggaran ${name} bulan ${bulan} tidak valid`;
+        }
+        const key = `${item.category_type}|${name.toLowerCase()}|${bulan}`;
+        if (seen.has(key)) {
+            return `Kategori ${name} bulan ${bulan} tercantum lebih dari sekali`;
+        }
+        seen.add(key);
+    }
+    return null;
+}
+
+// Budget lines, optionally for one year
+router.get('/', authMiddleware, async (req, res) => {
+    try {
+        const { tahun } = req.query;
+        let query = 'SELECT * FROM budgets WHERE 1=1';
+        const params = [];
+
+        if (tahun) {
+            query += ' AND tahun = ?';
+            params.push(tahun);
+        }
+
+        query += ' ORDER BY tahun DESC, category_type DESC, category_name ASC, bulan ASC';
+
+        const [rows] = await pool.execute(query, params);
+        res.json(rows);
+    } catch (error) {
+        console.error('Get budgets error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data anggaran' });
+    }
+});
+
+// Replace the whole plan of a year, as approved by the annual meeting
+router.put('/:tahun', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const tahun = Number(req.params.tahun);
+    if (!Number.isInteger(tahun) || tahun < 2000 || tahun > 2100) {
+        return res.status(400).json({ error: 'Tahun anggaran tidak valid' });
+    }
+
+    const items = req.body.items;
+    const validationError = validateBudgetItems(items);
+    if (validationError) {
+        return res.status(400).json({ error: validationError });
+    }
+
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+        await conn.execute('DELETE FROM budgets WHERE tahun = ?', [tahun]);
+        for (const item of items) {
+            await conn.execute(
+                `INSERT INTO budgets (id, tahun, bulan, category_type, category_name, category_id, jumlah, catatan, created_by)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    uuidv4(),
+                    tahun,
+                    Number(item.bulan),
+                    item.category_type,
+                    String(item.category_name).trim(),
+                    item.category_id || null,
+                    Number(item.jumlah),
+                    item.catatan || null,
+                    req.user.id
+                ]
+            );
+        }
+        await conn.commit();
+
+        const [rows] = await pool.execute(
+            'SELECT * FROM budgets WHERE tahun = ? ORDER BY category_type DESC, category_name ASC, bulan ASC',
+            [tahun]
+        );
+        res.json(rows);
+    } catch (error) {
+        await conn.rollback();
+        console.error('Save budgets error:', error);
+        res.status(500).json({ error: 'Gagal menyimpan anggaran' });
+    } finally {
+        conn.release();
+    }
+});
+
+export default router;
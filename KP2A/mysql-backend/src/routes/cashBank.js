@@ -0,0 +1,311 @@
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { insertEntry, refreshBalance, reverseSourceEntries } from '../services/cashBank.service.js';
+import { postOpeningBalanceJournal, postTransferJournal, syncJournal } from '../services/journal.service.js';
+
+const router = express.Router();
+
+const TRANSFER_SELECT = `
+    SELECT t.*,
+        fa.name AS from_account_name, fa.type AS from_account_type,
+        ta.name AS to_account_name, ta.type AS to_account_type
+    FROM cash_bank_transfers t
+    JOIN cash_bank_accounts fa ON t.from_account_id = fa.id
+    JOIN cash_bank_accounts ta ON t.to_account_id = ta.id
+`;
+
+// ==================== ACCOUNTS ====================
+
+// Get all accounts
+router.get('/accounts', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const [rows] = await pool.execute(
+            'SELECT * FROM cash_bank_accounts WHERE is_active = TRUE ORDER BY type DESC, name ASC'
+        );
+        res.json(rows);
+    } catch (error) {
+        console.error('Get cash bank accounts error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data akun kas & bank' });
+    }
+});
+
+// Create account
+router.post('/accounts', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { name, type, bank_name, account_number, opening_balance = 0 } = req.body;
+
+        if (!name || !['cash', 'bank'].includes(type)) {
+            return res.status(400).json({ error: 'Data tidak lengkap (name, type wajib diisi)' });
+        }
+
+        const id = uuidv4();
+        await pool.execute(
+            `INSERT INTO cash_bank_accounts (id, name, type, bank_name, account_number, opening_balance, balance)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [id, name, type, bank_name || null, account_number || null, opening_balance, opening_balance]
+        );
+
+        const [rows] = await pool.execute('SELECT * FROM cash_bank_accounts WHERE id = ?', [id]);
+        await syncJournal('opening_balance', conn => postOpeningBalanceJournal(conn, rows[0]));
+        res.status(201).json(rows[0]);
+    } catch (error) {
+        console.error('Create cash bank account error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(400).json({ error: 'Nama akun sudah digunakan' });
+        }
+        res.status(500).json({ error: 'Gagal menambah akun' });
+    }
+});
+
+// Update account details and opening balance (saldo awal); the balance is recomputed from the ledger
+router.put('/accounts/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const { name, bank_name, account_number, opening_balance } = req.body;
+
+    if (name !== undefined && !String(name).trim()) {
+        return res.status(400).json({ error: 'Nama akun wajib diisi' });
+    }
+    if (opening_balance !== undefined && opening_balance !== null && Number.isNaN(parseFloat(opening_balance))) {
+        return res.status(400).json({ error: 'Saldo awal harus berupa angka' });
+    }
+
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+
+        const [accounts] = await conn.execute('SELECT * FROM cash_bank_accounts WHERE id = ? FOR UPDATE', [req.params.id]);
+        if (accounts.length === 0) {
+            await conn.rollback();
+            return res.status(404).json({ error: 'Akun tidak ditemukan' });
+        }
+
+        await conn.execute(
+            `UPDATE cash_bank_accounts SET
+                name = COALESCE(?, name),
+                bank_name = ?,
+                account_number = ?,
+                opening_balance = COALESCE(?, opening_balance)
+             WHERE id = ?`,
+            [
+                name !== undefined ? String(name).trim() : null,
+                bank_name !== undefined ? bank_name || null : accounts[0].bank_name,
+                account_number !== undefined ? account_number || null : accounts[0].account_number,
+                opening_balance !== undefined && opening_balance !== null ? parseFloat(opening_balance) : null,
+                req.params.id
+            ]
+        );
+        await refreshBalance(conn, req.params.id);
+
+        const [rows] = await conn.execute('SELECT * FROM cash_bank_accounts WHERE id = ?', [req.params.id]);
+        await postOpeningBalanceJournal(conn, rows[0]);
+        await conn.commit();
+
+        res.json(rows[0]);
+    } catch (error) {
+        await conn.rollback();
+        console.error('Update cash bank account error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(400).json({ error: 'Nama akun sudah digunakan' });
+        }
+        res.status(500).json({ error: 'Gagal mengubah akun' });
+    } finally {
+        conn.release();
+    }
+});
+
+// Recalculate all account balances from ledger history
+router.post('/accounts/recalculate', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+        const [accounts] = await conn.execute('SELECT id FROM cash_bank_accounts');
+        for (const account of accounts) {
+            await refreshBalance(conn, account.id);
+        }
+        await conn.commit();
+
+        const [rows] = await pool.execute(
+            'SELECT * FROM cash_bank_accounts WHERE is_active = TRUE ORDER BY type DESC, name ASC'
+        );
+        res.json(rows);
+    } catch (error) {
+        await conn.rollback();
+        console.error('Recalculate balances error:', error);
+        res.status(500).json({ error: 'Gagal menghitung ulang saldo' });
+    } finally {
+        conn.release();
+    }
+});
+
+// Get ledger entries of an account (mutasi)
+router.get('/accounts/:id/entries', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const [rows] = await pool.execute(
+            `SELECT * FROM cash_bank_entries WHERE account_id = ? ORDER BY entry_date DESC, created_at DESC`,
+            [req.params.id]
+        );
+        res.json(rows);
+    } catch (error) {
+        console.error('Get account entries error:', error);
+        res.status(500).json({ error: 'Gagal mengambil mutasi akun' });
+    }
+});
+
+// ==================== TRANSFERS ====================
+
+// Get transfers
+router.get('/transfers', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { status } = req.query;
+        let query = TRANSFER_SELECT + ' WHERE 1=1';
+        const params = [];
+
+        if (status) {
+            query += ' AND t.status = ?';
+            params.push(status);
+        }
+
+        query += ' ORDER BY t.transaction_date DESC, t.created_at DESC';
+
+        const [rows] = await pool.execute(query, params);
+        res.json(rows);
+    } catch (error) {
+        console.error('Get transfers error:', error);
+        res.status(500).json({ error: 'Gagal mengambil riwayat transfer' });
+    }
+});
+
+// Create transfer: one credit on the source account, one debit on the destination account
+router.post('/transfers', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const { from_account_id, to_account_id, amount, description, transaction_date } = req.body;
+
+    if (!from_account_id || !to_account_id || !amount || !transaction_date || !description) {
+        return res.status(400).json({ error: 'Data tidak lengkap' });
+    }
+    if (from_account_id === to_account_id) {
+        return res.status(400).json({ error: 'Akun asal dan tujuan tidak boleh sama' });
+    }
+    if (parseFloat(amount) <= 0) {
+        return res.status(400).json({ error: 'Jumlah transfer harus lebih dari 0' });
+    }
+
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+
+        // Lock the source account so concurrent transfers cannot overdraw it
+        const [fromRows] = await conn.execute(
+            'SELECT id FROM cash_bank_accounts WHERE id = ? FOR UPDATE',
+            [from_account_id]
+        );
+        const [toRows] = await conn.execute('SELECT id FROM cash_bank_accounts WHERE id = ?', [to_account_id]);
+        if (fromRows.length === 0 || toRows.length === 0) {
+            await conn.rollback();
+            return res.status(404).json({ error: 'Akun tidak ditemukan' });
+        }
+
+        const available = await refreshBalance(conn, from_account_id);
+        if (parseFloat(amount) > available) {
+            await conn.rollback();
+            return res.status(400).json({ error: 'Saldo tidak mencukupi' });
+        }
+
+        const id = uuidv4();
+        await conn.execute(
+            `INSERT INTO cash_bank_transfers (id, from_account_id, to_account_id, amount, description, transaction_date, status, created_by)
+             VALUES (?, ?, ?, ?, ?, ?, 'completed', ?)`,
+            [id, from_account_id, to_account_id, amount, description, transaction_date, req.user.id]
+        );
+
+        await insertEntry(conn, {
+            accountId: from_account_id,
+            sourceType: 'transfer',
+            sourceId: id,
+            entryType: 'credit',
+            amount,
+            entryDate: transaction_date,
+            description
+        });
+        await insertEntry(conn, {
+            accountId: to_account_id,
+            sourceType: 'transfer',
+            sourceId: id,
+            entryType: 'debit',
+            amount,
+            entryDate: transaction_date,
+            description
+        });
+
+        await refreshBalance(conn, from_account_id);
+        await refreshBalance(conn, to_account_id);
+
+        const [created] = await conn.execute('SELECT * FROM cash_bank_transfers WHERE id = ?', [id]);
+        await postTransferJournal(conn, created[0]);
+        await conn.commit();
+
+        const [rows] = await pool.execute(TRANSFER_SELECT + ' WHERE t.id = ?', [id]);
+        res.status(201).json(rows[0]);
+    } catch (error) {
+        await conn.rollback();
+        console.error('Create transfer error:', error);
+        res.status(500).json({ error: 'Gagal melakukan transfer' });
+    } finally {
+        conn.release();
+    }
+});
+
+// Cancel transfer: post reversing entries, restore both balances and drop its journal.
+// The destination must still hold the amount, otherwise cancelling would overdraw it.
+router.post('/transfers/:id/cancel', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+
+        const [transfers] = await conn.execute(
+            'SELECT * FROM cash_bank_transfers WHERE id = ? FOR UPDATE',
+            [id]
+        );
+        if (transfers.length === 0) {
+            await conn.rollback();
+            return res.status(404).json({ error: 'Transfer tidak ditemukan' });
+        }
+        if (transfers[0].status === 'cancelled') {
+            await conn.rollback();
+            return res.status(400).json({ error: 'Transfer sudah dibatalkan' });
+        }
+
+        await conn.execute('SELECT id FROM cash_bank_accounts WHERE id = ? FOR UPDATE', [transfers[0].to_account_id]);
+        const available = await refreshBalance(conn, transfers[0].to_account_id);
+        if (parseFloat(transfers[0].amount) > available) {
+            await conn.rollback();
+            return res.status(400).json({ error: 'Saldo akun tujuan tidak mencukupi untuk membatalkan transfer' });
+        }
+
+        const today = new Date().toISOString().split('T')[0];
+        await reverseSourceEntries(conn, 'transfer', id, today, `Pembatalan: ${transfers[0].description}`);
+
+        await conn.execute(
+            `UPDATE cash_bank_transfers
+             SET status = 'cancelled', cancelled_by = ?, cancelled_at = NOW(), cancel_reason = ?
+             WHERE id = ?`,
+            [req.user.id, reason || null, id]
+        );
+        await postTransferJournal(conn, { ...transfers[0], status: 'cancelled' });
+        await conn.commit();
+
+        const [rows] = await pool.execute(TRANSFER_SELECT + ' WHERE t.id = ?', [id]);
+        res.json(rows[0]);
+    } catch (error) {
+        await conn.rollback();
+        console.error('Cancel transfer error:', error);
+        res.status(500).json({ error: 'Gagal membatalkan transfer' });
+    } finally {
+        conn.release();
+    }
+});
+
+export default router;
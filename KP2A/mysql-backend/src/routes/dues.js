@@ -1,14 +1,30 @@
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import pool from '../config/database.js';
-import { authMiddleware } from '../middleware/auth.js';
+import { authMiddleware, canAccessMember, requireRole, scopeToOwnMember } from '../middleware/auth.js';
+import { reverseReceipt, syncDueReceipt } from '../services/cashBank.service.js';
+import { postDueJournal, removeJournal, syncJournal } from '../services/journal.service.js';
+import {
+    currentPeriod,
+    generateDues,
+    getArrears,
+    getMatrix,
+    listPayments,
+    listRates,
+    payArrears,
+    previewArrearsPayment,
+    saveRate,
+    validateRate
+} from '../services/dues.service.js';
+import { CONFLICT_MESSAGE, expectedVersion, findByClientRef, versionGuard } from '../services/sync.service.js';
 
 const router = express.Router();
 
 // Get all dues with member info
-router.get('/', authMiddleware, async (req, res) => {
+router.get('/', authMiddleware, scopeToOwnMember, async (req, res) => {
     try {
         const { bulan, tahun, member_id } = req.query;
+        await generateDues(pool);
 
         let query = `
       SELECT d.*, m.nama_lengkap, m.id_anggota 
@@ -41,6 +57,167 @@ router.get('/', authMiddleware, async (req, res) => {
     }
 });
 
+// ==================== RATES ====================
+
+router.get('/rates', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        res.json(await listRates(pool));
+    } catch (error) {
+        console.error('Get dues rates error:', error);
+        res.status(500).json({ error: 'Gagal mengambil tarif iuran' });
+    }
+});
+
+// Add a rate starting from a month (replaces the rate of the same month)
+router.post('/rates', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const rateError = validateRate(req.body);
+        if (rateError) {
+            return res.status(400).json({ error: rateError });
+        }
+
+        const rates = await saveRate(pool, req.body, req.user.id);
+        await generateDues(pool);
+        res.status(201).json(rates);
+    } catch (error) {
+        console.error('Save dues rate error:', error);
+        res.status(500).json({ error: 'Gagal menyimpan tarif iuran' });
+    }
+});
+
+// Obligations already generated from the rate are kept
+router.delete('/rates/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const [result] = await pool.execute('DELETE FROM dues_rates WHERE id = ?', [req.params.id]);
+        if (result.affectedRows === 0) {
+            return res.status(404).json({ error: 'Tarif iuran tidak ditemukan' });
+        }
+
+        res.json(await listRates(pool));
+    } catch (error) {
+        console.error('Delete dues rate error:', error);
+        res.status(500).json({ error: 'Gagal menghapus tarif iuran' });
+    }
+});
+
+// ==================== GENERATION & ARREARS ====================
+
+// Generate missing obligations up to a month (default: this month)
+router.post('/generate', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const until = req.body.bulan && req.body.tahun
+            ? { bulan: parseInt(req.body.bulan, 10), tahun: parseInt(req.body.tahun, 10) }
+            : currentPeriod();
+        if (!(until.bulan >= 1 && until.bulan <= 12) || !(until.tahun >= 2000)) {
+            return res.status(400).json({ error: 'Periode tidak valid' });
+        }
+
+        const created = await generateDues(pool, until);
+        res.json({ created, ...until });
+    } catch (error) {
+        console.error('Generate dues error:', error);
+        res.status(500).json({ error: 'Gagal membuat kewajiban iuran' });
+    }
+});
+
+// Unpaid months up to this month, per member. Anggota only see their own.
+router.get('/arrears', authMiddleware, scopeToOwnMember, async (req, res) => {
+    try {
+        await generateDues(pool);
+        res.json(await getArrears(pool, { memberId: req.query.member_id }));
+    } catch (error) {
+        console.error('Get dues arrears error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data tunggakan iuran' });
+    }
+});
+
+// Member x month payment matrix of one year
+router.get('/matrix', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const tahun = parseInt(req.query.tahun, 10) || currentPeriod().tahun;
+        await generateDues(pool);
+        res.json(await getMatrix(pool, tahun));
+    } catch (error) {
+        console.error('Get dues matrix error:', error);
+        res.status(500).json({ error: 'Gagal mengambil matriks iuran' });
+    }
+});
+
+router.get('/payments', authMiddleware, scopeToOwnMember, async (req, res) => {
+    try {
+        res.json(await listPayments(pool, req.query.member_id));
+    } catch (error) {
+        console.error('Get dues payments error:', error);
+        res.status(500).json({ error: 'Gagal mengambil riwayat pembayaran tunggakan' });
+    }
+});
+
+// Months an amount would settle, without saving
+router.post('/payments/preview', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { member_id, amount } = req.body;
+        if (!member_id) {
+            return res.status(400).json({ error: 'Anggota wajib dipilih' });
+        }
+
+        const plan = await previewArrearsPayment(pool, member_id, amount);
+        if (plan.error) {
+            return res.status(400).json({ error: plan.error });
+        }
+        res.json(plan);
+    } catch (error) {
+        console.error('Preview dues payment error:', error);
+        res.status(500).json({ error: 'Gagal menghitung pembayaran tunggakan' });
+    }
+});
+
+// One payment settling several months of arrears, oldest first
+router.post('/payments', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const { member_id, amount, tanggal_bayar, notes, cash_account_id } = req.body;
+    if (!member_id || !tanggal_bayar) {
+        return res.status(400).json({ error: 'Data tidak lengkap (member_id, amount, tanggal_bayar wajib)' });
+    }
+
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+
+        const plan = await previewArrearsPayment(conn, member_id, amount);
+        if (plan.error) {
+            await conn.rollback();
+            return res.status(400).json({ error: plan.error });
+        }
+
+        const payment = await payArrears(conn, member_id, plan, { tanggal_bayar, notes, cash_account_id }, req.user.id);
+
+        const placeholders = payment.dues_ids.map(() => '?').join(', ');
+        const [settled] = await conn.execute(
+            `SELECT d.*, m.nama_lengkap, m.id_anggota
+             FROM dues d
+             JOIN members m ON d.member_id = m.id
+             WHERE d.id IN (${placeholders})
+             ORDER BY d.tahun ASC, d.bulan ASC`,
+            payment.dues_ids
+        );
+        for (const due of settled) {
+            await syncDueReceipt(conn, due);
+        }
+        await conn.commit();
+
+        for (const due of settled) {
+            await syncJournal('due', c => postDueJournal(c, due));
+        }
+
+        res.status(201).json({ id: payment.id, sukarela: plan.sukarela, dues: settled });
+    } catch (error) {
+        await conn.rollback();
+        console.error('Pay dues arrears error:', error);
+        res.status(500).json({ error: 'Gagal mencatat pembayaran tunggakan' });
+    } finally {
+        conn.release();
+    }
+});
+
 // Get dues by ID
 router.get('/:id', authMiddleware, async (req, res) => {
     try {
@@ -52,7 +229,7 @@ router.get('/:id', authMiddleware, async (req, res) => {
             [req.params.id]
         );
 
-        if (rows.length === 0) {
+        if (rows.length === 0 || !canAccessMember(req.user, rows[0].member_id)) {
             return res.status(404).json({ error: 'Iuran tidak ditemukan' });
         }
 
@@ -63,12 +240,13 @@ router.get('/:id', authMiddleware, async (req, res) => {
     }
 });
 
-// Create due
-router.post('/', authMiddleware, async (req, res) => {
+// Create due; a due created as lunas is received into the chosen cash account
+router.post('/', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const conn = await pool.getConnection();
     try {
         if (!req.body.member_id && req.body.id_anggota) {
             // Lookup member_id by id_anggota
-            const [members] = await pool.execute('SELECT id FROM members WHERE id_anggota = ?', [req.body.id_anggota]);
+            const [members] = await conn.execute('SELECT id FROM members WHERE id_anggota = ?', [req.body.id_anggota]);
             if (members.length > 0) {
                 req.body.member_id = members[0].id;
             } else {
@@ -84,56 +262,68 @@ router.post('/', authMiddleware, async (req, res) => {
             iuran_sukarela = 0,
             simpanan_wajib = 0,
             tanggal_bayar,
-            status = 'belum_lunas'
+            status = 'belum_lunas',
+            cash_account_id,
+            client_ref
         } = req.body;
 
         if (!member_id || !bulan || !tahun || !tanggal_bayar) {
             return res.status(400).json({ error: 'Data tidak lengkap (member_id/id_anggota, bulan, tahun, tanggal_bayar wajib)' });
         }
 
+        // Replayed from the offline queue after the first attempt already went through
+        const existing = await findByClientRef(conn, 'dues', client_ref);
+        if (existing) {
+            const [rows] = await conn.execute(
+                `SELECT d.*, m.nama_lengkap, m.id_anggota 
+       FROM dues d 
+       JOIN members m ON d.member_id = m.id 
+       WHERE d.id = ?`,
+                [existing.id]
+            );
+            return res.json(rows[0]);
+        }
+
         const id = uuidv4();
+        await conn.beginTransaction();
 
-        await pool.execute(
-            `INSERT INTO dues (id, member_id, bulan, tahun, iuran_wajib, iuran_sukarela, simpanan_wajib, tanggal_bayar, status)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [id, member_id, bulan, tahun, iuran_wajib, iuran_sukarela, simpanan_wajib, tanggal_bayar, status]
+        await conn.execute(
+            `INSERT INTO dues (id, member_id, bulan, tahun, iuran_wajib, iuran_sukarela, simpanan_wajib, tanggal_bayar, status, cash_account_id, client_ref)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [id, member_id, bulan, tahun, iuran_wajib, iuran_sukarela, simpanan_wajib, tanggal_bayar, status, cash_account_id || null, client_ref || null]
         );
 
-        const [rows] = await pool.execute(
+        const [rows] = await conn.execute(
             `SELECT d.*, m.nama_lengkap, m.id_anggota 
        FROM dues d 
        JOIN members m ON d.member_id = m.id 
        WHERE d.id = ?`,
             [id]
         );
+        await syncDueReceipt(conn, rows[0]);
+        await conn.commit();
+
+        await syncJournal('due', c => postDueJournal(c, rows[0]));
         res.status(201).json(rows[0]);
     } catch (error) {
+        await conn.rollback();
         console.error('Create due error:', error);
         if (error.code === 'ER_DUP_ENTRY') {
             return res.status(400).json({ error: 'Iuran untuk bulan/tahun ini sudah ada' });
         }
         res.status(500).json({ error: 'Gagal menambah iuran' });
+    } finally {
+        conn.release();
     }
 });
 
 // Update due
-router.put('/:id', authMiddleware, async (req, res) => {
+router.put('/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const conn = await pool.getConnection();
     try {
         const { id } = req.params;
-        const { iuran_wajib, iuran_sukarela, simpanan_wajib, tanggal_bayar, status } = req.body;
-
-        await pool.execute(
-            `UPDATE dues SET 
-        iuran_wajib = COALESCE(?, iuran_wajib),
-        iuran_sukarela = COALESCE(?, iuran_sukarela),
-        simpanan_wajib = COALESCE(?, simpanan_wajib),
-        tanggal_bayar = COALESCE(?, tanggal_bayar),
-        status = COALESCE(?, status)
-       WHERE id = ?`,
-            [iuran_wajib, iuran_sukarela, simpanan_wajib, tanggal_bayar, status, id]
-        );
-
-        const [rows] = await pool.execute(
+        const { iuran_wajib, iuran_sukarela, simpanan_wajib, tanggal_bayar, status, cash_account_id } = req.body;
+        const selectDue = () => conn.execute(
             `SELECT d.*, m.nama_lengkap, m.id_anggota 
        FROM dues d 
        JOIN members m ON d.member_id = m.id 
@@ -141,33 +331,80 @@ router.put('/:id', authMiddleware, async (req, res) => {
             [id]
         );
 
-        if (rows.length === 0) {
+        await conn.beginTransaction();
+
+        const [current] = await selectDue();
+        if (current.length === 0) {
+            await conn.rollback();
             return res.status(404).json({ error: 'Iuran tidak ditemukan' });
         }
 
+        const guard = versionGuard(expectedVersion(req.body));
+        const [result] = await conn.execute(
+            `UPDATE dues SET 
+        iuran_wajib = COALESCE(?, iuran_wajib),
+        iuran_sukarela = COALESCE(?, iuran_sukarela),
+        simpanan_wajib = COALESCE(?, simpanan_wajib),
+        tanggal_bayar = COALESCE(?, tanggal_bayar, IF(COALESCE(?, status) = 'lunas', CURDATE(), NULL)),
+        status = COALESCE(?, status),
+        cash_account_id = COALESCE(?, cash_account_id),
+        version = version + 1
+       WHERE id = ?${guard.clause}`,
+            [iuran_wajib ?? null, iuran_sukarela ?? null, simpanan_wajib ?? null, tanggal_bayar ?? null, status ?? null, status ?? null,
+                cash_account_id || null, id, ...guard.params]
+        );
+        if (result.affectedRows === 0) {
+            await conn.rollback();
+            const [latest] = await selectDue();
+            return res.status(409).json({ error: CONFLICT_MESSAGE, conflict: true, current: latest[0] });
+        }
+
+        const [rows] = await selectDue();
+        await syncDueReceipt(conn, rows[0]);
+        await conn.commit();
+
+        await syncJournal('due', c => postDueJournal(c, rows[0]));
         res.json(rows[0]);
     } catch (error) {
+        await conn.rollback();
         console.error('Update due error:', error);
         res.status(500).json({ error: 'Gagal mengupdate iuran' });
+    } finally {
+        conn.release();
     }
 });
 
 // Delete due
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const conn = await pool.getConnection();
     try {
-        const [result] = await pool.execute(
-            'DELETE FROM dues WHERE id = ?',
-            [req.params.id]
-        );
+        await conn.beginTransaction();
 
-        if (result.affectedRows === 0) {
+        const [current] = await conn.execute('SELECT * FROM dues WHERE id = ?', [req.params.id]);
+        if (current.length === 0) {
+            await conn.rollback();
             return res.status(404).json({ error: 'Iuran tidak ditemukan' });
         }
 
+        const guard = versionGuard(expectedVersion(req.query));
+        const [result] = await conn.execute(`DELETE FROM dues WHERE id = ?${guard.clause}`, [req.params.id, ...guard.params]);
+        if (result.affectedRows === 0) {
+            await conn.rollback();
+            const [latest] = await conn.execute('SELECT * FROM dues WHERE id = ?', [req.params.id]);
+            return res.status(409).json({ error: CONFLICT_MESSAGE, conflict: true, current: latest[0] });
+        }
+
+        await reverseReceipt(conn, 'due', req.params.id, `Iuran ${current[0].bulan}/${current[0].tahun}`);
+        await conn.commit();
+
+        await syncJournal('due', c => removeJournal(c, 'due', req.params.id));
         res.json({ message: 'Iuran berhasil dihapus' });
     } catch (error) {
+        await conn.rollback();
         console.error('Delete due error:', error);
         res.status(500).json({ error: 'Gagal menghapus iuran' });
+    } finally {
+        conn.release();
     }
 });
 
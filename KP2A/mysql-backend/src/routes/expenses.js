@@ -1,12 +1,14 @@
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import pool from '../config/database.js';
-import { authMiddleware } from '../middleware/auth.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { postExpenseJournal, removeJournal, syncJournal } from '../services/journal.service.js';
+import { CONFLICT_MESSAGE, expectedVersion, findByClientRef, versionGuard } from '../services/sync.service.js';
 
 const router = express.Router();
 
 // Get all expenses
-router.get('/', authMiddleware, async (req, res) => {
+router.get('/', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
     try {
         const { kategori, status_otorisasi, tanggal_start, tanggal_end } = req.query;
 
@@ -41,7 +43,7 @@ router.get('/', authMiddleware, async (req, res) => {
 });
 
 // Get expense by ID
-router.get('/:id', authMiddleware, async (req, res) => {
+router.get('/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
     try {
         const [rows] = await pool.execute(
             'SELECT * FROM expenses WHERE id = ?',
@@ -60,7 +62,7 @@ router.get('/:id', authMiddleware, async (req, res) => {
 });
 
 // Create expense
-router.post('/', authMiddleware, async (req, res) => {
+router.post('/', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
     try {
         const {
             type = 'debit',
@@ -69,23 +71,32 @@ router.post('/', authMiddleware, async (req, res) => {
             jumlah,
             tanggal,
             bukti_pengeluaran,
-            status_otorisasi = 'pending'
+            status_otorisasi = 'pending',
+            client_ref
         } = req.body;
 
         if (!kategori || jumlah === undefined || jumlah === null || !tanggal) {
             return res.status(400).json({ error: 'Data tidak lengkap (kategori, jumlah, tanggal wajib diisi)' });
         }
 
+        // Replayed from the offline queue after the first attempt already went through
+        const existing = await findByClientRef(pool, 'expenses', client_ref);
+        if (existing) {
+            const [rows] = await pool.execute('SELECT * FROM expenses WHERE id = ?', [existing.id]);
+            return res.json(rows[0]);
+        }
+
         const id = uuidv4();
         const created_by = req.user.id;
 
         await pool.execute(
-            `INSERT INTO expenses (id, type, kategori, deskripsi, jumlah, tanggal, bukti_pengeluaran, status_otorisasi, created_by)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [id, type, kategori, deskripsi || '', jumlah, tanggal, bukti_pengeluaran || null, status_otorisasi, created_by]
+            `INSERT INTO expenses (id, type, kategori, deskripsi, jumlah, tanggal, bukti_pengeluaran, status_otorisasi, created_by, client_ref)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [id, type, kategori, deskripsi || '', jumlah, tanggal, bukti_pengeluaran || null, status_otorisasi, created_by, client_ref || null]
         );
 
         const [rows] = await pool.execute('SELECT * FROM expenses WHERE id = ?', [id]);
+        await syncJournal('expense', conn => postExpenseJournal(conn, rows[0]));
         res.status(201).json(rows[0]);
     } catch (error) {
         console.error('Create expense error:', error);
@@ -100,12 +111,18 @@ router.post('/', authMiddleware, async (req, res) => {
 });
 
 // Update expense
-router.put('/:id', authMiddleware, async (req, res) => {
+router.put('/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
     try {
         const { id } = req.params;
         const { type, kategori, deskripsi, jumlah, tanggal, bukti_pengeluaran, status_otorisasi, authorized_by } = req.body;
 
-        await pool.execute(
+        const [current] = await pool.execute('SELECT * FROM expenses WHERE id = ?', [id]);
+        if (current.length === 0) {
+            return res.status(404).json({ error: 'Pengeluaran tidak ditemukan' });
+        }
+
+        const guard = versionGuard(expectedVersion(req.body));
+        const [result] = await pool.execute(
             `UPDATE expenses SET 
         type = COALESCE(?, type),
         kategori = COALESCE(?, kategori),
@@ -114,16 +131,21 @@ router.put('/:id', authMiddleware, async (req, res) => {
         tanggal = COALESCE(?, tanggal),
         bukti_pengeluaran = COALESCE(?, bukti_pengeluaran),
         status_otorisasi = COALESCE(?, status_otorisasi),
-        authorized_by = COALESCE(?, authorized_by)
-       WHERE id = ?`,
-            [type || null, kategori || null, deskripsi || null, jumlah || null, tanggal || null, bukti_pengeluaran || null, status_otorisasi || null, authorized_by || null, id]
+        authorized_by = COALESCE(?, authorized_by),
+        version = version + 1
+       WHERE id = ?${guard.clause}`,
+            [type || null, kategori || null, deskripsi || null, jumlah || null, tanggal || null, bukti_pengeluaran || null, status_otorisasi || null, authorized_by || null, id, ...guard.params]
         );
 
         const [rows] = await pool.execute('SELECT * FROM expenses WHERE id = ?', [id]);
         if (rows.length === 0) {
             return res.status(404).json({ error: 'Pengeluaran tidak ditemukan' });
         }
+        if (result.affectedRows === 0) {
+            return res.status(409).json({ error: CONFLICT_MESSAGE, conflict: true, current: rows[0] });
+        }
 
+        await syncJournal('expense', conn => postExpenseJournal(conn, rows[0]));
         res.json(rows[0]);
     } catch (error) {
         console.error('Update expense error:', error);
@@ -132,17 +154,24 @@ router.put('/:id', authMiddleware, async (req, res) => {
 });
 
 // Delete expense
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
     try {
-        const [result] = await pool.execute(
-            'DELETE FROM expenses WHERE id = ?',
-            [req.params.id]
-        );
+        const [current] = await pool.execute('SELECT * FROM expenses WHERE id = ?', [req.params.id]);
+        if (current.length === 0) {
+            return res.status(404).json({ error: 'Pengeluaran tidak ditemukan' });
+        }
 
+        const guard = versionGuard(expectedVersion(req.query));
+        const [result] = await pool.execute(`DELETE FROM expenses WHERE id = ?${guard.clause}`, [req.params.id, ...guard.params]);
         if (result.affectedRows === 0) {
-            return res.status(404).json({ error: 'Pengeluaran tidak ditemukan' });
+            const [latest] = await pool.execute('SELECT * FROM expenses WHERE id = ?', [req.params.id]);
+            if (latest.length === 0) {
+                return res.status(404).json({ error: 'Pengeluaran tidak ditemukan' });
+            }
+            return res.status(409).json({ error: CONFLICT_MESSAGE, conflict: true, current: latest[0] });
         }
 
+        await syncJournal('expense', conn => removeJournal(conn, 'expense', req.params.id));
         res.json({ message: 'Pengeluaran berhasil dihapus' });
     } catch (error) {
         console.error('Delete expense error:', error);
@@ -151,7 +180,7 @@ router.delete('/:id', authMiddleware, async (req, res) => {
 });
 
 // Approve/Reject expense
-router.post('/:id/authorize', authMiddleware, async (req, res) => {
+router.post('/:id/authorize', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
     try {
         const { id } = req.params;
         const { status } = req.body; // 'approved' or 'rejected'
@@ -161,7 +190,7 @@ router.post('/:id/authorize', authMiddleware, async (req, res) => {
         }
 
         await pool.execute(
-            'UPDATE expenses SET status_otorisasi = ?, authorized_by = ? WHERE id = ?',
+            'UPDATE expenses SET status_otorisasi = ?, authorized_by = ?, version = version + 1 WHERE id = ?',
             [status, req.user.id, id]
         );
 
@@ -170,6 +199,7 @@ router.post('/:id/authorize', authMiddleware, async (req, res) => {
             return res.status(404).json({ error: 'Pengeluaran tidak ditemukan' });
         }
 
+        await syncJournal('expense', conn => postExpenseJournal(conn, rows[0]));
         res.json(rows[0]);
     } catch (error) {
         console.error('Authorize expense error:', error);
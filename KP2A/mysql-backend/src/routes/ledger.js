@@ -0,0 +1,184 @@
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import {
+    getAccountBalances,
+    getBalanceSheet,
+    getGeneralLedger,
+    getTrialBalance,
+    rebuildLedger
+} from '../services/journal.service.js';
+
+const router = express.Router();
+
+// ==================== CHART OF ACCOUNTS ====================
+
+// Get chart of accounts with balances
+router.get('/accounts', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { as_of } = req.query;
+        const accounts = await getAccountBalances(pool, { asOf: as_of });
+        res.json(accounts);
+    } catch (error) {
+        console.error('Get chart of accounts error:', error);
+        res.status(500).json({ error: 'Gagal mengambil bagan akun' });
+    }
+});
+
+// Create account
+router.post('/accounts', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { code, name, type, parent_code, keywords } = req.body;
+        const validTypes = ['asset', 'liability', 'equity', 'income', 'expense'];
+
+        if (!code || !name || !validTypes.includes(type)) {
+            return res.status(400).json({ error: 'Data tidak lengkap (code, name, type wajib diisi)' });
+        }
+
+        const normalBalance = ['asset', 'expense'].includes(type) ? 'debit' : 'credit';
+        await pool.execute(
+            `INSERT INTO chart_of_accounts (id, code, name, type, normal_balance, parent_code, keywords)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [uuidv4(), code, name, type, normalBalance, parent_code || null, keywords || null]
+        );
+
+        const [rows] = await pool.execute('SELECT * FROM chart_of_accounts WHERE code = ?', [code]);
+        res.status(201).json(rows[0]);
+    } catch (error) {
+        console.error('Create account error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(400).json({ error: 'Kode akun sudah digunakan' });
+        }
+        res.status(500).json({ error: 'Gagal menambah akun' });
+    }
+});
+
+// Update account name / keywords (kode dan tipe tidak dapat diubah)
+router.put('/accounts/:code', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { name, keywords, is_active } = req.body;
+
+        await pool.execute(
+            `UPDATE chart_of_accounts SET
+                name = COALESCE(?, name),
+                keywords = COALESCE(?, keywords),
+                is_active = COALESCE(?, is_active)
+             WHERE code = ?`,
+            [name || null, keywords ?? null, is_active ?? null, req.params.code]
+        );
+
+        const [rows] = await pool.execute('SELECT * FROM chart_of_accounts WHERE code = ?', [req.params.code]);
+        if (rows.length === 0) {
+            return res.status(404).json({ error: 'Akun tidak ditemukan' });
+        }
+
+        res.json(rows[0]);
+    } catch (error) {
+        console.error('Update account error:', error);
+        res.status(500).json({ error: 'Gagal mengupdate akun' });
+    }
+});
+
+// ==================== JOURNALS ====================
+
+// Get journals with lines
+router.get('/journals', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { start, end, source_type } = req.query;
+
+        let query = 'SELECT * FROM journal_entries WHERE 1=1';
+        const params = [];
+
+        if (start) {
+            query += ' AND entry_date >= ?';
+            params.push(start);
+        }
+        if (end) {
+            query += ' AND entry_date <= ?';
+            params.push(end);
+        }
+        if (source_type) {
+            query += ' AND source_type = ?';
+            params.push(source_type);
+        }
+
+        query += ' ORDER BY entry_date DESC, created_at DESC LIMIT 500';
+
+        const [journals] = await pool.execute(query, params);
+        if (journals.length === 0) {
+            return res.json([]);
+        }
+
+        const placeholders = journals.map(() => '?').join(', ');
+        const [lines] = await pool.execute(
+            `SELECT l.*, c.name AS account_name
+             FROM journal_lines l
+             JOIN chart_of_accounts c ON l.account_code = c.code
+             WHERE l.journal_id IN (${placeholders})
+             ORDER BY l.debit DESC`,
+            journals.map(j => j.id)
+        );
+
+        res.json(journals.map(journal => ({
+            ...journal,
+            lines: lines.filter(line => line.journal_id === journal.id)
+        })));
+    } catch (error) {
+        console.error('Get journals error:', error);
+        res.status(500).json({ error: 'Gagal mengambil jurnal' });
+    }
+});
+
+// Re-post every journal from the source documents
+router.post('/rebuild', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+        const counts = await rebuildLedger(conn);
+        await conn.commit();
+        res.json({ message: 'Jurnal berhasil disusun ulang', counts });
+    } catch (error) {
+        await conn.rollback();
+        console.error('Rebuild ledger error:', error);
+        res.status(500).json({ error: `Gagal menyusun ulang jurnal: ${error.message}` });
+    } finally {
+        conn.release();
+    }
+});
+
+// ==================== REPORTS ====================
+
+router.get('/trial-balance', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        res.json(await getTrialBalance(pool, req.query.as_of));
+    } catch (error) {
+        console.error('Get trial balance error:', error);
+        res.status(500).json({ error: 'Gagal mengambil neraca saldo' });
+    }
+});
+
+router.get('/balance-sheet', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        res.json(await getBalanceSheet(pool, req.query.as_of));
+    } catch (error) {
+        console.error('Get balance sheet error:', error);
+        res.status(500).json({ error: 'Gagal mengambil neraca' });
+    }
+});
+
+router.get('/general-ledger/:code', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { start, end } = req.query;
+        const ledger = await getGeneralLedger(pool, req.params.code, { start, end });
+        if (!ledger) {
+            return res.status(404).json({ error: 'Akun tidak ditemukan' });
+        }
+        res.json(ledger);
+    } catch (error) {
+        console.error('Get general ledger error:', error);
+        res.status(500).json({ error: 'Gagal mengambil buku besar' });
+    }
+});
+
+export default router;
@@ -0,0 +1,300 @@
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { refreshBalance } from '../services/cashBank.service.js';
+import { INTEREST_METHODS, generateSchedule, saveSchedule, summarizeSchedule } from '../services/loanSchedule.service.js';
+import {
+    LOAN_DECISIONS,
+    disburseLoan,
+    evaluateApplication,
+    getApprovals,
+    getPolicy,
+    recordDecision,
+    savePolicy,
+    tallyDecisions,
+    validatePolicy
+} from '../services/loanApproval.service.js';
+
+const router = express.Router();
+
+const APPLICATION_SELECT = `
+    SELECT l.*, m.nama_lengkap, m.id_anggota, u.email AS applied_by_email
+    FROM loans l
+    JOIN members m ON l.member_id = m.id
+    LEFT JOIN users u ON l.applied_by = u.id`;
+
+// Application with its policy checks and decision history
+const loadApplication = async (conn, id, policy) => {
+    const [rows] = await conn.execute(APPLICATION_SELECT + ' WHERE l.id = ?', [id]);
+    if (rows.length === 0) return null;
+
+    const loan = rows[0];
+    const approvals = await getApprovals(conn, id);
+    const evaluation = await evaluateApplication(conn, loan, policy);
+    return {
+        ...loan,
+        ...evaluation,
+        approvals,
+        approval_count: tallyDecisions(approvals).approvals,
+        required_approvals: policy.required_approvals
+    };
+};
+
+const canSee = (user, loan) => user.role !== 'anggota' || loan.member_id === user.member_id;
+
+// ==================== POLICY ====================
+
+router.get('/policy', authMiddleware, async (req, res) => {
+    try {
+        res.json(await getPolicy(pool));
+    } catch (error) {
+        console.error('Get loan policy error:', error);
+        res.status(500).json({ error: 'Gagal mengambil kebijakan pinjaman' });
+    }
+});
+
+router.put('/policy', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const policyError = validatePolicy(req.body);
+        if (policyError) {
+            return res.status(400).json({ error: policyError });
+        }
+
+        res.json(await savePolicy(pool, req.body, req.user.id));
+    } catch (error) {
+        console.error('Save loan policy error:', error);
+        res.status(500).json({ error: 'Gagal menyimpan kebijakan pinjaman' });
+    }
+});
+
+// ==================== APPLICATIONS ====================
+
+// List applications. Anggota only see their own; pengurus see the whole queue.
+router.get('/', authMiddleware, async (req, res) => {
+    try {
+        const { status } = req.query;
+        let query = APPLICATION_SELECT + ' WHERE l.applied_by IS NOT NULL';
+        const params = [];
+
+        if (req.user.role === 'anggota') {
+            query += ' AND l.member_id = ?';
+            params.push(req.user.member_id);
+        }
+        if (status) {
+            query += ' AND l.status = ?';
+            params.push(status);
+        }
+        query += ' ORDER BY l.created_at DESC';
+
+        const [rows] = await pool.execute(query, params);
+        const policy = await getPolicy(pool);
+
+        const applications = [];
+        for (const row of rows) {
+            const approvals = await getApprovals(pool, row.id);
+            const tally = tallyDecisions(approvals);
+            applications.push({
+                ...row,
+                approval_count: tally.approvals,
+                required_approvals: policy.required_approvals,
+                voted: tally.voters.includes(req.user.id)
+            });
+        }
+        res.json(applications);
+    } catch (error) {
+        console.error('Get loan applications error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data pengajuan pinjaman' });
+    }
+});
+
+router.get('/:id', authMiddleware, async (req, res) => {
+    try {
+        const application = await loadApplication(pool, req.params.id, await getPolicy(pool));
+        if (!application || !canSee(req.user, application)) {
+            return res.status(404).json({ error: 'Pengajuan tidak ditemukan' });
+        }
+        res.json(application);
+    } catch (error) {
+        console.error('Get loan application error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data pengajuan pinjaman' });
+    }
+});
+
+// Submit an application. Anggota always apply for themselves at the policy's jasa rate.
+router.post('/', authMiddleware, async (req, res) => {
+    const { jumlah_pinjaman, tenor_bulan, tujuan } = req.body;
+    const isAnggota = req.user.role === 'anggota';
+    const member_id = isAnggota ? req.user.member_id : req.body.member_id;
+
+    if (!member_id) {
+        return res.status(400).json({ error: 'Akun belum terhubung dengan data anggota' });
+    }
+    if (!(parseFloat(jumlah_pinjaman) > 0) || !(parseInt(tenor_bulan, 10) > 0)) {
+        return res.status(400).json({ error: 'Jumlah pinjaman dan tenor wajib diisi' });
+    }
+
+    const conn = await pool.getConnection();
+    try {
+        const policy = await getPolicy(conn);
+        const bunga_persen = isAnggota || req.body.bunga_persen === undefined ? policy.bunga_persen : req.body.bunga_persen;
+        const interest_method = isAnggota || !req.body.interest_method ? policy.interest_method : req.body.interest_method;
+        if (!INTEREST_METHODS.includes(interest_method)) {
+            return res.status(400).json({ error: 'Metode jasa tidak dikenal' });
+        }
+
+        const tanggal_pinjaman = new Date().toISOString().split('T')[0];
+        const schedule = generateSchedule({
+            principal: jumlah_pinjaman,
+            annualRate: bunga_persen || 0,
+            tenor: tenor_bulan,
+            method: interest_method,
+            startDate: tanggal_pinjaman
+        });
+
+        await conn.beginTransaction();
+
+        const [members] = await conn.execute('SELECT id FROM members WHERE id = ?', [member_id]);
+        if (members.length === 0) {
+            await conn.rollback();
+            return res.status(404).json({ error: 'Anggota tidak ditemukan' });
+        }
+
+        const id = uuidv4();
+        await conn.execute(
+            `INSERT INTO loans (id, member_id, jumlah_pinjaman, bunga_persen, interest_method, tenor_bulan, angsuran_bulanan,
+                tanggal_pinjaman, tujuan, applied_by, status, sisa_pinjaman)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?)`,
+            [id, member_id, jumlah_pinjaman, bunga_persen || 0, interest_method, tenor_bulan, schedule[0]?.total || 0,
+                tanggal_pinjaman, tujuan || null, req.user.id, summarizeSchedule(schedule).total_bayar]
+        );
+        await saveSchedule(conn, id, schedule);
+        await conn.commit();
+
+        res.status(201).json(await loadApplication(pool, id, policy));
+    } catch (error) {
+        await conn.rollback();
+        console.error('Create loan application error:', error);
+        res.status(500).json({ error: 'Gagal mengirim pengajuan pinjaman' });
+    } finally {
+        conn.release();
+    }
+});
+
+// Approve, reject or comment on a pending application
+router.post('/:id/decisions', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const { decision } = req.body;
+    const comment = String(req.body.comment || '').trim();
+
+    if (!LOAN_DECISIONS.includes(decision)) {
+        return res.status(400).json({ error: 'Keputusan tidak dikenal' });
+    }
+    if (decision !== 'setuju' && !comment) {
+        return res.status(400).json({ error: 'Komentar wajib diisi untuk penolakan atau catatan' });
+    }
+
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+
+        const [loans] = await conn.execute('SELECT * FROM loans WHERE id = ? FOR UPDATE', [req.params.id]);
+        if (loans.length === 0) {
+            await conn.rollback();
+            return res.status(404).json({ error: 'Pengajuan tidak ditemukan' });
+        }
+
+        const loan = loans[0];
+        if (loan.status !== 'pending') {
+            await conn.rollback();
+            return res.status(400).json({ error: 'Pengajuan sudah diputuskan' });
+        }
+
+        if (decision !== 'catatan') {
+            if (loan.applied_by === req.user.id) {
+                await conn.rollback();
+                return res.status(403).json({ error: 'Pengaju tidak dapat memutuskan pengajuannya sendiri' });
+            }
+            if (tallyDecisions(await getApprovals(conn, loan.id)).voters.includes(req.user.id)) {
+                await conn.rollback();
+                return res.status(400).json({ error: 'Anda sudah memberikan keputusan untuk pengajuan ini' });
+            }
+        }
+
+        const policy = await getPolicy(conn);
+        if (decision === 'setuju') {
+            const { checks, eligible } = await evaluateApplication(conn, loan, policy);
+            if (!eligible) {
+                await conn.rollback();
+                const failed = checks.filter(check => !check.passed).map(check => check.label).join(', ');
+                return res.status(400).json({ error: `Pengajuan tidak memenuhi syarat: ${failed}` });
+            }
+        }
+
+        await recordDecision(conn, loan, { userId: req.user.id, decision, comment }, policy);
+        await conn.commit();
+
+        res.json(await loadApplication(pool, loan.id, policy));
+    } catch (error) {
+        await conn.rollback();
+        console.error('Record loan decision error:', error);
+        res.status(500).json({ error: 'Gagal menyimpan keputusan' });
+    } finally {
+        conn.release();
+    }
+});
+
+// Disburse an approved loan from a cash/bank account
+router.post('/:id/disburse', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const { cash_account_id } = req.body;
+    const tanggal = req.body.tanggal || new Date().toISOString().split('T')[0];
+
+    if (!cash_account_id) {
+        return res.status(400).json({ error: 'Akun kas/bank pencairan wajib dipilih' });
+    }
+
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+
+        const [loans] = await conn.execute(
+            `SELECT l.*, m.nama_lengkap FROM loans l JOIN members m ON l.member_id = m.id
+             WHERE l.id = ? FOR UPDATE`,
+            [req.params.id]
+        );
+        if (loans.length === 0) {
+            await conn.rollback();
+            return res.status(404).json({ error: 'Pengajuan tidak ditemukan' });
+        }
+        if (loans[0].status !== 'disetujui') {
+            await conn.rollback();
+            return res.status(400).json({ error: 'Hanya pengajuan yang sudah disetujui yang dapat dicairkan' });
+        }
+
+        const [accounts] = await conn.execute(
+            'SELECT id FROM cash_bank_accounts WHERE id = ? FOR UPDATE',
+            [cash_account_id]
+        );
+        if (accounts.length === 0) {
+            await conn.rollback();
+            return res.status(404).json({ error: 'Akun tidak ditemukan' });
+        }
+        const available = await refreshBalance(conn, cash_account_id);
+        if (parseFloat(loans[0].jumlah_pinjaman) > available) {
+            await conn.rollback();
+            return res.status(400).json({ error: 'Saldo tidak mencukupi' });
+        }
+
+        await disburseLoan(conn, loans[0], { cashAccountId: cash_account_id, disbursementDate: tanggal, userId: req.user.id });
+        await conn.commit();
+
+        res.json(await loadApplication(pool, req.params.id, await getPolicy(pool)));
+    } catch (error) {
+        await conn.rollback();
+        console.error('Disburse loan error:', error);
+        res.status(500).json({ error: 'Gagal mencairkan pinjaman' });
+    } finally {
+        conn.release();
+    }
+});
+
+export default router;
@@ -0,0 +1,226 @@
+import express from 'express';
+import pool from '../config/database.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { getPolicy } from '../services/loanApproval.service.js';
+import {
+    addGuarantor,
+    checkGuarantor,
+    getGuarantorExposure,
+    listArrearsGuarantors,
+    listCollaterals,
+    listGuarantors,
+    saveCollateral,
+    validateCollateral
+} from '../services/loanGuarantee.service.js';
+
+const router = express.Router();
+
+const isPengurus = (user) => user.role === 'admin' || user.role === 'pengurus';
+
+// Anggota may see their own loans and complete guarantors/collateral while the application is pending
+const canView = (user, loan) => isPengurus(user) || loan.member_id === user.member_id;
+const canEdit = (user, loan) => isPengurus(user) || (loan.member_id === user.member_id && loan.status === 'pending');
+
+const findLoan = async (loanId) => {
+    const [loans] = await pool.execute('SELECT * FROM loans WHERE id = ?', [loanId]);
+    return loans[0] || null;
+};
+
+// Guarantors flagged for loans in arrears (for LoansPage and WhatsApp notification)
+router.get('/arrears', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        res.json(await listArrearsGuarantors(pool));
+    } catch (error) {
+        console.error('Get arrears guarantors error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data penjamin pinjaman menunggak' });
+    }
+});
+
+// Guarantees carried by a member (member profile)
+router.get('/members/:memberId', authMiddleware, async (req, res) => {
+    try {
+        const { memberId } = req.params;
+        if (!isPengurus(req.user) && req.user.member_id !== memberId) {
+            return res.status(403).json({ error: 'Akses ditolak' });
+        }
+
+        const policy = await getPolicy(pool);
+        res.json({ ...await getGuarantorExposure(pool, memberId), limit: policy.max_guarantees_per_member });
+    } catch (error) {
+        console.error('Get guarantor exposure error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data penjaminan anggota' });
+    }
+});
+
+// ==================== PER LOAN ====================
+
+router.get('/loans/:loanId', authMiddleware, async (req, res) => {
+    try {
+        const loan = await findLoan(req.params.loanId);
+        if (!loan || !canView(req.user, loan)) {
+            return res.status(404).json({ error: 'Pinjaman tidak ditemukan' });
+        }
+
+        const [guarantors, collaterals] = await Promise.all([
+            listGuarantors(pool, loan.id),
+            listCollaterals(pool, loan.id)
+        ]);
+        const total_collateral = collaterals.reduce((sum, c) => sum + c.estimated_value, 0);
+        res.json({ guarantors, collaterals, total_collateral });
+    } catch (error) {
+        console.error('Get loan guarantees error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data penjamin dan agunan' });
+    }
+});
+
+router.post('/loans/:loanId/guarantors', authMiddleware, async (req, res) => {
+    const { member_id, guaranteed_amount, notes } = req.body;
+    if (!member_id) {
+        return res.status(400).json({ error: 'Anggota penjamin wajib dipilih' });
+    }
+    if (guaranteed_amount !== undefined && guaranteed_amount !== null && guaranteed_amount !== '' && !(parseFloat(guaranteed_amount) > 0)) {
+        return res.status(400).json({ error: 'Nilai penjaminan tidak valid' });
+    }
+
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+
+        const [loans] = await conn.execute('SELECT * FROM loans WHERE id = ? FOR UPDATE', [req.params.loanId]);
+        if (loans.length === 0 || !canView(req.user, loans[0])) {
+            await conn.rollback();
+            return res.status(404).json({ error: 'Pinjaman tidak ditemukan' });
+        }
+        if (!canEdit(req.user, loans[0])) {
+            await conn.rollback();
+            return res.status(403).json({ error: 'Penjamin hanya dapat diubah selama pengajuan belum diputuskan' });
+        }
+
+        // Lock the guarantor's rows so two loans cannot both take the last slot
+        await conn.execute('SELECT id FROM loan_guarantors WHERE member_id = ? FOR UPDATE', [member_id]);
+        const guarantorError = await checkGuarantor(conn, loans[0], member_id, await getPolicy(conn));
+        if (guarantorError) {
+            await conn.rollback();
+            return res.status(400).json({ error: guarantorError });
+        }
+
+        await addGuarantor(conn, loans[0].id, {
+            memberId: member_id,
+            guaranteedAmount: guaranteed_amount,
+            notes,
+            userId: req.user.id
+        });
+        await conn.commit();
+
+        res.status(201).json(await listGuarantors(pool, loans[0].id));
+    } catch (error) {
+        await conn.rollback();
+        console.error('Add guarantor error:', error);
+        res.status(500).json({ error: 'Gagal menambah penjamin' });
+    } finally {
+        conn.release();
+    }
+});
+
+router.delete('/guarantors/:id', authMiddleware, async (req, res) => {
+    try {
+        const [rows] = await pool.execute('SELECT loan_id FROM loan_guarantors WHERE id = ?', [req.params.id]);
+        const loan = rows.length > 0 ? await findLoan(rows[0].loan_id) : null;
+        if (!loan || !canView(req.user, loan)) {
+            return res.status(404).json({ error: 'Penjamin tidak ditemukan' });
+        }
+        if (!canEdit(req.user, loan)) {
+            return res.status(403).json({ error: 'Penjamin hanya dapat diubah selama pengajuan belum diputuskan' });
+        }
+
+        await pool.execute('DELETE FROM loan_guarantors WHERE id = ?', [req.params.id]);
+        res.json({ message: 'Penjamin berhasil dihapus' });
+    } catch (error) {
+        console.error('Delete guarantor error:', error);
+        res.status(500).json({ error: 'Gagal menghapus penjamin' });
+    }
+});
+
+// ==================== COLLATERALS ====================
+
+router.get('/collaterals/:id', authMiddleware, async (req, res) => {
+    try {
+        const [rows] = await pool.execute('SELECT * FROM loan_collaterals WHERE id = ?', [req.params.id]);
+        const loan = rows.length > 0 ? await findLoan(rows[0].loan_id) : null;
+        if (!loan || !canView(req.user, loan)) {
+            return res.status(404).json({ error: 'Agunan tidak ditemukan' });
+        }
+        res.json(rows[0]);
+    } catch (error) {
+        console.error('Get collateral error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data agunan' });
+    }
+});
+
+router.post('/loans/:loanId/collaterals', authMiddleware, async (req, res) => {
+    try {
+        const loan = await findLoan(req.params.loanId);
+        if (!loan || !canView(req.user, loan)) {
+            return res.status(404).json({ error: 'Pinjaman tidak ditemukan' });
+        }
+        if (!canEdit(req.user, loan)) {
+            return res.status(403).json({ error: 'Agunan hanya dapat diubah selama pengajuan belum diputuskan' });
+        }
+
+        const collateralError = validateCollateral(req.body);
+        if (collateralError) {
+            return res.status(400).json({ error: collateralError });
+        }
+
+        await saveCollateral(pool, loan.id, req.body, req.user.id);
+        res.status(201).json(await listCollaterals(pool, loan.id));
+    } catch (error) {
+        console.error('Add collateral error:', error);
+        res.status(500).json({ error: 'Gagal menambah agunan' });
+    }
+});
+
+router.put('/collaterals/:id', authMiddleware, async (req, res) => {
+    try {
+        const [rows] = await pool.execute('SELECT loan_id FROM loan_collaterals WHERE id = ?', [req.params.id]);
+        const loan = rows.length > 0 ? await findLoan(rows[0].loan_id) : null;
+        if (!loan || !canView(req.user, loan)) {
+            return res.status(404).json({ error: 'Agunan tidak ditemukan' });
+        }
+        if (!canEdit(req.user, loan)) {
+            return res.status(403).json({ error: 'Agunan hanya dapat diubah selama pengajuan belum diputuskan' });
+        }
+
+        const collateralError = validateCollateral(req.body);
+        if (collateralError) {
+            return res.status(400).json({ error: collateralError });
+        }
+
+        await saveCollateral(pool, loan.id, req.body, req.user.id, req.params.id);
+        res.json(await listCollaterals(pool, loan.id));
+    } catch (error) {
+        console.error('Update collateral error:', error);
+        res.status(500).json({ error: 'Gagal memperbarui agunan' });
+    }
+});
+
+router.delete('/collaterals/:id', authMiddleware, async (req, res) => {
+    try {
+        const [rows] = await pool.execute('SELECT loan_id FROM loan_collaterals WHERE id = ?', [req.params.id]);
+        const loan = rows.length > 0 ? await findLoan(rows[0].loan_id) : null;
+        if (!loan || !canView(req.user, loan)) {
+            return res.status(404).json({ error: 'Agunan tidak ditemukan' });
+        }
+        if (!canEdit(req.user, loan)) {
+            return res.status(403).json({ error: 'Agunan hanya dapat diubah selama pengajuan belum diputuskan' });
+        }
+
+        await pool.execute('DELETE FROM loan_collaterals WHERE id = ?', [req.params.id]);
+        res.json({ message: 'Agunan berhasil dihapus' });
+    } catch (error) {
+        console.error('Delete collateral error:', error);
+        res.status(500).json({ error: 'Gagal menghapus agunan' });
+    }
+});
+
+export default router;
@@ -1,12 +1,56 @@
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import pool from '../config/database.js';
-import { authMiddleware } from '../middleware/auth.js';
+import { authMiddleware, canAccessMember, requireRole, scopeToOwnMember } from '../middleware/auth.js';
+import { reverseReceipt, syncLoanPaymentReceipt } from '../services/cashBank.service.js';
+import { postLoanDisbursementJournal, postLoanPaymentJournal, removeJournal, syncJournal } from '../services/journal.service.js';
+import {
+    INTEREST_METHODS,
+    applyAllocation,
+    derivePaymentStatus,
+    ensureSchedule,
+    generateSchedule,
+    loadSchedule,
+    planAllocation,
+    refreshLoanBalance,
+    releaseAllocations,
+    saveSchedule,
+    scheduleFromLoan,
+    summarizeSchedule,
+    toDateString
+} from '../services/loanSchedule.service.js';
+import {
+    applyRestructure,
+    listRestructures,
+    planRestructure,
+    validateRestructure
+} from '../services/loanRestructure.service.js';
+import { CONFLICT_MESSAGE, expectedVersion, findByClientRef, versionGuard } from '../services/sync.service.js';
 
 const router = express.Router();
 
+// Amount of a payment: jumlah_bayar, or the legacy pokok + jasa fields
+const paymentAmount = ({ jumlah_bayar, angsuran_pokok, angsuran_bunga }) => {
+    if (jumlah_bayar !== undefined && jumlah_bayar !== null && jumlah_bayar !== '') {
+        return parseFloat(jumlah_bayar) || 0;
+    }
+    return (parseFloat(angsuran_pokok) || 0) + (parseFloat(angsuran_bunga) || 0);
+};
+
+// Anggota may only read their own loans
+const canReadLoan = async (user, loanId) => {
+    if (user.role !== 'anggota') return true;
+    const [loans] = await pool.execute('SELECT member_id FROM loans WHERE id = ?', [loanId]);
+    return loans.length > 0 && canAccessMember(user, loans[0].member_id);
+};
+
+const lockLoan = async (conn, loanId) => {
+    const [loans] = await conn.execute('SELECT * FROM loans WHERE id = ? FOR UPDATE', [loanId]);
+    return loans[0] || null;
+};
+
 // Get all loans with member info
-router.get('/', authMiddleware, async (req, res) => {
+router.get('/', authMiddleware, scopeToOwnMember, async (req, res) => {
     try {
         const { member_id, status } = req.query;
 
@@ -37,7 +81,88 @@ router.get('/', authMiddleware, async (req, res) => {
     }
 });
 
-// Get loan by ID with payments
+// Preview an amortization plan without saving it
+router.post('/schedule/preview', authMiddleware, async (req, res) => {
+    try {
+        const { jumlah_pinjaman, bunga_persen = 0, tenor_bulan, interest_method = 'flat', tanggal_pinjaman } = req.body;
+
+        if (!jumlah_pinjaman || !tenor_bulan) {
+            return res.status(400).json({ error: 'Data tidak lengkap (jumlah_pinjaman, tenor_bulan wajib)' });
+        }
+        if (!INTEREST_METHODS.includes(interest_method)) {
+            return res.status(400).json({ error: 'Metode jasa tidak dikenal' });
+        }
+
+        const schedule = generateSchedule({
+            principal: jumlah_pinjaman,
+            annualRate: bunga_persen,
+            tenor: tenor_bulan,
+            method: interest_method,
+            startDate: tanggal_pinjaman || new Date().toISOString().split('T')[0]
+        });
+
+        res.json({
+            schedule,
+            angsuran_bulanan: schedule[0]?.total || 0,
+            ...summarizeSchedule(schedule)
+        });
+    } catch (error) {
+        console.error('Preview schedule error:', error);
+        res.status(500).json({ error: 'Gagal menghitung rencana angsuran' });
+    }
+});
+
+// Installments due in a year for all active loans (jadwal angsuran)
+router.get('/schedules', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const year = parseInt(req.query.year, 10) || new Date().getFullYear();
+
+        const [loans] = await pool.execute(
+            `SELECT l.*, m.nama_lengkap, m.id_anggota
+             FROM loans l
+             JOIN members m ON l.member_id = m.id
+             WHERE l.status IN ('aktif', 'lunas')
+             ORDER BY m.nama_lengkap ASC`
+        );
+
+        const result = [];
+        for (const loan of loans) {
+            const schedule = await loadSchedule(loan.id);
+            const inYear = schedule.filter(row => row.due_date.startsWith(`${year}-`));
+            if (inYear.length > 0 || loan.status === 'aktif') {
+                result.push({ ...loan, schedule: inYear });
+            }
+        }
+
+        res.json(result);
+    } catch (error) {
+        console.error('Get loan schedules error:', error);
+        res.status(500).json({ error: 'Gagal mengambil jadwal angsuran' });
+    }
+});
+
+// Payments of every loan in one list, for reports across loans; members only get their own
+router.get('/payments', authMiddleware, scopeToOwnMember, async (req, res) => {
+    try {
+        let query = 'SELECT p.* FROM loan_payments p JOIN loans l ON p.loan_id = l.id WHERE 1=1';
+        const params = [];
+
+        if (req.query.member_id) {
+            query += ' AND l.member_id = ?';
+            params.push(req.query.member_id);
+        }
+
+        query += ' ORDER BY p.loan_id, p.angsuran_ke ASC';
+
+        const [rows] = await pool.execute(query, params);
+        res.json(rows);
+    } catch (error) {
+        console.error('Get all loan payments error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data angsuran' });
+    }
+});
+
+// Get loan by ID with payments and amortization plan
 router.get('/:id', authMiddleware, async (req, res) => {
     try {
         const [loans] = await pool.execute(
@@ -48,7 +173,7 @@ router.get('/:id', authMiddleware, async (req, res) => {
             [req.params.id]
         );
 
-        if (loans.length === 0) {
+        if (loans.length === 0 || !canAccessMember(req.user, loans[0].member_id)) {
             return res.status(404).json({ error: 'Pinjaman tidak ditemukan' });
         }
 
@@ -57,41 +182,72 @@ router.get('/:id', authMiddleware, async (req, res) => {
             [req.params.id]
         );
 
-        res.json({ ...loans[0], payments });
+        const schedule = await loadSchedule(loans[0].id);
+
+        res.json({ ...loans[0], payments, schedule, ...summarizeSchedule(schedule) });
     } catch (error) {
         console.error('Get loan error:', error);
         res.status(500).json({ error: 'Gagal mengambil data pinjaman' });
     }
 });
 
-// Create loan
-router.post('/', authMiddleware, async (req, res) => {
+// Get amortization plan of a loan
+router.get('/:id/schedule', authMiddleware, async (req, res) => {
     try {
-        const {
-            member_id,
-            jumlah_pinjaman,
-            bunga_persen,
-            tenor_bulan,
-            tanggal_pinjaman,
-            status = 'pending'
-        } = req.body;
-
-        if (!member_id || jumlah_pinjaman === undefined || jumlah_pinjaman === null || bunga_persen === undefined || bunga_persen === null || !tenor_bulan || !tanggal_pinjaman) {
-            return res.status(400).json({ error: 'Data tidak lengkap' });
+        const [loans] = await pool.execute('SELECT * FROM loans WHERE id = ?', [req.params.id]);
+        if (loans.length === 0 || !canAccessMember(req.user, loans[0].member_id)) {
+            return res.status(404).json({ error: 'Pinjaman tidak ditemukan' });
         }
 
-        const totalBunga = jumlah_pinjaman * (bunga_persen / 100) * (tenor_bulan / 12);
-        const totalPinjaman = parseFloat(jumlah_pinjaman) + totalBunga;
-        const angsuran_bulanan = totalPinjaman / tenor_bulan;
-        const sisa_pinjaman = totalPinjaman;
+        const schedule = await loadSchedule(loans[0].id);
+        res.json({ schedule, ...summarizeSchedule(schedule) });
+    } catch (error) {
+        console.error('Get loan schedule error:', error);
+        res.status(500).json({ error: 'Gagal mengambil rencana angsuran' });
+    }
+});
 
-        const id = uuidv4();
+// Create loan together with its amortization plan
+router.post('/', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const {
+        member_id,
+        jumlah_pinjaman,
+        bunga_persen,
+        tenor_bulan,
+        interest_method = 'flat',
+        tanggal_pinjaman,
+        status = 'pending'
+    } = req.body;
+
+    if (!member_id || jumlah_pinjaman === undefined || jumlah_pinjaman === null || bunga_persen === undefined || bunga_persen === null || !tenor_bulan || !tanggal_pinjaman) {
+        return res.status(400).json({ error: 'Data tidak lengkap' });
+    }
+    if (!INTEREST_METHODS.includes(interest_method)) {
+        return res.status(400).json({ error: 'Metode jasa tidak dikenal' });
+    }
+
+    const schedule = generateSchedule({
+        principal: jumlah_pinjaman,
+        annualRate: bunga_persen,
+        tenor: tenor_bulan,
+        method: interest_method,
+        startDate: tanggal_pinjaman
+    });
+    const angsuran_bulanan = schedule[0]?.total || 0;
+    const sisa_pinjaman = summarizeSchedule(schedule).total_bayar;
+
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
 
-        await pool.execute(
-            `INSERT INTO loans (id, member_id, jumlah_pinjaman, bunga_persen, tenor_bulan, angsuran_bulanan, tanggal_pinjaman, status, sisa_pinjaman)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [id, member_id, jumlah_pinjaman, bunga_persen, tenor_bulan, angsuran_bulanan, tanggal_pinjaman, status, sisa_pinjaman]
+        const id = uuidv4();
+        await conn.execute(
+            `INSERT INTO loans (id, member_id, jumlah_pinjaman, bunga_persen, interest_method, tenor_bulan, angsuran_bulanan, tanggal_pinjaman, status, sisa_pinjaman)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [id, member_id, jumlah_pinjaman, bunga_persen, interest_method, tenor_bulan, angsuran_bulanan, tanggal_pinjaman, status, sisa_pinjaman]
         );
+        await saveSchedule(conn, id, schedule);
+        await conn.commit();
 
         const [rows] = await pool.execute(
             `SELECT l.*, m.nama_lengkap, m.id_anggota 
@@ -100,26 +256,81 @@ router.post('/', authMiddleware, async (req, res) => {
        WHERE l.id = ?`,
             [id]
         );
+
+        await syncJournal('loan_disbursement', conn => postLoanDisbursementJournal(conn, rows[0]));
         res.status(201).json(rows[0]);
     } catch (error) {
+        await conn.rollback();
         console.error('Create loan error:', error);
         res.status(500).json({ error: 'Gagal menambah pinjaman' });
+    } finally {
+        conn.release();
     }
 });
 
-// Update loan status
-router.put('/:id', authMiddleware, async (req, res) => {
+// Update loan status. Loan terms (jumlah, jasa, tenor, metode, tanggal) can only change
+// while no payment or restructure has been recorded, and changing them regenerates the plan.
+// Running loans are changed through the restructure operations below. sisa_pinjaman always
+// follows the plan and is not written directly.
+router.put('/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const { id } = req.params;
+    const { status } = req.body;
+    const termFields = ['jumlah_pinjaman', 'bunga_persen', 'tenor_bulan', 'interest_method', 'tanggal_pinjaman'];
+
+    const conn = await pool.getConnection();
     try {
-        const { id } = req.params;
-        const { status, sisa_pinjaman } = req.body;
-
-        await pool.execute(
-            `UPDATE loans SET 
-        status = COALESCE(?, status),
-        sisa_pinjaman = COALESCE(?, sisa_pinjaman)
-       WHERE id = ?`,
-            [status, sisa_pinjaman, id]
+        await conn.beginTransaction();
+
+        const [loans] = await conn.execute('SELECT * FROM loans WHERE id = ? FOR UPDATE', [id]);
+        if (loans.length === 0) {
+            await conn.rollback();
+            return res.status(404).json({ error: 'Pinjaman tidak ditemukan' });
+        }
+
+        const current = loans[0];
+        const changedTerms = termFields.filter(field => {
+            if (req.body[field] === undefined || req.body[field] === null) return false;
+            if (field === 'interest_method') return req.body[field] !== (current.interest_method || 'flat');
+            if (field === 'tanggal_pinjaman') return toDateString(req.body[field]) !== toDateString(current.tanggal_pinjaman);
+            return parseFloat(req.body[field]) !== parseFloat(current[field]);
+        });
+
+        if (changedTerms.length > 0) {
+            if (req.body.interest_method && !INTEREST_METHODS.includes(req.body.interest_method)) {
+                await conn.rollback();
+                return res.status(400).json({ error: 'Metode jasa tidak dikenal' });
+            }
+
+            const [[{ count }]] = await conn.execute(
+                `SELECT (SELECT COUNT(*) FROM loan_payments WHERE loan_id = ?)
+                    + (SELECT COUNT(*) FROM loan_restructures WHERE loan_id = ?) AS count`,
+                [id, id]
+            );
+            if (count > 0) {
+                await conn.rollback();
+                return res.status(400).json({ error: 'Ketentuan pinjaman yang sudah berjalan hanya dapat diubah melalui restrukturisasi' });
+            }
+
+            const terms = { ...current };
+            for (const field of changedTerms) terms[field] = req.body[field];
+            const schedule = scheduleFromLoan(terms);
+
+            await conn.execute(
+                `UPDATE loans SET jumlah_pinjaman = ?, bunga_persen = ?, tenor_bulan = ?, interest_method = ?,
+                    tanggal_pinjaman = ?, angsuran_bulanan = ?
+                 WHERE id = ?`,
+                [terms.jumlah_pinjaman, terms.bunga_persen, terms.tenor_bulan, terms.interest_method || 'flat',
+                    terms.tanggal_pinjaman, schedule[0]?.total || 0, id]
+            );
+            await saveSchedule(conn, id, schedule);
+            await refreshLoanBalance(conn, id);
+        }
+
+        await conn.execute(
+            'UPDATE loans SET status = COALESCE(?, status) WHERE id = ?',
+            [status ?? null, id]
         );
+        await conn.commit();
 
         const [rows] = await pool.execute(
             `SELECT l.*, m.nama_lengkap, m.id_anggota 
@@ -129,33 +340,50 @@ router.put('/:id', authMiddleware, async (req, res) => {
             [id]
         );
 
-        if (rows.length === 0) {
-            return res.status(404).json({ error: 'Pinjaman tidak ditemukan' });
-        }
-
+        await syncJournal('loan_disbursement', conn => postLoanDisbursementJournal(conn, rows[0]));
         res.json(rows[0]);
     } catch (error) {
+        await conn.rollback();
         console.error('Update loan error:', error);
         res.status(500).json({ error: 'Gagal mengupdate pinjaman' });
+    } finally {
+        conn.release();
     }
 });
 
-// Delete loan
-router.delete('/:id', authMiddleware, async (req, res) => {
+// Delete loan; the receipts of its payments are reversed in the cash ledger
+router.delete('/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const conn = await pool.getConnection();
     try {
-        const [result] = await pool.execute(
+        await conn.beginTransaction();
+
+        const [payments] = await conn.execute('SELECT * FROM loan_payments WHERE loan_id = ?', [req.params.id]);
+        const [result] = await conn.execute(
             'DELETE FROM loans WHERE id = ?',
             [req.params.id]
         );
 
         if (result.affectedRows === 0) {
+            await conn.rollback();
             return res.status(404).json({ error: 'Pinjaman tidak ditemukan' });
         }
 
+        for (const payment of payments) {
+            await reverseReceipt(conn, 'loan_payment', payment.id, `Angsuran ke-${payment.angsuran_ke}`);
+        }
+        await conn.commit();
+
+        await syncJournal('loan_disbursement', c => removeJournal(c, 'loan_disbursement', req.params.id));
+        for (const payment of payments) {
+            await syncJournal('loan_payment', c => removeJournal(c, 'loan_payment', payment.id));
+        }
         res.json({ message: 'Pinjaman berhasil dihapus' });
     } catch (error) {
+        await conn.rollback();
         console.error('Delete loan error:', error);
         res.status(500).json({ error: 'Gagal menghapus pinjaman' });
+    } finally {
+        conn.release();
     }
 });
 
@@ -164,6 +392,10 @@ router.delete('/:id', authMiddleware, async (req, res) => {
 // Get loan payments
 router.get('/:loanId/payments', authMiddleware, async (req, res) => {
     try {
+        if (!await canReadLoan(req.user, req.params.loanId)) {
+            return res.status(404).json({ error: 'Pinjaman tidak ditemukan' });
+        }
+
         const [rows] = await pool.execute(
             'SELECT * FROM loan_payments WHERE loan_id = ? ORDER BY angsuran_ke ASC',
             [req.params.loanId]
@@ -175,85 +407,138 @@ router.get('/:loanId/payments', authMiddleware, async (req, res) => {
     }
 });
 
-// Create loan payment
-router.post('/:loanId/payments', authMiddleware, async (req, res) => {
+// Preview how a payment would be allocated to the installments
+router.get('/:loanId/payments/preview', authMiddleware, async (req, res) => {
     try {
-        const { loanId } = req.params;
-        const {
-            angsuran_ke,
-            angsuran_pokok,
-            angsuran_bunga = 0,
-            sisa_angsuran,
-            tanggal_bayar,
-            status = 'lunas'
-        } = req.body;
+        const amount = parseFloat(req.query.jumlah_bayar) || 0;
+        const tanggal_bayar = req.query.tanggal_bayar || new Date().toISOString().split('T')[0];
 
-        if (!angsuran_ke || !angsuran_pokok || !tanggal_bayar) {
-            return res.status(400).json({ error: 'Data tidak lengkap' });
+        const [loans] = await pool.execute('SELECT * FROM loans WHERE id = ?', [req.params.loanId]);
+        if (loans.length === 0 || !canAccessMember(req.user, loans[0].member_id)) {
+            return res.status(404).json({ error: 'Pinjaman tidak ditemukan' });
         }
 
-        const total_angsuran = parseFloat(angsuran_pokok) + parseFloat(angsuran_bunga);
-        const id = uuidv4();
+        const schedule = await loadSchedule(loans[0].id);
+        const plan = planAllocation(schedule, { amount });
+        const { sisa_tagihan } = summarizeSchedule(schedule);
 
-        await pool.execute(
-            `INSERT INTO loan_payments (id, loan_id, angsuran_ke, angsuran_pokok, angsuran_bunga, total_angsuran, sisa_angsuran, tanggal_bayar, status)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [id, loanId, angsuran_ke, angsuran_pokok, angsuran_bunga, total_angsuran, sisa_angsuran, tanggal_bayar, status]
-        );
+        res.json({
+            ...plan,
+            status: derivePaymentStatus(plan, tanggal_bayar),
+            sisa_tagihan,
+            sisa_setelah_bayar: Math.max(sisa_tagihan - plan.pokok - plan.bunga, 0),
+            next_installment: schedule.find(row => row.status !== 'lunas') || null
+        });
+    } catch (error) {
+        console.error('Preview loan payment error:', error);
+        res.status(500).json({ error: 'Gagal menghitung alokasi pembayaran' });
+    }
+});
+
+// Create loan payment, allocated oldest installment first (jasa before pokok)
+router.post('/:loanId/payments', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const { loanId } = req.params;
+    const { tanggal_bayar, status, cash_account_id, client_ref } = req.body;
+    const amount = paymentAmount(req.body);
+
+    if (!(amount > 0) || !tanggal_bayar) {
+        return res.status(400).json({ error: 'Data tidak lengkap (jumlah_bayar, tanggal_bayar wajib)' });
+    }
+
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
 
-        // Update sisa pinjaman
-        await pool.execute(
-            'UPDATE loans SET sisa_pinjaman = sisa_pinjaman - ? WHERE id = ?',
-            [total_angsuran, loanId]
+        const loan = await lockLoan(conn, loanId);
+        if (!loan) {
+            await conn.rollback();
+            return res.status(404).json({ error: 'Pinjaman tidak ditemukan' });
+        }
+
+        // Replayed from the offline queue after the first attempt already went through
+        const existing = await findByClientRef(conn, 'loan_payments', client_ref);
+        if (existing) {
+            await conn.rollback();
+            const [rows] = await pool.execute('SELECT * FROM loan_payments WHERE id = ?', [existing.id]);
+            return res.json(rows[0]);
+        }
+
+        const schedule = await ensureSchedule(conn, loan);
+        const plan = planAllocation(schedule, { amount });
+        if (plan.allocations.length === 0) {
+            await conn.rollback();
+            return res.status(400).json({ error: 'Pinjaman sudah lunas' });
+        }
+        if (plan.unallocated > 0) {
+            await conn.rollback();
+            return res.status(400).json({ error: 'Jumlah bayar melebihi sisa pinjaman' });
+        }
+
+        const id = uuidv4();
+        const sisa_angsuran = summarizeSchedule(schedule).sisa_tagihan - plan.pokok - plan.bunga;
+        await conn.execute(
+            `INSERT INTO loan_payments (id, loan_id, angsuran_ke, angsuran_pokok, angsuran_bunga, total_angsuran, sisa_angsuran, tanggal_bayar, status, cash_account_id, client_ref)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [id, loanId, plan.allocations[0].angsuran_ke, plan.pokok, plan.bunga, plan.pokok + plan.bunga,
+                Math.max(sisa_angsuran, 0), tanggal_bayar, status || derivePaymentStatus(plan, tanggal_bayar), cash_account_id || null, client_ref || null]
         );
+        await applyAllocation(conn, id, schedule, plan, tanggal_bayar);
+        await refreshLoanBalance(conn, loanId);
 
-        const [rows] = await pool.execute(
+        const [rows] = await conn.execute(
             'SELECT * FROM loan_payments WHERE id = ?',
             [id]
         );
-        res.status(201).json(rows[0]);
+        await syncLoanPaymentReceipt(conn, rows[0]);
+        await conn.commit();
+
+        await syncJournal('loan_payment', conn => postLoanPaymentJournal(conn, rows[0]));
+        res.status(201).json({ ...rows[0], allocations: plan.allocations });
     } catch (error) {
+        await conn.rollback();
         console.error('Create loan payment error:', error);
-        if (error.code === 'ER_DUP_ENTRY') {
-            return res.status(400).json({ error: 'Angsuran ke-n sudah dibayar' });
-        }
         res.status(500).json({ error: 'Gagal menambah pembayaran' });
+    } finally {
+        conn.release();
     }
 });
 
-// Update loan payment
-router.put('/:loanId/payments/:paymentId', authMiddleware, async (req, res) => {
+// Update loan payment: release its allocation, then allocate the new amount again
+router.put('/:loanId/payments/:paymentId', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const { loanId, paymentId } = req.params;
+    const { tanggal_bayar, status, cash_account_id } = req.body;
+    const amount = paymentAmount(req.body);
+
+    if (!(amount > 0) || !tanggal_bayar) {
+        return res.status(400).json({ error: 'Data tidak lengkap (jumlah_bayar, tanggal_bayar wajib)' });
+    }
+
+    const conn = await pool.getConnection();
     try {
-        const { loanId, paymentId } = req.params;
-        const {
-            angsuran_ke,
-            angsuran_pokok,
-            angsuran_bunga = 0,
-            sisa_angsuran,
-            tanggal_bayar,
-            status
-        } = req.body;
-
-        if (!angsuran_ke || !angsuran_pokok || !tanggal_bayar) {
-            return res.status(400).json({ error: 'Data tidak lengkap' });
-        }
-
-        // Get the old payment details to calculate the difference
-        const [oldPaymentRows] = await pool.execute(
-            'SELECT total_angsuran FROM loan_payments WHERE id = ? AND loan_id = ?',
+        await conn.beginTransaction();
+
+        const loan = await lockLoan(conn, loanId);
+        const [payments] = await conn.execute(
+            'SELECT * FROM loan_payments WHERE id = ? AND loan_id = ?',
             [paymentId, loanId]
         );
-
-        if (oldPaymentRows.length === 0) {
+        if (!loan || payments.length === 0) {
+            await conn.rollback();
             return res.status(404).json({ error: 'Pembayaran tidak ditemukan' });
         }
 
-        const old_total_angsuran = parseFloat(oldPaymentRows[0].total_angsuran) || 0;
-        const new_total_angsuran = parseFloat(angsuran_pokok) + parseFloat(angsuran_bunga);
-        const difference = new_total_angsuran - old_total_angsuran;
+        await ensureSchedule(conn, loan);
+        await releaseAllocations(conn, paymentId);
+        const schedule = await ensureSchedule(conn, loan);
+        const plan = planAllocation(schedule, { amount });
+        if (plan.allocations.length === 0 || plan.unallocated > 0) {
+            await conn.rollback();
+            return res.status(400).json({ error: 'Jumlah bayar melebihi sisa pinjaman' });
+        }
 
-        // Update the payment record
-        await pool.execute(
+        const sisa_angsuran = summarizeSchedule(schedule).sisa_tagihan - plan.pokok - plan.bunga;
+        const guard = versionGuard(expectedVersion(req.body));
+        const [result] = await conn.execute(
             `UPDATE loan_payments SET 
             angsuran_ke = ?,
             angsuran_pokok = ?,
@@ -261,110 +546,179 @@ router.put('/:loanId/payments/:paymentId', authMiddleware, async (req, res) => {
             total_angsuran = ?,
             sisa_angsuran = ?,
             tanggal_bayar = ?,
-            status = ?
-       WHERE id = ? AND loan_id = ?`,
-            [angsuran_ke, angsuran_pokok, angsuran_bunga, new_total_angsuran, sisa_angsuran, tanggal_bayar, status, paymentId, loanId]
+            status = ?,
+            cash_account_id = COALESCE(?, cash_account_id),
+            version = version + 1
+       WHERE id = ? AND loan_id = ?${guard.clause}`,
+            [plan.allocations[0].angsuran_ke, plan.pokok, plan.bunga, plan.pokok + plan.bunga, Math.max(sisa_angsuran, 0),
+                tanggal_bayar, status || derivePaymentStatus(plan, tanggal_bayar), cash_account_id || null, paymentId, loanId,
+                ...guard.params]
         );
-
-        // Update sisa_pinjaman based on the difference
-        // If new payment is higher, reduce sisa_pinjaman more (subtract positive difference)
-        // If new payment is lower, increase sisa_pinjaman (subtract negative difference = add)
-        if (difference !== 0) {
-            await pool.execute(
-                'UPDATE loans SET sisa_pinjaman = sisa_pinjaman - ? WHERE id = ?',
-                [difference, loanId]
-            );
+        if (result.affectedRows === 0) {
+            await conn.rollback();
+            const [latest] = await pool.execute('SELECT * FROM loan_payments WHERE id = ?', [paymentId]);
+            return res.status(409).json({ error: CONFLICT_MESSAGE, conflict: true, current: latest[0] });
         }
+        await applyAllocation(conn, paymentId, schedule, plan, tanggal_bayar);
+        await refreshLoanBalance(conn, loanId);
 
-        const [rows] = await pool.execute(
+        const [rows] = await conn.execute(
             'SELECT * FROM loan_payments WHERE id = ?',
             [paymentId]
         );
+        await syncLoanPaymentReceipt(conn, rows[0]);
+        await conn.commit();
 
-        res.json(rows[0]);
+        await syncJournal('loan_payment', conn => postLoanPaymentJournal(conn, rows[0]));
+        res.json({ ...rows[0], allocations: plan.allocations });
     } catch (error) {
+        await conn.rollback();
         console.error('Update loan payment error:', error);
         res.status(500).json({ error: 'Gagal mengupdate pembayaran' });
+    } finally {
+        conn.release();
     }
 });
 
-// Delete loan payment
-router.delete('/:loanId/payments/:paymentId', authMiddleware, async (req, res) => {
+// Delete loan payment and give its amount back to the installments it settled
+router.delete('/:loanId/payments/:paymentId', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const { loanId, paymentId } = req.params;
+
+    const conn = await pool.getConnection();
     try {
-        const { loanId, paymentId } = req.params;
-        console.log(`🗑️ Delete payment request: loanId=${loanId}, paymentId=${paymentId}`);
+        await conn.beginTransaction();
 
-        // Get payment details before deleting for refund calculation
-        const [paymentRows] = await pool.execute(
-            'SELECT total_angsuran FROM loan_payments WHERE id = ? AND loan_id = ?',
+        const loan = await lockLoan(conn, loanId);
+        const [payments] = await conn.execute(
+            'SELECT * FROM loan_payments WHERE id = ? AND loan_id = ?',
             [paymentId, loanId]
         );
-
-        if (paymentRows.length === 0) {
-            console.log('❌ Payment not found - may have been already deleted');
+        if (!loan || payments.length === 0) {
+            await conn.rollback();
             return res.status(404).json({ error: 'Pembayaran tidak ditemukan atau sudah dihapus' });
         }
 
-        const total_angsuran = parseFloat(paymentRows[0].total_angsuran) || 0;
-        console.log(`💰 Payment total_angsuran: ${total_angsuran}`);
-
-        // Get current loan details including max sisa_pinjaman
-        const [loanRows] = await pool.execute(
-            'SELECT jumlah_pinjaman, bunga_persen, tenor_bulan, sisa_pinjaman FROM loans WHERE id = ?',
-            [loanId]
+        await ensureSchedule(conn, loan);
+        await releaseAllocations(conn, paymentId);
+        const guard = versionGuard(expectedVersion(req.query));
+        const [result] = await conn.execute(
+            `DELETE FROM loan_payments WHERE id = ? AND loan_id = ?${guard.clause}`,
+            [paymentId, loanId, ...guard.params]
         );
+        if (result.affectedRows === 0) {
+            await conn.rollback();
+            const [latest] = await pool.execute('SELECT * FROM loan_payments WHERE id = ?', [paymentId]);
+            return res.status(409).json({ error: CONFLICT_MESSAGE, conflict: true, current: latest[0] });
+        }
+        await reverseReceipt(conn, 'loan_payment', paymentId, `Angsuran ke-${payments[0].angsuran_ke}`);
+        const sisa_pinjaman = await refreshLoanBalance(conn, loanId);
+        await conn.commit();
+
+        await syncJournal('loan_payment', conn => removeJournal(conn, 'loan_payment', paymentId));
 
-        if (loanRows.length === 0) {
+        res.json({
+            message: 'Pembayaran berhasil dihapus',
+            sisa_pinjaman
+        });
+    } catch (error) {
+        await conn.rollback();
+        console.error('Delete loan payment error:', error);
+        res.status(500).json({ error: 'Gagal menghapus pembayaran' });
+    } finally {
+        conn.release();
+    }
+});
+
+// ==================== RESTRUCTURING ====================
+
+// Restructure history, newest first, with the plan before and after each change
+router.get('/:id/restructures', authMiddleware, async (req, res) => {
+    try {
+        if (!await canReadLoan(req.user, req.params.id)) {
             return res.status(404).json({ error: 'Pinjaman tidak ditemukan' });
         }
 
-        const loan = loanRows[0];
-        const jumlah_pinjaman = parseFloat(loan.jumlah_pinjaman) || 0;
-        const bunga_persen = parseFloat(loan.bunga_persen) || 0;
-        const tenor_bulan = parseInt(loan.tenor_bulan) || 1;
-        const current_sisa = parseFloat(loan.sisa_pinjaman) || 0;
+        res.json(await listRestructures(pool, req.params.id));
+    } catch (error) {
+        console.error('Get loan restructures error:', error);
+        res.status(500).json({ error: 'Gagal mengambil riwayat restrukturisasi' });
+    }
+});
 
-        // Calculate max allowed sisa_pinjaman (principal + interest)
-        const totalBunga = jumlah_pinjaman * (bunga_persen / 100) * (tenor_bulan / 12);
-        const maxSisaPinjaman = jumlah_pinjaman + totalBunga;
+// Preview the new remaining plan without saving it
+router.post('/:id/restructures/preview', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const [loans] = await pool.execute('SELECT * FROM loans WHERE id = ?', [req.params.id]);
+        if (loans.length === 0) {
+            return res.status(404).json({ error: 'Pinjaman tidak ditemukan' });
+        }
 
-        console.log(`📊 Before delete - sisa_pinjaman: ${current_sisa}`);
-        console.log(`📊 Max allowed sisa_pinjaman: ${maxSisaPinjaman}`);
+        const inputError = validateRestructure(loans[0], req.body);
+        if (inputError) {
+            return res.status(400).json({ error: inputError });
+        }
 
-        // Delete the payment first
-        const [deleteResult] = await pool.execute(
-            'DELETE FROM loan_payments WHERE id = ? AND loan_id = ?',
-            [paymentId, loanId]
-        );
+        const plan = planRestructure(loans[0], await loadSchedule(loans[0].id), req.body);
+        if (plan.error) {
+            return res.status(400).json({ error: plan.error });
+        }
+        res.json(plan);
+    } catch (error) {
+        console.error('Preview loan restructure error:', error);
+        res.status(500).json({ error: 'Gagal menghitung restrukturisasi' });
+    }
+});
 
-        // Check if actually deleted (prevent double refund)
-        if (deleteResult.affectedRows === 0) {
-            console.log('❌ No rows deleted - payment may have been already deleted');
-            return res.status(404).json({ error: 'Pembayaran sudah dihapus sebelumnya' });
+// Extend tenor, change the rate, pause installments or settle early
+router.post('/:id/restructures', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+
+        const loan = await lockLoan(conn, req.params.id);
+        if (!loan) {
+            await conn.rollback();
+            return res.status(404).json({ error: 'Pinjaman tidak ditemukan' });
         }
-        console.log('✅ Payment deleted from loan_payments table');
 
-        // Calculate new sisa_pinjaman, capped at max
-        let newSisaPinjaman = current_sisa + total_angsuran;
-        if (newSisaPinjaman > maxSisaPinjaman) {
-            console.log(`⚠️ Capping sisa_pinjaman from ${newSisaPinjaman} to ${maxSisaPinjaman}`);
-            newSisaPinjaman = maxSisaPinjaman;
+        const inputError = validateRestructure(loan, req.body);
+        if (inputError) {
+            await conn.rollback();
+            return res.status(400).json({ error: inputError });
         }
 
-        // Update sisa_pinjaman with absolute value (not relative) to prevent race conditions
-        await pool.execute(
-            'UPDATE loans SET sisa_pinjaman = ? WHERE id = ?',
-            [newSisaPinjaman, loanId]
-        );
-        console.log(`✅ Updated sisa_pinjaman to: ${newSisaPinjaman}`);
+        const schedule = await ensureSchedule(conn, loan);
+        const plan = planRestructure(loan, schedule, req.body);
+        if (plan.error) {
+            await conn.rollback();
+            return res.status(400).json({ error: plan.error });
+        }
 
-        res.json({
-            message: 'Pembayaran berhasil dihapus',
-            sisa_pinjaman: newSisaPinjaman
-        });
+        const { id, payment_id } = await applyRestructure(conn, loan, schedule, plan, req.body, req.user.id);
+        let payments = [];
+        if (payment_id) {
+            // Early settlement: the pelunasan is received like any other installment
+            await conn.execute(
+                'UPDATE loan_payments SET cash_account_id = ? WHERE id = ?',
+                [req.body.cash_account_id || null, payment_id]
+            );
+            [payments] = await conn.execute('SELECT * FROM loan_payments WHERE id = ?', [payment_id]);
+            await syncLoanPaymentReceipt(conn, payments[0]);
+        }
+        await conn.commit();
+
+        if (payments.length > 0) {
+            await syncJournal('loan_payment', conn => postLoanPaymentJournal(conn, payments[0]));
+        }
+
+        const restructures = await listRestructures(pool, loan.id);
+        res.status(201).json(restructures.find(r => r.id === id));
     } catch (error) {
-        console.error('Delete loan payment error:', error);
-        res.status(500).json({ error: 'Gagal menghapus pembayaran' });
+        await conn.rollback();
+        console.error('Restructure loan error:', error);
+        res.status(500).json({ error: 'Gagal merestrukturisasi pinjaman' });
+    } finally {
+        conn.release();
     }
 });
 
@@ -0,0 +1,185 @@
+import express from 'express';
+import pool from '../config/database.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { getMemberProfile } from '../services/memberPortal.service.js';
+import {
+    checkIn,
+    closeMeeting,
+    createMeeting,
+    findAttendance,
+    findMeeting,
+    getMeetingDetail,
+    isOpen,
+    listMeetings,
+    updateMeeting,
+    validateCardForCheckIn,
+    validateMeeting
+} from '../services/meeting.service.js';
+
+const router = express.Router();
+
+router.use(authMiddleware, requireRole('admin', 'pengurus'));
+
+router.get('/', async (req, res) => {
+    try {
+        res.json(await listMeetings(pool));
+    } catch (error) {
+        console.error('Get meetings error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data rapat' });
+    }
+});
+
+router.get('/:id', async (req, res) => {
+    try {
+        const meeting = await getMeetingDetail(pool, req.params.id);
+        if (!meeting) {
+            return res.status(404).json({ error: 'Rapat tidak ditemukan' });
+        }
+        res.json(meeting);
+    } catch (error) {
+        console.error('Get meeting error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data rapat' });
+    }
+});
+
+router.post('/', async (req, res) => {
+    try {
+        const validationError = validateMeeting(req.body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const id = await createMeeting(pool, req.body, req.user.id);
+        res.status(201).json(await getMeetingDetail(pool, id));
+    } catch (error) {
+        console.error('Create meeting error:', error);
+        res.status(500).json({ error: 'Gagal membuat rapat' });
+    }
+});
+
+router.put('/:id', async (req, res) => {
+    try {
+        const meeting = await findMeeting(pool, req.params.id);
+        if (!meeting) {
+            return res.status(404).json({ error: 'Rapat tidak ditemukan' });
+        }
+        if (!isOpen(meeting)) {
+            return res.status(400).json({ error: 'Rapat yang sudah selesai atau dibatalkan tidak dapat diubah' });
+        }
+
+        const validationError = validateMeeting(req.body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        await updateMeeting(pool, meeting.id, req.body);
+        res.json(await getMeetingDetail(pool, meeting.id));
+    } catch (error) {
+        console.error('Update meeting error:', error);
+        res.status(500).json({ error: 'Gagal memperbarui rapat' });
+    }
+});
+
+router.post('/:id/close', async (req, res) => {
+    try {
+        const meeting = await findMeeting(pool, req.params.id);
+        if (!meeting) {
+            return res.status(404).json({ error: 'Rapat tidak ditemukan' });
+        }
+        if (!isOpen(meeting)) {
+            return res.status(400).json({ error: 'Rapat sudah ditutup' });
+        }
+
+        await closeMeeting(pool, meeting.id);
+        res.json(await getMeetingDetail(pool, meeting.id));
+    } catch (error) {
+        console.error('Close meeting error:', error);
+        res.status(500).json({ error: 'Gagal menutup rapat' });
+    }
+});
+
+router.post('/:id/cancel', async (req, res) => {
+    try {
+        const meeting = await findMeeting(pool, req.params.id);
+        if (!meeting) {
+            return res.status(404).json({ error: 'Rapat tidak ditemukan' });
+        }
+        if (!isOpen(meeting)) {
+            return res.status(400).json({ error: 'Rapat sudah ditutup' });
+        }
+
+        await pool.execute("UPDATE meetings SET status = 'dibatalkan' WHERE id = ?", [meeting.id]);
+        res.json(await getMeetingDetail(pool, meeting.id));
+    } catch (error) {
+        console.error('Cancel meeting error:', error);
+        res.status(500).json({ error: 'Gagal membatalkan rapat' });
+    }
+});
+
+// Check in a member. method 'qr' requires the serial of the scanned card, which must be the
+// member's current card (the signature was already verified offline by the scanner).
+router.post('/:id/attendance', async (req, res) => {
+    try {
+        const { member_id, card_serial } = req.body;
+        const method = req.body.method === 'manual' ? 'manual' : 'qr';
+
+        const meeting = await findMeeting(pool, req.params.id);
+        if (!meeting) {
+            return res.status(404).json({ error: 'Rapat tidak ditemukan' });
+        }
+        if (!isOpen(meeting)) {
+            return res.status(400).json({ error: 'Rapat sudah ditutup' });
+        }
+
+        const member = member_id ? await getMemberProfile(pool, member_id) : null;
+        if (!member) {
+            return res.status(404).json({ error: 'Anggota tidak ditemukan' });
+        }
+        if (member.status_keanggotaan !== 'aktif') {
+            return res.status(400).json({ error: `${member.nama_lengkap} bukan anggota aktif` });
+        }
+
+        if (method === 'qr') {
+            if (!card_serial) {
+                return res.status(400).json({ error: 'Serial kartu wajib diisi untuk presensi QR' });
+            }
+            const cardError = await validateCardForCheckIn(pool, member.id, card_serial);
+            if (cardError) {
+                return res.status(400).json({ error: cardError });
+            }
+        }
+
+        if (await findAttendance(pool, meeting.id, member.id)) {
+            return res.status(409).json({ error: `${member.nama_lengkap} sudah tercatat hadir` });
+        }
+
+        await checkIn(pool, meeting, { memberId: member.id, method, cardSerial: card_serial }, req.user.id);
+        res.status(201).json(await getMeetingDetail(pool, meeting.id));
+    } catch (error) {
+        console.error('Meeting check-in error:', error);
+        res.status(500).json({ error: 'Gagal mencatat kehadiran' });
+    }
+});
+
+router.delete('/:id/attendance/:attendanceId', async (req, res) => {
+    try {
+        const meeting = await findMeeting(pool, req.params.id);
+        if (!meeting) {
+            return res.status(404).json({ error: 'Rapat tidak ditemukan' });
+        }
+        if (!isOpen(meeting)) {
+            return res.status(400).json({ error: 'Daftar hadir rapat yang sudah ditutup tidak dapat diubah' });
+        }
+
+        await pool.execute(
+            'DELETE FROM meeting_attendance WHERE id = ? AND meeting_id = ?',
+            [req.params.attendanceId, meeting.id]
+        );
+        res.json(await getMeetingDetail(pool, meeting.id));
+    } catch (error) {
+        console.error('Delete attendance error:', error);
+        res.status(500).json({ error: 'Gagal menghapus kehadiran' });
+    }
+});
+
+export default router;
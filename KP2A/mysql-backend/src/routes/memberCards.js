@@ -0,0 +1,100 @@
+import express from 'express';
+import pool from '../config/database.js';
+import { authMiddleware, canAccessMember, requireRole } from '../middleware/auth.js';
+import { getMemberProfile } from '../services/memberPortal.service.js';
+import {
+    getSigningKey,
+    getTrustBundle,
+    issueCard,
+    listCards,
+    revokeCard
+} from '../services/memberCard.service.js';
+
+const router = express.Router();
+
+const MISSING_KEY_ERROR = 'Kunci penandatangan kartu anggota belum dikonfigurasi (MEMBER_CARD_PRIVATE_KEY)';
+
+// Public key and revocation list, cached by scanners for offline verification
+router.get('/trust', authMiddleware, async (req, res) => {
+    try {
+        const key = getSigningKey();
+        if (!key) {
+            return res.status(503).json({ error: MISSING_KEY_ERROR });
+        }
+
+        res.json(await getTrustBundle(pool, key));
+    } catch (error) {
+        console.error('Get member card trust error:', error);
+        res.status(500).json({ error: 'Gagal mengambil kunci verifikasi kartu anggota' });
+    }
+});
+
+// Card history of a member (pengurus, or the member themself)
+router.get('/members/:memberId', authMiddleware, async (req, res) => {
+    try {
+        if (!canAccessMember(req.user, req.params.memberId)) {
+            return res.status(403).json({ error: 'Akses ditolak' });
+        }
+
+        res.json(await listCards(pool, req.params.memberId));
+    } catch (error) {
+        console.error('Get member cards error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data kartu anggota' });
+    }
+});
+
+// Issue or reissue a member's card; the previous card is revoked
+router.post('/members/:memberId', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const key = getSigningKey();
+    if (!key) {
+        return res.status(503).json({ error: MISSING_KEY_ERROR });
+    }
+
+    const conn = await pool.getConnection();
+    try {
+        const member = await getMemberProfile(conn, req.params.memberId);
+        if (!member) {
+            return res.status(404).json({ error: 'Anggota tidak ditemukan' });
+        }
+        if (member.status_keanggotaan !== 'aktif') {
+            return res.status(400).json({ error: 'Kartu hanya dapat diterbitkan untuk anggota aktif' });
+        }
+
+        await conn.beginTransaction();
+        const card = await issueCard(conn, member, key, req.user.id);
+        await conn.commit();
+
+        res.status(201).json(card);
+    } catch (error) {
+        await conn.rollback();
+        console.error('Issue member card error:', error);
+        res.status(500).json({ error: 'Gagal menerbitkan kartu anggota' });
+    } finally {
+        conn.release();
+    }
+});
+
+router.post('/:id/revoke', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const reason = (req.body.reason || '').trim();
+        if (!reason) {
+            return res.status(400).json({ error: 'Alasan pencabutan wajib diisi' });
+        }
+
+        const [cards] = await pool.execute('SELECT * FROM member_cards WHERE id = ?', [req.params.id]);
+        if (cards.length === 0) {
+            return res.status(404).json({ error: 'Kartu anggota tidak ditemukan' });
+        }
+        if (cards[0].status !== 'aktif') {
+            return res.status(400).json({ error: 'Kartu sudah tidak aktif' });
+        }
+
+        await revokeCard(pool, cards[0].id, reason, req.user.id);
+        res.json(await listCards(pool, cards[0].member_id));
+    } catch (error) {
+        console.error('Revoke member card error:', error);
+        res.status(500).json({ error: 'Gagal mencabut kartu anggota' });
+    }
+});
+
+export default router;
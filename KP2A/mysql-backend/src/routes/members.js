@@ -1,17 +1,23 @@
 import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import pool from '../config/database.js';
-import { authMiddleware } from '../middleware/auth.js';
+import { authMiddleware, canAccessMember, requireRole, scopeToOwnMember } from '../middleware/auth.js';
 
 const router = express.Router();
 
-// Get all members
-router.get('/', authMiddleware, async (req, res) => {
+// Get all members (anggota only get their own row)
+router.get('/', authMiddleware, scopeToOwnMember, async (req, res) => {
     try {
-        const { limit, offset } = req.query;
-        let query = 'SELECT * FROM members ORDER BY nama_lengkap ASC';
+        const { limit, offset, member_id } = req.query;
+        let query = 'SELECT * FROM members';
         const params = [];
 
+        if (member_id) {
+            query += ' WHERE id = ?';
+            params.push(member_id);
+        }
+        query += ' ORDER BY nama_lengkap ASC';
+
         // Build query with LIMIT/OFFSET if provided
         // Note: LIMIT and OFFSET must be integers and are added directly to query (not as parameters)
         if (limit) {
@@ -48,7 +54,7 @@ router.get('/:id', authMiddleware, async (req, res) => {
             [req.params.id]
         );
 
-        if (rows.length === 0) {
+        if (rows.length === 0 || !canAccessMember(req.user, rows[0].id)) {
             return res.status(404).json({ error: 'Anggota tidak ditemukan' });
         }
 
@@ -60,7 +66,7 @@ router.get('/:id', authMiddleware, async (req, res) => {
 });
 
 // Create member
-router.post('/', authMiddleware, async (req, res) => {
+router.post('/', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
     try {
         console.log('📝 Create Member Request:', req.body);
         const {
@@ -124,7 +130,7 @@ router.post('/', authMiddleware, async (req, res) => {
 });
 
 // Update member
-router.put('/:id', authMiddleware, async (req, res) => {
+router.put('/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
     try {
         const { id } = req.params;
         console.log('📝 Update Member Request:', { id, body: req.body });
@@ -191,7 +197,7 @@ router.put('/:id', authMiddleware, async (req, res) => {
 });
 
 // Delete member
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
     try {
         const [result] = await pool.execute(
             'DELETE FROM members WHERE id = ?',
@@ -0,0 +1,140 @@
+import express from 'express';
+import pool from '../config/database.js';
+import { authMiddleware, requireRole, scopeToOwnMember } from '../middleware/auth.js';
+import {
+    PENALTY_TARGETS,
+    accruePenalties,
+    getRules,
+    listPenalties,
+    payPenalty,
+    saveRule,
+    validateRule,
+    waivePenalty
+} from '../services/penalty.service.js';
+
+const router = express.Router();
+
+// ==================== RULES ====================
+
+// Get penalty rules (loan and dues)
+router.get('/rules', authMiddleware, async (req, res) => {
+    try {
+        res.json(await getRules(pool));
+    } catch (error) {
+        console.error('Get penalty rules error:', error);
+        res.status(500).json({ error: 'Gagal mengambil aturan denda' });
+    }
+});
+
+// Update the penalty rule of a target
+router.put('/rules/:target', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { target } = req.params;
+        if (!PENALTY_TARGETS.includes(target)) {
+            return res.status(400).json({ error: 'Jenis denda tidak dikenal' });
+        }
+
+        const ruleError = validateRule(req.body);
+        if (ruleError) {
+            return res.status(400).json({ error: ruleError });
+        }
+
+        res.json(await saveRule(pool, target, req.body, req.user.id));
+    } catch (error) {
+        console.error('Save penalty rule error:', error);
+        res.status(500).json({ error: 'Gagal menyimpan aturan denda' });
+    }
+});
+
+// ==================== PENALTIES ====================
+
+// List penalties (recalculated up to today). Anggota only see their own.
+router.get('/', authMiddleware, scopeToOwnMember, async (req, res) => {
+    try {
+        const { source, member_id, loan_id, status } = req.query;
+        if (source && !PENALTY_TARGETS.includes(source)) {
+            return res.status(400).json({ error: 'Jenis denda tidak dikenal' });
+        }
+
+        await accruePenalties(pool);
+
+        const rows = await listPenalties(pool, {
+            source,
+            memberId: member_id,
+            loanId: loan_id,
+            status
+        });
+        res.json(rows);
+    } catch (error) {
+        console.error('Get penalties error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data denda' });
+    }
+});
+
+// Pay a penalty, optionally into a cash/bank account
+router.post('/:id/pay', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const { tanggal, cash_account_id } = req.body;
+
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+
+        const [penalties] = await conn.execute(
+            `SELECT p.*, m.nama_lengkap FROM penalties p JOIN members m ON p.member_id = m.id
+             WHERE p.id = ? FOR UPDATE`,
+            [req.params.id]
+        );
+        if (penalties.length === 0) {
+            await conn.rollback();
+            return res.status(404).json({ error: 'Denda tidak ditemukan' });
+        }
+        if (penalties[0].status !== 'belum_bayar') {
+            await conn.rollback();
+            return res.status(400).json({ error: 'Denda sudah lunas atau dihapuskan' });
+        }
+
+        await payPenalty(conn, penalties[0], {
+            paidDate: tanggal || new Date().toISOString().split('T')[0],
+            cashAccountId: cash_account_id || null,
+            userId: req.user.id
+        });
+        await conn.commit();
+
+        const [rows] = await pool.execute('SELECT * FROM penalties WHERE id = ?', [req.params.id]);
+        res.json(rows[0]);
+    } catch (error) {
+        await conn.rollback();
+        console.error('Pay penalty error:', error);
+        res.status(500).json({ error: 'Gagal membayar denda' });
+    } finally {
+        conn.release();
+    }
+});
+
+// Waive a penalty; the reason is kept for audit
+router.post('/:id/waive', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const reason = String(req.body.reason || '').trim();
+        if (!reason) {
+            return res.status(400).json({ error: 'Alasan penghapusan denda wajib diisi' });
+        }
+
+        const [penalties] = await pool.execute('SELECT * FROM penalties WHERE id = ?', [req.params.id]);
+        if (penalties.length === 0) {
+            return res.status(404).json({ error: 'Denda tidak ditemukan' });
+        }
+        if (penalties[0].status !== 'belum_bayar') {
+            return res.status(400).json({ error: 'Denda sudah lunas atau dihapuskan' });
+        }
+
+        await waivePenalty(pool, penalties[0], { reason, userId: req.user.id });
+
+        const [rows] = await pool.execute('SELECT * FROM penalties WHERE id = ?', [req.params.id]);
+        res.json(rows[0]);
+    } catch (error) {
+        console.error('Waive penalty error:', error);
+        res.status(500).json({ error: 'Gagal menghapuskan denda' });
+    }
+});
+
+export default router;
@@ -0,0 +1,89 @@
+import express from 'express';
+import pool from '../config/database.js';
+import { authMiddleware, requireMember } from '../middleware/auth.js';
+import { generateDues } from '../services/dues.service.js';
+import { getActiveCard } from '../services/memberCard.service.js';
+import {
+    getMemberProfile,
+    getSavingsSummary,
+    listDues,
+    listLoans,
+    listSavings,
+    listShuStatements
+} from '../services/memberPortal.service.js';
+
+// Member self-service portal. The member is always the one linked to the token (req.user.member_id).
+const router = express.Router();
+
+// Profile, savings balances and the data printed on the member card
+router.get('/me', authMiddleware, requireMember, async (req, res) => {
+    try {
+        const member = await getMemberProfile(pool, req.user.member_id);
+        if (!member) {
+            return res.status(404).json({ error: 'Data anggota tidak ditemukan' });
+        }
+
+        res.json({ member, savings: await getSavingsSummary(pool, member) });
+    } catch (error) {
+        console.error('Get portal profile error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data anggota' });
+    }
+});
+
+// Active signed member card (null until pengurus issue one)
+router.get('/card', authMiddleware, requireMember, async (req, res) => {
+    try {
+        res.json(await getActiveCard(pool, req.user.member_id));
+    } catch (error) {
+        console.error('Get portal card error:', error);
+        res.status(500).json({ error: 'Gagal mengambil kartu anggota' });
+    }
+});
+
+router.get('/dues', authMiddleware, requireMember, async (req, res) => {
+    try {
+        await generateDues(pool);
+        res.json(await listDues(pool, req.user.member_id));
+    } catch (error) {
+        console.error('Get portal dues error:', error);
+        res.status(500).json({ error: 'Gagal mengambil riwayat iuran' });
+    }
+});
+
+router.get('/savings', authMiddleware, requireMember, async (req, res) => {
+    try {
+        const member = await getMemberProfile(pool, req.user.member_id);
+        if (!member) {
+            return res.status(404).json({ error: 'Data anggota tidak ditemukan' });
+        }
+
+        const [summary, transactions] = await Promise.all([
+            getSavingsSummary(pool, member),
+            listSavings(pool, member.id)
+        ]);
+        res.json({ summary, transactions });
+    } catch (error) {
+        console.error('Get portal savings error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data simpanan' });
+    }
+});
+
+router.get('/loans', authMiddleware, requireMember, async (req, res) => {
+    try {
+        res.json(await listLoans(pool, req.user.member_id));
+    } catch (error) {
+        console.error('Get portal loans error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data pinjaman' });
+    }
+});
+
+router.get('/shu', authMiddleware, requireMember, async (req, res) => {
+    try {
+        res.json(await listShuStatements(pool, req.user.member_id));
+    } catch (error) {
+        console.error('Get portal SHU error:', error);
+        res.status(500).json({ error: 'Gagal mengambil rincian SHU' });
+    }
+});
+
+export default router;
@@ -1,12 +1,13 @@
 import express from 'express';
 import pool from '../config/database.js';
 import { v4 as uuidv4 } from 'uuid';
-import { authMiddleware } from '../middleware/auth.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { getBalanceSheet } from '../services/journal.service.js';
 
 const router = express.Router();
 
 // Get all reports
-router.get('/', authMiddleware, async (req, res) => {
+router.get('/', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
     try {
         const [rows] = await pool.execute(
             `SELECT r.*, COALESCE(m.nama_lengkap, u.email) as created_by_name
@@ -23,7 +24,7 @@ router.get('/', authMiddleware, async (req, res) => {
 });
 
 // Get single report
-router.get('/:id', authMiddleware, async (req, res) => {
+router.get('/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
     try {
         const { id } = req.params;
         const [rows] = await pool.execute(
@@ -47,7 +48,7 @@ router.get('/:id', authMiddleware, async (req, res) => {
 });
 
 // Generate report data from actual transactions
-router.post('/generate', authMiddleware, async (req, res) => {
+router.post('/generate', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
     try {
         const { periode_start, periode_end, tipe_laporan } = req.body;
 
@@ -108,6 +109,14 @@ router.post('/generate', authMiddleware, async (req, res) => {
             [periode_start, periode_end]
         );
 
+        // Denda keterlambatan yang dibayar
+        const [penaltiesData] = await pool.execute(
+            `SELECT SUM(amount) as total_denda
+             FROM penalties
+             WHERE status = 'lunas' AND paid_date BETWEEN ? AND ?`,
+            [periode_start, periode_end]
+        );
+
         // Calculate totals
         const iuranWajib = parseFloat(duesData[0]?.total_iuran_wajib || 0);
         const simpananSukarela = parseFloat(duesData[0]?.total_simpanan_sukarela || 0);
@@ -116,8 +125,9 @@ router.post('/generate', authMiddleware, async (req, res) => {
         const pengeluaran = parseFloat(expensesData[0]?.total_pengeluaran || 0);
         const pemasukanKas = parseFloat(expensesData[0]?.total_pemasukan_kas || 0);
         const pinjamanCair = parseFloat(loansDisbursedData[0]?.total_pinjaman_cair || 0);
+        const denda = parseFloat(penaltiesData[0]?.total_denda || 0);
 
-        const totalPemasukan = iuranWajib + simpananSukarela + simpananWajib + pembayaranPinjaman + pemasukanKas;
+        const totalPemasukan = iuranWajib + simpananSukarela + simpananWajib + pembayaranPinjaman + denda + pemasukanKas;
         const totalPengeluaran = pengeluaran + pinjamanCair; // Include Disbursement as Expense (Cashflow Out)
         const saldoAkhir = totalPemasukan - totalPengeluaran;
 
@@ -166,6 +176,13 @@ router.post('/generate', authMiddleware, async (req, res) => {
             [yearStart, periode_end]
         );
 
+        const [ytdPenalties] = await pool.execute(
+            `SELECT SUM(amount) as ytd_denda
+             FROM penalties
+             WHERE status = 'lunas' AND paid_date BETWEEN ? AND ?`,
+            [yearStart, periode_end]
+        );
+
         const ytdIuranWajib = parseFloat(ytdDues[0]?.ytd_iuran_wajib || 0);
         const ytdSimpananSukarela = parseFloat(ytdDues[0]?.ytd_simpanan_sukarela || 0);
         const ytdSimpananWajib = parseFloat(ytdDues[0]?.ytd_simpanan_wajib || 0);
@@ -173,45 +190,15 @@ router.post('/generate', authMiddleware, async (req, res) => {
         const ytdPengeluaran = parseFloat(ytdExpenses[0]?.ytd_pengeluaran || 0);
         const ytdDonasi = parseFloat(ytdExpenses[0]?.ytd_donasi || 0);
         const ytdPinjamanCair = parseFloat(ytdLoansDisbursed[0]?.ytd_pinjaman_cair || 0);
+        const ytdDenda = parseFloat(ytdPenalties[0]?.ytd_denda || 0);
 
-        const ytdTotalPemasukan = ytdIuranWajib + ytdSimpananSukarela + ytdSimpananWajib + ytdPembayaranPinjaman + ytdDonasi;
+        const ytdTotalPemasukan = ytdIuranWajib + ytdSimpananSukarela + ytdSimpananWajib + ytdPembayaranPinjaman + ytdDenda + ytdDonasi;
         const ytdTotalPengeluaran = ytdPengeluaran + ytdPinjamanCair;
         const ytdSaldoAkhir = ytdTotalPemasukan - ytdTotalPengeluaran;
 
         // ========== NERACA (Balance Sheet) Data ==========
-        // Piutang Pinjaman Anggota (Outstanding Loans) = Sum of sisa_pinjaman where status = 'aktif'
-        const [piutangData] = await pool.execute(
-            `SELECT SUM(COALESCE(sisa_pinjaman, 0)) as total_piutang
-             FROM loans WHERE status = 'aktif'`
-        );
-        const piutangPinjaman = parseFloat(piutangData[0]?.total_piutang || 0);
-
-        // Total Simpanan Anggota (All time - these are liabilities, money owed to members)
-        const [totalSimpananData] = await pool.execute(
-            `SELECT 
-                SUM(COALESCE(simpanan_wajib, 0)) as total_simpanan_wajib,
-                SUM(COALESCE(iuran_sukarela, 0)) as total_simpanan_sukarela,
-                SUM(COALESCE(iuran_wajib, 0)) as total_iuran_wajib
-             FROM dues`
-        );
-        const totalSimpananWajibAllTime = parseFloat(totalSimpananData[0]?.total_simpanan_wajib || 0);
-        const totalSimpananSukarelaAllTime = parseFloat(totalSimpananData[0]?.total_simpanan_sukarela || 0);
-        const totalIuranWajibAllTime = parseFloat(totalSimpananData[0]?.total_iuran_wajib || 0);
-
-        // Kas dan Bank = Saldo Akhir (simplified)
-        const kasBank = ytdSaldoAkhir;
-
-        // Total Harta = Kas + Piutang
-        const totalHarta = kasBank + piutangPinjaman;
-
-        // Total Kewajiban = Simpanan yang harus dikembalikan ke anggota
-        const totalKewajiban = totalSimpananWajibAllTime + totalSimpananSukarelaAllTime;
-
-        // Modal = Iuran Wajib (permanent capital) - No SHU since no interest on loans
-        const modalIuranWajib = totalIuranWajibAllTime;
-
-        // Total Modal = Just Iuran Wajib (no SHU)
-        const totalModal = modalIuranWajib;
+        // Derived from the general ledger (journal_lines) as of the end of the period
+        const neraca = await getBalanceSheet(pool, periode_end);
 
         const reportData = {
             // Laporan Keuangan (Income/Expense)
@@ -220,6 +207,7 @@ router.post('/generate', authMiddleware, async (req, res) => {
                 simpanan_sukarela: ytdSimpananSukarela,
                 simpanan_wajib: ytdSimpananWajib,
                 angsuran_pinjaman: ytdPembayaranPinjaman,
+                denda: ytdDenda,
                 donasi: ytdDonasi,
                 total: ytdTotalPemasukan
             },
@@ -233,24 +221,8 @@ router.post('/generate', authMiddleware, async (req, res) => {
                 total_uang_keluar: ytdTotalPengeluaran,
                 saldo_akhir: ytdSaldoAkhir
             },
-            // Neraca (Balance Sheet) - Simplified without SHU
-            neraca: {
-                harta: {
-                    kas_bank: kasBank,
-                    piutang_pinjaman: piutangPinjaman,
-                    total: totalHarta
-                },
-                kewajiban: {
-                    simpanan_wajib: totalSimpananWajibAllTime,
-                    simpanan_sukarela: totalSimpananSukarelaAllTime,
-                    total: totalKewajiban
-                },
-                modal: {
-                    iuran_wajib: modalIuranWajib,
-                    total: totalModal
-                },
-                total_kewajiban_modal: totalKewajiban + totalModal
-            },
+            // Neraca (Balance Sheet) - from the general ledger
+            neraca,
             transaction_count: (parseInt(duesData[0]?.dues_count) || 0) + (parseInt(loanPaymentsData[0]?.payment_count) || 0) + (parseInt(expensesData[0]?.expense_count) || 0)
         };
 
@@ -271,7 +243,7 @@ router.post('/generate', authMiddleware, async (req, res) => {
 });
 
 // Create/Save report
-router.post('/', authMiddleware, async (req, res) => {
+router.post('/', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
     try {
         const {
             periode_start,
@@ -312,7 +284,7 @@ router.post('/', authMiddleware, async (req, res) => {
 });
 
 // Delete report
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
     try {
         const { id } = req.params;
 
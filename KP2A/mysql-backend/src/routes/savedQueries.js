@@ -0,0 +1,122 @@
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+
+const router = express.Router();
+
+router.use(authMiddleware, requireRole('admin', 'pengurus'));
+
+const SELECT_QUERY = `
+    SELECT q.*, m.nama_lengkap AS created_by_name, u.email AS created_by_email
+    FROM saved_queries q
+    LEFT JOIN users u ON q.created_by = u.id
+    LEFT JOIN members m ON u.member_id = m.id
+`;
+
+// Queries are only ever run by the browser's read-only parser; this is just a sanity check
+function validateSavedQuery(body) {
+    if (!body.name || !String(body.name).trim()) {
+        return 'Nama query wajib diisi';
+    }
+    if (String(body.name).length > 150) {
+        return 'Nama query maksimal 150 karakter';
+    }
+    if (!body.query || !/^\s*(--[^\n]*\n\s*)*select\b/i.test(body.query)) {
+        return 'Hanya query SELECT yang dapat disimpan';
+    }
+    return null;
+}
+
+async function findSavedQuery(id) {
+    const [rows] = await pool.execute(`${SELECT_QUERY} WHERE q.id = ?`, [id]);
+    return rows[0];
+}
+
+// Own queries plus the ones shared by other pengurus
+router.get('/', async (req, res) => {
+    try {
+        const [rows] = await pool.execute(
+            `${SELECT_QUERY} WHERE q.created_by = ? OR q.is_shared = TRUE ORDER BY q.updated_at DESC`,
+            [req.user.id]
+        );
+        res.json(rows);
+    } catch (error) {
+        console.error('Get saved queries error:', error);
+        res.status(500).json({ error: 'Gagal mengambil query tersimpan' });
+    }
+});
+
+router.post('/', async (req, res) => {
+    try {
+        const validationError = validateSavedQuery(req.body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const id = uuidv4();
+        const { name, description, query, is_shared } = req.body;
+        await pool.execute(
+            'INSERT INTO saved_queries (id, name, description, query, is_shared, created_by) VALUES (?, ?, ?, ?, ?, ?)',
+            [id, name.trim(), description || null, query, Boolean(is_shared), req.user.id]
+        );
+
+        res.status(201).json(await findSavedQuery(id));
+    } catch (error) {
+        console.error('Create saved query error:', error);
+        res.status(500).json({ error: 'Gagal menyimpan query' });
+    }
+});
+
+router.put('/:id', async (req, res) => {
+    try {
+        const savedQuery = await findSavedQuery(req.params.id);
+        if (!savedQuery || (savedQuery.created_by !== req.user.id && !savedQuery.is_shared)) {
+            return res.status(404).json({ error: 'Query tidak ditemukan' });
+        }
+        if (savedQuery.created_by !== req.user.id && req.user.role !== 'admin') {
+            return res.status(403).json({ error: 'Hanya pembuat query yang dapat mengubahnya' });
+        }
+
+        const validationError = validateSavedQuery({ ...savedQuery, ...req.body });
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const { name, description, query, is_shared } = req.body;
+        await pool.execute(
+            `UPDATE saved_queries SET
+                name = COALESCE(?, name),
+                description = COALESCE(?, description),
+                query = COALESCE(?, query),
+                is_shared = COALESCE(?, is_shared)
+            WHERE id = ?`,
+            [name?.trim() ?? null, description ?? null, query ?? null, is_shared === undefined ? null : Boolean(is_shared), savedQuery.id]
+        );
+
+        res.json(await findSavedQuery(savedQuery.id));
+    } catch (error) {
+        console.error('Update saved query error:', error);
+        res.status(500).json({ error: 'Gagal memperbarui query' });
+    }
+});
+
+router.delete('/:id', async (req, res) => {
+    try {
+        const savedQuery = await findSavedQuery(req.params.id);
+        if (!savedQuery || (savedQuery.created_by !== req.user.id && !savedQuery.is_shared)) {
+            return res.status(404).json({ error: 'Query tidak ditemukan' });
+        }
+        if (savedQuery.created_by !== req.user.id && req.user.role !== 'admin') {
+            return res.status(403).json({ error: 'Hanya pembuat query yang dapat menghapusnya' });
+        }
+
+        await pool.execute('DELETE FROM saved_queries WHERE id = ?', [savedQuery.id]);
+        res.json({ message: 'Query berhasil dihapus' });
+    } catch (error) {
+        console.error('Delete saved query error:', error);
+        res.status(500).json({ error: 'Gagal menghapus query' });
+    }
+});
+
+export default router;
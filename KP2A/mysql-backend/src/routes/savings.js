@@ -0,0 +1,90 @@
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database.js';
+import { authMiddleware, requireRole, scopeToOwnMember } from '../middleware/auth.js';
+import { postSavingsJournal, removeJournal, syncJournal } from '../services/journal.service.js';
+
+const router = express.Router();
+
+// Get savings transactions with member info
+router.get('/', authMiddleware, scopeToOwnMember, async (req, res) => {
+    try {
+        const { member_id, type } = req.query;
+
+        let query = `
+      SELECT s.*, m.nama_lengkap, m.id_anggota
+      FROM savings s
+      JOIN members m ON s.member_id = m.id
+      WHERE 1=1
+    `;
+        const params = [];
+
+        if (member_id) {
+            query += ' AND s.member_id = ?';
+            params.push(member_id);
+        }
+        if (type) {
+            query += ' AND s.type = ?';
+            params.push(type);
+        }
+
+        query += ' ORDER BY s.transaction_date DESC, s.created_at DESC';
+
+        const [rows] = await pool.execute(query, params);
+        res.json(rows);
+    } catch (error) {
+        console.error('Get savings error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data simpanan' });
+    }
+});
+
+// Create savings deposit (amount < 0 for withdrawal)
+router.post('/', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { member_id, type = 'Simpanan Sukarela', amount, description, transaction_date } = req.body;
+
+        if (!member_id || amount === undefined || amount === null || !transaction_date) {
+            return res.status(400).json({ error: 'Data tidak lengkap (member_id, amount, transaction_date wajib)' });
+        }
+
+        const id = uuidv4();
+        await pool.execute(
+            `INSERT INTO savings (id, member_id, type, amount, description, transaction_date, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [id, member_id, type, amount, description || null, transaction_date, req.user.id]
+        );
+
+        const [rows] = await pool.execute(
+            `SELECT s.*, m.nama_lengkap, m.id_anggota
+       FROM savings s
+       JOIN members m ON s.member_id = m.id
+       WHERE s.id = ?`,
+            [id]
+        );
+
+        await syncJournal('savings', conn => postSavingsJournal(conn, rows[0]));
+        res.status(201).json(rows[0]);
+    } catch (error) {
+        console.error('Create savings error:', error);
+        res.status(500).json({ error: 'Gagal menambah simpanan' });
+    }
+});
+
+// Delete savings
+router.delete('/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const [result] = await pool.execute('DELETE FROM savings WHERE id = ?', [req.params.id]);
+
+        if (result.affectedRows === 0) {
+            return res.status(404).json({ error: 'Simpanan tidak ditemukan' });
+        }
+
+        await syncJournal('savings', conn => removeJournal(conn, 'savings', req.params.id));
+        res.json({ message: 'Simpanan berhasil dihapus' });
+    } catch (error) {
+        console.error('Delete savings error:', error);
+        res.status(500).json({ error: 'Gagal menghapus simpanan' });
+    }
+});
+
+export default router;
@@ -0,0 +1,203 @@
+import express from 'express';
+import pool from '../config/database.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import {
+    calculateShu,
+    getDistribution,
+    getScheme,
+    getYearResult,
+    payoutShare,
+    postShuDistribution,
+    saveScheme,
+    validateScheme
+} from '../services/shu.service.js';
+
+const router = express.Router();
+
+const parseYear = (value) => {
+    const year = parseInt(value, 10);
+    return Number.isInteger(year) && year >= 2000 && year <= 2100 ? year : null;
+};
+
+// ==================== SCHEME ====================
+
+// Get allocation scheme of a year (falls back to the default scheme)
+router.get('/scheme/:year', authMiddleware, async (req, res) => {
+    try {
+        const year = parseYear(req.params.year);
+        if (year === null) {
+            return res.status(400).json({ error: 'Tahun tidak valid' });
+        }
+        res.json(await getScheme(pool, year));
+    } catch (error) {
+        console.error('Get SHU scheme error:', error);
+        res.status(500).json({ error: 'Gagal mengambil skema SHU' });
+    }
+});
+
+// Save allocation scheme of a year (year 0 = default)
+router.put('/scheme/:year', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const year = req.params.year === '0' ? 0 : parseYear(req.params.year);
+        if (year === null) {
+            return res.status(400).json({ error: 'Tahun tidak valid' });
+        }
+
+        const { components } = req.body;
+        const schemeError = validateScheme(components);
+        if (schemeError) {
+            return res.status(400).json({ error: schemeError });
+        }
+
+        const distribution = year ? await getDistribution(pool, year) : null;
+        if (distribution) {
+            return res.status(400).json({ error: `SHU tahun ${year} sudah diposting, skema tidak dapat diubah` });
+        }
+
+        res.json(await saveScheme(pool, year, components, req.user.id));
+    } catch (error) {
+        console.error('Save SHU scheme error:', error);
+        res.status(500).json({ error: 'Gagal menyimpan skema SHU' });
+    }
+});
+
+// ==================== CALCULATION ====================
+
+// Preview SHU and per-member shares of a year
+router.get('/:year', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const year = parseYear(req.params.year);
+        if (year === null) {
+            return res.status(400).json({ error: 'Tahun tidak valid' });
+        }
+        res.json(await calculateShu(pool, year));
+    } catch (error) {
+        console.error('Calculate SHU error:', error);
+        res.status(500).json({ error: 'Gagal menghitung SHU' });
+    }
+});
+
+// SHU statement of one member (anggota hanya dapat melihat miliknya sendiri)
+router.get('/:year/members/:memberId', authMiddleware, async (req, res) => {
+    try {
+        const year = parseYear(req.params.year);
+        if (year === null) {
+            return res.status(400).json({ error: 'Tahun tidak valid' });
+        }
+        if (req.user.role === 'anggota' && req.user.member_id !== req.params.memberId) {
+            return res.status(403).json({ error: 'Akses ditolak' });
+        }
+
+        const result = await calculateShu(pool, year);
+        const posted = result.distribution?.members.find(m => m.member_id === req.params.memberId);
+        const preview = result.members.find(m => m.member_id === req.params.memberId);
+        if (!posted && !preview) {
+            return res.status(404).json({ error: 'Anggota tidak memiliki bagian SHU pada tahun ini' });
+        }
+
+        res.json({
+            year,
+            status: result.distribution ? 'posted' : 'preview',
+            shu_amount: result.distribution ? parseFloat(result.distribution.shu_amount) : result.shu_amount,
+            components: result.distribution ? result.distribution.components : result.components,
+            share: posted || preview
+        });
+    } catch (error) {
+        console.error('Get SHU statement error:', error);
+        res.status(500).json({ error: 'Gagal mengambil rincian SHU anggota' });
+    }
+});
+
+// ==================== DISTRIBUTION ====================
+
+// Post the year's distribution: close income/expense and store member shares
+router.post('/:year/distribute', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const year = parseYear(req.params.year);
+    if (year === null) {
+        return res.status(400).json({ error: 'Tahun tidak valid' });
+    }
+
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+
+        const [existing] = await conn.execute('SELECT id FROM shu_distributions WHERE year = ? FOR UPDATE', [year]);
+        if (existing.length > 0) {
+            await conn.rollback();
+            return res.status(400).json({ error: `SHU tahun ${year} sudah diposting` });
+        }
+
+        const scheme = await getScheme(conn, year);
+        const schemeError = validateScheme(scheme.components);
+        if (schemeError) {
+            await conn.rollback();
+            return res.status(400).json({ error: schemeError });
+        }
+
+        const result = await getYearResult(conn, year);
+        if (result.shu <= 0) {
+            await conn.rollback();
+            return res.status(400).json({ error: `SHU tahun ${year} tidak positif, tidak ada yang dibagikan` });
+        }
+
+        const distribution = await postShuDistribution(conn, year, scheme, result, req.user.id);
+        await conn.commit();
+        res.status(201).json(distribution);
+    } catch (error) {
+        await conn.rollback();
+        console.error('Post SHU distribution error:', error);
+        res.status(500).json({ error: 'Gagal memposting pembagian SHU' });
+    } finally {
+        conn.release();
+    }
+});
+
+// Pay a member's share in cash or credit it to Simpanan Sukarela
+router.post('/shares/:id/payout', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    const { method, cash_account_id, tanggal } = req.body;
+    if (!['tunai', 'simpanan'].includes(method)) {
+        return res.status(400).json({ error: 'Metode pembayaran harus tunai atau simpanan' });
+    }
+
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+
+        const [shares] = await conn.execute(
+            `SELECT s.*, d.year, m.nama_lengkap
+             FROM shu_member_shares s
+             JOIN shu_distributions d ON s.distribution_id = d.id
+             JOIN members m ON s.member_id = m.id
+             WHERE s.id = ? FOR UPDATE`,
+            [req.params.id]
+        );
+        if (shares.length === 0) {
+            await conn.rollback();
+            return res.status(404).json({ error: 'Bagian SHU tidak ditemukan' });
+        }
+        if (shares[0].paid_at) {
+            await conn.rollback();
+            return res.status(400).json({ error: 'Bagian SHU sudah dibayarkan' });
+        }
+
+        await payoutShare(conn, shares[0], {
+            year: shares[0].year,
+            method,
+            cashAccountId: cash_account_id || null,
+            entryDate: tanggal || new Date().toISOString().split('T')[0],
+            userId: req.user.id
+        });
+        await conn.commit();
+
+        const [rows] = await pool.execute('SELECT * FROM shu_member_shares WHERE id = ?', [req.params.id]);
+        res.json(rows[0]);
+    } catch (error) {
+        await conn.rollback();
+        console.error('SHU payout error:', error);
+        res.status(500).json({ error: 'Gagal membayarkan SHU' });
+    } finally {
+        conn.release();
+    }
+});
+
+export default router;
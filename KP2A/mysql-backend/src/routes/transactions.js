@@ -0,0 +1,570 @@
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { postTransactionJournal, removeJournal, syncJournal } from '../services/journal.service.js';
+import { toDateString } from '../services/loanSchedule.service.js';
+
+const router = express.Router();
+
+const TRANSACTION_SELECT = `
+    SELECT t.*,
+        c.name AS category_name, c.type AS category_type, c.color_code AS category_color,
+        pm.name AS payment_method_name, pm.type AS payment_method_type
+    FROM transactions t
+    LEFT JOIN transaction_categories c ON t.category_id = c.id
+    LEFT JOIN payment_methods pm ON t.payment_method_id = pm.id
+`;
+
+const STATUSES = ['pending', 'approved', 'rejected'];
+
+// mysql2 gives JSON columns back parsed, but BOOLEAN as 0/1
+const toCategory = (row) => ({ ...row, is_active: row.is_active === null ? true : Boolean(row.is_active) });
+
+const jsonOrNull = (value) => (value === undefined || value === null ? null : JSON.stringify(value));
+
+// Same shape as the Supabase transactions (transaction_type, transaction_date, joined category)
+const toTransaction = ({ type, tanggal, category_name, category_type, category_color, payment_method_name, payment_method_type, ...row }) => ({
+    ...row,
+    transaction_type: type,
+    transaction_date: tanggal,
+    amount: parseFloat(row.amount) || 0,
+    category: row.category_id ? { id: row.category_id, name: category_name, type: category_type, color_code: category_color } : null,
+    payment_method: row.payment_method_id ? { id: row.payment_method_id, name: payment_method_name, type: payment_method_type } : null
+});
+
+const findTransaction = async (conn, id) => {
+    const [rows] = await conn.execute(`${TRANSACTION_SELECT} WHERE t.id = ?`, [id]);
+    return rows[0] || null;
+};
+
+const validateTransaction = ({ transaction_type, amount, transaction_date, status }) => {
+    if (!['income', 'expense'].includes(transaction_type) || !transaction_date) {
+        return 'Data tidak lengkap (transaction_type, amount, transaction_date wajib diisi)';
+    }
+    if (!(parseFloat(amount) > 0)) return 'Jumlah transaksi harus lebih dari 0';
+    if (status && !STATUSES.includes(status)) return 'Status transaksi tidak valid';
+    return null;
+};
+
+// ==================== CATEGORIES & PAYMENT METHODS ====================
+
+// Active categories unless is_active=false is asked for
+router.get('/categories', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { type, is_active } = req.query;
+
+        let query = 'SELECT * FROM transaction_categories WHERE COALESCE(is_active, TRUE) = ?';
+        const params = [is_active !== 'false'];
+
+        if (type) {
+            query += ' AND type = ?';
+            params.push(type);
+        }
+
+        query += ' ORDER BY type, name';
+
+        const [rows] = await pool.execute(query, params);
+        res.json(rows.map(toCategory));
+    } catch (error) {
+        console.error('Get transaction categories error:', error);
+        res.status(500).json({ error: 'Gagal mengambil kategori transaksi' });
+    }
+});
+
+router.post('/categories', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { name, type, description, color_code, withdrawal_type, auto_classification_rules, validation_rules, is_active } = req.body;
+        if (!name || !String(name).trim() || !['income', 'expense'].includes(type)) {
+            return res.status(400).json({ error: 'Data tidak lengkap (name, type wajib diisi)' });
+        }
+
+        const id = uuidv4();
+        await pool.execute(
+            `INSERT INTO transaction_categories
+                (id, name, type, description, color_code, withdrawal_type, auto_classification_rules, validation_rules, is_active)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [id, String(name).trim(), type, description || null, color_code || null, withdrawal_type || null,
+                jsonOrNull(auto_classification_rules), jsonOrNull(validation_rules), is_active !== false]
+        );
+
+        const [rows] = await pool.execute('SELECT * FROM transaction_categories WHERE id = ?', [id]);
+        res.status(201).json(toCategory(rows[0]));
+    } catch (error) {
+        console.error('Create transaction category error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(400).json({ error: 'Kategori dengan nama dan jenis ini sudah ada' });
+        }
+        res.status(500).json({ error: 'Gagal menambah kategori transaksi' });
+    }
+});
+
+router.put('/categories/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { name, description, color_code, withdrawal_type, auto_classification_rules, validation_rules, is_active } = req.body;
+
+        await pool.execute(
+            `UPDATE transaction_categories SET
+                name = COALESCE(?, name),
+                description = COALESCE(?, description),
+                color_code = COALESCE(?, color_code),
+                withdrawal_type = COALESCE(?, withdrawal_type),
+                auto_classification_rules = COALESCE(?, auto_classification_rules),
+                validation_rules = COALESCE(?, validation_rules),
+                is_active = COALESCE(?, is_active)
+             WHERE id = ?`,
+            [name ? String(name).trim() : null, description ?? null, color_code || null, withdrawal_type || null,
+                jsonOrNull(auto_classification_rules), jsonOrNull(validation_rules), is_active ?? null, req.params.id]
+        );
+
+        const [rows] = await pool.execute('SELECT * FROM transaction_categories WHERE id = ?', [req.params.id]);
+        if (rows.length === 0) {
+            return res.status(404).json({ error: 'Kategori transaksi tidak ditemukan' });
+        }
+        res.json(toCategory(rows[0]));
+    } catch (error) {
+        console.error('Update transaction category error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(400).json({ error: 'Kategori dengan nama dan jenis ini sudah ada' });
+        }
+        res.status(500).json({ error: 'Gagal mengupdate kategori transaksi' });
+    }
+});
+
+// Categories already used by a transaction are deactivated instead, so the books keep their names
+router.delete('/categories/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const [used] = await pool.execute('SELECT COUNT(*) AS total FROM transactions WHERE category_id = ?', [req.params.id]);
+        const [result] = used[0].total > 0
+            ? await pool.execute('UPDATE transaction_categories SET is_active = FALSE WHERE id = ?', [req.params.id])
+            : await pool.execute('DELETE FROM transaction_categories WHERE id = ?', [req.params.id]);
+        if (result.affectedRows === 0) {
+            return res.status(404).json({ error: 'Kategori transaksi tidak ditemukan' });
+        }
+
+        res.json({ message: used[0].total > 0 ? 'Kategori dinonaktifkan karena sudah dipakai transaksi' : 'Kategori berhasil dihapus' });
+    } catch (error) {
+        console.error('Delete transaction category error:', error);
+        res.status(500).json({ error: 'Gagal menghapus kategori transaksi' });
+    }
+});
+
+const PAYMENT_METHOD_TYPES = ['cash', 'bank_transfer', 'credit_card', 'debit_card', 'e_wallet', 'other'];
+
+// Same is_active normalisation as the categories
+const toPaymentMethod = toCategory;
+
+// Active methods unless is_active=false is asked for
+router.get('/payment-methods', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const [rows] = await pool.execute(
+            'SELECT * FROM payment_methods WHERE COALESCE(is_active, TRUE) = ? ORDER BY name',
+            [req.query.is_active !== 'false']
+        );
+        res.json(rows.map(toPaymentMethod));
+    } catch (error) {
+        console.error('Get payment methods error:', error);
+        res.status(500).json({ error: 'Gagal mengambil metode pembayaran' });
+    }
+});
+
+router.post('/payment-methods', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { name, type, description, is_active } = req.body;
+        if (!name || !String(name).trim() || !PAYMENT_METHOD_TYPES.includes(type)) {
+            return res.status(400).json({ error: 'Data tidak lengkap (name, type wajib diisi)' });
+        }
+
+        const id = uuidv4();
+        await pool.execute(
+            'INSERT INTO payment_methods (id, name, type, description, is_active) VALUES (?, ?, ?, ?, ?)',
+            [id, String(name).trim(), type, description || null, is_active !== false]
+        );
+
+        const [rows] = await pool.execute('SELECT * FROM payment_methods WHERE id = ?', [id]);
+        res.status(201).json(toPaymentMethod(rows[0]));
+    } catch (error) {
+        console.error('Create payment method error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(400).json({ error: 'Metode pembayaran dengan nama ini sudah ada' });
+        }
+        res.status(500).json({ error: 'Gagal menambah metode pembayaran' });
+    }
+});
+
+router.put('/payment-methods/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { name, type, description, is_active } = req.body;
+        if (type !== undefined && !PAYMENT_METHOD_TYPES.includes(type)) {
+            return res.status(400).json({ error: 'Tipe metode pembayaran tidak valid' });
+        }
+
+        await pool.execute(
+            `UPDATE payment_methods SET
+                name = COALESCE(?, name),
+                type = COALESCE(?, type),
+                description = COALESCE(?, description),
+                is_active = COALESCE(?, is_active)
+             WHERE id = ?`,
+            [name ? String(name).trim() : null, type || null, description ?? null, is_active ?? null, req.params.id]
+        );
+
+        const [rows] = await pool.execute('SELECT * FROM payment_methods WHERE id = ?', [req.params.id]);
+        if (rows.length === 0) {
+            return res.status(404).json({ error: 'Metode pembayaran tidak ditemukan' });
+        }
+        res.json(toPaymentMethod(rows[0]));
+    } catch (error) {
+        console.error('Update payment method error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(400).json({ error: 'Metode pembayaran dengan nama ini sudah ada' });
+        }
+        res.status(500).json({ error: 'Gagal mengupdate metode pembayaran' });
+    }
+});
+
+// Methods already used by a transaction are deactivated instead, like categories
+router.delete('/payment-methods/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const [used] = await pool.execute('SELECT COUNT(*) AS total FROM transactions WHERE payment_method_id = ?', [req.params.id]);
+        const [result] = used[0].total > 0
+            ? await pool.execute('UPDATE payment_methods SET is_active = FALSE WHERE id = ?', [req.params.id])
+            : await pool.execute('DELETE FROM payment_methods WHERE id = ?', [req.params.id]);
+        if (result.affectedRows === 0) {
+            return res.status(404).json({ error: 'Metode pembayaran tidak ditemukan' });
+        }
+
+        res.json({ message: used[0].total > 0 ? 'Metode pembayaran dinonaktifkan karena sudah dipakai transaksi' : 'Metode pembayaran berhasil dihapus' });
+    } catch (error) {
+        console.error('Delete payment method error:', error);
+        res.status(500).json({ error: 'Gagal menghapus metode pembayaran' });
+    }
+});
+
+// ==================== RECURRING TRANSACTIONS ====================
+
+const RECURRING_SELECT = `
+    SELECT r.*,
+        c.name AS category_name, c.type AS category_type, c.color_code AS category_color,
+        pm.name AS payment_method_name, pm.type AS payment_method_type
+    FROM recurring_transactions r
+    LEFT JOIN transaction_categories c ON r.category_id = c.id
+    LEFT JOIN payment_methods pm ON r.payment_method_id = pm.id
+`;
+
+const FREQUENCIES = ['monthly', 'quarterly', 'yearly'];
+
+// DATE columns come back as local midnight; the schedule compares plain YYYY-MM-DD strings
+const dateOrNull = (value) => (value ? toDateString(value) : null);
+
+const toRecurring = ({ category_name, category_type, category_color, payment_method_name, payment_method_type, ...row }) => ({
+    ...row,
+    amount: parseFloat(row.amount) || 0,
+    start_date: dateOrNull(row.start_date),
+    end_date: dateOrNull(row.end_date),
+    next_due_date: dateOrNull(row.next_due_date),
+    last_generated_date: dateOrNull(row.last_generated_date),
+    skipped_dates: row.skipped_dates || [],
+    is_active: Boolean(row.is_active),
+    category: row.category_id ? { id: row.category_id, name: category_name, type: category_type, color_code: category_color } : null,
+    payment_method: row.payment_method_id ? { id: row.payment_method_id, name: payment_method_name, type: payment_method_type } : null
+});
+
+const findRecurring = async (id) => {
+    const [rows] = await pool.execute(`${RECURRING_SELECT} WHERE r.id = ?`, [id]);
+    return rows[0] || null;
+};
+
+const validateRecurring = ({ name, transaction_type, amount, frequency, start_date, end_date, next_due_date }) => {
+    if (!name || !String(name).trim() || !['income', 'expense'].includes(transaction_type) || !start_date || !next_due_date) {
+        return 'Data tidak lengkap (name, transaction_type, amount, start_date wajib diisi)';
+    }
+    if (!(parseFloat(amount) > 0)) return 'Jumlah harus lebih dari 0';
+    if (!FREQUENCIES.includes(frequency)) return 'Jadwal transaksi berulang tidak valid';
+    if (end_date && end_date < start_date) return 'Tanggal selesai tidak boleh sebelum tanggal mulai';
+    return null;
+};
+
+router.get('/recurring', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        let query = `${RECURRING_SELECT} WHERE 1=1`;
+        const params = [];
+
+        if (req.query.is_active !== undefined) {
+            query += ' AND r.is_active = ?';
+            params.push(req.query.is_active === 'true');
+        }
+
+        query += ' ORDER BY r.name';
+
+        const [rows] = await pool.execute(query, params);
+        res.json(rows.map(toRecurring));
+    } catch (error) {
+        console.error('Get recurring transactions error:', error);
+        res.status(500).json({ error: 'Gagal mengambil transaksi berulang' });
+    }
+});
+
+router.get('/recurring/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const template = await findRecurring(req.params.id);
+        if (!template) {
+            return res.status(404).json({ error: 'Transaksi berulang tidak ditemukan' });
+        }
+        res.json(toRecurring(template));
+    } catch (error) {
+        console.error('Get recurring transaction error:', error);
+        res.status(500).json({ error: 'Gagal mengambil transaksi berulang' });
+    }
+});
+
+router.post('/recurring', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const input = {
+            ...req.body,
+            frequency: req.body.frequency || 'monthly',
+            next_due_date: req.body.next_due_date || req.body.start_date
+        };
+        const inputError = validateRecurring(input);
+        if (inputError) {
+            return res.status(400).json({ error: inputError });
+        }
+
+        const id = uuidv4();
+        await pool.execute(
+            `INSERT INTO recurring_transactions
+                (id, name, transaction_type, amount, category_id, payment_method_id, description, frequency,
+                 start_date, end_date, next_due_date, skipped_dates, is_active, created_by)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [id, String(input.name).trim(), input.transaction_type, parseFloat(input.amount), input.category_id || null,
+                input.payment_method_id || null, input.description || null, input.frequency, input.start_date,
+                input.end_date || null, input.next_due_date, JSON.stringify(input.skipped_dates || []),
+                input.is_active !== false, req.user.id]
+        );
+
+        res.status(201).json(toRecurring(await findRecurring(id)));
+    } catch (error) {
+        console.error('Create recurring transaction error:', error);
+        res.status(500).json({ error: 'Gagal menyimpan transaksi berulang' });
+    }
+});
+
+// Also records the generation progress (next_due_date, last_generated_date) and skipped dates
+router.put('/recurring/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const current = await findRecurring(req.params.id);
+        if (!current) {
+            return res.status(404).json({ error: 'Transaksi berulang tidak ditemukan' });
+        }
+
+        const stored = toRecurring(current);
+        const fields = ['name', 'transaction_type', 'amount', 'category_id', 'payment_method_id', 'description', 'frequency',
+            'start_date', 'end_date', 'next_due_date', 'last_generated_date', 'skipped_dates', 'is_active'];
+        const merged = Object.fromEntries(fields.map(field => [field, req.body[field] !== undefined ? req.body[field] : stored[field]]));
+        const inputError = validateRecurring(merged);
+        if (inputError) {
+            return res.status(400).json({ error: inputError });
+        }
+
+        await pool.execute(
+            `UPDATE recurring_transactions SET
+                name = ?,
+                transaction_type = ?,
+                amount = ?,
+                category_id = ?,
+                payment_method_id = ?,
+                description = ?,
+                frequency = ?,
+                start_date = ?,
+                end_date = ?,
+                next_due_date = ?,
+                last_generated_date = ?,
+                skipped_dates = ?,
+                is_active = ?
+             WHERE id = ?`,
+            [String(merged.name).trim(), merged.transaction_type, parseFloat(merged.amount), merged.category_id || null,
+                merged.payment_method_id || null, merged.description || null, merged.frequency, merged.start_date,
+                merged.end_date || null, merged.next_due_date, merged.last_generated_date || null,
+                JSON.stringify(merged.skipped_dates || []), Boolean(merged.is_active), req.params.id]
+        );
+
+        res.json(toRecurring(await findRecurring(req.params.id)));
+    } catch (error) {
+        console.error('Update recurring transaction error:', error);
+        res.status(500).json({ error: 'Gagal mengupdate transaksi berulang' });
+    }
+});
+
+// Transactions already generated from the template stay in the books
+router.delete('/recurring/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const [result] = await pool.execute('DELETE FROM recurring_transactions WHERE id = ?', [req.params.id]);
+        if (result.affectedRows === 0) {
+            return res.status(404).json({ error: 'Transaksi berulang tidak ditemukan' });
+        }
+        res.json({ message: 'Transaksi berulang berhasil dihapus' });
+    } catch (error) {
+        console.error('Delete recurring transaction error:', error);
+        res.status(500).json({ error: 'Gagal menghapus transaksi berulang' });
+    }
+});
+
+// ==================== TRANSACTIONS ====================
+
+// Get all transactions
+router.get('/', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const { transaction_type, status, recurring_transaction_id, start_date, end_date } = req.query;
+
+        let query = `${TRANSACTION_SELECT} WHERE 1=1`;
+        const params = [];
+
+        if (transaction_type) {
+            query += ' AND t.type = ?';
+            params.push(transaction_type);
+        }
+        if (status) {
+            query += ' AND t.status = ?';
+            params.push(status);
+        }
+        if (recurring_transaction_id) {
+            query += ' AND t.recurring_transaction_id = ?';
+            params.push(recurring_transaction_id);
+        }
+        if (start_date) {
+            query += ' AND t.tanggal >= ?';
+            params.push(start_date);
+        }
+        if (end_date) {
+            query += ' AND t.tanggal <= ?';
+            params.push(end_date);
+        }
+
+        query += ' ORDER BY t.tanggal DESC, t.created_at DESC';
+
+        const [rows] = await pool.execute(query, params);
+        res.json(rows.map(toTransaction));
+    } catch (error) {
+        console.error('Get transactions error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data transaksi' });
+    }
+});
+
+// Get transaction by ID
+router.get('/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const transaction = await findTransaction(pool, req.params.id);
+        if (!transaction) {
+            return res.status(404).json({ error: 'Transaksi tidak ditemukan' });
+        }
+        res.json(toTransaction(transaction));
+    } catch (error) {
+        console.error('Get transaction error:', error);
+        res.status(500).json({ error: 'Gagal mengambil data transaksi' });
+    }
+});
+
+// Create transaction; approved transactions are journaled right away
+router.post('/', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const inputError = validateTransaction(req.body);
+        if (inputError) {
+            return res.status(400).json({ error: inputError });
+        }
+
+        const {
+            transaction_type,
+            amount,
+            transaction_date,
+            category_id,
+            payment_method_id,
+            description,
+            status = 'approved',
+            recurring_transaction_id
+        } = req.body;
+
+        const id = uuidv4();
+        await pool.execute(
+            `INSERT INTO transactions (id, category_id, type, amount, description, tanggal, payment_method_id, status, recurring_transaction_id, created_by)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [id, category_id || null, transaction_type, parseFloat(amount), description || null, transaction_date,
+                payment_method_id || null, status, recurring_transaction_id || null, req.user.id]
+        );
+
+        const transaction = await findTransaction(pool, id);
+        await syncJournal('transaction', conn => postTransactionJournal(conn, transaction));
+        res.status(201).json(toTransaction(transaction));
+    } catch (error) {
+        console.error('Create transaction error:', error);
+        res.status(500).json({ error: 'Gagal menambah transaksi' });
+    }
+});
+
+// Update transaction; the journal follows its amount, category and status
+router.put('/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const current = await findTransaction(pool, req.params.id);
+        if (!current) {
+            return res.status(404).json({ error: 'Transaksi tidak ditemukan' });
+        }
+
+        const merged = {
+            transaction_type: req.body.transaction_type ?? current.type,
+            amount: req.body.amount ?? current.amount,
+            transaction_date: req.body.transaction_date ?? current.tanggal,
+            status: req.body.status ?? current.status
+        };
+        const inputError = validateTransaction(merged);
+        if (inputError) {
+            return res.status(400).json({ error: inputError });
+        }
+
+        const { category_id, payment_method_id, description } = req.body;
+        await pool.execute(
+            `UPDATE transactions SET
+                type = ?,
+                amount = ?,
+                tanggal = ?,
+                status = ?,
+                category_id = ?,
+                payment_method_id = ?,
+                description = ?
+             WHERE id = ?`,
+            [
+                merged.transaction_type,
+                parseFloat(merged.amount),
+                merged.transaction_date,
+                merged.status,
+                category_id !== undefined ? category_id || null : current.category_id,
+                payment_method_id !== undefined ? payment_method_id || null : current.payment_method_id,
+                description !== undefined ? description || null : current.description,
+                req.params.id
+            ]
+        );
+
+        const transaction = await findTransaction(pool, req.params.id);
+        await syncJournal('transaction', conn => postTransactionJournal(conn, transaction));
+        res.json(toTransaction(transaction));
+    } catch (error) {
+        console.error('Update transaction error:', error);
+        res.status(500).json({ error: 'Gagal mengupdate transaksi' });
+    }
+});
+
+// Delete transaction
+router.delete('/:id', authMiddleware, requireRole('admin', 'pengurus'), async (req, res) => {
+    try {
+        const [result] = await pool.execute('DELETE FROM transactions WHERE id = ?', [req.params.id]);
+        if (result.affectedRows === 0) {
+            return res.status(404).json({ error: 'Transaksi tidak ditemukan' });
+        }
+
+        await syncJournal('transaction', conn => removeJournal(conn, 'transaction', req.params.id));
+        res.json({ message: 'Transaksi berhasil dihapus' });
+    } catch (error) {
+        console.error('Delete transaction error:', error);
+        res.status(500).json({ error: 'Gagal menghapus transaksi' });
+    }
+});
+
+export default router;
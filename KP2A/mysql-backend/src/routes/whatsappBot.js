@@ -0,0 +1,722 @@
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+
+const router = express.Router();
+
+router.use(authMiddleware, requireRole('admin', 'pengurus'));
+
+const TEMPLATE_CATEGORIES = ['welcome', 'menu', 'balance', 'loan', 'error', 'help'];
+
+// BOOLEAN columns come back as 0/1
+const toConfig = (row) => ({ ...row, auto_reply: Boolean(row.auto_reply) });
+
+const toVerification = (row) => ({ ...row, is_verified: Boolean(row.is_verified) });
+
+// active_trigger only backs the unique key
+const toFlow = ({ active_trigger, ...row }) => ({
+    ...row,
+    confirm: Boolean(row.confirm),
+    requires_member: Boolean(row.requires_member),
+    admin_only: Boolean(row.admin_only),
+    is_active: Boolean(row.is_active)
+});
+
+const toTemplate = (row) => ({ ...row, variables: row.variables || [], is_active: Boolean(row.is_active) });
+
+// Stored as JSON; the Supabase schema sends the list as a JSON string
+const templateVariables = (variables) => {
+    if (variables === undefined || variables === null) return null;
+    return typeof variables === 'string' ? variables : JSON.stringify(variables);
+};
+
+const FLOW_STATUSES = ['baru', 'diproses', 'selesai'];
+
+// The web app checks steps and action in full; the server keeps out rows the bot cannot run
+function validateFlow({ trigger, title, steps, action, timeout_minutes }) {
+    if (!trigger || !String(trigger).startsWith('/') || !title || !String(title).trim()) {
+        return 'Pemicu (diawali /) dan judul alur wajib diisi';
+    }
+    if (!Array.isArray(steps) || !action || typeof action !== 'object' || !action.type) {
+        return 'Langkah dan aksi alur tidak valid';
+    }
+    if (!(parseInt(timeout_minutes) > 0)) return 'Batas waktu alur harus lebih dari 0 menit';
+    return null;
+}
+
+const LOG_STATUSES = ['pending', 'sent', 'failed'];
+
+// A pending reminder not updated for this long was abandoned by its sender and may be claimed again
+const STALE_PENDING_MINUTES = 15;
+
+// "payment_reminder:<loan id>:2025-03-10" -> kind, reference, period
+const parseDedupKey = (dedupKey) => {
+    const parts = String(dedupKey).split(':');
+    return parts.length === 3 && parts.every(Boolean) ? { kind: parts[0], reference: parts[1], period: parts[2] } : null;
+};
+
+// The key columns are only there for the unique key; the app reads dedup_key
+const toNotificationLog = ({ kind, reference, period, ...row }) => row;
+
+function validateSegment({ name, match, rules }) {
+    if (!name || !String(name).trim()) return 'Nama segmen wajib diisi';
+    if (!['all', 'any'].includes(match)) return 'Pencocokan segmen tidak valid';
+    if (!Array.isArray(rules) || rules.length === 0) return 'Tambahkan minimal satu aturan';
+    return null;
+}
+
+function validateTemplate({ name, content, category }) {
+    if (!name || !String(name).trim() || !content || !String(content).trim()) {
+        return 'Nama dan isi template wajib diisi';
+    }
+    if (category && !TEMPLATE_CATEGORIES.includes(category)) {
+        return 'Kategori template tidak valid';
+    }
+    return null;
+}
+
+// ==================== BOT CONFIG ====================
+
+router.get('/config', async (req, res) => {
+    try {
+        const [rows] = await pool.execute('SELECT * FROM whatsapp_config ORDER BY created_at LIMIT 1');
+        res.json(rows.map(toConfig));
+    } catch (error) {
+        console.error('Get WhatsApp config error:', error);
+        res.status(500).json({ error: 'Gagal mengambil konfigurasi bot' });
+    }
+});
+
+router.post('/config', async (req, res) => {
+    try {
+        const { status, phone_number, welcome_message, auto_reply } = req.body;
+
+        const id = uuidv4();
+        await pool.execute(
+            'INSERT INTO whatsapp_config (id, status, phone_number, welcome_message, auto_reply) VALUES (?, ?, ?, ?, ?)',
+            [id, status === 'active' ? 'active' : 'inactive', phone_number || null, welcome_message || null, Boolean(auto_reply)]
+        );
+
+        const [rows] = await pool.execute('SELECT * FROM whatsapp_config WHERE id = ?', [id]);
+        res.status(201).json(toConfig(rows[0]));
+    } catch (error) {
+        console.error('Create WhatsApp config error:', error);
+        res.status(500).json({ error: 'Gagal menyimpan konfigurasi bot' });
+    }
+});
+
+router.put('/config/:id', async (req, res) => {
+    try {
+        const { status, phone_number, welcome_message, auto_reply } = req.body;
+
+        await pool.execute(
+            `UPDATE whatsapp_config SET
+                status = COALESCE(?, status),
+                phone_number = COALESCE(?, phone_number),
+                welcome_message = COALESCE(?, welcome_message),
+                auto_reply = COALESCE(?, auto_reply)
+             WHERE id = ?`,
+            [status ?? null, phone_number ?? null, welcome_message ?? null, auto_reply ?? null, req.params.id]
+        );
+
+        const [rows] = await pool.execute('SELECT * FROM whatsapp_config WHERE id = ?', [req.params.id]);
+        if (rows.length === 0) {
+            return res.status(404).json({ error: 'Konfigurasi bot tidak ditemukan' });
+        }
+        res.json(toConfig(rows[0]));
+    } catch (error) {
+        console.error('Update WhatsApp config error:', error);
+        res.status(500).json({ error: 'Gagal menyimpan konfigurasi bot' });
+    }
+});
+
+// ==================== MESSAGE TEMPLATES ====================
+
+router.get('/templates', async (req, res) => {
+    try {
+        let query = 'SELECT * FROM whatsapp_templates';
+        const params = [];
+
+        if (req.query.is_active !== undefined) {
+            query += ' WHERE is_active = ?';
+            params.push(req.query.is_active === 'true');
+        }
+
+        query += ' ORDER BY category, name';
+
+        const [rows] = await pool.execute(query, params);
+        res.json(rows.map(toTemplate));
+    } catch (error) {
+        console.error('Get WhatsApp templates error:', error);
+        res.status(500).json({ error: 'Gagal mengambil template pesan' });
+    }
+});
+
+router.post('/templates', async (req, res) => {
+    try {
+        const validationError = validateTemplate(req.body);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const { name, content, category, variables, is_active } = req.body;
+        const id = uuidv4();
+        await pool.execute(
+            'INSERT INTO whatsapp_templates (id, name, content, category, variables, is_active) VALUES (?, ?, ?, ?, ?, ?)',
+            [id, String(name).trim(), content, category || 'help', templateVariables(variables), is_active !== false]
+        );
+
+        const [rows] = await pool.execute('SELECT * FROM whatsapp_templates WHERE id = ?', [id]);
+        res.status(201).json(toTemplate(rows[0]));
+    } catch (error) {
+        console.error('Create WhatsApp template error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(400).json({ error: 'Nama template sudah digunakan' });
+        }
+        res.status(500).json({ error: 'Gagal menambah template pesan' });
+    }
+});
+
+router.put('/templates/:id', async (req, res) => {
+    try {
+        const { name, content, category, variables, is_active } = req.body;
+        if (category && !TEMPLATE_CATEGORIES.includes(category)) {
+            return res.status(400).json({ error: 'Kategori template tidak valid' });
+        }
+
+        await pool.execute(
+            `UPDATE whatsapp_templates SET
+                name = COALESCE(?, name),
+                content = COALESCE(?, content),
+                category = COALESCE(?, category),
+                variables = COALESCE(?, variables),
+                is_active = COALESCE(?, is_active)
+             WHERE id = ?`,
+            [name ? String(name).trim() : null, content || null, category || null, templateVariables(variables),
+                is_active ?? null, req.params.id]
+        );
+
+        const [rows] = await pool.execute('SELECT * FROM whatsapp_templates WHERE id = ?', [req.params.id]);
+        if (rows.length === 0) {
+            return res.status(404).json({ error: 'Template pesan tidak ditemukan' });
+        }
+        res.json(toTemplate(rows[0]));
+    } catch (error) {
+        console.error('Update WhatsApp template error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(400).json({ error: 'Nama template sudah digunakan' });
+        }
+        res.status(500).json({ error: 'Gagal mengupdate template pesan' });
+    }
+});
+
+router.delete('/templates/:id', async (req, res) => {
+    try {
+        const [result] = await pool.execute('DELETE FROM whatsapp_templates WHERE id = ?', [req.params.id]);
+        if (result.affectedRows === 0) {
+            return res.status(404).json({ error: 'Template pesan tidak ditemukan' });
+        }
+        res.json({ message: 'Template pesan berhasil dihapus' });
+    } catch (error) {
+        console.error('Delete WhatsApp template error:', error);
+        res.status(500).json({ error: 'Gagal menghapus template pesan' });
+    }
+});
+
+// ==================== MEMBER VERIFICATIONS ====================
+
+router.get('/verifications', async (req, res) => {
+    try {
+        let query = 'SELECT * FROM whatsapp_verifications WHERE 1=1';
+        const params = [];
+
+        if (req.query.is_verified !== undefined) {
+            query += ' AND is_verified = ?';
+            params.push(req.query.is_verified === 'true');
+        }
+        if (req.query.phone_number) {
+            query += ' AND phone_number = ?';
+            params.push(req.query.phone_number);
+        }
+
+        query += ' ORDER BY created_at DESC';
+
+        const [rows] = await pool.execute(query, params);
+        res.json(rows.map(toVerification));
+    } catch (error) {
+        console.error('Get WhatsApp verifications error:', error);
+        res.status(500).json({ error: 'Gagal mengambil verifikasi WhatsApp' });
+    }
+});
+
+router.post('/verifications', async (req, res) => {
+    try {
+        const { member_id, phone_number, verification_token, is_verified } = req.body;
+        if (!member_id || !phone_number || !String(phone_number).trim()) {
+            return res.status(400).json({ error: 'Data tidak lengkap (member_id, phone_number wajib diisi)' });
+        }
+
+        const id = uuidv4();
+        await pool.execute(
+            `INSERT INTO whatsapp_verifications (id, member_id, phone_number, verification_token, is_verified, verified_at)
+             VALUES (?, ?, ?, ?, ?, ${is_verified ? 'NOW()' : 'NULL'})`,
+            [id, member_id, String(phone_number).trim(), verification_token || null, Boolean(is_verified)]
+        );
+
+        const [rows] = await pool.execute('SELECT * FROM whatsapp_verifications WHERE id = ?', [id]);
+        res.status(201).json(toVerification(rows[0]));
+    } catch (error) {
+        console.error('Create WhatsApp verification error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(400).json({ error: 'Nomor WhatsApp ini sudah terdaftar' });
+        }
+        res.status(500).json({ error: 'Gagal membuat verifikasi WhatsApp' });
+    }
+});
+
+// verified_at is set by the server when the number is verified, and cleared when it is rejected
+router.put('/verifications/:id', async (req, res) => {
+    try {
+        const { phone_number, verification_token, is_verified } = req.body;
+        const verifiedAt = is_verified === undefined
+            ? 'verified_at'
+            : is_verified ? 'COALESCE(verified_at, NOW())' : 'NULL';
+
+        await pool.execute(
+            `UPDATE whatsapp_verifications SET
+                phone_number = COALESCE(?, phone_number),
+                verification_token = COALESCE(?, verification_token),
+                is_verified = COALESCE(?, is_verified),
+                verified_at = ${verifiedAt}
+             WHERE id = ?`,
+            [phone_number ? String(phone_number).trim() : null, verification_token ?? null, is_verified ?? null, req.params.id]
+        );
+
+        const [rows] = await pool.execute('SELECT * FROM whatsapp_verifications WHERE id = ?', [req.params.id]);
+        if (rows.length === 0) {
+            return res.status(404).json({ error: 'Verifikasi WhatsApp tidak ditemukan' });
+        }
+        res.json(toVerification(rows[0]));
+    } catch (error) {
+        console.error('Update WhatsApp verification error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(400).json({ error: 'Nomor WhatsApp ini sudah terdaftar' });
+        }
+        res.status(500).json({ error: 'Gagal mengupdate verifikasi WhatsApp' });
+    }
+});
+
+router.delete('/verifications/:id', async (req, res) => {
+    try {
+        const [result] = await pool.execute('DELETE FROM whatsapp_verifications WHERE id = ?', [req.params.id]);
+        if (result.affectedRows === 0) {
+            return res.status(404).json({ error: 'Verifikasi WhatsApp tidak ditemukan' });
+        }
+        res.json({ message: 'Verifikasi WhatsApp berhasil dihapus' });
+    } catch (error) {
+        console.error('Delete WhatsApp verification error:', error);
+        res.status(500).json({ error: 'Gagal menghapus verifikasi WhatsApp' });
+    }
+});
+
+// ==================== CONVERSATION FLOWS ====================
+
+const findFlow = async (id) => {
+    const [rows] = await pool.execute('SELECT * FROM whatsapp_flows WHERE id = ?', [id]);
+    return rows[0] ? toFlow(rows[0]) : null;
+};
+
+router.get('/flows', async (req, res) => {
+    try {
+        let query = 'SELECT * FROM whatsapp_flows';
+        const params = [];
+
+        if (req.query.is_active !== undefined) {
+            query += ' WHERE is_active = ?';
+            params.push(req.query.is_active === 'true');
+        }
+
+        query += ' ORDER BY `trigger`';
+
+        const [rows] = await pool.execute(query, params);
+        res.json(rows.map(toFlow));
+    } catch (error) {
+        console.error('Get WhatsApp flows error:', error);
+        res.status(500).json({ error: 'Gagal mengambil alur percakapan' });
+    }
+});
+
+router.get('/flows/:id', async (req, res) => {
+    try {
+        const flow = await findFlow(req.params.id);
+        if (!flow) {
+            return res.status(404).json({ error: 'Alur percakapan tidak ditemukan' });
+        }
+        res.json(flow);
+    } catch (error) {
+        console.error('Get WhatsApp flow error:', error);
+        res.status(500).json({ error: 'Gagal mengambil alur percakapan' });
+    }
+});
+
+router.post('/flows', async (req, res) => {
+    try {
+        const input = { timeout_minutes: 10, ...req.body };
+        const validationError = validateFlow(input);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const id = uuidv4();
+        await pool.execute(
+            `INSERT INTO whatsapp_flows
+                (id, \`trigger\`, title, description, steps, action, confirm, requires_member, admin_only, timeout_minutes, is_active)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [id, String(input.trigger).trim(), String(input.title).trim(), input.description || null,
+                JSON.stringify(input.steps), JSON.stringify(input.action), input.confirm !== false,
+                input.requires_member !== false, Boolean(input.admin_only), parseInt(input.timeout_minutes),
+                input.is_active !== false]
+        );
+
+        res.status(201).json(await findFlow(id));
+    } catch (error) {
+        console.error('Create WhatsApp flow error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(400).json({ error: 'Pemicu ini sudah dipakai alur aktif lain' });
+        }
+        res.status(500).json({ error: 'Gagal menambah alur percakapan' });
+    }
+});
+
+router.put('/flows/:id', async (req, res) => {
+    try {
+        const current = await findFlow(req.params.id);
+        if (!current) {
+            return res.status(404).json({ error: 'Alur percakapan tidak ditemukan' });
+        }
+
+        const fields = ['trigger', 'title', 'description', 'steps', 'action', 'confirm', 'requires_member', 'admin_only',
+            'timeout_minutes', 'is_active'];
+        const merged = Object.fromEntries(fields.map(field => [field, req.body[field] !== undefined ? req.body[field] : current[field]]));
+        const validationError = validateFlow(merged);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        await pool.execute(
+            `UPDATE whatsapp_flows SET
+                \`trigger\` = ?,
+                title = ?,
+                description = ?,
+                steps = ?,
+                action = ?,
+                confirm = ?,
+                requires_member = ?,
+                admin_only = ?,
+                timeout_minutes = ?,
+                is_active = ?
+             WHERE id = ?`,
+            [String(merged.trigger).trim(), String(merged.title).trim(), merged.description || null,
+                JSON.stringify(merged.steps), JSON.stringify(merged.action), Boolean(merged.confirm),
+                Boolean(merged.requires_member), Boolean(merged.admin_only), parseInt(merged.timeout_minutes),
+                Boolean(merged.is_active), req.params.id]
+        );
+
+        res.json(await findFlow(req.params.id));
+    } catch (error) {
+        console.error('Update WhatsApp flow error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(400).json({ error: 'Pemicu ini sudah dipakai alur aktif lain' });
+        }
+        res.status(500).json({ error: 'Gagal mengupdate alur percakapan' });
+    }
+});
+
+// Submissions keep their flow_id and flow_title, so they stay readable after the flow is gone
+router.delete('/flows/:id', async (req, res) => {
+    try {
+        const [result] = await pool.execute('DELETE FROM whatsapp_flows WHERE id = ?', [req.params.id]);
+        if (result.affectedRows === 0) {
+            return res.status(404).json({ error: 'Alur percakapan tidak ditemukan' });
+        }
+        res.json({ message: 'Alur percakapan berhasil dihapus' });
+    } catch (error) {
+        console.error('Delete WhatsApp flow error:', error);
+        res.status(500).json({ error: 'Gagal menghapus alur percakapan' });
+    }
+});
+
+// ==================== FLOW SUBMISSIONS ====================
+
+router.get('/flow-submissions', async (req, res) => {
+    try {
+        const { status, flow_id } = req.query;
+
+        let query = 'SELECT * FROM whatsapp_flow_submissions WHERE 1=1';
+        const params = [];
+
+        if (status) {
+            query += ' AND status = ?';
+            params.push(status);
+        }
+        if (flow_id) {
+            query += ' AND flow_id = ?';
+            params.push(flow_id);
+        }
+
+        query += ' ORDER BY created_at DESC';
+
+        const [rows] = await pool.execute(query, params);
+        res.json(rows);
+    } catch (error) {
+        console.error('Get WhatsApp flow submissions error:', error);
+        res.status(500).json({ error: 'Gagal mengambil kiriman alur percakapan' });
+    }
+});
+
+router.post('/flow-submissions', async (req, res) => {
+    try {
+        const { flow_id, flow_title, member_id, phone_number, answers, media } = req.body;
+        if (!flow_id || !flow_title || !phone_number) {
+            return res.status(400).json({ error: 'Data tidak lengkap (flow_id, flow_title, phone_number wajib diisi)' });
+        }
+
+        const id = uuidv4();
+        await pool.execute(
+            `INSERT INTO whatsapp_flow_submissions (id, flow_id, flow_title, member_id, phone_number, answers, media)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [id, flow_id, flow_title, member_id || null, phone_number, JSON.stringify(answers || {}),
+                media ? JSON.stringify(media) : null]
+        );
+
+        const [rows] = await pool.execute('SELECT * FROM whatsapp_flow_submissions WHERE id = ?', [id]);
+        res.status(201).json(rows[0]);
+    } catch (error) {
+        console.error('Create WhatsApp flow submission error:', error);
+        res.status(500).json({ error: 'Gagal menyimpan kiriman alur percakapan' });
+    }
+});
+
+// Pengurus only move a submission through its statuses
+router.put('/flow-submissions/:id', async (req, res) => {
+    try {
+        const { status } = req.body;
+        if (!FLOW_STATUSES.includes(status)) {
+            return res.status(400).json({ error: 'Status kiriman tidak valid' });
+        }
+
+        await pool.execute('UPDATE whatsapp_flow_submissions SET status = ? WHERE id = ?', [status, req.params.id]);
+
+        const [rows] = await pool.execute('SELECT * FROM whatsapp_flow_submissions WHERE id = ?', [req.params.id]);
+        if (rows.length === 0) {
+            return res.status(404).json({ error: 'Kiriman alur percakapan tidak ditemukan' });
+        }
+        res.json(rows[0]);
+    } catch (error) {
+        console.error('Update WhatsApp flow submission error:', error);
+        res.status(500).json({ error: 'Gagal mengupdate kiriman alur percakapan' });
+    }
+});
+
+// ==================== NOTIFICATION LOGS ====================
+
+router.get('/notification-logs', async (req, res) => {
+    try {
+        const { dedup_key, status } = req.query;
+
+        let query = 'SELECT * FROM whatsapp_notification_logs WHERE 1=1';
+        const params = [];
+
+        if (dedup_key) {
+            query += ' AND dedup_key = ?';
+            params.push(dedup_key);
+        }
+        if (status) {
+            query += ' AND status = ?';
+            params.push(status);
+        }
+
+        query += ' ORDER BY created_at DESC LIMIT 500';
+
+        const [rows] = await pool.execute(query, params);
+        res.json(rows.map(toNotificationLog));
+    } catch (error) {
+        console.error('Get WhatsApp notification logs error:', error);
+        res.status(500).json({ error: 'Gagal mengambil log notifikasi' });
+    }
+});
+
+// A reminder whose key is already logged is rejected with 409, so only one sender claims it
+router.post('/notification-logs', async (req, res) => {
+    try {
+        const { recipient, member_id, template, message, status, dedup_key, error } = req.body;
+        if (!recipient || !template || !message) {
+            return res.status(400).json({ error: 'Data tidak lengkap (recipient, template, message wajib diisi)' });
+        }
+        if (status && !LOG_STATUSES.includes(status)) {
+            return res.status(400).json({ error: 'Status notifikasi tidak valid' });
+        }
+        const key = dedup_key ? parseDedupKey(dedup_key) : null;
+        if (dedup_key && !key) {
+            return res.status(400).json({ error: 'Kunci pengingat tidak valid' });
+        }
+
+        const id = uuidv4();
+        await pool.execute(
+            `INSERT INTO whatsapp_notification_logs
+                (id, recipient, member_id, template, message, status, kind, reference, period, error)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [id, recipient, member_id || null, template, message, status || 'pending',
+                key?.kind ?? null, key?.reference ?? null, key?.period ?? null, error || null]
+        );
+
+        const [rows] = await pool.execute('SELECT * FROM whatsapp_notification_logs WHERE id = ?', [id]);
+        res.status(201).json(toNotificationLog(rows[0]));
+    } catch (error) {
+        console.error('Create WhatsApp notification log error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(409).json({ error: 'Pengingat ini sudah dikirim atau sedang dikirim' });
+        }
+        res.status(500).json({ error: 'Gagal menyimpan log notifikasi' });
+    }
+});
+
+// Sets the outcome of a send, or reopens a failed or abandoned reminder for another attempt
+router.put('/notification-logs/:id', async (req, res) => {
+    try {
+        const [existing] = await pool.execute('SELECT * FROM whatsapp_notification_logs WHERE id = ?', [req.params.id]);
+        if (existing.length === 0) {
+            return res.status(404).json({ error: 'Log notifikasi tidak ditemukan' });
+        }
+
+        const current = existing[0];
+        const status = req.body.status ?? current.status;
+        if (!LOG_STATUSES.includes(status)) {
+            return res.status(400).json({ error: 'Status notifikasi tidak valid' });
+        }
+
+        // Reopening is a claim as well: only one sender may move the entry (back) to pending.
+        // updated_at is set explicitly so a reclaimed entry is fresh even when nothing else changes.
+        const reopening = status === 'pending';
+        const [result] = await pool.execute(
+            `UPDATE whatsapp_notification_logs SET status = ?, message = ?, error = ?, updated_at = CURRENT_TIMESTAMP
+             WHERE id = ?${reopening
+                ? ` AND (status = 'failed' OR (status = 'pending' AND updated_at < NOW() - INTERVAL ${STALE_PENDING_MINUTES} MINUTE))`
+                : ''}`,
+            [status, req.body.message || current.message, req.body.error !== undefined ? req.body.error || null : current.error,
+                req.params.id]
+        );
+        if (result.affectedRows === 0) {
+            return res.status(409).json({ error: 'Pengingat ini sudah dikirim atau sedang dikirim' });
+        }
+
+        const [rows] = await pool.execute('SELECT * FROM whatsapp_notification_logs WHERE id = ?', [req.params.id]);
+        res.json(toNotificationLog(rows[0]));
+    } catch (error) {
+        console.error('Update WhatsApp notification log error:', error);
+        res.status(500).json({ error: 'Gagal mengupdate log notifikasi' });
+    }
+});
+
+// ==================== AUDIENCE SEGMENTS ====================
+
+const findSegment = async (id) => {
+    const [rows] = await pool.execute('SELECT * FROM audience_segments WHERE id = ?', [id]);
+    return rows[0] || null;
+};
+
+router.get('/segments', async (req, res) => {
+    try {
+        const [rows] = await pool.execute('SELECT * FROM audience_segments ORDER BY name');
+        res.json(rows);
+    } catch (error) {
+        console.error('Get audience segments error:', error);
+        res.status(500).json({ error: 'Gagal mengambil segmen penerima' });
+    }
+});
+
+router.get('/segments/:id', async (req, res) => {
+    try {
+        const segment = await findSegment(req.params.id);
+        if (!segment) {
+            return res.status(404).json({ error: 'Segmen penerima tidak ditemukan' });
+        }
+        res.json(segment);
+    } catch (error) {
+        console.error('Get audience segment error:', error);
+        res.status(500).json({ error: 'Gagal mengambil segmen penerima' });
+    }
+});
+
+router.post('/segments', async (req, res) => {
+    try {
+        const input = { match: 'all', ...req.body };
+        const validationError = validateSegment(input);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        const id = uuidv4();
+        await pool.execute(
+            'INSERT INTO audience_segments (id, name, description, `match`, rules) VALUES (?, ?, ?, ?, ?)',
+            [id, String(input.name).trim(), input.description || null, input.match, JSON.stringify(input.rules)]
+        );
+
+        res.status(201).json(await findSegment(id));
+    } catch (error) {
+        console.error('Create audience segment error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(400).json({ error: 'Nama segmen sudah digunakan' });
+        }
+        res.status(500).json({ error: 'Gagal menyimpan segmen penerima' });
+    }
+});
+
+router.put('/segments/:id', async (req, res) => {
+    try {
+        const current = await findSegment(req.params.id);
+        if (!current) {
+            return res.status(404).json({ error: 'Segmen penerima tidak ditemukan' });
+        }
+
+        const merged = {
+            name: req.body.name ?? current.name,
+            description: req.body.description !== undefined ? req.body.description : current.description,
+            match: req.body.match ?? current.match,
+            rules: req.body.rules ?? current.rules
+        };
+        const validationError = validateSegment(merged);
+        if (validationError) {
+            return res.status(400).json({ error: validationError });
+        }
+
+        await pool.execute(
+            'UPDATE audience_segments SET name = ?, description = ?, `match` = ?, rules = ? WHERE id = ?',
+            [String(merged.name).trim(), merged.description || null, merged.match, JSON.stringify(merged.rules), req.params.id]
+        );
+
+        res.json(await findSegment(req.params.id));
+    } catch (error) {
+        console.error('Update audience segment error:', error);
+        if (error.code === 'ER_DUP_ENTRY') {
+            return res.status(400).json({ error: 'Nama segmen sudah digunakan' });
+        }
+        res.status(500).json({ error: 'Gagal mengupdate segmen penerima' });
+    }
+});
+
+router.delete('/segments/:id', async (req, res) => {
+    try {
+        const [result] = await pool.execute('DELETE FROM audience_segments WHERE id = ?', [req.params.id]);
+        if (result.affectedRows === 0) {
+            return res.status(404).json({ error: 'Segmen penerima tidak ditemukan' });
+        }
+        res.json({ message: 'Segmen penerima berhasil dihapus' });
+    } catch (error) {
+        console.error('Delete audience segment error:', error);
+        res.status(500).json({ error: 'Gagal menghapus segmen penerima' });
+    }
+});
+
+export default router;
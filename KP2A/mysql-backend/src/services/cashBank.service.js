@@ -0,0 +1,161 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ACCOUNTS } from './journal.service.js';
+
+// Cash & bank ledger helpers.
+// All functions take a connection so callers can run them inside their own transaction.
+// Saldo akun = opening_balance + SUM(debit) - SUM(credit) dari cash_bank_entries.
+
+export async function insertEntry(conn, { accountId, sourceType, sourceId, entryType, amount, entryDate, description, reversalOf = null }) {
+    const id = uuidv4();
+    await conn.execute(
+        `INSERT INTO cash_bank_entries (id, account_id, source_type, source_id, entry_type, amount, entry_date, description, reversal_of)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [id, accountId, sourceType, sourceId, entryType, amount, entryDate, description || null, reversalOf]
+    );
+    return id;
+}
+
+export async function computeBalance(conn, accountId) {
+    const [[row]] = await conn.execute(
+        `SELECT a.opening_balance
+                + COALESCE(SUM(CASE WHEN e.entry_type = 'debit' THEN e.amount ELSE 0 END), 0)
+                - COALESCE(SUM(CASE WHEN e.entry_type = 'credit' THEN e.amount ELSE 0 END), 0) AS balance
+         FROM cash_bank_accounts a
+         LEFT JOIN cash_bank_entries e ON e.account_id = a.id
+         WHERE a.id = ?
+         GROUP BY a.id, a.opening_balance`,
+        [accountId]
+    );
+    return row ? parseFloat(row.balance) : 0;
+}
+
+// Recompute the cached balance column from ledger history
+export async function refreshBalance(conn, accountId) {
+    const balance = await computeBalance(conn, accountId);
+    await conn.execute('UPDATE cash_bank_accounts SET balance = ? WHERE id = ?', [balance, accountId]);
+    return balance;
+}
+
+const round2 = (value) => Math.round((parseFloat(value) || 0) * 100) / 100;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Entries of a source document that have not been reversed
+async function liveEntries(conn, sourceType, sourceId) {
+    const [entries] = await conn.execute(
+        `SELECT e.* FROM cash_bank_entries e
+         WHERE e.source_type = ? AND e.source_id = ? AND e.reversal_of IS NULL
+         AND NOT EXISTS (SELECT 1 FROM cash_bank_entries r WHERE r.reversal_of = e.id)`,
+        [sourceType, sourceId]
+    );
+    return entries;
+}
+
+// Reverse every non-reversed entry belonging to a source document
+export async function reverseSourceEntries(conn, sourceType, sourceId, entryDate, description) {
+    const entries = await liveEntries(conn, sourceType, sourceId);
+
+    const touched = new Set();
+    for (const entry of entries) {
+        await insertEntry(conn, {
+            accountId: entry.account_id,
+            sourceType,
+            sourceId,
+            entryType: entry.entry_type === 'debit' ? 'credit' : 'debit',
+            amount: entry.amount,
+            entryDate,
+            description,
+            reversalOf: entry.id
+        });
+        touched.add(entry.account_id);
+    }
+
+    for (const accountId of touched) {
+        await refreshBalance(conn, accountId);
+    }
+    return entries.length;
+}
+
+// Record a single-sided cash movement (e.g. loan disbursement) against one account.
+// direction 'in' debits the account, 'out' credits it.
+export async function postCashMovement(conn, { accountId, sourceType, sourceId, direction, amount, entryDate, description }) {
+    await insertEntry(conn, {
+        accountId,
+        sourceType,
+        sourceId,
+        entryType: direction === 'in' ? 'debit' : 'credit',
+        amount,
+        entryDate,
+        description
+    });
+    return refreshBalance(conn, accountId);
+}
+
+// Account that receives money when the caller names none: the one linked to COA Kas,
+// otherwise the oldest active cash account
+export async function defaultCashAccountId(conn) {
+    const [linked] = await conn.execute(
+        `SELECT a.id FROM chart_of_accounts c
+         JOIN cash_bank_accounts a ON a.id = c.cash_bank_account_id
+         WHERE c.code = ? AND a.is_active = TRUE`,
+        [ACCOUNTS.KAS]
+    );
+    if (linked[0]) return linked[0].id;
+
+    const [cash] = await conn.execute(
+        `SELECT id FROM cash_bank_accounts WHERE type = 'cash' AND is_active = TRUE ORDER BY created_at ASC LIMIT 1`
+    );
+    return cash[0]?.id || null;
+}
+
+// Bring the entries of a source document in line with the movement it should have made.
+// An unchanged document keeps its entry; otherwise the old entries are reversed today and the
+// new amount is posted, so edits and deletions stay visible in the mutasi.
+export async function syncSourceMovement(conn, { accountId, sourceType, sourceId, direction, amount, entryDate, description }) {
+    const value = round2(amount);
+    const entryType = direction === 'in' ? 'debit' : 'credit';
+    const entries = await liveEntries(conn, sourceType, sourceId);
+
+    const unchanged = value > 0 && accountId
+        ? entries.length === 1 && entries[0].account_id === accountId && entries[0].entry_type === entryType && round2(entries[0].amount) === value
+        : entries.length === 0;
+    if (unchanged) return;
+
+    await reverseSourceEntries(conn, sourceType, sourceId, today(), `Koreksi: ${description}`);
+    if (value > 0 && accountId) {
+        await postCashMovement(conn, { accountId, sourceType, sourceId, direction, amount: value, entryDate, description });
+    }
+}
+
+// Iuran lunas masuk ke akun kas/bank penerima (default: Kas)
+export async function syncDueReceipt(conn, due) {
+    const amount = due.status === 'lunas'
+        ? round2(due.iuran_wajib) + round2(due.simpanan_wajib) + round2(due.iuran_sukarela)
+        : 0;
+    await syncSourceMovement(conn, {
+        accountId: due.cash_account_id || await defaultCashAccountId(conn),
+        sourceType: 'due',
+        sourceId: due.id,
+        direction: 'in',
+        amount,
+        entryDate: due.tanggal_bayar || today(),
+        description: `Iuran ${due.bulan}/${due.tahun}${due.nama_lengkap ? ` - ${due.nama_lengkap}` : ''}`
+    });
+}
+
+// Angsuran masuk ke akun kas/bank penerima (default: Kas)
+export async function syncLoanPaymentReceipt(conn, payment) {
+    await syncSourceMovement(conn, {
+        accountId: payment.cash_account_id || await defaultCashAccountId(conn),
+        sourceType: 'loan_payment',
+        sourceId: payment.id,
+        direction: 'in',
+        amount: payment.total_angsuran,
+        entryDate: payment.tanggal_bayar,
+        description: `Angsuran ke-${payment.angsuran_ke}`
+    });
+}
+
+// Deleted documents: their receipts are reversed today
+export const reverseReceipt = (conn, sourceType, sourceId, description) =>
+    reverseSourceEntries(conn, sourceType, sourceId, today(), `Pembatalan: ${description}`);
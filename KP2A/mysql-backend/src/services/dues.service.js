@@ -0,0 +1,293 @@
+import { v4 as uuidv4 } from 'uuid';
+import { toDateString } from './loanSchedule.service.js';
+
+// Kewajiban iuran bulanan dan tunggakan.
+// Untuk setiap anggota aktif dibuat satu baris iuran (belum_lunas) per bulan sejak bulan masuk,
+// memakai tarif yang berlaku pada bulan tersebut. Tunggakan adalah iuran belum lunas sampai
+// bulan berjalan; pembayaran tunggakan melunasi bulan tertua lebih dulu.
+
+const round2 = (value) => Math.round((parseFloat(value) || 0) * 100) / 100;
+
+// Bulan sebagai angka urut agar mudah dibandingkan (tahun * 12 + bulan - 1)
+const monthKey = (bulan, tahun) => parseInt(tahun, 10) * 12 + parseInt(bulan, 10) - 1;
+const fromMonthKey = (key) => ({ bulan: (key % 12) + 1, tahun: Math.floor(key / 12) });
+
+export const currentPeriod = (date = new Date()) => ({ bulan: date.getMonth() + 1, tahun: date.getFullYear() });
+
+// Tagihan satu baris iuran (tanpa sukarela)
+export const dueBill = (due) => round2(round2(due.iuran_wajib) + round2(due.simpanan_wajib));
+
+// Returns an error message, or null when the rate is usable
+export function validateRate(rate) {
+    const bulan = parseInt(rate.berlaku_bulan, 10);
+    const tahun = parseInt(rate.berlaku_tahun, 10);
+    if (!Number.isInteger(bulan) || bulan < 1 || bulan > 12) {
+        return 'Bulan berlaku harus 1-12';
+    }
+    if (!Number.isInteger(tahun) || tahun < 2000 || tahun > 2100) {
+        return 'Tahun berlaku tidak valid';
+    }
+    const iuran = parseFloat(rate.iuran_wajib);
+    const simpanan = parseFloat(rate.simpanan_wajib);
+    if (Number.isNaN(iuran) || iuran < 0 || Number.isNaN(simpanan) || simpanan < 0) {
+        return 'Nilai iuran wajib dan simpanan wajib tidak valid';
+    }
+    if (iuran + simpanan <= 0) {
+        return 'Tarif iuran tidak boleh nol';
+    }
+    return null;
+}
+
+// Rate in force for a month: the newest one that started on or before it
+export function rateFor(rates, bulan, tahun) {
+    const key = monthKey(bulan, tahun);
+    let found = null;
+    for (const rate of rates) {
+        const start = monthKey(rate.berlaku_bulan, rate.berlaku_tahun);
+        if (start <= key && (!found || start > monthKey(found.berlaku_bulan, found.berlaku_tahun))) {
+            found = rate;
+        }
+    }
+    return found;
+}
+
+// Missing obligations for members up to (bulan, tahun). existing holds "member_id:bulan:tahun" keys.
+export function planGeneration(members, rates, existing, until) {
+    if (rates.length === 0) return [];
+
+    const firstRate = Math.min(...rates.map(r => monthKey(r.berlaku_bulan, r.berlaku_tahun)));
+    const last = monthKey(until.bulan, until.tahun);
+    const rows = [];
+
+    for (const member of members) {
+        const joined = member.tanggal_masuk ? toDateString(member.tanggal_masuk) : null;
+        const joinedKey = joined
+            ? monthKey(parseInt(joined.slice(5, 7), 10), parseInt(joined.slice(0, 4), 10))
+            : firstRate;
+
+        for (let key = Math.max(joinedKey, firstRate); key <= last; key++) {
+            const { bulan, tahun } = fromMonthKey(key);
+            if (existing.has(`${member.id}:${bulan}:${tahun}`)) continue;
+
+            const rate = rateFor(rates, bulan, tahun);
+            if (!rate) continue;
+            rows.push({
+                member_id: member.id,
+                bulan,
+                tahun,
+                iuran_wajib: round2(rate.iuran_wajib),
+                simpanan_wajib: round2(rate.simpanan_wajib)
+            });
+        }
+    }
+    return rows;
+}
+
+// Settle unpaid months oldest first. Whole months only; the remainder becomes iuran sukarela
+// on the last settled month.
+export function planArrearsPayment(unpaid, amount) {
+    const total = round2(amount);
+    if (!(total > 0)) {
+        return { error: 'Jumlah pembayaran harus lebih dari 0' };
+    }
+
+    const ordered = [...unpaid].sort((a, b) => monthKey(a.bulan, a.tahun) - monthKey(b.bulan, b.tahun));
+    if (ordered.length === 0) {
+        return { error: 'Anggota tidak memiliki tunggakan iuran' };
+    }
+    if (total < dueBill(ordered[0])) {
+        return { error: 'Jumlah pembayaran kurang dari tagihan bulan tertua' };
+    }
+
+    let remaining = total;
+    const settled = [];
+    for (const due of ordered) {
+        const bill = dueBill(due);
+        if (remaining < bill) break;
+        settled.push(due);
+        remaining = round2(remaining - bill);
+    }
+
+    return { settled, sukarela: remaining, amount: total };
+}
+
+// ==================== RATES ====================
+
+export async function listRates(conn) {
+    const [rows] = await conn.execute(
+        'SELECT * FROM dues_rates ORDER BY berlaku_tahun DESC, berlaku_bulan DESC'
+    );
+    return rows.map(row => ({
+        ...row,
+        iuran_wajib: round2(row.iuran_wajib),
+        simpanan_wajib: round2(row.simpanan_wajib)
+    }));
+}
+
+// One rate per starting month; saving the same month again replaces it
+export async function saveRate(conn, rate, userId) {
+    await conn.execute(
+        `INSERT INTO dues_rates (id, berlaku_bulan, berlaku_tahun, iuran_wajib, simpanan_wajib, created_by)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE iuran_wajib = VALUES(iuran_wajib), simpanan_wajib = VALUES(simpanan_wajib),
+            created_by = VALUES(created_by)`,
+        [uuidv4(), parseInt(rate.berlaku_bulan, 10), parseInt(rate.berlaku_tahun, 10),
+            round2(rate.iuran_wajib), round2(rate.simpanan_wajib), userId]
+    );
+    return listRates(conn);
+}
+
+// ==================== GENERATION ====================
+
+// Create the missing obligations of active members up to a month (default: this month).
+// Existing rows, paid or not, are never touched.
+export async function generateDues(conn, until = currentPeriod()) {
+    const rates = await listRates(conn);
+    if (rates.length === 0) return 0;
+
+    const [members] = await conn.execute(
+        "SELECT id, tanggal_masuk FROM members WHERE status_keanggotaan = 'aktif'"
+    );
+    const [dues] = await conn.execute('SELECT member_id, bulan, tahun FROM dues');
+    const existing = new Set(dues.map(d => `${d.member_id}:${d.bulan}:${d.tahun}`));
+
+    const rows = planGeneration(members, rates, existing, until);
+    for (const row of rows) {
+        // IGNORE: a concurrent request may have created the same month already
+        await conn.execute(
+            `INSERT IGNORE INTO dues (id, member_id, bulan, tahun, iuran_wajib, iuran_sukarela, simpanan_wajib,
+                tanggal_bayar, status, is_generated)
+             VALUES (?, ?, ?, ?, ?, 0, ?, NULL, 'belum_lunas', TRUE)`,
+            [uuidv4(), row.member_id, row.bulan, row.tahun, row.iuran_wajib, row.simpanan_wajib]
+        );
+    }
+    return rows.length;
+}
+
+// ==================== ARREARS ====================
+
+async function listUnpaid(conn, memberId = null) {
+    const { bulan, tahun } = currentPeriod();
+    let query = `
+        SELECT d.id, d.member_id, d.bulan, d.tahun, d.iuran_wajib, d.simpanan_wajib, d.iuran_sukarela,
+            m.nama_lengkap, m.id_anggota
+        FROM dues d
+        JOIN members m ON d.member_id = m.id
+        WHERE d.status = 'belum_lunas' AND (d.tahun * 12 + d.bulan - 1) <= ?`;
+    const params = [monthKey(bulan, tahun)];
+    if (memberId) {
+        query += ' AND d.member_id = ?';
+        params.push(memberId);
+    }
+    query += ' ORDER BY d.tahun ASC, d.bulan ASC';
+
+    const [rows] = await conn.execute(query, params);
+    return rows;
+}
+
+// Arrears per member, largest first
+export async function getArrears(conn, { memberId } = {}) {
+    const byMember = new Map();
+    for (const row of await listUnpaid(conn, memberId)) {
+        if (!byMember.has(row.member_id)) {
+            byMember.set(row.member_id, {
+                member_id: row.member_id,
+                nama_lengkap: row.nama_lengkap,
+                id_anggota: row.id_anggota,
+                months: [],
+                total: 0
+            });
+        }
+        const entry = byMember.get(row.member_id);
+        const amount = dueBill(row);
+        entry.months.push({ id: row.id, bulan: row.bulan, tahun: row.tahun, amount });
+        entry.total = round2(entry.total + amount);
+    }
+    return [...byMember.values()].sort((a, b) => b.months.length - a.months.length || b.total - a.total);
+}
+
+// Member x month grid of one year, with the member's arrears over all years
+export async function getMatrix(conn, tahun) {
+    const [members] = await conn.execute(
+        `SELECT id, id_anggota, nama_lengkap, status_keanggotaan FROM members
+         WHERE status_keanggotaan = 'aktif' OR id IN (SELECT member_id FROM dues WHERE tahun = ?)
+         ORDER BY nama_lengkap ASC`,
+        [tahun]
+    );
+    const [dues] = await conn.execute(
+        `SELECT id, member_id, bulan, iuran_wajib, simpanan_wajib, iuran_sukarela, tanggal_bayar, status
+         FROM dues WHERE tahun = ?`,
+        [tahun]
+    );
+    const arrears = new Map((await getArrears(conn)).map(a => [a.member_id, a]));
+
+    const cells = new Map();
+    for (const due of dues) {
+        cells.set(`${due.member_id}:${due.bulan}`, {
+            id: due.id,
+            status: due.status,
+            amount: dueBill(due),
+            iuran_sukarela: round2(due.iuran_sukarela),
+            tanggal_bayar: due.tanggal_bayar ? toDateString(due.tanggal_bayar) : null
+        });
+    }
+
+    return {
+        tahun: parseInt(tahun, 10),
+        members: members.map(member => ({
+            member_id: member.id,
+            id_anggota: member.id_anggota,
+            nama_lengkap: member.nama_lengkap,
+            status_keanggotaan: member.status_keanggotaan,
+            months: Array.from({ length: 12 }, (_, i) => cells.get(`${member.id}:${i + 1}`) || null),
+            arrears_count: arrears.get(member.id)?.months.length || 0,
+            arrears_total: arrears.get(member.id)?.total || 0
+        }))
+    };
+}
+
+// ==================== PAYMENTS ====================
+
+// Preview of what an amount would settle for a member
+export async function previewArrearsPayment(conn, memberId, amount) {
+    return planArrearsPayment(await listUnpaid(conn, memberId), amount);
+}
+
+// Record one payment settling several months. Runs inside the caller's transaction and
+// returns the settled dues ids; the caller posts their journals after commit.
+export async function payArrears(conn, memberId, plan, { tanggal_bayar, notes, cash_account_id }, userId) {
+    const paymentId = uuidv4();
+    await conn.execute(
+        `INSERT INTO dues_payments (id, member_id, tanggal_bayar, amount, months_paid, sukarela, notes, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [paymentId, memberId, tanggal_bayar, plan.amount, plan.settled.length, plan.sukarela, notes || null, userId]
+    );
+
+    const last = plan.settled[plan.settled.length - 1];
+    for (const due of plan.settled) {
+        const sukarela = due.id === last.id ? round2(round2(due.iuran_sukarela) + plan.sukarela) : round2(due.iuran_sukarela);
+        await conn.execute(
+            `UPDATE dues SET status = 'lunas', tanggal_bayar = ?, payment_id = ?, iuran_sukarela = ?, cash_account_id = ?, version = version + 1
+             WHERE id = ? AND status = 'belum_lunas'`,
+            [tanggal_bayar, paymentId, sukarela, cash_account_id || null, due.id]
+        );
+    }
+
+    return { id: paymentId, dues_ids: plan.settled.map(d => d.id) };
+}
+
+export async function listPayments(conn, memberId = null) {
+    let query = `
+        SELECT p.*, m.nama_lengkap, m.id_anggota
+        FROM dues_payments p
+        JOIN members m ON p.member_id = m.id`;
+    const params = [];
+    if (memberId) {
+        query += ' WHERE p.member_id = ?';
+        params.push(memberId);
+    }
+    query += ' ORDER BY p.tanggal_bayar DESC, p.created_at DESC';
+
+    const [rows] = await conn.execute(query, params);
+    return rows.map(row => ({ ...row, amount: round2(row.amount), sukarela: round2(row.sukarela) }));
+}
@@ -0,0 +1,576 @@
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database.js';
+
+// General ledger posting rules.
+// Every source document (iuran, pinjaman, angsuran, simpanan, pengeluaran, transaksi)
+// maps to exactly one balanced journal keyed by (source_type, source_id), so re-posting
+// a document replaces its journal instead of duplicating it.
+
+export const ACCOUNTS = {
+    KAS: '1-1100',
+    BANK: '1-1200',
+    PIUTANG_PINJAMAN: '1-1300',
+    SIMPANAN_WAJIB: '2-1100',
+    SIMPANAN_SUKARELA: '2-1200',
+    UTANG_SHU: '2-1300',
+    MODAL_IURAN_WAJIB: '3-1100',
+    DANA_CADANGAN: '3-2000',
+    SHU_DITAHAN: '3-9000',
+    PENDAPATAN_BUNGA: '4-1100',
+    PENDAPATAN_DENDA: '4-1200',
+    PENDAPATAN_LAIN: '4-1900',
+    BEBAN_LAIN: '5-1900'
+};
+
+export const SOURCE_TYPES = ['due', 'loan_disbursement', 'loan_payment', 'penalty', 'savings', 'expense', 'transaction', 'transfer', 'opening_balance'];
+
+const round2 = (value) => Math.round((parseFloat(value) || 0) * 100) / 100;
+
+const toDateString = (value) => {
+    if (!value) return new Date().toISOString().split('T')[0];
+    if (value instanceof Date) {
+        const y = value.getFullYear();
+        const m = String(value.getMonth() + 1).padStart(2, '0');
+        const d = String(value.getDate()).padStart(2, '0');
+        return `${y}-${m}-${d}`;
+    }
+    return String(value).split('T')[0];
+};
+
+export async function removeJournal(conn, sourceType, sourceId) {
+    await conn.execute(
+        'DELETE FROM journal_entries WHERE source_type = ? AND source_id = ?',
+        [sourceType, sourceId]
+    );
+}
+
+// Insert (or replace) the journal of a source document. Lines with zero amounts are dropped.
+export async function postJournal(conn, { entryDate, description, sourceType, sourceId, createdBy = null, lines }) {
+    const cleanLines = lines
+        .map(line => ({ ...line, debit: round2(line.debit), credit: round2(line.credit) }))
+        .filter(line => line.debit !== 0 || line.credit !== 0);
+
+    const totalDebit = round2(cleanLines.reduce((sum, line) => sum + line.debit, 0));
+    const totalCredit = round2(cleanLines.reduce((sum, line) => sum + line.credit, 0));
+    if (Math.abs(totalDebit - totalCredit) >= 0.01) {
+        throw new Error(`Jurnal tidak seimbang (${sourceType}/${sourceId}): debit ${totalDebit} ≠ kredit ${totalCredit}`);
+    }
+
+    await removeJournal(conn, sourceType, sourceId);
+    if (cleanLines.length === 0) return null;
+
+    const id = uuidv4();
+    await conn.execute(
+        `INSERT INTO journal_entries (id, entry_date, description, source_type, source_id, created_by)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [id, toDateString(entryDate), description, sourceType, sourceId, createdBy]
+    );
+
+    for (const line of cleanLines) {
+        await conn.execute(
+            `INSERT INTO journal_lines (id, journal_id, account_code, debit, credit, memo)
+             VALUES (?, ?, ?, ?, ?, ?)`,
+            [uuidv4(), id, line.account, line.debit, line.credit, line.memo || null]
+        );
+    }
+    return id;
+}
+
+// Map a free-text category (expense kategori / transaction category name) to a COA code
+export async function resolveCategoryAccount(conn, category, type) {
+    const fallback = type === 'income' ? ACCOUNTS.PENDAPATAN_LAIN : ACCOUNTS.BEBAN_LAIN;
+    if (!category) return fallback;
+
+    const [accounts] = await conn.execute(
+        `SELECT code, keywords FROM chart_of_accounts
+         WHERE type = ? AND is_active = TRUE AND keywords IS NOT NULL
+         ORDER BY code ASC`,
+        [type]
+    );
+
+    const lower = String(category).toLowerCase();
+    const match = accounts.find(account =>
+        account.keywords.split(',').map(k => k.trim().toLowerCase()).filter(Boolean).some(k => lower.includes(k))
+    );
+    return match ? match.code : fallback;
+}
+
+// COA code linked to a cash/bank account, falling back to Kas
+export async function resolveCashAccountCode(conn, cashBankAccountId) {
+    if (!cashBankAccountId) return ACCOUNTS.KAS;
+    const [linked] = await conn.execute('SELECT code FROM chart_of_accounts WHERE cash_bank_account_id = ?', [cashBankAccountId]);
+    return linked[0]?.code || ACCOUNTS.KAS;
+}
+
+// ==================== POSTING RULES ====================
+
+// Iuran lunas: Dr Kas (atau akun kas/bank yang menerima) / Cr Modal Iuran Wajib, Simpanan Wajib, Simpanan Sukarela
+export async function postDueJournal(conn, due) {
+    if (due.status !== 'lunas') {
+        await removeJournal(conn, 'due', due.id);
+        return null;
+    }
+
+    const iuranWajib = round2(due.iuran_wajib);
+    const simpananWajib = round2(due.simpanan_wajib);
+    const iuranSukarela = round2(due.iuran_sukarela);
+    const total = round2(iuranWajib + simpananWajib + iuranSukarela);
+    const cashCode = await resolveCashAccountCode(conn, due.cash_account_id);
+
+    return postJournal(conn, {
+        entryDate: due.tanggal_bayar,
+        description: `Iuran ${due.bulan}/${due.tahun}${due.nama_lengkap ? ` - ${due.nama_lengkap}` : ''}`,
+        sourceType: 'due',
+        sourceId: due.id,
+        lines: [
+            { account: cashCode, debit: total, credit: 0 },
+            { account: ACCOUNTS.MODAL_IURAN_WAJIB, debit: 0, credit: iuranWajib },
+            { account: ACCOUNTS.SIMPANAN_WAJIB, debit: 0, credit: simpananWajib },
+            { account: ACCOUNTS.SIMPANAN_SUKARELA, debit: 0, credit: iuranSukarela }
+        ]
+    });
+}
+
+// Pencairan pinjaman: Dr Piutang Pinjaman / Cr Kas (hanya pinjaman yang sudah cair).
+// Tanpa akun eksplisit dipakai akun kas/bank tempat pinjaman dicairkan.
+export async function postLoanDisbursementJournal(conn, loan, cashAccount = null) {
+    if (!['aktif', 'lunas'].includes(loan.status)) {
+        await removeJournal(conn, 'loan_disbursement', loan.id);
+        return null;
+    }
+
+    const creditAccount = cashAccount || await resolveCashAccountCode(conn, loan.disbursement_account_id);
+    const amount = round2(loan.jumlah_pinjaman);
+    return postJournal(conn, {
+        entryDate: loan.tanggal_pinjaman,
+        description: `Pencairan pinjaman${loan.nama_lengkap ? ` - ${loan.nama_lengkap}` : ''}`,
+        sourceType: 'loan_disbursement',
+        sourceId: loan.id,
+        lines: [
+            { account: ACCOUNTS.PIUTANG_PINJAMAN, debit: amount, credit: 0 },
+            { account: creditAccount, debit: 0, credit: amount }
+        ]
+    });
+}
+
+// Angsuran: Dr Kas (atau akun kas/bank yang menerima) / Cr Piutang Pinjaman (pokok), Pendapatan Bunga (bunga)
+export async function postLoanPaymentJournal(conn, payment) {
+    const pokok = round2(payment.angsuran_pokok);
+    const bunga = round2(payment.angsuran_bunga);
+    const cashCode = await resolveCashAccountCode(conn, payment.cash_account_id);
+
+    return postJournal(conn, {
+        entryDate: payment.tanggal_bayar,
+        description: `Angsuran ke-${payment.angsuran_ke}`,
+        sourceType: 'loan_payment',
+        sourceId: payment.id,
+        lines: [
+            { account: cashCode, debit: round2(pokok + bunga), credit: 0 },
+            { account: ACCOUNTS.PIUTANG_PINJAMAN, debit: 0, credit: pokok },
+            { account: ACCOUNTS.PENDAPATAN_BUNGA, debit: 0, credit: bunga }
+        ]
+    });
+}
+
+// Denda dibayar: Dr Kas (atau akun kas/bank yang menerima) / Cr Pendapatan Denda
+export async function postPenaltyJournal(conn, penalty) {
+    if (penalty.status !== 'lunas') {
+        await removeJournal(conn, 'penalty', penalty.id);
+        return null;
+    }
+
+    const cashCode = await resolveCashAccountCode(conn, penalty.cash_account_id);
+    const amount = round2(penalty.amount);
+
+    return postJournal(conn, {
+        entryDate: penalty.paid_date,
+        description: `Denda keterlambatan${penalty.nama_lengkap ? ` - ${penalty.nama_lengkap}` : ''}`,
+        sourceType: 'penalty',
+        sourceId: penalty.id,
+        createdBy: penalty.paid_by || null,
+        lines: [
+            { account: cashCode, debit: amount, credit: 0 },
+            { account: ACCOUNTS.PENDAPATAN_DENDA, debit: 0, credit: amount }
+        ]
+    });
+}
+
+// Simpanan: setoran Dr Kas / Cr Simpanan; penarikan (amount < 0) sebaliknya.
+// SHU yang dibukukan ke simpanan tidak melewati kas: Dr Utang SHU / Cr Simpanan.
+export async function postSavingsJournal(conn, saving) {
+    const amount = round2(saving.amount);
+    const savingsAccount = String(saving.type || '').toLowerCase().includes('wajib')
+        ? ACCOUNTS.SIMPANAN_WAJIB
+        : ACCOUNTS.SIMPANAN_SUKARELA;
+    const counterAccount = saving.reference_type === 'shu_distribution' ? ACCOUNTS.UTANG_SHU : ACCOUNTS.KAS;
+
+    const lines = amount >= 0
+        ? [
+            { account: counterAccount, debit: amount, credit: 0 },
+            { account: savingsAccount, debit: 0, credit: amount }
+        ]
+        : [
+            { account: savingsAccount, debit: -amount, credit: 0 },
+            { account: counterAccount, debit: 0, credit: -amount }
+        ];
+
+    return postJournal(conn, {
+        entryDate: saving.transaction_date,
+        description: `${amount >= 0 ? 'Setoran' : 'Penarikan'} ${saving.type || 'simpanan'}`,
+        sourceType: 'savings',
+        sourceId: saving.id,
+        lines
+    });
+}
+
+// Buku kas: debit = pengeluaran, credit = pemasukan kas.
+// Transfer internal kas/bank dipindahkan antar akun harta; pencairan pinjaman dan
+// setoran iuran/simpanan sudah dijurnal dari dokumen aslinya sehingga dilewati.
+export async function postExpenseJournal(conn, expense) {
+    const kategori = String(expense.kategori || '').toLowerCase();
+    const amount = round2(expense.jumlah);
+    const isSkipped = expense.status_otorisasi === 'rejected'
+        || kategori.includes('pinjaman anggota')
+        || (expense.type === 'credit' && (kategori.includes('iuran') || kategori.includes('simpanan')));
+
+    if (isSkipped) {
+        await removeJournal(conn, 'expense', expense.id);
+        return null;
+    }
+
+    let lines;
+    if (kategori.includes('tarik kas bank')) {
+        lines = [
+            { account: ACCOUNTS.KAS, debit: amount, credit: 0 },
+            { account: ACCOUNTS.BANK, debit: 0, credit: amount }
+        ];
+    } else if (kategori.includes('transfer bank') || kategori.includes('setor bank')) {
+        lines = [
+            { account: ACCOUNTS.BANK, debit: amount, credit: 0 },
+            { account: ACCOUNTS.KAS, debit: 0, credit: amount }
+        ];
+    } else if (expense.type === 'credit') {
+        const incomeAccount = await resolveCategoryAccount(conn, expense.kategori, 'income');
+        lines = [
+            { account: ACCOUNTS.KAS, debit: amount, credit: 0 },
+            { account: incomeAccount, debit: 0, credit: amount }
+        ];
+    } else {
+        const expenseAccount = await resolveCategoryAccount(conn, expense.kategori, 'expense');
+        lines = [
+            { account: expenseAccount, debit: amount, credit: 0 },
+            { account: ACCOUNTS.KAS, debit: 0, credit: amount }
+        ];
+    }
+
+    return postJournal(conn, {
+        entryDate: expense.tanggal,
+        description: `${expense.kategori}${expense.deskripsi ? ` - ${expense.deskripsi}` : ''}`,
+        sourceType: 'expense',
+        sourceId: expense.id,
+        createdBy: expense.created_by || null,
+        lines
+    });
+}
+
+// Transaksi umum. Transaksi yang merujuk dokumen lain (reference_type) sudah dijurnal dari dokumen tersebut.
+export async function postTransactionJournal(conn, transaction) {
+    if (transaction.reference_type || transaction.status === 'rejected' || transaction.status === 'pending') {
+        await removeJournal(conn, 'transaction', transaction.id);
+        return null;
+    }
+
+    const amount = round2(transaction.amount);
+    const isIncome = transaction.type === 'income';
+    const account = await resolveCategoryAccount(conn, transaction.category_name, isIncome ? 'income' : 'expense');
+    const lines = isIncome
+        ? [
+            { account: ACCOUNTS.KAS, debit: amount, credit: 0 },
+            { account, debit: 0, credit: amount }
+        ]
+        : [
+            { account, debit: amount, credit: 0 },
+            { account: ACCOUNTS.KAS, debit: 0, credit: amount }
+        ];
+
+    return postJournal(conn, {
+        entryDate: transaction.tanggal,
+        description: transaction.description || transaction.category_name || 'Transaksi',
+        sourceType: 'transaction',
+        sourceId: transaction.id,
+        createdBy: transaction.created_by || null,
+        lines
+    });
+}
+
+// Transfer kas/bank: Dr akun tujuan / Cr akun asal. Transfer yang dibatalkan tidak berjurnal.
+export async function postTransferJournal(conn, transfer) {
+    if (transfer.status !== 'completed') {
+        await removeJournal(conn, 'transfer', transfer.id);
+        return null;
+    }
+
+    const amount = round2(transfer.amount);
+    return postJournal(conn, {
+        entryDate: transfer.transaction_date,
+        description: `Transfer: ${transfer.description}`,
+        sourceType: 'transfer',
+        sourceId: transfer.id,
+        createdBy: transfer.created_by || null,
+        lines: [
+            { account: await resolveCashAccountCode(conn, transfer.to_account_id), debit: amount, credit: 0 },
+            { account: await resolveCashAccountCode(conn, transfer.from_account_id), debit: 0, credit: amount }
+        ]
+    });
+}
+
+// Saldo awal akun kas/bank: Dr Kas/Bank / Cr SHU Ditahan, dibukukan pada tanggal akun dibuat
+export async function postOpeningBalanceJournal(conn, account) {
+    const amount = round2(account.opening_balance);
+    const cashCode = await resolveCashAccountCode(conn, account.id);
+    const lines = amount >= 0
+        ? [
+            { account: cashCode, debit: amount, credit: 0 },
+            { account: ACCOUNTS.SHU_DITAHAN, debit: 0, credit: amount }
+        ]
+        : [
+            { account: ACCOUNTS.SHU_DITAHAN, debit: -amount, credit: 0 },
+            { account: cashCode, debit: 0, credit: -amount }
+        ];
+
+    return postJournal(conn, {
+        entryDate: account.created_at,
+        description: `Saldo awal ${account.name}`,
+        sourceType: 'opening_balance',
+        sourceId: account.id,
+        lines
+    });
+}
+
+// Fire-and-log wrapper for the CRUD routes: a posting failure must not block the
+// operational record, and POST /api/ledger/rebuild can repair the journal later.
+export async function syncJournal(label, fn) {
+    try {
+        await fn(pool);
+    } catch (error) {
+        console.error(`⚠️ Journal posting failed (${label}):`, error.message);
+    }
+}
+
+// ==================== REBUILD ====================
+
+export async function rebuildLedger(conn) {
+    const placeholders = SOURCE_TYPES.map(() => '?').join(', ');
+    await conn.execute(`DELETE FROM journal_entries WHERE source_type IN (${placeholders})`, SOURCE_TYPES);
+
+    const counts = {};
+    const run = async (key, rows, post) => {
+        counts[key] = 0;
+        for (const row of rows) {
+            if (await post(conn, row)) counts[key]++;
+        }
+    };
+
+    const [dues] = await conn.execute(
+        'SELECT d.*, m.nama_lengkap FROM dues d JOIN members m ON d.member_id = m.id'
+    );
+    await run('due', dues, postDueJournal);
+
+    const [loans] = await conn.execute(
+        'SELECT l.*, m.nama_lengkap FROM loans l JOIN members m ON l.member_id = m.id'
+    );
+    await run('loan_disbursement', loans, postLoanDisbursementJournal);
+
+    const [payments] = await conn.execute('SELECT * FROM loan_payments');
+    await run('loan_payment', payments, postLoanPaymentJournal);
+
+    const [penalties] = await conn.execute(
+        `SELECT p.*, m.nama_lengkap FROM penalties p JOIN members m ON p.member_id = m.id WHERE p.status = 'lunas'`
+    );
+    await run('penalty', penalties, postPenaltyJournal);
+
+    const [savings] = await conn.execute('SELECT * FROM savings');
+    await run('savings', savings, postSavingsJournal);
+
+    const [expenses] = await conn.execute('SELECT * FROM expenses');
+    await run('expense', expenses, postExpenseJournal);
+
+    const [transactions] = await conn.execute(
+        `SELECT t.*, c.name AS category_name
+         FROM transactions t
+         LEFT JOIN transaction_categories c ON t.category_id = c.id`
+    );
+    await run('transaction', transactions, postTransactionJournal);
+
+    const [transfers] = await conn.execute("SELECT * FROM cash_bank_transfers WHERE status = 'completed'");
+    await run('transfer', transfers, postTransferJournal);
+
+    const [cashAccounts] = await conn.execute('SELECT * FROM cash_bank_accounts WHERE opening_balance <> 0');
+    await run('opening_balance', cashAccounts, postOpeningBalanceJournal);
+
+    return counts;
+}
+
+// ==================== REPORTS ====================
+
+// Per-account debit/credit totals and signed balance (positive = normal side)
+export async function getAccountBalances(conn, { asOf, start, excludeSourceTypes = [] } = {}) {
+    const params = [];
+    let dateFilter = '';
+    if (start) {
+        dateFilter += ' AND j.entry_date >= ?';
+        params.push(toDateString(start));
+    }
+    if (asOf) {
+        dateFilter += ' AND j.entry_date <= ?';
+        params.push(toDateString(asOf));
+    }
+    if (excludeSourceTypes.length > 0) {
+        dateFilter += ` AND j.source_type NOT IN (${excludeSourceTypes.map(() => '?').join(', ')})`;
+        params.push(...excludeSourceTypes);
+    }
+
+    const [rows] = await conn.execute(
+        `SELECT c.code, c.name, c.type, c.normal_balance, c.parent_code,
+                COALESCE(SUM(l.debit), 0) AS total_debit,
+                COALESCE(SUM(l.credit), 0) AS total_credit
+         FROM chart_of_accounts c
+         LEFT JOIN journal_lines l ON l.account_code = c.code
+            AND l.journal_id IN (SELECT j.id FROM journal_entries j WHERE 1=1${dateFilter})
+         WHERE c.is_active = TRUE
+         GROUP BY c.code, c.name, c.type, c.normal_balance, c.parent_code
+         ORDER BY c.code ASC`,
+        params
+    );
+
+    return rows.map(row => {
+        const debit = round2(row.total_debit);
+        const credit = round2(row.total_credit);
+        return {
+            code: row.code,
+            name: row.name,
+            type: row.type,
+            normal_balance: row.normal_balance,
+            parent_code: row.parent_code,
+            total_debit: debit,
+            total_credit: credit,
+            balance: row.normal_balance === 'debit' ? round2(debit - credit) : round2(credit - debit)
+        };
+    });
+}
+
+export async function getTrialBalance(conn, asOf) {
+    const balances = await getAccountBalances(conn, { asOf });
+    const rows = balances
+        .filter(account => account.total_debit !== 0 || account.total_credit !== 0)
+        .map(account => {
+            const net = round2(account.total_debit - account.total_credit);
+            return {
+                code: account.code,
+                name: account.name,
+                type: account.type,
+                debit: net > 0 ? net : 0,
+                credit: net < 0 ? -net : 0
+            };
+        });
+
+    const totalDebit = round2(rows.reduce((sum, row) => sum + row.debit, 0));
+    const totalCredit = round2(rows.reduce((sum, row) => sum + row.credit, 0));
+    return { as_of: asOf || null, rows, total_debit: totalDebit, total_credit: totalCredit, balanced: Math.abs(totalDebit - totalCredit) < 0.01 };
+}
+
+// Balance sheet in the same shape as report_data.neraca, plus per-account detail.
+// Pendapatan - beban tahun berjalan muncul sebagai SHU di bagian modal.
+export async function getBalanceSheet(conn, asOf) {
+    const balances = await getAccountBalances(conn, { asOf });
+    const byCode = Object.fromEntries(balances.map(account => [account.code, account]));
+    const sumType = (type) => round2(balances.filter(a => a.type === type).reduce((sum, a) => sum + a.balance, 0));
+    const value = (code) => byCode[code]?.balance || 0;
+
+    const kasBank = round2(balances
+        .filter(a => a.type === 'asset' && (a.code === ACCOUNTS.KAS || a.code === ACCOUNTS.BANK))
+        .reduce((sum, a) => sum + a.balance, 0));
+    const totalHarta = sumType('asset');
+    const totalKewajiban = sumType('liability');
+    const shu = round2(sumType('income') - sumType('expense'));
+    const modalAccounts = sumType('equity');
+    const totalModal = round2(modalAccounts + shu);
+
+    const detail = (type) => balances
+        .filter(a => a.type === type && a.balance !== 0)
+        .map(a => ({ code: a.code, name: a.name, balance: a.balance }));
+
+    return {
+        as_of: asOf || null,
+        harta: {
+            kas_bank: kasBank,
+            piutang_pinjaman: value(ACCOUNTS.PIUTANG_PINJAMAN),
+            lainnya: round2(totalHarta - kasBank - value(ACCOUNTS.PIUTANG_PINJAMAN)),
+            total: totalHarta,
+            detail: detail('asset')
+        },
+        kewajiban: {
+            simpanan_wajib: value(ACCOUNTS.SIMPANAN_WAJIB),
+            simpanan_sukarela: value(ACCOUNTS.SIMPANAN_SUKARELA),
+            total: totalKewajiban,
+            detail: detail('liability')
+        },
+        modal: {
+            iuran_wajib: value(ACCOUNTS.MODAL_IURAN_WAJIB),
+            shu,
+            total: totalModal,
+            detail: detail('equity')
+        },
+        total_kewajiban_modal: round2(totalKewajiban + totalModal),
+        balanced: Math.abs(totalHarta - (totalKewajiban + totalModal)) < 0.01
+    };
+}
+
+// Buku besar: journal lines of one account with running balance
+export async function getGeneralLedger(conn, accountCode, { start, end } = {}) {
+    const [[account]] = await conn.execute('SELECT * FROM chart_of_accounts WHERE code = ?', [accountCode]);
+    if (!account) return null;
+
+    const sign = account.normal_balance === 'debit' ? 1 : -1;
+    let opening = 0;
+    if (start) {
+        const [[row]] = await conn.execute(
+            `SELECT COALESCE(SUM(l.debit), 0) AS debit, COALESCE(SUM(l.credit), 0) AS credit
+             FROM journal_lines l JOIN journal_entries j ON l.journal_id = j.id
+             WHERE l.account_code = ? AND j.entry_date < ?`,
+            [accountCode, toDateString(start)]
+        );
+        opening = round2(sign * (parseFloat(row.debit) - parseFloat(row.credit)));
+    }
+
+    const params = [accountCode];
+    let query = `SELECT j.id AS journal_id, j.entry_date, j.description, j.source_type, j.source_id,
+                        l.debit, l.credit, l.memo
+                 FROM journal_lines l JOIN journal_entries j ON l.journal_id = j.id
+                 WHERE l.account_code = ?`;
+    if (start) {
+        query += ' AND j.entry_date >= ?';
+        params.push(toDateString(start));
+    }
+    if (end) {
+        query += ' AND j.entry_date <= ?';
+        params.push(toDateString(end));
+    }
+    query += ' ORDER BY j.entry_date ASC, j.created_at ASC';
+
+    const [rows] = await conn.execute(query, params);
+    let running = opening;
+    const lines = rows.map(row => {
+        const debit = round2(row.debit);
+        const credit = round2(row.credit);
+        running = round2(running + sign * (debit - credit));
+        return { ...row, entry_date: toDateString(row.entry_date), debit, credit, balance: running };
+    });
+
+    return {
+        account: { code: account.code, name: account.name, type: account.type, normal_balance: account.normal_balance },
+        opening_balance: opening,
+        closing_balance: running,
+        lines
+    };
+}
@@ -0,0 +1,238 @@
+import { v4 as uuidv4 } from 'uuid';
+import { postLoanDisbursementJournal } from './journal.service.js';
+import { postCashMovement } from './cashBank.service.js';
+import { INTEREST_METHODS, saveSchedule, scheduleFromLoan, summarizeSchedule, toDateString } from './loanSchedule.service.js';
+
+// Pengajuan pinjaman anggota dan persetujuan berjenjang.
+// Pengajuan berstatus pending sampai disetujui oleh sejumlah pengurus (required_approvals)
+// atau ditolak oleh salah satunya; pinjaman yang disetujui menjadi aktif saat dicairkan.
+
+export const LOAN_DECISIONS = ['setuju', 'tolak', 'catatan'];
+
+const DEFAULT_POLICY = {
+    required_approvals: 2,
+    bunga_persen: 12,
+    interest_method: 'flat',
+    max_loan_savings_ratio: 3,
+    max_active_loans: 1,
+    max_guarantees_per_member: 2,
+    block_on_arrears: true
+};
+
+const round2 = (value) => Math.round((parseFloat(value) || 0) * 100) / 100;
+
+// Returns an error message, or null when the policy is usable
+export function validatePolicy(policy) {
+    const approvals = parseInt(policy.required_approvals, 10);
+    if (!Number.isInteger(approvals) || approvals < 1 || approvals > 10) {
+        return 'Jumlah persetujuan harus 1-10';
+    }
+    const rate = parseFloat(policy.bunga_persen);
+    if (Number.isNaN(rate) || rate < 0 || rate > 100) {
+        return 'Persentase jasa tidak valid';
+    }
+    if (!INTEREST_METHODS.includes(policy.interest_method)) {
+        return 'Metode jasa tidak dikenal';
+    }
+    const ratio = parseFloat(policy.max_loan_savings_ratio);
+    if (Number.isNaN(ratio) || ratio < 0) {
+        return 'Rasio pinjaman terhadap simpanan tidak valid';
+    }
+    const activeLoans = parseInt(policy.max_active_loans, 10);
+    if (!Number.isInteger(activeLoans) || activeLoans < 0) {
+        return 'Batas pinjaman berjalan tidak valid';
+    }
+    const guarantees = parseInt(policy.max_guarantees_per_member ?? DEFAULT_POLICY.max_guarantees_per_member, 10);
+    if (!Number.isInteger(guarantees) || guarantees < 0) {
+        return 'Batas penjaminan per anggota tidak valid';
+    }
+    return null;
+}
+
+// Check an application against the policy. standing holds the member's savings, running
+// loans and arrears; every check is reported so pengurus can see why one fails.
+export function evaluateChecks(amount, standing, policy) {
+    const ratio = parseFloat(policy.max_loan_savings_ratio) || 0;
+    const plafon = round2(standing.savings * ratio);
+    const arrears = standing.overdue_installments + standing.unpaid_dues + standing.unpaid_penalties;
+
+    const checks = [
+        {
+            key: 'savings_ratio',
+            label: 'Plafon terhadap simpanan',
+            passed: ratio === 0 || round2(amount) <= plafon,
+            detail: ratio === 0
+                ? 'Tanpa batas'
+                : `Maksimal ${ratio}x simpanan (Rp ${plafon.toLocaleString('id-ID')})`
+        },
+        {
+            key: 'active_loans',
+            label: 'Pinjaman berjalan',
+            passed: policy.max_active_loans === 0 || standing.active_loans < policy.max_active_loans,
+            detail: `${standing.active_loans} pinjaman berjalan (batas ${policy.max_active_loans || 'tidak ada'})`
+        },
+        {
+            key: 'arrears',
+            label: 'Tunggakan',
+            passed: !policy.block_on_arrears || arrears === 0,
+            detail: arrears === 0
+                ? 'Tidak ada tunggakan'
+                : `${standing.overdue_installments} angsuran lewat jatuh tempo, ${standing.unpaid_dues} iuran belum lunas, ${standing.unpaid_penalties} denda belum dibayar`
+        }
+    ];
+
+    return { checks, eligible: checks.every(check => check.passed), plafon };
+}
+
+// Latest setuju/tolak per pengurus; catatan do not count as a vote
+export function tallyDecisions(approvals) {
+    const votes = new Map();
+    for (const approval of approvals) {
+        if (approval.decision !== 'catatan') votes.set(approval.user_id, approval.decision);
+    }
+    const values = [...votes.values()];
+    return {
+        approvals: values.filter(decision => decision === 'setuju').length,
+        rejections: values.filter(decision => decision === 'tolak').length,
+        voters: [...votes.keys()]
+    };
+}
+
+// ==================== POLICY ====================
+
+export async function getPolicy(conn) {
+    const [rows] = await conn.execute('SELECT * FROM loan_policies WHERE id = 1');
+    if (rows.length === 0) return { ...DEFAULT_POLICY };
+    return {
+        required_approvals: parseInt(rows[0].required_approvals, 10),
+        bunga_persen: parseFloat(rows[0].bunga_persen),
+        interest_method: rows[0].interest_method,
+        max_loan_savings_ratio: parseFloat(rows[0].max_loan_savings_ratio),
+        max_active_loans: parseInt(rows[0].max_active_loans, 10),
+        max_guarantees_per_member: parseInt(rows[0].max_guarantees_per_member ?? DEFAULT_POLICY.max_guarantees_per_member, 10),
+        block_on_arrears: Boolean(rows[0].block_on_arrears),
+        updated_at: rows[0].updated_at
+    };
+}
+
+export async function savePolicy(conn, policy, userId) {
+    await conn.execute(
+        `INSERT INTO loan_policies (id, required_approvals, bunga_persen, interest_method, max_loan_savings_ratio,
+            max_active_loans, max_guarantees_per_member, block_on_arrears, updated_by)
+         VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE required_approvals = VALUES(required_approvals), bunga_persen = VALUES(bunga_persen),
+            interest_method = VALUES(interest_method), max_loan_savings_ratio = VALUES(max_loan_savings_ratio),
+            max_active_loans = VALUES(max_active_loans), max_guarantees_per_member = VALUES(max_guarantees_per_member),
+            block_on_arrears = VALUES(block_on_arrears), updated_by = VALUES(updated_by)`,
+        [parseInt(policy.required_approvals, 10), policy.bunga_persen, policy.interest_method, policy.max_loan_savings_ratio,
+            parseInt(policy.max_active_loans, 10),
+            parseInt(policy.max_guarantees_per_member ?? DEFAULT_POLICY.max_guarantees_per_member, 10),
+            policy.block_on_arrears === false ? 0 : 1, userId]
+    );
+    return getPolicy(conn);
+}
+
+// ==================== EVALUATION ====================
+
+// Savings, running loans and arrears of a member. The application itself is excluded
+// from the running loans.
+export async function getMemberStanding(conn, memberId, excludeLoanId = null) {
+    const today = toDateString(new Date());
+    const [rows] = await conn.execute(
+        `SELECT
+            COALESCE((SELECT SUM(COALESCE(d.iuran_wajib, 0) + COALESCE(d.simpanan_wajib, 0) + COALESCE(d.iuran_sukarela, 0))
+                      FROM dues d WHERE d.member_id = ? AND d.status = 'lunas'), 0)
+            + COALESCE((SELECT SUM(s.amount) FROM savings s WHERE s.member_id = ?), 0) AS savings,
+            (SELECT COUNT(*) FROM loans l
+             WHERE l.member_id = ? AND l.status IN ('disetujui', 'aktif') AND l.id <> ?) AS active_loans,
+            (SELECT COUNT(*) FROM loan_schedules s JOIN loans l ON s.loan_id = l.id
+             WHERE l.member_id = ? AND l.status = 'aktif' AND s.status <> 'lunas' AND s.due_date < ?) AS overdue_installments,
+            (SELECT COUNT(*) FROM dues d WHERE d.member_id = ? AND d.status = 'belum_lunas') AS unpaid_dues,
+            (SELECT COUNT(*) FROM penalties p WHERE p.member_id = ? AND p.status = 'belum_bayar') AS unpaid_penalties`,
+        [memberId, memberId, memberId, excludeLoanId || '', memberId, today, memberId, memberId]
+    );
+    const row = rows[0];
+    return {
+        savings: round2(row.savings),
+        active_loans: parseInt(row.active_loans, 10) || 0,
+        overdue_installments: parseInt(row.overdue_installments, 10) || 0,
+        unpaid_dues: parseInt(row.unpaid_dues, 10) || 0,
+        unpaid_penalties: parseInt(row.unpaid_penalties, 10) || 0
+    };
+}
+
+export async function evaluateApplication(conn, loan, policy) {
+    const standing = await getMemberStanding(conn, loan.member_id, loan.id);
+    return { standing, ...evaluateChecks(loan.jumlah_pinjaman, standing, policy) };
+}
+
+export async function getApprovals(conn, loanId) {
+    const [rows] = await conn.execute(
+        `SELECT a.*, u.email, u.role
+         FROM loan_approvals a
+         JOIN users u ON a.user_id = u.id
+         WHERE a.loan_id = ?
+         ORDER BY a.created_at ASC`,
+        [loanId]
+    );
+    return rows;
+}
+
+// ==================== DECISIONS ====================
+
+// Record a decision and move the application forward. Returns the new loan status.
+export async function recordDecision(conn, loan, { userId, decision, comment }, policy) {
+    await conn.execute(
+        'INSERT INTO loan_approvals (id, loan_id, user_id, decision, comment) VALUES (?, ?, ?, ?, ?)',
+        [uuidv4(), loan.id, userId, decision, comment || null]
+    );
+    if (decision === 'catatan') return loan.status;
+
+    if (decision === 'tolak') {
+        await conn.execute(`UPDATE loans SET status = 'ditolak' WHERE id = ?`, [loan.id]);
+        return 'ditolak';
+    }
+
+    const tally = tallyDecisions(await getApprovals(conn, loan.id));
+    if (tally.approvals >= policy.required_approvals) {
+        await conn.execute(`UPDATE loans SET status = 'disetujui', approved_at = NOW() WHERE id = ?`, [loan.id]);
+        return 'disetujui';
+    }
+    return loan.status;
+}
+
+// Disburse an approved loan from a cash/bank account. The plan is regenerated from the
+// disbursement date, so the first installment falls one month after the money is paid out.
+export async function disburseLoan(conn, loan, { cashAccountId, disbursementDate, userId }) {
+    const disbursed = {
+        ...loan,
+        status: 'aktif',
+        tanggal_pinjaman: disbursementDate,
+        disbursement_account_id: cashAccountId
+    };
+    const schedule = scheduleFromLoan(disbursed);
+    const summary = summarizeSchedule(schedule);
+
+    await conn.execute(
+        `UPDATE loans SET status = 'aktif', tanggal_pinjaman = ?, angsuran_bulanan = ?, sisa_pinjaman = ?,
+            disbursed_at = NOW(), disbursement_account_id = ?
+         WHERE id = ?`,
+        [disbursementDate, schedule[0]?.total || 0, summary.total_bayar, cashAccountId, loan.id]
+    );
+    await saveSchedule(conn, loan.id, schedule);
+    await conn.execute(
+        'INSERT INTO loan_approvals (id, loan_id, user_id, decision, comment) VALUES (?, ?, ?, ?, ?)',
+        [uuidv4(), loan.id, userId, 'catatan', `Dicairkan pada ${disbursementDate}`]
+    );
+
+    await postLoanDisbursementJournal(conn, disbursed);
+    await postCashMovement(conn, {
+        accountId: cashAccountId,
+        sourceType: 'loan_disbursement',
+        sourceId: loan.id,
+        direction: 'out',
+        amount: round2(loan.jumlah_pinjaman),
+        entryDate: disbursementDate,
+        description: `Pencairan pinjaman${loan.nama_lengkap ? ` - ${loan.nama_lengkap}` : ''}`
+    });
+}
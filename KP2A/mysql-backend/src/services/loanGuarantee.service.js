@@ -0,0 +1,193 @@
+import { v4 as uuidv4 } from 'uuid';
+import { toDateString } from './loanSchedule.service.js';
+
+// Penjamin dan agunan pinjaman.
+// Penjaminan dihitung selama pinjaman masih berjalan (pending, disetujui, aktif). Eksposur
+// penjamin adalah nilai yang dijamin, dibatasi sisa pinjaman.
+
+export const COLLATERAL_TYPES = ['bpkb', 'sertifikat', 'emas', 'elektronik', 'lainnya'];
+
+const OPEN_LOAN_STATUSES = "('pending', 'disetujui', 'aktif')";
+
+// Foto dokumen disimpan sebagai data URL; batasi ukurannya
+const MAX_PHOTO_LENGTH = 2 * 1024 * 1024;
+
+const round2 = (value) => Math.round((parseFloat(value) || 0) * 100) / 100;
+
+// Returns an error message, or null when the collateral is usable
+export function validateCollateral(collateral) {
+    if (!COLLATERAL_TYPES.includes(collateral.type)) {
+        return 'Jenis agunan tidak dikenal';
+    }
+    const value = parseFloat(collateral.estimated_value);
+    if (Number.isNaN(value) || value < 0) {
+        return 'Nilai taksiran agunan tidak valid';
+    }
+    const photo = collateral.document_photo;
+    if (photo) {
+        if (typeof photo !== 'string' || !photo.startsWith('data:image/')) {
+            return 'Foto dokumen harus berupa gambar';
+        }
+        if (photo.length > MAX_PHOTO_LENGTH) {
+            return 'Ukuran foto dokumen terlalu besar (maksimal 1,5 MB)';
+        }
+    }
+    return null;
+}
+
+// ==================== GUARANTORS ====================
+
+export async function listGuarantors(conn, loanId) {
+    const [rows] = await conn.execute(
+        `SELECT g.*, m.nama_lengkap, m.id_anggota, m.no_hp
+         FROM loan_guarantors g
+         JOIN members m ON g.member_id = m.id
+         WHERE g.loan_id = ?
+         ORDER BY g.created_at ASC`,
+        [loanId]
+    );
+    return rows;
+}
+
+// Running guarantees of a member and the amount at stake
+export async function getGuarantorExposure(conn, memberId) {
+    const [rows] = await conn.execute(
+        `SELECT g.id, g.loan_id, g.guaranteed_amount, l.status, l.jumlah_pinjaman, l.sisa_pinjaman,
+            l.tanggal_pinjaman, m.nama_lengkap AS borrower_name, m.id_anggota AS borrower_id_anggota,
+            LEAST(COALESCE(g.guaranteed_amount, l.sisa_pinjaman), l.sisa_pinjaman) AS exposure
+         FROM loan_guarantors g
+         JOIN loans l ON g.loan_id = l.id
+         JOIN members m ON l.member_id = m.id
+         WHERE g.member_id = ? AND l.status IN ${OPEN_LOAN_STATUSES}
+         ORDER BY l.tanggal_pinjaman DESC`,
+        [memberId]
+    );
+    const loans = rows.map(row => ({ ...row, exposure: round2(row.exposure) }));
+    return {
+        member_id: memberId,
+        count: loans.length,
+        exposure: round2(loans.reduce((sum, row) => sum + row.exposure, 0)),
+        loans
+    };
+}
+
+// Returns an error message when the member cannot guarantee the loan, otherwise null
+export async function checkGuarantor(conn, loan, memberId, policy) {
+    if (loan.member_id === memberId) {
+        return 'Peminjam tidak dapat menjadi penjamin pinjamannya sendiri';
+    }
+
+    const [members] = await conn.execute('SELECT status_keanggotaan FROM members WHERE id = ?', [memberId]);
+    if (members.length === 0) {
+        return 'Anggota penjamin tidak ditemukan';
+    }
+    if (members[0].status_keanggotaan !== 'aktif') {
+        return 'Penjamin harus anggota aktif';
+    }
+
+    const [existing] = await conn.execute(
+        'SELECT id FROM loan_guarantors WHERE loan_id = ? AND member_id = ?',
+        [loan.id, memberId]
+    );
+    if (existing.length > 0) {
+        return 'Anggota sudah menjadi penjamin pinjaman ini';
+    }
+
+    const limit = policy.max_guarantees_per_member;
+    if (limit > 0) {
+        const { count } = await getGuarantorExposure(conn, memberId);
+        if (count >= limit) {
+            return `Anggota sudah menjamin ${count} pinjaman (batas ${limit})`;
+        }
+    }
+    return null;
+}
+
+export async function addGuarantor(conn, loanId, { memberId, guaranteedAmount, notes, userId }) {
+    const id = uuidv4();
+    const amount = guaranteedAmount === undefined || guaranteedAmount === null || guaranteedAmount === ''
+        ? null
+        : guaranteedAmount;
+    await conn.execute(
+        `INSERT INTO loan_guarantors (id, loan_id, member_id, guaranteed_amount, notes, created_by)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [id, loanId, memberId, amount, notes || null, userId]
+    );
+    return id;
+}
+
+// ==================== COLLATERALS ====================
+
+// The photo is left out of the list; has_photo tells whether one was uploaded
+export async function listCollaterals(conn, loanId) {
+    const [rows] = await conn.execute(
+        `SELECT id, loan_id, type, description, estimated_value, document_photo IS NOT NULL AS has_photo,
+            created_at, updated_at
+         FROM loan_collaterals
+         WHERE loan_id = ?
+         ORDER BY created_at ASC`,
+        [loanId]
+    );
+    return rows.map(row => ({ ...row, estimated_value: round2(row.estimated_value), has_photo: Boolean(row.has_photo) }));
+}
+
+export async function saveCollateral(conn, loanId, collateral, userId, id = null) {
+    const photo = collateral.document_photo || null;
+    if (id) {
+        // An undefined photo keeps the stored one; null removes it
+        if (collateral.document_photo === undefined) {
+            await conn.execute(
+                'UPDATE loan_collaterals SET type = ?, description = ?, estimated_value = ? WHERE id = ?',
+                [collateral.type, collateral.description || null, collateral.estimated_value, id]
+            );
+        } else {
+            await conn.execute(
+                'UPDATE loan_collaterals SET type = ?, description = ?, estimated_value = ?, document_photo = ? WHERE id = ?',
+                [collateral.type, collateral.description || null, collateral.estimated_value, photo, id]
+            );
+        }
+        return id;
+    }
+
+    const newId = uuidv4();
+    await conn.execute(
+        `INSERT INTO loan_collaterals (id, loan_id, type, description, estimated_value, document_photo, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [newId, loanId, collateral.type, collateral.description || null, collateral.estimated_value, photo, userId]
+    );
+    return newId;
+}
+
+// ==================== ARREARS ====================
+
+// Active loans with overdue installments, each with the guarantors to contact
+export async function listArrearsGuarantors(conn, asOf = new Date()) {
+    const today = toDateString(asOf);
+    const [loans] = await conn.execute(
+        `SELECT l.id AS loan_id, l.member_id, m.nama_lengkap, m.id_anggota, m.no_hp, l.sisa_pinjaman,
+            COUNT(s.id) AS overdue_installments,
+            SUM(s.total - s.paid_pokok - s.paid_bunga) AS overdue_amount,
+            MIN(s.due_date) AS oldest_due_date
+         FROM loans l
+         JOIN members m ON l.member_id = m.id
+         JOIN loan_schedules s ON s.loan_id = l.id
+         WHERE l.status = 'aktif' AND s.status <> 'lunas' AND s.due_date < ?
+         GROUP BY l.id, l.member_id, m.nama_lengkap, m.id_anggota, m.no_hp, l.sisa_pinjaman
+         ORDER BY oldest_due_date ASC`,
+        [today]
+    );
+
+    const result = [];
+    for (const loan of loans) {
+        const oldest = toDateString(loan.oldest_due_date);
+        result.push({
+            ...loan,
+            overdue_installments: parseInt(loan.overdue_installments, 10) || 0,
+            overdue_amount: round2(loan.overdue_amount),
+            oldest_due_date: oldest,
+            days_late: Math.round((Date.parse(`${today}T00:00:00Z`) - Date.parse(`${oldest}T00:00:00Z`)) / 86400000),
+            guarantors: await listGuarantors(conn, loan.loan_id)
+        });
+    }
+    return result;
+}
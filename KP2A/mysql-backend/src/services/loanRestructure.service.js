@@ -0,0 +1,226 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+    addMonths,
+    applyAllocation,
+    generateSchedule,
+    getSchedule,
+    planAllocation,
+    refreshLoanBalance,
+    summarizeSchedule,
+    toDateString
+} from './loanSchedule.service.js';
+
+// Restrukturisasi pinjaman berjalan.
+// Angsuran yang sudah dibayar tetap di rencana; angsuran yang dibayar sebagian ditutup sebesar yang
+// sudah dibayar. Sisa pokok kemudian diangsur ulang mulai sebulan setelah tanggal efektif (atau
+// setelah angsuran terbayar terakhir), dan jasa tertunggak dari angsuran yang sudah jatuh tempo
+// ditambahkan ke angsuran baru pertama. Rencana lama disimpan di loan_restructures.
+
+export const RESTRUCTURE_TYPES = ['perpanjang_tenor', 'ubah_bunga', 'penundaan', 'pelunasan_dipercepat'];
+
+const MAX_MONTHS = 60;
+
+const round2 = (value) => Math.round((parseFloat(value) || 0) * 100) / 100;
+
+const sumOf = (rows, pick) => round2(rows.reduce((sum, row) => sum + pick(row), 0));
+
+const parseJson = (value) => (typeof value === 'string' ? JSON.parse(value) : value);
+
+// Returns an error message, or null when the request can be planned
+export function validateRestructure(loan, input) {
+    if (loan.status !== 'aktif') {
+        return 'Hanya pinjaman aktif yang dapat direstrukturisasi';
+    }
+    if (!RESTRUCTURE_TYPES.includes(input.type)) {
+        return 'Jenis restrukturisasi tidak dikenal';
+    }
+    if (!input.effective_date || Number.isNaN(Date.parse(input.effective_date))) {
+        return 'Tanggal efektif wajib diisi';
+    }
+    if (toDateString(input.effective_date) < toDateString(loan.tanggal_pinjaman)) {
+        return 'Tanggal efektif tidak boleh sebelum tanggal pinjaman';
+    }
+    if (!input.reason || !String(input.reason).trim()) {
+        return 'Alasan restrukturisasi wajib diisi';
+    }
+
+    if (input.type === 'perpanjang_tenor' || input.type === 'penundaan') {
+        const months = parseInt(input.jumlah_bulan, 10);
+        if (!Number.isInteger(months) || months < 1 || months > MAX_MONTHS) {
+            return `Jumlah bulan harus 1-${MAX_MONTHS}`;
+        }
+    }
+    if (input.type === 'ubah_bunga') {
+        const rate = parseFloat(input.bunga_persen);
+        if (Number.isNaN(rate) || rate < 0 || rate > 100) {
+            return 'Persentase jasa tidak valid';
+        }
+        if (rate === parseFloat(loan.bunga_persen)) {
+            return 'Jasa baru sama dengan jasa saat ini';
+        }
+    }
+    if (input.type === 'pelunasan_dipercepat') {
+        const rebate = parseFloat(input.rebate_persen);
+        if (Number.isNaN(rebate) || rebate < 0 || rebate > 100) {
+            return 'Potongan jasa harus 0-100%';
+        }
+    }
+    return null;
+}
+
+// Plan the new remaining schedule. Rows are the current plan (getSchedule); nothing is written.
+export function planRestructure(loan, rows, input) {
+    const date = toDateString(input.effective_date);
+    const open = rows.filter(row => row.status !== 'lunas');
+    const paid = rows.filter(row => row.paid_pokok > 0 || row.paid_bunga > 0);
+
+    const outstandingPokok = sumOf(rows, row => row.pokok - row.paid_pokok);
+    const overdueJasa = sumOf(open.filter(row => row.due_date <= date), row => row.bunga - row.paid_bunga);
+    const futureJasa = sumOf(open.filter(row => row.due_date > date), row => row.bunga - row.paid_bunga);
+    if (!(outstandingPokok > 0) || open.length === 0) {
+        return { error: 'Pinjaman sudah lunas' };
+    }
+
+    const lastPaidDate = paid.reduce((max, row) => (row.paid_date && row.paid_date > max ? row.paid_date : max), '');
+    if (date < lastPaidDate) {
+        return { error: 'Tanggal efektif tidak boleh sebelum pembayaran terakhir' };
+    }
+
+    // Installments paid in part are closed at what was paid; their remainder moves to the new plan
+    const closed = paid
+        .filter(row => row.status !== 'lunas')
+        .map(row => ({ id: row.id, pokok: row.paid_pokok, bunga: row.paid_bunga }));
+    const anchor = paid.reduce((max, row) => (row.due_date > max ? row.due_date : max), date);
+    const firstNumber = paid.reduce((max, row) => Math.max(max, row.angsuran_ke), 0) + 1;
+
+    const method = loan.interest_method || 'flat';
+    let annualRate = parseFloat(loan.bunga_persen) || 0;
+    let rebate = 0;
+    let schedule;
+
+    if (input.type === 'pelunasan_dipercepat') {
+        // Jasa yang belum jatuh tempo dipotong sebesar rebate_persen
+        rebate = round2(futureJasa * (parseFloat(input.rebate_persen) || 0) / 100);
+        const bunga = round2(overdueJasa + futureJasa - rebate);
+        schedule = [{
+            angsuran_ke: 1,
+            due_date: date,
+            pokok: outstandingPokok,
+            bunga,
+            total: round2(outstandingPokok + bunga),
+            sisa_pokok: 0
+        }];
+    } else {
+        let tenor = Math.max(open.length - closed.length, 1);
+        let startDate = anchor;
+        if (input.type === 'perpanjang_tenor') tenor += parseInt(input.jumlah_bulan, 10);
+        if (input.type === 'ubah_bunga') annualRate = parseFloat(input.bunga_persen);
+        if (input.type === 'penundaan') startDate = addMonths(anchor, parseInt(input.jumlah_bulan, 10));
+
+        schedule = generateSchedule({ principal: outstandingPokok, annualRate, tenor, method, startDate });
+    }
+
+    const payoff = input.type === 'pelunasan_dipercepat';
+    const angsuranBulanan = payoff ? loan.angsuran_bulanan : schedule[0]?.total || 0;
+    if (!payoff && overdueJasa > 0) {
+        schedule[0] = {
+            ...schedule[0],
+            bunga: round2(schedule[0].bunga + overdueJasa),
+            total: round2(schedule[0].total + overdueJasa)
+        };
+    }
+    schedule = schedule.map((row, index) => ({ ...row, angsuran_ke: firstNumber + index }));
+
+    return {
+        closed,
+        schedule,
+        outstanding_pokok: outstandingPokok,
+        overdue_jasa: overdueJasa,
+        future_jasa: futureJasa,
+        rebate_amount: rebate,
+        tenor_before: parseInt(loan.tenor_bulan, 10) || rows.length,
+        tenor_after: paid.length + schedule.length,
+        bunga_before: round2(loan.bunga_persen),
+        bunga_after: round2(annualRate),
+        angsuran_before: round2(loan.angsuran_bulanan),
+        angsuran_after: round2(angsuranBulanan),
+        sisa_before: summarizeSchedule(rows).sisa_tagihan,
+        sisa_after: sumOf(schedule, row => row.total)
+    };
+}
+
+// ==================== PERSISTENCE ====================
+
+// Write a planned restructure inside the caller's transaction. Early payoff also records the
+// payoff payment; its journal is posted by the caller after commit.
+export async function applyRestructure(conn, loan, rows, plan, input, userId) {
+    for (const row of plan.closed) {
+        await conn.execute(
+            `UPDATE loan_schedules SET pokok = ?, bunga = ?, total = ?, status = 'lunas' WHERE id = ?`,
+            [row.pokok, row.bunga, round2(row.pokok + row.bunga), row.id]
+        );
+    }
+    await conn.execute(
+        'DELETE FROM loan_schedules WHERE loan_id = ? AND paid_pokok = 0 AND paid_bunga = 0',
+        [loan.id]
+    );
+    for (const row of plan.schedule) {
+        await conn.execute(
+            `INSERT INTO loan_schedules (id, loan_id, angsuran_ke, due_date, pokok, bunga, total, sisa_pokok)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [uuidv4(), loan.id, row.angsuran_ke, row.due_date, row.pokok, row.bunga, row.total, row.sisa_pokok]
+        );
+    }
+    await conn.execute(
+        'UPDATE loans SET tenor_bulan = ?, bunga_persen = ?, angsuran_bulanan = ? WHERE id = ?',
+        [plan.tenor_after, plan.bunga_after, plan.angsuran_after, loan.id]
+    );
+
+    let paymentId = null;
+    if (input.type === 'pelunasan_dipercepat') {
+        const schedule = await getSchedule(conn, loan.id);
+        const payment = planAllocation(schedule, { amount: plan.sisa_after });
+        const date = toDateString(input.effective_date);
+        paymentId = uuidv4();
+        await conn.execute(
+            `INSERT INTO loan_payments (id, loan_id, angsuran_ke, angsuran_pokok, angsuran_bunga, total_angsuran, sisa_angsuran, tanggal_bayar, status)
+             VALUES (?, ?, ?, ?, ?, ?, 0, ?, 'lunas')`,
+            [paymentId, loan.id, payment.allocations[0].angsuran_ke, payment.pokok, payment.bunga,
+                round2(payment.pokok + payment.bunga), date]
+        );
+        await applyAllocation(conn, paymentId, schedule, payment, date);
+    }
+    await refreshLoanBalance(conn, loan.id);
+
+    const id = uuidv4();
+    const months = input.type === 'perpanjang_tenor' || input.type === 'penundaan' ? parseInt(input.jumlah_bulan, 10) : null;
+    await conn.execute(
+        `INSERT INTO loan_restructures (id, loan_id, type, effective_date, jumlah_bulan, rebate_persen, reason,
+            tenor_before, tenor_after, bunga_before, bunga_after, angsuran_before, angsuran_after,
+            sisa_before, sisa_after, rebate_amount, payment_id, schedule_before, schedule_after, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [id, loan.id, input.type, toDateString(input.effective_date), months,
+            input.type === 'pelunasan_dipercepat' ? parseFloat(input.rebate_persen) || 0 : null,
+            String(input.reason).trim(), plan.tenor_before, plan.tenor_after, plan.bunga_before, plan.bunga_after,
+            plan.angsuran_before, plan.angsuran_after, plan.sisa_before, plan.sisa_after, plan.rebate_amount,
+            paymentId, JSON.stringify(rows), JSON.stringify(await getSchedule(conn, loan.id)), userId]
+    );
+    return { id, payment_id: paymentId };
+}
+
+export async function listRestructures(conn, loanId) {
+    const [rows] = await conn.execute(
+        `SELECT r.*, u.email AS created_by_email
+         FROM loan_restructures r
+         LEFT JOIN users u ON r.created_by = u.id
+         WHERE r.loan_id = ?
+         ORDER BY r.created_at DESC`,
+        [loanId]
+    );
+    return rows.map(row => ({
+        ...row,
+        effective_date: toDateString(row.effective_date),
+        schedule_before: parseJson(row.schedule_before),
+        schedule_after: parseJson(row.schedule_after)
+    }));
+}
@@ -0,0 +1,294 @@
+import { v4 as uuidv4 } from 'uuid';
+import pool from '../config/database.js';
+
+// Loan amortization and payment allocation.
+// bunga_persen adalah jasa per tahun; setiap angsuran jatuh tempo per bulan sejak tanggal pinjaman.
+//   flat    : jasa = pokok awal x bunga/12, pokok dibagi rata
+//   efektif : jasa = sisa pokok x bunga/12, pokok dibagi rata (angsuran menurun)
+//   anuitas : angsuran tetap, porsi jasa menurun dan porsi pokok naik
+// Pembayaran dialokasikan ke angsuran tertua lebih dulu, jasa sebelum pokok.
+
+export const INTEREST_METHODS = ['flat', 'efektif', 'anuitas'];
+
+const round2 = (value) => Math.round((parseFloat(value) || 0) * 100) / 100;
+
+export const toDateString = (value) => {
+    if (!value) return new Date().toISOString().split('T')[0];
+    if (value instanceof Date) {
+        const y = value.getFullYear();
+        const m = String(value.getMonth() + 1).padStart(2, '0');
+        const d = String(value.getDate()).padStart(2, '0');
+        return `${y}-${m}-${d}`;
+    }
+    return String(value).split('T')[0];
+};
+
+// Same day-of-month N months later, clamped to the end of shorter months
+export function addMonths(date, months) {
+    const [y, m, d] = toDateString(date).split('-').map(Number);
+    const target = new Date(Date.UTC(y, m - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(d, lastDay));
+    return target.toISOString().split('T')[0];
+}
+
+export function generateSchedule({ principal, annualRate, tenor, method = 'flat', startDate }) {
+    const amount = round2(principal);
+    const months = parseInt(tenor, 10);
+    const rate = (parseFloat(annualRate) || 0) / 100 / 12;
+    if (!(amount > 0) || !(months > 0)) return [];
+
+    const basePokok = Math.round(amount / months);
+    const annuity = method === 'anuitas' && rate > 0
+        ? Math.round(amount * rate / (1 - Math.pow(1 + rate, -months)))
+        : null;
+
+    const rows = [];
+    let remaining = amount;
+    for (let k = 1; k <= months; k++) {
+        const bunga = method === 'flat'
+            ? Math.round(amount * rate)
+            : Math.round(remaining * rate);
+
+        let pokok = annuity !== null ? annuity - bunga : basePokok;
+        // Angsuran terakhir menutup sisa pokok akibat pembulatan
+        pokok = k === months ? remaining : Math.min(Math.max(pokok, 0), remaining);
+        remaining = round2(remaining - pokok);
+
+        rows.push({
+            angsuran_ke: k,
+            due_date: addMonths(startDate, k),
+            pokok: round2(pokok),
+            bunga,
+            total: round2(pokok + bunga),
+            sisa_pokok: remaining
+        });
+    }
+    return rows;
+}
+
+export function summarizeSchedule(rows) {
+    const totalPokok = round2(rows.reduce((sum, row) => sum + parseFloat(row.pokok), 0));
+    const totalBunga = round2(rows.reduce((sum, row) => sum + parseFloat(row.bunga), 0));
+    const paid = round2(rows.reduce((sum, row) => sum + parseFloat(row.paid_pokok || 0) + parseFloat(row.paid_bunga || 0), 0));
+    return {
+        total_pokok: totalPokok,
+        total_bunga: totalBunga,
+        total_bayar: round2(totalPokok + totalBunga),
+        total_dibayar: paid,
+        sisa_tagihan: round2(totalPokok + totalBunga - paid)
+    };
+}
+
+// Plan how a payment settles the schedule. Pass { amount } to split jasa-then-pokok per installment,
+// or { pokok, bunga } to keep a split that was recorded before the schedule existed.
+export function planAllocation(rows, { amount, pokok, bunga }) {
+    const splitMode = amount === undefined || amount === null;
+    let leftAmount = round2(amount);
+    let leftPokok = round2(pokok);
+    let leftBunga = round2(bunga);
+
+    const allocations = [];
+    for (const row of [...rows].sort((a, b) => a.angsuran_ke - b.angsuran_ke)) {
+        const duePokok = round2(row.pokok - (row.paid_pokok || 0));
+        const dueBunga = round2(row.bunga - (row.paid_bunga || 0));
+        if (duePokok <= 0 && dueBunga <= 0) continue;
+
+        let allocBunga;
+        let allocPokok;
+        if (splitMode) {
+            allocBunga = Math.min(dueBunga, leftBunga);
+            allocPokok = Math.min(duePokok, leftPokok);
+            leftBunga = round2(leftBunga - allocBunga);
+            leftPokok = round2(leftPokok - allocPokok);
+        } else {
+            allocBunga = Math.min(dueBunga, leftAmount);
+            leftAmount = round2(leftAmount - allocBunga);
+            allocPokok = Math.min(duePokok, leftAmount);
+            leftAmount = round2(leftAmount - allocPokok);
+        }
+
+        if (allocBunga > 0 || allocPokok > 0) {
+            allocations.push({
+                schedule_id: row.id,
+                angsuran_ke: row.angsuran_ke,
+                due_date: toDateString(row.due_date),
+                pokok: round2(allocPokok),
+                bunga: round2(allocBunga),
+                settled: allocPokok >= duePokok && allocBunga >= dueBunga
+            });
+        }
+
+        const exhausted = splitMode ? leftPokok <= 0 && leftBunga <= 0 : leftAmount <= 0;
+        if (exhausted) break;
+    }
+
+    return {
+        allocations,
+        pokok: round2(allocations.reduce((sum, a) => sum + a.pokok, 0)),
+        bunga: round2(allocations.reduce((sum, a) => sum + a.bunga, 0)),
+        unallocated: splitMode ? round2(leftPokok + leftBunga) : leftAmount
+    };
+}
+
+// Payment status from its allocation: late if any installment it settles was already due
+export function derivePaymentStatus(plan, paymentDate) {
+    const date = toDateString(paymentDate);
+    if (plan.allocations.some(a => a.due_date < date)) return 'terlambat';
+    const last = plan.allocations[plan.allocations.length - 1];
+    return last && last.settled ? 'lunas' : 'belum_lunas';
+}
+
+// ==================== PERSISTENCE ====================
+// All functions take a connection so callers can run them inside their own transaction.
+
+export async function getSchedule(conn, loanId) {
+    const [rows] = await conn.execute(
+        'SELECT * FROM loan_schedules WHERE loan_id = ? ORDER BY angsuran_ke ASC',
+        [loanId]
+    );
+    return rows.map(row => ({
+        ...row,
+        due_date: toDateString(row.due_date),
+        paid_date: row.paid_date ? toDateString(row.paid_date) : null,
+        pokok: round2(row.pokok),
+        bunga: round2(row.bunga),
+        total: round2(row.total),
+        sisa_pokok: round2(row.sisa_pokok),
+        paid_pokok: round2(row.paid_pokok),
+        paid_bunga: round2(row.paid_bunga)
+    }));
+}
+
+export function scheduleFromLoan(loan) {
+    return generateSchedule({
+        principal: loan.jumlah_pinjaman,
+        annualRate: loan.bunga_persen,
+        tenor: loan.tenor_bulan,
+        method: loan.interest_method || 'flat',
+        startDate: loan.tanggal_pinjaman
+    });
+}
+
+// Replace the whole plan. Only valid while no payment has been allocated to it.
+export async function saveSchedule(conn, loanId, rows) {
+    await conn.execute('DELETE FROM loan_schedules WHERE loan_id = ?', [loanId]);
+    for (const row of rows) {
+        await conn.execute(
+            `INSERT INTO loan_schedules (id, loan_id, angsuran_ke, due_date, pokok, bunga, total, sisa_pokok)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [uuidv4(), loanId, row.angsuran_ke, row.due_date, row.pokok, row.bunga, row.total, row.sisa_pokok]
+        );
+    }
+    return getSchedule(conn, loanId);
+}
+
+export async function applyAllocation(conn, paymentId, rows, plan, paidDate) {
+    for (const allocation of plan.allocations) {
+        const row = rows.find(r => r.id === allocation.schedule_id);
+        row.paid_pokok = round2(row.paid_pokok + allocation.pokok);
+        row.paid_bunga = round2(row.paid_bunga + allocation.bunga);
+        row.status = row.paid_pokok >= row.pokok && row.paid_bunga >= row.bunga ? 'lunas' : 'sebagian';
+        row.paid_date = toDateString(paidDate);
+
+        await conn.execute(
+            `INSERT INTO loan_payment_allocations (id, payment_id, schedule_id, pokok, bunga)
+             VALUES (?, ?, ?, ?, ?)`,
+            [uuidv4(), paymentId, row.id, allocation.pokok, allocation.bunga]
+        );
+        await conn.execute(
+            'UPDATE loan_schedules SET paid_pokok = ?, paid_bunga = ?, status = ?, paid_date = ? WHERE id = ?',
+            [row.paid_pokok, row.paid_bunga, row.status, row.paid_date, row.id]
+        );
+    }
+}
+
+// Undo a payment's allocations (before it is edited or deleted)
+export async function releaseAllocations(conn, paymentId) {
+    const [allocations] = await conn.execute(
+        'SELECT * FROM loan_payment_allocations WHERE payment_id = ?',
+        [paymentId]
+    );
+
+    for (const allocation of allocations) {
+        await conn.execute(
+            `UPDATE loan_schedules SET
+                paid_pokok = GREATEST(paid_pokok - ?, 0),
+                paid_bunga = GREATEST(paid_bunga - ?, 0)
+             WHERE id = ?`,
+            [allocation.pokok, allocation.bunga, allocation.schedule_id]
+        );
+        await conn.execute(
+            `UPDATE loan_schedules SET
+                status = CASE
+                    WHEN paid_pokok >= pokok AND paid_bunga >= bunga THEN 'lunas'
+                    WHEN paid_pokok > 0 OR paid_bunga > 0 THEN 'sebagian'
+                    ELSE 'belum_bayar'
+                END,
+                paid_date = IF(paid_pokok > 0 OR paid_bunga > 0, paid_date, NULL)
+             WHERE id = ?`,
+            [allocation.schedule_id]
+        );
+    }
+
+    await conn.execute('DELETE FROM loan_payment_allocations WHERE payment_id = ?', [paymentId]);
+    return allocations.length;
+}
+
+// Load the plan, generating it for loans created before schedules existed and
+// replaying their recorded payments (keeping the recorded pokok/jasa split).
+export async function ensureSchedule(conn, loan) {
+    const existing = await getSchedule(conn, loan.id);
+    if (existing.length > 0) return existing;
+
+    const rows = await saveSchedule(conn, loan.id, scheduleFromLoan(loan));
+    const [payments] = await conn.execute(
+        'SELECT * FROM loan_payments WHERE loan_id = ? ORDER BY tanggal_bayar ASC, created_at ASC',
+        [loan.id]
+    );
+    for (const payment of payments) {
+        const plan = planAllocation(rows, { pokok: payment.angsuran_pokok, bunga: payment.angsuran_bunga });
+        await applyAllocation(conn, payment.id, rows, plan, payment.tanggal_bayar);
+    }
+    return rows;
+}
+
+// For read paths: the stored plan, or the plan generated once under a lock on the loan, so two
+// reads of a loan without a plan do not both generate it and replay its payments.
+export async function loadSchedule(loanId) {
+    const existing = await getSchedule(pool, loanId);
+    if (existing.length > 0) return existing;
+
+    const conn = await pool.getConnection();
+    try {
+        await conn.beginTransaction();
+        const [loans] = await conn.execute('SELECT * FROM loans WHERE id = ? FOR UPDATE', [loanId]);
+        const rows = loans.length > 0 ? await ensureSchedule(conn, loans[0]) : [];
+        await conn.commit();
+        return rows;
+    } catch (error) {
+        await conn.rollback();
+        throw error;
+    } finally {
+        conn.release();
+    }
+}
+
+// sisa_pinjaman = tagihan (pokok + jasa) yang belum dibayar menurut rencana angsuran
+export async function refreshLoanBalance(conn, loanId) {
+    const rows = await getSchedule(conn, loanId);
+    const { sisa_tagihan: sisa } = summarizeSchedule(rows);
+
+    await conn.execute(
+        `UPDATE loans SET
+            sisa_pinjaman = ?,
+            status = CASE
+                WHEN ? <= 0 AND status = 'aktif' THEN 'lunas'
+                WHEN ? > 0 AND status = 'lunas' THEN 'aktif'
+                ELSE status
+            END
+         WHERE id = ?`,
+        [sisa, sisa, sisa, loanId]
+    );
+    return sisa;
+}
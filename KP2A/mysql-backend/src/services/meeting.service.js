@@ -0,0 +1,170 @@
+import { v4 as uuidv4 } from 'uuid';
+import { toDateString } from './loanSchedule.service.js';
+
+// Rapat anggota dan daftar hadir.
+// Kuorum dihitung terhadap anggota aktif: terpenuhi bila yang hadir lebih dari kuorum_persen
+// (default 50%, yaitu lebih dari separuh). Selama rapat belum ditutup jumlah anggota aktif
+// dihitung langsung; saat ditutup jumlahnya disimpan di jumlah_anggota_aktif.
+
+export const MEETING_TYPES = ['rat', 'rapat_anggota', 'rapat_luar_biasa'];
+const OPEN_STATUSES = ['terjadwal', 'berlangsung'];
+
+export const isOpen = (meeting) => OPEN_STATUSES.includes(meeting.status);
+
+// Returns an error message, or null when the meeting can be saved
+export function validateMeeting(meeting) {
+    if (!meeting.judul || !String(meeting.judul).trim()) {
+        return 'Judul rapat wajib diisi';
+    }
+    if (!meeting.tanggal || Number.isNaN(new Date(meeting.tanggal).getTime())) {
+        return 'Tanggal rapat tidak valid';
+    }
+    if (!meeting.lokasi || !String(meeting.lokasi).trim()) {
+        return 'Lokasi rapat wajib diisi';
+    }
+    if (meeting.jenis && !MEETING_TYPES.includes(meeting.jenis)) {
+        return 'Jenis rapat tidak valid';
+    }
+    if (meeting.kuorum_persen !== undefined && meeting.kuorum_persen !== null) {
+        const persen = parseFloat(meeting.kuorum_persen);
+        if (Number.isNaN(persen) || persen <= 0 || persen >= 100) {
+            return 'Kuorum harus antara 0 dan 100 persen';
+        }
+    }
+    return null;
+}
+
+// Attendance needed for a quorum: strictly more than persen% of the active members
+export function quorumStatus(hadir, totalAnggota, persen) {
+    const required = Math.floor((totalAnggota * parseFloat(persen)) / 100) + 1;
+    return {
+        hadir,
+        total_anggota: totalAnggota,
+        kuorum_persen: parseFloat(persen),
+        dibutuhkan: required,
+        persentase_hadir: totalAnggota > 0 ? Math.round((hadir / totalAnggota) * 10000) / 100 : 0,
+        terpenuhi: hadir >= required
+    };
+}
+
+export async function countActiveMembers(conn) {
+    const [rows] = await conn.execute(
+        "SELECT COUNT(*) AS total FROM members WHERE status_keanggotaan = 'aktif'"
+    );
+    return Number(rows[0].total);
+}
+
+const withQuorum = (meeting, hadir, activeMembers) => ({
+    ...meeting,
+    kuorum_persen: parseFloat(meeting.kuorum_persen),
+    quorum: quorumStatus(hadir, meeting.jumlah_anggota_aktif ?? activeMembers, meeting.kuorum_persen)
+});
+
+// ==================== MEETINGS ====================
+
+export async function listMeetings(conn) {
+    const [rows] = await conn.execute(
+        `SELECT m.*, (SELECT COUNT(*) FROM meeting_attendance a WHERE a.meeting_id = m.id) AS hadir
+         FROM meetings m
+         ORDER BY m.tanggal DESC`
+    );
+    const activeMembers = await countActiveMembers(conn);
+    return rows.map(row => withQuorum(row, Number(row.hadir), activeMembers));
+}
+
+export async function findMeeting(conn, meetingId) {
+    const [rows] = await conn.execute('SELECT * FROM meetings WHERE id = ?', [meetingId]);
+    return rows[0] || null;
+}
+
+export async function listAttendance(conn, meetingId) {
+    const [rows] = await conn.execute(
+        `SELECT a.*, m.nama_lengkap, m.id_anggota, m.alamat, m.no_hp, u.email AS recorded_by_email
+         FROM meeting_attendance a
+         JOIN members m ON a.member_id = m.id
+         LEFT JOIN users u ON a.recorded_by = u.id
+         WHERE a.meeting_id = ?
+         ORDER BY a.check_in_at ASC`,
+        [meetingId]
+    );
+    return rows;
+}
+
+// Meeting with its attendance list and quorum
+export async function getMeetingDetail(conn, meetingId) {
+    const meeting = await findMeeting(conn, meetingId);
+    if (!meeting) return null;
+
+    const attendance = await listAttendance(conn, meetingId);
+    const activeMembers = meeting.jumlah_anggota_aktif ?? await countActiveMembers(conn);
+    return { ...withQuorum(meeting, attendance.length, activeMembers), hadir: attendance.length, attendance };
+}
+
+export async function createMeeting(conn, meeting, userId) {
+    const id = uuidv4();
+    await conn.execute(
+        `INSERT INTO meetings (id, judul, jenis, tanggal, lokasi, agenda, kuorum_persen, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [id, meeting.judul.trim(), meeting.jenis || 'rapat_anggota', meeting.tanggal, meeting.lokasi.trim(),
+            meeting.agenda || null, meeting.kuorum_persen ?? 50, userId]
+    );
+    return id;
+}
+
+export async function updateMeeting(conn, meetingId, meeting) {
+    await conn.execute(
+        `UPDATE meetings SET judul = ?, jenis = ?, tanggal = ?, lokasi = ?, agenda = ?, kuorum_persen = ?
+         WHERE id = ?`,
+        [meeting.judul.trim(), meeting.jenis || 'rapat_anggota', meeting.tanggal, meeting.lokasi.trim(),
+            meeting.agenda || null, meeting.kuorum_persen ?? 50, meetingId]
+    );
+}
+
+// Close the meeting and freeze the number of active members used for the quorum
+export async function closeMeeting(conn, meetingId) {
+    const activeMembers = await countActiveMembers(conn);
+    await conn.execute(
+        "UPDATE meetings SET status = 'selesai', closed_at = NOW(), jumlah_anggota_aktif = ? WHERE id = ?",
+        [activeMembers, meetingId]
+    );
+}
+
+// ==================== ATTENDANCE ====================
+
+// Checks a scanned card against the member_cards table. Returns an error message or null.
+export async function validateCardForCheckIn(conn, memberId, serial, today = toDateString(new Date())) {
+    const [cards] = await conn.execute('SELECT * FROM member_cards WHERE serial = ?', [serial]);
+    const card = cards[0];
+    if (!card || card.member_id !== memberId) {
+        return 'Kartu anggota tidak dikenal';
+    }
+    if (card.status !== 'aktif') {
+        return 'Kartu anggota sudah dicabut atau diganti';
+    }
+    if (toDateString(card.expires_at) < today) {
+        return 'Kartu anggota sudah kedaluwarsa';
+    }
+    return null;
+}
+
+// Record a member as present. The first check-in moves a scheduled meeting to 'berlangsung'.
+export async function checkIn(conn, meeting, { memberId, method, cardSerial }, userId) {
+    const id = uuidv4();
+    await conn.execute(
+        `INSERT INTO meeting_attendance (id, meeting_id, member_id, method, card_serial, recorded_by)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [id, meeting.id, memberId, method, cardSerial || null, userId]
+    );
+    if (meeting.status === 'terjadwal') {
+        await conn.execute("UPDATE meetings SET status = 'berlangsung' WHERE id = ?", [meeting.id]);
+    }
+    return id;
+}
+
+export async function findAttendance(conn, meetingId, memberId) {
+    const [rows] = await conn.execute(
+        'SELECT * FROM meeting_attendance WHERE meeting_id = ? AND member_id = ?',
+        [meetingId, memberId]
+    );
+    return rows[0] || null;
+}
@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { toDateString } from './loanSchedule.service.js';
+
+// Kartu anggota QR bertanda tangan.
+// Isi QR adalah JSON data kartu + tanda tangan ECDSA P-256 (SHA-256, format r||s, base64url)
+// atas canonicalCardData. Pemindai memverifikasi secara offline dengan kunci publik dan daftar
+// serial yang dicabut yang disimpan dari GET /api/member-cards/trust.
+
+export const CARD_PAYLOAD_VERSION = 1;
+const CARD_VALIDITY_YEARS = 3;
+
+// Kunci koperasi dari environment (lihat scripts/generate-card-key.js). null bila belum diatur.
+export function getSigningKey() {
+    const pem = process.env.MEMBER_CARD_PRIVATE_KEY;
+    if (!pem) return null;
+
+    const privateKey = crypto.createPrivateKey(pem.replace(/\\n/g, '\n'));
+    return {
+        kid: process.env.MEMBER_CARD_KEY_ID || 'kp2a-1',
+        privateKey,
+        publicKey: crypto.createPublicKey(privateKey)
+    };
+}
+
+// The exact string that is signed; the scanner rebuilds it from the QR fields
+export function canonicalCardData(card) {
+    return JSON.stringify([
+        card.v,
+        card.kid,
+        card.serial,
+        card.memberId,
+        card.memberName,
+        card.idAnggota || '',
+        card.issuedAt,
+        card.expiresAt
+    ]);
+}
+
+function signCardData(key, data) {
+    return crypto.sign('sha256', Buffer.from(canonicalCardData(data)), {
+        key: key.privateKey,
+        dsaEncoding: 'ieee-p1363'
+    }).toString('base64url');
+}
+
+// Card fields as carried in the QR (without the signature)
+const cardData = (card) => ({
+    v: CARD_PAYLOAD_VERSION,
+    kid: card.key_id,
+    serial: card.serial,
+    memberId: card.member_id,
+    memberName: card.member_name,
+    idAnggota: card.id_anggota || '',
+    issuedAt: toDateString(card.issued_at),
+    expiresAt: toDateString(card.expires_at)
+});
+
+// QR text of a stored card
+export const cardPayload = (card) => JSON.stringify({ ...cardData(card), sig: card.signature });
+
+const withPayload = (card) => ({
+    ...card,
+    issued_at: toDateString(card.issued_at),
+    expires_at: toDateString(card.expires_at),
+    payload: card.status === 'aktif' ? cardPayload(card) : null
+});
+
+// ==================== CARDS ====================
+
+export async function listCards(conn, memberId) {
+    const [rows] = await conn.execute(
+        `SELECT c.*, u.email AS issued_by_email
+         FROM member_cards c
+         LEFT JOIN users u ON c.issued_by = u.id
+         WHERE c.member_id = ?
+         ORDER BY c.created_at DESC`,
+        [memberId]
+    );
+    return rows.map(withPayload);
+}
+
+export async function getActiveCard(conn, memberId) {
+    const [rows] = await conn.execute(
+        "SELECT * FROM member_cards WHERE member_id = ? AND status = 'aktif' ORDER BY created_at DESC LIMIT 1",
+        [memberId]
+    );
+    return rows[0] ? withPayload(rows[0]) : null;
+}
+
+// Issue a new card; the member's current card is replaced (and so revoked)
+export async function issueCard(conn, member, key, userId) {
+    await conn.execute(
+        `UPDATE member_cards SET status = 'diganti', revoked_at = NOW(), revoked_by = ?, revoke_reason = 'Diterbitkan ulang'
+         WHERE member_id = ? AND status = 'aktif'`,
+        [userId, member.id]
+    );
+
+    const issued = new Date();
+    const expires = new Date(issued);
+    expires.setFullYear(expires.getFullYear() + CARD_VALIDITY_YEARS);
+
+    const card = {
+        id: uuidv4(),
+        member_id: member.id,
+        serial: crypto.randomBytes(5).toString('hex').toUpperCase(),
+        key_id: key.kid,
+        member_name: member.nama_lengkap,
+        id_anggota: member.id_anggota || null,
+        issued_at: toDateString(issued),
+        expires_at: toDateString(expires)
+    };
+    card.signature = signCardData(key, cardData(card));
+
+    await conn.execute(
+        `INSERT INTO member_cards (id, member_id, serial, key_id, member_name, id_anggota, issued_at, expires_at, signature, issued_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [card.id, card.member_id, card.serial, card.key_id, card.member_name, card.id_anggota,
+            card.issued_at, card.expires_at, card.signature, userId]
+    );
+
+    return withPayload({ ...card, status: 'aktif' });
+}
+
+export async function revokeCard(conn, cardId, reason, userId) {
+    await conn.execute(
+        `UPDATE member_cards SET status = 'dicabut', revoked_at = NOW(), revoked_by = ?, revoke_reason = ?
+         WHERE id = ?`,
+        [userId, reason, cardId]
+    );
+}
+
+// ==================== TRUST ====================
+
+// Everything a scanner needs to verify cards offline
+export async function getTrustBundle(conn, key) {
+    const [rows] = await conn.execute(
+        "SELECT serial FROM member_cards WHERE status <> 'aktif' ORDER BY serial ASC"
+    );
+    return {
+        kid: key.kid,
+        alg: 'ES256',
+        public_key: key.publicKey.export({ format: 'jwk' }),
+        revoked: rows.map(row => row.serial),
+        generated_at: new Date().toISOString()
+    };
+}
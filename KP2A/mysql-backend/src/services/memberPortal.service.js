@@ -0,0 +1,112 @@
+import { loadSchedule, summarizeSchedule, toDateString } from './loanSchedule.service.js';
+
+// Data for the member self-service portal. Every function takes the member id from the
+// caller's token; none of them accept a member chosen by the client.
+
+const round2 = (value) => Math.round((parseFloat(value) || 0) * 100) / 100;
+
+// Simpanan dana pinjaman dicatat dengan jenis yang memuat "pinjaman" (mis. dana_pinjaman);
+// simpanan lain serta simpanan wajib dan sukarela dari iuran masuk simpanan operasional.
+const isLoanFund = (type) => /pinjaman/i.test(type || '');
+
+export async function getMemberProfile(conn, memberId) {
+    const [rows] = await conn.execute(
+        `SELECT id, id_anggota, nama_lengkap, nik, alamat, no_hp, jabatan, status_keanggotaan, tanggal_masuk
+         FROM members WHERE id = ?`,
+        [memberId]
+    );
+    return rows[0] || null;
+}
+
+// Balances in the shape of MemberSavings on the frontend
+export async function getSavingsSummary(conn, member) {
+    const [savings] = await conn.execute(
+        'SELECT type, amount, transaction_date FROM savings WHERE member_id = ?',
+        [member.id]
+    );
+    const [[dues]] = await conn.execute(
+        `SELECT COALESCE(SUM(COALESCE(simpanan_wajib, 0) + COALESCE(iuran_sukarela, 0)), 0) AS total,
+            MAX(tanggal_bayar) AS last_paid
+         FROM dues WHERE member_id = ? AND status = 'lunas'`,
+        [member.id]
+    );
+
+    const loanFund = round2(savings.filter(s => isLoanFund(s.type)).reduce((sum, s) => sum + parseFloat(s.amount), 0));
+    const operational = round2(
+        savings.filter(s => !isLoanFund(s.type)).reduce((sum, s) => sum + parseFloat(s.amount), 0) + parseFloat(dues.total)
+    );
+    const dates = [...savings.map(s => toDateString(s.transaction_date)), dues.last_paid ? toDateString(dues.last_paid) : ''];
+
+    return {
+        id: member.id,
+        memberId: member.id,
+        memberName: member.nama_lengkap,
+        operationalSavings: operational,
+        loanFundSavings: loanFund,
+        total: round2(operational + loanFund),
+        lastUpdated: dates.reduce((max, date) => (date > max ? date : max), '') || null
+    };
+}
+
+export async function listSavings(conn, memberId) {
+    const [rows] = await conn.execute(
+        `SELECT id, type, amount, description, transaction_date, reference_type, created_at
+         FROM savings WHERE member_id = ?
+         ORDER BY transaction_date DESC, created_at DESC`,
+        [memberId]
+    );
+    return rows.map(row => ({ ...row, amount: round2(row.amount), fund: isLoanFund(row.type) ? 'dana_pinjaman' : 'operasional' }));
+}
+
+export async function listDues(conn, memberId) {
+    const [rows] = await conn.execute(
+        `SELECT id, bulan, tahun, iuran_wajib, iuran_sukarela, simpanan_wajib, tanggal_bayar, status
+         FROM dues WHERE member_id = ?
+         ORDER BY tahun DESC, bulan DESC`,
+        [memberId]
+    );
+    return rows;
+}
+
+// Loans with their amortization plan; rejected applications are left out
+export async function listLoans(conn, memberId) {
+    const [loans] = await conn.execute(
+        `SELECT * FROM loans WHERE member_id = ? AND status <> 'ditolak'
+         ORDER BY tanggal_pinjaman DESC`,
+        [memberId]
+    );
+
+    const result = [];
+    for (const loan of loans) {
+        const schedule = await loadSchedule(loan.id);
+        result.push({
+            ...loan,
+            schedule,
+            ...summarizeSchedule(schedule),
+            next_installment: schedule.find(row => row.status !== 'lunas') || null
+        });
+    }
+    return result;
+}
+
+// Posted SHU statements, newest year first
+export async function listShuStatements(conn, memberId) {
+    const [rows] = await conn.execute(
+        `SELECT s.id, d.year, d.shu_amount, d.posted_at, s.modal_basis, s.interest_basis, s.jasa_modal,
+            s.jasa_pinjaman, s.total, s.payout_method, s.paid_at
+         FROM shu_member_shares s
+         JOIN shu_distributions d ON s.distribution_id = d.id
+         WHERE s.member_id = ?
+         ORDER BY d.year DESC`,
+        [memberId]
+    );
+    return rows.map(row => ({
+        ...row,
+        shu_amount: round2(row.shu_amount),
+        modal_basis: round2(row.modal_basis),
+        interest_basis: round2(row.interest_basis),
+        jasa_modal: round2(row.jasa_modal),
+        jasa_pinjaman: round2(row.jasa_pinjaman),
+        total: round2(row.total)
+    }));
+}
@@ -0,0 +1,271 @@
+import { v4 as uuidv4 } from 'uuid';
+import { postPenaltyJournal } from './journal.service.js';
+import { postCashMovement } from './cashBank.service.js';
+
+// Denda keterlambatan angsuran pinjaman dan iuran.
+// Denda dihitung dari nilai tagihan (total angsuran / iuran wajib + simpanan wajib) untuk hari
+// keterlambatan setelah masa tenggang. Tagihan yang dilunasi terlambat tetap didenda sampai
+// tanggal pelunasannya; tagihan yang belum dibayar terus bertambah dendanya sampai hari ini.
+
+export const PENALTY_TARGETS = ['loan', 'dues'];
+export const PENALTY_METHODS = ['flat', 'harian'];
+
+const DEFAULT_RULES = {
+    loan: { target: 'loan', grace_days: 7, method: 'harian', rate: 0.1, max_amount: null, due_day: 10, is_active: false },
+    dues: { target: 'dues', grace_days: 10, method: 'flat', rate: 5000, max_amount: null, due_day: 10, is_active: false }
+};
+
+const round2 = (value) => Math.round((parseFloat(value) || 0) * 100) / 100;
+
+const toDateString = (value) => {
+    if (!value) return new Date().toISOString().split('T')[0];
+    if (value instanceof Date) {
+        const y = value.getFullYear();
+        const m = String(value.getMonth() + 1).padStart(2, '0');
+        const d = String(value.getDate()).padStart(2, '0');
+        return `${y}-${m}-${d}`;
+    }
+    return String(value).split('T')[0];
+};
+
+const daysBetween = (from, to) => {
+    const start = Date.parse(`${toDateString(from)}T00:00:00Z`);
+    const end = Date.parse(`${toDateString(to)}T00:00:00Z`);
+    return Math.round((end - start) / 86400000);
+};
+
+// Returns an error message, or null when the rule is usable
+export function validateRule(rule) {
+    if (!PENALTY_METHODS.includes(rule.method)) {
+        return 'Metode denda harus flat atau harian';
+    }
+    const grace = parseInt(rule.grace_days, 10);
+    if (!Number.isInteger(grace) || grace < 0) {
+        return 'Masa tenggang tidak valid';
+    }
+    const rate = parseFloat(rule.rate);
+    if (Number.isNaN(rate) || rate < 0) {
+        return 'Nilai denda tidak valid';
+    }
+    if (rule.method === 'harian' && rate > 100) {
+        return 'Persentase denda harian tidak boleh lebih dari 100%';
+    }
+    if (rule.max_amount !== undefined && rule.max_amount !== null && rule.max_amount !== '' && !(parseFloat(rule.max_amount) >= 0)) {
+        return 'Batas maksimum denda tidak valid';
+    }
+    const dueDay = parseInt(rule.due_day ?? 10, 10);
+    if (!Number.isInteger(dueDay) || dueDay < 1 || dueDay > 31) {
+        return 'Tanggal jatuh tempo iuran harus 1-31';
+    }
+    return null;
+}
+
+// Penalty of one bill. settledDate is the day it was fully paid (null = still unpaid).
+export function computePenalty(rule, { dueDate, settledDate, asOf, base }) {
+    const end = settledDate ? toDateString(settledDate) : toDateString(asOf);
+    const daysLate = Math.max(daysBetween(dueDate, end) - (parseInt(rule.grace_days, 10) || 0), 0);
+    if (!rule.is_active || daysLate <= 0) {
+        return { days_late: daysLate, amount: 0 };
+    }
+
+    let amount = rule.method === 'flat'
+        ? round2(rule.rate)
+        : Math.round(round2(base) * (parseFloat(rule.rate) || 0) / 100 * daysLate);
+    if (rule.max_amount !== null && rule.max_amount !== undefined && rule.max_amount !== '') {
+        amount = Math.min(amount, round2(rule.max_amount));
+    }
+    return { days_late: daysLate, amount: round2(amount) };
+}
+
+// Iuran bulan M tahun Y jatuh tempo pada tanggal due_day (dibatasi akhir bulan)
+export function duesDueDate(rule, bulan, tahun) {
+    const lastDay = new Date(Date.UTC(tahun, bulan, 0)).getUTCDate();
+    const day = Math.min(parseInt(rule.due_day, 10) || 10, lastDay);
+    return `${tahun}-${String(bulan).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// ==================== RULES ====================
+
+export async function getRules(conn) {
+    const [rows] = await conn.execute('SELECT * FROM penalty_rules');
+    const rules = { ...DEFAULT_RULES };
+    for (const row of rows) {
+        rules[row.target] = {
+            ...row,
+            grace_days: parseInt(row.grace_days, 10),
+            rate: parseFloat(row.rate),
+            max_amount: row.max_amount === null ? null : parseFloat(row.max_amount),
+            due_day: parseInt(row.due_day, 10),
+            is_active: Boolean(row.is_active)
+        };
+    }
+    return rules;
+}
+
+export async function saveRule(conn, target, rule, userId) {
+    const maxAmount = rule.max_amount === undefined || rule.max_amount === null || rule.max_amount === ''
+        ? null
+        : rule.max_amount;
+    await conn.execute(
+        `INSERT INTO penalty_rules (target, grace_days, method, rate, max_amount, due_day, is_active, updated_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE grace_days = VALUES(grace_days), method = VALUES(method), rate = VALUES(rate),
+            max_amount = VALUES(max_amount), due_day = VALUES(due_day), is_active = VALUES(is_active),
+            updated_by = VALUES(updated_by)`,
+        [target, parseInt(rule.grace_days, 10), rule.method, rule.rate, maxAmount,
+            parseInt(rule.due_day ?? 10, 10), rule.is_active === false ? 0 : 1, userId]
+    );
+    return (await getRules(conn))[target];
+}
+
+// ==================== ACCRUAL ====================
+
+// Recalculate every unpaid penalty as of a date. Paid or waived penalties are frozen.
+export async function accruePenalties(conn, asOf = new Date()) {
+    const today = toDateString(asOf);
+    const rules = await getRules(conn);
+    const computed = [];
+
+    const [installments] = await conn.execute(
+        `SELECT s.id, s.loan_id, s.due_date, s.total, s.status, s.paid_date, l.member_id
+         FROM loan_schedules s
+         JOIN loans l ON s.loan_id = l.id
+         WHERE l.status IN ('aktif', 'lunas') AND s.due_date < ?`,
+        [today]
+    );
+    for (const row of installments) {
+        const { days_late, amount } = computePenalty(rules.loan, {
+            dueDate: row.due_date,
+            settledDate: row.status === 'lunas' ? row.paid_date : null,
+            asOf: today,
+            base: row.total
+        });
+        if (amount > 0) {
+            computed.push({
+                source_type: 'loan_schedule', source_id: row.id, member_id: row.member_id, loan_id: row.loan_id,
+                due_date: toDateString(row.due_date), days_late, base_amount: round2(row.total), amount
+            });
+        }
+    }
+
+    const [dues] = await conn.execute(
+        `SELECT id, member_id, bulan, tahun, status, tanggal_bayar,
+            COALESCE(iuran_wajib, 0) + COALESCE(simpanan_wajib, 0) AS base
+         FROM dues`
+    );
+    for (const row of dues) {
+        const dueDate = duesDueDate(rules.dues, row.bulan, row.tahun);
+        if (dueDate >= today) continue;
+        const { days_late, amount } = computePenalty(rules.dues, {
+            dueDate,
+            settledDate: row.status === 'lunas' ? row.tanggal_bayar : null,
+            asOf: today,
+            base: row.base
+        });
+        if (amount > 0) {
+            computed.push({
+                source_type: 'due', source_id: row.id, member_id: row.member_id, loan_id: null,
+                due_date: dueDate, days_late, base_amount: round2(row.base), amount
+            });
+        }
+    }
+
+    const [existing] = await conn.execute('SELECT id, source_type, source_id, status FROM penalties');
+    const byKey = new Map(existing.map(p => [`${p.source_type}:${p.source_id}`, p]));
+    const keep = new Set();
+
+    for (const penalty of computed) {
+        const key = `${penalty.source_type}:${penalty.source_id}`;
+        const current = byKey.get(key);
+        keep.add(key);
+        if (current && current.status !== 'belum_bayar') continue;
+
+        if (current) {
+            await conn.execute(
+                'UPDATE penalties SET due_date = ?, days_late = ?, base_amount = ?, amount = ? WHERE id = ?',
+                [penalty.due_date, penalty.days_late, penalty.base_amount, penalty.amount, current.id]
+            );
+        } else {
+            await conn.execute(
+                `INSERT INTO penalties (id, source_type, source_id, member_id, loan_id, due_date, days_late, base_amount, amount)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [uuidv4(), penalty.source_type, penalty.source_id, penalty.member_id, penalty.loan_id,
+                    penalty.due_date, penalty.days_late, penalty.base_amount, penalty.amount]
+            );
+        }
+    }
+
+    // Unpaid penalties whose bill no longer qualifies (paid within grace after an edit,
+    // bill deleted, rule deactivated) are dropped
+    for (const penalty of existing) {
+        if (penalty.status === 'belum_bayar' && !keep.has(`${penalty.source_type}:${penalty.source_id}`)) {
+            await conn.execute('DELETE FROM penalties WHERE id = ?', [penalty.id]);
+        }
+    }
+
+    return computed.length;
+}
+
+export async function listPenalties(conn, { source, memberId, loanId, status } = {}) {
+    let query = `
+        SELECT p.*, m.nama_lengkap, m.id_anggota,
+            s.angsuran_ke, d.bulan, d.tahun
+        FROM penalties p
+        JOIN members m ON p.member_id = m.id
+        LEFT JOIN loan_schedules s ON p.source_type = 'loan_schedule' AND p.source_id = s.id
+        LEFT JOIN dues d ON p.source_type = 'due' AND p.source_id = d.id
+        WHERE 1=1`;
+    const params = [];
+
+    if (source) {
+        query += ' AND p.source_type = ?';
+        params.push(source === 'loan' ? 'loan_schedule' : 'due');
+    }
+    if (memberId) {
+        query += ' AND p.member_id = ?';
+        params.push(memberId);
+    }
+    if (loanId) {
+        query += ' AND p.loan_id = ?';
+        params.push(loanId);
+    }
+    if (status) {
+        query += ' AND p.status = ?';
+        params.push(status);
+    }
+    query += ' ORDER BY p.due_date DESC, m.nama_lengkap ASC';
+
+    const [rows] = await conn.execute(query, params);
+    return rows;
+}
+
+// ==================== SETTLEMENT ====================
+
+export async function payPenalty(conn, penalty, { paidDate, cashAccountId, userId }) {
+    await conn.execute(
+        `UPDATE penalties SET status = 'lunas', paid_date = ?, cash_account_id = ?, paid_by = ? WHERE id = ?`,
+        [paidDate, cashAccountId, userId, penalty.id]
+    );
+
+    const paid = { ...penalty, status: 'lunas', paid_date: paidDate, cash_account_id: cashAccountId, paid_by: userId };
+    await postPenaltyJournal(conn, paid);
+
+    if (cashAccountId) {
+        await postCashMovement(conn, {
+            accountId: cashAccountId,
+            sourceType: 'penalty',
+            sourceId: penalty.id,
+            direction: 'in',
+            amount: round2(penalty.amount),
+            entryDate: paidDate,
+            description: `Denda keterlambatan${penalty.nama_lengkap ? ` - ${penalty.nama_lengkap}` : ''}`
+        });
+    }
+}
+
+export async function waivePenalty(conn, penalty, { reason, userId }) {
+    await conn.execute(
+        `UPDATE penalties SET status = 'dihapuskan', waived_reason = ?, waived_by = ?, waived_at = NOW() WHERE id = ?`,
+        [reason, userId, penalty.id]
+    );
+}
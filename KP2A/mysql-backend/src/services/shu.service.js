@@ -0,0 +1,309 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ACCOUNTS, getAccountBalances, postJournal, postSavingsJournal } from './journal.service.js';
+import { postCashMovement } from './cashBank.service.js';
+
+// SHU (Sisa Hasil Usaha) tahunan.
+// SHU = pendapatan - beban tahun buku dari buku besar, dibagi menurut skema persentase.
+// Komponen dengan basis 'modal' dibagi ke anggota sebanding saldo modal & simpanan per akhir tahun,
+// basis 'jasa_pinjaman' sebanding bunga pinjaman yang dibayar selama tahun tersebut.
+
+export const MEMBER_BASES = ['modal', 'jasa_pinjaman'];
+
+const round2 = (value) => Math.round((parseFloat(value) || 0) * 100) / 100;
+
+const yearRange = (year) => ({ start: `${year}-01-01`, end: `${year}-12-31` });
+
+// Returns an error message, or null when the scheme is usable
+export function validateScheme(components) {
+    if (!Array.isArray(components) || components.length === 0) {
+        return 'Skema SHU harus memiliki minimal satu komponen';
+    }
+
+    const keys = new Set();
+    for (const component of components) {
+        if (!component.key || !component.label || !component.account_code) {
+            return 'Setiap komponen wajib memiliki key, label dan account_code';
+        }
+        if (keys.has(component.key)) {
+            return `Komponen "${component.key}" duplikat`;
+        }
+        keys.add(component.key);
+
+        const percent = parseFloat(component.percent);
+        if (Number.isNaN(percent) || percent < 0) {
+            return `Persentase komponen "${component.label}" tidak valid`;
+        }
+        if (component.basis && !MEMBER_BASES.includes(component.basis)) {
+            return `Basis komponen "${component.label}" tidak dikenal`;
+        }
+    }
+
+    const total = components.reduce((sum, component) => sum + parseFloat(component.percent), 0);
+    if (Math.abs(total - 100) > 0.001) {
+        return `Total persentase harus 100% (saat ini ${round2(total)}%)`;
+    }
+    return null;
+}
+
+// Split the SHU over the scheme components and member bases. Amounts are whole rupiah;
+// rounding remainders and member portions without any basis go to the reserve component.
+export function allocateShu(shuAmount, components, members) {
+    const total = Math.max(0, Math.floor(parseFloat(shuAmount) || 0));
+
+    let allocated = 0;
+    const parts = components.map(component => {
+        const amount = Math.floor(total * parseFloat(component.percent) / 100);
+        allocated += amount;
+        return { ...component, percent: parseFloat(component.percent), amount, member_total: 0 };
+    });
+    const reserve = parts.find(part => !part.basis) || null;
+    if (parts.length > 0) {
+        (reserve || parts[0]).amount += total - allocated;
+    }
+
+    const shares = members.map(member => ({
+        ...member,
+        modal_basis: round2(member.modal_basis),
+        interest_basis: round2(member.interest_basis),
+        jasa_modal: 0,
+        jasa_pinjaman: 0,
+        total: 0
+    }));
+
+    for (const part of parts.filter(p => p.basis)) {
+        const basisField = part.basis === 'modal' ? 'modal_basis' : 'interest_basis';
+        const shareField = part.basis === 'modal' ? 'jasa_modal' : 'jasa_pinjaman';
+        const basisTotal = shares.reduce((sum, share) => sum + Math.max(0, share[basisField]), 0);
+        if (basisTotal <= 0) continue;
+
+        for (const share of shares) {
+            const amount = Math.floor(part.amount * Math.max(0, share[basisField]) / basisTotal);
+            share[shareField] += amount;
+            part.member_total += amount;
+        }
+    }
+
+    for (const share of shares) {
+        share.total = share.jasa_modal + share.jasa_pinjaman;
+    }
+
+    const unallocated = parts
+        .filter(part => part.basis)
+        .reduce((sum, part) => sum + (part.amount - part.member_total), 0);
+
+    return {
+        shu_amount: total,
+        components: parts,
+        members: shares.filter(share => share.total > 0 || share.modal_basis > 0 || share.interest_basis > 0),
+        total_member_share: shares.reduce((sum, share) => sum + share.total, 0),
+        unallocated,
+        reserve_account: reserve ? reserve.account_code : ACCOUNTS.SHU_DITAHAN
+    };
+}
+
+export async function getScheme(conn, year) {
+    const [rows] = await conn.execute(
+        'SELECT * FROM shu_schemes WHERE year IN (?, 0) ORDER BY year DESC LIMIT 1',
+        [year]
+    );
+    if (rows.length === 0) return { year, is_default: true, components: [] };
+
+    const components = typeof rows[0].components === 'string' ? JSON.parse(rows[0].components) : rows[0].components;
+    return { year, is_default: rows[0].year !== year, components };
+}
+
+export async function saveScheme(conn, year, components, userId) {
+    await conn.execute(
+        `INSERT INTO shu_schemes (year, components, updated_by) VALUES (?, ?, ?)
+         ON DUPLICATE KEY UPDATE components = VALUES(components), updated_by = VALUES(updated_by)`,
+        [year, JSON.stringify(components), userId]
+    );
+    return getScheme(conn, year);
+}
+
+// Income and expense balances of the fiscal year, excluding the SHU closing journal itself
+export async function getYearResult(conn, year) {
+    const { start, end } = yearRange(year);
+    const balances = await getAccountBalances(conn, { start, asOf: end, excludeSourceTypes: ['shu_distribution'] });
+    const accounts = balances.filter(a => (a.type === 'income' || a.type === 'expense') && a.balance !== 0);
+
+    const income = round2(accounts.filter(a => a.type === 'income').reduce((sum, a) => sum + a.balance, 0));
+    const expense = round2(accounts.filter(a => a.type === 'expense').reduce((sum, a) => sum + a.balance, 0));
+    return { income, expense, shu: round2(income - expense), accounts };
+}
+
+// Modal & simpanan per akhir tahun dan bunga pinjaman yang dibayar selama tahun berjalan
+export async function getMemberBases(conn, year) {
+    const { start, end } = yearRange(year);
+    const [rows] = await conn.execute(
+        `SELECT m.id AS member_id, m.nama_lengkap, m.id_anggota,
+            COALESCE((SELECT SUM(COALESCE(d.iuran_wajib, 0) + COALESCE(d.simpanan_wajib, 0) + COALESCE(d.iuran_sukarela, 0))
+                      FROM dues d
+                      WHERE d.member_id = m.id AND d.status = 'lunas' AND d.tanggal_bayar <= ?), 0)
+            + COALESCE((SELECT SUM(s.amount) FROM savings s
+                        WHERE s.member_id = m.id AND s.transaction_date <= ?), 0) AS modal_basis,
+            COALESCE((SELECT SUM(lp.angsuran_bunga)
+                      FROM loan_payments lp JOIN loans l ON lp.loan_id = l.id
+                      WHERE l.member_id = m.id AND lp.tanggal_bayar BETWEEN ? AND ?), 0) AS interest_basis
+         FROM members m
+         WHERE m.status_keanggotaan = 'aktif'
+         ORDER BY m.nama_lengkap ASC`,
+        [end, end, start, end]
+    );
+    return rows;
+}
+
+export async function getDistribution(conn, year) {
+    const [distributions] = await conn.execute('SELECT * FROM shu_distributions WHERE year = ?', [year]);
+    if (distributions.length === 0) return null;
+
+    const distribution = distributions[0];
+    const [shares] = await conn.execute(
+        `SELECT s.*, m.nama_lengkap, m.id_anggota
+         FROM shu_member_shares s
+         JOIN members m ON s.member_id = m.id
+         WHERE s.distribution_id = ?
+         ORDER BY m.nama_lengkap ASC`,
+        [distribution.id]
+    );
+
+    return {
+        ...distribution,
+        components: typeof distribution.components === 'string' ? JSON.parse(distribution.components) : distribution.components,
+        members: shares
+    };
+}
+
+// Preview (or the posted result, if the year has already been distributed)
+export async function calculateShu(conn, year) {
+    const [scheme, result, members, distribution] = await Promise.all([
+        getScheme(conn, year),
+        getYearResult(conn, year),
+        getMemberBases(conn, year),
+        getDistribution(conn, year)
+    ]);
+
+    return {
+        year,
+        scheme,
+        income: result.income,
+        expense: result.expense,
+        accounts: result.accounts,
+        ...allocateShu(result.shu, scheme.components, members),
+        distribution
+    };
+}
+
+// Close the year's income/expense into the SHU allocation accounts and store member shares.
+// The caller validates the scheme and year result (see getScheme/getYearResult) and owns the transaction.
+export async function postShuDistribution(conn, year, scheme, result, userId) {
+    const members = await getMemberBases(conn, year);
+    const allocation = allocateShu(result.shu, scheme.components, members);
+
+    const id = uuidv4();
+    await conn.execute(
+        `INSERT INTO shu_distributions (id, year, shu_amount, components, total_member_share, posted_by)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [id, year, allocation.shu_amount, JSON.stringify(allocation.components), allocation.total_member_share, userId]
+    );
+
+    for (const share of allocation.members.filter(m => m.total > 0)) {
+        await conn.execute(
+            `INSERT INTO shu_member_shares (id, distribution_id, member_id, modal_basis, interest_basis, jasa_modal, jasa_pinjaman, total)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [uuidv4(), id, share.member_id, share.modal_basis, share.interest_basis, share.jasa_modal, share.jasa_pinjaman, share.total]
+        );
+    }
+
+    // Tutup pendapatan/beban tahun berjalan, lalu kreditkan ke akun alokasi
+    const lines = result.accounts.map(account => {
+        const closeDebit = account.type === 'income' ? account.balance > 0 : account.balance < 0;
+        const amount = Math.abs(account.balance);
+        return {
+            account: account.code,
+            debit: closeDebit ? amount : 0,
+            credit: closeDebit ? 0 : amount,
+            memo: 'Penutupan tahun buku'
+        };
+    });
+
+    for (const part of allocation.components) {
+        lines.push({
+            account: part.account_code,
+            debit: 0,
+            credit: part.basis ? part.member_total : part.amount,
+            memo: part.label
+        });
+    }
+    lines.push({ account: allocation.reserve_account, debit: 0, credit: allocation.unallocated, memo: 'Sisa pembagian jasa anggota' });
+    lines.push({ account: ACCOUNTS.SHU_DITAHAN, debit: 0, credit: round2(result.shu - allocation.shu_amount), memo: 'Pembulatan SHU' });
+
+    await postJournal(conn, {
+        entryDate: `${year}-12-31`,
+        description: `Pembagian SHU tahun ${year}`,
+        sourceType: 'shu_distribution',
+        sourceId: id,
+        createdBy: userId,
+        lines
+    });
+
+    return getDistribution(conn, year);
+}
+
+// Pay a member's share in cash or credit it to Simpanan Sukarela. Caller owns the transaction.
+export async function payoutShare(conn, share, { year, method, cashAccountId, entryDate, userId }) {
+    const amount = round2(share.total);
+    const description = `SHU tahun ${year}`;
+
+    if (method === 'simpanan') {
+        const savingsId = uuidv4();
+        await conn.execute(
+            `INSERT INTO savings (id, member_id, type, amount, description, transaction_date, reference_type, reference_id, created_by)
+             VALUES (?, ?, 'Simpanan Sukarela', ?, ?, ?, 'shu_distribution', ?, ?)`,
+            [savingsId, share.member_id, amount, description, entryDate, share.distribution_id, userId]
+        );
+        const [[saving]] = await conn.execute('SELECT * FROM savings WHERE id = ?', [savingsId]);
+        await postSavingsJournal(conn, saving);
+
+        await conn.execute(
+            `UPDATE shu_member_shares SET payout_method = 'simpanan', savings_id = ?, paid_at = NOW(), paid_by = ? WHERE id = ?`,
+            [savingsId, userId, share.id]
+        );
+        return;
+    }
+
+    const [linked] = cashAccountId
+        ? await conn.execute('SELECT code, cash_bank_account_id FROM chart_of_accounts WHERE cash_bank_account_id = ?', [cashAccountId])
+        : await conn.execute('SELECT code, cash_bank_account_id FROM chart_of_accounts WHERE code = ?', [ACCOUNTS.KAS]);
+    const cashCode = linked[0]?.code || ACCOUNTS.KAS;
+    const cashBankAccountId = cashAccountId || linked[0]?.cash_bank_account_id || null;
+
+    await postJournal(conn, {
+        entryDate,
+        description: `Pembayaran ${description}${share.nama_lengkap ? ` - ${share.nama_lengkap}` : ''}`,
+        sourceType: 'shu_payout',
+        sourceId: share.id,
+        createdBy: userId,
+        lines: [
+            { account: ACCOUNTS.UTANG_SHU, debit: amount, credit: 0 },
+            { account: cashCode, debit: 0, credit: amount }
+        ]
+    });
+
+    if (cashBankAccountId) {
+        await postCashMovement(conn, {
+            accountId: cashBankAccountId,
+            sourceType: 'shu_payout',
+            sourceId: share.id,
+            direction: 'out',
+            amount,
+            entryDate,
+            description
+        });
+    }
+
+    await conn.execute(
+        `UPDATE shu_member_shares SET payout_method = 'tunai', paid_at = NOW(), paid_by = ? WHERE id = ?`,
+        [userId, share.id]
+    );
+}
@@ -0,0 +1,29 @@
+// Sinkronisasi data yang dicatat saat offline (iuran, angsuran, pengeluaran).
+// Setiap baris memiliki version; perubahan dari antrean offline membawa expected_version dan
+// ditolak bila baris sudah diubah orang lain sejak data diambil. Data baru membawa client_ref
+// agar pengiriman ulang (misalnya respons hilang karena sinyal putus) tidak membuat baris ganda.
+
+export const CONFLICT_MESSAGE = 'Data sudah diubah oleh pengguna lain sejak terakhir diambil';
+
+const SYNC_TABLES = ['dues', 'loan_payments', 'expenses'];
+
+// expected_version from the body or query string; null when the client did not send one
+export function expectedVersion(source) {
+    const value = source?.expected_version;
+    if (value === undefined || value === null || value === '') return null;
+    const version = parseInt(value, 10);
+    return Number.isNaN(version) ? null : version;
+}
+
+// Extra WHERE condition for an UPDATE/DELETE so it only matches the version the client edited.
+// A row changed in the meantime is then left alone and the statement affects no rows (409).
+export const versionGuard = (expected) => expected === null
+    ? { clause: '', params: [] }
+    : { clause: ' AND version = ?', params: [expected] };
+
+// Row already created from the same queued entry, if any
+export async function findByClientRef(conn, table, clientRef) {
+    if (!clientRef || !SYNC_TABLES.includes(table)) return null;
+    const [rows] = await conn.execute(`SELECT id FROM ${table} WHERE client_ref = ?`, [clientRef]);
+    return rows[0] || null;
+}
@@ -2,6 +2,7 @@ import React from 'react'
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom'
 import { Toaster } from 'react-hot-toast'
 import { AuthProvider, useAuth } from './contexts/AuthContext'
+import type { AuthUser } from './lib/api'
 import { NotificationProvider } from './contexts/NotificationContext'
 import { ThemeProvider } from './contexts/ThemeContext'
 import { AuthPage } from './components/Auth/AuthPage'
@@ -12,16 +13,21 @@ import { DuesPage } from './components/Dues/DuesPage'
 import { LoansPage } from './components/Loans/LoansPage'
 import { LoanPaymentsPage } from './components/Loans/LoanPaymentsPage'
 import { LoanSchedulePage } from './components/Loans/LoanSchedulePage'
+import { LoanApplicationsPage } from './components/Loans/LoanApplicationsPage'
 import { CashBookPage } from './components/Expenses/CashBookPage'
 import { TransactionPage } from './components/Expenses/TransactionPage'
 import { CashBankManagementPage } from './components/CashBank/CashBankManagementPage'
+import { GeneralLedgerPage } from './components/Ledger/GeneralLedgerPage'
 import SavingsLoansPage from './components/SavingsLoans/SavingsLoansPage'
 import { ReportsPage } from './components/Reports/ReportsPage'
+import { SQLEditor } from './components/SQLEditor/SQLEditor'
 import { UploadCSVPage } from './components/Upload/UploadCSVPage'
 import WhatsAppBotPage from './components/WhatsApp/WhatsAppBotPage'
 import WhatsAppMobileTest from './components/WhatsApp/WhatsAppMobileTest'
 import { AdminManagementPage } from './components/Admin/AdminManagementPage'
 import { ProfilePage } from './components/Profile/ProfilePage'
+import { MemberPortalPage } from './components/Portal/MemberPortalPage'
+import { MeetingsPage } from './components/Meetings/MeetingsPage'
 import { ConnectionTest } from './components/Debug/ConnectionTest'
 import { IuranSukarelaDebug } from './components/Debug/IuranSukarelaDebug'
 import { DuesCalculationTest } from './components/Test/DuesCalculationTest'
@@ -29,7 +35,10 @@ import { BroadcastDashboard, ComposeBroadcast, ContactManagement, BroadcastHisto
 
 
 
-function ProtectedRoute({ children }: { children: React.ReactNode }) {
+const STAFF_ROLES: AuthUser['role'][] = ['admin', 'pengurus']
+
+// Without roles any logged-in user may enter; anggota outside the allowed roles land on their portal
+function ProtectedRoute({ children, roles }: { children: React.ReactNode; roles?: AuthUser['role'][] }) {
   const { user, loading } = useAuth()
 
   if (loading) {
@@ -40,7 +49,12 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
     )
   }
 
-  return user ? <>{children}</> : <Navigate to="/login" />
+  if (!user) return <Navigate to="/login" />
+  if (roles && !roles.includes(user.role)) {
+    return <Navigate to={user.role === 'anggota' ? '/portal' : '/'} />
+  }
+
+  return <>{children}</>
 }
 
 function AppRoutes() {
@@ -83,7 +97,7 @@ function AppRoutes() {
       <Route
         path="/"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Dashboard" subtitle="SIDARSIH - Sistem Aplikasi Dana Forum Air Bersih">
               <Dashboard />
             </MainLayout>
@@ -93,7 +107,7 @@ function AppRoutes() {
       <Route
         path="/members"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Data Anggota" subtitle="Kelola data anggota">
               <MembersPage />
             </MainLayout>
@@ -103,7 +117,7 @@ function AppRoutes() {
       <Route
         path="/dues"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Iuran" subtitle="Kelola iuran wajib dan simpanan sukarela">
               <DuesPage />
             </MainLayout>
@@ -113,7 +127,7 @@ function AppRoutes() {
       <Route
         path="/loans"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Pinjaman" subtitle="Kelola pinjaman dan angsuran">
               <LoansPage />
             </MainLayout>
@@ -121,9 +135,19 @@ function AppRoutes() {
         }
       />
       <Route
-        path="/loan-payments"
+        path="/loan-applications"
         element={
           <ProtectedRoute>
+            <MainLayout title="Pengajuan Pinjaman" subtitle="Pengajuan, persetujuan dan pencairan pinjaman">
+              <LoanApplicationsPage />
+            </MainLayout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/loan-payments"
+        element={
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Angsuran" subtitle="Kelola pembayaran angsuran pinjaman">
               <LoanPaymentsPage />
             </MainLayout>
@@ -133,7 +157,7 @@ function AppRoutes() {
       <Route
         path="/loan-schedule"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Jadwal Angsuran" subtitle="Lihat jadwal dan status angsuran">
               <LoanSchedulePage />
             </MainLayout>
@@ -143,7 +167,7 @@ function AppRoutes() {
       <Route
         path="/expenses"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Buku Kas" subtitle="Kelola transaksi Debit dan Kredit">
               <CashBookPage />
             </MainLayout>
@@ -154,7 +178,7 @@ function AppRoutes() {
       <Route
         path="/transactions"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Transaksi" subtitle="Kelola pemasukan dan pengeluaran">
               <TransactionPage />
             </MainLayout>
@@ -164,17 +188,37 @@ function AppRoutes() {
       <Route
         path="/cash-bank"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Manajemen Kas & Bank" subtitle="Kelola saldo dan transfer dana antar akun">
               <CashBankManagementPage />
             </MainLayout>
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/ledger"
+        element={
+          <ProtectedRoute roles={STAFF_ROLES}>
+            <MainLayout title="Buku Besar" subtitle="Neraca, neraca saldo dan bagan akun">
+              <GeneralLedgerPage />
+            </MainLayout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/meetings"
+        element={
+          <ProtectedRoute roles={STAFF_ROLES}>
+            <MainLayout title="Rapat Anggota" subtitle="Jadwal rapat, presensi dengan kartu anggota dan daftar hadir">
+              <MeetingsPage />
+            </MainLayout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/savings-loans"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Simpanan & Pinjaman" subtitle="Kelola simpanan anggota dan pinjaman">
               <SavingsLoansPage />
             </MainLayout>
@@ -184,17 +228,27 @@ function AppRoutes() {
       <Route
         path="/reports"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Laporan" subtitle="Laporan keuangan bulanan, triwulan, dan tahunan">
               <ReportsPage />
             </MainLayout>
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/sql-editor"
+        element={
+          <ProtectedRoute roles={STAFF_ROLES}>
+            <MainLayout title="SQL Editor" subtitle="Query data koperasi (hanya baca) dan bagikan ke pengurus">
+              <SQLEditor />
+            </MainLayout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/upload"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Upload CSV" subtitle="Upload data dari file CSV">
               <UploadCSVPage />
             </MainLayout>
@@ -204,7 +258,7 @@ function AppRoutes() {
       <Route
         path="/whatsapp-bot"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="WhatsApp Bot" subtitle="Kelola chatbot WhatsApp">
               <WhatsAppBotPage />
             </MainLayout>
@@ -214,7 +268,7 @@ function AppRoutes() {
       <Route
         path="/whatsapp-mobile"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="WhatsApp Mobile Connection" subtitle="Hubungkan dengan WhatsApp mobile Anda">
               <WhatsAppMobileTest />
             </MainLayout>
@@ -224,13 +278,23 @@ function AppRoutes() {
       <Route
         path="/admin"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Manajemen Admin" subtitle="Kelola akun pengguna dan hak akses">
               <AdminManagementPage />
             </MainLayout>
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/portal"
+        element={
+          <ProtectedRoute>
+            <MainLayout title="Portal Anggota" subtitle="Simpanan, iuran, pinjaman dan SHU Anda">
+              <MemberPortalPage />
+            </MainLayout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/profile"
         element={
@@ -244,7 +308,7 @@ function AppRoutes() {
       <Route
         path="/broadcast"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="WhatsApp Broadcast" subtitle="Dashboard dan manajemen broadcast">
               <BroadcastDashboard />
             </MainLayout>
@@ -254,7 +318,7 @@ function AppRoutes() {
       <Route
         path="/broadcast/compose"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Buat Broadcast" subtitle="Buat dan kirim pesan broadcast">
               <ComposeBroadcast />
             </MainLayout>
@@ -264,7 +328,7 @@ function AppRoutes() {
       <Route
         path="/broadcast/contacts"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Kelola Kontak" subtitle="Kelola kontak dan grup untuk broadcast">
               <ContactManagement />
             </MainLayout>
@@ -274,7 +338,7 @@ function AppRoutes() {
       <Route
         path="/broadcast/history"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute roles={STAFF_ROLES}>
             <MainLayout title="Riwayat Broadcast" subtitle="Lihat riwayat dan analitik broadcast">
               <BroadcastHistory />
             </MainLayout>
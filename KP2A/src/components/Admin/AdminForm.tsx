@@ -3,7 +3,7 @@ import { useForm } from 'react-hook-form'
 import { yupResolver } from '@hookform/resolvers/yup'
 import * as yup from 'yup'
 import { User, Member } from '../../types'
-import { isDatabaseAvailable, databaseClient, withTimeout } from '../../lib/database'
+import { repositories } from '../../lib/repositories'
 import { FaEye, FaEyeSlash } from 'react-icons/fa'
 
 const createSchema = (isEdit: boolean) => yup.object({
@@ -55,23 +55,12 @@ export function AdminForm({ initialData, onSubmit, onCancel }: AdminFormProps) {
 
   const fetchMembers = async () => {
     try {
-      if (!isDatabaseAvailable() || !databaseClient) {
-        throw new Error('Koneksi database tidak tersedia')
-      }
+      const { data, error } = await repositories.members.list()
+      if (error) throw new Error(error)
 
-      const { data, error } = await withTimeout(
-        databaseClient
-          .from('members')
-          .select('*')
-          .eq('status_keanggotaan', 'aktif')
-          .order('nama_lengkap')
-          ,
-        8000,
-        'fetch members'
-      )
-
-      if (error) throw error
-      setMembers(data || [])
+      setMembers((data || [])
+        .filter(member => member.status_keanggotaan === 'aktif')
+        .sort((a, b) => a.nama_lengkap.localeCompare(b.nama_lengkap)))
     } catch (error) {
       console.error('Error fetching members:', error)
     } finally {
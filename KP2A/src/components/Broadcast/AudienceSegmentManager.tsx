@@ -0,0 +1,383 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card } from '../UI/Card';
+import { Button } from '../UI/Button';
+import { Input } from '../UI/Input';
+import { LoadingSpinner } from '../UI/LoadingSpinner';
+import { Edit, Filter, Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { repositories } from '../../lib/repositories';
+import type { AudienceSegment, SegmentField, SegmentRule } from '../../types/audienceSegments';
+import { BroadcastRecipientData, loadBroadcastRecipientData } from '../../services/broadcastTemplates';
+import {
+  describeSegment,
+  evaluateSegment,
+  OPERATOR_LABELS,
+  SEGMENT_FIELDS,
+  SEGMENT_OPERATORS,
+  SEGMENT_PRESETS,
+  SegmentDraft,
+  validateSegment
+} from '../../services/audienceSegments';
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const emptyDraft = (): SegmentDraft => ({ name: '', description: '', match: 'all', rules: [] });
+
+// A new rule on a field starts from the first operator and value that field allows
+const ruleForField = (field: SegmentField): SegmentRule => {
+  const definition = SEGMENT_FIELDS.find(item => item.id === field) || SEGMENT_FIELDS[0];
+  return {
+    field: definition.id,
+    operator: SEGMENT_OPERATORS[definition.type][0],
+    value: definition.options ? definition.options[0].value : 0
+  };
+};
+
+/**
+ * Saved broadcast audiences defined by rules over member data. The member counts are
+ * previews; a broadcast works out the members again when it is created.
+ */
+const AudienceSegmentManager: React.FC = () => {
+  const [segments, setSegments] = useState<AudienceSegment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [unavailable, setUnavailable] = useState<string | null>(null);
+  const [recipientData, setRecipientData] = useState<BroadcastRecipientData | null>(null);
+  const [draft, setDraft] = useState<SegmentDraft | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSegments();
+    loadBroadcastRecipientData()
+      .then(setRecipientData)
+      .catch(error => console.error('Error loading member data for segments:', error));
+  }, []);
+
+  const fetchSegments = async () => {
+    try {
+      const response = await repositories.audienceSegments.list();
+      if (response.status === 501) {
+        setUnavailable(response.error || null);
+        return;
+      }
+      if (response.error) throw new Error(response.error);
+      setSegments((response.data || []).sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      console.error('Error fetching segments:', error);
+      toast.error('Failed to load segments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const memberCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    if (recipientData) {
+      segments.forEach(segment => counts.set(segment.id, evaluateSegment(segment, recipientData).length));
+    }
+    return counts;
+  }, [segments, recipientData]);
+
+  const draftErrors = useMemo(() => (draft ? validateSegment(draft) : []), [draft]);
+  const draftCount = useMemo(
+    () => (draft && recipientData && draft.rules.length > 0 ? evaluateSegment(draft, recipientData).length : null),
+    [draft, recipientData]
+  );
+
+  const updateDraft = (changes: Partial<SegmentDraft>) => setDraft(current => (current ? { ...current, ...changes } : current));
+
+  const updateRule = (index: number, changes: Partial<SegmentRule>) => {
+    if (!draft) return;
+    const rules = draft.rules.map((rule, ruleIndex) => {
+      if (ruleIndex !== index) return rule;
+      return changes.field && changes.field !== rule.field ? ruleForField(changes.field) : { ...rule, ...changes };
+    });
+    updateDraft({ rules });
+  };
+
+  const openForm = (segment?: AudienceSegment) => {
+    setDraft(segment
+      ? { name: segment.name, description: segment.description || '', match: segment.match, rules: segment.rules }
+      : emptyDraft());
+    setEditingId(segment?.id || null);
+  };
+
+  const closeForm = () => {
+    setDraft(null);
+    setEditingId(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+
+    if (draftErrors.length > 0) {
+      toast.error(draftErrors[0]);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = {
+        name: draft.name.trim(),
+        description: draft.description?.trim() || null,
+        match: draft.match,
+        rules: draft.rules.map(rule => ({ ...rule, value: typeof rule.value === 'string' ? rule.value : Number(rule.value) }))
+      };
+      const { error } = editingId
+        ? await repositories.audienceSegments.update(editingId, values)
+        : await repositories.audienceSegments.create(values);
+      if (error) throw new Error(error);
+
+      toast.success(editingId ? 'Segment updated successfully' : 'Segment created successfully');
+      closeForm();
+      fetchSegments();
+    } catch (error) {
+      console.error('Error saving segment:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save segment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (segment: AudienceSegment) => {
+    if (!confirm(`Are you sure you want to delete the segment "${segment.name}"?`)) {
+      return;
+    }
+
+    const { error } = await repositories.audienceSegments.remove(segment.id);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    toast.success('Segment deleted successfully');
+    fetchSegments();
+  };
+
+  if (unavailable) {
+    return (
+      <Card className="p-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Audience Segments</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{unavailable}</p>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Audience Segments</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Members matching rules on their savings, dues and loans, worked out again for every broadcast
+          </p>
+        </div>
+        <Button size="sm" onClick={() => openForm()}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Segment
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner />
+        </div>
+      ) : segments.length === 0 ? (
+        <div className="text-center py-6">
+          <Filter className="w-10 h-10 text-gray-400 dark:text-gray-500 mx-auto mb-3" />
+          <p className="text-gray-600 dark:text-gray-400">No segments yet</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Create one from scratch or start from a preset such as members with dues arrears
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {segments.map(segment => (
+            <div
+              key={segment.id}
+              className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              <div className="flex justify-between items-start mb-2">
+                <h3 className="font-medium text-gray-900 dark:text-white">{segment.name}</h3>
+                <div className="flex gap-1">
+                  <Button size="sm" variant="secondary" onClick={() => openForm(segment)}>
+                    <Edit className="w-3 h-3" />
+                  </Button>
+                  <Button size="sm" variant="secondary" onClick={() => handleDelete(segment)}>
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+              {segment.description && (
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">{segment.description}</p>
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{describeSegment(segment)}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {recipientData ? `${memberCounts.get(segment.id) ?? 0} members right now` : 'Counting members...'}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Segment Form Modal */}
+      {draft && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <Card className="p-6 w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+              {editingId ? 'Edit Segment' : 'Create New Segment'}
+            </h2>
+            <form onSubmit={handleSave} className="space-y-4">
+              {!editingId && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Start from a preset
+                  </label>
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      const preset = SEGMENT_PRESETS[Number(e.target.value)];
+                      if (preset) setDraft({ ...preset, rules: preset.rules.map(rule => ({ ...rule })) });
+                    }}
+                    className={selectClassName}
+                  >
+                    <option value="">Choose a preset...</option>
+                    {SEGMENT_PRESETS.map((preset, index) => (
+                      <option key={preset.name} value={index}>{preset.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Segment Name *
+                </label>
+                <Input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  placeholder="Enter segment name"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Description
+                </label>
+                <Input
+                  type="text"
+                  value={draft.description || ''}
+                  onChange={(e) => updateDraft({ description: e.target.value })}
+                  placeholder="Enter segment description (optional)"
+                />
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Members who match
+                  </label>
+                  <select
+                    value={draft.match}
+                    onChange={(e) => updateDraft({ match: e.target.value as SegmentDraft['match'] })}
+                    className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    <option value="all">all rules</option>
+                    <option value="any">any rule</option>
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  {draft.rules.map((rule, index) => {
+                    const definition = SEGMENT_FIELDS.find(item => item.id === rule.field) || SEGMENT_FIELDS[0];
+                    return (
+                      <div key={index} className="flex gap-2 items-center">
+                        <select
+                          value={rule.field}
+                          onChange={(e) => updateRule(index, { field: e.target.value as SegmentField })}
+                          className={selectClassName}
+                        >
+                          {SEGMENT_FIELDS.map(field => (
+                            <option key={field.id} value={field.id}>{field.label}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={rule.operator}
+                          onChange={(e) => updateRule(index, { operator: e.target.value as SegmentRule['operator'] })}
+                          className="w-20 px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                        >
+                          {SEGMENT_OPERATORS[definition.type].map(operator => (
+                            <option key={operator} value={operator}>{OPERATOR_LABELS[operator]}</option>
+                          ))}
+                        </select>
+                        {definition.options ? (
+                          <select
+                            value={String(rule.value)}
+                            onChange={(e) => updateRule(index, { value: e.target.value })}
+                            className={selectClassName}
+                          >
+                            {definition.options.map(option => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <Input
+                            type="number"
+                            min={0}
+                            value={rule.value}
+                            onChange={(e) => updateRule(index, { value: e.target.value === '' ? '' : Number(e.target.value) })}
+                          />
+                        )}
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => updateDraft({ rules: draft.rules.filter((_, ruleIndex) => ruleIndex !== index) })}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="secondary"
+                  className="mt-2"
+                  onClick={() => updateDraft({ rules: [...draft.rules, ruleForField(SEGMENT_FIELDS[0].id)] })}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Rule
+                </Button>
+              </div>
+
+              <div className="p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-sm text-gray-700 dark:text-gray-300">
+                {draftCount === null
+                  ? (recipientData ? 'Add a rule to preview the recipients' : 'Counting members...')
+                  : `${draftCount} members with a WhatsApp number match right now`}
+              </div>
+
+              {draftErrors.length > 0 && draft.rules.length > 0 && (
+                <ul className="text-sm text-red-600 dark:text-red-400 list-disc pl-5">
+                  {draftErrors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+
+              <div className="flex gap-3 pt-4">
+                <Button type="button" variant="secondary" onClick={closeForm} className="flex-1">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving} className="flex-1">
+                  {editingId ? 'Update' : 'Create'} Segment
+                </Button>
+              </div>
+            </form>
+          </Card>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default AudienceSegmentManager;
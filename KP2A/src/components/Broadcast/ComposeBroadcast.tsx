@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Card } from '../UI/Card';
 import { Button } from '../UI/Button';
 import { Input } from '../UI/Input';
@@ -12,9 +12,25 @@ import {
   Plus,
   Search,
   Check,
-  Clock
+  Clock,
+  Filter
 } from 'lucide-react';
 import { toast } from 'sonner';
+import TemplatePreview from './TemplatePreview';
+import { hasTemplateTags, renderTemplate, validateTemplate } from '../../lib/template';
+import { repositories } from '../../lib/repositories';
+import type { AudienceSegment } from '../../types/audienceSegments';
+import { describeSegment, evaluateSegment } from '../../services/audienceSegments';
+import { normalizePhoneNumber } from '../../services/whatsappCommandParser';
+import {
+  BROADCAST_VARIABLES,
+  BroadcastRecipientData,
+  loadBroadcastRecipientData,
+  SAMPLE_VALUES
+} from '../../services/broadcastTemplates';
+
+// WhatsApp's limit for one text message
+const MAX_MESSAGE_LENGTH = 4096;
 
 interface Contact {
   id: string;
@@ -32,7 +48,7 @@ interface ContactGroup {
 }
 
 interface SelectedRecipient {
-  type: 'contact' | 'group';
+  type: 'contact' | 'group' | 'segment';
   id: string;
   name: string;
   phone?: string;
@@ -46,19 +62,109 @@ const ComposeBroadcast: React.FC = () => {
   const [selectedRecipients, setSelectedRecipients] = useState<SelectedRecipient[]>([]);
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [groups, setGroups] = useState<ContactGroup[]>([]);
+  const [segments, setSegments] = useState<AudienceSegment[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
-  const [activeTab, setActiveTab] = useState<'contacts' | 'groups'>('contacts');
+  const [activeTab, setActiveTab] = useState<'contacts' | 'groups' | 'segments'>('contacts');
   const [loading, setLoading] = useState(false);
   const [loadingData, setLoadingData] = useState(true);
   const [showRecipientSelector, setShowRecipientSelector] = useState(false);
   const [showTestModal, setShowTestModal] = useState(false);
   const [testPhoneNumber, setTestPhoneNumber] = useState('');
+  const [recipientData, setRecipientData] = useState<BroadcastRecipientData | null>(null);
+  const [previewMemberId, setPreviewMemberId] = useState('');
+  const messageRef = useRef<HTMLTextAreaElement>(null);
 
   useEffect(() => {
     fetchContacts();
     fetchGroups();
+    fetchSegments();
+    fetchRecipientData();
   }, []);
 
+  const templateIssues = useMemo(() => validateTemplate(message, BROADCAST_VARIABLES), [message]);
+
+  const previewValues = useMemo(
+    () => (recipientData && previewMemberId ? recipientData.valuesForMember(previewMemberId) : SAMPLE_VALUES),
+    [recipientData, previewMemberId]
+  );
+
+  // Members per segment right now; the broadcast evaluates the segments again when it is created
+  const segmentCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    if (recipientData) {
+      segments.forEach(segment => counts.set(segment.id, evaluateSegment(segment, recipientData).length));
+    }
+    return counts;
+  }, [segments, recipientData]);
+
+  // Member data for the template variables; without it the preview uses sample values
+  const fetchRecipientData = async () => {
+    try {
+      const data = await loadBroadcastRecipientData();
+      setRecipientData(data);
+      setPreviewMemberId(data.members[0]?.id || '');
+    } catch (error) {
+      console.error('Error loading member data for templates:', error);
+    }
+  };
+
+  const insertIntoMessage = (snippet: string) => {
+    const textarea = messageRef.current;
+    const start = textarea?.selectionStart ?? message.length;
+    const end = textarea?.selectionEnd ?? message.length;
+    setMessage(message.slice(0, start) + snippet + message.slice(end));
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + snippet.length, start + snippet.length);
+    });
+  };
+
+  /**
+   * One recipient per phone number, with its own rendered message when personalized. Groups are
+   * expanded to their contacts and segments are evaluated against freshly loaded member data here,
+   * because the sender only sends what it is given.
+   */
+  const resolveRecipients = async (personalize: boolean) => {
+    const data = await loadBroadcastRecipientData();
+    const targets = new Map<string, { id: string | null; name: string; phone: string }>();
+    const addTarget = (id: string | null, name: string, phone: string) => {
+      const key = normalizePhoneNumber(phone);
+      if (!targets.has(key)) targets.set(key, { id, name, phone });
+    };
+
+    for (const recipient of selectedRecipients) {
+      if (recipient.type === 'contact' && recipient.phone) {
+        addTarget(recipient.id, recipient.name, recipient.phone);
+        continue;
+      }
+
+      if (recipient.type === 'segment') {
+        const segment = segments.find(item => item.id === recipient.id);
+        if (!segment) throw new Error(`Segment ${recipient.name} no longer exists`);
+        evaluateSegment(segment, data).forEach(member => {
+          addTarget(null, member.nama_lengkap, normalizePhoneNumber(member.no_hp));
+        });
+        continue;
+      }
+
+      const response = await fetch(`/api/broadcast/contacts/all?group=${recipient.id}&limit=1000`);
+      const body = await response.json();
+      if (!body.success) throw new Error(body.message || `Failed to load the contacts of ${recipient.name}`);
+      (body.data?.contacts || []).forEach((contact: Contact) => {
+        addTarget(contact.id, contact.name, contact.phone);
+      });
+    }
+
+    return Array.from(targets.values()).map(target => ({
+      contact_id: target.id,
+      phone: target.phone,
+      message: personalize
+        ? renderTemplate(message.trim(), data.valuesForPhone(target.phone, target.name), { missing: '-' })
+        : null
+    }));
+  };
+
   const fetchContacts = async () => {
     try {
       const response = await fetch('/api/broadcast/contacts/all?limit=100');
@@ -97,6 +203,18 @@ const ComposeBroadcast: React.FC = () => {
     }
   };
 
+  // Segments are stored with the Supabase data; other backends have none
+  const fetchSegments = async () => {
+    try {
+      const response = await repositories.audienceSegments.list();
+      if (response.error && response.status !== 501) throw new Error(response.error);
+      setSegments((response.data || []).sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      console.error('Error fetching segments:', error);
+      setSegments([]);
+    }
+  };
+
   const filteredContacts = (contacts || []).filter(contact =>
     contact?.name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
     contact?.phone?.includes(searchTerm)
@@ -106,6 +224,13 @@ const ComposeBroadcast: React.FC = () => {
     group?.name?.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  const filteredSegments = segments.filter(segment =>
+    segment.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const recipientCount = (recipient: SelectedRecipient) =>
+    recipient.type === 'segment' ? segmentCounts.get(recipient.id) : recipient.count;
+
   const addRecipient = (recipient: SelectedRecipient) => {
     const exists = selectedRecipients.some(r => r.type === recipient.type && r.id === recipient.id);
     if (!exists) {
@@ -122,7 +247,7 @@ const ComposeBroadcast: React.FC = () => {
       if (recipient.type === 'contact') {
         return total + 1;
       } else {
-        return total + (recipient.count || 0);
+        return total + (recipientCount(recipient) || 0);
       }
     }, 0);
   };
@@ -138,6 +263,11 @@ const ComposeBroadcast: React.FC = () => {
       return;
     }
 
+    if (templateIssues.length > 0) {
+      toast.error('Please fix the template errors first');
+      return;
+    }
+
     if (selectedRecipients.length === 0) {
       toast.error('Please select at least one recipient');
       return;
@@ -151,10 +281,25 @@ const ComposeBroadcast: React.FC = () => {
     setLoading(true);
 
     try {
-      const recipients = selectedRecipients.map(recipient => ({
-        type: recipient.type,
-        id: recipient.id
-      }));
+      const personalize = hasTemplateTags(message);
+      const recipients: Array<Record<string, string | null>> =
+        personalize || selectedRecipients.some(recipient => recipient.type === 'segment')
+          ? await resolveRecipients(personalize)
+          : selectedRecipients.map(recipient => ({
+              type: recipient.type,
+              id: recipient.id
+            }));
+
+      if (recipients.length === 0) {
+        toast.error('None of the selected recipients has a WhatsApp number right now');
+        return;
+      }
+
+      const tooLong = recipients.find(recipient => (recipient.message?.length || 0) > MAX_MESSAGE_LENGTH);
+      if (tooLong) {
+        toast.error(`The message for ${tooLong.phone} exceeds ${MAX_MESSAGE_LENGTH} characters`);
+        return;
+      }
 
       const broadcastData = {
         title: title.trim(),
@@ -202,6 +347,11 @@ const ComposeBroadcast: React.FC = () => {
       return;
     }
 
+    if (templateIssues.length > 0) {
+      toast.error('Please fix the template errors first');
+      return;
+    }
+
     setShowTestModal(true);
   };
 
@@ -219,7 +369,8 @@ const ComposeBroadcast: React.FC = () => {
         },
         body: JSON.stringify({
           phone: testPhoneNumber.trim(),
-          message: message.trim()
+          // The test shows the message as the previewed member would receive it
+          message: renderTemplate(message.trim(), previewValues, { missing: '-' })
         }),
       });
 
@@ -287,6 +438,7 @@ const ComposeBroadcast: React.FC = () => {
                   Message *
                 </label>
                 <textarea
+                  ref={messageRef}
                   value={message}
                   onChange={(e) => setMessage(e.target.value)}
                   placeholder="Type your message here..."
@@ -301,7 +453,7 @@ const ComposeBroadcast: React.FC = () => {
                     variant="outline"
                     size="sm"
                     onClick={sendTestMessage}
-                    disabled={!message.trim()}
+                    disabled={!message.trim() || templateIssues.length > 0}
                   >
                     <Send className="w-4 h-4 mr-2" />
                     Send Test
@@ -327,6 +479,27 @@ const ComposeBroadcast: React.FC = () => {
             </div>
           </Card>
 
+          <Card className="p-6">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Personalization</h2>
+            <TemplatePreview
+              template={message}
+              variables={BROADCAST_VARIABLES}
+              values={previewValues}
+              onInsert={insertIntoMessage}
+              sampleSelector={recipientData && recipientData.members.length > 0 && (
+                <select
+                  value={previewMemberId}
+                  onChange={(e) => setPreviewMemberId(e.target.value)}
+                  className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  {recipientData.members.map(member => (
+                    <option key={member.id} value={member.id}>{member.nama_lengkap}</option>
+                  ))}
+                </select>
+              )}
+            />
+          </Card>
+
           {/* Action Buttons */}
           <div className="flex gap-3">
             <Button
@@ -376,6 +549,8 @@ const ComposeBroadcast: React.FC = () => {
                     <div className="flex items-center gap-2">
                       {recipient.type === 'contact' ? (
                         <Users className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+                      ) : recipient.type === 'segment' ? (
+                        <Filter className="w-4 h-4 text-purple-600 dark:text-purple-400" />
                       ) : (
                         <Users className="w-4 h-4 text-green-600 dark:text-green-400" />
                       )}
@@ -384,8 +559,10 @@ const ComposeBroadcast: React.FC = () => {
                         {recipient.phone && (
                           <p className="text-xs text-gray-600 dark:text-gray-400">{recipient.phone}</p>
                         )}
-                        {recipient.count && (
-                          <p className="text-xs text-gray-600 dark:text-gray-400">{recipient.count} contacts</p>
+                        {recipientCount(recipient) !== undefined && (
+                          <p className="text-xs text-gray-600 dark:text-gray-400">
+                            {recipientCount(recipient)} {recipient.type === 'segment' ? 'members right now' : 'contacts'}
+                          </p>
                         )}
                       </div>
                     </div>
@@ -401,6 +578,11 @@ const ComposeBroadcast: React.FC = () => {
                 <div className="text-sm text-gray-600 dark:text-gray-400 font-medium pt-2 border-t border-gray-200 dark:border-gray-700">
                   Total Recipients: {getTotalRecipients()}
                 </div>
+                {scheduledAt && selectedRecipients.some(recipient => recipient.type === 'segment') && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Segment members are worked out when the broadcast is created; a scheduled broadcast keeps the members of that moment.
+                  </p>
+                )}
               </div>
             ) : (
               <div className="text-center py-4 text-gray-500 dark:text-gray-400">
@@ -415,18 +597,25 @@ const ComposeBroadcast: React.FC = () => {
                 <div className="flex gap-2 mb-3">
                   <Button
                     size="sm"
-                    variant={activeTab === 'contacts' ? 'default' : 'outline'}
+                    variant={activeTab === 'contacts' ? 'primary' : 'secondary'}
                     onClick={() => setActiveTab('contacts')}
                   >
                     Contacts
                   </Button>
                   <Button
                     size="sm"
-                    variant={activeTab === 'groups' ? 'default' : 'outline'}
+                    variant={activeTab === 'groups' ? 'primary' : 'secondary'}
                     onClick={() => setActiveTab('groups')}
                   >
                     Groups
                   </Button>
+                  <Button
+                    size="sm"
+                    variant={activeTab === 'segments' ? 'primary' : 'secondary'}
+                    onClick={() => setActiveTab('segments')}
+                  >
+                    Segments
+                  </Button>
                 </div>
 
                 <div className="relative mb-3">
@@ -476,6 +665,43 @@ const ComposeBroadcast: React.FC = () => {
                     ) : (
                       <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">No contacts found</p>
                     )
+                  ) : activeTab === 'segments' ? (
+                    filteredSegments.length > 0 ? (
+                      filteredSegments.map((segment) => {
+                        const isSelected = selectedRecipients.some(r => r.type === 'segment' && r.id === segment.id);
+                        const count = segmentCounts.get(segment.id);
+                        return (
+                          <div
+                            key={segment.id}
+                            className={`flex items-center justify-between p-2 rounded cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 ${
+                              isSelected ? 'bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-700' : ''
+                            }`}
+                            onClick={() => {
+                              if (!isSelected) {
+                                addRecipient({
+                                  type: 'segment',
+                                  id: segment.id,
+                                  name: segment.name
+                                });
+                              }
+                            }}
+                          >
+                            <div>
+                              <p className="text-sm font-medium text-gray-900 dark:text-white">{segment.name}</p>
+                              <p className="text-xs text-gray-600 dark:text-gray-400">
+                                {count === undefined ? 'Counting members...' : `${count} members right now`}
+                              </p>
+                              <p className="text-xs text-gray-500 dark:text-gray-400">{describeSegment(segment)}</p>
+                            </div>
+                            {isSelected && <Check className="w-4 h-4 text-purple-600 dark:text-purple-400" />}
+                          </div>
+                        );
+                      })
+                    ) : (
+                      <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">
+                        No segments found. Create them in Contact Management.
+                      </p>
+                    )
                   ) : (
                     filteredGroups.length > 0 ? (
                       filteredGroups.map((group) => {
@@ -18,6 +18,7 @@ import {
   UserCheck
 } from 'lucide-react';
 import { toast } from 'sonner';
+import AudienceSegmentManager from './AudienceSegmentManager';
 
 interface Contact {
   id: string;
@@ -406,7 +407,7 @@ const ContactManagement: React.FC = () => {
       <div className="flex justify-between items-center">
         <div>
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">Contact Management</h1>
-          <p className="text-gray-600 dark:text-gray-400 mt-1">Manage your broadcast contacts and groups</p>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">Manage your broadcast contacts, groups and audience segments</p>
         </div>
         <div className="flex gap-3">
           <Button 
@@ -571,6 +572,9 @@ const ContactManagement: React.FC = () => {
         </Card>
       )}
 
+      {/* Segments Section */}
+      <AudienceSegmentManager />
+
       {/* Contacts Table */}
       <Card className="p-6">
         <div className="flex justify-between items-center mb-4">
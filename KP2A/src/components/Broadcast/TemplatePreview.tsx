@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { AlertTriangle, Braces, Eye } from 'lucide-react';
+import {
+  renderTemplate,
+  TemplateValues,
+  TemplateVariable,
+  validateTemplate
+} from '../../lib/template';
+
+interface TemplatePreviewProps {
+  template: string;
+  variables: TemplateVariable[];
+  // Values of the sample recipient the preview is rendered for
+  values: TemplateValues;
+  // Shows the variables as buttons that insert them into the template
+  onInsert?: (snippet: string) => void;
+  // Extra controls above the preview, e.g. choosing the sample member
+  sampleSelector?: React.ReactNode;
+}
+
+const snippetFor = (variable: TemplateVariable) =>
+  variable.type === 'list'
+    ? `{{#each ${variable.name}}}\n{{@nomor}}. {{${variable.fields?.[0]?.name || 'nama'}}}\n{{/each}}`
+    : `{{${variable.name}${variable.type === 'currency' ? ' | rupiah' : variable.type === 'date' ? ' | tanggal' : ''}}}`;
+
+const TemplatePreview: React.FC<TemplatePreviewProps> = ({ template, variables, values, onInsert, sampleSelector }) => {
+  const issues = useMemo(() => validateTemplate(template, variables), [template, variables]);
+  const preview = useMemo(
+    () => (issues.length === 0 ? renderTemplate(template, values, { missing: '-' }) : ''),
+    [issues, template, values]
+  );
+
+  return (
+    <div className="space-y-4">
+      {onInsert && (
+        <div>
+          <div className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            <Braces className="w-4 h-4" />
+            Variables
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {variables.map(variable => (
+              <button
+                key={variable.name}
+                type="button"
+                title={variable.label}
+                onClick={() => onInsert(snippetFor(variable))}
+                className="px-2 py-1 text-xs font-mono rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-blue-100 dark:hover:bg-blue-900/40"
+              >
+                {variable.type === 'list' ? `#each ${variable.name}` : variable.name}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            {'Conditions: {{#if tunggakan_bulan > 0}}...{{else}}...{{/if}}. Formats: | rupiah, | tanggal, | angka, | besar, | kecil.'}
+          </p>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          {issues.map((issue, index) => (
+            <p key={index} className="flex items-start gap-2 text-sm text-red-700 dark:text-red-300">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              {issue.line ? `Line ${issue.line}: ` : ''}{issue.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <div className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+            <Eye className="w-4 h-4" />
+            Preview
+          </div>
+          {sampleSelector}
+        </div>
+        <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-sm text-gray-900 dark:text-gray-100 whitespace-pre-wrap min-h-[3rem]">
+          {template.trim() === '' ? (
+            <span className="text-gray-400 dark:text-gray-500">The message preview appears here</span>
+          ) : issues.length > 0 ? (
+            <span className="text-gray-400 dark:text-gray-500">Fix the template errors to see the preview</span>
+          ) : preview}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplatePreview;
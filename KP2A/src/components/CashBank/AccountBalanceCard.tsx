@@ -1,14 +1,15 @@
 import React from 'react'
-import { FaWallet, FaUniversity } from 'react-icons/fa'
+import { FaWallet, FaUniversity, FaEdit } from 'react-icons/fa'
 import { Account } from '../../types/cashbank'
 import { formatCurrency } from '../../utils/numberFormat'
 import { AnimatedCard, AnimatedIcon } from '../UI/AnimatedComponents'
 
 interface AccountBalanceCardProps {
   account: Account
+  onEdit?: (account: Account) => void
 }
 
-export function AccountBalanceCard({ account }: AccountBalanceCardProps) {
+export function AccountBalanceCard({ account, onEdit }: AccountBalanceCardProps) {
   const Icon = account.type === 'cash' ? FaWallet : FaUniversity
   
   const colorClasses = {
@@ -47,7 +48,17 @@ export function AccountBalanceCard({ account }: AccountBalanceCardProps) {
           
           <p className="text-xs text-gray-400 dark:text-gray-500 mt-2">
             {account.type === 'cash' ? 'Kas Tunai' : 'Rekening Bank'}
+            {' · '}Saldo awal {formatCurrency(account.opening_balance || 0)}
           </p>
+          {onEdit && (
+            <button
+              onClick={() => onEdit(account)}
+              className="mt-3 inline-flex items-center text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              <FaEdit className="h-3 w-3 mr-1" />
+              Ubah
+            </button>
+          )}
         </div>
         
         <AnimatedIcon className={`p-3 rounded-full ring-4 ${colorClasses[account.type]}`}>
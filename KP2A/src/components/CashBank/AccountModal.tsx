@@ -0,0 +1,191 @@
+import React, { useState } from 'react'
+import { FaTimes, FaWallet, FaUniversity } from 'react-icons/fa'
+import { Account, AccountFormData } from '../../types/cashbank'
+import { formatCurrency } from '../../utils/numberFormat'
+import { motion, AnimatePresence } from 'framer-motion'
+import toast from 'react-hot-toast'
+
+interface AccountModalProps {
+  // Account being edited; omitted when adding a new one
+  account?: Account
+  onClose: () => void
+  onSubmit: (data: AccountFormData) => Promise<void>
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-gray-100 transition-colors'
+
+export function AccountModal({ account, onClose, onSubmit }: AccountModalProps) {
+  const [formData, setFormData] = useState<AccountFormData>({
+    name: account?.name || '',
+    type: account?.type || 'cash',
+    bank_name: account?.bank_name || '',
+    account_number: account?.account_number || '',
+    opening_balance: account?.opening_balance || 0,
+  })
+  const [loading, setLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!formData.name.trim()) {
+      toast.error('Nama akun harus diisi')
+      return
+    }
+
+    setLoading(true)
+    try {
+      await onSubmit({ ...formData, name: formData.name.trim() })
+    } catch (error) {
+      console.error('Account error:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const Icon = formData.type === 'cash' ? FaWallet : FaUniversity
+  // The balance follows the opening balance: every mutasi stays as it is
+  const openingChange = account ? formData.opening_balance - (account.opening_balance || 0) : 0
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.95, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.95, y: 20 }}
+          className="bg-white dark:bg-gray-800 rounded-xl shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
+                <Icon className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+              </div>
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+                {account ? 'Ubah Akun' : 'Tambah Akun'}
+              </h2>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              <FaTimes className="h-5 w-5" />
+            </button>
+          </div>
+
+          {/* Form */}
+          <form onSubmit={handleSubmit} className="p-6 space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Nama Akun
+              </label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={inputClass}
+                placeholder="Contoh: Kas Tunai"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Jenis Akun
+              </label>
+              <select
+                value={formData.type}
+                onChange={(e) => setFormData({ ...formData, type: e.target.value as AccountFormData['type'] })}
+                className={inputClass}
+                disabled={!!account}
+              >
+                <option value="cash">Kas Tunai</option>
+                <option value="bank">Rekening Bank</option>
+              </select>
+            </div>
+
+            {formData.type === 'bank' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Nama Bank
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.bank_name}
+                    onChange={(e) => setFormData({ ...formData, bank_name: e.target.value })}
+                    className={inputClass}
+                    placeholder="Contoh: Bank BJB"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    No. Rekening
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.account_number}
+                    onChange={(e) => setFormData({ ...formData, account_number: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Saldo Awal
+              </label>
+              <input
+                type="number"
+                value={formData.opening_balance || ''}
+                onChange={(e) => setFormData({ ...formData, opening_balance: Number(e.target.value) })}
+                className={inputClass}
+                placeholder="0"
+              />
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                {formatCurrency(formData.opening_balance)}
+              </p>
+            </div>
+
+            {account && openingChange !== 0 && (
+              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">Saldo setelah diubah:</span>
+                  <span className="text-gray-900 dark:text-gray-100 font-medium">
+                    {formatCurrency(account.balance + openingChange)}
+                  </span>
+                </div>
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800"
+              >
+                Batal
+              </button>
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800 text-white rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? 'Menyimpan...' : 'Simpan'}
+              </button>
+            </div>
+          </form>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  )
+}
@@ -1,10 +1,12 @@
 import React, { useEffect, useState } from 'react'
-import { FaExchangeAlt, FaPlus, FaSyncAlt } from 'react-icons/fa'
-import { Account, CashBankTransaction, TransferFormData } from '../../types/cashbank'
+import { FaExchangeAlt, FaSyncAlt, FaCalculator, FaPlus } from 'react-icons/fa'
+import { Account, AccountFormData, CashBankTransaction, TransferFormData } from '../../types/cashbank'
 import { AccountBalanceCard } from './AccountBalanceCard'
 import { TransactionHistory } from './TransactionHistory'
 import { TransferModal } from './TransferModal'
+import { AccountModal } from './AccountModal'
 import { PageTransition, AnimatedContainer } from '../UI/AnimatedComponents'
+import { cashBankApi } from '../../lib/api'
 import { motion } from 'framer-motion'
 import toast from 'react-hot-toast'
 
@@ -13,6 +15,8 @@ export function CashBankManagementPage() {
   const [transactions, setTransactions] = useState<CashBankTransaction[]>([])
   const [loading, setLoading] = useState(true)
   const [showTransferModal, setShowTransferModal] = useState(false)
+  // null: closed, 'new': adding an account, otherwise the account being edited
+  const [accountForm, setAccountForm] = useState<Account | 'new' | null>(null)
 
   useEffect(() => {
     fetchData()
@@ -21,89 +25,36 @@ export function CashBankManagementPage() {
   const fetchData = async () => {
     setLoading(true)
     try {
-      // Simulate API call with mock data
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      // Mock accounts data
-      const mockAccounts: Account[] = [
-        {
-          id: '1',
-          name: 'Kas Tunai',
-          type: 'cash',
-          balance: 15750000,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        },
-        {
-          id: '2',
-          name: 'Rekening Operasional',
-          type: 'bank',
-          balance: 45250000,
-          bank_name: 'Bank BJB',
-          account_number: '1234567890',
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        },
-        {
-          id: '3',
-          name: 'Rekening Tabungan',
-          type: 'bank',
-          balance: 25000000,
-          bank_name: 'Bank BJB',
-          account_number: '0987654321',
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-        },
-      ]
+      const { data: accountsData, error: accountsError } = await cashBankApi.getAccounts()
+      if (accountsError) throw new Error(accountsError)
 
-      // Mock transactions data
-      const mockTransactions: CashBankTransaction[] = [
-        {
-          id: '1',
-          from_account_id: '2',
-          to_account_id: '1',
-          amount: 2000000,
-          description: 'Pengambilan kas untuk operasional',
-          transaction_date: new Date(Date.now() - 86400000).toISOString(),
-          status: 'completed',
-          created_by: 'admin',
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          from_account: mockAccounts[1],
-          to_account: mockAccounts[0],
-        },
-        {
-          id: '2',
-          from_account_id: '1',
-          to_account_id: '3',
-          amount: 5000000,
-          description: 'Transfer ke tabungan',
-          transaction_date: new Date(Date.now() - 172800000).toISOString(),
-          status: 'completed',
-          created_by: 'admin',
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          from_account: mockAccounts[0],
-          to_account: mockAccounts[2],
-        },
-        {
-          id: '3',
-          from_account_id: '2',
-          to_account_id: '1',
-          amount: 1500000,
-          description: 'Dana untuk pembayaran iuran',
-          transaction_date: new Date(Date.now() - 259200000).toISOString(),
-          status: 'completed',
-          created_by: 'admin',
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          from_account: mockAccounts[1],
-          to_account: mockAccounts[0],
-        },
-      ]
+      const { data: transfersData, error: transfersError } = await cashBankApi.getTransfers()
+      if (transfersError) throw new Error(transfersError)
 
-      setAccounts(mockAccounts)
-      setTransactions(mockTransactions)
+      const normalizedAccounts: Account[] = (accountsData || []).map((a) => ({
+        ...a,
+        balance: Number(a.balance || 0),
+        opening_balance: Number(a.opening_balance || 0),
+      }))
+      const accountById = new Map(normalizedAccounts.map((a) => [a.id, a]))
+
+      const normalizedTransactions: CashBankTransaction[] = (transfersData || []).map((t) => ({
+        ...t,
+        amount: Number(t.amount || 0),
+        from_account: accountById.get(t.from_account_id) || (t.from_account_name ? {
+          id: t.from_account_id,
+          name: t.from_account_name,
+          type: t.from_account_type || 'cash',
+        } as Account : undefined),
+        to_account: accountById.get(t.to_account_id) || (t.to_account_name ? {
+          id: t.to_account_id,
+          name: t.to_account_name,
+          type: t.to_account_type || 'cash',
+        } as Account : undefined),
+      }))
+
+      setAccounts(normalizedAccounts)
+      setTransactions(normalizedTransactions)
     } catch (error) {
       console.error('Error fetching cash bank data:', error)
       toast.error('Gagal memuat data kas & bank')
@@ -114,44 +65,64 @@ export function CashBankManagementPage() {
 
   const handleTransfer = async (transferData: TransferFormData) => {
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      // Create new transaction
-      const newTransaction: CashBankTransaction = {
-        id: Date.now().toString(),
-        from_account_id: transferData.from_account_id,
-        to_account_id: transferData.to_account_id,
-        amount: transferData.amount,
-        description: transferData.description,
-        transaction_date: transferData.transaction_date,
-        status: 'completed',
-        created_by: 'admin',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        from_account: accounts.find(acc => acc.id === transferData.from_account_id),
-        to_account: accounts.find(acc => acc.id === transferData.to_account_id),
-      }
-
-      // Update account balances
-      const updatedAccounts = accounts.map(account => {
-        if (account.id === transferData.from_account_id) {
-          return { ...account, balance: account.balance - transferData.amount }
-        }
-        if (account.id === transferData.to_account_id) {
-          return { ...account, balance: account.balance + transferData.amount }
-        }
-        return account
-      })
+      const { error } = await cashBankApi.createTransfer(transferData)
+      if (error) throw new Error(error)
 
-      setAccounts(updatedAccounts)
-      setTransactions([newTransaction, ...transactions])
       setShowTransferModal(false)
-      
       toast.success('Transfer berhasil dilakukan')
+
+      // Balances are derived from the ledger on the server, so reload instead of patching locally
+      await fetchData()
     } catch (error) {
       console.error('Error creating transfer:', error)
-      toast.error('Gagal melakukan transfer')
+      toast.error(error instanceof Error ? error.message : 'Gagal melakukan transfer')
+    }
+  }
+
+  const handleSaveAccount = async (accountData: AccountFormData) => {
+    try {
+      const { error } = accountForm && accountForm !== 'new'
+        ? await cashBankApi.updateAccount(accountForm.id, accountData)
+        : await cashBankApi.createAccount(accountData)
+      if (error) throw new Error(error)
+
+      setAccountForm(null)
+      toast.success('Akun berhasil disimpan')
+      await fetchData()
+    } catch (error) {
+      console.error('Error saving account:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan akun')
+    }
+  }
+
+  const handleCancelTransfer = async (transaction: CashBankTransaction) => {
+    const reason = window.prompt('Alasan pembatalan transfer:')
+    if (reason === null) return
+
+    try {
+      const { error } = await cashBankApi.cancelTransfer(transaction.id, reason)
+      if (error) throw new Error(error)
+
+      toast.success('Transfer dibatalkan, saldo dikembalikan')
+      await fetchData()
+    } catch (error) {
+      console.error('Error cancelling transfer:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal membatalkan transfer')
+    }
+  }
+
+  const handleRecalculate = async () => {
+    setLoading(true)
+    try {
+      const { error } = await cashBankApi.recalculateBalances()
+      if (error) throw new Error(error)
+
+      toast.success('Saldo dihitung ulang dari riwayat transaksi')
+      await fetchData()
+    } catch (error) {
+      console.error('Error recalculating balances:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menghitung ulang saldo')
+      setLoading(false)
     }
   }
 
@@ -215,7 +186,7 @@ export function CashBankManagementPage() {
                   animate={{ opacity: 1, y: 0 }}
                   transition={{ delay: 0.1 + index * 0.1 }}
                 >
-                  <AccountBalanceCard account={account} />
+                  <AccountBalanceCard account={account} onEdit={setAccountForm} />
                 </motion.div>
               ))}
             </div>
@@ -241,6 +212,21 @@ export function CashBankManagementPage() {
               <FaSyncAlt className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
               Refresh
             </button>
+            <button
+              onClick={handleRecalculate}
+              disabled={loading}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors disabled:opacity-50"
+            >
+              <FaCalculator className="h-4 w-4 mr-2" />
+              Hitung Ulang Saldo
+            </button>
+            <button
+              onClick={() => setAccountForm('new')}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800 transition-colors"
+            >
+              <FaPlus className="h-4 w-4 mr-2" />
+              Tambah Akun
+            </button>
             <button
               onClick={() => setShowTransferModal(true)}
               className="inline-flex items-center px-6 py-2 bg-blue-600 hover:bg-blue-700 dark:bg-blue-700 dark:hover:bg-blue-800 text-white font-medium rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-800"
@@ -257,7 +243,7 @@ export function CashBankManagementPage() {
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.4 }}
         >
-          <TransactionHistory transactions={transactions} loading={loading} />
+          <TransactionHistory transactions={transactions} loading={loading} onCancel={handleCancelTransfer} />
         </motion.div>
 
         {/* Transfer Modal */}
@@ -268,6 +254,15 @@ export function CashBankManagementPage() {
             onSubmit={handleTransfer}
           />
         )}
+
+        {/* Account Modal */}
+        {accountForm && (
+          <AccountModal
+            account={accountForm === 'new' ? undefined : accountForm}
+            onClose={() => setAccountForm(null)}
+            onSubmit={handleSaveAccount}
+          />
+        )}
       </AnimatedContainer>
     </PageTransition>
   )
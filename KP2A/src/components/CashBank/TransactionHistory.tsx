@@ -1,5 +1,5 @@
 import React from 'react'
-import { FaArrowRight, FaWallet, FaUniversity } from 'react-icons/fa'
+import { FaArrowRight, FaWallet, FaUniversity, FaUndo } from 'react-icons/fa'
 import { CashBankTransaction } from '../../types/cashbank'
 import { formatCurrency } from '../../utils/numberFormat'
 import { motion } from 'framer-motion'
@@ -7,9 +7,10 @@ import { motion } from 'framer-motion'
 interface TransactionHistoryProps {
   transactions: CashBankTransaction[]
   loading?: boolean
+  onCancel?: (transaction: CashBankTransaction) => void
 }
 
-export function TransactionHistory({ transactions, loading = false }: TransactionHistoryProps) {
+export function TransactionHistory({ transactions, loading = false, onCancel }: TransactionHistoryProps) {
   const getAccountIcon = (type: 'cash' | 'bank') => {
     return type === 'cash' ? FaWallet : FaUniversity
   }
@@ -91,6 +92,11 @@ export function TransactionHistory({ transactions, loading = false }: Transactio
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                   Status
                 </th>
+                {onCancel && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Aksi
+                  </th>
+                )}
               </tr>
             </thead>
             <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
@@ -133,7 +139,23 @@ export function TransactionHistory({ transactions, loading = false }: Transactio
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {getStatusBadge(transaction.status)}
+                      {transaction.status === 'cancelled' && transaction.cancel_reason && (
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{transaction.cancel_reason}</p>
+                      )}
                     </td>
+                    {onCancel && (
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {transaction.status === 'completed' && (
+                          <button
+                            onClick={() => onCancel(transaction)}
+                            className="inline-flex items-center px-3 py-1 text-xs font-medium text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                          >
+                            <FaUndo className="h-3 w-3 mr-1" />
+                            Batalkan
+                          </button>
+                        )}
+                      </td>
+                    )}
                   </motion.tr>
                 )
               })}
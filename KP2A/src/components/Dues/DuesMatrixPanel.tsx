@@ -0,0 +1,501 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { FaCalculator, FaCheck, FaCog, FaMoneyBillWave, FaSave, FaSync, FaTable, FaTimes, FaTrash } from 'react-icons/fa'
+import { motion, AnimatePresence } from 'framer-motion'
+import toast from 'react-hot-toast'
+import { duesApi, DuesArrears, DuesMatrix, DuesMatrixCell, DuesMatrixRow, DuesPaymentPlan, DuesRate } from '../../lib/api'
+import { useAuth } from '../../contexts/AuthContext'
+import { formatCurrency } from '../../utils/numberFormat'
+
+interface DuesMatrixPanelProps {
+  // Bump to reload after the parent page changes dues rows
+  refreshKey?: number
+  // Called after a payment, rate change or generation; the parent reloads and bumps refreshKey
+  onChanged?: () => void
+}
+
+const monthNames = ['Januari', 'Februari', 'Maret', 'April', 'Mei', 'Juni', 'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember']
+
+const today = () => new Date().toISOString().split('T')[0]
+
+const emptyRate = () => ({
+  berlaku_bulan: new Date().getMonth() + 1,
+  berlaku_tahun: new Date().getFullYear(),
+  iuran_wajib: 0,
+  simpanan_wajib: 0,
+})
+
+// Unpaid months up to the current one are arrears; later unpaid months are not due yet
+const cellClass = (cell: DuesMatrixCell | null, tahun: number, bulan: number) => {
+  if (!cell) return 'bg-gray-100 dark:bg-gray-700 text-gray-400'
+  if (cell.status === 'lunas') return 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
+  const now = new Date()
+  const isDue = tahun * 12 + bulan <= now.getFullYear() * 12 + now.getMonth() + 1
+  return isDue
+    ? 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200'
+    : 'bg-yellow-50 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-200'
+}
+
+const cellTitle = (cell: DuesMatrixCell | null, tahun: number, bulan: number) => {
+  const period = `${monthNames[bulan - 1]} ${tahun}`
+  if (!cell) return `${period}: tidak ada kewajiban`
+  if (cell.status === 'lunas') {
+    const date = cell.tanggal_bayar ? new Date(cell.tanggal_bayar).toLocaleDateString('id-ID') : '-'
+    return `${period}: lunas ${date} · ${formatCurrency(cell.amount + cell.iuran_sukarela)}`
+  }
+  return `${period}: belum lunas · ${formatCurrency(cell.amount)}`
+}
+
+export function DuesMatrixPanel({ refreshKey = 0, onChanged }: DuesMatrixPanelProps) {
+  const { user } = useAuth()
+  const canManage = user?.role === 'admin' || user?.role === 'pengurus'
+
+  const [tahun, setTahun] = useState(new Date().getFullYear())
+  const [matrix, setMatrix] = useState<DuesMatrix | null>(null)
+  const [rates, setRates] = useState<DuesRate[]>([])
+  const [showRates, setShowRates] = useState(false)
+  const [rateDraft, setRateDraft] = useState(emptyRate())
+  const [search, setSearch] = useState('')
+  const [onlyArrears, setOnlyArrears] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const [paying, setPaying] = useState<DuesMatrixRow | null>(null)
+  const [arrears, setArrears] = useState<DuesArrears | null>(null)
+  const [payAmount, setPayAmount] = useState(0)
+  const [payDate, setPayDate] = useState(today())
+  const [payNotes, setPayNotes] = useState('')
+  const [plan, setPlan] = useState<DuesPaymentPlan | null>(null)
+
+  useEffect(() => {
+    loadRates()
+  }, [])
+
+  const loadMatrix = useCallback(async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await duesApi.getMatrix(tahun)
+      if (error) throw new Error(error)
+      setMatrix(data || null)
+    } catch (error) {
+      console.error('Error loading dues matrix:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal memuat matriks iuran')
+    } finally {
+      setLoading(false)
+    }
+  }, [tahun])
+
+  useEffect(() => {
+    loadMatrix()
+  }, [loadMatrix, refreshKey])
+
+  const loadRates = async () => {
+    const { data, error } = await duesApi.getRates()
+    if (error || !data) return
+    setRates(data)
+  }
+
+  const reload = () => (onChanged ? onChanged() : loadMatrix())
+
+  const rows = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    return (matrix?.members || []).filter(row =>
+      (!onlyArrears || row.arrears_count > 0) &&
+      (!q || row.nama_lengkap.toLowerCase().includes(q) || (row.id_anggota || '').toLowerCase().includes(q))
+    )
+  }, [matrix, search, onlyArrears])
+
+  const arrearsMembers = (matrix?.members || []).filter(row => row.arrears_count > 0)
+  const arrearsTotal = arrearsMembers.reduce((sum, row) => sum + row.arrears_total, 0)
+  const currentRate = rates.find(rate => {
+    const now = new Date()
+    return rate.berlaku_tahun * 12 + rate.berlaku_bulan <= now.getFullYear() * 12 + now.getMonth() + 1
+  })
+  const years = Array.from({ length: 6 }, (_, i) => new Date().getFullYear() - 4 + i)
+
+  const handleSaveRate = async () => {
+    try {
+      setSaving(true)
+      const { data, error } = await duesApi.saveRate({
+        berlaku_bulan: Number(rateDraft.berlaku_bulan),
+        berlaku_tahun: Number(rateDraft.berlaku_tahun),
+        iuran_wajib: Number(rateDraft.iuran_wajib),
+        simpanan_wajib: Number(rateDraft.simpanan_wajib),
+      })
+      if (error) throw new Error(error)
+
+      toast.success('Tarif iuran disimpan')
+      setRates(data || [])
+      setRateDraft(emptyRate())
+      reload()
+    } catch (error) {
+      console.error('Error saving dues rate:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan tarif iuran')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteRate = async (rate: DuesRate) => {
+    try {
+      const { data, error } = await duesApi.deleteRate(rate.id)
+      if (error) throw new Error(error)
+      setRates(data || [])
+      toast.success(`Tarif ${monthNames[rate.berlaku_bulan - 1]} ${rate.berlaku_tahun} dihapus`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Gagal menghapus tarif iuran')
+    }
+  }
+
+  const handleGenerate = async () => {
+    try {
+      setSaving(true)
+      const { data, error } = await duesApi.generate()
+      if (error) throw new Error(error)
+
+      toast.success(data?.created ? `${data.created} kewajiban iuran dibuat` : 'Semua kewajiban iuran sudah dibuat')
+      if (data?.created) reload()
+    } catch (error) {
+      console.error('Error generating dues:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal membuat kewajiban iuran')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const openPayment = async (row: DuesMatrixRow) => {
+    setPaying(row)
+    setArrears(null)
+    setPlan(null)
+    setPayAmount(row.arrears_total)
+    setPayDate(today())
+    setPayNotes('')
+    const { data, error } = await duesApi.getArrears(row.member_id)
+    if (error) {
+      toast.error(error)
+      return
+    }
+    setArrears((data || [])[0] || null)
+  }
+
+  // Amount that settles the oldest n months
+  const amountForMonths = (count: number) => (arrears?.months || [])
+    .slice(0, count)
+    .reduce((sum, month) => sum + month.amount, 0)
+
+  const handlePreview = async () => {
+    if (!paying) return
+    const { data, error } = await duesApi.previewPayment({ member_id: paying.member_id, amount: Number(payAmount) })
+    if (error) {
+      setPlan(null)
+      toast.error(error)
+      return
+    }
+    setPlan(data || null)
+  }
+
+  const handlePay = async () => {
+    if (!paying) return
+    try {
+      setSaving(true)
+      const { data, error } = await duesApi.payArrears({
+        member_id: paying.member_id,
+        amount: Number(payAmount),
+        tanggal_bayar: payDate,
+        notes: payNotes.trim() || undefined,
+      })
+      if (error) throw new Error(error)
+
+      toast.success(`${data?.dues.length || 0} bulan iuran ${paying.nama_lengkap} dilunasi`)
+      setPaying(null)
+      reload()
+    } catch (error) {
+      console.error('Error paying dues arrears:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mencatat pembayaran tunggakan')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-600 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-600 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <FaTable className="h-4 w-4 text-blue-500" />
+          <div>
+            <h3 className="font-semibold text-gray-900 dark:text-gray-100">Matriks Iuran & Tunggakan</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {currentRate
+                ? `Tarif berjalan: iuran wajib ${formatCurrency(currentRate.iuran_wajib)} + simpanan wajib ${formatCurrency(currentRate.simpanan_wajib)}`
+                : 'Belum ada tarif iuran, kewajiban bulanan belum dibuat otomatis'}
+              {' · '}{arrearsMembers.length} anggota menunggak: <strong>{formatCurrency(arrearsTotal)}</strong>
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Cari anggota..."
+            className="border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-lg px-2 py-1 text-sm w-40"
+          />
+          <label className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+            <input type="checkbox" checked={onlyArrears} onChange={(e) => setOnlyArrears(e.target.checked)} />
+            Menunggak
+          </label>
+          <select
+            value={tahun}
+            onChange={(e) => setTahun(Number(e.target.value))}
+            className="border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-lg px-2 py-1 text-sm"
+          >
+            {years.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+          {canManage && (
+            <>
+              <button onClick={handleGenerate} disabled={saving} className="btn btn-secondary btn-sm gap-1" title="Buat kewajiban iuran sampai bulan ini">
+                <FaSync className="h-3 w-3" /> Generate
+              </button>
+              <button onClick={() => setShowRates(!showRates)} className="btn btn-secondary btn-sm gap-1">
+                <FaCog className="h-3 w-3" /> Tarif
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {showRates && canManage && (
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/50 space-y-3 text-sm">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+            <div>
+              <label className="form-label">Berlaku Bulan</label>
+              <select
+                value={rateDraft.berlaku_bulan}
+                onChange={(e) => setRateDraft({ ...rateDraft, berlaku_bulan: Number(e.target.value) })}
+                className="select focus-ring w-full"
+              >
+                {monthNames.map((name, i) => <option key={name} value={i + 1}>{name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Tahun</label>
+              <input
+                type="number"
+                value={rateDraft.berlaku_tahun}
+                onChange={(e) => setRateDraft({ ...rateDraft, berlaku_tahun: Number(e.target.value) })}
+                className="input focus-ring w-full"
+              />
+            </div>
+            <div>
+              <label className="form-label">Iuran Wajib (Rp)</label>
+              <input
+                type="number"
+                min="0"
+                step="1000"
+                value={rateDraft.iuran_wajib}
+                onChange={(e) => setRateDraft({ ...rateDraft, iuran_wajib: Number(e.target.value) })}
+                className="input focus-ring w-full"
+              />
+            </div>
+            <div>
+              <label className="form-label">Simpanan Wajib (Rp)</label>
+              <input
+                type="number"
+                min="0"
+                step="1000"
+                value={rateDraft.simpanan_wajib}
+                onChange={(e) => setRateDraft({ ...rateDraft, simpanan_wajib: Number(e.target.value) })}
+                className="input focus-ring w-full"
+              />
+            </div>
+            <div className="flex justify-end">
+              <button onClick={handleSaveRate} disabled={saving} className="btn btn-primary btn-sm gap-1">
+                <FaSave className="h-3 w-3" /> Simpan Tarif
+              </button>
+            </div>
+          </div>
+          {rates.length > 0 && (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-600 border border-gray-200 dark:border-gray-600 rounded bg-white dark:bg-gray-800">
+              {rates.map(rate => (
+                <li key={rate.id} className="px-3 py-2 flex items-center justify-between text-gray-700 dark:text-gray-300">
+                  <span>
+                    Mulai {monthNames[rate.berlaku_bulan - 1]} {rate.berlaku_tahun}: iuran wajib {formatCurrency(rate.iuran_wajib)},
+                    simpanan wajib {formatCurrency(rate.simpanan_wajib)}
+                  </span>
+                  <button
+                    onClick={() => handleDeleteRate(rate)}
+                    className="p-1 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                    title="Hapus tarif (kewajiban yang sudah dibuat tidak berubah)"
+                  >
+                    <FaTrash className="h-3 w-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-600 text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase sticky left-0 bg-gray-50 dark:bg-gray-700">Anggota</th>
+              {monthNames.map(name => (
+                <th key={name} className="px-1 py-2 text-center text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">{name.slice(0, 3)}</th>
+              ))}
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Tunggakan</th>
+              {canManage && <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Aksi</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+            {loading ? (
+              <tr>
+                <td colSpan={15} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">Memuat matriks iuran...</td>
+              </tr>
+            ) : rows.length === 0 ? (
+              <tr>
+                <td colSpan={15} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">Tidak ada data</td>
+              </tr>
+            ) : rows.map(row => (
+              <tr key={row.member_id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                <td className="px-4 py-2 text-gray-900 dark:text-gray-100 whitespace-nowrap sticky left-0 bg-white dark:bg-gray-800">
+                  {row.nama_lengkap}
+                  {row.id_anggota && <span className="block text-xs text-gray-500 dark:text-gray-400">{row.id_anggota}</span>}
+                </td>
+                {row.months.map((cell, i) => (
+                  <td key={i} className="px-1 py-2 text-center">
+                    <span
+                      className={`inline-flex h-6 w-6 items-center justify-center rounded text-xs ${cellClass(cell, tahun, i + 1)}`}
+                      title={cellTitle(cell, tahun, i + 1)}
+                    >
+                      {cell ? (cell.status === 'lunas' ? <FaCheck className="h-3 w-3" /> : '!') : '-'}
+                    </span>
+                  </td>
+                ))}
+                <td className="px-4 py-2 text-right whitespace-nowrap">
+                  {row.arrears_count > 0 ? (
+                    <>
+                      <span className="font-medium text-red-600 dark:text-red-400">{row.arrears_count} bulan</span>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">{formatCurrency(row.arrears_total)}</span>
+                    </>
+                  ) : (
+                    <span className="text-gray-500 dark:text-gray-400">-</span>
+                  )}
+                </td>
+                {canManage && (
+                  <td className="px-4 py-2">
+                    {row.arrears_count > 0 && (
+                      <button
+                        onClick={() => openPayment(row)}
+                        className="p-2 text-green-600 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 rounded"
+                        title="Bayar tunggakan"
+                      >
+                        <FaMoneyBillWave className="h-4 w-4" />
+                      </button>
+                    )}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Arrears Payment Dialog */}
+      <AnimatePresence>
+        {paying && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+            onClick={() => setPaying(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-[520px] max-w-[95vw] max-h-[90vh] overflow-y-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Bayar Tunggakan Iuran</h3>
+                <button onClick={() => setPaying(null)} className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300">
+                  <FaTimes className="h-5 w-5" />
+                </button>
+              </div>
+              <div className="p-5 space-y-3 text-sm">
+                <p className="text-gray-700 dark:text-gray-300">
+                  {paying.nama_lengkap} · {arrears ? `${arrears.months.length} bulan` : '...'} ·{' '}
+                  <strong>{formatCurrency(arrears?.total ?? paying.arrears_total)}</strong>
+                </p>
+                {arrears && (
+                  <div className="flex flex-wrap gap-1">
+                    {arrears.months.map(month => (
+                      <span key={month.id} className="px-2 py-0.5 rounded bg-red-50 dark:bg-red-900/30 text-xs text-red-700 dark:text-red-300">
+                        {monthNames[month.bulan - 1].slice(0, 3)} {month.tahun}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div className="form-group-compact">
+                  <label className="form-label">Jumlah Dibayar</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={payAmount}
+                    onChange={(e) => { setPayAmount(Number(e.target.value)); setPlan(null) }}
+                    className="input focus-ring w-full"
+                  />
+                  {arrears && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {[1, 3, 6].filter(n => n < arrears.months.length).map(n => (
+                        <button key={n} onClick={() => { setPayAmount(amountForMonths(n)); setPlan(null) }} className="btn btn-secondary btn-sm">
+                          {n} bulan
+                        </button>
+                      ))}
+                      <button onClick={() => { setPayAmount(arrears.total); setPlan(null) }} className="btn btn-secondary btn-sm">
+                        Semua ({arrears.months.length} bulan)
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="form-group-compact">
+                    <label className="form-label">Tanggal Bayar</label>
+                    <input type="date" value={payDate} onChange={(e) => setPayDate(e.target.value)} className="input focus-ring w-full" />
+                  </div>
+                  <div className="form-group-compact">
+                    <label className="form-label">Catatan</label>
+                    <input value={payNotes} onChange={(e) => setPayNotes(e.target.value)} className="input focus-ring w-full" />
+                  </div>
+                </div>
+                {plan && (
+                  <div className="rounded border border-gray-200 dark:border-gray-700 p-3 text-gray-700 dark:text-gray-300 space-y-1">
+                    <p>
+                      Melunasi <strong>{plan.settled.length} bulan</strong>:{' '}
+                      {plan.settled.map(d => `${monthNames[d.bulan - 1].slice(0, 3)} ${d.tahun}`).join(', ')}
+                    </p>
+                    {plan.sukarela > 0 && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Sisa {formatCurrency(plan.sukarela)} dicatat sebagai simpanan sukarela
+                      </p>
+                    )}
+                  </div>
+                )}
+                <div className="flex justify-end gap-2 pt-2">
+                  <button onClick={() => setPaying(null)} className="btn btn-secondary">Batal</button>
+                  <button onClick={handlePreview} disabled={saving} className="btn btn-secondary gap-1">
+                    <FaCalculator className="h-3 w-3" /> Hitung
+                  </button>
+                  <button onClick={handlePay} disabled={saving || !plan} className="btn btn-primary">
+                    {saving ? 'Menyimpan...' : 'Simpan Pembayaran'}
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
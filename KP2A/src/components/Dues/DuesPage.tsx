@@ -2,7 +2,8 @@ import React, { useEffect, useMemo, useState } from 'react'
 import { useSearchParams } from 'react-router-dom'
 import { FaPlus, FaSearch, FaFilter, FaPencilAlt, FaTrash, FaTimes, FaExclamationTriangle, FaCheck } from 'react-icons/fa'
 import { Due, Member } from '../../types'
-import { duesApi, membersApi } from '../../lib/api'
+import { repositories } from '../../lib/repositories'
+import { queueWrite, withOfflineCache } from '../../lib/syncQueue'
 import toast from 'react-hot-toast'
 import { motion, AnimatePresence } from 'framer-motion'
 import { DuesForm, DuesFormValues } from './DuesForm'
@@ -10,6 +11,8 @@ import { useAuth } from '../../contexts/AuthContext'
 import { createDuesPaymentNotification } from '../../utils/notificationHelpers'
 import { formatCurrency } from '../../utils/numberFormat'
 import { reseedDuesData } from '../../utils/reseed-dues'
+import { PenaltyPanel } from '../Penalties/PenaltyPanel'
+import { DuesMatrixPanel } from './DuesMatrixPanel'
 
 type StatusFilter = 'all' | 'lunas' | 'belum_lunas'
 
@@ -20,6 +23,7 @@ export function DuesPage() {
   const [allDues, setAllDues] = useState<(Due & { member?: Member })[]>([]) // For total calculation
   const [members, setMembers] = useState<Member[]>([])
   const [loading, setLoading] = useState(true)
+  const [penaltyRefresh, setPenaltyRefresh] = useState(0)
   const [search, setSearch] = useState('')
   const [status, setStatus] = useState<StatusFilter>('all')
   const [month, setMonth] = useState<number | 'all'>('all')
@@ -56,12 +60,16 @@ export function DuesPage() {
   const fetchAll = async () => {
     setLoading(true)
     try {
-      const { data: membersData, error: membersError } = await membersApi.getAll()
+      const { data: membersData, error: membersError, offline } = await withOfflineCache('members', () => repositories.members.list())
       if (membersError) throw new Error(membersError)
 
-      const { data: duesData, error: duesError } = await duesApi.getAll()
+      const { data: duesData, error: duesError } = await withOfflineCache('dues', () => repositories.dues.list())
       if (duesError) throw new Error(duesError)
 
+      if (offline) {
+        toast('Tidak ada koneksi. Menampilkan data terakhir yang tersimpan di perangkat.', { icon: '📴' })
+      }
+
       setMembers(membersData || [])
 
       // Set all dues data - filtering will be done in frontend
@@ -94,6 +102,7 @@ export function DuesPage() {
       ))
     } finally {
       setLoading(false)
+      setPenaltyRefresh((key) => key + 1)
     }
   }
 
@@ -134,7 +143,20 @@ export function DuesPage() {
     console.log('Creating dues with payload:', payload)
 
     try {
-      const { data, error } = await duesApi.create(payload)
+      const { data, error, offline } = await repositories.dues.create(payload)
+
+      if (offline) {
+        const member = members.find(m => m.id === values.member_id)
+        await queueWrite({
+          entity: 'dues',
+          operation: 'create',
+          payload,
+          label: `${member?.nama_lengkap || 'Anggota'} ${values.bulan}/${values.tahun} (${formatCurrency(values.iuran_wajib + values.iuran_sukarela)})`
+        })
+        toast.success('Tidak ada koneksi. Iuran disimpan di perangkat dan dikirim otomatis saat online.')
+        setShowForm(false)
+        return
+      }
 
       if (error) {
         if (error.includes('sudah ada')) throw new Error('Iuran untuk bulan/tahun ini sudah ada')
@@ -196,7 +218,31 @@ export function DuesPage() {
         status: values.status,
       }
 
-      const { data, error } = await duesApi.update(id, payload)
+      const current = dues.find(d => d.id === id)
+      const { data, error, offline, status: httpStatus } = await repositories.dues.update(id, payload, current?.version)
+
+      if (offline) {
+        await queueWrite({
+          entity: 'dues',
+          operation: 'update',
+          recordId: id,
+          payload,
+          baseVersion: current?.version,
+          label: `${current?.member?.nama_lengkap || 'Anggota'} ${current?.bulan}/${current?.tahun}`
+        })
+        setDues((prev) => prev.map((d) => (d.id === id ? { ...d, ...payload } : d)))
+        setAllDues((prev) => prev.map((d) => (d.id === id ? { ...d, ...payload } : d)))
+        toast.success('Tidak ada koneksi. Perubahan disimpan di perangkat dan dikirim otomatis saat online.')
+        setEditing(null)
+        setShowForm(false)
+        return
+      }
+
+      if (httpStatus === 409) {
+        // Someone else changed this due since the list was loaded
+        fetchAll()
+        throw new Error(`${error}. Data terbaru sudah dimuat, silakan ulangi perubahan.`)
+      }
       if (error) throw new Error(error)
       if (!data) throw new Error('No data returned')
 
@@ -231,8 +277,23 @@ export function DuesPage() {
 
   const handleDelete = async (id: string) => {
     try {
-      const { error } = await duesApi.delete(id)
-      if (error) throw new Error(error)
+      const current = dues.find(d => d.id === id)
+      const { error, offline, status: httpStatus } = await repositories.dues.remove(id, current?.version)
+
+      if (offline) {
+        await queueWrite({
+          entity: 'dues',
+          operation: 'delete',
+          recordId: id,
+          baseVersion: current?.version,
+          label: `${current?.member?.nama_lengkap || 'Anggota'} ${current?.bulan}/${current?.tahun}`
+        })
+      } else if (httpStatus === 409) {
+        fetchAll()
+        throw new Error(`${error}. Data terbaru sudah dimuat.`)
+      } else if (error) {
+        throw new Error(error)
+      }
 
       const next = dues.filter((d) => d.id !== id)
       setDues(next)
@@ -243,7 +304,7 @@ export function DuesPage() {
         newSet.delete(id)
         return newSet
       })
-      toast.success('Iuran dihapus')
+      toast.success(offline ? 'Tidak ada koneksi. Penghapusan dikirim otomatis saat online.' : 'Iuran dihapus')
     } catch (err: any) {
       toast.error(err?.message || 'Gagal menghapus iuran')
     } finally {
@@ -259,7 +320,7 @@ export function DuesPage() {
       const idsArray = Array.from(selectedIds)
 
       // Execute in parallel
-      await Promise.all(idsArray.map(id => duesApi.delete(id)))
+      await Promise.all(idsArray.map(id => repositories.dues.remove(id)))
 
       const next = dues.filter((d) => !selectedIds.has(d.id))
       setDues(next)
@@ -466,7 +527,7 @@ export function DuesPage() {
                     <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{formatCurrency(Number(d.iuran_wajib || 0))}</td>
                     <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{formatCurrency(Number(d.iuran_sukarela || 0))}</td>
                     <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{formatCurrency(Number(d.simpanan_wajib || 0))}</td>
-                    <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{new Date(d.tanggal_bayar).toLocaleDateString('id-ID')}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700 dark:text-gray-300">{d.tanggal_bayar ? new Date(d.tanggal_bayar).toLocaleDateString('id-ID') : '-'}</td>
                     <td className="px-4 py-3 text-sm">
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${d.status === 'lunas' ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200' : 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200'}`}>{d.status}</span>
                     </td>
@@ -528,6 +589,12 @@ export function DuesPage() {
         </div>
       </div >
 
+      {/* Kewajiban bulanan dan tunggakan */}
+      <DuesMatrixPanel refreshKey={penaltyRefresh} onChanged={fetchAll} />
+
+      {/* Denda keterlambatan */}
+      <PenaltyPanel source="dues" refreshKey={penaltyRefresh} />
+
       {/* Create / Edit Dialog */}
       <AnimatePresence>
         {
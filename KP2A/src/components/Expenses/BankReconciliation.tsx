@@ -0,0 +1,373 @@
+import { useMemo, useState } from 'react'
+import { FaCheckCircle, FaExclamationTriangle, FaFileUpload, FaQuestionCircle, FaUniversity } from 'react-icons/fa'
+import toast from 'react-hot-toast'
+import * as XLSX from 'xlsx'
+import { Card } from '../UI/Card'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { repositories } from '../../lib/repositories'
+import { bankWithdrawalClassificationService, ClassificationResult } from '../../services/bankWithdrawalClassificationService'
+import { BANK_STATEMENT_FORMATS, BankCode, BankStatementLine, parseBankStatement } from '../../utils/bankStatement'
+import { reconcileStatement, ReconciliationRecord, ReconciliationResult, ReconciliationSource } from '../../utils/bankReconciliation'
+import { formatCurrency } from '../../utils/numberFormat'
+import { formatToIndonesian } from '../../utils/dateFormat'
+
+const SOURCE_LABELS: Record<ReconciliationSource, string> = {
+  transaction: 'Transaksi',
+  due: 'Iuran',
+  loan_payment: 'Angsuran'
+}
+
+const shiftDate = (date: string, days: number) => {
+  const shifted = new Date(date)
+  shifted.setDate(shifted.getDate() + days)
+  return shifted.toISOString().slice(0, 10)
+}
+
+const inPeriod = (date: string | undefined, from: string, to: string) => {
+  const day = date?.slice(0, 10)
+  return !!day && day >= from && day <= to
+}
+
+// Transactions, paid dues and loan payments dated within the statement period (plus tolerance)
+async function loadRecords(from: string, to: string): Promise<{ records: ReconciliationRecord[]; warnings: string[] }> {
+  const records: ReconciliationRecord[] = []
+  const warnings: string[] = []
+
+  const transactions = await repositories.transactions.list()
+  if (transactions.error) {
+    warnings.push(`Transaksi tidak dicocokkan: ${transactions.error}`)
+  } else {
+    (transactions.data || [])
+      .filter(transaction => transaction.status !== 'rejected' && inPeriod(transaction.transaction_date, from, to))
+      .forEach(transaction => records.push({
+        id: transaction.id,
+        source: 'transaction',
+        date: transaction.transaction_date.slice(0, 10),
+        amount: Number(transaction.amount),
+        direction: transaction.transaction_type === 'expense' ? 'debit' : 'credit',
+        description: [transaction.description, transaction.category?.name].filter(Boolean).join(' ')
+      }))
+  }
+
+  const dues = await repositories.dues.list()
+  if (dues.error) {
+    warnings.push(`Iuran tidak dicocokkan: ${dues.error}`)
+  } else {
+    (dues.data || [])
+      .filter(due => due.status === 'lunas' && inPeriod(due.tanggal_bayar, from, to))
+      .forEach(due => records.push({
+        id: due.id,
+        source: 'due',
+        date: String(due.tanggal_bayar).slice(0, 10),
+        amount: Number(due.iuran_wajib || 0) + Number(due.iuran_sukarela || 0) + Number(due.simpanan_wajib || 0),
+        direction: 'credit',
+        description: `Iuran ${due.bulan}/${due.tahun} ${due.nama_lengkap || ''}`
+      }))
+  }
+
+  const loans = await repositories.loans.list()
+  if (loans.error) {
+    warnings.push(`Angsuran tidak dicocokkan: ${loans.error}`)
+  } else {
+    const payments = await Promise.all((loans.data || []).map(async loan => {
+      const response = await repositories.loanPayments.list(loan.id)
+      return (response.data || []).map(payment => ({ payment, loan }))
+    }))
+    payments.flat()
+      .filter(({ payment }) => inPeriod(payment.tanggal_bayar, from, to))
+      .forEach(({ payment, loan }) => records.push({
+        id: payment.id,
+        source: 'loan_payment',
+        date: String(payment.tanggal_bayar).slice(0, 10),
+        amount: Number(payment.total_angsuran),
+        direction: 'credit',
+        description: `Angsuran ke-${payment.angsuran_ke} ${loan.nama_lengkap || ''}`
+      }))
+  }
+
+  return { records, warnings }
+}
+
+// Category names for pattern suggestions; empty while transaction categories are unavailable
+async function loadCategoryNames(): Promise<Map<string, string>> {
+  const { data } = await repositories.transactionCategories.list()
+  return new Map((data || []).map(category => [category.id, category.name]))
+}
+
+export function BankReconciliation() {
+  const [bank, setBank] = useState<BankCode>('bjb')
+  const [year, setYear] = useState(new Date().getFullYear())
+  const [tolerance, setTolerance] = useState(3)
+  const [fileName, setFileName] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [result, setResult] = useState<ReconciliationResult | null>(null)
+  const [parseErrors, setParseErrors] = useState<{ line: number; message: string }[]>([])
+  const [warnings, setWarnings] = useState<string[]>([])
+  const [suggestions, setSuggestions] = useState<Map<BankStatementLine, ClassificationResult>>(new Map())
+  const [categoryNames, setCategoryNames] = useState<Map<string, string>>(new Map())
+
+  const handleFile = async (file: File) => {
+    setLoading(true)
+    setFileName(file.name)
+    setResult(null)
+    try {
+      const buffer = await file.arrayBuffer()
+      // CSV cells are kept as text so amounts like 1.500.000,00 are not misread as numbers
+      const workbook = XLSX.read(buffer, { type: 'array', cellDates: true, raw: /\.csv$/i.test(file.name) })
+      const sheet = workbook.Sheets[workbook.SheetNames[0]]
+      const rows = XLSX.utils.sheet_to_json<(string | number | Date | null)[]>(sheet, { header: 1, raw: true, defval: null })
+
+      const parsed = parseBankStatement(rows, bank, year)
+      if (parsed.lines.length === 0) {
+        throw new Error('Tidak ada baris mutasi yang terbaca dari file ini')
+      }
+      setParseErrors(parsed.errors)
+
+      const dates = parsed.lines.map(line => line.date).sort()
+      const { records, warnings: loadWarnings } = await loadRecords(
+        shiftDate(dates[0], -tolerance),
+        shiftDate(dates[dates.length - 1], tolerance)
+      )
+      const reconciliation = reconcileStatement(parsed.lines, records, { dateToleranceDays: tolerance })
+
+      // Withdrawals nobody booked yet get a category from the classification patterns
+      const patterns = await bankWithdrawalClassificationService.getActivePatterns().catch(() => [])
+      const suggested = new Map<BankStatementLine, ClassificationResult>()
+      reconciliation.unmatchedLines
+        .filter(line => line.direction === 'debit')
+        .forEach(line => {
+          const suggestion = bankWithdrawalClassificationService.suggestFromPatterns(
+            { description: line.description, amount: line.amount, transaction_date: line.date },
+            patterns
+          )
+          if (suggestion) suggested.set(line, suggestion)
+        })
+
+      setCategoryNames(await loadCategoryNames().catch(() => new Map()))
+      setSuggestions(suggested)
+      setWarnings(loadWarnings)
+      setResult(reconciliation)
+      toast.success(`${reconciliation.matched.length} dari ${parsed.lines.length} baris mutasi cocok`)
+    } catch (error) {
+      console.error('Failed to reconcile bank statement:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal membaca file mutasi')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const totals = useMemo(() => {
+    if (!result) return null
+    const sum = (lines: BankStatementLine[]) => lines.reduce((total, line) => total + line.amount, 0)
+    return {
+      lines: result.matched.length + result.unmatchedLines.length,
+      matchedAmount: sum(result.matched.map(match => match.line)),
+      unmatchedAmount: sum(result.unmatchedLines)
+    }
+  }, [result])
+
+  const amountCell = (line: { amount: number; direction: 'debit' | 'credit' }) => (
+    <span className={line.direction === 'debit' ? 'text-red-600' : 'text-green-600'}>
+      {line.direction === 'debit' ? '-' : '+'}{formatCurrency(line.amount)}
+    </span>
+  )
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center">
+          <FaUniversity className="h-5 w-5 mr-2 text-blue-600" />
+          Rekonsiliasi Mutasi Rekening
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="form-group-compact">
+            <label className="form-label">Bank</label>
+            <select className="select" value={bank} onChange={(e) => setBank(e.target.value as BankCode)}>
+              {Object.values(BANK_STATEMENT_FORMATS).map(format => (
+                <option key={format.bank} value={format.bank}>{format.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group-compact">
+            <label className="form-label">Tahun (jika tanggal tanpa tahun)</label>
+            <input type="number" className="input" value={year} onChange={(e) => setYear(Number(e.target.value))} />
+          </div>
+          <div className="form-group-compact">
+            <label className="form-label">Toleransi tanggal (hari)</label>
+            <input type="number" min={0} max={14} className="input" value={tolerance} onChange={(e) => setTolerance(Number(e.target.value))} />
+          </div>
+          <div className="form-group-compact">
+            <label className="form-label">File mutasi (CSV/Excel)</label>
+            <label className="btn btn-primary flex items-center justify-center cursor-pointer">
+              <FaFileUpload className="h-4 w-4 mr-2" />
+              {fileName || 'Pilih file'}
+              <input
+                type="file"
+                accept=".csv,.xls,.xlsx"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleFile(file)
+                  e.target.value = ''
+                }}
+              />
+            </label>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+          Baris mutasi dicocokkan dengan transaksi, iuran lunas dan angsuran pinjaman berdasarkan nominal yang sama,
+          tanggal dalam batas toleransi, dan kemiripan keterangan.
+        </p>
+      </Card>
+
+      {loading && (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {!loading && result && totals && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card className="p-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Cocok</p>
+              <p className="text-2xl font-bold text-green-600">{result.matched.length} / {totals.lines}</p>
+              <p className="text-xs text-gray-500">{formatCurrency(totals.matchedAmount)}</p>
+            </Card>
+            <Card className="p-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Mutasi belum tercatat</p>
+              <p className="text-2xl font-bold text-yellow-600">{result.unmatchedLines.length}</p>
+              <p className="text-xs text-gray-500">{formatCurrency(totals.unmatchedAmount)}</p>
+            </Card>
+            <Card className="p-4">
+              <p className="text-sm text-gray-600 dark:text-gray-400">Tercatat tanpa mutasi</p>
+              <p className="text-2xl font-bold text-red-600">{result.unmatchedRecords.length}</p>
+              <p className="text-xs text-gray-500">Transaksi, iuran atau angsuran pada periode mutasi</p>
+            </Card>
+          </div>
+
+          {(warnings.length > 0 || parseErrors.length > 0) && (
+            <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 text-sm text-yellow-800 dark:text-yellow-200 space-y-1">
+              {warnings.map(warning => <p key={warning}>{warning}</p>)}
+              {parseErrors.map(error => <p key={error.line}>Baris {error.line}: {error.message}</p>)}
+            </div>
+          )}
+
+          <Card className="p-6">
+            <h4 className="font-semibold text-gray-900 dark:text-gray-100 mb-3 flex items-center">
+              <FaCheckCircle className="h-4 w-4 mr-2 text-green-600" />
+              Cocok ({result.matched.length})
+            </h4>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-2 pr-4">Tanggal</th>
+                    <th className="py-2 pr-4">Keterangan Bank</th>
+                    <th className="py-2 pr-4 text-right">Nominal</th>
+                    <th className="py-2 pr-4">Dicocokkan dengan</th>
+                    <th className="py-2 text-right">Keyakinan</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {result.matched.map(match => (
+                    <tr key={match.line.line}>
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatToIndonesian(match.line.date)}</td>
+                      <td className="py-2 pr-4">{match.line.description}</td>
+                      <td className="py-2 pr-4 text-right whitespace-nowrap">{amountCell(match.line)}</td>
+                      <td className="py-2 pr-4">
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-800 mr-2">{SOURCE_LABELS[match.record.source]}</span>
+                        {match.record.description}
+                        {match.dateDifference > 0 && (
+                          <span className="text-xs text-gray-500 ml-1">({formatToIndonesian(match.record.date)})</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">{match.confidence}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+
+          <Card className="p-6">
+            <h4 className="font-semibold text-gray-900 dark:text-gray-100 mb-3 flex items-center">
+              <FaQuestionCircle className="h-4 w-4 mr-2 text-yellow-600" />
+              Mutasi belum tercatat ({result.unmatchedLines.length})
+            </h4>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 uppercase">
+                    <th className="py-2 pr-4">Tanggal</th>
+                    <th className="py-2 pr-4">Keterangan Bank</th>
+                    <th className="py-2 pr-4 text-right">Nominal</th>
+                    <th className="py-2">Saran Kategori</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {result.unmatchedLines.map(line => {
+                    const suggestion = suggestions.get(line)
+                    return (
+                      <tr key={line.line}>
+                        <td className="py-2 pr-4 whitespace-nowrap">{formatToIndonesian(line.date)}</td>
+                        <td className="py-2 pr-4">{line.description}</td>
+                        <td className="py-2 pr-4 text-right whitespace-nowrap">{amountCell(line)}</td>
+                        <td className="py-2">
+                          {suggestion ? (
+                            <span>
+                              {categoryNames.get(suggestion.suggested_category_id) || suggestion.patterns_matched[0]}
+                              <span className="text-xs text-gray-500 ml-1">
+                                ({suggestion.patterns_matched[0]}, {suggestion.confidence_score}%)
+                              </span>
+                            </span>
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+
+          {result.unmatchedRecords.length > 0 && (
+            <Card className="p-6">
+              <h4 className="font-semibold text-gray-900 dark:text-gray-100 mb-3 flex items-center">
+                <FaExclamationTriangle className="h-4 w-4 mr-2 text-red-600" />
+                Tercatat tanpa mutasi ({result.unmatchedRecords.length})
+              </h4>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 uppercase">
+                      <th className="py-2 pr-4">Tanggal</th>
+                      <th className="py-2 pr-4">Jenis</th>
+                      <th className="py-2 pr-4">Keterangan</th>
+                      <th className="py-2 text-right">Nominal</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                    {result.unmatchedRecords.map(record => (
+                      <tr key={`${record.source}-${record.id}`}>
+                        <td className="py-2 pr-4 whitespace-nowrap">{formatToIndonesian(record.date)}</td>
+                        <td className="py-2 pr-4">{SOURCE_LABELS[record.source]}</td>
+                        <td className="py-2 pr-4">{record.description}</td>
+                        <td className="py-2 text-right whitespace-nowrap">{amountCell(record)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Pembayaran tunai memang tidak muncul di mutasi; periksa yang seharusnya lewat rekening.
+              </p>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -18,7 +18,7 @@ import { useForm } from 'react-hook-form'
 import { yupResolver } from '@hookform/resolvers/yup'
 import * as yup from 'yup'
 import { TransactionCategory } from '../../types/transactions'
-import { isDatabaseAvailable, databaseClient, withTimeout } from '../../lib/database'
+import { repositories } from '../../lib/repositories'
 import { useAuth } from '../../contexts/AuthContext'
 import { toast } from 'sonner'
 import { Card } from '../ui/Card'
@@ -28,7 +28,7 @@ import { bankWithdrawalClassificationService, BankWithdrawalPattern } from '../.
 
 // Types
 interface BankWithdrawalCategory extends TransactionCategory {
-  withdrawal_type?: string;
+  withdrawal_type?: string | null;
   auto_classification_rules?: any;
   validation_rules?: any;
 }
@@ -189,21 +189,12 @@ export function BankWithdrawalCategoryManagement() {
   }
 
   const loadCategories = async () => {
-    if (!isDatabaseAvailable() || !databaseClient) return
+    const { data, error } = await repositories.transactionCategories.list({ type: 'expense' })
+    if (error) throw new Error(error)
 
-    const { data, error } = await withTimeout(
-      databaseClient
-        .from('transaction_categories')
-        .select('*')
-        .eq('type', 'expense')
-        .not('withdrawal_type', 'is', null)
-        .order('name'),
-      5000,
-      'fetch bank withdrawal categories'
-    )
-
-    if (error) throw error
-    setCategories(data || [])
+    setCategories((data || [])
+      .filter(category => category.withdrawal_type)
+      .sort((a, b) => a.name.localeCompare(b.name)))
   }
 
   const loadPatterns = async () => {
@@ -243,10 +234,6 @@ export function BankWithdrawalCategoryManagement() {
 
   const handleCategorySubmit = async (data: CategoryFormValues) => {
     try {
-      if (!isDatabaseAvailable() || !databaseClient) {
-        throw new Error('Database connection not available')
-      }
-
       const categoryData = {
         name: data.name,
         type: 'expense' as const,
@@ -255,30 +242,16 @@ export function BankWithdrawalCategoryManagement() {
         description: data.description,
         auto_classification_rules: data.auto_classification_rules,
         validation_rules: data.validation_rules,
-        is_active: true,
-        updated_at: new Date().toISOString()
+        is_active: true
       }
 
       if (editingItem) {
-        const { error } = await withTimeout(
-          databaseClient
-            .from('transaction_categories')
-            .update(categoryData)
-            .eq('id', editingItem.id),
-          5000,
-          'update category'
-        )
-        if (error) throw error
+        const { error } = await repositories.transactionCategories.update(editingItem.id, categoryData)
+        if (error) throw new Error(error)
         toast.success('Kategori berhasil diperbarui')
       } else {
-        const { error } = await withTimeout(
-          databaseClient
-            .from('transaction_categories')
-            .insert(categoryData),
-          5000,
-          'create category'
-        )
-        if (error) throw error
+        const { error } = await repositories.transactionCategories.create(categoryData)
+        if (error) throw new Error(error)
         toast.success('Kategori berhasil ditambahkan')
       }
 
@@ -294,20 +267,8 @@ export function BankWithdrawalCategoryManagement() {
 
   const handleDeleteCategory = async (id: string) => {
     try {
-      if (!isDatabaseAvailable() || !databaseClient) {
-        throw new Error('Database connection not available')
-      }
-
-      const { error } = await withTimeout(
-        databaseClient
-          .from('transaction_categories')
-          .delete()
-          .eq('id', id),
-        5000,
-        'delete category'
-      )
-
-      if (error) throw error
+      const { error } = await repositories.transactionCategories.remove(id)
+      if (error) throw new Error(error)
       toast.success('Kategori berhasil dihapus')
       setConfirmDeleteId(null)
       await loadCategories()
@@ -15,7 +15,7 @@ import {
   FaUserEdit
 } from 'react-icons/fa'
 import { LoadingSpinner } from '../UI/LoadingSpinner'
-import { bankWithdrawalClassificationService } from '../../services/bankWithdrawalClassificationService'
+import { bankWithdrawalClassificationService, LearnedModelReport } from '../../services/bankWithdrawalClassificationService'
 import { formatCurrency } from '../../utils/formatters'
 import { 
   LineChart, 
@@ -74,6 +74,7 @@ interface BankWithdrawalMonitoringDashboardProps {
 
 export function BankWithdrawalMonitoringDashboard({ className = '' }: BankWithdrawalMonitoringDashboardProps) {
   const [metrics, setMetrics] = useState<ClassificationMetrics | null>(null)
+  const [modelReport, setModelReport] = useState<LearnedModelReport | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d'>('30d')
@@ -87,8 +88,15 @@ export function BankWithdrawalMonitoringDashboard({ className = '' }: BankWithdr
     setError(null)
     
     try {
-      const analytics = await bankWithdrawalClassificationService.getClassificationAnalytics(timeRange)
+      const [analytics, report] = await Promise.all([
+        bankWithdrawalClassificationService.getClassificationAnalytics(timeRange),
+        bankWithdrawalClassificationService.getLearnedModelReport().catch(err => {
+          console.error('Failed to evaluate learned model:', err)
+          return null
+        })
+      ])
       setMetrics(analytics)
+      setModelReport(report)
     } catch (err) {
       console.error('Failed to load classification metrics:', err)
       setError('Gagal memuat data monitoring')
@@ -450,6 +458,58 @@ export function BankWithdrawalMonitoringDashboard({ className = '' }: BankWithdr
         </Card>
       </div>
 
+      {/* Learned Model Precision */}
+      {modelReport && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FaRobot className="w-5 h-5 text-purple-600" />
+              Presisi Model Pembelajaran per Kategori
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {modelReport.categories.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Model belum dilatih: baru ada {modelReport.exampleCount} transaksi terklasifikasi. Klasifikasi masih memakai pattern saja.
+              </p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                  Dilatih dari {modelReport.exampleCount} transaksi, bobot model {Math.round(modelReport.modelWeight * 100)}% terhadap pattern.
+                  Presisi dihitung dengan validasi silang 5 lipatan.
+                </p>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                        <th className="py-2 pr-4">Kategori</th>
+                        <th className="py-2 pr-4 text-right">Contoh</th>
+                        <th className="py-2 pr-4 text-right">Diprediksi</th>
+                        <th className="py-2 pr-4 text-right">Benar</th>
+                        <th className="py-2 text-right">Presisi</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                      {modelReport.categories.map(category => (
+                        <tr key={category.category_id}>
+                          <td className="py-2 pr-4 text-gray-900 dark:text-gray-100">{category.category_name}</td>
+                          <td className="py-2 pr-4 text-right">{category.support}</td>
+                          <td className="py-2 pr-4 text-right">{category.predicted}</td>
+                          <td className="py-2 pr-4 text-right">{category.correct}</td>
+                          <td className={`py-2 text-right font-medium ${category.predicted > 0 ? getAccuracyColor(category.precision) : 'text-gray-400'}`}>
+                            {category.predicted > 0 ? `${category.precision.toFixed(1)}%` : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Performance Alerts */}
       {(metrics.accuracyRate < 80 || metrics.overrideRate > 20) && (
         <Card className="border-yellow-200 bg-yellow-50 dark:bg-yellow-900/20">
@@ -0,0 +1,348 @@
+import { useEffect, useMemo, useState } from 'react'
+import { FaClipboardList, FaCopy, FaPlus, FaSave, FaTrash } from 'react-icons/fa'
+import toast from 'react-hot-toast'
+import { Card } from '../UI/Card'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { Budget, BudgetInput } from '../../lib/api'
+import { repositories } from '../../lib/repositories'
+import { formatCurrency } from '../../utils/numberFormat'
+
+const currentYear = new Date().getFullYear()
+const YEARS = Array.from({ length: 5 }, (_, index) => currentYear + 1 - index)
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'Mei', 'Jun', 'Jul', 'Agu', 'Sep', 'Okt', 'Nov', 'Des']
+
+interface PlanRow {
+  category_type: Budget['category_type']
+  category_name: string
+  category_id?: string | null
+  amounts: number[]
+}
+
+interface CategoryOption {
+  id?: string
+  name: string
+  type: Budget['category_type']
+}
+
+const rowKey = (row: { category_type: string; category_name: string }) =>
+  `${row.category_type}|${row.category_name.trim().toLowerCase()}`
+
+const rowsFromBudgets = (budgets: Budget[]): PlanRow[] => {
+  const rows = new Map<string, PlanRow>()
+  budgets.forEach(budget => {
+    const key = rowKey(budget)
+    if (!rows.has(key)) {
+      rows.set(key, {
+        category_type: budget.category_type,
+        category_name: budget.category_name,
+        category_id: budget.category_id,
+        amounts: Array(12).fill(0)
+      })
+    }
+    (rows.get(key) as PlanRow).amounts[budget.bulan - 1] += Number(budget.jumlah) || 0
+  })
+  return Array.from(rows.values()).sort((a, b) =>
+    b.category_type.localeCompare(a.category_type) || a.category_name.localeCompare(b.category_name))
+}
+
+// Active transaction categories plus every kategori used in the Buku Kas
+async function loadCategoryOptions(): Promise<CategoryOption[]> {
+  const options = new Map<string, CategoryOption>()
+
+  const { data } = await repositories.transactionCategories.list({ is_active: true })
+  const transactionCategories = data || []
+  transactionCategories.forEach(({ id, name, type }) =>
+    options.set(rowKey({ category_type: type, category_name: name }), { id, name, type }))
+
+  const expenses = await repositories.expenses.list()
+  const kategoriUsed = expenses.data || []
+  kategoriUsed.forEach(expense => {
+    if (!expense.kategori) return
+    const type = expense.type === 'credit' ? 'income' : 'expense'
+    const key = rowKey({ category_type: type, category_name: expense.kategori })
+    if (!options.has(key)) options.set(key, { name: expense.kategori, type })
+  })
+
+  return Array.from(options.values()).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export function BudgetPlanner() {
+  const [tahun, setTahun] = useState(currentYear)
+  const [rows, setRows] = useState<PlanRow[]>([])
+  const [categories, setCategories] = useState<CategoryOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [dirty, setDirty] = useState(false)
+  const [newType, setNewType] = useState<Budget['category_type']>('expense')
+  const [newName, setNewName] = useState('')
+
+  useEffect(() => {
+    loadCategoryOptions()
+      .then(setCategories)
+      .catch(error => console.error('Failed to load budget categories:', error))
+  }, [])
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true)
+      try {
+        const response = await repositories.budgets.list({ tahun })
+        if (response.error) throw new Error(response.error)
+        setRows(rowsFromBudgets(response.data || []))
+        setDirty(false)
+      } catch (error) {
+        console.error('Failed to load budgets:', error)
+        toast.error(error instanceof Error ? error.message : 'Gagal memuat anggaran')
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [tahun])
+
+  const totals = useMemo(() => {
+    const sum = (type: Budget['category_type']) => rows
+      .filter(row => row.category_type === type)
+      .reduce((total, row) => total + row.amounts.reduce((a, b) => a + b, 0), 0)
+    return { income: sum('income'), expense: sum('expense') }
+  }, [rows])
+
+  const updateRow = (index: number, amounts: number[]) => {
+    setRows(current => current.map((row, i) => (i === index ? { ...row, amounts } : row)))
+    setDirty(true)
+  }
+
+  const setMonth = (index: number, month: number, value: string) => {
+    const amounts = [...rows[index].amounts]
+    amounts[month] = Math.max(0, Number(value) || 0)
+    updateRow(index, amounts)
+  }
+
+  // Spread a yearly amount over the months; the rounding remainder goes to December
+  const setYearTotal = (index: number, value: string) => {
+    const total = Math.max(0, Math.round(Number(value) || 0))
+    const monthly = Math.floor(total / 12)
+    const amounts = Array(12).fill(monthly)
+    amounts[11] = total - monthly * 11
+    updateRow(index, amounts)
+  }
+
+  const addRow = () => {
+    const name = newName.trim()
+    if (!name) return
+    if (rows.some(row => rowKey(row) === rowKey({ category_type: newType, category_name: name }))) {
+      toast.error('Kategori sudah ada di anggaran')
+      return
+    }
+    const option = categories.find(category => rowKey({ category_type: category.type, category_name: category.name }) === rowKey({ category_type: newType, category_name: name }))
+    setRows(current => [...current, { category_type: newType, category_name: name, category_id: option?.id, amounts: Array(12).fill(0) }])
+    setNewName('')
+    setDirty(true)
+  }
+
+  const removeRow = (index: number) => {
+    setRows(current => current.filter((_, i) => i !== index))
+    setDirty(true)
+  }
+
+  const copyPreviousYear = async () => {
+    const response = await repositories.budgets.list({ tahun: tahun - 1 })
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+    if (!response.data?.length) {
+      toast.error(`Belum ada anggaran tahun ${tahun - 1}`)
+      return
+    }
+    setRows(rowsFromBudgets(response.data))
+    setDirty(true)
+    toast.success(`Anggaran ${tahun - 1} disalin, periksa lalu simpan`)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const items: BudgetInput[] = rows.flatMap(row => row.amounts
+        .map((jumlah, month) => ({
+          bulan: month + 1,
+          category_type: row.category_type,
+          category_name: row.category_name.trim(),
+          category_id: row.category_id || null,
+          jumlah
+        }))
+        .filter(item => item.jumlah > 0))
+
+      const response = await repositories.budgets.saveYear(tahun, items)
+      if (response.error) throw new Error(response.error)
+      setRows(rowsFromBudgets(response.data || []))
+      setDirty(false)
+      toast.success(`RAPB ${tahun} berhasil disimpan`)
+    } catch (error) {
+      console.error('Failed to save budgets:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan anggaran')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex items-center">
+              <FaClipboardList className="h-5 w-5 mr-2 text-blue-600" />
+              Rencana Anggaran Pendapatan dan Belanja
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Isi anggaran yang disahkan rapat anggota tahunan per kategori per bulan.
+              Kolom total membagi rata jumlah setahun ke setiap bulan.
+            </p>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="form-group-compact">
+              <label className="form-label">Tahun</label>
+              <select
+                className="select w-28"
+                value={tahun}
+                onChange={(e) => {
+                  if (dirty && !window.confirm('Perubahan anggaran belum disimpan. Pindah tahun?')) return
+                  setTahun(Number(e.target.value))
+                }}
+              >
+                {YEARS.map(year => <option key={year} value={year}>{year}</option>)}
+              </select>
+            </div>
+            <button onClick={copyPreviousYear} className="btn btn-secondary flex items-center gap-2" disabled={loading}>
+              <FaCopy className="h-4 w-4" />
+              Salin {tahun - 1}
+            </button>
+            <button onClick={handleSave} className="btn btn-primary flex items-center gap-2" disabled={saving || loading || !dirty}>
+              <FaSave className="h-4 w-4" />
+              {saving ? 'Menyimpan...' : 'Simpan'}
+            </button>
+          </div>
+        </div>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card className="p-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">Anggaran Pendapatan</p>
+          <p className="text-xl font-bold text-green-600">{formatCurrency(totals.income)}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">Anggaran Belanja</p>
+          <p className="text-xl font-bold text-red-600">{formatCurrency(totals.expense)}</p>
+        </Card>
+        <Card className="p-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">Surplus / Defisit Rencana</p>
+          <p className={`text-xl font-bold ${totals.income - totals.expense < 0 ? 'text-red-600' : 'text-blue-600'}`}>
+            {formatCurrency(totals.income - totals.expense)}
+          </p>
+        </Card>
+      </div>
+
+      <Card className="p-6">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                    <th className="py-2 pr-2 min-w-[180px]">Kategori</th>
+                    {MONTHS.map(month => (
+                      <th key={month} className="py-2 px-1 text-right">{month}</th>
+                    ))}
+                    <th className="py-2 px-1 text-right">Total</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {rows.length === 0 && (
+                    <tr>
+                      <td colSpan={15} className="py-6 text-center text-gray-500 dark:text-gray-400">
+                        Belum ada anggaran untuk tahun {tahun}
+                      </td>
+                    </tr>
+                  )}
+                  {rows.map((row, index) => (
+                    <tr key={rowKey(row)}>
+                      <td className="py-2 pr-2">
+                        <div className="text-gray-900 dark:text-gray-100">{row.category_name}</div>
+                        <div className={`text-xs ${row.category_type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                          {row.category_type === 'income' ? 'Pendapatan' : 'Belanja'}
+                        </div>
+                      </td>
+                      {row.amounts.map((amount, month) => (
+                        <td key={month} className="py-2 px-1">
+                          <input
+                            type="number"
+                            min={0}
+                            className="input input-sm w-24 text-right"
+                            value={amount || ''}
+                            onChange={(e) => setMonth(index, month, e.target.value)}
+                          />
+                        </td>
+                      ))}
+                      <td className="py-2 px-1">
+                        <input
+                          key={row.amounts.join()}
+                          type="number"
+                          min={0}
+                          className="input input-sm w-28 text-right font-medium"
+                          defaultValue={row.amounts.reduce((a, b) => a + b, 0) || ''}
+                          onBlur={(e) => {
+                            if (Number(e.target.value) !== row.amounts.reduce((a, b) => a + b, 0)) setYearTotal(index, e.target.value)
+                          }}
+                        />
+                      </td>
+                      <td className="py-2 pl-1">
+                        <button
+                          onClick={() => removeRow(index)}
+                          className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                          title="Hapus kategori"
+                        >
+                          <FaTrash className="h-3 w-3" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-col md:flex-row gap-2 mt-4">
+              <select className="select md:w-40" value={newType} onChange={(e) => setNewType(e.target.value as Budget['category_type'])}>
+                <option value="expense">Belanja</option>
+                <option value="income">Pendapatan</option>
+              </select>
+              <input
+                className="input flex-1"
+                list="budget-categories"
+                placeholder="Nama kategori"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addRow()}
+              />
+              <datalist id="budget-categories">
+                {categories
+                  .filter(category => category.type === newType)
+                  .map(category => <option key={category.name} value={category.name} />)}
+              </datalist>
+              <button onClick={addRow} className="btn btn-secondary flex items-center gap-2" disabled={!newName.trim()}>
+                <FaPlus className="h-4 w-4" />
+                Tambah Kategori
+              </button>
+            </div>
+          </>
+        )}
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { FaExclamationTriangle, FaClipboardList } from 'react-icons/fa'
+import { Card } from '../UI/Card'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { BudgetVarianceRow, loadBudgetVariance } from '../../utils/budget'
+import { formatCurrency } from '../../utils/numberFormat'
+
+const MONTH_NAMES = ['Januari', 'Februari', 'Maret', 'April', 'Mei', 'Juni', 'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember']
+
+interface BudgetVarianceCardProps {
+  refreshTrigger?: number
+}
+
+export function BudgetVarianceCard({ refreshTrigger }: BudgetVarianceCardProps) {
+  const today = new Date()
+  const tahun = today.getFullYear()
+  const throughMonth = today.getMonth() + 1
+
+  const [rows, setRows] = useState<BudgetVarianceRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        setRows(await loadBudgetVariance(tahun, throughMonth))
+      } catch (err) {
+        console.error('Failed to load budget variance:', err)
+        setError(err instanceof Error ? err.message : 'Gagal memuat realisasi anggaran')
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [refreshTrigger, tahun, throughMonth])
+
+  const alerts = rows.filter(row => row.status !== 'on_track')
+  const hasBudget = rows.some(row => row.budget > 0)
+
+  const barColor = (row: BudgetVarianceRow) => {
+    if (row.category_type === 'income') return 'bg-green-500'
+    if (row.status === 'over') return 'bg-red-500'
+    if (row.status === 'warning') return 'bg-yellow-500'
+    return 'bg-blue-500'
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.45 }}
+    >
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1 flex items-center">
+          <FaClipboardList className="h-5 w-5 mr-2 text-blue-600" />
+          Anggaran vs Realisasi {tahun}
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Kumulatif Januari s.d. {MONTH_NAMES[throughMonth - 1]}
+        </p>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !hasBudget ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Belum ada RAPB untuk tahun {tahun}. Isi anggaran di tab Anggaran (RAPB).
+          </p>
+        ) : (
+          <>
+            {alerts.length > 0 && (
+              <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+                <p className="flex items-center font-medium text-red-800 dark:text-red-200 mb-2">
+                  <FaExclamationTriangle className="h-4 w-4 mr-2" />
+                  {alerts.length} kategori melewati atau mendekati batas anggaran
+                </p>
+                <ul className="text-sm text-red-700 dark:text-red-300 space-y-1">
+                  {alerts.map(row => (
+                    <li key={row.category_name}>
+                      {row.category_name}:{' '}
+                      {row.budget === 0
+                        ? `${formatCurrency(row.actual)} tanpa anggaran`
+                        : `${formatCurrency(row.actual)} dari ${formatCurrency(row.budget)} (${Math.round(row.usage || 0)}%)`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                    <th className="py-2 pr-4">Kategori</th>
+                    <th className="py-2 pr-4 text-right">Anggaran</th>
+                    <th className="py-2 pr-4 text-right">Realisasi</th>
+                    <th className="py-2 pr-4 text-right">Selisih</th>
+                    <th className="py-2 w-40">Pemakaian</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {rows.map(row => (
+                    <tr key={`${row.category_type}-${row.category_name}`}>
+                      <td className="py-2 pr-4 text-gray-900 dark:text-gray-100">
+                        {row.category_name}
+                        <span className={`ml-2 text-xs ${row.category_type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                          {row.category_type === 'income' ? 'Pendapatan' : 'Belanja'}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-4 text-right whitespace-nowrap">{formatCurrency(row.budget)}</td>
+                      <td className="py-2 pr-4 text-right whitespace-nowrap">{formatCurrency(row.actual)}</td>
+                      <td className={`py-2 pr-4 text-right whitespace-nowrap ${row.variance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatCurrency(row.variance)}
+                      </td>
+                      <td className="py-2">
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                            <div
+                              className={`h-2 rounded-full ${barColor(row)}`}
+                              style={{ width: `${Math.min(row.usage ?? 100, 100)}%` }}
+                            />
+                          </div>
+                          <span className="text-xs text-gray-600 dark:text-gray-400 w-10 text-right">
+                            {row.usage === null ? '-' : `${Math.round(row.usage)}%`}
+                          </span>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </Card>
+    </motion.div>
+  )
+}
@@ -11,7 +11,8 @@ export interface CashBookFormValues {
   deskripsi: string
   jumlah: number
   tanggal: string
-  status_otorisasi: 'pending' | 'paid' | 'overdue'
+  // Same authorisation states as the expenses table
+  status_otorisasi: 'pending' | 'approved' | 'rejected'
 }
 
 const cashBookSchema = yup.object().shape({
@@ -20,7 +21,7 @@ const cashBookSchema = yup.object().shape({
   deskripsi: yup.string().required('Deskripsi harus diisi'),
   jumlah: yup.number().required('Jumlah harus diisi').positive('Jumlah harus lebih dari 0'),
   tanggal: yup.string().required('Tanggal harus diisi'),
-  status_otorisasi: yup.string().required('Status harus dipilih'),
+  status_otorisasi: yup.string().required('Status harus dipilih').oneOf(['pending', 'approved', 'rejected'] as const),
 })
 
 export function CashBookForm({
@@ -181,8 +182,8 @@ export function CashBookForm({
           <label className="form-label">Status</label>
           <select {...register('status_otorisasi')} className="select focus-ring w-full">
             <option value="pending">Menunggu</option>
-            <option value="paid">Sudah Bayar</option>
-            <option value="overdue">Terlambat</option>
+            <option value="approved">Disetujui</option>
+            <option value="rejected">Ditolak</option>
           </select>
           {errors.status_otorisasi && <p className="form-error">{typeof errors.status_otorisasi === 'string' ? errors.status_otorisasi : (errors.status_otorisasi as any)?.message}</p>}
         </div>
@@ -2,8 +2,11 @@ import { useEffect, useMemo, useState } from 'react'
 import { FaPlus, FaSearch, FaFilter, FaPencilAlt, FaTrash, FaTimes, FaExclamationTriangle, FaArrowDown, FaArrowUp, FaBook, FaWallet, FaExchangeAlt, FaCheck } from 'react-icons/fa'
 import { motion, AnimatePresence } from 'framer-motion'
 import toast from 'react-hot-toast'
-import { expensesApi } from '../../lib/api'
+import { repositories } from '../../lib/repositories'
+import { queueWrite, withOfflineCache } from '../../lib/syncQueue'
+import { formatCurrency } from '../../utils/numberFormat'
 import { CashBookForm, CashBookFormValues } from './CashBookForm'
+import type { Expense } from '../../lib/api'
 
 interface CashBookItem {
   id: string
@@ -12,10 +15,11 @@ interface CashBookItem {
   deskripsi: string
   jumlah: number
   tanggal: string
-  status_otorisasi: 'pending' | 'paid' | 'overdue'
+  status_otorisasi: Expense['status_otorisasi']
+  version?: number
 }
 
-type StatusFilter = 'all' | 'pending' | 'paid' | 'overdue'
+type StatusFilter = 'all' | Expense['status_otorisasi']
 type TypeFilter = 'all' | 'debit' | 'credit'
 
 export function CashBookPage() {
@@ -40,13 +44,16 @@ export function CashBookPage() {
   const fetchAll = async () => {
     setLoading(true)
     try {
-      const { data, error } = await expensesApi.getAll()
+      const { data, error, offline } = await withOfflineCache('expenses', () => repositories.expenses.list())
       if (error) throw new Error(error)
+      if (offline) {
+        toast('Tidak ada koneksi. Menampilkan data terakhir yang tersimpan di perangkat.', { icon: '📴' })
+      }
 
       const items = data || []
       const normalized = items.map((d: any) => {
         let status = d.status_otorisasi || d.status || 'pending'
-        if (!['pending', 'paid', 'overdue'].includes(status)) {
+        if (!['pending', 'approved', 'rejected'].includes(status)) {
           status = 'pending'
         }
         return {
@@ -56,7 +63,8 @@ export function CashBookPage() {
           deskripsi: d.deskripsi || d.notes || '',
           jumlah: Number(d.jumlah || d.amount),
           tanggal: d.tanggal || d.payment_date,
-          status_otorisasi: status as 'pending' | 'paid' | 'overdue',
+          status_otorisasi: status as Expense['status_otorisasi'],
+          version: d.version,
         }
       })
       // Sort by date descending (newest first)
@@ -96,7 +104,7 @@ export function CashBookPage() {
   }, [filtered, page, pageSize])
 
   const handleCreate = async (values: CashBookFormValues) => {
-    const payload = {
+    const payload: Partial<Expense> = {
       type: values.type,
       kategori: values.kategori,
       deskripsi: values.deskripsi,
@@ -106,7 +114,18 @@ export function CashBookPage() {
     }
 
     try {
-      const { data, error } = await expensesApi.create(payload as any)
+      const { data, error, offline } = await repositories.expenses.create(payload)
+      if (offline) {
+        await queueWrite({
+          entity: 'expenses',
+          operation: 'create',
+          payload,
+          label: `${values.kategori} ${values.tanggal} (${formatCurrency(values.jumlah)})`
+        })
+        toast.success('Tidak ada koneksi. Transaksi disimpan di perangkat dan dikirim otomatis saat online.')
+        setShowForm(false)
+        return
+      }
       if (error) throw new Error(error)
       if (!data) throw new Error('No data returned')
 
@@ -117,7 +136,8 @@ export function CashBookPage() {
         deskripsi: data.deskripsi || values.deskripsi,
         jumlah: Number(data.jumlah || values.jumlah),
         tanggal: data.tanggal || values.tanggal,
-        status_otorisasi: (data.status_otorisasi || values.status_otorisasi || 'pending') as 'pending' | 'paid' | 'overdue',
+        status_otorisasi: data.status_otorisasi || values.status_otorisasi || 'pending',
+        version: data.version,
       }
 
       setItems((prev) => [newItem, ...prev])
@@ -130,7 +150,7 @@ export function CashBookPage() {
 
   const handleUpdate = async (id: string, values: Partial<CashBookFormValues>) => {
     try {
-      const payload: any = {}
+      const payload: Partial<Expense> = {}
       if (values.type !== undefined) payload.type = values.type
       if (values.kategori !== undefined) payload.kategori = values.kategori
       if (values.deskripsi !== undefined) payload.deskripsi = values.deskripsi
@@ -138,11 +158,31 @@ export function CashBookPage() {
       if (values.tanggal !== undefined) payload.tanggal = values.tanggal
       if (values.status_otorisasi !== undefined) payload.status_otorisasi = values.status_otorisasi
 
-      const { data, error } = await expensesApi.update(id, payload)
+      const current = items.find(e => e.id === id)
+      const { data, error, offline, status: httpStatus } = await repositories.expenses.update(id, payload, current?.version)
+      if (offline) {
+        await queueWrite({
+          entity: 'expenses',
+          operation: 'update',
+          recordId: id,
+          payload,
+          baseVersion: current?.version,
+          label: `${current?.kategori} ${current?.tanggal?.slice(0, 10)}`
+        })
+        setItems((prev) => prev.map((e) => (e.id === id ? { ...e, ...payload } : e)))
+        toast.success('Tidak ada koneksi. Perubahan disimpan di perangkat dan dikirim otomatis saat online.')
+        setEditing(null)
+        setShowForm(false)
+        return
+      }
+      if (httpStatus === 409) {
+        fetchAll()
+        throw new Error(`${error}. Data terbaru sudah dimuat, silakan ulangi perubahan.`)
+      }
       if (error) throw new Error(error)
       if (!data) throw new Error('No data returned')
 
-      const dataType = (data as any).type || 'debit'
+      const dataType = data.type || 'debit'
       const updatedItem: CashBookItem = {
         id: data.id,
         type: (values.type || dataType) as 'debit' | 'credit',
@@ -150,7 +190,8 @@ export function CashBookPage() {
         deskripsi: data.deskripsi || values.deskripsi || '',
         jumlah: Number(data.jumlah || values.jumlah),
         tanggal: data.tanggal || values.tanggal || '',
-        status_otorisasi: (data.status_otorisasi || values.status_otorisasi || 'pending') as 'pending' | 'paid' | 'overdue',
+        status_otorisasi: data.status_otorisasi || values.status_otorisasi || 'pending',
+        version: data.version,
       }
 
       setItems((prev) => prev.map((e) => (e.id === id ? updatedItem : e)))
@@ -164,8 +205,22 @@ export function CashBookPage() {
 
   const handleDelete = async (id: string) => {
     try {
-      const { error } = await expensesApi.delete(id)
-      if (error) throw new Error(error)
+      const current = items.find(e => e.id === id)
+      const { error, offline, status: httpStatus } = await repositories.expenses.remove(id, current?.version)
+      if (offline) {
+        await queueWrite({
+          entity: 'expenses',
+          operation: 'delete',
+          recordId: id,
+          baseVersion: current?.version,
+          label: `${current?.kategori} ${current?.tanggal?.slice(0, 10)}`
+        })
+      } else if (httpStatus === 409) {
+        fetchAll()
+        throw new Error(`${error}. Data terbaru sudah dimuat.`)
+      } else if (error) {
+        throw new Error(error)
+      }
 
       setItems((prev) => prev.filter((e) => e.id !== id))
       setSelectedIds(prev => {
@@ -173,7 +228,7 @@ export function CashBookPage() {
         newSet.delete(id)
         return newSet
       })
-      toast.success('Transaksi berhasil dihapus')
+      toast.success(offline ? 'Tidak ada koneksi. Penghapusan dikirim otomatis saat online.' : 'Transaksi berhasil dihapus')
       setConfirmDeleteId(null)
     } catch (err: any) {
       toast.error(err?.message || 'Gagal menghapus transaksi')
@@ -184,7 +239,7 @@ export function CashBookPage() {
     if (selectedIds.size === 0) return
     try {
       const idsArray = Array.from(selectedIds)
-      await Promise.all(idsArray.map(id => expensesApi.delete(id)))
+      await Promise.all(idsArray.map(id => repositories.expenses.remove(id)))
       setItems((prev) => prev.filter((e) => !selectedIds.has(e.id)))
       setSelectedIds(new Set())
       toast.success(`${idsArray.length} transaksi berhasil dihapus`)
@@ -220,11 +275,11 @@ export function CashBookPage() {
 
   const getStatusBadge = (status: StatusFilter) => {
     switch (status) {
-      case 'paid':
+      case 'approved':
         return 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
       case 'pending':
         return 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200'
-      case 'overdue':
+      case 'rejected':
         return 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200'
       default:
         return 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
@@ -233,12 +288,12 @@ export function CashBookPage() {
 
   const getStatusLabel = (status: StatusFilter) => {
     switch (status) {
-      case 'paid':
-        return 'Sudah Bayar'
+      case 'approved':
+        return 'Disetujui'
       case 'pending':
         return 'Menunggu'
-      case 'overdue':
-        return 'Terlambat'
+      case 'rejected':
+        return 'Ditolak'
       default:
         return status
     }
@@ -411,8 +466,8 @@ export function CashBookPage() {
               >
                 <option value="all">Semua Status</option>
                 <option value="pending">Menunggu</option>
-                <option value="paid">Sudah Bayar</option>
-                <option value="overdue">Terlambat</option>
+                <option value="approved">Disetujui</option>
+                <option value="rejected">Ditolak</option>
               </select>
             </div>
           </div>
@@ -15,6 +15,7 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { useForm } from 'react-hook-form'
 import { yupResolver } from '@hookform/resolvers/yup'
 import { TransactionCategory, PaymentMethod } from '../../types/transactions'
+import { repositories } from '../../lib/repositories'
 import { categorySchema, paymentMethodSchema, CategoryFormValues, PaymentMethodFormValues } from '../../schemas/transactionSchema'
 import { useAuth } from '../../contexts/AuthContext'
 import toast from 'react-hot-toast'
@@ -39,6 +40,15 @@ const PREDEFINED_COLORS = [
   '#EC4899', '#F43F5E', '#64748B', '#6B7280', '#374151'
 ]
 
+const PAYMENT_METHOD_TYPE_LABELS: Record<PaymentMethod['type'], string> = {
+  cash: 'Tunai',
+  bank_transfer: 'Transfer Bank',
+  credit_card: 'Kartu Kredit',
+  debit_card: 'Kartu Debit',
+  e_wallet: 'Dompet Digital',
+  other: 'Lainnya'
+}
+
 export function CategoryManagement() {
   const { user } = useAuth()
   const [activeTab, setActiveTab] = useState<ManagementTab>('categories')
@@ -54,7 +64,7 @@ export function CategoryManagement() {
     resolver: yupResolver(categorySchema),
     defaultValues: {
       name: '',
-      type: 'both',
+      type: 'expense',
       color_code: PREDEFINED_COLORS[0],
       description: '',
       is_active: true
@@ -66,7 +76,7 @@ export function CategoryManagement() {
     resolver: yupResolver(paymentMethodSchema),
     defaultValues: {
       name: '',
-      type: 'both',
+      type: 'cash',
       description: '',
       is_active: true
     }
@@ -79,10 +89,7 @@ export function CategoryManagement() {
   const fetchData = async () => {
     setLoading(true)
     try {
-      // TODO: Implement MySQL API for categories/payment methods at /api/categories and /api/payment-methods
-      // For production, show empty state - data will come from real database
-      setCategories([])
-      setPaymentMethods([])
+      await Promise.all([loadCategories(), loadPaymentMethods()])
     } catch (error) {
       console.error('Failed to fetch data:', error)
       toast.error('Gagal memuat data')
@@ -91,6 +98,31 @@ export function CategoryManagement() {
     }
   }
 
+  // The lists default to active entries; inactive ones are fetched too so they can be reactivated
+  const loadCategories = async () => {
+    const [active, inactive] = await Promise.all([
+      repositories.transactionCategories.list({ is_active: true }),
+      repositories.transactionCategories.list({ is_active: false })
+    ])
+    const error = active.error || inactive.error
+    if (error) throw new Error(error)
+
+    setCategories([...(active.data || []), ...(inactive.data || [])]
+      .sort((a, b) => a.name.localeCompare(b.name)))
+  }
+
+  const loadPaymentMethods = async () => {
+    const [active, inactive] = await Promise.all([
+      repositories.paymentMethods.list({ is_active: true }),
+      repositories.paymentMethods.list({ is_active: false })
+    ])
+    const error = active.error || inactive.error
+    if (error) throw new Error(error)
+
+    setPaymentMethods([...(active.data || []), ...(inactive.data || [])]
+      .sort((a, b) => a.name.localeCompare(b.name)))
+  }
+
   const openCategoryModal = (category?: TransactionCategory) => {
     if (category) {
       setEditingItem(category)
@@ -105,7 +137,7 @@ export function CategoryManagement() {
       setEditingItem(null)
       categoryForm.reset({
         name: '',
-        type: 'both',
+        type: 'expense',
         color_code: PREDEFINED_COLORS[0],
         description: '',
         is_active: true
@@ -127,7 +159,7 @@ export function CategoryManagement() {
       setEditingItem(null)
       paymentMethodForm.reset({
         name: '',
-        type: 'both',
+        type: 'cash',
         description: '',
         is_active: true
       })
@@ -137,60 +169,20 @@ export function CategoryManagement() {
 
   const handleCategorySubmit = async (data: CategoryFormValues) => {
     try {
-      if (!isDatabaseAvailable() || !databaseClient) {
-        throw new Error('Database connection not available')
-      }
-
-      const categoryData = {
-        ...data,
-        updated_at: new Date().toISOString()
-      }
-
-      if (editingItem && 'id' in editingItem) {
-        // Update existing category
-        const { error } = await withTimeout(
-          databaseClient
-            .from('transaction_categories')
-            .update(categoryData)
-            .eq('id', editingItem.id),
-          6000,
-          'update category'
-        )
-
-        if (error) throw error
-
-        setCategories(prev => prev.map(cat =>
-          cat.id === editingItem.id
-            ? { ...cat, ...categoryData }
-            : cat
-        ))
-
+      if (editingItem && 'id' in editingItem && editingItem.id) {
+        const { error } = await repositories.transactionCategories.update(editingItem.id, data)
+        if (error) throw new Error(error)
         toast.success('Kategori berhasil diperbarui')
       } else {
-        // Create new category
-        const { data: newCategory, error } = await withTimeout(
-          databaseClient
-            .from('transaction_categories')
-            .insert([{
-              ...categoryData,
-              created_at: new Date().toISOString()
-            }])
-            .select()
-            .single(),
-          6000,
-          'create category'
-        )
-
-        if (error) throw error
-
-        setCategories(prev => [...prev, newCategory])
+        const { error } = await repositories.transactionCategories.create(data)
+        if (error) throw new Error(error)
         toast.success('Kategori berhasil dibuat')
       }
 
       setModalType(null)
       setEditingItem(null)
       categoryForm.reset()
-
+      await loadCategories()
     } catch (error: any) {
       console.error('Failed to save category:', error)
       toast.error(error?.message || 'Gagal menyimpan kategori')
@@ -199,90 +191,40 @@ export function CategoryManagement() {
 
   const handlePaymentMethodSubmit = async (data: PaymentMethodFormValues) => {
     try {
-      if (!isDatabaseAvailable() || !databaseClient) {
-        throw new Error('Database connection not available')
-      }
-
-      const paymentMethodData = {
-        ...data,
-        updated_at: new Date().toISOString()
-      }
-
-      if (editingItem && 'id' in editingItem) {
-        // Update existing payment method
-        const { error } = await withTimeout(
-          databaseClient
-            .from('payment_methods')
-            .update(paymentMethodData)
-            .eq('id', editingItem.id),
-          6000,
-          'update payment method'
-        )
-
-        if (error) throw error
-
-        setPaymentMethods(prev => prev.map(pm =>
-          pm.id === editingItem.id
-            ? { ...pm, ...paymentMethodData }
-            : pm
-        ))
-
+      if (editingItem && 'id' in editingItem && editingItem.id) {
+        const { error } = await repositories.paymentMethods.update(editingItem.id, data)
+        if (error) throw new Error(error)
         toast.success('Metode pembayaran berhasil diperbarui')
       } else {
-        // Create new payment method
-        const { data: newPaymentMethod, error } = await withTimeout(
-          databaseClient
-            .from('payment_methods')
-            .insert([{
-              ...paymentMethodData,
-              created_at: new Date().toISOString()
-            }])
-            .select()
-            .single(),
-          6000,
-          'create payment method'
-        )
-
-        if (error) throw error
-
-        setPaymentMethods(prev => [...prev, newPaymentMethod])
+        const { error } = await repositories.paymentMethods.create(data)
+        if (error) throw new Error(error)
         toast.success('Metode pembayaran berhasil dibuat')
       }
 
       setModalType(null)
       setEditingItem(null)
       paymentMethodForm.reset()
-
+      await loadPaymentMethods()
     } catch (error: any) {
       console.error('Failed to save payment method:', error)
       toast.error(error?.message || 'Gagal menyimpan metode pembayaran')
     }
   }
 
+  // Entries already used by transactions are deactivated by the backend instead of deleted
   const handleDelete = async (id: string, type: 'category' | 'payment_method') => {
     try {
-      if (!isDatabaseAvailable() || !databaseClient) {
-        throw new Error('Database connection not available')
-      }
-
-      const tableName = type === 'category' ? 'transaction_categories' : 'payment_methods'
-
-      const { error } = await withTimeout(
-        databaseClient.from(tableName).delete().eq('id', id),
-        6000,
-        `delete ${type}`
-      )
-
-      if (error) throw error
-
       if (type === 'category') {
-        setCategories(prev => prev.filter(cat => cat.id !== id))
+        const { error } = await repositories.transactionCategories.remove(id)
+        if (error) throw new Error(error)
+        await loadCategories()
         toast.success('Kategori berhasil dihapus')
       } else {
-        setPaymentMethods(prev => prev.filter(pm => pm.id !== id))
+        const { error } = await repositories.paymentMethods.remove(id)
+        if (error) throw new Error(error)
+        await loadPaymentMethods()
         toast.success('Metode pembayaran berhasil dihapus')
       }
-
     } catch (error: any) {
       console.error(`Failed to delete ${type}:`, error)
       toast.error(error?.message || `Gagal menghapus ${type === 'category' ? 'kategori' : 'metode pembayaran'}`)
@@ -293,25 +235,10 @@ export function CategoryManagement() {
 
   const toggleActiveStatus = async (id: string, currentStatus: boolean, type: 'category' | 'payment_method') => {
     try {
-      if (!isDatabaseAvailable() || !databaseClient) {
-        throw new Error('Database connection not available')
-      }
-
-      const tableName = type === 'category' ? 'transaction_categories' : 'payment_methods'
-
-      const { error } = await withTimeout(
-        databaseClient
-          .from(tableName)
-          .update({
-            is_active: !currentStatus,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', id),
-        6000,
-        `toggle ${type} status`
-      )
-
-      if (error) throw error
+      const { error } = type === 'category'
+        ? await repositories.transactionCategories.update(id, { is_active: !currentStatus })
+        : await repositories.paymentMethods.update(id, { is_active: !currentStatus })
+      if (error) throw new Error(error)
 
       if (type === 'category') {
         setCategories(prev => prev.map(cat =>
@@ -324,7 +251,6 @@ export function CategoryManagement() {
       }
 
       toast.success(`Status berhasil ${!currentStatus ? 'diaktifkan' : 'dinonaktifkan'}`)
-
     } catch (error: any) {
       console.error(`Failed to toggle ${type} status:`, error)
       toast.error(error?.message || 'Gagal mengubah status')
@@ -560,7 +486,9 @@ export function CategoryManagement() {
                         </div>
                       </td>
                       <td className="px-6 py-4">
-                        {getTypeBadge(method.type)}
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200">
+                          {PAYMENT_METHOD_TYPE_LABELS[method.type] || method.type}
+                        </span>
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">
                         {method.description || '-'}
@@ -661,7 +589,6 @@ export function CategoryManagement() {
                     {...categoryForm.register('type')}
                     className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
-                    <option value="both">Keduanya</option>
                     <option value="income">Pemasukan</option>
                     <option value="expense">Pengeluaran</option>
                   </select>
@@ -797,15 +724,15 @@ export function CategoryManagement() {
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    Tipe Transaksi *
+                    Jenis Metode *
                   </label>
                   <select
                     {...paymentMethodForm.register('type')}
                     className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
-                    <option value="both">Keduanya</option>
-                    <option value="income">Pemasukan</option>
-                    <option value="expense">Pengeluaran</option>
+                    {Object.entries(PAYMENT_METHOD_TYPE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
                   </select>
                   {paymentMethodForm.formState.errors.type && (
                     <p className="text-red-500 text-xs mt-1">{paymentMethodForm.formState.errors.type.message}</p>
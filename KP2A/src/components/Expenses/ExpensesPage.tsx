@@ -2,7 +2,7 @@ import React, { useEffect, useMemo, useState } from 'react'
 import { useSearchParams, useLocation } from 'react-router-dom'
 import { FaPlus, FaSearch, FaFilter, FaPencilAlt, FaTrash, FaTimes, FaExclamationTriangle, FaCheck } from 'react-icons/fa'
 import { Expense } from '../../types'
-import { expensesApi } from '../../lib/api'
+import { repositories } from '../../lib/repositories'
 import toast from 'react-hot-toast'
 import { motion, AnimatePresence } from 'framer-motion'
 import { ExpensesForm, ExpensesFormValues } from './ExpensesForm'
@@ -67,7 +67,7 @@ export function ExpensesPage() {
   const fetchAll = async () => {
     setLoading(true)
     try {
-      const { data, error } = await expensesApi.getAll()
+      const { data, error } = await repositories.expenses.list()
 
       if (error) throw new Error(error)
 
@@ -133,7 +133,7 @@ export function ExpensesPage() {
     }
 
     try {
-      const { data, error } = await expensesApi.create(payload)
+      const { data, error } = await repositories.expenses.create(payload)
 
       if (error) throw new Error(error)
       if (!data) throw new Error('No data returned')
@@ -179,7 +179,7 @@ export function ExpensesPage() {
       if (values.status_otorisasi !== undefined) payload.status = values.status_otorisasi
       if (values.kategori !== undefined) payload.category_name = values.kategori
 
-      const { data, error } = await expensesApi.update(id, payload)
+      const { data, error } = await repositories.expenses.update(id, payload)
 
       if (error) throw new Error(error)
       if (!data) throw new Error('No data returned')
@@ -209,7 +209,7 @@ export function ExpensesPage() {
 
   const handleDelete = async (id: string) => {
     try {
-      const { error } = await expensesApi.delete(id)
+      const { error } = await repositories.expenses.remove(id)
 
       if (error) throw new Error(error)
 
@@ -237,7 +237,7 @@ export function ExpensesPage() {
       const idsArray = Array.from(selectedIds)
 
       // Execute in parallel
-      await Promise.all(idsArray.map(id => expensesApi.delete(id)))
+      await Promise.all(idsArray.map(id => repositories.expenses.remove(id)))
 
       const next = items.filter((e) => !selectedIds.has(e.id))
       setItems(next)
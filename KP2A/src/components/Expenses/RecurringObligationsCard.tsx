@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react'
+import { motion } from 'framer-motion'
+import { FaForward, FaRedo } from 'react-icons/fa'
+import toast from 'react-hot-toast'
+import { Card } from '../UI/Card'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { useAuth } from '../../contexts/AuthContext'
+import { repositories } from '../../lib/repositories'
+import { formatCurrency } from '../../utils/numberFormat'
+import { formatToIndonesian, getCurrentDateISO } from '../../utils/dateFormat'
+import {
+  generateRecurringTransactions,
+  periodLabel,
+  SKIPPED_LOOKBACK_DAYS,
+  SkippedOccurrence,
+  skippedOccurrences,
+  UPCOMING_DAYS,
+  UpcomingObligation,
+  upcomingObligations
+} from '../../utils/recurringTransactions'
+
+interface RecurringObligationsCardProps {
+  refreshTrigger?: number
+}
+
+const dueLabel = (days: number) => {
+  if (days < 0) return `terlambat ${-days} hari`
+  if (days === 0) return 'hari ini'
+  return `${days} hari lagi`
+}
+
+export function RecurringObligationsCard({ refreshTrigger }: RecurringObligationsCardProps) {
+  const { user } = useAuth()
+  const [upcoming, setUpcoming] = useState<UpcomingObligation[]>([])
+  const [skipped, setSkipped] = useState<SkippedOccurrence[]>([])
+  const [loading, setLoading] = useState(true)
+  const [hidden, setHidden] = useState(false)
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true)
+      try {
+        let response = await repositories.recurringTransactions.list()
+        // No templates without transactions (MySQL backend)
+        if (response.status === 501) {
+          setHidden(true)
+          return
+        }
+        if (response.error) throw new Error(response.error)
+
+        // Due occurrences are generated whenever the dashboard is opened, as dues are on the server
+        if (user?.id) {
+          const result = await generateRecurringTransactions(user.id)
+          result.failed.forEach(({ template, error }) => console.error(`Failed to generate ${template.name}:`, error))
+          if (result.created > 0) {
+            toast.success(`${result.created} transaksi berulang jatuh tempo menunggu persetujuan`)
+            response = await repositories.recurringTransactions.list()
+            if (response.error) throw new Error(response.error)
+          }
+        }
+
+        const today = getCurrentDateISO()
+        setUpcoming(upcomingObligations(response.data || [], today))
+        setSkipped(skippedOccurrences(response.data || [], today))
+      } catch (error) {
+        console.error('Failed to load recurring obligations:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [refreshTrigger, user?.id])
+
+  if (hidden) return null
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.5 }}
+    >
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4 flex items-center">
+          <FaRedo className="h-5 w-5 mr-2 text-blue-600" />
+          Kewajiban Rutin
+        </h3>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Jatuh tempo {UPCOMING_DAYS} hari ke depan
+              </p>
+              {upcoming.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Tidak ada kewajiban yang akan jatuh tempo</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+                  {upcoming.map(item => (
+                    <li key={`${item.template.id}-${item.due_date}`} className="py-2 flex justify-between gap-4">
+                      <div>
+                        <div className="text-gray-900 dark:text-gray-100">{item.template.name}</div>
+                        <div className={`text-xs ${item.days_until < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                          {formatToIndonesian(item.due_date)} ({dueLabel(item.days_until)})
+                        </div>
+                      </div>
+                      <span className={`whitespace-nowrap ${item.template.transaction_type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(item.template.amount)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 flex items-center">
+                <FaForward className="h-3 w-3 mr-2 text-yellow-600" />
+                Dilewati ({SKIPPED_LOOKBACK_DAYS} hari terakhir)
+              </p>
+              {skipped.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Tidak ada periode yang dilewati</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+                  {skipped.map(item => (
+                    <li key={`${item.template.id}-${item.due_date}`} className="py-2 flex justify-between gap-4">
+                      <div>
+                        <div className="text-gray-900 dark:text-gray-100">{item.template.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {periodLabel(item.due_date, item.template.frequency)} ·{' '}
+                          {item.reason === 'paused' ? 'template dijeda' : 'dilewati pengurus'}
+                        </div>
+                      </div>
+                      <span className="whitespace-nowrap text-gray-500">{formatCurrency(item.template.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </Card>
+    </motion.div>
+  )
+}
@@ -0,0 +1,427 @@
+import { useEffect, useState } from 'react'
+import { FaEdit, FaForward, FaPause, FaPlay, FaPlus, FaRedo, FaSave, FaTimes, FaTrash } from 'react-icons/fa'
+import toast from 'react-hot-toast'
+import { Card } from '../UI/Card'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { useAuth } from '../../contexts/AuthContext'
+import { repositories } from '../../lib/repositories'
+import { PaymentMethod, RecurrenceFrequency, RecurringTransaction, TransactionCategory } from '../../types/transactions'
+import { formatCurrency } from '../../utils/numberFormat'
+import { formatToIndonesian, getCurrentDateISO } from '../../utils/dateFormat'
+import {
+  FREQUENCY_LABELS,
+  generateRecurringTransactions,
+  isFinished,
+  rescheduledNextDue,
+  resumeChanges,
+  skipNextChanges
+} from '../../utils/recurringTransactions'
+
+interface TemplateForm {
+  name: string
+  transaction_type: RecurringTransaction['transaction_type']
+  amount: string
+  category_id: string
+  payment_method_id: string
+  description: string
+  frequency: RecurrenceFrequency
+  start_date: string
+  end_date: string
+}
+
+const emptyForm = (): TemplateForm => ({
+  name: '',
+  transaction_type: 'expense',
+  amount: '',
+  category_id: '',
+  payment_method_id: '',
+  description: '',
+  frequency: 'monthly',
+  start_date: getCurrentDateISO(),
+  end_date: ''
+})
+
+const formFromTemplate = (template: RecurringTransaction): TemplateForm => ({
+  name: template.name,
+  transaction_type: template.transaction_type,
+  amount: String(Number(template.amount)),
+  category_id: template.category_id,
+  payment_method_id: template.payment_method_id,
+  description: template.description || '',
+  frequency: template.frequency,
+  start_date: template.start_date.slice(0, 10),
+  end_date: template.end_date ? template.end_date.slice(0, 10) : ''
+})
+
+export function RecurringTransactionManager() {
+  const { user } = useAuth()
+  const [templates, setTemplates] = useState<RecurringTransaction[]>([])
+  const [categories, setCategories] = useState<TransactionCategory[]>([])
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([])
+  const [loading, setLoading] = useState(true)
+  const [unavailable, setUnavailable] = useState<string | null>(null)
+  const [form, setForm] = useState<TemplateForm | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [generating, setGenerating] = useState(false)
+
+  const loadTemplates = async () => {
+    setLoading(true)
+    try {
+      const response = await repositories.recurringTransactions.list()
+      if (response.status === 501) {
+        setUnavailable(response.error || null)
+        return
+      }
+      if (response.error) throw new Error(response.error)
+      setTemplates((response.data || []).sort((a, b) => a.name.localeCompare(b.name)))
+    } catch (error) {
+      console.error('Failed to load recurring transactions:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal memuat transaksi berulang')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadTemplates()
+
+    const loadOptions = async () => {
+      const [{ data: categoryData }, { data: methodData }] = await Promise.all([
+        repositories.transactionCategories.list({ is_active: true }),
+        repositories.paymentMethods.list()
+      ])
+      setCategories((categoryData || []).sort((a, b) => a.name.localeCompare(b.name)))
+      setPaymentMethods((methodData || []).sort((a, b) => a.name.localeCompare(b.name)))
+    }
+    loadOptions().catch(error => console.error('Failed to load transaction options:', error))
+  }, [])
+
+  const updateForm = (changes: Partial<TemplateForm>) => setForm(current => (current ? { ...current, ...changes } : current))
+
+  const openForm = (template?: RecurringTransaction) => {
+    setForm(template ? formFromTemplate(template) : emptyForm())
+    setEditingId(template?.id || null)
+  }
+
+  const closeForm = () => {
+    setForm(null)
+    setEditingId(null)
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    const amount = Number(form.amount)
+    if (!form.name.trim() || !form.category_id || !form.payment_method_id || !form.start_date) {
+      toast.error('Nama, kategori, metode pembayaran dan tanggal mulai wajib diisi')
+      return
+    }
+    if (!(amount > 0)) {
+      toast.error('Jumlah harus lebih dari 0')
+      return
+    }
+    if (form.end_date && form.end_date < form.start_date) {
+      toast.error('Tanggal selesai tidak boleh sebelum tanggal mulai')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const values = {
+        name: form.name.trim(),
+        transaction_type: form.transaction_type,
+        amount,
+        category_id: form.category_id,
+        payment_method_id: form.payment_method_id,
+        description: form.description.trim(),
+        frequency: form.frequency,
+        start_date: form.start_date,
+        end_date: form.end_date || null
+      }
+
+      if (editingId) {
+        const template = templates.find(item => item.id === editingId) as RecurringTransaction
+        const scheduleChanged = template.start_date.slice(0, 10) !== values.start_date || template.frequency !== values.frequency
+        const { error } = await repositories.recurringTransactions.update(editingId, {
+          ...values,
+          ...(scheduleChanged ? { next_due_date: rescheduledNextDue(values, template) } : {})
+        })
+        if (error) throw new Error(error)
+        toast.success('Template transaksi berulang diperbarui')
+      } else {
+        if (!user?.id) throw new Error('User tidak terautentikasi')
+        const { error } = await repositories.recurringTransactions.create({
+          ...values,
+          next_due_date: values.start_date,
+          skipped_dates: [],
+          is_active: true,
+          created_by: user.id
+        })
+        if (error) throw new Error(error)
+        toast.success('Template transaksi berulang disimpan')
+      }
+
+      closeForm()
+      await loadTemplates()
+    } catch (error) {
+      console.error('Failed to save recurring transaction:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan template')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const applyChanges = async (template: RecurringTransaction, changes: Partial<RecurringTransaction>, message: string) => {
+    const { error } = await repositories.recurringTransactions.update(template.id, changes)
+    if (error) {
+      toast.error(error)
+      return
+    }
+    toast.success(message)
+    await loadTemplates()
+  }
+
+  const handlePause = (template: RecurringTransaction) =>
+    applyChanges(template, { is_active: false }, `${template.name} dijeda`)
+
+  const handleResume = (template: RecurringTransaction) => {
+    const changes = resumeChanges(template, getCurrentDateISO())
+    const missed = changes.skipped_dates ? changes.skipped_dates.length - (template.skipped_dates || []).length : 0
+    return applyChanges(template, changes,
+      missed > 0 ? `${template.name} aktif kembali, ${missed} periode selama dijeda dilewati` : `${template.name} aktif kembali`)
+  }
+
+  const handleSkip = (template: RecurringTransaction) => {
+    if (!window.confirm(`Lewati ${template.name} jatuh tempo ${formatToIndonesian(template.next_due_date)}? Transaksi periode ini tidak akan dibuat.`)) return
+    return applyChanges(template, skipNextChanges(template), `Jatuh tempo ${formatToIndonesian(template.next_due_date)} dilewati`)
+  }
+
+  const handleDelete = async (template: RecurringTransaction) => {
+    if (!window.confirm(`Hapus template ${template.name}? Transaksi yang sudah dibuat tetap tersimpan.`)) return
+    const { error } = await repositories.recurringTransactions.remove(template.id)
+    if (error) {
+      toast.error(error)
+      return
+    }
+    toast.success('Template dihapus')
+    await loadTemplates()
+  }
+
+  const handleGenerate = async () => {
+    if (!user?.id) {
+      toast.error('User tidak terautentikasi')
+      return
+    }
+    setGenerating(true)
+    try {
+      const result = await generateRecurringTransactions(user.id)
+      result.failed.forEach(({ template, error }) => toast.error(`${template.name}: ${error}`))
+      if (result.created > 0) toast.success(`${result.created} transaksi pending dibuat untuk disetujui`)
+      else if (result.failed.length === 0) toast.success('Tidak ada transaksi berulang yang jatuh tempo')
+      await loadTemplates()
+    } catch (error) {
+      console.error('Failed to generate recurring transactions:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal membuat transaksi berulang')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const scheduleStatus = (template: RecurringTransaction) => {
+    if (isFinished(template)) return <span className="text-gray-500">Selesai</span>
+    if (!template.is_active) return <span className="text-yellow-600">Dijeda</span>
+    return <span className="text-gray-900 dark:text-gray-100">{formatToIndonesian(template.next_due_date)}</span>
+  }
+
+  if (unavailable) {
+    return (
+      <Card className="p-6">
+        <p className="text-sm text-gray-500 dark:text-gray-400">{unavailable}</p>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex items-center">
+              <FaRedo className="h-5 w-5 mr-2 text-blue-600" />
+              Transaksi Berulang
+            </h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Sewa sekretariat, tagihan internet, honor pembukuan dan kewajiban rutin lainnya.
+              Setiap jatuh tempo dibuat transaksi pending yang perlu disetujui.
+            </p>
+          </div>
+          <div className="flex items-end gap-2">
+            <button onClick={handleGenerate} className="btn btn-secondary flex items-center gap-2" disabled={generating || loading}>
+              <FaRedo className="h-4 w-4" />
+              {generating ? 'Memproses...' : 'Buat Transaksi Jatuh Tempo'}
+            </button>
+            <button onClick={() => openForm()} className="btn btn-primary flex items-center gap-2" disabled={!!form}>
+              <FaPlus className="h-4 w-4" />
+              Tambah Template
+            </button>
+          </div>
+        </div>
+      </Card>
+
+      {form && (
+        <Card className="p-6">
+          <h4 className="font-semibold text-gray-900 dark:text-gray-100 mb-4">
+            {editingId ? 'Ubah Template' : 'Template Baru'}
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="form-group-compact">
+              <label className="form-label">Nama</label>
+              <input className="input" value={form.name} placeholder="Sewa sekretariat" onChange={(e) => updateForm({ name: e.target.value })} />
+            </div>
+            <div className="form-group-compact">
+              <label className="form-label">Jenis</label>
+              <select
+                className="select"
+                value={form.transaction_type}
+                onChange={(e) => updateForm({ transaction_type: e.target.value as TemplateForm['transaction_type'], category_id: '' })}
+              >
+                <option value="expense">Pengeluaran</option>
+                <option value="income">Pemasukan</option>
+              </select>
+            </div>
+            <div className="form-group-compact">
+              <label className="form-label">Jumlah</label>
+              <input type="number" min={0} className="input" value={form.amount} onChange={(e) => updateForm({ amount: e.target.value })} />
+            </div>
+            <div className="form-group-compact">
+              <label className="form-label">Kategori</label>
+              <select className="select" value={form.category_id} onChange={(e) => updateForm({ category_id: e.target.value })}>
+                <option value="">Pilih kategori</option>
+                {categories
+                  .filter(category => category.type === form.transaction_type || (category.type as string) === 'both')
+                  .map(category => <option key={category.id} value={category.id}>{category.name}</option>)}
+              </select>
+            </div>
+            <div className="form-group-compact">
+              <label className="form-label">Metode Pembayaran</label>
+              <select className="select" value={form.payment_method_id} onChange={(e) => updateForm({ payment_method_id: e.target.value })}>
+                <option value="">Pilih metode</option>
+                {paymentMethods.map(method => <option key={method.id} value={method.id}>{method.name}</option>)}
+              </select>
+            </div>
+            <div className="form-group-compact">
+              <label className="form-label">Jadwal</label>
+              <select className="select" value={form.frequency} onChange={(e) => updateForm({ frequency: e.target.value as RecurrenceFrequency })}>
+                {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(frequency => (
+                  <option key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group-compact">
+              <label className="form-label">Jatuh Tempo Pertama</label>
+              <input type="date" className="input" value={form.start_date} onChange={(e) => updateForm({ start_date: e.target.value })} />
+            </div>
+            <div className="form-group-compact">
+              <label className="form-label">Berakhir (opsional)</label>
+              <input type="date" className="input" value={form.end_date} onChange={(e) => updateForm({ end_date: e.target.value })} />
+            </div>
+            <div className="form-group-compact">
+              <label className="form-label">Keterangan</label>
+              <input className="input" value={form.description} placeholder="Keterangan transaksi" onChange={(e) => updateForm({ description: e.target.value })} />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 mt-4">
+            <button onClick={closeForm} className="btn btn-secondary flex items-center gap-2">
+              <FaTimes className="h-4 w-4" />
+              Batal
+            </button>
+            <button onClick={handleSave} className="btn btn-primary flex items-center gap-2" disabled={saving}>
+              <FaSave className="h-4 w-4" />
+              {saving ? 'Menyimpan...' : 'Simpan'}
+            </button>
+          </div>
+        </Card>
+      )}
+
+      <Card className="p-6">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                  <th className="py-2 pr-4">Nama</th>
+                  <th className="py-2 pr-4">Kategori</th>
+                  <th className="py-2 pr-4 text-right">Jumlah</th>
+                  <th className="py-2 pr-4">Jadwal</th>
+                  <th className="py-2 pr-4">Jatuh Tempo Berikutnya</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                {templates.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="py-6 text-center text-gray-500 dark:text-gray-400">
+                      Belum ada template transaksi berulang
+                    </td>
+                  </tr>
+                )}
+                {templates.map(template => (
+                  <tr key={template.id} className={template.is_active ? '' : 'opacity-60'}>
+                    <td className="py-2 pr-4">
+                      <div className="text-gray-900 dark:text-gray-100">{template.name}</div>
+                      {template.description && <div className="text-xs text-gray-500">{template.description}</div>}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <div className="text-gray-900 dark:text-gray-100">{template.category?.name || '-'}</div>
+                      <div className="text-xs text-gray-500">{template.payment_method?.name}</div>
+                    </td>
+                    <td className={`py-2 pr-4 text-right whitespace-nowrap ${template.transaction_type === 'income' ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatCurrency(template.amount)}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <div>{FREQUENCY_LABELS[template.frequency]}</div>
+                      <div className="text-xs text-gray-500">
+                        mulai {formatToIndonesian(template.start_date)}
+                        {template.end_date && ` s.d. ${formatToIndonesian(template.end_date)}`}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-4">{scheduleStatus(template)}</td>
+                    <td className="py-2">
+                      <div className="flex justify-end gap-1">
+                        <button onClick={() => openForm(template)} className="p-2 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded" title="Ubah">
+                          <FaEdit className="h-3 w-3" />
+                        </button>
+                        {!isFinished(template) && template.is_active && (
+                          <>
+                            <button onClick={() => handleSkip(template)} className="p-2 text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded" title="Lewati jatuh tempo berikutnya">
+                              <FaForward className="h-3 w-3" />
+                            </button>
+                            <button onClick={() => handlePause(template)} className="p-2 text-yellow-600 hover:bg-yellow-50 dark:hover:bg-yellow-900/20 rounded" title="Jeda">
+                              <FaPause className="h-3 w-3" />
+                            </button>
+                          </>
+                        )}
+                        {!isFinished(template) && !template.is_active && (
+                          <button onClick={() => handleResume(template)} className="p-2 text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20 rounded" title="Aktifkan kembali">
+                            <FaPlay className="h-3 w-3" />
+                          </button>
+                        )}
+                        <button onClick={() => handleDelete(template)} className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded" title="Hapus">
+                          <FaTrash className="h-3 w-3" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  )
+}
@@ -28,6 +28,8 @@ import { Transaction, TransactionSummary, MonthlyTransactionData, CategorySummar
 import toast from 'react-hot-toast'
 import { Card } from '../UI/Card'
 import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { BudgetVarianceCard } from './BudgetVarianceCard'
+import { RecurringObligationsCard } from './RecurringObligationsCard'
 
 interface TransactionDashboardProps {
   onAddTransaction: () => void
@@ -188,6 +190,12 @@ export function TransactionDashboard({ onAddTransaction, refreshTrigger }: Trans
         </motion.div>
       </div>
 
+      {/* Budget (RAPB) vs actual */}
+      <BudgetVarianceCard refreshTrigger={refreshTrigger} />
+
+      {/* Upcoming and skipped recurring transactions */}
+      <RecurringObligationsCard refreshTrigger={refreshTrigger} />
+
       {/* Charts Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Monthly Trend Chart */}
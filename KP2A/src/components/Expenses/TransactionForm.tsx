@@ -1,17 +1,19 @@
 import React, { useEffect, useState, useCallback } from 'react'
 import { useForm } from 'react-hook-form'
 import { yupResolver } from '@hookform/resolvers/yup'
-import { FaArrowUp, FaArrowDown, FaTimes, FaRobot, FaCheck, FaExclamationTriangle, FaEye, FaCog } from 'react-icons/fa'
+import { FaArrowUp, FaArrowDown, FaTimes, FaRobot, FaCheck, FaExclamationTriangle, FaEye, FaCog, FaQrcode } from 'react-icons/fa'
 import { motion } from 'framer-motion'
 import { Transaction, TransactionCategory, PaymentMethod } from '../../types/transactions'
 import { transactionSchema, TransactionFormValues } from '../../schemas/transactionSchema'
 import { handleNumberInputChange, formatInitialValue } from '../../utils/numberFormat'
-import { isDatabaseAvailable, databaseClient, withTimeout } from '../../lib/database'
+import { repositories } from '../../lib/repositories'
 import toast from 'react-hot-toast'
 import { Card } from '../UI/Card'
 import { LoadingSpinner } from '../UI/LoadingSpinner'
 import { bankWithdrawalClassificationService, ClassificationResult } from '../../services/bankWithdrawalClassificationService'
 import { bankWithdrawalValidationService, ValidationResult } from '../../services/bankWithdrawalValidationService'
+import QrisScanModal from '../Scanner/QrisScanModal'
+import { QrisData } from '../../utils/qris'
 
 interface TransactionFormProps {
   initial?: Transaction
@@ -50,6 +52,7 @@ export function TransactionForm({ initial, onSubmit, onCancel, isOpen }: Transac
     isLoading: false,
     error: null
   })
+  const [qrisScanOpen, setQrisScanOpen] = useState(false)
 
   const defaultValues: Partial<TransactionFormValues> = initial
     ? {
@@ -215,37 +218,16 @@ export function TransactionForm({ initial, onSubmit, onCancel, isOpen }: Transac
   const fetchFormData = async () => {
     setLoadingData(true)
     try {
-      if (!isDatabaseAvailable() || !databaseClient) {
-        throw new Error('Database connection not available')
-      }
+      const [categoriesResponse, paymentMethodsResponse] = await Promise.all([
+        repositories.transactionCategories.list({ is_active: true }),
+        repositories.paymentMethods.list()
+      ])
+
+      if (categoriesResponse.error) throw new Error(categoriesResponse.error)
+      setCategories((categoriesResponse.data || []).sort((a, b) => a.name.localeCompare(b.name)))
 
-      // Fetch categories
-      const { data: categoriesData, error: categoriesError } = await withTimeout(
-        databaseClient
-          .from('transaction_categories')
-          .select('*')
-          .eq('is_active', true)
-          .order('name'),
-        5000,
-        'fetch categories'
-      )
-
-      if (categoriesError) throw categoriesError
-      setCategories(categoriesData || [])
-
-      // Fetch payment methods
-      const { data: paymentMethodsData, error: paymentMethodsError } = await withTimeout(
-        databaseClient
-          .from('payment_methods')
-          .select('*')
-          .eq('is_active', true)
-          .order('name'),
-        5000,
-        'fetch payment methods'
-      )
-
-      if (paymentMethodsError) throw paymentMethodsError
-      setPaymentMethods(paymentMethodsData || [])
+      if (paymentMethodsResponse.error) throw new Error(paymentMethodsResponse.error)
+      setPaymentMethods((paymentMethodsResponse.data || []).sort((a, b) => a.name.localeCompare(b.name)))
 
     } catch (error) {
       console.error('Failed to fetch form data:', error)
@@ -331,6 +313,30 @@ export function TransactionForm({ initial, onSubmit, onCancel, isOpen }: Transac
     }
   }
 
+  // Prefill a QRIS payment: an expense to the scanned merchant, with the amount of a dynamic code
+  const applyQris = (qris: QrisData) => {
+    handleTypeChange('expense')
+
+    if (qris.amount) {
+      setValue('amount', qris.amount, { shouldValidate: true })
+      const input = document.getElementById('transaction_amount') as HTMLInputElement | null
+      if (input) input.value = formatInitialValue(qris.amount)
+    }
+
+    const reference = qris.referenceLabel || qris.billNumber
+    setValue('description', [
+      `Pembayaran QRIS ${qris.merchantName}, ${qris.merchantCity}`,
+      `NMID ${qris.nmid}`,
+      reference ? `Ref ${reference}` : '',
+      qris.purpose || ''
+    ].filter(Boolean).join(' - '), { shouldValidate: true })
+
+    const qrisMethod = paymentMethods.find(pm => /qris/i.test(pm.name)) || paymentMethods.find(pm => pm.type === 'e_wallet')
+    if (qrisMethod) setValue('payment_method_id', qrisMethod.id, { shouldValidate: true })
+
+    toast.success(qris.amount ? 'Data QRIS dimasukkan' : 'QRIS statis: isi jumlah secara manual')
+  }
+
   const rejectClassificationSuggestion = () => {
     setClassification(prev => ({ ...prev, manualOverride: true }))
   }
@@ -379,12 +385,23 @@ export function TransactionForm({ initial, onSubmit, onCancel, isOpen }: Transac
             <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">
               {initial ? 'Edit Transaksi' : 'Tambah Transaksi'}
             </h2>
-            <button
-              onClick={onCancel}
-              className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
-            >
-              <FaTimes className="h-5 w-5" />
-            </button>
+            <div className="flex items-center gap-2">
+              {!initial && !loadingData && (
+                <button
+                  type="button"
+                  onClick={() => setQrisScanOpen(true)}
+                  className="btn btn-secondary btn-sm gap-1"
+                >
+                  <FaQrcode className="h-4 w-4" /> Scan QRIS
+                </button>
+              )}
+              <button
+                onClick={onCancel}
+                className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              >
+                <FaTimes className="h-5 w-5" />
+              </button>
+            </div>
           </div>
 
           {loadingData ? (
@@ -437,6 +454,7 @@ export function TransactionForm({ initial, onSubmit, onCancel, isOpen }: Transac
                     Jumlah *
                   </label>
                   <input
+                    id="transaction_amount"
                     type="text"
                     defaultValue={formatInitialValue(defaultValues.amount)}
                     onChange={(e) => handleNumberInputChange(e, setValue, 'amount')}
@@ -772,6 +790,12 @@ export function TransactionForm({ initial, onSubmit, onCancel, isOpen }: Transac
           )}
         </Card>
       </motion.div>
+
+      <QrisScanModal
+        isOpen={qrisScanOpen}
+        onClose={() => setQrisScanOpen(false)}
+        onScanned={applyQris}
+      />
     </motion.div>
   )
 }
\ No newline at end of file
@@ -1,20 +1,25 @@
 import React, { useState } from 'react'
 import { motion } from 'framer-motion'
-import { FaChartLine, FaPlus, FaList, FaChartBar, FaCog, FaFlask } from 'react-icons/fa'
+import { FaChartLine, FaPlus, FaList, FaChartBar, FaCog, FaFlask, FaUniversity, FaClipboardList, FaRedo } from 'react-icons/fa'
 import { TransactionDashboard } from './TransactionDashboard'
 import { TransactionForm } from './TransactionForm'
 import { TransactionList } from './TransactionList'
 import { Reports } from './Reports'
 import { CategoryManagement } from './CategoryManagement'
-import { isDatabaseAvailable, databaseClient } from '../../lib/database'
+import { BankReconciliation } from './BankReconciliation'
+import { BudgetPlanner } from './BudgetPlanner'
+import { RecurringTransactionManager } from './RecurringTransactionManager'
+import { repositories } from '../../lib/repositories'
+import { useAuth } from '../../contexts/AuthContext'
 import { Transaction } from '../../types/transactions'
 import { bankWithdrawalClassificationService } from '../../services/bankWithdrawalClassificationService'
 import { bankWithdrawalValidationService } from '../../services/bankWithdrawalValidationService'
 import toast from 'react-hot-toast'
 
-type TabType = 'dashboard' | 'list' | 'reports' | 'categories' | 'test'
+type TabType = 'dashboard' | 'list' | 'reports' | 'recurring' | 'budget' | 'reconciliation' | 'categories' | 'test'
 
 export function TransactionPage() {
+  const { user } = useAuth()
   const [activeTab, setActiveTab] = useState<TabType>('dashboard')
   const [isFormOpen, setIsFormOpen] = useState(false)
   const [editingTransaction, setEditingTransaction] = useState<Transaction | undefined>(undefined)
@@ -26,56 +31,38 @@ export function TransactionPage() {
     { id: 'dashboard' as TabType, name: 'Dashboard', icon: FaChartLine },
     { id: 'list' as TabType, name: 'Daftar Transaksi', icon: FaList },
     { id: 'reports' as TabType, name: 'Laporan', icon: FaChartBar },
+    { id: 'recurring' as TabType, name: 'Transaksi Berulang', icon: FaRedo },
+    { id: 'budget' as TabType, name: 'Anggaran (RAPB)', icon: FaClipboardList },
+    { id: 'reconciliation' as TabType, name: 'Rekonsiliasi Bank', icon: FaUniversity },
     { id: 'categories' as TabType, name: 'Kategori & Metode', icon: FaCog },
     { id: 'test' as TabType, name: 'Test System', icon: FaFlask },
   ]
 
   const handleTransactionSubmit = async (values: any) => {
     try {
-      if (!isDatabaseAvailable() || !databaseClient) {
-        throw new Error('Database connection not available')
+      const transaction = {
+        transaction_type: values.transaction_type,
+        amount: values.amount,
+        transaction_date: values.transaction_date,
+        category_id: values.category_id,
+        description: values.description,
+        payment_method_id: values.payment_method_id,
+        status: values.status,
       }
 
       if (editingTransaction) {
         // Update existing transaction
-        const { error } = await databaseClient
-          .from('transactions')
-          .update({
-            transaction_type: values.transaction_type,
-            amount: values.amount,
-            transaction_date: values.transaction_date,
-            category_id: values.category_id,
-            description: values.description,
-            payment_method_id: values.payment_method_id,
-            status: values.status,
-          })
-          .eq('id', editingTransaction.id)
-
-        if (error) throw error
+        const { error } = await repositories.transactions.update(editingTransaction.id, transaction)
+        if (error) throw new Error(error)
         toast.success('Transaksi berhasil diperbarui')
       } else {
         // Create new transaction
-        const session = await databaseClient.auth.getSession()
-        const userId = session.data.session?.user?.id
-        
-        if (!userId) {
+        if (!user?.id) {
           throw new Error('User tidak terautentikasi')
         }
 
-        const { error } = await databaseClient
-          .from('transactions')
-          .insert({
-            transaction_type: values.transaction_type,
-            amount: values.amount,
-            transaction_date: values.transaction_date,
-            category_id: values.category_id,
-            description: values.description,
-            payment_method_id: values.payment_method_id,
-            status: values.status,
-            created_by: userId,
-          })
-
-        if (error) throw error
+        const { error } = await repositories.transactions.create({ ...transaction, created_by: user.id })
+        if (error) throw new Error(error)
         toast.success('Transaksi berhasil disimpan')
       }
 
@@ -84,7 +71,7 @@ export function TransactionPage() {
       setRefreshTrigger(prev => prev + 1)
     } catch (error) {
       console.error('Failed to save transaction:', error)
-      toast.error('Gagal menyimpan transaksi')
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan transaksi')
       throw error
     }
   }
@@ -281,6 +268,12 @@ export function TransactionPage() {
         return <TransactionList key={refreshTrigger} onEdit={handleEdit} onDelete={handleDelete} refreshTrigger={refreshTrigger} />
       case 'reports':
         return <Reports key={refreshTrigger} />
+      case 'recurring':
+        return <RecurringTransactionManager />
+      case 'budget':
+        return <BudgetPlanner />
+      case 'reconciliation':
+        return <BankReconciliation />
       case 'categories':
         return <CategoryManagement key={refreshTrigger} />
       case 'test':
@@ -1,8 +1,7 @@
 import React, { useState } from 'react'
-import { FaSearch, FaDatabase, FaBars } from 'react-icons/fa'
-import { isDatabaseAvailable } from '../../lib/database'
-import { useAuth } from '../../contexts/AuthContext'
+import { FaSearch, FaBars } from 'react-icons/fa'
 import { NotificationDropdown } from '../Notifications/NotificationDropdown'
+import { SyncStatus } from '../Sync/SyncStatus'
 import ThemeToggle from '../UI/ThemeToggle'
 
 interface HeaderProps {
@@ -12,7 +11,6 @@ interface HeaderProps {
 }
 
 export function Header({ title, subtitle, onMenuClick }: HeaderProps) {
-  const { isDemo } = useAuth()
   return (
     <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700 transition-colors">
       <div className="flex items-center justify-between px-4 sm:px-6 py-4">
@@ -60,15 +58,8 @@ export function Header({ title, subtitle, onMenuClick }: HeaderProps) {
           
           {/* Notifications and Theme Toggle */}
           <div className="flex items-center space-x-3">
-            {/* Supabase Status Indicator - Hidden on small screens */}
-            <div className={`hidden sm:flex items-center px-2 py-1 rounded-full text-xs ${
-              isDatabaseAvailable() && !isDemo
-                ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200'
-                : 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200'
-            }`}>
-              <FaDatabase className="h-3 w-3 mr-1" />
-              {isDatabaseAvailable() && !isDemo ? 'Terkoneksi dengan Server' : 'Terkoneksi dengan Server'}
-            </div>
+            {/* Connection and offline queue status - label hidden on small screens unless there is something to sync */}
+            <SyncStatus />
             
             <ThemeToggle />
             <NotificationDropdown />
@@ -1,6 +1,6 @@
 import React, { useState } from 'react'
 import { Link, useLocation } from 'react-router-dom'
-import { FaHome, FaUsers, FaDollarSign, FaCreditCard, FaReceipt, FaChartBar, FaUpload, FaMobile, FaSignOutAlt, FaLock, FaChevronLeft, FaChevronRight, FaBullhorn, FaChevronDown, FaWhatsapp, FaHistory, FaAddressBook, FaPlug } from 'react-icons/fa'
+import { FaHome, FaUsers, FaDollarSign, FaCreditCard, FaReceipt, FaChartBar, FaUpload, FaMobile, FaSignOutAlt, FaLock, FaChevronLeft, FaChevronRight, FaBullhorn, FaChevronDown, FaWhatsapp, FaHistory, FaAddressBook, FaPlug, FaBook, FaClipboardCheck, FaIdCard, FaUserCheck, FaDatabase } from 'react-icons/fa'
 import { useAuth } from '../../contexts/AuthContext'
 import { useSidebar } from '../../contexts/SidebarContext'
 import { clsx } from 'clsx'
@@ -22,11 +22,15 @@ const navigation: NavItem[] = [
     icon: FaCreditCard,
     subItems: [
       { name: 'Daftar Pinjaman', href: '/loans', icon: FaCreditCard },
+      { name: 'Pengajuan', href: '/loan-applications', icon: FaClipboardCheck },
       { name: 'Angsuran', href: '/loan-payments', icon: FaReceipt }
     ]
   },
   { name: 'Buku Kas', href: '/expenses', icon: FaReceipt },
+  { name: 'Buku Besar', href: '/ledger', icon: FaBook },
+  { name: 'Rapat Anggota', href: '/meetings', icon: FaUserCheck },
   { name: 'Laporan', href: '/reports', icon: FaChartBar },
+  { name: 'SQL Editor', href: '/sql-editor', icon: FaDatabase },
   { name: 'Upload CSV', href: '/upload', icon: FaUpload },
   {
     name: 'WhatsApp',
@@ -40,6 +44,12 @@ const navigation: NavItem[] = [
   },
 ]
 
+// Anggota only see their own data through the portal
+const memberNavigation: NavItem[] = [
+  { name: 'Portal Anggota', href: '/portal', icon: FaIdCard },
+  { name: 'Pengajuan Pinjaman', href: '/loan-applications', icon: FaClipboardCheck },
+]
+
 const adminNavigation = [
   { name: 'Manajemen Admin', href: '/admin', icon: FaLock },
 ]
@@ -152,7 +162,7 @@ export function Sidebar() {
 
       {/* Navigation */}
       <nav className="flex-1 px-4 py-8 space-y-1 overflow-y-auto overflow-x-hidden custom-scrollbar">
-        {navigation.map((item) => {
+        {(userProfile?.role === 'anggota' ? memberNavigation : navigation).map((item) => {
           const isActive = item.href ? location.pathname === item.href : location.pathname.startsWith(`/${item.name.toLowerCase()}`)
           const hasSubItems = item.subItems && item.subItems.length > 0
           const isSubMenuOpen = expandedMenu === item.name
@@ -0,0 +1,353 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { FaBalanceScale, FaBook, FaListOl, FaSitemap, FaSyncAlt, FaRedo } from 'react-icons/fa'
+import { motion } from 'framer-motion'
+import toast from 'react-hot-toast'
+import { PageTransition, AnimatedContainer } from '../UI/AnimatedComponents'
+import {
+  ledgerApi,
+  BalanceSheet,
+  BalanceSheetSection,
+  GeneralLedger,
+  LedgerAccountBalance,
+  LedgerAccountType,
+  TrialBalance
+} from '../../lib/api'
+
+type LedgerTab = 'neraca' | 'neraca-saldo' | 'buku-besar' | 'bagan-akun'
+
+const TABS: { id: LedgerTab; label: string; icon: React.ComponentType<{ className?: string }> }[] = [
+  { id: 'neraca', label: 'Neraca', icon: FaBalanceScale },
+  { id: 'neraca-saldo', label: 'Neraca Saldo', icon: FaListOl },
+  { id: 'buku-besar', label: 'Buku Besar', icon: FaBook },
+  { id: 'bagan-akun', label: 'Bagan Akun', icon: FaSitemap }
+]
+
+const TYPE_LABELS: Record<LedgerAccountType, string> = {
+  asset: 'Harta',
+  liability: 'Kewajiban',
+  equity: 'Modal',
+  income: 'Pendapatan',
+  expense: 'Beban'
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount || 0)
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('id-ID', { day: '2-digit', month: 'short', year: 'numeric' })
+
+function BalanceSheetSectionCard({ title, section, extra }: { title: string; section: BalanceSheetSection; extra?: { label: string; value: number }[] }) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">{title}</h3>
+      <div className="space-y-2">
+        {section.detail.map((item) => (
+          <div key={item.code} className="flex justify-between text-sm text-gray-700 dark:text-gray-300">
+            <span>{item.code} {item.name}</span>
+            <span>{formatCurrency(item.balance)}</span>
+          </div>
+        ))}
+        {extra?.filter((item) => item.value !== 0).map((item) => (
+          <div key={item.label} className="flex justify-between text-sm text-gray-700 dark:text-gray-300">
+            <span>{item.label}</span>
+            <span>{formatCurrency(item.value)}</span>
+          </div>
+        ))}
+        {section.detail.length === 0 && !extra?.some((item) => item.value !== 0) && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Belum ada saldo</p>
+        )}
+      </div>
+      <div className="flex justify-between font-semibold text-gray-900 dark:text-gray-100 border-t border-gray-200 dark:border-gray-700 mt-4 pt-3">
+        <span>Total {title}</span>
+        <span>{formatCurrency(section.total)}</span>
+      </div>
+    </div>
+  )
+}
+
+export function GeneralLedgerPage() {
+  const [activeTab, setActiveTab] = useState<LedgerTab>('neraca')
+  const [asOf, setAsOf] = useState(new Date().toISOString().split('T')[0])
+  const [loading, setLoading] = useState(true)
+  const [rebuilding, setRebuilding] = useState(false)
+  const [accounts, setAccounts] = useState<LedgerAccountBalance[]>([])
+  const [balanceSheet, setBalanceSheet] = useState<BalanceSheet | null>(null)
+  const [trialBalance, setTrialBalance] = useState<TrialBalance | null>(null)
+  const [selectedAccount, setSelectedAccount] = useState('1-1100')
+  const [ledger, setLedger] = useState<GeneralLedger | null>(null)
+  const [ledgerStart, setLedgerStart] = useState(`${new Date().getFullYear()}-01-01`)
+
+  const fetchData = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [accountsResult, sheetResult, trialResult] = await Promise.all([
+        ledgerApi.getAccounts(asOf),
+        ledgerApi.getBalanceSheet(asOf),
+        ledgerApi.getTrialBalance(asOf)
+      ])
+      if (accountsResult.error) throw new Error(accountsResult.error)
+      if (sheetResult.error) throw new Error(sheetResult.error)
+      if (trialResult.error) throw new Error(trialResult.error)
+
+      setAccounts(accountsResult.data || [])
+      setBalanceSheet(sheetResult.data || null)
+      setTrialBalance(trialResult.data || null)
+    } catch (error) {
+      console.error('Error fetching ledger data:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal memuat buku besar')
+    } finally {
+      setLoading(false)
+    }
+  }, [asOf])
+
+  const fetchLedger = useCallback(async () => {
+    try {
+      const { data, error } = await ledgerApi.getGeneralLedger(selectedAccount, { start: ledgerStart, end: asOf })
+      if (error) throw new Error(error)
+      setLedger(data || null)
+    } catch (error) {
+      console.error('Error fetching general ledger:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal memuat buku besar akun')
+    }
+  }, [selectedAccount, ledgerStart, asOf])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  useEffect(() => {
+    if (activeTab === 'buku-besar') {
+      fetchLedger()
+    }
+  }, [activeTab, fetchLedger])
+
+  const handleRebuild = async () => {
+    if (!window.confirm('Susun ulang seluruh jurnal dari data iuran, pinjaman, simpanan dan buku kas?')) return
+
+    setRebuilding(true)
+    try {
+      const { data, error } = await ledgerApi.rebuild()
+      if (error) throw new Error(error)
+
+      const total = Object.values(data?.counts || {}).reduce((sum, count) => sum + count, 0)
+      toast.success(`Jurnal disusun ulang (${total} jurnal)`)
+      await fetchData()
+      if (activeTab === 'buku-besar') await fetchLedger()
+    } catch (error) {
+      console.error('Error rebuilding ledger:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyusun ulang jurnal')
+    } finally {
+      setRebuilding(false)
+    }
+  }
+
+  const postingAccounts = accounts.filter((account) => account.parent_code)
+
+  return (
+    <PageTransition>
+      <AnimatedContainer className="space-y-6" staggerChildren={0.1}>
+        {/* Toolbar */}
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex flex-col md:flex-row md:items-end md:justify-between gap-4"
+        >
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Per Tanggal</label>
+            <input
+              type="date"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            />
+          </div>
+          <div className="flex space-x-3">
+            <button
+              onClick={fetchData}
+              disabled={loading}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+            >
+              <FaSyncAlt className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
+            </button>
+            <button
+              onClick={handleRebuild}
+              disabled={rebuilding}
+              className="inline-flex items-center px-4 py-2 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <FaRedo className={`h-4 w-4 mr-2 ${rebuilding ? 'animate-spin' : ''}`} />
+              Susun Ulang Jurnal
+            </button>
+          </div>
+        </motion.div>
+
+        {/* Tabs */}
+        <div className="flex flex-wrap gap-2 border-b border-gray-200 dark:border-gray-700">
+          {TABS.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`inline-flex items-center px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === tab.id
+                  ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+              }`}
+            >
+              <tab.icon className="h-4 w-4 mr-2" />
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {loading && !balanceSheet ? (
+          <div className="flex items-center justify-center h-48">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <>
+            {activeTab === 'neraca' && balanceSheet && (
+              <div className="space-y-4">
+                {!balanceSheet.balanced && (
+                  <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 text-sm">
+                    Neraca tidak seimbang. Jalankan "Susun Ulang Jurnal" untuk memposting ulang dokumen sumber.
+                  </div>
+                )}
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <BalanceSheetSectionCard title="Harta" section={balanceSheet.harta} />
+                  <div className="space-y-6">
+                    <BalanceSheetSectionCard title="Kewajiban" section={balanceSheet.kewajiban} />
+                    <BalanceSheetSectionCard
+                      title="Modal"
+                      section={balanceSheet.modal}
+                      extra={[{ label: 'SHU Tahun Berjalan', value: balanceSheet.modal.shu }]}
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-between bg-gray-50 dark:bg-gray-900 rounded-xl p-4 font-semibold text-gray-900 dark:text-gray-100">
+                  <span>Total Harta: {formatCurrency(balanceSheet.harta.total)}</span>
+                  <span>Total Kewajiban + Modal: {formatCurrency(balanceSheet.total_kewajiban_modal)}</span>
+                </div>
+              </div>
+            )}
+
+            {activeTab === 'neraca-saldo' && trialBalance && (
+              <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-400">Kode</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-400">Nama Akun</th>
+                      <th className="px-4 py-3 text-right font-medium text-gray-500 dark:text-gray-400">Debit</th>
+                      <th className="px-4 py-3 text-right font-medium text-gray-500 dark:text-gray-400">Kredit</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {trialBalance.rows.map((row) => (
+                      <tr key={row.code} className="text-gray-700 dark:text-gray-300">
+                        <td className="px-4 py-2">{row.code}</td>
+                        <td className="px-4 py-2">{row.name}</td>
+                        <td className="px-4 py-2 text-right">{row.debit ? formatCurrency(row.debit) : '-'}</td>
+                        <td className="px-4 py-2 text-right">{row.credit ? formatCurrency(row.credit) : '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot className="bg-gray-50 dark:bg-gray-900 font-semibold text-gray-900 dark:text-gray-100">
+                    <tr>
+                      <td className="px-4 py-3" colSpan={2}>
+                        Total {trialBalance.balanced ? '(seimbang)' : '(tidak seimbang)'}
+                      </td>
+                      <td className="px-4 py-3 text-right">{formatCurrency(trialBalance.total_debit)}</td>
+                      <td className="px-4 py-3 text-right">{formatCurrency(trialBalance.total_credit)}</td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            )}
+
+            {activeTab === 'buku-besar' && (
+              <div className="space-y-4">
+                <div className="flex flex-col md:flex-row gap-4">
+                  <select
+                    value={selectedAccount}
+                    onChange={(e) => setSelectedAccount(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                  >
+                    {postingAccounts.map((account) => (
+                      <option key={account.code} value={account.code}>
+                        {account.code} - {account.name}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="date"
+                    value={ledgerStart}
+                    onChange={(e) => setLedgerStart(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                  />
+                </div>
+                {ledger && (
+                  <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                      <thead className="bg-gray-50 dark:bg-gray-900">
+                        <tr>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-400">Tanggal</th>
+                          <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-400">Keterangan</th>
+                          <th className="px-4 py-3 text-right font-medium text-gray-500 dark:text-gray-400">Debit</th>
+                          <th className="px-4 py-3 text-right font-medium text-gray-500 dark:text-gray-400">Kredit</th>
+                          <th className="px-4 py-3 text-right font-medium text-gray-500 dark:text-gray-400">Saldo</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                        <tr className="text-gray-500 dark:text-gray-400 italic">
+                          <td className="px-4 py-2" colSpan={4}>Saldo awal</td>
+                          <td className="px-4 py-2 text-right">{formatCurrency(ledger.opening_balance)}</td>
+                        </tr>
+                        {ledger.lines.map((line, index) => (
+                          <tr key={`${line.journal_id}-${index}`} className="text-gray-700 dark:text-gray-300">
+                            <td className="px-4 py-2 whitespace-nowrap">{formatDate(line.entry_date)}</td>
+                            <td className="px-4 py-2">{line.memo || line.description}</td>
+                            <td className="px-4 py-2 text-right">{line.debit ? formatCurrency(line.debit) : '-'}</td>
+                            <td className="px-4 py-2 text-right">{line.credit ? formatCurrency(line.credit) : '-'}</td>
+                            <td className="px-4 py-2 text-right">{formatCurrency(line.balance)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {activeTab === 'bagan-akun' && (
+              <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-400">Kode</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-400">Nama Akun</th>
+                      <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-400">Kelompok</th>
+                      <th className="px-4 py-3 text-right font-medium text-gray-500 dark:text-gray-400">Saldo</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {accounts.map((account) => (
+                      <tr
+                        key={account.code}
+                        className={account.parent_code ? 'text-gray-700 dark:text-gray-300' : 'font-semibold text-gray-900 dark:text-gray-100 bg-gray-50/50 dark:bg-gray-900/50'}
+                      >
+                        <td className="px-4 py-2">{account.code}</td>
+                        <td className={`px-4 py-2 ${account.parent_code ? 'pl-8' : ''}`}>{account.name}</td>
+                        <td className="px-4 py-2">{TYPE_LABELS[account.type]}</td>
+                        <td className="px-4 py-2 text-right">{account.parent_code ? formatCurrency(account.balance) : ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </AnimatedContainer>
+    </PageTransition>
+  )
+}
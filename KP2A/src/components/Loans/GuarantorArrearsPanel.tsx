@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import { FaUserShield, FaWhatsapp } from 'react-icons/fa'
+import toast from 'react-hot-toast'
+import { ArrearsLoanGuarantors, LoanGuarantor } from '../../lib/api'
+import { whatsappNotificationService, NotificationRecipient } from '../../services/whatsappNotificationService'
+import { formatCurrency } from '../../utils/numberFormat'
+
+interface GuarantorArrearsPanelProps {
+  arrears: ArrearsLoanGuarantors[]
+}
+
+const toRecipient = (guarantor: LoanGuarantor): NotificationRecipient => ({
+  phoneNumber: guarantor.no_hp || '',
+  name: guarantor.nama_lengkap,
+  memberId: guarantor.member_id,
+  isAdmin: false,
+})
+
+const alertVariables = (loan: ArrearsLoanGuarantors) => ({
+  borrower: loan.nama_lengkap,
+  amount: loan.overdue_amount.toLocaleString('id-ID'),
+  dueDate: new Date(loan.oldest_due_date).toLocaleDateString('id-ID'),
+  daysPast: String(loan.days_late),
+})
+
+// Guarantors of loans with overdue installments, with WhatsApp notification
+export function GuarantorArrearsPanel({ arrears }: GuarantorArrearsPanelProps) {
+  const [sending, setSending] = useState<string | null>(null)
+
+  if (arrears.length === 0) return null
+
+  const notify = async (key: string, targets: { loan: ArrearsLoanGuarantors; guarantor: LoanGuarantor }[]) => {
+    const reachable = targets.filter(({ guarantor }) => guarantor.no_hp)
+    if (reachable.length === 0) {
+      toast.error('Penjamin belum memiliki nomor WhatsApp')
+      return
+    }
+    try {
+      setSending(key)
+      let success = 0
+      for (const { loan, guarantor } of reachable) {
+        const sent = await whatsappNotificationService.sendNotification('guarantor_alert', toRecipient(guarantor), {
+          name: guarantor.nama_lengkap,
+          ...alertVariables(loan),
+        })
+        if (sent) success++
+      }
+      const failed = reachable.length - success
+      if (failed > 0) {
+        toast.error(`${success} pesan terkirim, ${failed} gagal`)
+      } else {
+        toast.success(`${success} penjamin diberi tahu lewat WhatsApp`)
+      }
+    } finally {
+      setSending(null)
+    }
+  }
+
+  const allTargets = arrears.flatMap(loan => loan.guarantors.map(guarantor => ({ loan, guarantor })))
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-red-200 dark:border-red-800 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-600 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <FaUserShield className="h-4 w-4 text-red-500" />
+          <div>
+            <h3 className="font-semibold text-gray-900 dark:text-gray-100">Penjamin Pinjaman Menunggak</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {arrears.length} pinjaman menunggak · {allTargets.length} penjamin
+            </p>
+          </div>
+        </div>
+        {allTargets.length > 0 && (
+          <button
+            onClick={() => notify('all', allTargets)}
+            disabled={sending !== null}
+            className="btn btn-secondary btn-sm gap-1"
+          >
+            <FaWhatsapp className="h-3 w-3 text-green-600" /> {sending === 'all' ? 'Mengirim...' : 'Beri Tahu Semua Penjamin'}
+          </button>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-600 text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Peminjam</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Tunggakan</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Terlambat</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Penjamin</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Aksi</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+            {arrears.map(loan => (
+              <tr key={loan.loan_id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                <td className="px-4 py-2 text-gray-900 dark:text-gray-100">{loan.nama_lengkap}</td>
+                <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">
+                  {formatCurrency(loan.overdue_amount)}
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">{loan.overdue_installments} angsuran</span>
+                </td>
+                <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{loan.days_late} hari</td>
+                <td className="px-4 py-2 text-gray-700 dark:text-gray-300">
+                  {loan.guarantors.length === 0
+                    ? <span className="text-gray-500 dark:text-gray-400">Tanpa penjamin</span>
+                    : loan.guarantors.map(g => (
+                      <span key={g.id} className="block">{g.nama_lengkap}{g.no_hp ? ` · ${g.no_hp}` : ' · tanpa nomor'}</span>
+                    ))}
+                </td>
+                <td className="px-4 py-2 text-right">
+                  {loan.guarantors.length > 0 && (
+                    <button
+                      onClick={() => notify(loan.loan_id, loan.guarantors.map(guarantor => ({ loan, guarantor })))}
+                      disabled={sending !== null}
+                      className="p-2 text-green-600 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 rounded"
+                      title="Kirim WhatsApp ke penjamin"
+                    >
+                      <FaWhatsapp className="h-4 w-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
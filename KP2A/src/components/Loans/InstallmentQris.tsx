@@ -0,0 +1,65 @@
+import { useEffect, useMemo, useState } from 'react'
+import QRCode from 'qrcode'
+import { LoanScheduleRow } from '../../lib/api'
+import { formatCurrency } from '../../utils/numberFormat'
+import { generateDynamicQris, installmentReference, parseQris } from '../../utils/qris'
+
+// Static QRIS of the cooperative's merchant account; the installment code is derived from it
+const MERCHANT_QRIS = import.meta.env.VITE_QRIS_MERCHANT_PAYLOAD as string | undefined
+
+// Dynamic QRIS for the outstanding amount of one installment. The reference label lets the
+// loan payment form match a scanned code back to the loan.
+export function InstallmentQris({ loanId, installment }: { loanId: string; installment: LoanScheduleRow }) {
+  const [qr, setQr] = useState<string | null>(null)
+
+  const amount = Math.round(Number(installment.total) - Number(installment.paid_pokok || 0) - Number(installment.paid_bunga || 0))
+  const reference = installmentReference(loanId, installment.angsuran_ke)
+
+  const payload = useMemo(() => {
+    if (!MERCHANT_QRIS || amount <= 0) return null
+    try {
+      return generateDynamicQris(MERCHANT_QRIS, {
+        amount,
+        referenceLabel: reference,
+        purpose: `Angsuran ke-${installment.angsuran_ke}`,
+      })
+    } catch (error) {
+      console.error('Failed to build installment QRIS:', error)
+      return null
+    }
+  }, [amount, reference, installment.angsuran_ke])
+
+  const merchantName = payload ? parseQris(payload).data?.merchantName : undefined
+
+  useEffect(() => {
+    if (!payload) {
+      setQr(null)
+      return
+    }
+    QRCode.toDataURL(payload, { width: 240, margin: 1, errorCorrectionLevel: 'M' })
+      .then(setQr)
+      .catch(() => setQr(null))
+  }, [payload])
+
+  if (!payload) return null
+
+  return (
+    <div className="flex items-center gap-4 p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+      <div className="bg-white rounded p-1 flex-shrink-0">
+        {qr ? (
+          <img src={qr} alt="QRIS angsuran" className="h-28 w-28" />
+        ) : (
+          <div className="h-28 w-28 animate-pulse bg-gray-200 rounded" />
+        )}
+      </div>
+      <div className="text-sm space-y-1 min-w-0">
+        <p className="font-medium text-gray-900 dark:text-gray-100">Bayar angsuran ke-{installment.angsuran_ke} via QRIS</p>
+        <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">{formatCurrency(amount)}</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{merchantName} · Ref {reference}</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Pindai dengan aplikasi bank atau e-wallet. Pembayaran dicatat setelah dikonfirmasi pengurus.
+        </p>
+      </div>
+    </div>
+  )
+}
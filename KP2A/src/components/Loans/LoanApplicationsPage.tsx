@@ -0,0 +1,655 @@
+import { useCallback, useEffect, useState } from 'react'
+import { FaCheck, FaCheckCircle, FaCog, FaCommentDots, FaEye, FaMoneyBillWave, FaPlus, FaSave, FaTimes, FaTimesCircle } from 'react-icons/fa'
+import { motion, AnimatePresence } from 'framer-motion'
+import toast from 'react-hot-toast'
+import {
+  cashBankApi,
+  loanApplicationsApi,
+  loansApi,
+  CashBankAccount,
+  LoanApplication,
+  LoanApplicationDetail,
+  LoanApproval,
+  LoanInterestMethod,
+  LoanPolicy,
+  LoanSchedulePreview,
+  Member,
+} from '../../lib/api'
+import { repositories } from '../../lib/repositories'
+import { useAuth } from '../../contexts/AuthContext'
+import { formatCurrency } from '../../utils/numberFormat'
+import { LoanGuaranteePanel } from './LoanGuaranteePanel'
+import { createLoanApprovalNotification } from '../../utils/notificationHelpers'
+
+type StatusFilter = 'pending' | 'disetujui' | 'aktif' | 'ditolak' | 'all'
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  pending: { label: 'Menunggu', className: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200' },
+  disetujui: { label: 'Disetujui', className: 'bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200' },
+  aktif: { label: 'Dicairkan', className: 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200' },
+  lunas: { label: 'Lunas', className: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200' },
+  ditolak: { label: 'Ditolak', className: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200' },
+}
+
+const DECISION_LABELS: Record<LoanApproval['decision'], string> = {
+  setuju: 'Menyetujui',
+  tolak: 'Menolak',
+  catatan: 'Catatan',
+}
+
+const METHOD_LABELS: Record<LoanInterestMethod, string> = {
+  flat: 'Flat',
+  efektif: 'Efektif',
+  anuitas: 'Anuitas',
+}
+
+const emptyApplication = { member_id: '', jumlah_pinjaman: 0, tenor_bulan: 10, tujuan: '' }
+
+export function LoanApplicationsPage() {
+  const { user } = useAuth()
+  const canManage = user?.role === 'admin' || user?.role === 'pengurus'
+
+  const [applications, setApplications] = useState<LoanApplication[]>([])
+  const [policy, setPolicy] = useState<LoanPolicy | null>(null)
+  const [policyDraft, setPolicyDraft] = useState<LoanPolicy | null>(null)
+  const [members, setMembers] = useState<Member[]>([])
+  const [accounts, setAccounts] = useState<CashBankAccount[]>([])
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>(canManage ? 'pending' : 'all')
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const [formOpen, setFormOpen] = useState(false)
+  const [form, setForm] = useState(emptyApplication)
+  const [preview, setPreview] = useState<LoanSchedulePreview | null>(null)
+
+  const [detail, setDetail] = useState<LoanApplicationDetail | null>(null)
+  const [comment, setComment] = useState('')
+  const [disburseAccountId, setDisburseAccountId] = useState('')
+  const [disburseDate, setDisburseDate] = useState(new Date().toISOString().split('T')[0])
+
+  useEffect(() => {
+    loanApplicationsApi.getPolicy().then(({ data }) => setPolicy(data || null))
+    if (canManage) {
+      repositories.members.list().then(({ data }) => setMembers(data || []))
+      cashBankApi.getAccounts().then(({ data }) => setAccounts((data || []).filter(a => a.is_active)))
+    }
+  }, [canManage])
+
+  // Installment estimate at the policy's jasa rate
+  useEffect(() => {
+    setPreview(null)
+    const amount = Number(form.jumlah_pinjaman) || 0
+    const tenor = Number(form.tenor_bulan) || 0
+    if (!formOpen || !policy || amount <= 0 || tenor <= 0) return
+
+    const timer = setTimeout(async () => {
+      const { data } = await loansApi.previewSchedule({
+        jumlah_pinjaman: amount,
+        bunga_persen: policy.bunga_persen,
+        tenor_bulan: tenor,
+        interest_method: policy.interest_method,
+        tanggal_pinjaman: new Date().toISOString().split('T')[0],
+      })
+      if (data) setPreview(data)
+    }, 400)
+    return () => clearTimeout(timer)
+  }, [formOpen, form.jumlah_pinjaman, form.tenor_bulan, policy])
+
+  const loadApplications = useCallback(async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await loanApplicationsApi.getAll(statusFilter === 'all' ? undefined : statusFilter)
+      if (error) throw new Error(error)
+      setApplications(data || [])
+    } catch (error) {
+      console.error('Error loading loan applications:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal memuat pengajuan pinjaman')
+    } finally {
+      setLoading(false)
+    }
+  }, [statusFilter])
+
+  useEffect(() => {
+    loadApplications()
+  }, [loadApplications])
+
+  const openDetail = async (id: string) => {
+    const { data, error } = await loanApplicationsApi.getById(id)
+    if (error || !data) {
+      toast.error(error || 'Gagal memuat detail pengajuan')
+      return
+    }
+    setDetail(data)
+    setComment('')
+    setDisburseAccountId('')
+  }
+
+  const handleSubmit = async () => {
+    if (canManage && !form.member_id) {
+      toast.error('Pilih anggota terlebih dahulu')
+      return
+    }
+    try {
+      setSaving(true)
+      const { error } = await loanApplicationsApi.submit({
+        member_id: canManage ? form.member_id : undefined,
+        jumlah_pinjaman: Number(form.jumlah_pinjaman),
+        tenor_bulan: Number(form.tenor_bulan),
+        tujuan: form.tujuan.trim() || undefined,
+      })
+      if (error) throw new Error(error)
+
+      toast.success('Pengajuan pinjaman terkirim')
+      setFormOpen(false)
+      setForm(emptyApplication)
+      await loadApplications()
+    } catch (error) {
+      console.error('Error submitting loan application:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengirim pengajuan')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDecision = async (decision: LoanApproval['decision']) => {
+    if (!detail) return
+    if (decision !== 'setuju' && !comment.trim()) {
+      toast.error('Komentar wajib diisi untuk penolakan atau catatan')
+      return
+    }
+    try {
+      setSaving(true)
+      const { data, error } = await loanApplicationsApi.decide(detail.id, decision, comment.trim() || undefined)
+      if (error) throw new Error(error)
+      if (!data) return
+
+      if (data.status !== detail.status && data.applied_by && (data.status === 'disetujui' || data.status === 'ditolak')) {
+        await createLoanApprovalNotification(data.applied_by, Number(data.jumlah_pinjaman), data.status === 'disetujui' ? 'approved' : 'rejected')
+      }
+
+      toast.success(decision === 'catatan' ? 'Catatan disimpan' : `Keputusan "${DECISION_LABELS[decision]}" disimpan`)
+      setDetail(data)
+      setComment('')
+      await loadApplications()
+    } catch (error) {
+      console.error('Error recording loan decision:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan keputusan')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDisburse = async () => {
+    if (!detail) return
+    if (!disburseAccountId) {
+      toast.error('Pilih akun kas/bank pencairan')
+      return
+    }
+    try {
+      setSaving(true)
+      const { data, error } = await loanApplicationsApi.disburse(detail.id, { cash_account_id: disburseAccountId, tanggal: disburseDate })
+      if (error) throw new Error(error)
+
+      toast.success(`Pinjaman ${detail.nama_lengkap} dicairkan`)
+      setDetail(data || null)
+      await loadApplications()
+    } catch (error) {
+      console.error('Error disbursing loan:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mencairkan pinjaman')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSavePolicy = async () => {
+    if (!policyDraft) return
+    try {
+      setSaving(true)
+      const { data, error } = await loanApplicationsApi.savePolicy({
+        required_approvals: Number(policyDraft.required_approvals),
+        bunga_persen: Number(policyDraft.bunga_persen),
+        interest_method: policyDraft.interest_method,
+        max_loan_savings_ratio: Number(policyDraft.max_loan_savings_ratio),
+        max_active_loans: Number(policyDraft.max_active_loans),
+        max_guarantees_per_member: Number(policyDraft.max_guarantees_per_member),
+        block_on_arrears: policyDraft.block_on_arrears,
+      })
+      if (error) throw new Error(error)
+
+      toast.success('Kebijakan pinjaman disimpan')
+      setPolicy(data || null)
+      setPolicyDraft(null)
+      await loadApplications()
+    } catch (error) {
+      console.error('Error saving loan policy:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan kebijakan')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const myVote = detail?.approvals.filter(a => a.user_id === user?.id && a.decision !== 'catatan').pop()
+  const isOwnApplication = detail?.applied_by === user?.id
+
+  return (
+    <div className="space-y-6">
+      {/* Toolbar */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <div>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {policy
+              ? `Jasa ${policy.bunga_persen}% ${METHOD_LABELS[policy.interest_method]} · plafon ${policy.max_loan_savings_ratio ? `${policy.max_loan_savings_ratio}x simpanan` : 'tanpa batas'} · ${policy.required_approvals} persetujuan pengurus`
+              : 'Memuat kebijakan pinjaman...'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="pending">Menunggu</option>
+            <option value="disetujui">Disetujui</option>
+            <option value="aktif">Dicairkan</option>
+            <option value="ditolak">Ditolak</option>
+            <option value="all">Semua</option>
+          </select>
+          {canManage && policy && (
+            <button onClick={() => setPolicyDraft(policyDraft ? null : { ...policy })} className="btn btn-secondary gap-1">
+              <FaCog className="h-4 w-4" /> Kebijakan
+            </button>
+          )}
+          <button onClick={() => { setForm(emptyApplication); setFormOpen(true) }} className="btn btn-primary gap-1">
+            <FaPlus className="h-4 w-4" /> Ajukan Pinjaman
+          </button>
+        </div>
+      </div>
+
+      {policyDraft && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-600 p-4 grid grid-cols-2 md:grid-cols-7 gap-3 items-end text-sm">
+          <div>
+            <label className="form-label">Jumlah persetujuan</label>
+            <input
+              type="number"
+              min="1"
+              max="10"
+              value={policyDraft.required_approvals}
+              onChange={(e) => setPolicyDraft({ ...policyDraft, required_approvals: Number(e.target.value) })}
+              className="input focus-ring w-full"
+            />
+          </div>
+          <div>
+            <label className="form-label">Jasa (%/tahun)</label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={policyDraft.bunga_persen}
+              onChange={(e) => setPolicyDraft({ ...policyDraft, bunga_persen: Number(e.target.value) })}
+              className="input focus-ring w-full"
+            />
+          </div>
+          <div>
+            <label className="form-label">Metode jasa</label>
+            <select
+              value={policyDraft.interest_method}
+              onChange={(e) => setPolicyDraft({ ...policyDraft, interest_method: e.target.value as LoanInterestMethod })}
+              className="select focus-ring w-full"
+            >
+              {Object.entries(METHOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="form-label">Plafon (x simpanan)</label>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              value={policyDraft.max_loan_savings_ratio}
+              onChange={(e) => setPolicyDraft({ ...policyDraft, max_loan_savings_ratio: Number(e.target.value) })}
+              className="input focus-ring w-full"
+              title="0 = tanpa batas"
+            />
+          </div>
+          <div>
+            <label className="form-label">Maks. pinjaman berjalan</label>
+            <input
+              type="number"
+              min="0"
+              value={policyDraft.max_active_loans}
+              onChange={(e) => setPolicyDraft({ ...policyDraft, max_active_loans: Number(e.target.value) })}
+              className="input focus-ring w-full"
+              title="0 = tanpa batas"
+            />
+          </div>
+          <div>
+            <label className="form-label">Maks. penjaminan/anggota</label>
+            <input
+              type="number"
+              min="0"
+              value={policyDraft.max_guarantees_per_member}
+              onChange={(e) => setPolicyDraft({ ...policyDraft, max_guarantees_per_member: Number(e.target.value) })}
+              className="input focus-ring w-full"
+              title="0 = tanpa batas"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={policyDraft.block_on_arrears}
+              onChange={(e) => setPolicyDraft({ ...policyDraft, block_on_arrears: e.target.checked })}
+            />
+            Tolak jika menunggak
+          </label>
+          <div className="col-span-2 md:col-span-7 flex justify-end">
+            <button onClick={handleSavePolicy} disabled={saving} className="btn btn-primary btn-sm gap-1">
+              <FaSave className="h-3 w-3" /> Simpan Kebijakan
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Applications */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-600 overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-600 text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Tanggal</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Anggota</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Jumlah</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Tenor</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Tujuan</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Persetujuan</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Status</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Aksi</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+            {loading ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">Memuat pengajuan...</td>
+              </tr>
+            ) : applications.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">Tidak ada pengajuan</td>
+              </tr>
+            ) : applications.map((application) => (
+              <tr key={application.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{new Date(application.created_at).toLocaleDateString('id-ID')}</td>
+                <td className="px-4 py-3 text-gray-900 dark:text-gray-100">{application.nama_lengkap}</td>
+                <td className="px-4 py-3 text-right font-medium text-gray-900 dark:text-gray-100">{formatCurrency(Number(application.jumlah_pinjaman))}</td>
+                <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{application.tenor_bulan} bulan</td>
+                <td className="px-4 py-3 text-gray-700 dark:text-gray-300 max-w-xs truncate" title={application.tujuan || undefined}>{application.tujuan || '-'}</td>
+                <td className="px-4 py-3 text-gray-700 dark:text-gray-300">
+                  {application.approval_count}/{application.required_approvals}
+                  {application.voted && <FaCheck className="inline h-3 w-3 ml-1 text-green-600" title="Anda sudah memutuskan" />}
+                </td>
+                <td className="px-4 py-3">
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_BADGES[application.status]?.className || ''}`}>
+                    {STATUS_BADGES[application.status]?.label || application.status}
+                  </span>
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <button
+                    onClick={() => openDetail(application.id)}
+                    className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded"
+                    title="Detail pengajuan"
+                  >
+                    <FaEye className="h-4 w-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Submit Dialog */}
+      <AnimatePresence>
+        {formOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+            onClick={() => setFormOpen(false)}
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-[520px] max-w-[95vw]"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Ajukan Pinjaman</h3>
+                <button onClick={() => setFormOpen(false)} className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300">
+                  <FaTimes className="h-5 w-5" />
+                </button>
+              </div>
+              <div className="p-5 space-y-3">
+                {canManage && (
+                  <div className="form-group-compact">
+                    <label className="form-label">Anggota</label>
+                    <select value={form.member_id} onChange={(e) => setForm({ ...form, member_id: e.target.value })} className="select focus-ring w-full">
+                      <option value="">Pilih Anggota...</option>
+                      {members.map(member => (
+                        <option key={member.id} value={member.id}>{member.nama_lengkap}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="form-group-compact">
+                    <label className="form-label">Jumlah Pinjaman</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="100000"
+                      value={form.jumlah_pinjaman || ''}
+                      onChange={(e) => setForm({ ...form, jumlah_pinjaman: Number(e.target.value) })}
+                      className="input focus-ring w-full"
+                      placeholder="0"
+                    />
+                  </div>
+                  <div className="form-group-compact">
+                    <label className="form-label">Tenor (bulan)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={form.tenor_bulan}
+                      onChange={(e) => setForm({ ...form, tenor_bulan: Number(e.target.value) })}
+                      className="input focus-ring w-full"
+                    />
+                  </div>
+                </div>
+                <div className="form-group-compact">
+                  <label className="form-label">Tujuan Pinjaman</label>
+                  <textarea
+                    value={form.tujuan}
+                    onChange={(e) => setForm({ ...form, tujuan: e.target.value })}
+                    rows={3}
+                    className="input focus-ring w-full"
+                    placeholder="Contoh: modal usaha warung"
+                  />
+                </div>
+                {preview && (
+                  <p className="text-sm text-gray-700 dark:text-gray-300">
+                    Perkiraan angsuran: <strong>{formatCurrency(preview.angsuran_bulanan)}</strong>/bulan,
+                    total dibayar <strong>{formatCurrency(preview.total_bayar)}</strong>
+                  </p>
+                )}
+                <div className="flex justify-end gap-2 pt-2">
+                  <button onClick={() => setFormOpen(false)} className="btn btn-secondary">Batal</button>
+                  <button onClick={handleSubmit} disabled={saving || !(Number(form.jumlah_pinjaman) > 0)} className="btn btn-primary">
+                    {saving ? 'Mengirim...' : 'Kirim Pengajuan'}
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Detail Dialog */}
+      <AnimatePresence>
+        {detail && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+            onClick={() => setDetail(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-[640px] max-w-[95vw] max-h-[90vh] overflow-y-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-gray-700">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Pengajuan {detail.nama_lengkap}</h3>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Diajukan {new Date(detail.created_at).toLocaleDateString('id-ID')}
+                    {detail.applied_by_email ? ` oleh ${detail.applied_by_email}` : ''}
+                  </p>
+                </div>
+                <button onClick={() => setDetail(null)} className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300">
+                  <FaTimes className="h-5 w-5" />
+                </button>
+              </div>
+
+              <div className="p-5 space-y-4 text-sm">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div>
+                    <span className="text-gray-500 dark:text-gray-400">Jumlah</span>
+                    <p className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(Number(detail.jumlah_pinjaman))}</p>
+                  </div>
+                  <div>
+                    <span className="text-gray-500 dark:text-gray-400">Tenor</span>
+                    <p className="font-medium text-gray-900 dark:text-gray-100">{detail.tenor_bulan} bulan</p>
+                  </div>
+                  <div>
+                    <span className="text-gray-500 dark:text-gray-400">Angsuran</span>
+                    <p className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(Number(detail.angsuran_bulanan))}</p>
+                  </div>
+                  <div>
+                    <span className="text-gray-500 dark:text-gray-400">Status</span>
+                    <p>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_BADGES[detail.status]?.className || ''}`}>
+                        {STATUS_BADGES[detail.status]?.label || detail.status}
+                      </span>
+                    </p>
+                  </div>
+                </div>
+                {detail.tujuan && <p className="text-gray-700 dark:text-gray-300">Tujuan: {detail.tujuan}</p>}
+
+                {/* Policy checks */}
+                <div className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+                  <div className="px-3 py-2 bg-gray-50 dark:bg-gray-700 font-medium text-gray-900 dark:text-gray-100">
+                    Pemeriksaan Syarat · Simpanan {formatCurrency(detail.standing.savings)}
+                  </div>
+                  {detail.checks.map(check => (
+                    <div key={check.key} className="px-3 py-2 flex items-start gap-2">
+                      {check.passed
+                        ? <FaCheckCircle className="h-4 w-4 mt-0.5 text-green-600" />
+                        : <FaTimesCircle className="h-4 w-4 mt-0.5 text-red-600" />}
+                      <div>
+                        <p className="font-medium text-gray-900 dark:text-gray-100">{check.label}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{check.detail}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <LoanGuaranteePanel
+                  loanId={detail.id}
+                  borrowerId={detail.member_id}
+                  readOnly={!canManage && detail.status !== 'pending'}
+                />
+
+                {/* Decision history */}
+                <div>
+                  <h4 className="font-medium text-gray-900 dark:text-gray-100 mb-2">
+                    Riwayat Keputusan ({detail.approval_count}/{detail.required_approvals} persetujuan)
+                  </h4>
+                  {detail.approvals.length === 0 ? (
+                    <p className="text-gray-500 dark:text-gray-400">Belum ada keputusan</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {detail.approvals.map(approval => (
+                        <li key={approval.id} className="flex items-start gap-2">
+                          {approval.decision === 'setuju' && <FaCheckCircle className="h-4 w-4 mt-0.5 text-green-600" />}
+                          {approval.decision === 'tolak' && <FaTimesCircle className="h-4 w-4 mt-0.5 text-red-600" />}
+                          {approval.decision === 'catatan' && <FaCommentDots className="h-4 w-4 mt-0.5 text-gray-500" />}
+                          <div>
+                            <p className="text-gray-900 dark:text-gray-100">
+                              <strong>{approval.email}</strong> · {DECISION_LABELS[approval.decision]}
+                              <span className="text-xs text-gray-500 dark:text-gray-400"> · {new Date(approval.created_at).toLocaleString('id-ID')}</span>
+                            </p>
+                            {approval.comment && <p className="text-gray-700 dark:text-gray-300">{approval.comment}</p>}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {canManage && detail.status === 'pending' && (
+                  <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+                    <label className="form-label">Komentar</label>
+                    <textarea
+                      value={comment}
+                      onChange={(e) => setComment(e.target.value)}
+                      rows={2}
+                      className="input focus-ring w-full"
+                      placeholder="Wajib diisi untuk penolakan atau catatan"
+                    />
+                    {myVote && <p className="text-xs text-gray-500 dark:text-gray-400">Anda sudah {DECISION_LABELS[myVote.decision].toLowerCase()} pengajuan ini.</p>}
+                    {isOwnApplication && <p className="text-xs text-gray-500 dark:text-gray-400">Pengajuan yang Anda buat diputuskan oleh pengurus lain.</p>}
+                    <div className="flex flex-wrap justify-end gap-2">
+                      <button onClick={() => handleDecision('catatan')} disabled={saving} className="btn btn-secondary btn-sm gap-1">
+                        <FaCommentDots className="h-3 w-3" /> Tambah Catatan
+                      </button>
+                      <button onClick={() => handleDecision('tolak')} disabled={saving || !!myVote || isOwnApplication} className="btn btn-secondary btn-sm gap-1 text-red-600">
+                        <FaTimesCircle className="h-3 w-3" /> Tolak
+                      </button>
+                      <button onClick={() => handleDecision('setuju')} disabled={saving || !!myVote || isOwnApplication || !detail.eligible} className="btn btn-primary btn-sm gap-1">
+                        <FaCheckCircle className="h-3 w-3" /> Setujui
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {canManage && detail.status === 'disetujui' && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end pt-2 border-t border-gray-200 dark:border-gray-700">
+                    <div className="form-group-compact">
+                      <label className="form-label">Tanggal Cair</label>
+                      <input type="date" value={disburseDate} onChange={(e) => setDisburseDate(e.target.value)} className="input focus-ring w-full" />
+                    </div>
+                    <div className="form-group-compact">
+                      <label className="form-label">Dicairkan dari</label>
+                      <select value={disburseAccountId} onChange={(e) => setDisburseAccountId(e.target.value)} className="select focus-ring w-full">
+                        <option value="">Pilih akun kas/bank...</option>
+                        {accounts.map(account => (
+                          <option key={account.id} value={account.id}>{account.name} ({formatCurrency(Number(account.balance))})</option>
+                        ))}
+                      </select>
+                    </div>
+                    <button onClick={handleDisburse} disabled={saving} className="btn btn-primary gap-1">
+                      <FaMoneyBillWave className="h-4 w-4" /> Cairkan
+                    </button>
+                  </div>
+                )}
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
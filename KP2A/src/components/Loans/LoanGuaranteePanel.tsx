@@ -0,0 +1,301 @@
+import { useCallback, useEffect, useState } from 'react'
+import { FaCamera, FaImage, FaPlus, FaTimes, FaTrash, FaUserShield } from 'react-icons/fa'
+import toast from 'react-hot-toast'
+import {
+  loanGuaranteesApi,
+  CollateralType,
+  LoanCollateral,
+  LoanCollateralInput,
+  LoanGuarantor,
+  Member,
+} from '../../lib/api'
+import { repositories } from '../../lib/repositories'
+import { formatCurrency } from '../../utils/numberFormat'
+
+interface LoanGuaranteePanelProps {
+  loanId: string
+  // The borrower cannot guarantee their own loan
+  borrowerId: string
+  readOnly?: boolean
+}
+
+const COLLATERAL_LABELS: Record<CollateralType, string> = {
+  bpkb: 'BPKB Kendaraan',
+  sertifikat: 'Sertifikat Tanah/Bangunan',
+  emas: 'Emas/Perhiasan',
+  elektronik: 'Barang Elektronik',
+  lainnya: 'Lainnya',
+}
+
+const emptyCollateral: LoanCollateralInput = { type: 'bpkb', description: '', estimated_value: 0, document_photo: null }
+
+// Downscale a photo to a JPEG data URL so it fits the API payload limit
+const readPhoto = (file: File, maxSize = 1280): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader()
+  reader.onerror = () => reject(new Error('Gagal membaca foto'))
+  reader.onload = () => {
+    const image = new Image()
+    image.onerror = () => reject(new Error('File bukan gambar'))
+    image.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(image.width, image.height))
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.round(image.width * scale)
+      canvas.height = Math.round(image.height * scale)
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height)
+      resolve(canvas.toDataURL('image/jpeg', 0.75))
+    }
+    image.src = reader.result as string
+  }
+  reader.readAsDataURL(file)
+})
+
+export function LoanGuaranteePanel({ loanId, borrowerId, readOnly = false }: LoanGuaranteePanelProps) {
+  const [guarantors, setGuarantors] = useState<LoanGuarantor[]>([])
+  const [collaterals, setCollaterals] = useState<LoanCollateral[]>([])
+  const [members, setMembers] = useState<Member[]>([])
+  const [guarantorId, setGuarantorId] = useState('')
+  const [guaranteedAmount, setGuaranteedAmount] = useState('')
+  const [collateral, setCollateral] = useState<LoanCollateralInput | null>(null)
+  const [photo, setPhoto] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (readOnly) return
+    repositories.members.list().then(({ data }) => setMembers((data || []).filter(m => m.status_keanggotaan === 'aktif' && m.id !== borrowerId)))
+  }, [readOnly, borrowerId])
+
+  const load = useCallback(async () => {
+    const { data, error } = await loanGuaranteesApi.getForLoan(loanId)
+    if (error) {
+      toast.error(error)
+      return
+    }
+    setGuarantors(data?.guarantors || [])
+    setCollaterals(data?.collaterals || [])
+  }, [loanId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const totalCollateral = collaterals.reduce((sum, c) => sum + Number(c.estimated_value || 0), 0)
+
+  const handleAddGuarantor = async () => {
+    if (!guarantorId) {
+      toast.error('Pilih anggota penjamin')
+      return
+    }
+    try {
+      setSaving(true)
+      const { data, error } = await loanGuaranteesApi.addGuarantor(loanId, {
+        member_id: guarantorId,
+        guaranteed_amount: guaranteedAmount ? Number(guaranteedAmount) : null,
+      })
+      if (error) throw new Error(error)
+
+      setGuarantors(data || [])
+      setGuarantorId('')
+      setGuaranteedAmount('')
+      toast.success('Penjamin ditambahkan')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Gagal menambah penjamin')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemoveGuarantor = async (guarantor: LoanGuarantor) => {
+    const { error } = await loanGuaranteesApi.removeGuarantor(guarantor.id)
+    if (error) {
+      toast.error(error)
+      return
+    }
+    setGuarantors(prev => prev.filter(g => g.id !== guarantor.id))
+  }
+
+  const handlePhoto = async (file?: File) => {
+    if (!file) return
+    try {
+      setPhoto(await readPhoto(file))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Gagal membaca foto')
+    }
+  }
+
+  const handleAddCollateral = async () => {
+    if (!collateral) return
+    try {
+      setSaving(true)
+      const { data, error } = await loanGuaranteesApi.addCollateral(loanId, {
+        ...collateral,
+        estimated_value: Number(collateral.estimated_value) || 0,
+        document_photo: photo,
+      })
+      if (error) throw new Error(error)
+
+      setCollaterals(data || [])
+      setCollateral(null)
+      setPhoto(null)
+      toast.success('Agunan ditambahkan')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Gagal menambah agunan')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemoveCollateral = async (item: LoanCollateral) => {
+    const { error } = await loanGuaranteesApi.removeCollateral(item.id)
+    if (error) {
+      toast.error(error)
+      return
+    }
+    setCollaterals(prev => prev.filter(c => c.id !== item.id))
+  }
+
+  const handleViewPhoto = async (item: LoanCollateral) => {
+    const { data, error } = await loanGuaranteesApi.getCollateral(item.id)
+    if (error || !data?.document_photo) {
+      toast.error(error || 'Foto dokumen tidak tersedia')
+      return
+    }
+    const preview = window.open()
+    if (preview) {
+      preview.document.title = COLLATERAL_LABELS[item.type]
+      preview.document.body.innerHTML = `<img src="${data.document_photo}" style="max-width:100%" alt="Dokumen agunan" />`
+    }
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      {/* Guarantors */}
+      <div className="border border-gray-200 dark:border-gray-700 rounded-lg">
+        <div className="px-3 py-2 bg-gray-50 dark:bg-gray-700 flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100">
+          <FaUserShield className="h-4 w-4 text-blue-600" /> Penjamin
+        </div>
+        {guarantors.length === 0 ? (
+          <p className="px-3 py-2 text-gray-500 dark:text-gray-400">Belum ada penjamin</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {guarantors.map(guarantor => (
+              <li key={guarantor.id} className="px-3 py-2 flex items-center justify-between gap-2">
+                <div>
+                  <p className="text-gray-900 dark:text-gray-100">{guarantor.id_anggota ? `${guarantor.id_anggota} - ` : ''}{guarantor.nama_lengkap}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {guarantor.guaranteed_amount ? `Menjamin ${formatCurrency(Number(guarantor.guaranteed_amount))}` : 'Menjamin seluruh sisa pinjaman'}
+                    {guarantor.no_hp ? ` · ${guarantor.no_hp}` : ''}
+                  </p>
+                </div>
+                {!readOnly && (
+                  <button onClick={() => handleRemoveGuarantor(guarantor)} className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded" title="Hapus penjamin">
+                    <FaTrash className="h-3 w-3" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        {!readOnly && (
+          <div className="px-3 py-2 border-t border-gray-200 dark:border-gray-700 grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+            <select value={guarantorId} onChange={(e) => setGuarantorId(e.target.value)} className="select focus-ring w-full">
+              <option value="">Pilih anggota penjamin...</option>
+              {members.filter(m => !guarantors.some(g => g.member_id === m.id)).map(member => (
+                <option key={member.id} value={member.id}>{member.id_anggota ? `${member.id_anggota} - ` : ''}{member.nama_lengkap}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              value={guaranteedAmount}
+              onChange={(e) => setGuaranteedAmount(e.target.value)}
+              className="input focus-ring w-full"
+              placeholder="Nilai dijamin (kosong = seluruhnya)"
+            />
+            <button onClick={handleAddGuarantor} disabled={saving} className="btn btn-secondary btn-sm gap-1">
+              <FaPlus className="h-3 w-3" /> Tambah Penjamin
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Collaterals */}
+      <div className="border border-gray-200 dark:border-gray-700 rounded-lg">
+        <div className="px-3 py-2 bg-gray-50 dark:bg-gray-700 flex items-center justify-between font-medium text-gray-900 dark:text-gray-100">
+          <span>Agunan (opsional)</span>
+          <span className="text-xs font-normal text-gray-600 dark:text-gray-300">Total taksiran {formatCurrency(totalCollateral)}</span>
+        </div>
+        {collaterals.length === 0 ? (
+          <p className="px-3 py-2 text-gray-500 dark:text-gray-400">Tanpa agunan</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {collaterals.map(item => (
+              <li key={item.id} className="px-3 py-2 flex items-center justify-between gap-2">
+                <div>
+                  <p className="text-gray-900 dark:text-gray-100">{COLLATERAL_LABELS[item.type]} · {formatCurrency(Number(item.estimated_value))}</p>
+                  {item.description && <p className="text-xs text-gray-500 dark:text-gray-400">{item.description}</p>}
+                </div>
+                <div className="flex items-center gap-1">
+                  {item.has_photo && (
+                    <button onClick={() => handleViewPhoto(item)} className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded" title="Lihat foto dokumen">
+                      <FaImage className="h-3 w-3" />
+                    </button>
+                  )}
+                  {!readOnly && (
+                    <button onClick={() => handleRemoveCollateral(item)} className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded" title="Hapus agunan">
+                      <FaTrash className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        {!readOnly && !collateral && (
+          <div className="px-3 py-2 border-t border-gray-200 dark:border-gray-700 flex justify-end">
+            <button onClick={() => { setCollateral({ ...emptyCollateral }); setPhoto(null) }} className="btn btn-secondary btn-sm gap-1">
+              <FaPlus className="h-3 w-3" /> Tambah Agunan
+            </button>
+          </div>
+        )}
+        {!readOnly && collateral && (
+          <div className="px-3 py-2 border-t border-gray-200 dark:border-gray-700 grid grid-cols-1 md:grid-cols-2 gap-2">
+            <select
+              value={collateral.type}
+              onChange={(e) => setCollateral({ ...collateral, type: e.target.value as CollateralType })}
+              className="select focus-ring w-full"
+            >
+              {Object.entries(COLLATERAL_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              value={collateral.estimated_value || ''}
+              onChange={(e) => setCollateral({ ...collateral, estimated_value: Number(e.target.value) })}
+              className="input focus-ring w-full"
+              placeholder="Nilai taksiran (Rp)"
+            />
+            <input
+              value={collateral.description || ''}
+              onChange={(e) => setCollateral({ ...collateral, description: e.target.value })}
+              className="input focus-ring w-full md:col-span-2"
+              placeholder="Keterangan, contoh: Honda Beat 2019 a.n. peminjam"
+            />
+            <label className="btn btn-secondary btn-sm gap-1 cursor-pointer">
+              <FaCamera className="h-3 w-3" /> {photo ? 'Ganti Foto Dokumen' : 'Foto Dokumen'}
+              <input type="file" accept="image/*" capture="environment" className="hidden" onChange={(e) => handlePhoto(e.target.files?.[0])} />
+            </label>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => { setCollateral(null); setPhoto(null) }} className="btn btn-secondary btn-sm gap-1">
+                <FaTimes className="h-3 w-3" /> Batal
+              </button>
+              <button onClick={handleAddCollateral} disabled={saving} className="btn btn-primary btn-sm">Simpan Agunan</button>
+            </div>
+            {photo && <img src={photo} alt="Pratinjau dokumen" className="md:col-span-2 max-h-40 rounded border border-gray-200 dark:border-gray-700" />}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
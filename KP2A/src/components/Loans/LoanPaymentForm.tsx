@@ -1,10 +1,21 @@
-import React, { useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { yupResolver } from '@hookform/resolvers/yup'
+import { FaQrcode } from 'react-icons/fa'
+import toast from 'react-hot-toast'
 import { LoanPayment, Loan, Member } from '../../types'
+import { loansApi, LoanPaymentPreview, LoanScheduleRow } from '../../lib/api'
 import { handleNumberInputChange, formatInitialValue } from '../../utils/numberFormat'
 import { getDefaultDateValue } from '../../utils/dateFormat'
 import { loanPaymentSchema, LoanPaymentFormValues } from '../../schemas/loanPaymentSchema'
+import { parseInstallmentReference, QrisData } from '../../utils/qris'
+import QrisScanModal from '../Scanner/QrisScanModal'
+
+const STATUS_LABELS: Record<LoanPayment['status'], string> = {
+  lunas: 'Lunas',
+  belum_lunas: 'Sebagian',
+  terlambat: 'Terlambat',
+}
 
 export function LoanPaymentForm({
   initial,
@@ -18,24 +29,22 @@ export function LoanPaymentForm({
   onCancel: () => void
 }) {
   const [selectedLoan, setSelectedLoan] = useState<Loan & { member?: Member } | null>(null)
-  const [nextAngsuranKe, setNextAngsuranKe] = useState(1)
+  const [schedule, setSchedule] = useState<LoanScheduleRow[]>([])
+  const [preview, setPreview] = useState<LoanPaymentPreview | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [qrisScanOpen, setQrisScanOpen] = useState(false)
+  // Amount from a scanned QRIS; takes precedence over the suggested installment
+  const scannedAmount = useRef<number | null>(null)
 
   const defaultValues: Partial<LoanPaymentFormValues> = useMemo(() => initial
     ? {
       loan_id: initial.loan_id,
-      angsuran_ke: initial.angsuran_ke,
-      angsuran_pokok: Number(initial.angsuran_pokok),
-      angsuran_bunga: Number(initial.angsuran_bunga || 0),
-      sisa_angsuran: Number((initial as any).sisa_angsuran || 0),
+      jumlah_bayar: Number(initial.angsuran_pokok) + Number(initial.angsuran_bunga || 0),
       tanggal_bayar: getDefaultDateValue(initial.tanggal_bayar),
-      status: initial.status,
     }
     : {
-      angsuran_pokok: 0,
-      angsuran_bunga: 0,
-      sisa_angsuran: 0,
+      jumlah_bayar: 0,
       tanggal_bayar: getDefaultDateValue(),
-      status: 'belum_lunas',
     }, [initial])
 
   const { register, handleSubmit, setValue, watch, formState: { errors, isSubmitting } } = useForm<LoanPaymentFormValues>({
@@ -44,179 +53,215 @@ export function LoanPaymentForm({
   })
 
   const watchedLoanId = watch('loan_id')
-  const watchedAngsuranPokok = watch('angsuran_pokok')
-  const watchedAngsuranBunga = watch('angsuran_bunga')
+  const watchedJumlahBayar = watch('jumlah_bayar')
+  const watchedTanggalBayar = watch('tanggal_bayar')
 
-  // Update selected loan when loan_id changes
+  const setAmount = useCallback((amount: number) => {
+    setValue('jumlah_bayar', amount)
+    const input = document.getElementById('jumlah_bayar') as HTMLInputElement | null
+    if (input) input.value = formatInitialValue(amount)
+  }, [setValue])
+
+  // Load the amortization plan of the selected loan
   useEffect(() => {
-    if (watchedLoanId) {
-      const loan = loans.find(l => l.id === watchedLoanId)
-      setSelectedLoan(loan || null)
-
-      if (loan && !initial) {
-        // Calculate suggested values for new payment
-        const angsuranBulanan = Number(loan.angsuran_bulanan)
-        const bungaPersen = Number(loan.bunga_persen)
-        const sisaPinjaman = Number(loan.sisa_pinjaman)
-
-        // Simple calculation: assume equal principal payments
-        const angsuranPokok = Math.min(angsuranBulanan, sisaPinjaman)
-        const angsuranBunga = (sisaPinjaman * bungaPersen / 100) / 12
-        const sisaAngsuran = sisaPinjaman - angsuranPokok
-
-        setValue('angsuran_pokok' as any, Math.round(angsuranPokok))
-        setValue('angsuran_bunga' as any, Math.round(angsuranBunga))
-        setValue('sisa_angsuran' as any, Math.round(Math.max(0, sisaAngsuran)))
+    const loan = loans.find(l => l.id === watchedLoanId) || null
+    setSelectedLoan(loan)
+    setSchedule([])
+    if (!watchedLoanId) return
+
+    let cancelled = false
+    loansApi.getSchedule(watchedLoanId).then(({ data }) => {
+      if (cancelled || !data) return
+      setSchedule(data.schedule)
+
+      // Suggest the outstanding amount of the next installment
+      if (!initial) {
+        const next = data.schedule.find(row => row.status !== 'lunas')
+        if (scannedAmount.current) {
+          setAmount(scannedAmount.current)
+          scannedAmount.current = null
+        } else if (next) {
+          const due = Number(next.total) - Number(next.paid_pokok || 0) - Number(next.paid_bunga || 0)
+          setAmount(Math.round(due))
+        }
       }
+    })
+    return () => { cancelled = true }
+  }, [watchedLoanId, loans, setAmount, initial])
+
+  // Installment QRIS codes carry the loan in their reference label (see installmentReference)
+  const applyQris = (qris: QrisData) => {
+    const reference = parseInstallmentReference(qris.referenceLabel)
+    const loan = reference && loans.find(l => l.id.replace(/-/g, '').startsWith(reference.loanPrefix))
+
+    if (qris.amount) setAmount(qris.amount)
+    if (!loan) {
+      toast.error('QRIS tidak terhubung ke pinjaman aktif, pilih pinjaman secara manual')
+      return
     }
-  }, [watchedLoanId, loans, setValue, initial])
+    if (loan.id !== watchedLoanId) {
+      scannedAmount.current = qris.amount || null
+      setValue('loan_id', loan.id, { shouldValidate: true })
+    }
+    toast.success(`Angsuran ke-${reference.installmentNumber} ${loan.member?.nama_lengkap || ''}`.trim())
+  }
 
-  // Auto-calculate sisa_angsuran when angsuran_pokok changes
-  // But do NOT auto-update status - allow manual selection
+  // Preview how the amount is spread over the installments (new payments only; an edit
+  // is re-allocated on the server after its previous allocation is released)
   useEffect(() => {
-    if (selectedLoan && !initial) {
-      const pokok = Number(watchedAngsuranPokok) || 0
-      const sisaPinjaman = Number(selectedLoan.sisa_pinjaman) || 0
-      const sisaAngsuran = Math.max(0, sisaPinjaman - pokok)
-      setValue('sisa_angsuran' as any, sisaAngsuran)
-    }
-  }, [watchedAngsuranPokok, selectedLoan, setValue, initial])
+    setPreview(null)
+    setPreviewError(null)
+    const amount = Number(watchedJumlahBayar) || 0
+    if (initial || !watchedLoanId || amount <= 0) return
+
+    const timer = setTimeout(async () => {
+      const { data, error } = await loansApi.previewPayment(watchedLoanId, amount, watchedTanggalBayar)
+      if (error) {
+        setPreviewError(error)
+      } else if (data) {
+        setPreview(data)
+        if (data.unallocated > 0) setPreviewError('Jumlah bayar melebihi sisa pinjaman')
+      }
+    }, 400)
+    return () => clearTimeout(timer)
+  }, [watchedLoanId, watchedJumlahBayar, watchedTanggalBayar, initial])
 
   useEffect(() => {
     if (initial) {
-      setValue('loan_id' as any, initial.loan_id)
-      setValue('angsuran_ke' as any, initial.angsuran_ke)
-      setValue('angsuran_pokok' as any, Number(initial.angsuran_pokok))
-      setValue('angsuran_bunga' as any, Number(initial.angsuran_bunga || 0))
-      setValue('sisa_angsuran' as any, Number(initial.sisa_angsuran || 0))
-      setValue('tanggal_bayar' as any, initial.tanggal_bayar.slice(0, 10))
-      setValue('status' as any, initial.status)
+      setValue('loan_id', initial.loan_id)
+      setValue('jumlah_bayar', Number(initial.angsuran_pokok) + Number(initial.angsuran_bunga || 0))
+      setValue('tanggal_bayar', initial.tanggal_bayar.slice(0, 10))
     }
   }, [initial, setValue])
 
-  const getMonthName = (month: number) => {
-    const months = [
-      'Januari', 'Februari', 'Maret', 'April', 'Mei', 'Juni',
-      'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember'
-    ]
-    return months[month - 1] || ''
-  }
+  const nextInstallment = schedule.find(row => row.status !== 'lunas')
 
   return (
-    <form onSubmit={handleSubmit(async (values) => { await onSubmit(values) })} className="space-y-3">
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-        <div className="md:col-span-2 form-group-compact">
-          <label className="form-label">Pinjaman</label>
-          <select {...register('loan_id')} className="select focus-ring w-full">
-            <option value="">Pilih Pinjaman...</option>
-            {loans.map((loan) => (
-              <option key={loan.id} value={loan.id}>
-                {loan.member?.nama_lengkap} - Rp {Number(loan.jumlah_pinjaman).toLocaleString('id-ID')}{' '}(Sisa: Rp {Number(loan.sisa_pinjaman).toLocaleString('id-ID')})
-              </option>
-            ))}
-          </select>
-          {errors.loan_id && <p className="form-error">{errors.loan_id.message}</p>}
-        </div>
+    <>
+      <form onSubmit={handleSubmit(async (values) => { await onSubmit(values) })} className="space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="md:col-span-2 form-group-compact">
+            <div className="flex items-center justify-between">
+              <label className="form-label">Pinjaman</label>
+              {!initial && (
+                <button type="button" onClick={() => setQrisScanOpen(true)} className="btn btn-secondary btn-sm gap-1 mb-1">
+                  <FaQrcode className="h-3 w-3" /> Scan QRIS
+                </button>
+              )}
+            </div>
+            <select {...register('loan_id')} className="select focus-ring w-full">
+              <option value="">Pilih Pinjaman...</option>
+              {loans.map((loan) => (
+                <option key={loan.id} value={loan.id}>
+                  {loan.member?.nama_lengkap} - Rp {Number(loan.jumlah_pinjaman).toLocaleString('id-ID')}{' '}(Sisa: Rp {Number(loan.sisa_pinjaman).toLocaleString('id-ID')})
+                </option>
+              ))}
+            </select>
+            {errors.loan_id && <p className="form-error">{errors.loan_id.message}</p>}
+          </div>
 
-        {selectedLoan && (
-          <div className="md:col-span-2 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
-            <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">Informasi Pinjaman</h4>
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
-              <div>
-                <span className="text-blue-700 dark:text-blue-300">Anggota:</span>
-                <p className="font-medium text-gray-900 dark:text-gray-100">{selectedLoan.member?.nama_lengkap}</p>
-              </div>
-              <div>
-                <span className="text-blue-700 dark:text-blue-300">Jumlah Pinjaman:</span>
-                <p className="font-medium text-gray-900 dark:text-gray-100">Rp {Number(selectedLoan.jumlah_pinjaman).toLocaleString('id-ID')}</p>
-              </div>
-              <div>
-                <span className="text-blue-700 dark:text-blue-300">Sisa Pinjaman:</span>
-                <p className="font-medium text-gray-900 dark:text-gray-100">Rp {Number(selectedLoan.sisa_pinjaman).toLocaleString('id-ID')}</p>
-              </div>
-              <div>
-                <span className="text-blue-700 dark:text-blue-300">Angsuran Bulanan:</span>
-                <p className="font-medium text-gray-900 dark:text-gray-100">Rp {Number(selectedLoan.angsuran_bulanan).toLocaleString('id-ID')}</p>
+          {selectedLoan && (
+            <div className="md:col-span-2 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
+              <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">Informasi Pinjaman</h4>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                <div>
+                  <span className="text-blue-700 dark:text-blue-300">Anggota:</span>
+                  <p className="font-medium text-gray-900 dark:text-gray-100">{selectedLoan.member?.nama_lengkap}</p>
+                </div>
+                <div>
+                  <span className="text-blue-700 dark:text-blue-300">Jumlah Pinjaman:</span>
+                  <p className="font-medium text-gray-900 dark:text-gray-100">Rp {Number(selectedLoan.jumlah_pinjaman).toLocaleString('id-ID')}</p>
+                </div>
+                <div>
+                  <span className="text-blue-700 dark:text-blue-300">Sisa Pinjaman:</span>
+                  <p className="font-medium text-gray-900 dark:text-gray-100">Rp {Number(selectedLoan.sisa_pinjaman).toLocaleString('id-ID')}</p>
+                </div>
+                <div>
+                  <span className="text-blue-700 dark:text-blue-300">Angsuran Berikutnya:</span>
+                  <p className="font-medium text-gray-900 dark:text-gray-100">
+                    {nextInstallment
+                      ? `Ke-${nextInstallment.angsuran_ke}, ${new Date(nextInstallment.due_date).toLocaleDateString('id-ID')}`
+                      : '-'}
+                  </p>
+                </div>
               </div>
             </div>
+          )}
+
+          <div className="form-group-compact">
+            <label className="form-label">Jumlah Bayar</label>
+            <input
+              id="jumlah_bayar"
+              type="text"
+              defaultValue={formatInitialValue(defaultValues.jumlah_bayar)}
+              onChange={(e) => handleNumberInputChange(e, setValue, 'jumlah_bayar')}
+              className="input focus-ring w-full"
+              placeholder="0"
+            />
+            {errors.jumlah_bayar && <p className="form-error">{errors.jumlah_bayar.message}</p>}
           </div>
-        )}
-
-        <div className="form-group-compact">
-          <label className="form-label">Angsuran Ke</label>
-          <input
-            type="number"
-            min="1"
-            {...register('angsuran_ke')}
-            className="input focus-ring w-full"
-          />
-          {errors.angsuran_ke && <p className="form-error">{errors.angsuran_ke.message}</p>}
-        </div>
 
-        <div className="form-group-compact">
-          <label className="form-label">Tanggal Bayar</label>
-          <input
-            type="date"
-            {...register('tanggal_bayar')}
-            defaultValue={defaultValues.tanggal_bayar}
-            className="input focus-ring w-full"
-          />
-          {errors.tanggal_bayar && <p className="form-error">{errors.tanggal_bayar.message}</p>}
-        </div>
+          <div className="form-group-compact">
+            <label className="form-label">Tanggal Bayar</label>
+            <input
+              type="date"
+              {...register('tanggal_bayar')}
+              defaultValue={defaultValues.tanggal_bayar}
+              className="input focus-ring w-full"
+            />
+            {errors.tanggal_bayar && <p className="form-error">{errors.tanggal_bayar.message}</p>}
+          </div>
 
-        <div className="form-group-compact">
-          <label className="form-label">Angsuran Pokok</label>
-          <input
-            type="text"
-            defaultValue={formatInitialValue(defaultValues.angsuran_pokok)}
-            onChange={(e) => handleNumberInputChange(e, setValue, 'angsuran_pokok')}
-            className="input focus-ring w-full"
-            placeholder="0"
-          />
-          {errors.angsuran_pokok && <p className="form-error">{errors.angsuran_pokok.message}</p>}
-        </div>
+          {previewError && (
+            <p className="md:col-span-2 form-error">{previewError}</p>
+          )}
 
-        <div className="form-group-compact">
-          <label className="form-label">Angsuran Jasa</label>
-          <input
-            type="text"
-            defaultValue={formatInitialValue(defaultValues.angsuran_bunga)}
-            onChange={(e) => handleNumberInputChange(e, setValue, 'angsuran_bunga')}
-            className="input focus-ring w-full"
-            placeholder="0"
-          />
-          {errors.angsuran_bunga && <p className="form-error">{errors.angsuran_bunga.message}</p>}
+          {preview && preview.allocations.length > 0 && (
+            <div className="md:col-span-2 border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Angsuran</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Jatuh Tempo</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Jasa</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Pokok</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Keterangan</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+                  {preview.allocations.map((allocation) => (
+                    <tr key={allocation.schedule_id}>
+                      <td className="px-3 py-2 text-gray-900 dark:text-gray-100">Ke-{allocation.angsuran_ke}</td>
+                      <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{new Date(allocation.due_date).toLocaleDateString('id-ID')}</td>
+                      <td className="px-3 py-2 text-right text-gray-700 dark:text-gray-300">Rp {allocation.bunga.toLocaleString('id-ID')}</td>
+                      <td className="px-3 py-2 text-right text-gray-700 dark:text-gray-300">Rp {allocation.pokok.toLocaleString('id-ID')}</td>
+                      <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{allocation.settled ? 'Lunas' : 'Sebagian'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="px-3 py-2 bg-gray-50 dark:bg-gray-700 flex flex-wrap justify-between gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <span>Status: <strong>{STATUS_LABELS[preview.status]}</strong></span>
+                <span>Sisa setelah bayar: <strong>Rp {preview.sisa_setelah_bayar.toLocaleString('id-ID')}</strong></span>
+              </div>
+            </div>
+          )}
         </div>
 
-        <div className="form-group-compact">
-          <label className="form-label">Sisa Angsuran</label>
-          <input
-            type="text"
-            defaultValue={formatInitialValue(defaultValues.sisa_angsuran)}
-            onChange={(e) => handleNumberInputChange(e, setValue, 'sisa_angsuran')}
-            className="input focus-ring w-full bg-gray-50 dark:bg-gray-700"
-            readOnly
-          />
-          {errors.sisa_angsuran && <p className="form-error">{errors.sisa_angsuran.message}</p>}
+        <div className="flex flex-col-reverse sm:flex-row items-stretch sm:items-center justify-end gap-2 pt-3 mt-3 border-t border-gray-200 dark:border-gray-700">
+          <button type="button" onClick={onCancel} className="btn btn-secondary w-full sm:w-auto">Batal</button>
+          <button disabled={isSubmitting || !!previewError} className="btn btn-primary w-full sm:w-auto">
+            {isSubmitting ? 'Menyimpan...' : (initial ? 'Perbarui' : 'Simpan')}
+          </button>
         </div>
+      </form>
 
-        <div className="form-group-compact">
-          <label className="form-label">Status</label>
-          <select {...register('status')} className="select focus-ring w-full">
-            <option value="lunas">Lunas</option>
-            <option value="belum_lunas">Belum Lunas</option>
-            <option value="terlambat">Terlambat</option>
-          </select>
-          {errors.status && <p className="form-error">{errors.status.message}</p>}
-        </div>
-      </div>
-
-      <div className="flex flex-col-reverse sm:flex-row items-stretch sm:items-center justify-end gap-2 pt-3 mt-3 border-t border-gray-200 dark:border-gray-700">
-        <button type="button" onClick={onCancel} className="btn btn-secondary w-full sm:w-auto">Batal</button>
-        <button disabled={isSubmitting} className="btn btn-primary w-full sm:w-auto">
-          {isSubmitting ? 'Menyimpan...' : (initial ? 'Perbarui' : 'Simpan')}
-        </button>
-      </div>
-    </form>
+      <QrisScanModal
+        isOpen={qrisScanOpen}
+        onClose={() => setQrisScanOpen(false)}
+        onScanned={applyQris}
+        title="Scan QRIS Angsuran"
+      />
+    </>
   )
 }
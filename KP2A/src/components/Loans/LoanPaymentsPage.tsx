@@ -1,12 +1,15 @@
 import React, { useEffect, useMemo, useState } from 'react'
 import { FaPlus, FaSearch, FaFilter, FaPencilAlt, FaTrash, FaTimes, FaExclamationTriangle, FaCalendar, FaDollarSign } from 'react-icons/fa'
 import { LoanPayment, Loan, Member } from '../../types'
-import { loansApi } from '../../lib/api'
+import { repositories } from '../../lib/repositories'
+import { queueWrite, withOfflineCache } from '../../lib/syncQueue'
+import { formatCurrency } from '../../utils/numberFormat'
 import { motion, AnimatePresence } from 'framer-motion'
 import toast from 'react-hot-toast'
 import { LoanPaymentForm } from './LoanPaymentForm'
 import { LoanPaymentFormValues } from '../../schemas/loanPaymentSchema'
 import { useAuth } from '../../contexts/AuthContext'
+import { PenaltyPanel } from '../Penalties/PenaltyPanel'
 
 type StatusFilter = 'all' | 'lunas' | 'terlambat'
 
@@ -15,6 +18,7 @@ export function LoanPaymentsPage() {
   const [payments, setPayments] = useState<(LoanPayment & { loan?: Loan & { member?: Member } })[]>([])
   const [loans, setLoans] = useState<(Loan & { member?: Member })[]>([])
   const [loading, setLoading] = useState(true)
+  const [penaltyRefresh, setPenaltyRefresh] = useState(0)
   const [search, setSearch] = useState('')
   const [status, setStatus] = useState<StatusFilter>('all')
   const [showForm, setShowForm] = useState(false)
@@ -32,8 +36,11 @@ export function LoanPaymentsPage() {
     setLoading(true)
     try {
       // Fetch active loans from MySQL backend
-      const { data: loansData, error: loansError } = await loansApi.getAll({ status: 'aktif' })
+      const { data: loansData, error: loansError, offline } = await withOfflineCache('loans:aktif', () => repositories.loans.list({ status: 'aktif' }))
       if (loansError) throw new Error(loansError)
+      if (offline) {
+        toast('Tidak ada koneksi. Menampilkan data terakhir yang tersimpan di perangkat.', { icon: '📴' })
+      }
 
       // Map the loans data to the expected format
       const mappedLoans = (loansData || []).map((loan: any) => ({
@@ -56,7 +63,7 @@ export function LoanPaymentsPage() {
       // Fetch payments for all loans
       const allPayments: any[] = []
       for (const loan of mappedLoans) {
-        const { data: loanPayments, error: paymentsError } = await loansApi.getPayments(loan.id)
+        const { data: loanPayments, error: paymentsError } = await withOfflineCache(`loan_payments:${loan.id}`, () => repositories.loanPayments.list(loan.id))
         if (!paymentsError && loanPayments) {
           allPayments.push(...loanPayments.map((payment: any) => ({
             ...payment,
@@ -72,6 +79,7 @@ export function LoanPaymentsPage() {
       setPayments([])
     } finally {
       setLoading(false)
+      setPenaltyRefresh((key) => key + 1)
     }
   }
 
@@ -99,19 +107,28 @@ export function LoanPaymentsPage() {
   }, [filtered, page, pageSize])
 
   const handleCreate = async (values: LoanPaymentFormValues) => {
+    // The server allocates jumlah_bayar against the installment schedule and derives the status
     const payload = {
-      loan_id: values.loan_id,
-      angsuran_ke: values.angsuran_ke,
-      angsuran_pokok: values.angsuran_pokok,
-      angsuran_bunga: values.angsuran_bunga || 0,
-      sisa_angsuran: values.sisa_angsuran,
+      jumlah_bayar: values.jumlah_bayar,
       tanggal_bayar: values.tanggal_bayar,
-      status: values.status,
     }
 
     try {
       // Call API to create payment
-      const { data, error } = await loansApi.addPayment(values.loan_id, payload)
+      const { error, offline } = await repositories.loanPayments.create(values.loan_id, payload)
+      if (offline) {
+        const loan = loans.find(l => l.id === values.loan_id)
+        await queueWrite({
+          entity: 'loan_payments',
+          operation: 'create',
+          parentId: values.loan_id,
+          payload,
+          label: `${loan?.member?.nama_lengkap || 'Anggota'} (${formatCurrency(values.jumlah_bayar)})`
+        })
+        toast.success('Tidak ada koneksi. Pembayaran disimpan di perangkat dan dikirim otomatis saat online.')
+        setShowForm(false)
+        return
+      }
       if (error) throw new Error(error)
 
       toast.success('Pembayaran angsuran berhasil disimpan')
@@ -129,7 +146,30 @@ export function LoanPaymentsPage() {
       }
 
       // Call API to update payment
-      const { data, error } = await loansApi.updatePayment(editing.loan_id, id, values)
+      const payload = {
+        jumlah_bayar: Number(values.jumlah_bayar),
+        tanggal_bayar: values.tanggal_bayar || editing.tanggal_bayar.slice(0, 10),
+      }
+      const { error, offline, status: httpStatus } = await repositories.loanPayments.update(editing.loan_id, id, payload, editing.version)
+      if (offline) {
+        await queueWrite({
+          entity: 'loan_payments',
+          operation: 'update',
+          parentId: editing.loan_id,
+          recordId: id,
+          payload,
+          baseVersion: editing.version,
+          label: `${editing.loan?.member?.nama_lengkap || 'Anggota'} angsuran ke-${editing.angsuran_ke}`
+        })
+        toast.success('Tidak ada koneksi. Perubahan disimpan di perangkat dan dikirim otomatis saat online.')
+        setEditing(null)
+        setShowForm(false)
+        return
+      }
+      if (httpStatus === 409) {
+        await fetchAll()
+        throw new Error(`${error}. Data terbaru sudah dimuat, silakan ulangi perubahan.`)
+      }
       if (error) throw new Error(error)
 
       toast.success('Pembayaran angsuran diperbarui')
@@ -150,7 +190,25 @@ export function LoanPaymentsPage() {
       }
 
       // Call API to delete payment - this will also update sisa_pinjaman in backend
-      const { error } = await loansApi.deletePayment(paymentToDelete.loan_id, id)
+      const { error, offline, status: httpStatus } = await repositories.loanPayments.remove(paymentToDelete.loan_id, id, paymentToDelete.version)
+      if (offline) {
+        await queueWrite({
+          entity: 'loan_payments',
+          operation: 'delete',
+          parentId: paymentToDelete.loan_id,
+          recordId: id,
+          baseVersion: paymentToDelete.version,
+          label: `${paymentToDelete.loan?.member?.nama_lengkap || 'Anggota'} angsuran ke-${paymentToDelete.angsuran_ke}`
+        })
+        setPayments((prev) => prev.filter((p) => p.id !== id))
+        toast.success('Tidak ada koneksi. Penghapusan dikirim otomatis saat online.')
+        setConfirmDeleteId(null)
+        return
+      }
+      if (httpStatus === 409) {
+        await fetchAll()
+        throw new Error(`${error}. Data terbaru sudah dimuat.`)
+      }
       if (error) throw new Error(error)
 
       toast.success('Pembayaran angsuran dihapus')
@@ -364,6 +422,9 @@ export function LoanPaymentsPage() {
         </div>
       </div>
 
+      {/* Denda keterlambatan */}
+      <PenaltyPanel source="loan" loanId={selectedLoanId || undefined} refreshKey={penaltyRefresh} />
+
       {/* Create / Edit Dialog */}
       <AnimatePresence>
         {showForm && (
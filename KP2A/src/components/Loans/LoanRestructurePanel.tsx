@@ -0,0 +1,319 @@
+import { useCallback, useEffect, useState } from 'react'
+import { FaCalendarPlus, FaCheckCircle, FaHistory, FaPauseCircle, FaPercent, FaSearch } from 'react-icons/fa'
+import toast from 'react-hot-toast'
+import {
+  loansApi,
+  LoanRestructure,
+  LoanRestructureInput,
+  LoanRestructurePlan,
+  LoanRestructureType,
+  LoanScheduleRow,
+} from '../../lib/api'
+import { formatCurrency } from '../../utils/numberFormat'
+
+interface LoanRestructurePanelProps {
+  loanId: string
+  // Only active loans can be restructured, and only by admin/pengurus
+  canRestructure: boolean
+  onChanged?: () => void
+}
+
+const TYPE_LABELS: Record<LoanRestructureType, string> = {
+  perpanjang_tenor: 'Perpanjang Tenor',
+  ubah_bunga: 'Ubah Jasa',
+  penundaan: 'Penundaan Angsuran',
+  pelunasan_dipercepat: 'Pelunasan Dipercepat',
+}
+
+const TYPE_ICONS: Record<LoanRestructureType, JSX.Element> = {
+  perpanjang_tenor: <FaCalendarPlus className="h-3 w-3" />,
+  ubah_bunga: <FaPercent className="h-3 w-3" />,
+  penundaan: <FaPauseCircle className="h-3 w-3" />,
+  pelunasan_dipercepat: <FaCheckCircle className="h-3 w-3" />,
+}
+
+const today = () => new Date().toISOString().split('T')[0]
+
+const emptyInput = (): LoanRestructureInput => ({
+  type: 'perpanjang_tenor',
+  effective_date: today(),
+  reason: '',
+  jumlah_bulan: 6,
+  bunga_persen: 0,
+  rebate_persen: 100,
+})
+
+// Only send the parameter the chosen operation uses
+const toPayload = (input: LoanRestructureInput): LoanRestructureInput => ({
+  type: input.type,
+  effective_date: input.effective_date,
+  reason: input.reason,
+  ...(input.type === 'perpanjang_tenor' || input.type === 'penundaan' ? { jumlah_bulan: Number(input.jumlah_bulan) } : {}),
+  ...(input.type === 'ubah_bunga' ? { bunga_persen: Number(input.bunga_persen) } : {}),
+  ...(input.type === 'pelunasan_dipercepat' ? { rebate_persen: Number(input.rebate_persen) } : {}),
+})
+
+function ScheduleTable({ rows }: { rows: LoanScheduleRow[] }) {
+  return (
+    <div className="overflow-x-auto max-h-60 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded">
+      <table className="min-w-full text-xs">
+        <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+          <tr>
+            <th className="px-2 py-1 text-left text-gray-500 dark:text-gray-400">Ke</th>
+            <th className="px-2 py-1 text-left text-gray-500 dark:text-gray-400">Jatuh Tempo</th>
+            <th className="px-2 py-1 text-right text-gray-500 dark:text-gray-400">Pokok</th>
+            <th className="px-2 py-1 text-right text-gray-500 dark:text-gray-400">Jasa</th>
+            <th className="px-2 py-1 text-right text-gray-500 dark:text-gray-400">Total</th>
+            <th className="px-2 py-1 text-left text-gray-500 dark:text-gray-400">Status</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+          {rows.map(row => (
+            <tr key={`${row.angsuran_ke}-${row.due_date}`} className="text-gray-700 dark:text-gray-300">
+              <td className="px-2 py-1">{row.angsuran_ke}</td>
+              <td className="px-2 py-1">{new Date(row.due_date).toLocaleDateString('id-ID')}</td>
+              <td className="px-2 py-1 text-right">{formatCurrency(Number(row.pokok))}</td>
+              <td className="px-2 py-1 text-right">{formatCurrency(Number(row.bunga))}</td>
+              <td className="px-2 py-1 text-right">{formatCurrency(Number(row.total))}</td>
+              <td className="px-2 py-1">{(row.status || 'belum_bayar').replace('_', ' ')}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+// Restructure operations on a running loan and the history of past restructures
+export function LoanRestructurePanel({ loanId, canRestructure, onChanged }: LoanRestructurePanelProps) {
+  const [history, setHistory] = useState<LoanRestructure[]>([])
+  const [input, setInput] = useState<LoanRestructureInput>(emptyInput)
+  const [plan, setPlan] = useState<LoanRestructurePlan | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const load = useCallback(async () => {
+    const { data, error } = await loansApi.getRestructures(loanId)
+    if (error) {
+      toast.error(error)
+      return
+    }
+    setHistory(data || [])
+  }, [loanId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const update = (changes: Partial<LoanRestructureInput>) => {
+    setInput(prev => ({ ...prev, ...changes }))
+    setPlan(null)
+  }
+
+  const handlePreview = async () => {
+    try {
+      setSaving(true)
+      const { data, error } = await loansApi.previewRestructure(loanId, toPayload(input))
+      if (error) throw new Error(error)
+      setPlan(data || null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Gagal menghitung restrukturisasi')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      const { error } = await loansApi.restructure(loanId, toPayload(input))
+      if (error) throw new Error(error)
+
+      toast.success(`${TYPE_LABELS[input.type]} disimpan`)
+      setInput(emptyInput())
+      setPlan(null)
+      await load()
+      onChanged?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Gagal merestrukturisasi pinjaman')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-5 text-sm">
+      {canRestructure && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+            <div>
+              <label className="form-label">Jenis</label>
+              <select
+                value={input.type}
+                onChange={(e) => update({ type: e.target.value as LoanRestructureType })}
+                className="select focus-ring w-full"
+              >
+                {(Object.keys(TYPE_LABELS) as LoanRestructureType[]).map(type => (
+                  <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">Tanggal efektif</label>
+              <input
+                type="date"
+                value={input.effective_date}
+                onChange={(e) => update({ effective_date: e.target.value })}
+                className="input focus-ring w-full"
+              />
+            </div>
+            {(input.type === 'perpanjang_tenor' || input.type === 'penundaan') && (
+              <div>
+                <label className="form-label">{input.type === 'penundaan' ? 'Ditunda (bulan)' : 'Tambahan tenor (bulan)'}</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="60"
+                  value={input.jumlah_bulan}
+                  onChange={(e) => update({ jumlah_bulan: Number(e.target.value) })}
+                  className="input focus-ring w-full"
+                />
+              </div>
+            )}
+            {input.type === 'ubah_bunga' && (
+              <div>
+                <label className="form-label">Jasa baru (%/tahun)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={input.bunga_persen}
+                  onChange={(e) => update({ bunga_persen: Number(e.target.value) })}
+                  className="input focus-ring w-full"
+                />
+              </div>
+            )}
+            {input.type === 'pelunasan_dipercepat' && (
+              <div>
+                <label className="form-label">Potongan jasa (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={input.rebate_persen}
+                  onChange={(e) => update({ rebate_persen: Number(e.target.value) })}
+                  className="input focus-ring w-full"
+                  title="Persentase jasa yang belum jatuh tempo yang tidak ditagih"
+                />
+              </div>
+            )}
+          </div>
+          <div>
+            <label className="form-label">Alasan</label>
+            <textarea
+              value={input.reason}
+              onChange={(e) => update({ reason: e.target.value })}
+              rows={2}
+              className="input focus-ring w-full"
+              placeholder="Alasan restrukturisasi (wajib)"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={handlePreview} disabled={saving} className="btn btn-secondary btn-sm gap-1">
+              <FaSearch className="h-3 w-3" /> Hitung
+            </button>
+            <button onClick={handleSave} disabled={saving || !plan} className="btn btn-primary btn-sm gap-1">
+              {TYPE_ICONS[input.type]} Simpan {TYPE_LABELS[input.type]}
+            </button>
+          </div>
+
+          {plan && (
+            <div className="space-y-2 border border-blue-200 dark:border-blue-800 rounded-lg p-3 bg-blue-50/50 dark:bg-blue-900/10">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                <div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Sisa pokok</p>
+                  <p className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(plan.outstanding_pokok)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Tenor</p>
+                  <p className="font-medium text-gray-900 dark:text-gray-100">{plan.tenor_before} → {plan.tenor_after} angsuran</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Angsuran</p>
+                  <p className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(plan.angsuran_before)} → {formatCurrency(plan.angsuran_after)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Sisa tagihan</p>
+                  <p className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(plan.sisa_before)} → {formatCurrency(plan.sisa_after)}</p>
+                </div>
+              </div>
+              {plan.overdue_jasa > 0 && input.type !== 'pelunasan_dipercepat' && (
+                <p className="text-xs text-amber-700 dark:text-amber-400">
+                  Jasa tertunggak {formatCurrency(plan.overdue_jasa)} ditambahkan ke angsuran pertama rencana baru.
+                </p>
+              )}
+              {input.type === 'pelunasan_dipercepat' && (
+                <p className="text-xs text-gray-700 dark:text-gray-300">
+                  Dibayar lunas {formatCurrency(plan.sisa_after)} dengan potongan jasa {formatCurrency(plan.rebate_amount)}.
+                </p>
+              )}
+              <ScheduleTable rows={plan.schedule} />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div>
+        <h4 className="flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100 mb-2">
+          <FaHistory className="h-4 w-4 text-gray-500" /> Riwayat Restrukturisasi
+        </h4>
+        {history.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400">Belum pernah direstrukturisasi</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+            {history.map(item => (
+              <li key={item.id} className="ml-4">
+                <span className="absolute -left-2.5 flex items-center justify-center w-5 h-5 rounded-full bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300">
+                  {TYPE_ICONS[item.type]}
+                </span>
+                <p className="font-medium text-gray-900 dark:text-gray-100">
+                  {TYPE_LABELS[item.type]}
+                  {item.jumlah_bulan ? ` ${item.jumlah_bulan} bulan` : ''}
+                  <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                    {' '}· efektif {new Date(item.effective_date).toLocaleDateString('id-ID')}
+                    {item.created_by_email ? ` · ${item.created_by_email}` : ''}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-600 dark:text-gray-300">
+                  Tenor {item.tenor_before} → {item.tenor_after}
+                  {Number(item.bunga_before) !== Number(item.bunga_after) ? ` · jasa ${Number(item.bunga_before)}% → ${Number(item.bunga_after)}%` : ''}
+                  {` · sisa ${formatCurrency(Number(item.sisa_before))} → ${formatCurrency(Number(item.sisa_after))}`}
+                  {Number(item.rebate_amount) > 0 ? ` · potongan jasa ${formatCurrency(Number(item.rebate_amount))}` : ''}
+                </p>
+                <p className="text-gray-700 dark:text-gray-300">{item.reason}</p>
+                <button
+                  onClick={() => setExpanded(expanded === item.id ? null : item.id)}
+                  className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {expanded === item.id ? 'Sembunyikan rencana' : 'Lihat rencana sebelum & sesudah'}
+                </button>
+                {expanded === item.id && (
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-2 mt-2">
+                    <div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Sebelum</p>
+                      <ScheduleTable rows={item.schedule_before} />
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Sesudah</p>
+                      <ScheduleTable rows={item.schedule_after} />
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  )
+}
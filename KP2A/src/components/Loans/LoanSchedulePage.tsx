@@ -1,7 +1,7 @@
 import React, { useEffect, useMemo, useState } from 'react'
 import { FaCalendar, FaDollarSign, FaSearch, FaFilter, FaFile, FaDownload, FaExclamationTriangle } from 'react-icons/fa'
-import { Loan, Member, LoanPayment } from '../../types'
-import { isDatabaseAvailable, databaseClient } from '../../lib/database'
+import { Loan, Member } from '../../types'
+import { loansApi, LoanScheduleRow } from '../../lib/api'
 import { motion } from 'framer-motion'
 import toast from 'react-hot-toast'
 
@@ -9,13 +9,14 @@ type ViewMode = 'table' | 'calendar'
 
 interface LoanScheduleItem {
   loan: Loan & { member?: Member }
-  payments: LoanPayment[]
+  schedule: LoanScheduleRow[]
   monthlySchedule: {
     month: number
     monthName: string
     expectedAmount: number
     paidAmount: number
-    status: 'paid' | 'pending' | 'overdue'
+    // 'none': no installment falls due in this month
+    status: 'paid' | 'pending' | 'overdue' | 'none'
     paymentDate?: string
   }[]
 }
@@ -35,86 +36,55 @@ export function LoanSchedulePage() {
   const fetchScheduleData = async () => {
     setLoading(true)
     try {
-      if (!isDatabaseAvailable()) {
-        throw new Error('Koneksi database tidak tersedia')
-      }
+      // Installments due in the selected year, taken from each loan's amortization plan
+      const { data, error } = await loansApi.getSchedules(selectedYear)
+      if (error) throw new Error(error)
 
-      // Fetch active loans with member info
-      const loansRes = await databaseClient
-        .from('loans')
-        .select('*, member:members(id, nama_lengkap)')
-        .eq('status', 'aktif')
-        .order('created_at', { ascending: false })
-        
-      
-      if (loansRes.error) throw loansRes.error
-
-      // Fetch all loan payments for the selected year
-      const startDate = `${selectedYear}-01-01`
-      const endDate = `${selectedYear}-12-31`
-      
-      const paymentsRes = await databaseClient
-        .from('loan_payments')
-        .select('*')
-        .gte('tanggal_bayar', startDate)
-        .lte('tanggal_bayar', endDate)
-        
-      if (paymentsRes.error) throw paymentsRes.error
+      const today = new Date().toISOString().split('T')[0]
 
-      // Normalize loans data to ensure proper number conversion
-      const loans = (loansRes.data as any[]).map((loan) => ({
-        ...loan,
-        jumlah_pinjaman: Number(loan.jumlah_pinjaman || 0),
-        angsuran_bulanan: Number(loan.angsuran_bulanan || 0),
-        sisa_pinjaman: Number(loan.sisa_pinjaman || 0),
-        bunga_persen: Number(loan.bunga_persen || 0),
-        tenor_bulan: Number(loan.tenor_bulan || 0)
-      })) as (Loan & { member?: Member })[]
-      
-      const payments = paymentsRes.data as LoanPayment[]
+      const scheduleItems: LoanScheduleItem[] = (data || []).map((raw) => {
+        const loan = {
+          ...raw,
+          jumlah_pinjaman: Number(raw.jumlah_pinjaman || 0),
+          angsuran_bulanan: Number(raw.angsuran_bulanan || 0),
+          sisa_pinjaman: Number(raw.sisa_pinjaman || 0),
+          bunga_persen: Number(raw.bunga_persen || 0),
+          tenor_bulan: Number(raw.tenor_bulan || 0),
+          member: { id: raw.member_id, nama_lengkap: raw.nama_lengkap, id_anggota: raw.id_anggota }
+        } as unknown as Loan & { member?: Member }
 
-      // Generate schedule for each loan
-      const scheduleItems: LoanScheduleItem[] = loans.map(loan => {
-        const loanPayments = payments.filter(p => p.loan_id === loan.id)
         const monthlySchedule = []
-
         for (let month = 1; month <= 12; month++) {
-          const monthName = getMonthName(month)
-          const expectedAmount = Number(loan.angsuran_bulanan)
-          
-          // Find payments for this month
-          const monthPayments = loanPayments.filter(p => {
-            const paymentDate = new Date(p.tanggal_bayar)
-            return paymentDate.getMonth() + 1 === month && paymentDate.getFullYear() === selectedYear
-          })
-
-          const paidAmount = monthPayments.reduce((sum, p) => sum + Number(p.total_angsuran), 0)
-          const hasPayment = monthPayments.length > 0
-          const latestPayment = monthPayments.sort((a, b) => 
-            new Date(b.tanggal_bayar).getTime() - new Date(a.tanggal_bayar).getTime()
-          )[0]
+          const rows = raw.schedule.filter(row => Number(row.due_date.slice(5, 7)) === month)
+          const expectedAmount = rows.reduce((sum, row) => sum + Number(row.total), 0)
+          const paidAmount = rows.reduce((sum, row) => sum + Number(row.paid_pokok || 0) + Number(row.paid_bunga || 0), 0)
+          const paymentDate = rows.map(row => row.paid_date).filter(Boolean).sort().pop() || undefined
 
-          let status: 'paid' | 'pending' | 'overdue' = 'pending'
-          if (hasPayment && paidAmount >= expectedAmount) {
-            status = 'paid'
-          } else if (new Date() > new Date(selectedYear, month, 0)) {
-            // Month has passed without full payment
-            status = 'overdue'
+          let status: 'paid' | 'pending' | 'overdue' | 'none' = 'none'
+          if (rows.length > 0) {
+            if (rows.every(row => row.status === 'lunas')) {
+              status = 'paid'
+            } else if (rows.some(row => row.due_date < today)) {
+              // Installment already due but not fully paid
+              status = 'overdue'
+            } else {
+              status = 'pending'
+            }
           }
 
           monthlySchedule.push({
             month,
-            monthName,
+            monthName: getMonthName(month),
             expectedAmount,
             paidAmount,
             status,
-            paymentDate: latestPayment?.tanggal_bayar
+            paymentDate
           })
         }
 
         return {
           loan,
-          payments: loanPayments,
+          schedule: raw.schedule,
           monthlySchedule
         }
       })
@@ -122,6 +92,7 @@ export function LoanSchedulePage() {
       setScheduleData(scheduleItems)
     } catch (err) {
       console.error('Failed to fetch schedule data:', err)
+      toast.error(err instanceof Error ? err.message : 'Gagal memuat jadwal angsuran')
       setScheduleData([])
     } finally {
       setLoading(false)
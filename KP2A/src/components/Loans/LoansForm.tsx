@@ -4,6 +4,7 @@ import { yupResolver } from '@hookform/resolvers/yup'
 import { Combobox, ComboboxInput, ComboboxButton, ComboboxOptions, ComboboxOption } from '@headlessui/react'
 import { FaChevronDown, FaCheck } from 'react-icons/fa'
 import { Loan, Member } from '../../types'
+import { loansApi, LoanSchedulePreview } from '../../lib/api'
 import { handleNumberInputChange, formatInitialValue, formatNumberWithSeparator } from '../../utils/numberFormat'
 import { getDefaultDateValue } from '../../utils/dateFormat'
 import { loansSchema, LoansFormValues } from '../../schemas/loansSchema'
@@ -20,11 +21,13 @@ export function LoansForm({
   onCancel: () => void
 }) {
   const [query, setQuery] = useState('')
+  const [schedulePreview, setSchedulePreview] = useState<LoanSchedulePreview | null>(null)
 
   const defaultValues = useMemo(() => ({
     member_id: initial?.member_id || '',
     jumlah_pinjaman: initial?.jumlah_pinjaman ? formatInitialValue(initial.jumlah_pinjaman) : 0,
     bunga_persen: initial?.bunga_persen || 0,
+    interest_method: initial?.interest_method || 'flat',
     tenor_bulan: initial?.tenor_bulan || 10,
     angsuran_bulanan: initial?.angsuran_bulanan ? formatInitialValue(initial.angsuran_bulanan) : 0,
     tanggal_pinjaman: getDefaultDateValue(initial?.tanggal_pinjaman),
@@ -46,21 +49,36 @@ export function LoansForm({
   // Watch fields for auto-calculation
   const jumlahPinjaman = watch('jumlah_pinjaman')
   const tenorBulan = watch('tenor_bulan')
+  const bungaPersen = watch('bunga_persen')
+  const interestMethod = watch('interest_method')
+  const tanggalPinjaman = watch('tanggal_pinjaman')
 
-  // Auto-calculate Angsuran Bulanan when Jumlah Pinjaman or Tenor changes
+  // Angsuran Bulanan follows the amortization plan calculated by the server
   useEffect(() => {
-    if (jumlahPinjaman && tenorBulan) {
-      const numJumlah = typeof jumlahPinjaman === 'string'
-        ? parseInt(jumlahPinjaman.replace(/\D/g, '')) || 0
-        : jumlahPinjaman
-      const numTenor = typeof tenorBulan === 'string' ? parseInt(tenorBulan) : tenorBulan
-
-      if (numJumlah > 0 && numTenor > 0) {
-        const angsuran = Math.round(numJumlah / numTenor)
-        setValue('angsuran_bulanan', angsuran)
-      }
+    const numJumlah = typeof jumlahPinjaman === 'string'
+      ? parseInt((jumlahPinjaman as string).replace(/\D/g, '')) || 0
+      : Number(jumlahPinjaman) || 0
+    const numTenor = parseInt(String(tenorBulan)) || 0
+    if (numJumlah <= 0 || numTenor <= 0) {
+      setSchedulePreview(null)
+      return
     }
-  }, [jumlahPinjaman, tenorBulan, setValue])
+
+    const timer = setTimeout(async () => {
+      const { data } = await loansApi.previewSchedule({
+        jumlah_pinjaman: numJumlah,
+        bunga_persen: Number(bungaPersen) || 0,
+        tenor_bulan: numTenor,
+        interest_method: interestMethod || 'flat',
+        tanggal_pinjaman: tanggalPinjaman,
+      })
+      if (data) {
+        setSchedulePreview(data)
+        setValue('angsuran_bulanan', data.angsuran_bulanan)
+      }
+    }, 400)
+    return () => clearTimeout(timer)
+  }, [jumlahPinjaman, tenorBulan, bungaPersen, interestMethod, tanggalPinjaman, setValue])
 
   useEffect(() => {
     if (initial) {
@@ -68,6 +86,7 @@ export function LoansForm({
       setValue('member_id', (initial as any).member_id)
       setValue('jumlah_pinjaman', Number(initial.jumlah_pinjaman))
       setValue('bunga_persen', Number(initial.bunga_persen))
+      setValue('interest_method', initial.interest_method || 'flat')
       setValue('tenor_bulan', Number(initial.tenor_bulan))
       setValue('angsuran_bulanan', Number(initial.angsuran_bulanan))
       setValue('tanggal_pinjaman', (initial.tanggal_pinjaman || '').slice(0, 10))
@@ -178,6 +197,16 @@ export function LoansForm({
           {errors.bunga_persen && <p className="form-error">{errors.bunga_persen.message}</p>}
         </div>
 
+        <div className="form-group">
+          <label className="form-label">Metode Jasa</label>
+          <select {...register('interest_method')} className="input focus-ring w-full">
+            <option value="flat">Flat (dari pokok awal)</option>
+            <option value="efektif">Efektif (dari sisa pokok)</option>
+            <option value="anuitas">Anuitas (angsuran tetap)</option>
+          </select>
+          {errors.interest_method && <p className="form-error">{errors.interest_method.message}</p>}
+        </div>
+
         <div className="form-group">
           <label className="form-label">Tenor (bulan)</label>
           <input type="number" defaultValue="10" {...register('tenor_bulan')} className="input focus-ring w-full" />
@@ -196,6 +225,16 @@ export function LoansForm({
             placeholder="0"
           />
           {errors.angsuran_bulanan && <p className="form-error">{errors.angsuran_bulanan.message}</p>}
+          {schedulePreview && interestMethod === 'efektif' && schedulePreview.schedule.length > 1 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Menurun hingga Rp {formatNumberWithSeparator(schedulePreview.schedule[schedulePreview.schedule.length - 1].total)} pada angsuran terakhir
+            </p>
+          )}
+          {schedulePreview && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Total jasa Rp {formatNumberWithSeparator(schedulePreview.total_bunga)}, total bayar Rp {formatNumberWithSeparator(schedulePreview.total_bayar)}
+            </p>
+          )}
         </div>
 
         <div className="form-group">
@@ -211,6 +250,7 @@ export function LoansForm({
             <option value="lunas">Lunas</option>
             <option value="belum_lunas">Belum Lunas</option>
             <option value="pending">Pending</option>
+            <option value="disetujui">Disetujui</option>
             <option value="ditolak">Ditolak</option>
           </select>
           {errors.status && <p className="form-error">{errors.status.message}</p>}
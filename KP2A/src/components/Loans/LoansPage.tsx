@@ -1,15 +1,20 @@
-import React, { useEffect, useMemo, useState } from 'react'
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
 import { useSearchParams, useLocation } from 'react-router-dom'
-import { FaPlus, FaSearch, FaFilter, FaPencilAlt, FaTrash, FaTimes, FaExclamationTriangle, FaCheck } from 'react-icons/fa'
+import { FaPlus, FaSearch, FaFilter, FaPencilAlt, FaTrash, FaTimes, FaExclamationTriangle, FaCheck, FaUserShield, FaHistory } from 'react-icons/fa'
 import { Loan, Member } from '../../types'
-import { loansApi, membersApi } from '../../lib/api'
+import { loanGuaranteesApi, ArrearsLoanGuarantors } from '../../lib/api'
+import { repositories } from '../../lib/repositories'
 import toast from 'react-hot-toast'
 import { motion, AnimatePresence } from 'framer-motion'
 import { LoansForm, LoansFormValues } from './LoansForm'
 import { useAuth } from '../../contexts/AuthContext'
 import { createLoanApprovalNotification } from '../../utils/notificationHelpers'
+import { PenaltyPanel } from '../Penalties/PenaltyPanel'
+import { LoanGuaranteePanel } from './LoanGuaranteePanel'
+import { GuarantorArrearsPanel } from './GuarantorArrearsPanel'
+import { LoanRestructurePanel } from './LoanRestructurePanel'
 
-type StatusFilter = 'all' | 'aktif' | 'lunas' | 'belum_lunas' | 'pending' | 'ditolak'
+type StatusFilter = 'all' | 'aktif' | 'lunas' | 'belum_lunas' | 'pending' | 'disetujui' | 'ditolak'
 
 export function LoansPage() {
   const { user } = useAuth()
@@ -18,6 +23,10 @@ export function LoansPage() {
   const [loans, setLoans] = useState<(Loan & { member?: Member })[]>([])
   const [members, setMembers] = useState<Member[]>([])
   const [loading, setLoading] = useState(true)
+  const [penaltyRefresh, setPenaltyRefresh] = useState(0)
+  const [arrears, setArrears] = useState<ArrearsLoanGuarantors[]>([])
+  const [guaranteeLoan, setGuaranteeLoan] = useState<Loan & { member?: Member } | null>(null)
+  const [restructureLoan, setRestructureLoan] = useState<Loan & { member?: Member } | null>(null)
   const [search, setSearch] = useState('')
   const [status, setStatus] = useState<StatusFilter>('all')
   const [showForm, setShowForm] = useState(false)
@@ -28,24 +37,6 @@ export function LoansPage() {
   const [page, setPage] = useState(1)
   const [pageSize, setPageSize] = useState(10)
 
-  // Refetch data on mount and on navigation (location.key changes on every navigation)
-  useEffect(() => {
-    fetchAll()
-  }, [location.key])
-
-  // Refetch data when page becomes visible (e.g., after navigating back from loan-payments)
-  useEffect(() => {
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
-        fetchAll()
-      }
-    }
-    document.addEventListener('visibilitychange', handleVisibilityChange)
-    return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange)
-    }
-  }, [])
-
   // Check for action parameter to auto-open form
   useEffect(() => {
     const action = searchParams.get('action')
@@ -58,13 +49,13 @@ export function LoansPage() {
     }
   }, [searchParams, setSearchParams])
 
-  const fetchAll = async () => {
+  const fetchAll = useCallback(async () => {
     setLoading(true)
     try {
-      const { data: membersData, error: membersError } = await membersApi.getAll()
+      const { data: membersData, error: membersError } = await repositories.members.list()
       if (membersError) throw new Error(membersError)
 
-      const { data: loansData, error: loansError } = await loansApi.getAll()
+      const { data: loansData, error: loansError } = await repositories.loans.list()
       if (loansError) throw new Error(loansError)
 
       setMembers(membersData || [])
@@ -106,6 +97,12 @@ export function LoansPage() {
         }
       })
       setLoans(normalized)
+
+      // Loans in arrears and their guarantors (pengurus only)
+      if (user?.role === 'admin' || user?.role === 'pengurus') {
+        const { data: arrearsData } = await loanGuaranteesApi.getArrears()
+        setArrears(arrearsData || [])
+      }
     } catch (err) {
       console.error('Failed to fetch loans:', err)
       setMembers([])
@@ -121,8 +118,32 @@ export function LoansPage() {
       ))
     } finally {
       setLoading(false)
+      setPenaltyRefresh((key) => key + 1)
     }
-  }
+  }, [user?.role])
+
+  // Refetch data on mount and on navigation (location.key changes on every navigation)
+  useEffect(() => {
+    fetchAll()
+  }, [fetchAll, location.key])
+
+  // Refetch data when page becomes visible (e.g., after navigating back from loan-payments)
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        fetchAll()
+      }
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [fetchAll])
+
+  const arrearsByLoan = useMemo(
+    () => Object.fromEntries(arrears.map(a => [a.loan_id, a])) as Record<string, ArrearsLoanGuarantors>,
+    [arrears]
+  )
 
   const filtered = useMemo(() => {
     // ...
@@ -184,13 +205,14 @@ export function LoansPage() {
       member_id: values.member_id,
       jumlah_pinjaman: values.jumlah_pinjaman,
       bunga_persen: values.bunga_persen,
+      interest_method: values.interest_method,
       tenor_bulan: values.tenor_bulan,
       angsuran_bulanan: values.angsuran_bulanan,
       tanggal_pinjaman: values.tanggal_pinjaman,
       status: values.status,
     }
     try {
-      const { data, error } = await loansApi.create(payload)
+      const { data, error } = await repositories.loans.create(payload)
 
       if (error) throw new Error(error)
       if (!data) throw new Error('No data returned')
@@ -240,7 +262,7 @@ export function LoansPage() {
 
   const handleUpdate = async (id: string, values: Partial<LoansFormValues>) => {
     try {
-      const { data, error } = await loansApi.update(id, values)
+      const { data, error } = await repositories.loans.update(id, values)
 
       if (error) throw new Error(error)
       if (!data) throw new Error('No data returned')
@@ -275,7 +297,7 @@ export function LoansPage() {
 
   const handleDelete = async (id: string) => {
     try {
-      const { error } = await loansApi.delete(id)
+      const { error } = await repositories.loans.remove(id)
       if (error) throw new Error(error)
 
       const next = loans.filter((l) => l.id !== id)
@@ -294,7 +316,7 @@ export function LoansPage() {
     try {
       const idsArray = Array.from(selectedIds)
 
-      await Promise.all(idsArray.map(id => loansApi.delete(id)))
+      await Promise.all(idsArray.map(id => repositories.loans.remove(id)))
 
       const next = loans.filter((l) => !selectedIds.has(l.id))
       setLoans(next)
@@ -356,6 +378,7 @@ export function LoansPage() {
               <option value="lunas">Lunas</option>
               <option value="belum_lunas">Belum Lunas</option>
               <option value="pending">Pending</option>
+              <option value="disetujui">Disetujui</option>
               <option value="ditolak">Ditolak</option>
             </select>
           </div>
@@ -433,7 +456,19 @@ export function LoansPage() {
                         {selectedIds.has(l.id) && <FaCheck className="h-3 w-3" />}
                       </button>
                     </td>
-                    <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">{l.member?.id_anggota || '-'} {l.member?.nama_lengkap ? `- ${l.member.nama_lengkap}` : ''}</td>
+                    <td className="px-4 py-3 text-sm text-gray-900 dark:text-gray-100">
+                      {l.member?.id_anggota || '-'} {l.member?.nama_lengkap ? `- ${l.member.nama_lengkap}` : ''}
+                      {arrearsByLoan[l.id] && (
+                        <span
+                          className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200"
+                          title={arrearsByLoan[l.id].guarantors.length > 0
+                            ? `Penjamin: ${arrearsByLoan[l.id].guarantors.map(g => g.nama_lengkap).join(', ')}`
+                            : 'Tanpa penjamin'}
+                        >
+                          <FaUserShield className="h-3 w-3" /> Menunggak {arrearsByLoan[l.id].days_late} hari
+                        </span>
+                      )}
+                    </td>
                     <td className="px-4 py-3 text-center">
                       {loanHistory[l.member_id] && (
                         <span className={`px-2 py-1 rounded-full text-xs font-medium ${loanHistory[l.member_id].count > 1
@@ -455,11 +490,18 @@ export function LoansPage() {
                         l.status === 'lunas' ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200' :
                           l.status === 'belum_lunas' ? 'bg-orange-100 dark:bg-orange-900 text-orange-800 dark:text-orange-200' :
                             l.status === 'pending' ? 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200' :
-                              'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200'
+                              l.status === 'disetujui' ? 'bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200' :
+                                'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200'
                         }`}>{l.status === 'belum_lunas' ? 'Belum Lunas' : l.status}</span>
                     </td>
                     <td className="px-4 py-3 text-right">
                       <div className="inline-flex items-center gap-1">
+                        <button onClick={() => setGuaranteeLoan(l)} className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded" title="Penjamin & Agunan">
+                          <FaUserShield className="h-4 w-4" />
+                        </button>
+                        <button onClick={() => setRestructureLoan(l)} className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded" title="Restrukturisasi & Riwayat">
+                          <FaHistory className="h-4 w-4" />
+                        </button>
                         <button onClick={() => { setEditing(l); setShowForm(true) }} className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded" title="Edit">
                           <FaPencilAlt className="h-4 w-4" />
                         </button>
@@ -531,6 +573,54 @@ export function LoansPage() {
         </div>
       </div>
 
+      {/* Penjamin pinjaman menunggak */}
+      <GuarantorArrearsPanel arrears={arrears} />
+
+      {/* Denda keterlambatan */}
+      <PenaltyPanel source="loan" refreshKey={penaltyRefresh} />
+
+      {/* Guarantors & Collateral Dialog */}
+      <AnimatePresence>
+        {guaranteeLoan && (
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={() => setGuaranteeLoan(null)}>
+            <motion.div initial={{ scale: 0.95, opacity: 0 }} animate={{ scale: 1, opacity: 1 }} exit={{ scale: 0.95, opacity: 0 }} className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-[640px] max-w-[95vw] max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+              <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-gray-600">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Penjamin & Agunan · {guaranteeLoan.member?.nama_lengkap}</h3>
+                <button onClick={() => setGuaranteeLoan(null)} className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300">
+                  <FaTimes className="h-5 w-5" />
+                </button>
+              </div>
+              <div className="p-5">
+                <LoanGuaranteePanel loanId={guaranteeLoan.id} borrowerId={guaranteeLoan.member_id} />
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Restructure Dialog */}
+      <AnimatePresence>
+        {restructureLoan && (
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={() => setRestructureLoan(null)}>
+            <motion.div initial={{ scale: 0.95, opacity: 0 }} animate={{ scale: 1, opacity: 1 }} exit={{ scale: 0.95, opacity: 0 }} className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-[820px] max-w-[95vw] max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+              <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-gray-600">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Restrukturisasi · {restructureLoan.member?.nama_lengkap}</h3>
+                <button onClick={() => setRestructureLoan(null)} className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300">
+                  <FaTimes className="h-5 w-5" />
+                </button>
+              </div>
+              <div className="p-5">
+                <LoanRestructurePanel
+                  loanId={restructureLoan.id}
+                  canRestructure={(user?.role === 'admin' || user?.role === 'pengurus') && restructureLoan.status === 'aktif'}
+                  onChanged={fetchAll}
+                />
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Create / Edit Dialog */}
       <AnimatePresence>
         {showForm && (
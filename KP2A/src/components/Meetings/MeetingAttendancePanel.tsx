@@ -0,0 +1,323 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { FaBan, FaCheckCircle, FaFilePdf, FaLock, FaPencilAlt, FaQrcode, FaTimes, FaTrash, FaWhatsapp } from 'react-icons/fa'
+import toast from 'react-hot-toast'
+import { Meeting, MeetingDetail, meetingsApi } from '../../lib/api'
+import { repositories } from '../../lib/repositories'
+import { Member } from '../../types'
+import BarcodeScanner from '../Scanner/BarcodeScanner'
+import { ScanResult } from '../../types/scanner'
+import { validateMemberQR } from '../../utils/scannerSecurity'
+import { loadCardTrust, refreshCardTrust, verifyMemberCard } from '../../utils/memberCardVerification'
+import { whatsappNotificationService } from '../../services/whatsappNotificationService'
+import { generateAttendancePDF } from './generateAttendancePDF'
+import { MEETING_STATUS_BADGES, MEETING_TYPE_LABELS } from './meetingLabels'
+
+interface MeetingAttendancePanelProps {
+  meetingId: string
+  // Bump to reload after the meeting was edited
+  refreshKey?: number
+  onEdit: (meeting: Meeting) => void
+  // Reload the meeting list after attendance or status changes
+  onChanged: () => void
+}
+
+// The scanner reports the same code several times while it is in view
+const RESCAN_INTERVAL_MS = 3000
+
+// Meeting detail: quorum, check-in by member card QR or manually, attendance list and daftar hadir
+export function MeetingAttendancePanel({ meetingId, refreshKey = 0, onEdit, onChanged }: MeetingAttendancePanelProps) {
+  const [meeting, setMeeting] = useState<MeetingDetail | null>(null)
+  const [members, setMembers] = useState<Member[]>([])
+  const [scanning, setScanning] = useState(false)
+  const [manualMemberId, setManualMemberId] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [lastCheckIn, setLastCheckIn] = useState<{ ok: boolean; message: string } | null>(null)
+  const lastScan = useRef<{ text: string; at: number } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setMeeting(null)
+    setScanning(false)
+    setLastCheckIn(null)
+    meetingsApi.getById(meetingId).then(({ data, error }) => {
+      if (cancelled) return
+      if (error) toast.error(error)
+      setMeeting(data || null)
+    })
+    return () => { cancelled = true }
+  }, [meetingId, refreshKey])
+
+  useEffect(() => {
+    repositories.members.list().then(({ data }) => setMembers(data || []))
+  }, [])
+
+  const presentIds = useMemo(() => new Set(meeting?.attendance.map(a => a.member_id)), [meeting])
+  const absentMembers = members.filter(m => m.status_keanggotaan === 'aktif' && !presentIds.has(m.id))
+  const isOpen = meeting?.status === 'terjadwal' || meeting?.status === 'berlangsung'
+
+  const applyResult = (data: MeetingDetail | undefined) => {
+    if (data) setMeeting(data)
+    onChanged()
+  }
+
+  const submitCheckIn = async (input: Parameters<typeof meetingsApi.checkIn>[1], name: string) => {
+    const { data, error } = await meetingsApi.checkIn(meetingId, input)
+    if (error) {
+      setLastCheckIn({ ok: false, message: error })
+      toast.error(error)
+      return
+    }
+    setLastCheckIn({ ok: true, message: `${name} tercatat hadir` })
+    toast.success(`${name} hadir`)
+    applyResult(data)
+  }
+
+  // Member cards are verified offline first; the server then checks the serial is still current
+  const handleScan = async (result: ScanResult) => {
+    const now = Date.now()
+    if (lastScan.current && lastScan.current.text === result.text && now - lastScan.current.at < RESCAN_INTERVAL_MS) return
+    lastScan.current = { text: result.text, at: now }
+
+    const validation = validateMemberQR(result.text)
+    if (!validation.isValid) {
+      setLastCheckIn({ ok: false, message: 'Bukan QR kartu anggota' })
+      return
+    }
+    const card = validation.parsedData
+    const trust = loadCardTrust() || await refreshCardTrust()
+    if (!trust) {
+      setLastCheckIn({ ok: false, message: 'Kunci verifikasi kartu belum tersedia' })
+      return
+    }
+    const verdict = await verifyMemberCard(card, trust)
+    if (!verdict.valid) {
+      setLastCheckIn({ ok: false, message: `Kartu ${card.serial} ditolak: ${verdict.reason}` })
+      return
+    }
+
+    await submitCheckIn({ member_id: card.memberId, method: 'qr', card_serial: card.serial }, card.memberName)
+  }
+
+  const handleManualCheckIn = async () => {
+    const member = members.find(m => m.id === manualMemberId)
+    if (!member) return
+    setBusy(true)
+    await submitCheckIn({ member_id: member.id, method: 'manual' }, member.nama_lengkap)
+    setManualMemberId('')
+    setBusy(false)
+  }
+
+  const handleRemove = async (attendanceId: string) => {
+    setBusy(true)
+    const { data, error } = await meetingsApi.removeAttendance(meetingId, attendanceId)
+    if (error) toast.error(error)
+    else applyResult(data)
+    setBusy(false)
+  }
+
+  const handleStatus = async (action: 'close' | 'cancel') => {
+    const question = action === 'close'
+      ? 'Tutup rapat? Daftar hadir tidak dapat diubah setelah ditutup.'
+      : 'Batalkan rapat ini?'
+    if (!window.confirm(question)) return
+
+    setBusy(true)
+    const { data, error } = action === 'close'
+      ? await meetingsApi.close(meetingId)
+      : await meetingsApi.cancel(meetingId)
+    if (error) {
+      toast.error(error)
+    } else {
+      setScanning(false)
+      toast.success(action === 'close' ? 'Rapat ditutup' : 'Rapat dibatalkan')
+      applyResult(data)
+    }
+    setBusy(false)
+  }
+
+  const handleSendReminders = async () => {
+    if (!meeting) return
+    const recipients = members
+      .filter(m => m.status_keanggotaan === 'aktif' && m.no_hp)
+      .map(m => ({ phoneNumber: m.no_hp, name: m.nama_lengkap, memberId: m.id, isAdmin: false }))
+    if (recipients.length === 0) {
+      toast.error('Tidak ada anggota aktif dengan nomor WhatsApp')
+      return
+    }
+
+    setBusy(true)
+    const date = new Date(meeting.tanggal)
+    const { success, failed } = await whatsappNotificationService.sendBulkNotification('meeting_reminder', recipients, {
+      date: date.toLocaleDateString('id-ID', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' }),
+      time: `${date.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })} WIB`,
+      location: meeting.lokasi,
+    })
+    setBusy(false)
+    toast.success(`Pengingat terkirim ke ${success} anggota${failed ? `, ${failed} gagal` : ''}`)
+  }
+
+  if (!meeting) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center text-sm text-gray-500 dark:text-gray-400">
+        Memuat rapat...
+      </div>
+    )
+  }
+
+  const quorum = meeting.quorum
+  const progress = quorum.dibutuhkan > 0 ? Math.min(100, (quorum.hadir / quorum.dibutuhkan) * 100) : 0
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{meeting.judul}</h3>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${MEETING_STATUS_BADGES[meeting.status].className}`}>
+              {MEETING_STATUS_BADGES[meeting.status].label}
+            </span>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {MEETING_TYPE_LABELS[meeting.jenis]} · {new Date(meeting.tanggal).toLocaleString('id-ID', { dateStyle: 'full', timeStyle: 'short' })} · {meeting.lokasi}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={() => generateAttendancePDF(meeting)} className="btn btn-secondary btn-sm gap-1">
+            <FaFilePdf className="h-3 w-3" /> Daftar Hadir
+          </button>
+          {isOpen && (
+            <>
+              <button onClick={handleSendReminders} disabled={busy} className="btn btn-secondary btn-sm gap-1">
+                <FaWhatsapp className="h-3 w-3" /> Pengingat
+              </button>
+              <button onClick={() => onEdit(meeting)} disabled={busy} className="btn btn-secondary btn-sm gap-1">
+                <FaPencilAlt className="h-3 w-3" /> Ubah
+              </button>
+              <button onClick={() => handleStatus('cancel')} disabled={busy} className="btn btn-secondary btn-sm gap-1">
+                <FaBan className="h-3 w-3" /> Batalkan
+              </button>
+              <button onClick={() => handleStatus('close')} disabled={busy} className="btn btn-primary btn-sm gap-1">
+                <FaLock className="h-3 w-3" /> Tutup Rapat
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {meeting.agenda && (
+          <div className="text-sm">
+            <p className="font-medium text-gray-900 dark:text-gray-100">Agenda</p>
+            <ol className="list-decimal list-inside text-gray-700 dark:text-gray-300">
+              {meeting.agenda.split(/\r?\n/).filter(Boolean).map((item, index) => <li key={index}>{item}</li>)}
+            </ol>
+          </div>
+        )}
+
+        <div className={`p-3 rounded-lg border ${quorum.terpenuhi ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800' : 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800'}`}>
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <span className="font-medium text-gray-900 dark:text-gray-100">
+              {quorum.terpenuhi ? 'Kuorum terpenuhi' : `Kuorum belum terpenuhi, kurang ${quorum.dibutuhkan - quorum.hadir} orang`}
+            </span>
+            <span className="text-gray-700 dark:text-gray-300">
+              {quorum.hadir} hadir dari {quorum.total_anggota} anggota aktif ({quorum.persentase_hadir}%) · minimal {quorum.dibutuhkan}
+            </span>
+          </div>
+          <div className="mt-2 h-2 bg-white dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${quorum.terpenuhi ? 'bg-green-500' : 'bg-yellow-500'}`}
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+        </div>
+
+        {isOpen && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => setScanning(!scanning)} className="btn btn-primary btn-sm gap-1">
+                {scanning ? <FaTimes className="h-3 w-3" /> : <FaQrcode className="h-3 w-3" />}
+                {scanning ? 'Tutup Pemindai' : 'Pindai Kartu Anggota'}
+              </button>
+              <select
+                value={manualMemberId}
+                onChange={(e) => setManualMemberId(e.target.value)}
+                className="select focus-ring flex-1 min-w-[12rem]"
+              >
+                <option value="">Presensi manual (tanpa kartu)...</option>
+                {absentMembers.map(member => (
+                  <option key={member.id} value={member.id}>
+                    {member.nama_lengkap}{member.id_anggota ? ` (${member.id_anggota})` : ''}
+                  </option>
+                ))}
+              </select>
+              <button onClick={handleManualCheckIn} disabled={busy || !manualMemberId} className="btn btn-secondary btn-sm">
+                Catat Hadir
+              </button>
+            </div>
+
+            {scanning && (
+              <div className="max-w-sm">
+                <BarcodeScanner
+                  mode="verification"
+                  onScanSuccess={handleScan}
+                  onScanError={(error) => setLastCheckIn({ ok: false, message: error.message })}
+                />
+              </div>
+            )}
+
+            {lastCheckIn && (
+              <p className={`text-sm flex items-center gap-1 ${lastCheckIn.ok ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                {lastCheckIn.ok ? <FaCheckCircle className="h-4 w-4" /> : <FaTimes className="h-4 w-4" />}
+                {lastCheckIn.message}
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">No</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Anggota</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Jam Hadir</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Metode</th>
+                {isOpen && <th className="px-3 py-2" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+              {meeting.attendance.length === 0 && (
+                <tr>
+                  <td colSpan={isOpen ? 5 : 4} className="px-3 py-6 text-center text-gray-500 dark:text-gray-400">Belum ada anggota yang hadir</td>
+                </tr>
+              )}
+              {meeting.attendance.map((attendee, index) => (
+                <tr key={attendee.id} className="text-gray-700 dark:text-gray-300">
+                  <td className="px-3 py-2">{index + 1}</td>
+                  <td className="px-3 py-2">
+                    <p className="text-gray-900 dark:text-gray-100">{attendee.nama_lengkap}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{attendee.id_anggota || '-'}</p>
+                  </td>
+                  <td className="px-3 py-2">{new Date(attendee.check_in_at).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}</td>
+                  <td className="px-3 py-2">{attendee.method === 'qr' ? `Kartu ${attendee.card_serial}` : 'Manual'}</td>
+                  {isOpen && (
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => handleRemove(attendee.id)}
+                        disabled={busy}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Hapus kehadiran"
+                      >
+                        <FaTrash className="h-3 w-3" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
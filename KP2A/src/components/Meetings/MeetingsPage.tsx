@@ -0,0 +1,244 @@
+import { useEffect, useState } from 'react'
+import { FaCalendarAlt, FaMapMarkerAlt, FaPlus, FaTimes, FaUsers } from 'react-icons/fa'
+import { motion, AnimatePresence } from 'framer-motion'
+import toast from 'react-hot-toast'
+import { Meeting, MeetingInput, MeetingType, meetingsApi } from '../../lib/api'
+import { MeetingAttendancePanel } from './MeetingAttendancePanel'
+import { MEETING_STATUS_BADGES, MEETING_TYPE_LABELS } from './meetingLabels'
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('id-ID', { dateStyle: 'medium', timeStyle: 'short' })
+
+// Value for <input type="datetime-local"> in the browser's time zone
+const toLocalInput = (value?: string) => {
+  const date = value ? new Date(value) : new Date()
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+const emptyDraft = (): MeetingInput => ({
+  judul: '',
+  jenis: 'rapat_anggota',
+  tanggal: toLocalInput(),
+  lokasi: '',
+  agenda: '',
+  kuorum_persen: 50,
+})
+
+export function MeetingsPage() {
+  const [meetings, setMeetings] = useState<Meeting[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [editing, setEditing] = useState<Meeting | null>(null)
+  const [draft, setDraft] = useState<MeetingInput>(emptyDraft())
+  const [saving, setSaving] = useState(false)
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  useEffect(() => {
+    loadMeetings()
+  }, [])
+
+  const loadMeetings = async () => {
+    setLoading(true)
+    const { data, error } = await meetingsApi.getAll()
+    if (error) toast.error(error)
+    setMeetings(data || [])
+    setLoading(false)
+  }
+
+  const openForm = (meeting: Meeting | null) => {
+    setEditing(meeting)
+    setDraft(meeting
+      ? {
+        judul: meeting.judul,
+        jenis: meeting.jenis,
+        tanggal: toLocalInput(meeting.tanggal),
+        lokasi: meeting.lokasi,
+        agenda: meeting.agenda || '',
+        kuorum_persen: meeting.kuorum_persen,
+      }
+      : emptyDraft())
+    setShowForm(true)
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      const payload = { ...draft, tanggal: `${draft.tanggal.replace('T', ' ')}:00` }
+      const { data, error } = editing
+        ? await meetingsApi.update(editing.id, payload)
+        : await meetingsApi.create(payload)
+      if (error) throw new Error(error)
+
+      toast.success(editing ? 'Rapat diperbarui' : 'Rapat dijadwalkan')
+      setShowForm(false)
+      await loadMeetings()
+      if (data) setSelectedId(data.id)
+      setRefreshKey(key => key + 1)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan rapat')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Jadwalkan rapat, catat kehadiran dengan memindai kartu anggota, dan cetak daftar hadir.
+        </p>
+        <button onClick={() => openForm(null)} className="btn btn-primary gap-2">
+          <FaPlus className="h-4 w-4" /> Rapat Baru
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow divide-y divide-gray-200 dark:divide-gray-700 self-start">
+          {loading && <p className="p-4 text-sm text-gray-500 dark:text-gray-400">Memuat rapat...</p>}
+          {!loading && meetings.length === 0 && (
+            <p className="p-4 text-sm text-gray-500 dark:text-gray-400">Belum ada rapat</p>
+          )}
+          {meetings.map(meeting => (
+            <button
+              key={meeting.id}
+              onClick={() => setSelectedId(meeting.id)}
+              className={`w-full text-left p-3 space-y-1 hover:bg-gray-50 dark:hover:bg-gray-700 ${selectedId === meeting.id ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <p className="font-medium text-gray-900 dark:text-gray-100">{meeting.judul}</p>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${MEETING_STATUS_BADGES[meeting.status].className}`}>
+                  {MEETING_STATUS_BADGES[meeting.status].label}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                <FaCalendarAlt className="h-3 w-3" /> {formatDateTime(meeting.tanggal)} · {MEETING_TYPE_LABELS[meeting.jenis]}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                <FaMapMarkerAlt className="h-3 w-3" /> {meeting.lokasi}
+              </p>
+              <p className={`text-xs flex items-center gap-1 ${meeting.quorum.terpenuhi ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                <FaUsers className="h-3 w-3" /> {meeting.hadir} / {meeting.quorum.dibutuhkan} hadir untuk kuorum
+              </p>
+            </button>
+          ))}
+        </div>
+
+        <div className="lg:col-span-2">
+          {selectedId ? (
+            <MeetingAttendancePanel
+              meetingId={selectedId}
+              refreshKey={refreshKey}
+              onEdit={openForm}
+              onChanged={loadMeetings}
+            />
+          ) : (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center text-sm text-gray-500 dark:text-gray-400">
+              Pilih rapat untuk mencatat kehadiran
+            </div>
+          )}
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {showForm && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+            onClick={(e) => { if (e.target === e.currentTarget) setShowForm(false) }}
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="w-full max-w-lg bg-white dark:bg-gray-800 rounded-lg shadow-xl p-5 space-y-3"
+            >
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                  {editing ? 'Ubah Rapat' : 'Jadwalkan Rapat'}
+                </h3>
+                <button onClick={() => setShowForm(false)} className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+                  <FaTimes className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="form-group-compact">
+                <label className="form-label">Judul</label>
+                <input
+                  value={draft.judul}
+                  onChange={(e) => setDraft({ ...draft, judul: e.target.value })}
+                  placeholder="mis. RAT Tahun Buku 2026"
+                  className="input focus-ring w-full"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="form-group-compact">
+                  <label className="form-label">Jenis</label>
+                  <select
+                    value={draft.jenis}
+                    onChange={(e) => setDraft({ ...draft, jenis: e.target.value as MeetingType })}
+                    className="select focus-ring w-full"
+                  >
+                    {Object.entries(MEETING_TYPE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="form-group-compact">
+                  <label className="form-label">Kuorum (lebih dari %)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={99}
+                    value={draft.kuorum_persen}
+                    onChange={(e) => setDraft({ ...draft, kuorum_persen: Number(e.target.value) })}
+                    className="input focus-ring w-full"
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="form-group-compact">
+                  <label className="form-label">Waktu</label>
+                  <input
+                    type="datetime-local"
+                    value={draft.tanggal}
+                    onChange={(e) => setDraft({ ...draft, tanggal: e.target.value })}
+                    className="input focus-ring w-full"
+                  />
+                </div>
+                <div className="form-group-compact">
+                  <label className="form-label">Lokasi</label>
+                  <input
+                    value={draft.lokasi}
+                    onChange={(e) => setDraft({ ...draft, lokasi: e.target.value })}
+                    className="input focus-ring w-full"
+                  />
+                </div>
+              </div>
+              <div className="form-group-compact">
+                <label className="form-label">Agenda</label>
+                <textarea
+                  rows={4}
+                  value={draft.agenda}
+                  onChange={(e) => setDraft({ ...draft, agenda: e.target.value })}
+                  placeholder="Satu agenda per baris"
+                  className="input focus-ring w-full"
+                />
+              </div>
+
+              <div className="flex justify-end gap-2 pt-2">
+                <button onClick={() => setShowForm(false)} className="btn btn-secondary">Batal</button>
+                <button onClick={handleSave} disabled={saving} className="btn btn-primary">
+                  {saving ? 'Menyimpan...' : 'Simpan'}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
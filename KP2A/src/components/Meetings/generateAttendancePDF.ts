@@ -0,0 +1,176 @@
+import { jsPDF } from 'jspdf';
+import type { MeetingDetail } from '../../lib/api';
+
+const MEETING_TYPE_LABELS: Record<MeetingDetail['jenis'], string> = {
+    rat: 'Rapat Anggota Tahunan (RAT)',
+    rapat_anggota: 'Rapat Anggota',
+    rapat_luar_biasa: 'Rapat Anggota Luar Biasa'
+};
+
+const formatDateIndonesian = (value: string): string =>
+    new Date(value).toLocaleDateString('id-ID', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+
+const formatTime = (value: string): string =>
+    new Date(value).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' });
+
+// Daftar hadir rapat anggota: attendee list with signature column, quorum statement and
+// signature blocks for the chair and secretary (required for the RAT minutes)
+export const generateAttendancePDF = (meeting: MeetingDetail): void => {
+    const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    const margin = 15;
+    const contentWidth = pageWidth - (margin * 2);
+    const primaryColor: [number, number, number] = [30, 58, 138];
+    const lightGray: [number, number, number] = [245, 245, 245];
+    const rowHeight = 9;
+    let yPos = margin + 5;
+
+    // Column layout: No | No. Anggota | Nama | Jam Hadir | Tanda Tangan
+    const columns = [
+        { title: 'No', width: 10 },
+        { title: 'No. Anggota', width: 30 },
+        { title: 'Nama Anggota', width: 70 },
+        { title: 'Jam Hadir', width: 22 },
+        { title: 'Tanda Tangan', width: contentWidth - 132 }
+    ];
+
+    // Title
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(16);
+    doc.setTextColor(...primaryColor);
+    doc.text('DAFTAR HADIR', pageWidth / 2, yPos, { align: 'center' });
+    yPos += 7;
+    doc.setFontSize(12);
+    doc.text(MEETING_TYPE_LABELS[meeting.jenis].toUpperCase(), pageWidth / 2, yPos, { align: 'center' });
+    yPos += 6;
+    doc.text('KP2A CIMAHI', pageWidth / 2, yPos, { align: 'center' });
+    yPos += 10;
+
+    // Meeting information
+    const info = (label: string, value: string) => {
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(10);
+        doc.setTextColor(0, 0, 0);
+        doc.text(label, margin, yPos);
+        const lines = doc.splitTextToSize(`: ${value}`, contentWidth - 30);
+        doc.text(lines, margin + 30, yPos);
+        yPos += 5 * lines.length + 1;
+    };
+
+    info('Acara', meeting.judul);
+    info('Hari/Tanggal', formatDateIndonesian(meeting.tanggal));
+    info('Waktu', `${formatTime(meeting.tanggal)} WIB`);
+    info('Tempat', meeting.lokasi);
+    if (meeting.agenda) info('Agenda', meeting.agenda.replace(/\r?\n/g, '; '));
+    yPos += 4;
+
+    const drawHeader = () => {
+        doc.setFillColor(...primaryColor);
+        doc.rect(margin, yPos, contentWidth, 8, 'F');
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(9);
+        doc.setTextColor(255, 255, 255);
+        let x = margin;
+        columns.forEach(column => {
+            doc.text(column.title, x + 2, yPos + 5.5);
+            x += column.width;
+        });
+        yPos += 8;
+    };
+
+    drawHeader();
+
+    meeting.attendance.forEach((attendee, index) => {
+        if (yPos + rowHeight > pageHeight - margin) {
+            doc.addPage();
+            yPos = margin;
+            drawHeader();
+        }
+
+        if (index % 2 === 0) {
+            doc.setFillColor(...lightGray);
+            doc.rect(margin, yPos, contentWidth, rowHeight, 'F');
+        }
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(9);
+        doc.setTextColor(0, 0, 0);
+
+        const cells = [
+            String(index + 1),
+            attendee.id_anggota || '-',
+            doc.splitTextToSize(attendee.nama_lengkap, columns[2].width - 4)[0],
+            formatTime(attendee.check_in_at)
+        ];
+        let x = margin;
+        cells.forEach((cell, column) => {
+            doc.text(cell, x + 2, yPos + 6);
+            x += columns[column].width;
+        });
+
+        // Signatures alternate left and right so neighbouring rows do not overlap
+        const signatureX = x + (index % 2 === 0 ? 2 : columns[4].width / 2);
+        doc.text(`${index + 1}. ....................`, signatureX, yPos + 6);
+
+        doc.setDrawColor(220, 220, 220);
+        doc.line(margin, yPos + rowHeight, margin + contentWidth, yPos + rowHeight);
+        yPos += rowHeight;
+    });
+
+    if (meeting.attendance.length === 0) {
+        doc.setFont('helvetica', 'italic');
+        doc.setFontSize(9);
+        doc.setTextColor(100, 100, 100);
+        doc.text('Belum ada anggota yang hadir', pageWidth / 2, yPos + 6, { align: 'center' });
+        yPos += rowHeight;
+    }
+
+    // Quorum statement and signatures need about 70mm
+    if (yPos + 70 > pageHeight - margin) {
+        doc.addPage();
+        yPos = margin;
+    }
+    yPos += 8;
+
+    const quorum = meeting.quorum;
+    doc.setFillColor(...(quorum.terpenuhi ? [200, 230, 200] as [number, number, number] : [255, 220, 220] as [number, number, number]));
+    doc.rect(margin, yPos, contentWidth, 26, 'F');
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor(0, 0, 0);
+    doc.text(`Jumlah anggota aktif: ${quorum.total_anggota} orang`, margin + 3, yPos + 6);
+    doc.text(`Jumlah anggota hadir: ${quorum.hadir} orang (${quorum.persentase_hadir}%)`, margin + 3, yPos + 12);
+    doc.text(`Kuorum (lebih dari ${quorum.kuorum_persen}%): minimal ${quorum.dibutuhkan} orang`, margin + 3, yPos + 18);
+    doc.setFont('helvetica', 'bold');
+    doc.text(
+        quorum.terpenuhi ? 'KUORUM TERPENUHI - RAPAT SAH' : 'KUORUM TIDAK TERPENUHI',
+        margin + contentWidth - 3,
+        yPos + 12,
+        { align: 'right' }
+    );
+    yPos += 36;
+
+    // Signature blocks
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    const leftX = margin + contentWidth / 4;
+    const rightX = margin + (contentWidth * 3) / 4;
+    doc.text(`Cimahi, ${new Date(meeting.tanggal).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' })}`, rightX, yPos, { align: 'center' });
+    yPos += 6;
+    doc.text('Ketua', leftX, yPos, { align: 'center' });
+    doc.text('Sekretaris', rightX, yPos, { align: 'center' });
+    yPos += 25;
+    doc.text('(................................)', leftX, yPos, { align: 'center' });
+    doc.text('(................................)', rightX, yPos, { align: 'center' });
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(100, 100, 100);
+    const status = meeting.status === 'selesai' ? 'Rapat ditutup' : 'Daftar hadir sementara (rapat belum ditutup)';
+    doc.text(`${status} - Dicetak pada: ${new Date().toLocaleString('id-ID')}`, pageWidth / 2, pageHeight - 8, { align: 'center' });
+
+    doc.save(`Daftar_Hadir_${meeting.judul.replace(/[^\w]+/g, '_')}_${new Date(meeting.tanggal).toLocaleDateString('id-ID').replace(/\//g, '-')}.pdf`);
+};
+
+export default generateAttendancePDF;
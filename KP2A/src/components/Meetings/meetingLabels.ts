@@ -0,0 +1,14 @@
+import { MeetingStatus, MeetingType } from '../../lib/api'
+
+export const MEETING_TYPE_LABELS: Record<MeetingType, string> = {
+  rat: 'RAT',
+  rapat_anggota: 'Rapat Anggota',
+  rapat_luar_biasa: 'Rapat Luar Biasa',
+}
+
+export const MEETING_STATUS_BADGES: Record<MeetingStatus, { label: string; className: string }> = {
+  terjadwal: { label: 'Terjadwal', className: 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200' },
+  berlangsung: { label: 'Berlangsung', className: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200' },
+  selesai: { label: 'Selesai', className: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200' },
+  dibatalkan: { label: 'Dibatalkan', className: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300' },
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from 'react'
+import { FaBan, FaIdCard, FaSync } from 'react-icons/fa'
+import toast from 'react-hot-toast'
+import { memberCardsApi, MemberCardRecord } from '../../lib/api'
+import { Member } from '../../types'
+import { useAuth } from '../../contexts/AuthContext'
+import { MemberCard } from '../Portal/MemberCard'
+
+const STATUS_BADGES: Record<MemberCardRecord['status'], { label: string; className: string }> = {
+  aktif: { label: 'Aktif', className: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200' },
+  dicabut: { label: 'Dicabut', className: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200' },
+  diganti: { label: 'Diganti', className: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300' },
+}
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString('id-ID') : '-')
+
+// Signed QR card of a member: preview, reissue and revoke (pengurus), and card history
+export function MemberCardManager({ member }: { member: Member }) {
+  const { user } = useAuth()
+  const canManage = user?.role === 'admin' || user?.role === 'pengurus'
+
+  const [cards, setCards] = useState<MemberCardRecord[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [revoking, setRevoking] = useState(false)
+  const [reason, setReason] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setRevoking(false)
+    memberCardsApi.getByMember(member.id).then(({ data, error }) => {
+      if (cancelled) return
+      if (error) toast.error(error)
+      setCards(data || [])
+      setLoading(false)
+    })
+    return () => { cancelled = true }
+  }, [member.id])
+
+  const active = cards.find(card => card.status === 'aktif') || null
+
+  const handleIssue = async () => {
+    try {
+      setSaving(true)
+      const { error } = await memberCardsApi.issue(member.id)
+      if (error) throw new Error(error)
+
+      const { data } = await memberCardsApi.getByMember(member.id)
+      setCards(data || [])
+      toast.success(active ? 'Kartu diterbitkan ulang, kartu lama dicabut' : 'Kartu anggota diterbitkan')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Gagal menerbitkan kartu anggota')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRevoke = async () => {
+    if (!active) return
+    if (!reason.trim()) {
+      toast.error('Alasan pencabutan wajib diisi')
+      return
+    }
+    try {
+      setSaving(true)
+      const { data, error } = await memberCardsApi.revoke(active.id, reason.trim())
+      if (error) throw new Error(error)
+
+      setCards(data || [])
+      setRevoking(false)
+      setReason('')
+      toast.success(`Kartu ${active.serial} dicabut`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Gagal mencabut kartu anggota')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg text-sm">
+      <div className="px-3 py-2 bg-gray-50 dark:bg-gray-700 flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100">
+          <FaIdCard className="h-4 w-4 text-blue-600" /> Kartu Anggota
+        </span>
+        {canManage && !loading && (
+          <div className="flex items-center gap-2">
+            {active && (
+              <button onClick={() => setRevoking(!revoking)} disabled={saving} className="btn btn-secondary btn-sm gap-1">
+                <FaBan className="h-3 w-3" /> Cabut
+              </button>
+            )}
+            <button
+              onClick={handleIssue}
+              disabled={saving || member.status_keanggotaan !== 'aktif'}
+              className="btn btn-primary btn-sm gap-1"
+              title={member.status_keanggotaan !== 'aktif' ? 'Kartu hanya untuk anggota aktif' : undefined}
+            >
+              <FaSync className="h-3 w-3" /> {active ? 'Terbitkan Ulang' : 'Terbitkan'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="p-3 space-y-3">
+        {revoking && active && (
+          <div className="flex items-center gap-2">
+            <input
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Alasan pencabutan, mis. kartu hilang"
+              className="input focus-ring flex-1"
+            />
+            <button onClick={handleRevoke} disabled={saving} className="btn btn-primary btn-sm">Simpan</button>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-500 dark:text-gray-400">Memuat kartu anggota...</p>
+        ) : (
+          <MemberCard member={member} card={active} />
+        )}
+
+        {cards.length > 0 && (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded">
+            {cards.map(card => (
+              <li key={card.id} className="px-3 py-2 flex items-start justify-between gap-2">
+                <div>
+                  <p className="text-gray-900 dark:text-gray-100">
+                    {card.serial} · {formatDate(card.issued_at)} s.d. {formatDate(card.expires_at)}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {card.issued_by_email ? `Diterbitkan oleh ${card.issued_by_email}` : 'Diterbitkan'}
+                    {card.revoked_at ? ` · ${card.status === 'dicabut' ? 'dicabut' : 'diganti'} ${formatDate(card.revoked_at)}` : ''}
+                    {card.revoke_reason ? ` (${card.revoke_reason})` : ''}
+                  </p>
+                </div>
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGES[card.status].className}`}>
+                  {STATUS_BADGES[card.status].label}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react'
+import { FaUserShield } from 'react-icons/fa'
+import { loanGuaranteesApi, GuarantorExposure } from '../../lib/api'
+import { formatCurrency } from '../../utils/numberFormat'
+
+// Loans a member currently guarantees and the amount at stake
+export function MemberGuaranteeSummary({ memberId }: { memberId: string }) {
+  const [exposure, setExposure] = useState<GuarantorExposure | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setExposure(null)
+    setError(null)
+    loanGuaranteesApi.getMemberExposure(memberId).then(({ data, error }) => {
+      if (cancelled) return
+      if (error) setError(error)
+      else setExposure(data || null)
+    })
+    return () => { cancelled = true }
+  }, [memberId])
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg text-sm">
+      <div className="px-3 py-2 bg-gray-50 dark:bg-gray-700 flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100">
+          <FaUserShield className="h-4 w-4 text-blue-600" /> Penjaminan
+        </span>
+        {exposure && (
+          <span className="text-xs text-gray-600 dark:text-gray-300">
+            {exposure.count}{exposure.limit > 0 ? `/${exposure.limit}` : ''} pinjaman · eksposur <strong>{formatCurrency(exposure.exposure)}</strong>
+          </span>
+        )}
+      </div>
+      {error ? (
+        <p className="px-3 py-2 text-red-600 dark:text-red-400">{error}</p>
+      ) : !exposure ? (
+        <p className="px-3 py-2 text-gray-500 dark:text-gray-400">Memuat data penjaminan...</p>
+      ) : exposure.loans.length === 0 ? (
+        <p className="px-3 py-2 text-gray-500 dark:text-gray-400">Tidak sedang menjamin pinjaman</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {exposure.loans.map(loan => (
+            <li key={loan.id} className="px-3 py-2 flex items-center justify-between gap-2">
+              <div>
+                <p className="text-gray-900 dark:text-gray-100">{loan.borrower_id_anggota ? `${loan.borrower_id_anggota} - ` : ''}{loan.borrower_name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Pinjaman {formatCurrency(Number(loan.jumlah_pinjaman))} · {loan.status}
+                  {loan.guaranteed_amount ? ` · dijamin ${formatCurrency(Number(loan.guaranteed_amount))}` : ''}
+                </p>
+              </div>
+              <span className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(loan.exposure)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -1,11 +1,13 @@
 import React, { useEffect, useMemo, useState } from 'react'
 import { useSearchParams } from 'react-router-dom'
-import { FaPlus, FaSearch, FaFilter, FaPencilAlt, FaTrash, FaTimes, FaCheckCircle, FaExclamationTriangle } from 'react-icons/fa'
+import { FaPlus, FaSearch, FaFilter, FaPencilAlt, FaTrash, FaTimes, FaCheckCircle, FaExclamationTriangle, FaUserShield } from 'react-icons/fa'
 import { Member } from '../../types'
-import { membersApi } from '../../lib/api'
+import { repositories } from '../../lib/repositories'
 import { motion, AnimatePresence } from 'framer-motion'
 import toast from 'react-hot-toast'
 import { MemberForm } from './MemberForm'
+import { MemberGuaranteeSummary } from './MemberGuaranteeSummary'
+import { MemberCardManager } from './MemberCardManager'
 import { useAuth } from '../../contexts/AuthContext'
 import { createWelcomeNotification } from '../../utils/notificationHelpers'
 
@@ -21,6 +23,7 @@ export function MembersPage() {
   const [showForm, setShowForm] = useState(false)
   const [editing, setEditing] = useState<Member | null>(null)
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+  const [profile, setProfile] = useState<Member | null>(null)
   const [page, setPage] = useState(1)
   const [pageSize, setPageSize] = useState(10)
 
@@ -43,7 +46,7 @@ export function MembersPage() {
   const fetchMembers = async () => {
     setLoading(true)
     try {
-      const { data, error } = await membersApi.getAll()
+      const { data, error } = await repositories.members.list()
 
       if (error) {
         throw new Error(error)
@@ -100,7 +103,7 @@ export function MembersPage() {
   const handleCreate = async (payload: Omit<Member, 'id' | 'created_at' | 'updated_at'>) => {
     try {
       console.log('🔄 Creating member:', payload)
-      const { data, error } = await membersApi.create(payload)
+      const { data, error } = await repositories.members.create(payload)
 
       if (error) throw new Error(error)
       if (!data) throw new Error('No data returned')
@@ -144,7 +147,7 @@ export function MembersPage() {
 
       console.log('🔄 Updating member:', { id, payload })
 
-      const { data, error } = await membersApi.update(id, payload)
+      const { data, error } = await repositories.members.update(id, payload)
 
       if (error) throw new Error(error)
       if (!data) throw new Error('No data returned')
@@ -175,7 +178,7 @@ export function MembersPage() {
 
   const handleDelete = async (id: string) => {
     try {
-      const { error } = await membersApi.delete(id)
+      const { error } = await repositories.members.remove(id)
       if (error) throw new Error(error)
 
       setMembers(prev => prev.filter(m => m.id !== id))
@@ -279,6 +282,14 @@ export function MembersPage() {
                     <td className="px-4 py-3 body-small text-secondary">{m?.tanggal_masuk ? new Date(m.tanggal_masuk).toLocaleDateString('id-ID') : '-'}</td>
                     <td className="px-4 py-3 text-right">
                       <div className="inline-flex items-center gap-1">
+                        <button
+                          onClick={() => m && setProfile(m)}
+                          className="p-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                          title="Profil, Kartu & Penjaminan"
+                          disabled={!m}
+                        >
+                          <FaUserShield className="h-4 w-4" />
+                        </button>
                         <button
                           onClick={() => { if (m) { setEditing(m); setShowForm(true) } }}
                           className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded"
@@ -387,6 +398,48 @@ export function MembersPage() {
         )}
       </AnimatePresence>
 
+      {/* Member Profile */}
+      <AnimatePresence>
+        {profile && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+            onClick={() => setProfile(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-full max-w-lg mx-4 max-h-[85vh] overflow-y-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-600">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Profil Anggota</h3>
+                <button onClick={() => setProfile(null)} className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300">
+                  <FaTimes className="h-5 w-5" />
+                </button>
+              </div>
+              <div className="p-4 space-y-4">
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                  <dt className="text-gray-500 dark:text-gray-400">ID Anggota</dt>
+                  <dd className="text-gray-900 dark:text-gray-100">{profile.id_anggota || '-'}</dd>
+                  <dt className="text-gray-500 dark:text-gray-400">Nama Lengkap</dt>
+                  <dd className="text-gray-900 dark:text-gray-100">{profile.nama_lengkap || '-'}</dd>
+                  <dt className="text-gray-500 dark:text-gray-400">No HP</dt>
+                  <dd className="text-gray-900 dark:text-gray-100">{profile.no_hp || '-'}</dd>
+                  <dt className="text-gray-500 dark:text-gray-400">Status</dt>
+                  <dd className="text-gray-900 dark:text-gray-100">{(profile.status_keanggotaan || 'pending').replace('_', ' ')}</dd>
+                </dl>
+                <MemberCardManager member={profile} />
+                <MemberGuaranteeSummary memberId={profile.id} />
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Confirm Delete */}
       <AnimatePresence>
         {confirmDeleteId && (
@@ -0,0 +1,411 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { FaBan, FaCog, FaExclamationTriangle, FaMoneyBillWave, FaSave, FaTimes } from 'react-icons/fa'
+import { motion, AnimatePresence } from 'framer-motion'
+import toast from 'react-hot-toast'
+import { cashBankApi, penaltiesApi, CashBankAccount, Penalty, PenaltyRule, PenaltyTarget } from '../../lib/api'
+import { useAuth } from '../../contexts/AuthContext'
+import { formatCurrency } from '../../utils/numberFormat'
+
+interface PenaltyPanelProps {
+  source: PenaltyTarget
+  // Limit the list to one loan (LoanPaymentsPage filter)
+  loanId?: string
+  // Bump to reload after the parent page records a payment
+  refreshKey?: number
+}
+
+type StatusFilter = 'belum_bayar' | 'lunas' | 'dihapuskan' | 'all'
+
+const STATUS_BADGES: Record<Penalty['status'], { label: string; className: string }> = {
+  belum_bayar: { label: 'Belum Bayar', className: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200' },
+  lunas: { label: 'Lunas', className: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200' },
+  dihapuskan: { label: 'Dihapuskan', className: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300' },
+}
+
+const describeRule = (rule: PenaltyRule) => {
+  if (!rule.is_active) return 'Denda tidak aktif'
+  const amount = rule.method === 'flat'
+    ? `${formatCurrency(rule.rate)} per tagihan`
+    : `${rule.rate}% per hari dari nilai tagihan`
+  const cap = rule.max_amount ? `, maksimal ${formatCurrency(rule.max_amount)}` : ''
+  return `${amount}${cap} setelah tenggang ${rule.grace_days} hari`
+}
+
+const describeBill = (penalty: Penalty) => penalty.source_type === 'loan_schedule'
+  ? `Angsuran ke-${penalty.angsuran_ke ?? '-'}`
+  : `Iuran ${penalty.bulan ?? '-'}/${penalty.tahun ?? '-'}`
+
+export function PenaltyPanel({ source, loanId, refreshKey = 0 }: PenaltyPanelProps) {
+  const { user } = useAuth()
+  const canManage = user?.role === 'admin' || user?.role === 'pengurus'
+
+  const [penalties, setPenalties] = useState<Penalty[]>([])
+  const [rule, setRule] = useState<PenaltyRule | null>(null)
+  const [ruleDraft, setRuleDraft] = useState<PenaltyRule | null>(null)
+  const [accounts, setAccounts] = useState<CashBankAccount[]>([])
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('belum_bayar')
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [paying, setPaying] = useState<Penalty | null>(null)
+  const [payDate, setPayDate] = useState(new Date().toISOString().split('T')[0])
+  const [payAccountId, setPayAccountId] = useState('')
+  const [waiving, setWaiving] = useState<Penalty | null>(null)
+  const [waiveReason, setWaiveReason] = useState('')
+
+  const loadPenalties = useCallback(async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await penaltiesApi.getAll({ source, loan_id: loanId })
+      if (error) throw new Error(error)
+      setPenalties((data || []).map(p => ({ ...p, amount: Number(p.amount || 0), base_amount: Number(p.base_amount || 0) })))
+    } catch (error) {
+      console.error('Error loading penalties:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal memuat data denda')
+    } finally {
+      setLoading(false)
+    }
+  }, [source, loanId])
+
+  const loadRule = useCallback(async () => {
+    const { data, error } = await penaltiesApi.getRules()
+    if (error || !data) return
+    setRule(data[source])
+  }, [source])
+
+  useEffect(() => {
+    loadPenalties()
+  }, [loadPenalties, refreshKey])
+
+  useEffect(() => {
+    loadRule()
+    if (canManage) {
+      cashBankApi.getAccounts().then(({ data }) => setAccounts((data || []).filter(a => a.is_active)))
+    }
+  }, [loadRule, canManage])
+
+  const filtered = useMemo(() => statusFilter === 'all'
+    ? penalties
+    : penalties.filter(p => p.status === statusFilter), [penalties, statusFilter])
+
+  const outstanding = penalties
+    .filter(p => p.status === 'belum_bayar')
+    .reduce((sum, p) => sum + p.amount, 0)
+
+  const handleSaveRule = async () => {
+    if (!ruleDraft) return
+    try {
+      setSaving(true)
+      const { data, error } = await penaltiesApi.saveRule(source, {
+        method: ruleDraft.method,
+        is_active: ruleDraft.is_active,
+        grace_days: Number(ruleDraft.grace_days),
+        rate: Number(ruleDraft.rate),
+        max_amount: ruleDraft.max_amount ? Number(ruleDraft.max_amount) : null,
+        due_day: Number(ruleDraft.due_day),
+      })
+      if (error) throw new Error(error)
+
+      toast.success('Aturan denda disimpan')
+      setRule(data || null)
+      setRuleDraft(null)
+      await loadPenalties()
+    } catch (error) {
+      console.error('Error saving penalty rule:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan aturan denda')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePay = async () => {
+    if (!paying) return
+    try {
+      setSaving(true)
+      const { error } = await penaltiesApi.pay(paying.id, { tanggal: payDate, cash_account_id: payAccountId || undefined })
+      if (error) throw new Error(error)
+
+      toast.success(`Denda ${paying.nama_lengkap} dibayar`)
+      setPaying(null)
+      await loadPenalties()
+    } catch (error) {
+      console.error('Error paying penalty:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal membayar denda')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleWaive = async () => {
+    if (!waiving) return
+    if (!waiveReason.trim()) {
+      toast.error('Alasan penghapusan wajib diisi')
+      return
+    }
+    try {
+      setSaving(true)
+      const { error } = await penaltiesApi.waive(waiving.id, waiveReason.trim())
+      if (error) throw new Error(error)
+
+      toast.success(`Denda ${waiving.nama_lengkap} dihapuskan`)
+      setWaiving(null)
+      setWaiveReason('')
+      await loadPenalties()
+    } catch (error) {
+      console.error('Error waiving penalty:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menghapuskan denda')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-600 overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-600 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <FaExclamationTriangle className="h-4 w-4 text-orange-500" />
+          <div>
+            <h3 className="font-semibold text-gray-900 dark:text-gray-100">
+              Denda Keterlambatan {source === 'loan' ? 'Angsuran' : 'Iuran'}
+            </h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {rule ? describeRule(rule) : 'Memuat aturan denda...'}
+              {' · '}Belum dibayar: <strong>{formatCurrency(outstanding)}</strong>
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            className="border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-lg px-2 py-1 text-sm"
+          >
+            <option value="belum_bayar">Belum Bayar</option>
+            <option value="lunas">Lunas</option>
+            <option value="dihapuskan">Dihapuskan</option>
+            <option value="all">Semua</option>
+          </select>
+          {canManage && rule && (
+            <button
+              onClick={() => setRuleDraft(ruleDraft ? null : { ...rule })}
+              className="btn btn-secondary btn-sm gap-1"
+            >
+              <FaCog className="h-3 w-3" /> Aturan
+            </button>
+          )}
+        </div>
+      </div>
+
+      {ruleDraft && (
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/50 grid grid-cols-2 md:grid-cols-6 gap-3 items-end text-sm">
+          <label className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={ruleDraft.is_active}
+              onChange={(e) => setRuleDraft({ ...ruleDraft, is_active: e.target.checked })}
+            />
+            Aktif
+          </label>
+          <div>
+            <label className="form-label">Metode</label>
+            <select
+              value={ruleDraft.method}
+              onChange={(e) => setRuleDraft({ ...ruleDraft, method: e.target.value as PenaltyRule['method'] })}
+              className="select focus-ring w-full"
+            >
+              <option value="flat">Flat (Rp)</option>
+              <option value="harian">Harian (%)</option>
+            </select>
+          </div>
+          <div>
+            <label className="form-label">{ruleDraft.method === 'flat' ? 'Denda (Rp)' : 'Persen / hari'}</label>
+            <input
+              type="number"
+              step={ruleDraft.method === 'flat' ? '1000' : '0.01'}
+              min="0"
+              value={ruleDraft.rate}
+              onChange={(e) => setRuleDraft({ ...ruleDraft, rate: Number(e.target.value) })}
+              className="input focus-ring w-full"
+            />
+          </div>
+          <div>
+            <label className="form-label">Tenggang (hari)</label>
+            <input
+              type="number"
+              min="0"
+              value={ruleDraft.grace_days}
+              onChange={(e) => setRuleDraft({ ...ruleDraft, grace_days: Number(e.target.value) })}
+              className="input focus-ring w-full"
+            />
+          </div>
+          <div>
+            <label className="form-label">Maksimal (Rp)</label>
+            <input
+              type="number"
+              min="0"
+              value={ruleDraft.max_amount ?? ''}
+              onChange={(e) => setRuleDraft({ ...ruleDraft, max_amount: e.target.value === '' ? null : Number(e.target.value) })}
+              className="input focus-ring w-full"
+              placeholder="Tanpa batas"
+            />
+          </div>
+          {source === 'dues' ? (
+            <div>
+              <label className="form-label">Jatuh tempo (tgl)</label>
+              <input
+                type="number"
+                min="1"
+                max="31"
+                value={ruleDraft.due_day}
+                onChange={(e) => setRuleDraft({ ...ruleDraft, due_day: Number(e.target.value) })}
+                className="input focus-ring w-full"
+              />
+            </div>
+          ) : <div />}
+          <div className="col-span-2 md:col-span-6 flex justify-end">
+            <button onClick={handleSaveRule} disabled={saving} className="btn btn-primary btn-sm gap-1">
+              <FaSave className="h-3 w-3" /> Simpan Aturan
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-600 text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Anggota</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Tagihan</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Jatuh Tempo</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Terlambat</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Denda</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Status</th>
+              {canManage && <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Aksi</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+            {loading ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">Memuat data denda...</td>
+              </tr>
+            ) : filtered.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">Tidak ada denda</td>
+              </tr>
+            ) : filtered.map((penalty) => (
+              <tr key={penalty.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                <td className="px-4 py-2 text-gray-900 dark:text-gray-100">{penalty.nama_lengkap}</td>
+                <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{describeBill(penalty)}</td>
+                <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{new Date(penalty.due_date).toLocaleDateString('id-ID')}</td>
+                <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{penalty.days_late} hari</td>
+                <td className="px-4 py-2 text-right font-medium text-gray-900 dark:text-gray-100">{formatCurrency(penalty.amount)}</td>
+                <td className="px-4 py-2">
+                  <span
+                    className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_BADGES[penalty.status].className}`}
+                    title={penalty.waived_reason ? `Alasan: ${penalty.waived_reason}` : undefined}
+                  >
+                    {STATUS_BADGES[penalty.status].label}
+                  </span>
+                </td>
+                {canManage && (
+                  <td className="px-4 py-2">
+                    {penalty.status === 'belum_bayar' && (
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => { setPaying(penalty); setPayAccountId('') }}
+                          className="p-2 text-green-600 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 rounded"
+                          title="Bayar denda"
+                        >
+                          <FaMoneyBillWave className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => { setWaiving(penalty); setWaiveReason('') }}
+                          className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+                          title="Hapuskan denda"
+                        >
+                          <FaBan className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pay / Waive Dialog */}
+      <AnimatePresence>
+        {(paying || waiving) && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+            onClick={() => { setPaying(null); setWaiving(null) }}
+          >
+            <motion.div
+              initial={{ scale: 0.95, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.95, opacity: 0 }}
+              className="bg-white dark:bg-gray-800 rounded-xl shadow-xl w-[440px] max-w-[95vw]"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200 dark:border-gray-700">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                  {paying ? 'Bayar Denda' : 'Hapuskan Denda'}
+                </h3>
+                <button
+                  onClick={() => { setPaying(null); setWaiving(null) }}
+                  className="p-2 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300"
+                >
+                  <FaTimes className="h-5 w-5" />
+                </button>
+              </div>
+              <div className="p-5 space-y-3">
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  {(paying || waiving)?.nama_lengkap} · {describeBill((paying || waiving) as Penalty)} ·{' '}
+                  <strong>{formatCurrency((paying || waiving)?.amount || 0)}</strong>
+                </p>
+                {paying ? (
+                  <>
+                    <div className="form-group-compact">
+                      <label className="form-label">Tanggal Bayar</label>
+                      <input type="date" value={payDate} onChange={(e) => setPayDate(e.target.value)} className="input focus-ring w-full" />
+                    </div>
+                    <div className="form-group-compact">
+                      <label className="form-label">Diterima di</label>
+                      <select value={payAccountId} onChange={(e) => setPayAccountId(e.target.value)} className="select focus-ring w-full">
+                        <option value="">Kas (tanpa akun kas/bank)</option>
+                        {accounts.map(account => (
+                          <option key={account.id} value={account.id}>{account.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </>
+                ) : (
+                  <div className="form-group-compact">
+                    <label className="form-label">Alasan Penghapusan</label>
+                    <textarea
+                      value={waiveReason}
+                      onChange={(e) => setWaiveReason(e.target.value)}
+                      rows={3}
+                      className="input focus-ring w-full"
+                      placeholder="Contoh: keterlambatan karena sakit, disetujui rapat pengurus"
+                    />
+                  </div>
+                )}
+                <div className="flex justify-end gap-2 pt-2">
+                  <button onClick={() => { setPaying(null); setWaiving(null) }} className="btn btn-secondary">Batal</button>
+                  <button onClick={paying ? handlePay : handleWaive} disabled={saving} className="btn btn-primary">
+                    {saving ? 'Menyimpan...' : paying ? 'Bayar' : 'Hapuskan'}
+                  </button>
+                </div>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react'
+import QRCode from 'qrcode'
+import { MemberCardRecord, PortalProfile } from '../../lib/api'
+
+interface MemberCardProps {
+  member: PortalProfile['member']
+  // Active signed card; without one the card shows no QR
+  card?: MemberCardRecord | null
+}
+
+// Digital member card. The QR carries the signed payload issued by pengurus, verified offline
+// by the scanner (see verifyMemberCard in utils/memberCardVerification).
+export function MemberCard({ member, card }: MemberCardProps) {
+  const [qr, setQr] = useState<string | null>(null)
+  const payload = card?.status === 'aktif' ? card.payload : null
+
+  useEffect(() => {
+    if (!payload) {
+      setQr(null)
+      return
+    }
+    QRCode.toDataURL(payload, { width: 260, margin: 1, errorCorrectionLevel: 'M' })
+      .then(setQr)
+      .catch(() => setQr(null))
+  }, [payload])
+
+  return (
+    <div className="w-full max-w-md rounded-2xl shadow-lg overflow-hidden bg-gradient-to-br from-blue-600 to-blue-800 text-white">
+      <div className="px-5 pt-4 flex items-center gap-3">
+        <img src="/Logo%20KP2A-Fix.png" alt="KP2A Logo" className="h-10 w-10 object-contain bg-white rounded-full p-1" />
+        <div>
+          <p className="text-xs uppercase tracking-wider text-blue-100">Kartu Anggota</p>
+          <p className="font-semibold">SIDARSIH · KP2A</p>
+        </div>
+      </div>
+      <div className="px-5 py-4 flex items-end justify-between gap-4">
+        <div className="space-y-1 min-w-0">
+          <p className="text-lg font-bold truncate">{member.nama_lengkap}</p>
+          <p className="text-sm text-blue-100">{member.id_anggota || '-'}</p>
+          {member.jabatan && <p className="text-xs text-blue-100">{member.jabatan}</p>}
+          <p className="text-xs text-blue-100">
+            Anggota sejak {member.tanggal_masuk ? new Date(member.tanggal_masuk).toLocaleDateString('id-ID') : '-'}
+          </p>
+          <span className={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium ${member.status_keanggotaan === 'aktif' ? 'bg-green-400/90 text-green-950' : 'bg-yellow-300 text-yellow-950'}`}>
+            {member.status_keanggotaan.replace('_', ' ')}
+          </span>
+          {payload && card && (
+            <p className="text-[10px] text-blue-100">
+              No. kartu {card.serial} · berlaku s.d. {new Date(card.expires_at).toLocaleDateString('id-ID')}
+            </p>
+          )}
+        </div>
+        <div className="bg-white rounded-lg p-1.5 flex-shrink-0">
+          {qr ? (
+            <img src={qr} alt="QR verifikasi anggota" className="h-28 w-28" />
+          ) : payload ? (
+            <div className="h-28 w-28 animate-pulse bg-gray-200 rounded" />
+          ) : (
+            <div className="h-28 w-28 flex items-center justify-center text-center text-xs text-gray-500 p-2">
+              Kartu belum diterbitkan
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,394 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import toast from 'react-hot-toast'
+import { FaBell, FaCalendarAlt, FaCoins, FaCreditCard, FaIdCard, FaPiggyBank } from 'react-icons/fa'
+import {
+  MemberCardRecord,
+  portalApi,
+  PortalDue,
+  PortalLoan,
+  PortalProfile,
+  PortalSaving,
+  ShuStatement,
+} from '../../lib/api'
+import { useNotifications } from '../../contexts/NotificationContext'
+import { formatCurrency } from '../../utils/numberFormat'
+import { MemberCard } from './MemberCard'
+import { InstallmentQris } from '../Loans/InstallmentQris'
+
+type TabType = 'ringkasan' | 'iuran' | 'simpanan' | 'pinjaman' | 'shu' | 'notifikasi'
+
+const monthNames = ['Januari', 'Februari', 'Maret', 'April', 'Mei', 'Juni', 'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember']
+
+const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString('id-ID') : '-')
+
+const thClass = 'px-4 py-2 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase'
+const tdClass = 'px-4 py-2 text-gray-700 dark:text-gray-300'
+
+function EmptyRow({ colSpan, text }: { colSpan: number; text: string }) {
+  return (
+    <tr>
+      <td colSpan={colSpan} className="px-4 py-8 text-center text-gray-500 dark:text-gray-400">{text}</td>
+    </tr>
+  )
+}
+
+// Self-service area for anggota: everything shown comes from /api/portal and belongs to the logged-in member
+export function MemberPortalPage() {
+  const { notifications, markAsRead, markAllAsRead } = useNotifications()
+  const [activeTab, setActiveTab] = useState<TabType>('ringkasan')
+  const [profile, setProfile] = useState<PortalProfile | null>(null)
+  const [card, setCard] = useState<MemberCardRecord | null>(null)
+  const [dues, setDues] = useState<PortalDue[]>([])
+  const [savings, setSavings] = useState<PortalSaving[]>([])
+  const [loans, setLoans] = useState<PortalLoan[]>([])
+  const [shu, setShu] = useState<ShuStatement[]>([])
+  const [openLoanId, setOpenLoanId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchAll()
+  }, [])
+
+  const fetchAll = async () => {
+    try {
+      setLoading(true)
+      const [profileRes, cardRes, duesRes, savingsRes, loansRes, shuRes] = await Promise.all([
+        portalApi.getProfile(),
+        portalApi.getCard(),
+        portalApi.getDues(),
+        portalApi.getSavings(),
+        portalApi.getLoans(),
+        portalApi.getShu(),
+      ])
+      if (profileRes.error) throw new Error(profileRes.error)
+
+      setProfile(profileRes.data || null)
+      setCard(cardRes.data || null)
+      setDues(duesRes.data || [])
+      setSavings(savingsRes.data?.transactions || [])
+      setLoans(loansRes.data || [])
+      setShu(shuRes.data || [])
+      setOpenLoanId((loansRes.data || []).find(l => l.status === 'aktif')?.id || null)
+      setError(null)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Gagal memuat data anggota'
+      setError(message)
+      toast.error(message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!profile) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-600 p-8 text-center">
+        <FaIdCard className="h-10 w-10 mx-auto text-gray-400" />
+        <p className="mt-3 font-medium text-gray-900 dark:text-gray-100">Data anggota tidak tersedia</p>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{error || 'Akun Anda belum terhubung dengan data anggota. Hubungi pengurus.'}</p>
+      </div>
+    )
+  }
+
+  const activeLoans = loans.filter(l => l.status === 'aktif')
+  const nextInstallment = activeLoans
+    .map(l => l.next_installment)
+    .filter((row): row is NonNullable<typeof row> => !!row)
+    .sort((a, b) => a.due_date.localeCompare(b.due_date))[0]
+  const unpaidDues = dues.filter(d => d.status !== 'lunas').length
+  const unreadCount = notifications.filter(n => !n.is_read).length
+
+  const tabs = [
+    { id: 'ringkasan' as TabType, name: 'Ringkasan', icon: FaIdCard },
+    { id: 'iuran' as TabType, name: 'Iuran', icon: FaCalendarAlt },
+    { id: 'simpanan' as TabType, name: 'Simpanan', icon: FaPiggyBank },
+    { id: 'pinjaman' as TabType, name: 'Pinjaman', icon: FaCreditCard },
+    { id: 'shu' as TabType, name: 'SHU', icon: FaCoins },
+    { id: 'notifikasi' as TabType, name: `Notifikasi${unreadCount > 0 ? ` (${unreadCount})` : ''}`, icon: FaBell },
+  ]
+
+  const renderSummary = () => (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <MemberCard member={profile.member} card={card} />
+      <div className="grid grid-cols-2 gap-3 content-start">
+        <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-600 p-4">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Simpanan Operasional</p>
+          <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">{formatCurrency(profile.savings.operationalSavings)}</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-600 p-4">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Simpanan Dana Pinjaman</p>
+          <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">{formatCurrency(profile.savings.loanFundSavings)}</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-600 p-4">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Sisa Pinjaman</p>
+          <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            {formatCurrency(activeLoans.reduce((sum, l) => sum + Number(l.sisa_pinjaman || 0), 0))}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{activeLoans.length} pinjaman aktif</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-600 p-4">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Angsuran Berikutnya</p>
+          {nextInstallment ? (
+            <>
+              <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                {formatCurrency(nextInstallment.total - (nextInstallment.paid_pokok || 0) - (nextInstallment.paid_bunga || 0))}
+              </p>
+              <p className={`text-xs ${nextInstallment.due_date < new Date().toISOString().split('T')[0] ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                Jatuh tempo {formatDate(nextInstallment.due_date)}
+              </p>
+            </>
+          ) : (
+            <p className="text-lg font-semibold text-gray-900 dark:text-gray-100">-</p>
+          )}
+        </div>
+        <div className="col-span-2 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-600 p-4 text-sm text-gray-700 dark:text-gray-300 flex items-center justify-between gap-2">
+          <span>{unpaidDues > 0 ? `${unpaidDues} iuran belum lunas` : 'Semua iuran lunas'}</span>
+          <Link to="/loan-applications" className="btn btn-secondary btn-sm">Ajukan Pinjaman</Link>
+        </div>
+      </div>
+    </div>
+  )
+
+  const renderDues = () => (
+    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-600 text-sm">
+      <thead className="bg-gray-50 dark:bg-gray-700">
+        <tr>
+          <th className={`${thClass} text-left`}>Periode</th>
+          <th className={`${thClass} text-right`}>Iuran Wajib</th>
+          <th className={`${thClass} text-right`}>Simpanan Wajib</th>
+          <th className={`${thClass} text-right`}>Sukarela</th>
+          <th className={`${thClass} text-left`}>Tanggal Bayar</th>
+          <th className={`${thClass} text-left`}>Status</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+        {dues.length === 0 ? <EmptyRow colSpan={6} text="Belum ada data iuran" /> : dues.map(d => (
+          <tr key={d.id}>
+            <td className={tdClass}>{monthNames[d.bulan - 1]} {d.tahun}</td>
+            <td className={`${tdClass} text-right`}>{formatCurrency(Number(d.iuran_wajib || 0))}</td>
+            <td className={`${tdClass} text-right`}>{formatCurrency(Number(d.simpanan_wajib || 0))}</td>
+            <td className={`${tdClass} text-right`}>{formatCurrency(Number(d.iuran_sukarela || 0))}</td>
+            <td className={tdClass}>{formatDate(d.tanggal_bayar)}</td>
+            <td className={tdClass}>
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${d.status === 'lunas' ? 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200' : 'bg-orange-100 dark:bg-orange-900 text-orange-800 dark:text-orange-200'}`}>
+                {d.status === 'lunas' ? 'Lunas' : 'Belum Lunas'}
+              </span>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+
+  const renderSavings = () => (
+    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-600 text-sm">
+      <thead className="bg-gray-50 dark:bg-gray-700">
+        <tr>
+          <th className={`${thClass} text-left`}>Tanggal</th>
+          <th className={`${thClass} text-left`}>Jenis</th>
+          <th className={`${thClass} text-left`}>Dana</th>
+          <th className={`${thClass} text-left`}>Keterangan</th>
+          <th className={`${thClass} text-right`}>Jumlah</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+        {savings.length === 0 ? <EmptyRow colSpan={5} text="Belum ada transaksi simpanan" /> : savings.map(s => (
+          <tr key={s.id}>
+            <td className={tdClass}>{formatDate(s.transaction_date)}</td>
+            <td className={tdClass}>{s.type}</td>
+            <td className={tdClass}>{s.fund === 'dana_pinjaman' ? 'Dana Pinjaman' : 'Operasional'}</td>
+            <td className={tdClass}>{s.description || '-'}</td>
+            <td className={`${tdClass} text-right ${s.amount < 0 ? 'text-red-600 dark:text-red-400' : ''}`}>{formatCurrency(s.amount)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+
+  const renderLoans = () => (
+    <div className="divide-y divide-gray-200 dark:divide-gray-600">
+      {loans.length === 0 && <p className="px-4 py-8 text-center text-gray-500 dark:text-gray-400">Belum ada pinjaman</p>}
+      {loans.map(loan => (
+        <div key={loan.id} className="p-4 space-y-3">
+          <button onClick={() => setOpenLoanId(openLoanId === loan.id ? null : loan.id)} className="w-full flex flex-wrap items-center justify-between gap-2 text-left">
+            <div>
+              <p className="font-medium text-gray-900 dark:text-gray-100">
+                {formatCurrency(Number(loan.jumlah_pinjaman))} · {loan.tenor_bulan} bulan · jasa {Number(loan.bunga_persen)}%
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {formatDate(loan.tanggal_pinjaman)} · status {loan.status} · dibayar {formatCurrency(loan.total_dibayar)} dari {formatCurrency(loan.total_bayar)}
+              </p>
+            </div>
+            <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">Sisa {formatCurrency(loan.sisa_tagihan)}</span>
+          </button>
+          {openLoanId === loan.id && loan.status === 'aktif' && loan.next_installment && (
+            <InstallmentQris loanId={loan.id} installment={loan.next_installment} />
+          )}
+          {openLoanId === loan.id && (
+            <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-3 py-1 text-left text-gray-500 dark:text-gray-400">Ke</th>
+                    <th className="px-3 py-1 text-left text-gray-500 dark:text-gray-400">Jatuh Tempo</th>
+                    <th className="px-3 py-1 text-right text-gray-500 dark:text-gray-400">Pokok</th>
+                    <th className="px-3 py-1 text-right text-gray-500 dark:text-gray-400">Jasa</th>
+                    <th className="px-3 py-1 text-right text-gray-500 dark:text-gray-400">Total</th>
+                    <th className="px-3 py-1 text-right text-gray-500 dark:text-gray-400">Dibayar</th>
+                    <th className="px-3 py-1 text-left text-gray-500 dark:text-gray-400">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {loan.schedule.map(row => (
+                    <tr key={row.id || row.angsuran_ke} className="text-gray-700 dark:text-gray-300">
+                      <td className="px-3 py-1">{row.angsuran_ke}</td>
+                      <td className="px-3 py-1">{formatDate(row.due_date)}</td>
+                      <td className="px-3 py-1 text-right">{formatCurrency(row.pokok)}</td>
+                      <td className="px-3 py-1 text-right">{formatCurrency(row.bunga)}</td>
+                      <td className="px-3 py-1 text-right">{formatCurrency(row.total)}</td>
+                      <td className="px-3 py-1 text-right">{formatCurrency((row.paid_pokok || 0) + (row.paid_bunga || 0))}</td>
+                      <td className="px-3 py-1">{(row.status || 'belum_bayar').replace('_', ' ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+
+  const renderShu = () => (
+    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-600 text-sm">
+      <thead className="bg-gray-50 dark:bg-gray-700">
+        <tr>
+          <th className={`${thClass} text-left`}>Tahun</th>
+          <th className={`${thClass} text-right`}>Jasa Modal</th>
+          <th className={`${thClass} text-right`}>Jasa Pinjaman</th>
+          <th className={`${thClass} text-right`}>Total SHU</th>
+          <th className={`${thClass} text-left`}>Pembayaran</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+        {shu.length === 0 ? <EmptyRow colSpan={5} text="Belum ada SHU yang dibagikan" /> : shu.map(s => (
+          <tr key={s.id}>
+            <td className={tdClass}>{s.year}</td>
+            <td className={`${tdClass} text-right`}>
+              {formatCurrency(s.jasa_modal)}
+              <span className="block text-xs text-gray-500 dark:text-gray-400">modal {formatCurrency(s.modal_basis)}</span>
+            </td>
+            <td className={`${tdClass} text-right`}>
+              {formatCurrency(s.jasa_pinjaman)}
+              <span className="block text-xs text-gray-500 dark:text-gray-400">jasa dibayar {formatCurrency(s.interest_basis)}</span>
+            </td>
+            <td className={`${tdClass} text-right font-semibold`}>{formatCurrency(s.total)}</td>
+            <td className={tdClass}>
+              {s.paid_at
+                ? `${s.payout_method === 'simpanan' ? 'Masuk simpanan' : 'Tunai'} · ${formatDate(s.paid_at)}`
+                : 'Belum dibayarkan'}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+
+  const renderNotifications = () => (
+    <div>
+      {unreadCount > 0 && (
+        <div className="px-4 py-2 flex justify-end border-b border-gray-200 dark:border-gray-600">
+          <button onClick={() => markAllAsRead()} className="btn btn-secondary btn-sm">Tandai semua dibaca</button>
+        </div>
+      )}
+      {notifications.length === 0 ? (
+        <p className="px-4 py-8 text-center text-gray-500 dark:text-gray-400">Tidak ada notifikasi</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-600">
+          {notifications.map(n => (
+            <li key={n.id} className={`px-4 py-3 text-sm ${n.is_read ? '' : 'bg-blue-50/60 dark:bg-blue-900/10'}`}>
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-gray-100">{n.title}</p>
+                  <p className="text-gray-700 dark:text-gray-300">{n.message}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{new Date(n.created_at).toLocaleString('id-ID')}</p>
+                </div>
+                {!n.is_read && (
+                  <button onClick={() => markAsRead(n.id)} className="text-xs text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap">
+                    Tandai dibaca
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+
+  const renderContent = () => {
+    switch (activeTab) {
+      case 'iuran':
+        return renderDues()
+      case 'simpanan':
+        return renderSavings()
+      case 'pinjaman':
+        return renderLoans()
+      case 'shu':
+        return renderShu()
+      case 'notifikasi':
+        return renderNotifications()
+      default:
+        return renderSummary()
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-600">
+        <div className="border-b border-gray-200 dark:border-gray-600 overflow-x-auto">
+          <nav className="-mb-px flex space-x-6 px-6" aria-label="Tabs">
+            {tabs.map((tab) => {
+              const isActive = activeTab === tab.id
+              return (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`
+                    group inline-flex items-center py-4 px-1 border-b-2 font-medium text-sm whitespace-nowrap transition-colors
+                    ${isActive
+                      ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+                    }
+                  `}
+                >
+                  <tab.icon className="mr-2 h-4 w-4" />
+                  {tab.name}
+                </button>
+              )
+            })}
+          </nav>
+        </div>
+        <motion.div
+          key={activeTab}
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.2 }}
+          className={activeTab === 'ringkasan' ? 'p-6' : 'overflow-x-auto'}
+        >
+          {renderContent()}
+        </motion.div>
+      </div>
+    </div>
+  )
+}
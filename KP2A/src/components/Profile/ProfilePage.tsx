@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react'
 import { FaUser, FaEnvelope, FaPhone, FaMapMarkerAlt, FaCalendar, FaSave, FaEdit } from 'react-icons/fa'
 import { useAuth } from '../../contexts/AuthContext'
-import { databaseClient, isDatabaseAvailable } from '../../lib/database'
+import { repositories } from '../../lib/repositories'
 import toast from 'react-hot-toast'
 import { motion } from 'framer-motion'
 
@@ -65,56 +65,42 @@ export function ProfilePage() {
 
     setSaving(true)
     try {
-      if (isDatabaseAvailable()) {
-        // Check if member exists
-        if (userProfile?.member?.id) {
-          // Update existing member
-          const { error } = await databaseClient
-            .from('members')
-            .update({
-              nama_lengkap: formData.nama_lengkap,
-              alamat: formData.alamat,
-              no_hp: formData.no_hp
-            })
-            .eq('id', userProfile.member.id)
-            
+      // Check if member exists
+      if (userProfile?.member?.id) {
+        // Update existing member
+        const { error } = await repositories.members.update(userProfile.member.id, {
+          nama_lengkap: formData.nama_lengkap,
+          alamat: formData.alamat,
+          no_hp: formData.no_hp
+        })
 
-          if (error) throw error
-        } else {
-          // Create new member record
-          const { data: newMember, error: memberError } = await databaseClient
-            .from('members')
-            .insert({
-              id_anggota: `${Date.now()}-${user.id.slice(0, 8)}`,
-              nama_lengkap: formData.nama_lengkap,
-              alamat: formData.alamat,
-              no_hp: formData.no_hp,
-              nik: '',
-              jabatan: 'Anggota',
-              tanggal_masuk: new Date().toISOString().split('T')[0],
-              status_keanggotaan: 'aktif'
-            })
-            .select()
-            .single()
+        if (error) throw new Error(error)
+      } else {
+        // Create new member record
+        const { data: newMember, error: memberError } = await repositories.members.create({
+          id_anggota: `${Date.now()}-${user.id.slice(0, 8)}`,
+          nama_lengkap: formData.nama_lengkap,
+          alamat: formData.alamat,
+          no_hp: formData.no_hp,
+          nik: '',
+          jabatan: 'Anggota',
+          tanggal_masuk: new Date().toISOString().split('T')[0],
+          status_keanggotaan: 'aktif'
+        })
 
-          if (memberError) throw memberError
+        if (memberError) throw new Error(memberError)
 
-          // Update users table to link with new member
-          if (newMember) {
-            const { error: userError } = await databaseClient
-              .from('users')
-              .update({ member_id: newMember.id })
-              .eq('id', user.id)
-              
+        // Update users table to link with new member
+        if (newMember) {
+          const { error: userError } = await repositories.users.update(user.id, { member_id: newMember.id })
 
-            if (userError) throw userError
+          if (userError) throw new Error(userError)
 
-            // Update userProfile with new member data
-            setProfileData(prev => prev ? {
-              ...prev,
-              member: newMember
-            } : null)
-          }
+          // Update userProfile with new member data
+          setProfileData(prev => prev ? {
+            ...prev,
+            member: newMember
+          } : null)
         }
       }
 
@@ -9,6 +9,7 @@ import { YearEndProcessing } from './YearEndProcessing'
 import { useAuth } from '../../contexts/AuthContext'
 import { createReportGeneratedNotification } from '../../utils/notificationHelpers'
 import { generateReportPDF } from './generateReportPDF'
+import { BudgetVarianceRow, loadBudgetVariance } from '../../utils/budget'
 
 type ReportType = 'bulanan' | 'triwulan' | 'tahunan'
 
@@ -174,6 +175,15 @@ export function ReportsPage() {
     try {
       toast.loading('Menghasilkan laporan PDF...');
 
+      // Yearly reports get a budget (RAPB) vs actual page; the report still prints without it
+      let budget: BudgetVarianceRow[] | undefined;
+      if (report.tipe_laporan === 'tahunan') {
+        budget = await loadBudgetVariance(new Date(report.periode_end).getFullYear()).catch(error => {
+          console.error('Failed to load budget variance:', error);
+          return undefined;
+        });
+      }
+
       await generateReportPDF(
         {
           id: report.id,
@@ -185,7 +195,8 @@ export function ReportsPage() {
           saldo_akhir: report.saldo_akhir,
           report_data: report.report_data
         },
-        '/Logo KP2A-Fix.png'
+        '/Logo KP2A-Fix.png',
+        budget
       );
 
       toast.dismiss();
@@ -0,0 +1,320 @@
+import { useCallback, useEffect, useState } from 'react'
+import { FaCoins, FaSave, FaCheckCircle, FaFilePdf, FaMoneyBillWave, FaPiggyBank } from 'react-icons/fa'
+import toast from 'react-hot-toast'
+import { shuApi, ShuCalculation, ShuComponent, ShuMemberShare } from '../../lib/api'
+import { formatCurrency } from '../../utils/numberFormat'
+import { generateShuStatementPDF } from './generateShuStatementPDF'
+
+interface ShuDistributionPanelProps {
+  year: number
+}
+
+const normalizeShare = (share: ShuMemberShare): ShuMemberShare => ({
+  ...share,
+  modal_basis: Number(share.modal_basis || 0),
+  interest_basis: Number(share.interest_basis || 0),
+  jasa_modal: Number(share.jasa_modal || 0),
+  jasa_pinjaman: Number(share.jasa_pinjaman || 0),
+  total: Number(share.total || 0)
+})
+
+export function ShuDistributionPanel({ year }: ShuDistributionPanelProps) {
+  const [calculation, setCalculation] = useState<ShuCalculation | null>(null)
+  const [components, setComponents] = useState<ShuComponent[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [payingId, setPayingId] = useState<string | null>(null)
+
+  const loadShu = useCallback(async () => {
+    try {
+      setLoading(true)
+      const { data, error } = await shuApi.calculate(year)
+      if (error) throw new Error(error)
+      if (!data) return
+
+      setCalculation(data)
+      setComponents(data.distribution ? data.distribution.components : data.scheme.components)
+    } catch (error) {
+      console.error('Error loading SHU:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menghitung SHU')
+    } finally {
+      setLoading(false)
+    }
+  }, [year])
+
+  useEffect(() => {
+    loadShu()
+  }, [loadShu])
+
+  const isPosted = !!calculation?.distribution
+  const totalPercent = components.reduce((sum, component) => sum + Number(component.percent || 0), 0)
+  const members = (calculation?.distribution ? calculation.distribution.members : calculation?.members || []).map(normalizeShare)
+  const shuAmount = calculation?.distribution ? Number(calculation.distribution.shu_amount) : calculation?.shu_amount || 0
+
+  const handlePercentChange = (key: string, value: string) => {
+    setComponents(prev => prev.map(component =>
+      component.key === key ? { ...component, percent: Number(value) } : component
+    ))
+  }
+
+  const handleSaveScheme = async () => {
+    if (Math.abs(totalPercent - 100) > 0.001) {
+      toast.error('Total persentase harus 100%')
+      return
+    }
+
+    try {
+      setSaving(true)
+      const { error } = await shuApi.saveScheme(year, components.map(({ key, label, percent, account_code, basis }) => ({ key, label, percent, account_code, basis })))
+      if (error) throw new Error(error)
+
+      toast.success(`Skema SHU tahun ${year} disimpan`)
+      await loadShu()
+    } catch (error) {
+      console.error('Error saving SHU scheme:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan skema SHU')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDistribute = async () => {
+    if (!window.confirm(`Posting pembagian SHU tahun ${year}? Pendapatan dan beban tahun ${year} akan ditutup ke akun alokasi SHU.`)) return
+
+    try {
+      setSaving(true)
+      const { error } = await shuApi.distribute(year)
+      if (error) throw new Error(error)
+
+      toast.success(`Pembagian SHU tahun ${year} berhasil diposting`)
+      await loadShu()
+    } catch (error) {
+      console.error('Error posting SHU distribution:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal memposting pembagian SHU')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePayout = async (share: ShuMemberShare, method: 'tunai' | 'simpanan') => {
+    if (!share.id) return
+    const label = method === 'tunai' ? 'dibayarkan tunai' : 'dibukukan ke Simpanan Sukarela'
+    if (!window.confirm(`SHU ${share.nama_lengkap} sebesar ${formatCurrency(share.total)} akan ${label}. Lanjutkan?`)) return
+
+    try {
+      setPayingId(share.id)
+      const { error } = await shuApi.payout(share.id, { method })
+      if (error) throw new Error(error)
+
+      toast.success(`SHU ${share.nama_lengkap} ${label}`)
+      await loadShu()
+    } catch (error) {
+      console.error('Error paying SHU:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal membayarkan SHU')
+    } finally {
+      setPayingId(null)
+    }
+  }
+
+  const handleStatement = (share: ShuMemberShare) => {
+    generateShuStatementPDF({
+      year,
+      status: isPosted ? 'posted' : 'preview',
+      shu_amount: shuAmount,
+      components: calculation?.distribution ? calculation.distribution.components : calculation?.components || [],
+      share
+    })
+  }
+
+  if (loading && !calculation) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    )
+  }
+
+  if (!calculation) return null
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200">
+        <div className="flex items-center gap-2">
+          <FaCoins className="h-5 w-5 text-green-600" />
+          <h3 className="font-semibold text-gray-900">Sisa Hasil Usaha (SHU) {year}</h3>
+        </div>
+        {isPosted && (
+          <span className="inline-flex items-center gap-1 text-sm text-green-700 bg-green-50 px-3 py-1 rounded-full">
+            <FaCheckCircle className="h-4 w-4" />
+            Sudah diposting
+          </span>
+        )}
+      </div>
+
+      <div className="p-4 space-y-4">
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="bg-gray-50 rounded-lg p-3">
+            <p className="text-sm text-gray-600">Pendapatan</p>
+            <p className="text-lg font-bold text-gray-900">{formatCurrency(calculation.income)}</p>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <p className="text-sm text-gray-600">Beban</p>
+            <p className="text-lg font-bold text-gray-900">{formatCurrency(calculation.expense)}</p>
+          </div>
+          <div className="bg-green-50 rounded-lg p-3">
+            <p className="text-sm text-green-700">SHU Dibagikan</p>
+            <p className="text-lg font-bold text-green-900">{formatCurrency(shuAmount)}</p>
+          </div>
+        </div>
+
+        {/* Allocation scheme */}
+        <div>
+          <h4 className="font-medium text-gray-800 mb-2">
+            Skema Alokasi {calculation.scheme.is_default && !isPosted && <span className="text-xs text-gray-500">(skema default)</span>}
+          </h4>
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Komponen</th>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Dasar Pembagian</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Persentase</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Jumlah</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {components.map((component) => {
+                const allocated = calculation.components.find(c => c.key === component.key)
+                return (
+                  <tr key={component.key}>
+                    <td className="px-3 py-2 text-gray-900">{component.label}</td>
+                    <td className="px-3 py-2 text-gray-500">
+                      {component.basis === 'modal' ? 'Modal & simpanan anggota' : component.basis === 'jasa_pinjaman' ? 'Bunga pinjaman dibayar' : '-'}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {isPosted ? (
+                        `${component.percent}%`
+                      ) : (
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          step={0.5}
+                          value={component.percent}
+                          onChange={(e) => handlePercentChange(component.key, e.target.value)}
+                          className="w-20 border border-gray-300 rounded px-2 py-1 text-right"
+                        />
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right text-gray-900">
+                      {formatCurrency(Number(isPosted ? component.amount : allocated?.amount) || 0)}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+            <tfoot>
+              <tr className={Math.abs(totalPercent - 100) > 0.001 ? 'text-red-600 font-semibold' : 'font-semibold'}>
+                <td className="px-3 py-2" colSpan={2}>Total</td>
+                <td className="px-3 py-2 text-right">{totalPercent}%</td>
+                <td className="px-3 py-2"></td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+
+        {!isPosted && (
+          <div className="flex flex-col sm:flex-row gap-3">
+            <button
+              onClick={handleSaveScheme}
+              disabled={saving}
+              className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              <FaSave className="h-4 w-4" />
+              Simpan Skema &amp; Hitung Ulang
+            </button>
+            <button
+              onClick={handleDistribute}
+              disabled={saving || shuAmount <= 0 || Math.abs(totalPercent - 100) > 0.001}
+              className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <FaCheckCircle className="h-4 w-4" />
+              Posting Pembagian SHU
+            </button>
+          </div>
+        )}
+
+        {/* Member shares */}
+        <div className="overflow-x-auto">
+          <h4 className="font-medium text-gray-800 mb-2">Bagian SHU Anggota</h4>
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-500">Anggota</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Modal &amp; Simpanan</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Bunga Dibayar</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Jasa Modal</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Jasa Pinjaman</th>
+                <th className="px-3 py-2 text-right font-medium text-gray-500">Total</th>
+                <th className="px-3 py-2 text-center font-medium text-gray-500">Aksi</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {members.map((share) => (
+                <tr key={share.member_id}>
+                  <td className="px-3 py-2 text-gray-900">{share.nama_lengkap}</td>
+                  <td className="px-3 py-2 text-right text-gray-600">{formatCurrency(share.modal_basis)}</td>
+                  <td className="px-3 py-2 text-right text-gray-600">{formatCurrency(share.interest_basis)}</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(share.jasa_modal)}</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(share.jasa_pinjaman)}</td>
+                  <td className="px-3 py-2 text-right font-semibold">{formatCurrency(share.total)}</td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center justify-center gap-2">
+                      <button
+                        onClick={() => handleStatement(share)}
+                        title="Rincian SHU (PDF)"
+                        className="p-1 text-red-600 hover:text-red-800"
+                      >
+                        <FaFilePdf className="h-4 w-4" />
+                      </button>
+                      {isPosted && !share.paid_at && (
+                        <>
+                          <button
+                            onClick={() => handlePayout(share, 'tunai')}
+                            disabled={payingId === share.id}
+                            title="Bayar tunai"
+                            className="p-1 text-green-600 hover:text-green-800 disabled:opacity-50"
+                          >
+                            <FaMoneyBillWave className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handlePayout(share, 'simpanan')}
+                            disabled={payingId === share.id}
+                            title="Bukukan ke simpanan"
+                            className="p-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                          >
+                            <FaPiggyBank className="h-4 w-4" />
+                          </button>
+                        </>
+                      )}
+                      {share.paid_at && (
+                        <span className="text-xs text-gray-500">
+                          {share.payout_method === 'simpanan' ? 'Ke simpanan' : 'Dibayar tunai'}
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {members.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-3 py-4 text-center text-gray-500">Belum ada anggota dengan dasar pembagian SHU</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
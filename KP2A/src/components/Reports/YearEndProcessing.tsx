@@ -11,6 +11,7 @@ import {
 } from '../../utils/yearEndProcessing'
 import { Loan } from '../../types'
 import { formatCurrency } from '../../utils/numberFormat'
+import { ShuDistributionPanel } from './ShuDistributionPanel'
 
 interface YearEndProcessingProps {
   onClose: () => void
@@ -113,7 +114,7 @@ export function YearEndProcessing({ onClose }: YearEndProcessingProps) {
             </div>
             <div>
               <h2 className="text-xl font-bold text-gray-900">Proses Akhir Tahun</h2>
-              <p className="text-gray-600">Kelola pinjaman belum lunas dan laporan keuangan</p>
+              <p className="text-gray-600">Kelola pinjaman belum lunas, pembagian SHU dan laporan keuangan</p>
             </div>
           </div>
           <button
@@ -257,6 +258,9 @@ export function YearEndProcessing({ onClose }: YearEndProcessingProps) {
                 </div>
               )}
 
+              {/* SHU */}
+              <ShuDistributionPanel year={selectedYear} />
+
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row gap-3">
                 <button
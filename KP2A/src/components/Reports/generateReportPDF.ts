@@ -1,4 +1,5 @@
 import { jsPDF } from 'jspdf';
+import type { BudgetVarianceRow } from '../../utils/budget';
 
 interface ReportData {
     id: string;
@@ -14,6 +15,7 @@ interface ReportData {
             simpanan_sukarela?: number;
             simpanan_wajib?: number;
             angsuran_pinjaman?: number;
+            denda?: number;
             donasi?: number;
             total?: number;
         };
@@ -31,6 +33,7 @@ interface ReportData {
             harta?: {
                 kas_bank?: number;
                 piutang_pinjaman?: number;
+                lainnya?: number;
                 total?: number;
             };
             kewajiban?: {
@@ -80,7 +83,7 @@ const getPeriodLabel = (tipe: string): string => {
     }
 };
 
-export const generateReportPDF = async (report: ReportData, logoUrl?: string): Promise<void> => {
+export const generateReportPDF = async (report: ReportData, logoUrl?: string, budget?: BudgetVarianceRow[]): Promise<void> => {
     const doc = new jsPDF({
         orientation: 'portrait',
         unit: 'mm',
@@ -194,6 +197,7 @@ export const generateReportPDF = async (report: ReportData, logoUrl?: string): P
         { label: 'Simpanan Sukarela', value: uangMasuk.simpanan_sukarela || 0 },
         { label: 'Simpanan Wajib', value: uangMasuk.simpanan_wajib || 0 },
         { label: 'Angsuran Pinjaman', value: uangMasuk.angsuran_pinjaman || 0 },
+        { label: 'Denda Keterlambatan', value: uangMasuk.denda || 0 },
         { label: 'Donasi', value: uangMasuk.donasi || 0 },
     ]);
 
@@ -418,6 +422,7 @@ export const generateReportPDF = async (report: ReportData, logoUrl?: string): P
     drawSection('HARTA (Apa yang Dimiliki)', [
         { label: 'Kas dan Bank', value: neraca.harta?.kas_bank || 0 },
         { label: 'Piutang Pinjaman Anggota', value: neraca.harta?.piutang_pinjaman || 0 },
+        ...(neraca.harta?.lainnya ? [{ label: 'Harta Lainnya', value: neraca.harta.lainnya }] : []),
     ]);
 
     // Total Harta (big highlight)
@@ -436,9 +441,10 @@ export const generateReportPDF = async (report: ReportData, logoUrl?: string): P
         { label: 'Simpanan Sukarela Anggota', value: neraca.kewajiban?.simpanan_sukarela || 0 },
     ]);
 
-    // MODAL (simplified - no SHU since no interest on loans)
+    // MODAL (SHU tahun berjalan = pendapatan - beban dari buku besar)
     drawSection('MODAL (Modal Tetap Organisasi)', [
         { label: 'Iuran Wajib Anggota', value: neraca.modal?.iuran_wajib || 0 },
+        ...(neraca.modal?.shu ? [{ label: 'SHU Tahun Berjalan', value: neraca.modal.shu }] : []),
     ]);
 
     // Total Kewajiban + Modal
@@ -687,6 +693,137 @@ export const generateReportPDF = async (report: ReportData, logoUrl?: string): P
     doc.text('Laporan ini dibuat secara otomatis oleh Sistem Informasi KP2A Cimahi', pageWidth / 2, pageHeight - 15, { align: 'center' });
     doc.text(`Dicetak pada: ${new Date().toLocaleString('id-ID')}`, pageWidth / 2, pageHeight - 10, { align: 'center' });
 
+    // ==================== PAGE 3: REALISASI ANGGARAN (RAPB) ====================
+    if (budget && budget.length > 0) {
+        doc.addPage();
+        yPos = margin;
+
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(18);
+        doc.setTextColor(...primaryColor);
+        doc.text('REALISASI ANGGARAN', pageWidth / 2, yPos + 5, { align: 'center' });
+        yPos += 12;
+
+        doc.setFontSize(14);
+        doc.text('KP2A CIMAHI', pageWidth / 2, yPos, { align: 'center' });
+        yPos += 8;
+
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(11);
+        doc.setTextColor(0, 0, 0);
+        doc.text(`Tahun Anggaran ${new Date(report.periode_end).getFullYear()}`, pageWidth / 2, yPos, { align: 'center' });
+        yPos += 12;
+
+        // Right edges of the amount columns
+        const budgetX = margin + 100;
+        const actualX = margin + 128;
+        const varianceX = margin + 156;
+        const usageX = margin + contentWidth - 3;
+
+        const drawBudgetHeader = () => {
+            doc.setFillColor(220, 220, 220);
+            doc.rect(margin, yPos, contentWidth, 7, 'F');
+            doc.setFont('helvetica', 'bold');
+            doc.setFontSize(9);
+            doc.setTextColor(0, 0, 0);
+            doc.text('Kategori', margin + 3, yPos + 5);
+            doc.text('Anggaran', budgetX, yPos + 5, { align: 'right' });
+            doc.text('Realisasi', actualX, yPos + 5, { align: 'right' });
+            doc.text('Selisih', varianceX, yPos + 5, { align: 'right' });
+            doc.text('%', usageX, yPos + 5, { align: 'right' });
+            yPos += 7;
+        };
+
+        const ensureSpace = (height: number) => {
+            if (yPos + height > pageHeight - 25) {
+                doc.addPage();
+                yPos = margin;
+                drawBudgetHeader();
+            }
+        };
+
+        const drawBudgetSection = (title: string, rows: BudgetVarianceRow[]) => {
+            ensureSpace(30);
+            doc.setFillColor(...primaryColor);
+            doc.rect(margin, yPos, contentWidth, 8, 'F');
+            doc.setFont('helvetica', 'bold');
+            doc.setFontSize(11);
+            doc.setTextColor(255, 255, 255);
+            doc.text(title, margin + 3, yPos + 5.5);
+            yPos += 8;
+            drawBudgetHeader();
+
+            doc.setFontSize(9);
+            rows.forEach((row, index) => {
+                ensureSpace(7);
+                if (index % 2 === 0) {
+                    doc.setFillColor(...lightGray);
+                    doc.rect(margin, yPos, contentWidth, 7, 'F');
+                }
+                // Spending past its budget is printed in red
+                const overBudget = row.status === 'over';
+                doc.setFont('helvetica', overBudget ? 'bold' : 'normal');
+                doc.setTextColor(...(overBudget ? [200, 0, 0] as [number, number, number] : [0, 0, 0] as [number, number, number]));
+                doc.text(doc.splitTextToSize(row.category_name, 65)[0], margin + 3, yPos + 5);
+                doc.text(formatRupiah(row.budget), budgetX, yPos + 5, { align: 'right' });
+                doc.text(formatRupiah(row.actual), actualX, yPos + 5, { align: 'right' });
+                doc.text(formatRupiah(row.variance), varianceX, yPos + 5, { align: 'right' });
+                doc.text(row.usage === null ? '-' : `${Math.round(row.usage)}%`, usageX, yPos + 5, { align: 'right' });
+                yPos += 7;
+            });
+
+            const totalBudget = rows.reduce((sum, row) => sum + row.budget, 0);
+            const totalActual = rows.reduce((sum, row) => sum + row.actual, 0);
+            const totalVariance = rows.reduce((sum, row) => sum + row.variance, 0);
+            ensureSpace(7);
+            doc.setFillColor(220, 220, 220);
+            doc.rect(margin, yPos, contentWidth, 7, 'F');
+            doc.setFont('helvetica', 'bold');
+            doc.setTextColor(0, 0, 0);
+            doc.text(`TOTAL ${title.slice(3)}`, margin + 3, yPos + 5);
+            doc.text(formatRupiah(totalBudget), budgetX, yPos + 5, { align: 'right' });
+            doc.text(formatRupiah(totalActual), actualX, yPos + 5, { align: 'right' });
+            doc.text(formatRupiah(totalVariance), varianceX, yPos + 5, { align: 'right' });
+            doc.text(totalBudget > 0 ? `${Math.round((totalActual / totalBudget) * 100)}%` : '-', usageX, yPos + 5, { align: 'right' });
+            yPos += 12;
+        };
+
+        const incomeRows = budget.filter(row => row.category_type === 'income');
+        const expenseRows = budget.filter(row => row.category_type === 'expense');
+        if (incomeRows.length > 0) drawBudgetSection('A. PENDAPATAN', incomeRows);
+        if (expenseRows.length > 0) drawBudgetSection(incomeRows.length > 0 ? 'B. BELANJA' : 'A. BELANJA', expenseRows);
+
+        // Categories that went over budget
+        const overruns = expenseRows.filter(row => row.status === 'over');
+        ensureSpace(20 + overruns.length * 6);
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(10);
+        doc.setTextColor(0, 0, 0);
+        doc.text('Catatan:', margin + 3, yPos);
+        yPos += 6;
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(9);
+        if (overruns.length === 0) {
+            doc.text('Seluruh belanja berada dalam batas anggaran yang disahkan rapat anggota.', margin + 3, yPos);
+            yPos += 6;
+        } else {
+            overruns.forEach((row, index) => {
+                const detail = row.budget > 0
+                    ? `melebihi anggaran ${formatRupiah(-row.variance)} (${Math.round(row.usage || 0)}%)`
+                    : `tidak dianggarkan, realisasi ${formatRupiah(row.actual)}`;
+                doc.text(`${index + 1}. ${row.category_name} ${detail}`, margin + 3, yPos);
+                yPos += 6;
+            });
+        }
+        doc.setFontSize(8);
+        doc.setTextColor(...darkGray);
+        doc.text('Selisih positif: belanja di bawah anggaran atau pendapatan di atas target.', margin + 3, yPos + 2);
+
+        // Footer
+        doc.text('Laporan ini dibuat secara otomatis oleh Sistem Informasi KP2A Cimahi', pageWidth / 2, pageHeight - 15, { align: 'center' });
+        doc.text(`Dicetak pada: ${new Date().toLocaleString('id-ID')}`, pageWidth / 2, pageHeight - 10, { align: 'center' });
+    }
+
     // Page numbers
     const totalPages = doc.getNumberOfPages();
     for (let i = 1; i <= totalPages; i++) {
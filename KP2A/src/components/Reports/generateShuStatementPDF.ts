@@ -0,0 +1,86 @@
+import { jsPDF } from 'jspdf';
+import type { ShuComponent, ShuMemberShare } from '../../lib/api';
+
+interface ShuStatementData {
+    year: number;
+    status: 'posted' | 'preview';
+    shu_amount: number;
+    components: ShuComponent[];
+    share: ShuMemberShare;
+}
+
+const formatRupiah = (amount: number): string => {
+    return `Rp ${new Intl.NumberFormat('id-ID', { minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(amount || 0)}`;
+};
+
+// Per-member SHU statement (rincian pembagian SHU anggota)
+export const generateShuStatementPDF = (statement: ShuStatementData): void => {
+    const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a5' });
+
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const margin = 12;
+    const contentWidth = pageWidth - (margin * 2);
+    const primaryColor: [number, number, number] = [30, 58, 138];
+    const share = statement.share;
+    let yPos = margin + 4;
+
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.setTextColor(...primaryColor);
+    doc.text('RINCIAN SHU ANGGOTA', pageWidth / 2, yPos, { align: 'center' });
+    yPos += 6;
+    doc.setFontSize(11);
+    doc.text(`KP2A CIMAHI - TAHUN BUKU ${statement.year}`, pageWidth / 2, yPos, { align: 'center' });
+    yPos += 10;
+
+    const row = (label: string, value: string, bold = false) => {
+        doc.setFont('helvetica', bold ? 'bold' : 'normal');
+        doc.setFontSize(9);
+        doc.setTextColor(0, 0, 0);
+        doc.text(label, margin, yPos);
+        doc.text(value, margin + contentWidth, yPos, { align: 'right' });
+        yPos += 6;
+    };
+
+    row('Nama Anggota', share.nama_lengkap);
+    row('No. Anggota', share.id_anggota || '-');
+    row('Status', statement.status === 'posted' ? 'Sudah diposting' : 'Perhitungan sementara');
+    yPos += 2;
+
+    const modalComponent = statement.components.find(c => c.basis === 'modal');
+    const loanComponent = statement.components.find(c => c.basis === 'jasa_pinjaman');
+
+    doc.setDrawColor(200, 200, 200);
+    doc.line(margin, yPos, margin + contentWidth, yPos);
+    yPos += 6;
+    row('SHU Koperasi', formatRupiah(statement.shu_amount));
+    if (modalComponent) row(`Alokasi ${modalComponent.label} (${modalComponent.percent}%)`, formatRupiah(modalComponent.amount || 0));
+    if (loanComponent) row(`Alokasi ${loanComponent.label} (${loanComponent.percent}%)`, formatRupiah(loanComponent.amount || 0));
+
+    doc.line(margin, yPos, margin + contentWidth, yPos);
+    yPos += 6;
+    row('Modal & Simpanan per 31 Desember', formatRupiah(Number(share.modal_basis)));
+    row(`Bunga Pinjaman Dibayar ${statement.year}`, formatRupiah(Number(share.interest_basis)));
+    yPos += 2;
+    row('Jasa Modal', formatRupiah(Number(share.jasa_modal)));
+    row('Jasa Pinjaman', formatRupiah(Number(share.jasa_pinjaman)));
+
+    doc.setFillColor(200, 230, 200);
+    doc.rect(margin, yPos - 4, contentWidth, 8, 'F');
+    row('TOTAL SHU DITERIMA', formatRupiah(Number(share.total)), true);
+    yPos += 4;
+
+    if (share.paid_at) {
+        const method = share.payout_method === 'simpanan' ? 'dibukukan ke Simpanan Sukarela' : 'dibayarkan tunai';
+        row('Pembayaran', `${method}, ${new Date(share.paid_at).toLocaleDateString('id-ID')}`);
+    }
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(100, 100, 100);
+    doc.text(`Dicetak pada: ${new Date().toLocaleString('id-ID')}`, pageWidth / 2, doc.internal.pageSize.getHeight() - 8, { align: 'center' });
+
+    doc.save(`SHU_${statement.year}_${(share.id_anggota || share.nama_lengkap).replace(/\s+/g, '_')}.pdf`);
+};
+
+export default generateShuStatementPDF;
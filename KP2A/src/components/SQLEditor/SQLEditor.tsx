@@ -1,24 +1,21 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react'
-import Editor from '@monaco-editor/react'
-import { FaPlay, FaSave, FaFolderOpen, FaDownload, FaHistory, FaSun, FaMoon, FaCopy, FaTrash, FaFile, FaDatabase, FaCog, FaSearch, FaUndo, FaCheckCircle, FaExclamationCircle, FaClock } from 'react-icons/fa'
-import { databaseClient, isDatabaseAvailable } from '../../lib/database'
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
+import Editor, { OnMount } from '@monaco-editor/react'
+import { FaPlay, FaSave, FaFolderOpen, FaDownload, FaHistory, FaSun, FaMoon, FaCopy, FaTrash, FaFile, FaDatabase, FaCog, FaSearch, FaUndo, FaCheckCircle, FaExclamationCircle, FaClock, FaShareAlt, FaLock, FaChevronLeft, FaChevronRight } from 'react-icons/fa'
 import { motion, AnimatePresence } from 'framer-motion'
 import toast from 'react-hot-toast'
 import { saveAs } from 'file-saver'
+import Papa from 'papaparse'
+import * as XLSX from 'xlsx'
+import { useAuth } from '../../contexts/AuthContext'
+import type { SavedQuery } from '../../lib/api'
+import { repositories } from '../../lib/repositories'
+import { QUERY_TABLES, QueryResult as EngineResult, runQuery, SqlError } from '../../lib/query'
 
 interface QueryResult {
-  data: any[] | null
+  columns: string[]
+  rows: EngineResult['rows'] | null
   error: string | null
   executionTime: number
-  rowCount: number
-}
-
-interface SavedQuery {
-  id: string
-  name: string
-  query: string
-  createdAt: string
-  lastExecuted?: string
 }
 
 interface QueryHistory {
@@ -30,265 +27,143 @@ interface QueryHistory {
   error?: string
 }
 
-export function SQLEditor() {
-  const [query, setQuery] = useState(`-- Welcome to KP2A Cimahi SQL Editor
--- Supported queries (for security, only basic SELECT operations):
-
--- View all members
-SELECT * FROM members;
+const PAGE_SIZE = 50
 
--- View all dues
-SELECT * FROM dues;
+const DEFAULT_QUERY = `-- Welcome to KP2A Cimahi SQL Editor (read-only)
+-- Tables: ${Object.keys(QUERY_TABLES).join(', ')}
+-- Supported: SELECT, WHERE, [LEFT] JOIN ... ON, GROUP BY, HAVING, ORDER BY, LIMIT/OFFSET
+-- and COUNT, SUM, AVG, MIN, MAX. Select part of the text to run only that query.
 
--- View all loans
-SELECT * FROM loans;
+SELECT m.id_anggota, m.nama_lengkap, COUNT(d.id) AS jumlah_iuran, SUM(d.iuran_wajib) AS total_iuran_wajib
+FROM members m
+LEFT JOIN dues d ON d.member_id = m.id AND d.status = 'lunas'
+WHERE m.status_keanggotaan = 'aktif'
+GROUP BY m.id
+ORDER BY total_iuran_wajib DESC
+LIMIT 100;`
 
--- View all expenses
-SELECT * FROM expenses;
-
--- View all loan payments
-SELECT * FROM loan_payments;
-
--- View members with their dues (JOIN query)
-SELECT * FROM members JOIN dues;`)
+const exportFileName = (extension: string) => `query-results-${Date.now()}.${extension}`
 
+export function SQLEditor() {
+  const { user } = useAuth()
+  const [query, setQuery] = useState(DEFAULT_QUERY)
   const [result, setResult] = useState<QueryResult | null>(null)
+  const [page, setPage] = useState(0)
   const [isExecuting, setIsExecuting] = useState(false)
   const [theme, setTheme] = useState<'light' | 'dark'>('light')
-  const [savedQueries, setSavedQueries] = useState<FaSavedQuery[]>([])
+  const [savedQueries, setSavedQueries] = useState<SavedQuery[]>([])
   const [queryHistory, setQueryHistory] = useState<QueryHistory[]>([])
   const [showSaveDialog, setShowSaveDialog] = useState(false)
   const [showHistoryPanel, setShowHistoryPanel] = useState(false)
   const [showSavedQueries, setShowSavedQueries] = useState(false)
   const [queryName, setQueryName] = useState('')
+  const [shareQuery, setShareQuery] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
   const [isFormatting, setIsFormatting] = useState(false)
 
-  const editorRef = useRef<any>(null)
+  const editorRef = useRef<Parameters<OnMount>[0] | null>(null)
+
+  const loadSavedQueries = useCallback(async () => {
+    const response = await repositories.savedQueries.list()
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+    // Local adapters return every query; only own and shared ones are offered
+    setSavedQueries((response.data || []).filter(saved => saved.created_by === user?.id || Boolean(saved.is_shared)))
+  }, [user?.id])
 
-  // Load saved data from localStorage
   useEffect(() => {
-    const saved = localStorage.getItem('kp2a-saved-queries')
+    loadSavedQueries()
+
     const history = localStorage.getItem('kp2a-query-history')
-    
-    if (saved) {
-      try {
-        setSavedQueries(JSON.parse(saved))
-      } catch (e) {
-        console.warn('Failed to load saved queries')
-      }
-    }
-    
     if (history) {
       try {
         setQueryHistory(JSON.parse(history))
-      } catch (e) {
+      } catch {
         console.warn('Failed to load query history')
       }
     }
-  }, [])
-
-  // Save to localStorage whenever data changes
-  useEffect(() => {
-    localStorage.setItem('kp2a-saved-queries', JSON.stringify(savedQueries))
-  }, [savedQueries])
+  }, [loadSavedQueries])
 
   useEffect(() => {
     localStorage.setItem('kp2a-query-history', JSON.stringify(queryHistory))
   }, [queryHistory])
 
+  // The highlighted text if any, otherwise the whole editor
+  const currentQuery = useCallback(() => {
+    const editor = editorRef.current
+    const selection = editor?.getSelection()
+    const selected = selection && !selection.isEmpty() ? editor?.getModel()?.getValueInRange(selection) : ''
+    return (selected || query).trim()
+  }, [query])
+
   const executeQuery = useCallback(async () => {
-    if (!query.trim()) {
+    const sql = currentQuery()
+    if (!sql) {
       toast.error('Please enter a SQL query')
       return
     }
 
-    // STRICT validation for non-SQL code patterns - BLOCK ALL React/JS code
-    const trimmedQuery = query.trim()
-    
-    // Block extremely long queries (React component code would be much longer)
-    if (trimmedQuery.length > 2000) {
-      toast.error('🚫 BLOCKED: Query terlalu panjang! Kemungkinan bukan SQL. Editor direset.')
-      resetToDefaultQuery()
-      return
-    }
-    
-    // Immediate check for React/JS imports
-    if (trimmedQuery.startsWith('import ') || trimmedQuery.startsWith('export ')) {
-      toast.error('🚫 BLOCKED: Kode React/JS terdeteksi! Gunakan tombol Reset.')
-      resetToDefaultQuery()
-      return
-    }
-    
-    const invalidPatterns = [
-      'import ', 'export ', 'function ', 'const ', 'let ', 'var ',
-      'React', 'useState', 'useEffect', 'useCallback', 'useRef',
-      'return (', '</', 'className=', 'interface ', 'type ',
-      'from \'', 'from "', '=>', '{', '}', 'tsx', 'jsx',
-      'motion', 'AnimatePresence', 'toast', 'saveAs', 'Editor',
-      'lucide-react', 'file-saver', 'monaco-editor'
-    ]
-    
-    const hasInvalidPattern = invalidPatterns.some(pattern => 
-      trimmedQuery.toLowerCase().includes(pattern.toLowerCase())
-    )
-    
-    // Also check if it starts with non-SQL keywords
-    const startsWithInvalid = /^(import|export|function|const|let|var|interface|type)\s/i.test(trimmedQuery)
-    
-    if (hasInvalidPattern || startsWithInvalid) {
-      toast.error('🚫 BLOCKED: Hanya query SQL yang diizinkan! Editor direset otomatis.')
-      resetToDefaultQuery()
-      return
-    }
-    
-    // Additional safety checks for JavaScript/React patterns
-    if (trimmedQuery.includes('{ useState') || 
-        trimmedQuery.includes('useRef') || 
-        trimmedQuery.includes('useCallback') || 
-        trimmedQuery.includes('useEffect') ||
-        trimmedQuery.includes('} from') ||
-        /\{[^}]*\}/g.test(trimmedQuery.replace(/--.*$/gm, '')) // Remove comments first
-    ) {
-      toast.error('🚫 BLOCKED: JavaScript/React syntax terdeteksi! Editor direset.')
-      resetToDefaultQuery()
-      return
-    }
-    
-    // Ensure it contains SQL keywords
-    const sqlKeywords = ['select', 'from', 'where', 'join', 'order', 'group']
-    const hasSqlKeyword = sqlKeywords.some(keyword => 
-      trimmedQuery.toLowerCase().includes(keyword)
-    )
-    
-    if (!hasSqlKeyword && !trimmedQuery.startsWith('--')) {
-      toast.error('❌ Query harus mengandung kata kunci SQL (SELECT, FROM, dll.) atau komentar (--)')
-      return
-    }
-
-    if (!isDatabaseAvailable()) {
-      toast.error('Database connection not available')
-      return
-    }
-
     setIsExecuting(true)
     const startTime = Date.now()
+    let historyEntry: QueryHistory
 
     try {
-      // Parse and execute the query using direct Supabase client methods
-      const trimmedQuery = query.trim().toLowerCase()
-      let data, error
-      
-      if (trimmedQuery.includes('select * from members')) {
-        const result = await databaseClient.from('members').select('*').limit(100)
-        data = result.data
-        error = result.error
-      } else if (trimmedQuery.includes('select * from dues')) {
-        const result = await databaseClient.from('dues').select('*').limit(100)
-        data = result.data
-        error = result.error
-      } else if (trimmedQuery.includes('select * from loans')) {
-        const result = await databaseClient.from('loans').select('*').limit(100)
-        data = result.data
-        error = result.error
-      } else if (trimmedQuery.includes('select * from expenses')) {
-        const result = await databaseClient.from('expenses').select('*').limit(100)
-        data = result.data
-        error = result.error
-      } else if (trimmedQuery.includes('select * from loan_payments')) {
-        const result = await databaseClient.from('loan_payments').select('*').limit(100)
-        data = result.data
-        error = result.error
-      } else if (trimmedQuery.includes('from members') && trimmedQuery.includes('join dues')) {
-        // Handle JOIN queries for members and dues
-        const result = await databaseClient
-          .from('members')
-          .select(`
-            *,
-            dues(*)
-          `)
-          .limit(50)
-          
-        data = result.data
-        error = result.error
-      } else {
-        // For other queries, provide a safe fallback
-        error = { message: 'For security reasons, only basic SELECT queries on main tables (members, dues, loans, expenses, loan_payments) are supported. Use table names directly like: SELECT * FROM members' }
-        data = null
-      }
-
+      const { columns, rows } = await runQuery(sql)
       const executionTime = Date.now() - startTime
-      const historyEntry: QueryHistory = {
-        id: Date.now().toString(),
-        query: query.trim(),
-        executedAt: new Date().toISOString(),
-        executionTime,
-        success: !error,
-        error: error?.message
-      }
-
-      if (error) {
-        setResult({
-          data: null,
-          error: error.message,
-          executionTime,
-          rowCount: 0
-        })
-        toast.error(`Query failed: ${error.message}`)
-      } else {
-        setResult({
-          data: Array.isArray(data) ? data : [data],
-          error: null,
-          executionTime,
-          rowCount: Array.isArray(data) ? data.length : 1
-        })
-        toast.success(`Query executed successfully (${executionTime}ms)`)
+      setResult({ columns, rows, error: null, executionTime })
+      setPage(0)
+      historyEntry = { id: Date.now().toString(), query: sql, executedAt: new Date().toISOString(), executionTime, success: true }
+      toast.success(`Query executed successfully: ${rows.length} rows (${executionTime}ms)`)
+    } catch (error) {
+      const executionTime = Date.now() - startTime
+      const message = error instanceof Error ? error.message : 'Unknown error occurred'
+      setResult({ columns: [], rows: null, error: message, executionTime })
+
+      // Point the cursor at the syntax error
+      const editor = editorRef.current
+      if (error instanceof SqlError && error.position !== undefined && sql === query.trim() && editor) {
+        const offset = query.indexOf(sql) + error.position
+        const position = editor.getModel()?.getPositionAt(offset)
+        if (position) {
+          editor.setPosition(position)
+          editor.revealPositionInCenter(position)
+        }
       }
 
-      // Add to history
-      setQueryHistory(prev => [historyEntry, ...prev.slice(0, 49)]) // Keep last 50 queries
-    } catch (error: any) {
-      const executionTime = Date.now() - startTime
-      setResult({
-        data: null,
-        error: error.message || 'Unknown error occurred',
-        executionTime,
-        rowCount: 0
-      })
-      toast.error(`Execution failed: ${error.message}`)
-
-      // Add failed query to history
-      setQueryHistory(prev => [{
-        id: Date.now().toString(),
-        query: query.trim(),
-        executedAt: new Date().toISOString(),
-        executionTime,
-        success: false,
-        error: error.message
-      }, ...prev.slice(0, 49)])
+      historyEntry = { id: Date.now().toString(), query: sql, executedAt: new Date().toISOString(), executionTime, success: false, error: message }
+      toast.error(message)
     } finally {
       setIsExecuting(false)
     }
-  }, [query])
 
-  const saveQuery = useCallback(() => {
+    setQueryHistory(prev => [historyEntry, ...prev.slice(0, 49)]) // Keep last 50 queries
+  }, [currentQuery, query])
+
+  const saveQuery = useCallback(async () => {
     if (!queryName.trim()) {
       toast.error('Please enter a query name')
       return
     }
 
-    const newQuery: SavedQuery = {
-      id: Date.now().toString(),
+    const response = await repositories.savedQueries.create({
       name: queryName.trim(),
       query: query.trim(),
-      createdAt: new Date().toISOString()
+      is_shared: shareQuery,
+      created_by: user?.id
+    })
+    if (response.error) {
+      toast.error(response.error)
+      return
     }
 
-    setSavedQueries(prev => [newQuery, ...prev])
     setQueryName('')
+    setShareQuery(false)
     setShowSaveDialog(false)
-    toast.success('Query saved successfully')
-  }, [query, queryName])
+    toast.success(shareQuery ? 'Query saved and shared with pengurus' : 'Query saved successfully')
+    loadSavedQueries()
+  }, [query, queryName, shareQuery, user?.id, loadSavedQueries])
 
   const loadQuery = useCallback((savedQuery: SavedQuery) => {
     setQuery(savedQuery.query)
@@ -296,7 +171,27 @@ SELECT * FROM members JOIN dues;`)
     toast.success(`Loaded query: ${savedQuery.name}`)
   }, [])
 
-  const deleteQuery = useCallback((id: string) => {
+  const toggleShare = useCallback(async (savedQuery: SavedQuery) => {
+    const shared = !savedQuery.is_shared
+    const response = await repositories.savedQueries.update(savedQuery.id, {
+      name: savedQuery.name,
+      query: savedQuery.query,
+      is_shared: shared
+    })
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+    toast.success(shared ? 'Query shared with pengurus' : 'Query is now private')
+    loadSavedQueries()
+  }, [loadSavedQueries])
+
+  const deleteQuery = useCallback(async (id: string) => {
+    const response = await repositories.savedQueries.remove(id)
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
     setSavedQueries(prev => prev.filter(q => q.id !== id))
     toast.success('Query deleted')
   }, [])
@@ -316,40 +211,37 @@ SELECT * FROM members JOIN dues;`)
 
       setQuery(formatted)
       toast.success('Query formatted')
-    } catch (error) {
+    } catch {
       toast.error('Failed to format query')
     } finally {
       setIsFormatting(false)
     }
   }, [query])
 
-  const exportResults = useCallback((format: 'csv' | 'json') => {
-    if (!result?.data) {
+  // Exports every result row, not only the page on screen
+  const exportResults = useCallback((format: 'csv' | 'xlsx' | 'json') => {
+    if (!result?.rows || result.rows.length === 0) {
       toast.error('No data to export')
       return
     }
 
     try {
+      const { columns, rows } = result
       if (format === 'csv') {
-        const headers = Object.keys(result.data[0] || {})
-        const csvContent = [
-          headers.join(','),
-          ...result.data.map(row => 
-            headers.map(header => 
-              JSON.stringify(row[header] || '')
-            ).join(',')
-          )
-        ].join('\n')
-
-        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
-        saveAs(blob, `query-results-${Date.now()}.csv`)
+        const csvContent = Papa.unparse({ fields: columns, data: rows.map(row => columns.map(column => row[column])) })
+        saveAs(new Blob(['﻿' + csvContent], { type: 'text/csv;charset=utf-8;' }), exportFileName('csv'))
+      } else if (format === 'xlsx') {
+        const sheet = XLSX.utils.json_to_sheet(rows, { header: columns })
+        const workbook = XLSX.utils.book_new()
+        XLSX.utils.book_append_sheet(workbook, sheet, 'Hasil Query')
+        const content = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' })
+        saveAs(new Blob([content], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), exportFileName('xlsx'))
       } else {
-        const jsonContent = JSON.stringify(result.data, null, 2)
-        const blob = new Blob([jsonContent], { type: 'application/json;charset=utf-8;' })
-        saveAs(blob, `query-results-${Date.now()}.json`)
+        const jsonContent = JSON.stringify(rows, null, 2)
+        saveAs(new Blob([jsonContent], { type: 'application/json;charset=utf-8;' }), exportFileName('json'))
       }
       toast.success(`Results exported as ${format.toUpperCase()}`)
-    } catch (error) {
+    } catch {
       toast.error('Failed to export results')
     }
   }, [result])
@@ -358,71 +250,16 @@ SELECT * FROM members JOIN dues;`)
     try {
       await navigator.clipboard.writeText(text)
       toast.success('Copied to clipboard')
-    } catch (error) {
+    } catch {
       toast.error('Failed to copy to clipboard')
     }
   }, [])
 
   const resetToDefaultQuery = useCallback(() => {
-    const defaultQuery = `-- Welcome to KP2A Cimahi SQL Editor
--- Supported queries (for security, only basic SELECT operations):
-
--- View all members
-SELECT * FROM members;
-
--- View all dues
-SELECT * FROM dues;
-
--- View all loans
-SELECT * FROM loans;
-
--- View all expenses
-SELECT * FROM expenses;
-
--- View all loan payments
-SELECT * FROM loan_payments;
-
--- View members with their dues (JOIN query)
-SELECT * FROM members JOIN dues;`
-    setQuery(defaultQuery)
-    toast.success('✅ Editor direset ke query SQL default')
+    setQuery(DEFAULT_QUERY)
+    toast.success('Editor reset to the example query')
   }, [])
 
-  // Auto-detect and clean non-SQL content immediately
-  useEffect(() => {
-    const checkAndCleanQuery = () => {
-      const trimmedQuery = query.trim()
-      const invalidPatterns = [
-        'import ', 'export ', 'function ', 'const ', 'let ', 'var ',
-        'React', 'useState', 'useEffect', 'useCallback', 'useRef',
-        'return (', '</', 'className=', 'interface ', 'type ',
-        'from \'', 'from "', '=>', 'tsx', 'jsx', 'motion', 'AnimatePresence'
-      ]
-      
-      const hasInvalidPattern = invalidPatterns.some(pattern => 
-        trimmedQuery.toLowerCase().includes(pattern.toLowerCase())
-      )
-      
-      // Immediate reset if React/JS code is detected
-      if (hasInvalidPattern && trimmedQuery.length > 50) {
-        toast.error('🚫 Kode non-SQL terdeteksi! Editor direset otomatis.')
-        resetToDefaultQuery()
-        return
-      }
-      
-      // Also check if it starts with import/export
-      if (trimmedQuery.startsWith('import ') || trimmedQuery.startsWith('export ')) {
-        toast.error('🚫 Kode React/JS terdeteksi! Editor direset otomatis.')
-        resetToDefaultQuery()
-        return
-      }
-    }
-
-    // Check immediately, no delay
-    const timeoutId = setTimeout(checkAndCleanQuery, 100)
-    return () => clearTimeout(timeoutId)
-  }, [query, resetToDefaultQuery])
-
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -452,32 +289,42 @@ SELECT * FROM members JOIN dues;`
     return () => window.removeEventListener('keydown', handleKeyDown)
   }, [executeQuery])
 
-  const handleEditorDidMount = (editor: any) => {
+  const handleEditorDidMount: OnMount = (editor, monaco) => {
     editorRef.current = editor
-    
-    // Configure editor options
-    editor.updateOptions({
-      fontSize: 14,
-      lineHeight: 1.5,
-      minimap: { enabled: false },
-      scrollBeyondLastLine: false,
-      automaticLayout: true,
-      wordWrap: 'on',
-      lineNumbers: 'on',
-      folding: true,
-      bracketMatching: 'always',
-      autoIndent: 'full'
+
+    // Suggest the readable tables and their columns
+    monaco.languages.registerCompletionItemProvider('sql', {
+      provideCompletionItems: (model, position) => {
+        const word = model.getWordUntilPosition(position)
+        const range = { startLineNumber: position.lineNumber, endLineNumber: position.lineNumber, startColumn: word.startColumn, endColumn: word.endColumn }
+        const tables = Object.keys(QUERY_TABLES).map(table => ({
+          label: table, kind: monaco.languages.CompletionItemKind.Struct, insertText: table, range
+        }))
+        const columns = [...new Set(Object.values(QUERY_TABLES).flat())].map(column => ({
+          label: column, kind: monaco.languages.CompletionItemKind.Field, insertText: column, range
+        }))
+        return { suggestions: [...tables, ...columns] }
+      }
     })
   }
 
+  const filteredSavedQueries = useMemo(() => savedQueries.filter(q =>
+    q.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    q.query.toLowerCase().includes(searchTerm.toLowerCase())
+  ), [savedQueries, searchTerm])
+
+  const totalRows = result?.rows?.length || 0
+  const pageCount = Math.max(1, Math.ceil(totalRows / PAGE_SIZE))
+  const pageRows = result?.rows?.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE) || []
+
   return (
     <div className="h-full flex flex-col bg-gray-50">
-      {/* Warning Banner */}
-      <div className="bg-yellow-50 border-l-4 border-yellow-400 p-3">
+      {/* Info Banner */}
+      <div className="bg-blue-50 border-l-4 border-blue-400 p-3">
         <div className="flex items-center">
-          <FaExclamationCircle className="h-4 w-4 text-yellow-600 mr-2" />
-          <p className="text-sm text-yellow-800">
-            <strong>Peringatan:</strong> Hanya query SQL yang diizinkan. Jangan paste kode React/JavaScript ke editor ini.
+          <FaExclamationCircle className="h-4 w-4 text-blue-600 mr-2" />
+          <p className="text-sm text-blue-800">
+            Editor ini hanya membaca data: satu query SELECT per eksekusi, pada tabel {Object.keys(QUERY_TABLES).join(', ')}.
           </p>
         </div>
       </div>
@@ -487,7 +334,7 @@ SELECT * FROM members JOIN dues;`
         <div className="flex items-center space-x-2">
           <button
             onClick={executeQuery}
-             disabled={isExecuting || !isDatabaseAvailable()}
+            disabled={isExecuting}
             className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
           >
             {isExecuting ? (
@@ -548,13 +395,9 @@ SELECT * FROM members JOIN dues;`
             {theme === 'light' ? <FaMoon className="h-4 w-4" /> : <FaSun className="h-4 w-4" />}
           </button>
 
-          <div className={`flex items-center px-2 py-1 rounded-full text-xs ${
-            isDatabaseAvailable() 
-              ? 'bg-green-100 text-green-800' 
-              : 'bg-red-100 text-red-800'
-          }`}>
+          <div className="flex items-center px-2 py-1 rounded-full text-xs bg-green-100 text-green-800">
             <FaDatabase className="h-3 w-3 mr-1" />
-            {isDatabaseAvailable() ? 'Connected' : 'Disconnected'}
+            {repositories.backend}
           </div>
         </div>
       </div>
@@ -580,13 +423,11 @@ SELECT * FROM members JOIN dues;`
                 wordWrap: 'on',
                 lineNumbers: 'on',
                 folding: true,
-                bracketMatching: 'always',
+                matchBrackets: 'always',
                 autoIndent: 'full',
                 suggestOnTriggerCharacters: true,
                 quickSuggestions: true,
-                parameterHints: { enabled: true },
-                formatOnPaste: true,
-                formatOnType: true
+                parameterHints: { enabled: true }
               }}
             />
           </div>
@@ -596,26 +437,18 @@ SELECT * FROM members JOIN dues;`
         <div className="w-1/2 flex flex-col bg-white">
           <div className="flex items-center justify-between p-4 border-b border-gray-200">
             <h3 className="text-lg font-semibold text-gray-900">Query Results</h3>
-            {result && (
+            {result?.rows && result.rows.length > 0 && (
               <div className="flex items-center space-x-2">
-                {result.data && (
-                  <>
-                    <button
-                      onClick={() => exportResults('csv')}
-                      className="flex items-center px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded transition-colors"
-                    >
-                      <FaDownload className="h-3 w-3 mr-1" />
-                      CSV
-                    </button>
-                    <button
-                      onClick={() => exportResults('json')}
-                      className="flex items-center px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded transition-colors"
-                    >
-                      <FaDownload className="h-3 w-3 mr-1" />
-                      JSON
-                    </button>
-                  </>
-                )}
+                {(['csv', 'xlsx', 'json'] as const).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => exportResults(format)}
+                    className="flex items-center px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                  >
+                    <FaDownload className="h-3 w-3 mr-1" />
+                    {format.toUpperCase()}
+                  </button>
+                ))}
               </div>
             )}
           </div>
@@ -638,10 +471,35 @@ SELECT * FROM members JOIN dues;`
                       <FaClock className="h-4 w-4 mr-1" />
                       {result.executionTime}ms
                     </span>
-                    {result.data && (
-                      <span>{result.rowCount} rows</span>
+                    {result.rows && (
+                      <span>{totalRows} rows</span>
                     )}
                   </div>
+
+                  {totalRows > PAGE_SIZE && (
+                    <div className="flex items-center space-x-2">
+                      <span>
+                        {page * PAGE_SIZE + 1}-{Math.min((page + 1) * PAGE_SIZE, totalRows)} of {totalRows}
+                      </span>
+                      <button
+                        onClick={() => setPage(page - 1)}
+                        disabled={page === 0}
+                        className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                        aria-label="Previous page"
+                      >
+                        <FaChevronLeft className="h-3 w-3" />
+                      </button>
+                      <span>{page + 1} / {pageCount}</span>
+                      <button
+                        onClick={() => setPage(page + 1)}
+                        disabled={page >= pageCount - 1}
+                        className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+                        aria-label="Next page"
+                      >
+                        <FaChevronRight className="h-3 w-3" />
+                      </button>
+                    </div>
+                  )}
                 </div>
 
                 {/* Error Display */}
@@ -658,13 +516,13 @@ SELECT * FROM members JOIN dues;`
                 )}
 
                 {/* Results Table */}
-                {result.data && result.data.length > 0 && (
+                {pageRows.length > 0 && (
                   <div className="border border-gray-200 rounded-lg overflow-hidden">
                     <div className="overflow-x-auto">
                       <table className="min-w-full divide-y divide-gray-200">
                         <thead className="bg-gray-50">
                           <tr>
-                            {Object.keys(result.data[0]).map((column) => (
+                            {result.columns.map((column) => (
                               <th
                                 key={column}
                                 className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
@@ -675,18 +533,18 @@ SELECT * FROM members JOIN dues;`
                           </tr>
                         </thead>
                         <tbody className="bg-white divide-y divide-gray-200">
-                          {result.data.map((row, index) => (
-                            <tr key={index} className="hover:bg-gray-50">
-                              {Object.values(row).map((value: any, cellIndex) => (
+                          {pageRows.map((row, index) => (
+                            <tr key={page * PAGE_SIZE + index} className="hover:bg-gray-50">
+                              {result.columns.map((column) => (
                                 <td
-                                  key={cellIndex}
+                                  key={column}
                                   className="px-4 py-3 text-sm text-gray-900 max-w-xs truncate"
-                                  title={String(value)}
+                                  title={String(row[column])}
                                 >
-                                  {value === null ? (
+                                  {row[column] === null ? (
                                     <span className="text-gray-400 italic">NULL</span>
                                   ) : (
-                                    String(value)
+                                    String(row[column])
                                   )}
                                 </td>
                               ))}
@@ -698,7 +556,7 @@ SELECT * FROM members JOIN dues;`
                   </div>
                 )}
 
-                {result.data && result.data.length === 0 && (
+                {result.rows && result.rows.length === 0 && (
                   <div className="text-center py-8 text-gray-500">
                     <FaDatabase className="h-12 w-12 mx-auto mb-4 text-gray-300" />
                     <p>Query executed successfully but returned no results.</p>
@@ -748,6 +606,15 @@ SELECT * FROM members JOIN dues;`
                   if (e.key === 'Escape') setShowSaveDialog(false)
                 }}
               />
+              <label className="flex items-center mt-3 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={shareQuery}
+                  onChange={(e) => setShareQuery(e.target.checked)}
+                  className="mr-2"
+                />
+                Share with all pengurus
+              </label>
               <div className="flex justify-end space-x-3 mt-4">
                 <button
                   onClick={() => setShowSaveDialog(false)}
@@ -802,26 +669,35 @@ SELECT * FROM members JOIN dues;`
               </div>
 
               <div className="flex-1 overflow-auto">
-                {savedQueries.filter(q => 
-                  q.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                  q.query.toLowerCase().includes(searchTerm.toLowerCase())
-                ).length > 0 ? (
+                {filteredSavedQueries.length > 0 ? (
                   <div className="space-y-2">
-                    {savedQueries
-                      .filter(q => 
-                        q.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                        q.query.toLowerCase().includes(searchTerm.toLowerCase())
-                      )
-                      .map((savedQuery) => (
+                    {filteredSavedQueries.map((savedQuery) => {
+                      const isOwner = savedQuery.created_by === user?.id
+                      return (
                         <div
                           key={savedQuery.id}
                           className="p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors"
                         >
                           <div className="flex items-start justify-between">
                             <div className="flex-1">
-                              <h4 className="font-medium text-gray-900">{savedQuery.name}</h4>
+                              <div className="flex items-center space-x-2">
+                                <h4 className="font-medium text-gray-900">{savedQuery.name}</h4>
+                                {savedQuery.is_shared ? (
+                                  <span className="flex items-center px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800">
+                                    <FaShareAlt className="h-3 w-3 mr-1" />
+                                    Shared
+                                  </span>
+                                ) : (
+                                  <span className="flex items-center px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">
+                                    <FaLock className="h-3 w-3 mr-1" />
+                                    Private
+                                  </span>
+                                )}
+                              </div>
                               <p className="text-sm text-gray-500 mt-1">
-                                Created: {new Date(savedQuery.createdAt).toLocaleDateString('id-ID', { day: 'numeric', month: 'numeric', year: 'numeric' })}
+                                {isOwner ? 'Yours' : `By ${savedQuery.created_by_name || savedQuery.created_by_email || 'another pengurus'}`}
+                                {' · '}
+                                {new Date(savedQuery.updated_at || savedQuery.created_at).toLocaleDateString('id-ID', { day: 'numeric', month: 'numeric', year: 'numeric' })}
                               </p>
                               <pre className="text-xs text-gray-600 mt-2 bg-gray-50 p-2 rounded overflow-x-auto">
                                 {savedQuery.query.substring(0, 200)}
@@ -843,17 +719,29 @@ SELECT * FROM members JOIN dues;`
                               >
                                 <FaCopy className="h-4 w-4" />
                               </button>
-                              <button
-                                onClick={() => deleteQuery(savedQuery.id)}
-                                className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
-                                title="Delete Query"
-                              >
-                                <FaTrash className="h-4 w-4" />
-                              </button>
+                              {isOwner && (
+                                <button
+                                  onClick={() => toggleShare(savedQuery)}
+                                  className="p-2 text-gray-600 hover:bg-gray-100 rounded transition-colors"
+                                  title={savedQuery.is_shared ? 'Make private' : 'Share with pengurus'}
+                                >
+                                  {savedQuery.is_shared ? <FaLock className="h-4 w-4" /> : <FaShareAlt className="h-4 w-4" />}
+                                </button>
+                              )}
+                              {(isOwner || user?.role === 'admin') && (
+                                <button
+                                  onClick={() => deleteQuery(savedQuery.id)}
+                                  className="p-2 text-red-600 hover:bg-red-50 rounded transition-colors"
+                                  title="Delete Query"
+                                >
+                                  <FaTrash className="h-4 w-4" />
+                                </button>
+                              )}
                             </div>
                           </div>
                         </div>
-                      ))}
+                      )
+                    })}
                   </div>
                 ) : (
                   <div className="text-center py-8 text-gray-500">
@@ -963,4 +851,4 @@ SELECT * FROM members JOIN dues;`
       </AnimatePresence>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,91 @@
+import React, { useCallback, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { FaTimes } from 'react-icons/fa';
+import BarcodeScanner from './BarcodeScanner';
+import { ScanResult, ScannerError } from '../../types/scanner';
+import { isQrisPayload, parseQris, QrisData } from '../../utils/qris';
+
+interface QrisScanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onScanned: (qris: QrisData) => void;
+  title?: string;
+}
+
+// Payment scanner that only accepts valid QRIS codes and hands the parsed fields to a form
+const QrisScanModal: React.FC<QrisScanModalProps> = ({
+  isOpen,
+  onClose,
+  onScanned,
+  title = 'Scan QRIS'
+}) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleScan = useCallback((result: ScanResult) => {
+    if (!isQrisPayload(result.text)) {
+      setError('Kode yang dipindai bukan QRIS');
+      return;
+    }
+    const qris = parseQris(result.text);
+    if (!qris.isValid || !qris.data) {
+      setError(`QRIS tidak valid: ${qris.errors.join(', ')}`);
+      return;
+    }
+    setError(null);
+    onScanned(qris.data);
+    onClose();
+  }, [onScanned, onClose]);
+
+  const handleError = useCallback((scanError: ScannerError) => {
+    setError(scanError.message);
+  }, []);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-[60]"
+          onClick={(e) => {
+            if (e.target === e.currentTarget) onClose();
+          }}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.95, opacity: 0 }}
+            className="w-full max-w-md bg-white dark:bg-gray-800 rounded-lg shadow-xl p-4 space-y-3"
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{title}</h3>
+              <button
+                type="button"
+                onClick={onClose}
+                className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              >
+                <FaTimes className="h-4 w-4" />
+              </button>
+            </div>
+
+            <BarcodeScanner
+              mode="transaction"
+              onScanSuccess={handleScan}
+              onScanError={handleError}
+            />
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              QRIS statis hanya mengisi data merchant; nominal diisi manual. QRIS dinamis juga mengisi nominal.
+            </p>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default QrisScanModal;
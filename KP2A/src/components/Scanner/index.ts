@@ -3,6 +3,7 @@ export { default as BarcodeScanner } from './BarcodeScanner';
 export { default as CameraPermission } from './CameraPermission';
 export { default as ScannerControls } from './ScannerControls';
 export { default as ScannerErrorBoundary } from './ScannerErrorBoundary';
+export { default as QrisScanModal } from './QrisScanModal';
 
 // Scanner Hooks
 export { useCamera } from './hooks/useCamera';
@@ -0,0 +1,238 @@
+import { useState } from 'react'
+import { FaCheck, FaCloudUploadAlt, FaRedo, FaTimes, FaTrash } from 'react-icons/fa'
+import { motion, AnimatePresence } from 'framer-motion'
+import toast from 'react-hot-toast'
+import type { SyncQueueItem } from '../../lib/indexeddb'
+import { discardItem, replayQueue, resolveConflict, retryItem } from '../../lib/syncQueue'
+
+interface SyncQueueModalProps {
+  open: boolean
+  items: SyncQueueItem[]
+  online: boolean
+  onClose: () => void
+}
+
+const ENTITY_LABELS: Record<SyncQueueItem['entity'], string> = {
+  dues: 'Iuran',
+  loan_payments: 'Angsuran',
+  expenses: 'Buku Kas',
+}
+
+const OPERATION_LABELS: Record<SyncQueueItem['operation'], string> = {
+  create: 'Tambah',
+  update: 'Ubah',
+  delete: 'Hapus',
+}
+
+const STATUS_BADGES: Record<SyncQueueItem['status'], { label: string; className: string }> = {
+  pending: { label: 'Menunggu', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200' },
+  syncing: { label: 'Mengirim', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' },
+  conflict: { label: 'Konflik', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+  failed: { label: 'Gagal', className: 'bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200' },
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  iuran_wajib: 'Iuran wajib',
+  iuran_sukarela: 'Iuran sukarela',
+  simpanan_wajib: 'Simpanan wajib',
+  tanggal_bayar: 'Tanggal bayar',
+  status: 'Status',
+  jumlah_bayar: 'Jumlah bayar',
+  type: 'Jenis',
+  kategori: 'Kategori',
+  deskripsi: 'Deskripsi',
+  jumlah: 'Jumlah',
+  tanggal: 'Tanggal',
+  status_otorisasi: 'Status',
+}
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '-'
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return value.slice(0, 10)
+  return String(value)
+}
+
+// Values are compared loosely: the server returns decimals as strings and dates as timestamps
+const sameValue = (mine: unknown, theirs: unknown) => {
+  if (typeof mine === 'number' || typeof theirs === 'number') return Number(mine) === Number(theirs)
+  return formatValue(mine) === formatValue(theirs)
+}
+
+function ConflictDiff({ item }: { item: SyncQueueItem }) {
+  const server = item.server_record || {}
+  const fields = Object.keys(item.payload).filter(field => field in FIELD_LABELS)
+
+  return (
+    <table className="w-full text-xs mt-2">
+      <thead>
+        <tr className="text-left text-gray-500 dark:text-gray-400">
+          <th className="py-1 pr-2 font-medium">Data</th>
+          <th className="py-1 pr-2 font-medium">Perubahan saya</th>
+          <th className="py-1 font-medium">Di server sekarang</th>
+        </tr>
+      </thead>
+      <tbody>
+        {fields.map(field => {
+          const differs = !sameValue(item.payload[field], server[field])
+          return (
+            <tr key={field} className={differs ? 'bg-red-50 dark:bg-red-900/20' : ''}>
+              <td className="py-1 pr-2 text-gray-600 dark:text-gray-400">{FIELD_LABELS[field]}</td>
+              <td className="py-1 pr-2 text-gray-900 dark:text-gray-100">{formatValue(item.payload[field])}</td>
+              <td className="py-1 text-gray-900 dark:text-gray-100">{formatValue(server[field])}</td>
+            </tr>
+          )
+        })}
+        {item.operation === 'delete' && (
+          <tr>
+            <td colSpan={3} className="py-1 text-gray-600 dark:text-gray-400">
+              Data ini diubah orang lain setelah Anda memutuskan menghapusnya.
+            </td>
+          </tr>
+        )}
+      </tbody>
+    </table>
+  )
+}
+
+export function SyncQueueModal({ open, items, online, onClose }: SyncQueueModalProps) {
+  const [busyId, setBusyId] = useState<number | null>(null)
+  const [syncing, setSyncing] = useState(false)
+
+  const run = async (id: number, action: () => Promise<unknown>) => {
+    try {
+      setBusyId(id)
+      await action()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Gagal memproses antrean')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleSyncNow = async () => {
+    setSyncing(true)
+    const summary = await replayQueue()
+    setSyncing(false)
+    if (summary.offline) {
+      toast.error('Server belum dapat dihubungi')
+    } else if (summary.conflicts > 0 || summary.failed > 0) {
+      toast.error(`${summary.synced} terkirim, ${summary.conflicts} konflik, ${summary.failed} gagal`)
+    } else {
+      toast.success(`${summary.synced} data terkirim`)
+    }
+  }
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+          onClick={(e) => { if (e.target === e.currentTarget) onClose() }}
+        >
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.95, opacity: 0 }}
+            className="w-full max-w-2xl max-h-[85vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-xl p-5 space-y-3"
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Antrean Sinkronisasi</h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Data yang dicatat tanpa koneksi disimpan di perangkat ini dan dikirim otomatis saat server dapat dihubungi.
+                </p>
+              </div>
+              <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300">
+                <FaTimes className="h-4 w-4" />
+              </button>
+            </div>
+
+            {items.length === 0 && (
+              <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">Semua data sudah tersinkron</p>
+            )}
+
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {items.map(item => (
+                <li key={item.id} className="py-3 space-y-1">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                        {OPERATION_LABELS[item.operation]} {ENTITY_LABELS[item.entity]}: {item.label}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Dicatat {new Date(item.created_at).toLocaleString('id-ID')}
+                        {item.attempts > 0 && ` · ${item.attempts}x dicoba`}
+                      </p>
+                    </div>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${STATUS_BADGES[item.status].className}`}>
+                      {STATUS_BADGES[item.status].label}
+                    </span>
+                  </div>
+
+                  {item.error && item.status !== 'pending' && (
+                    <p className="text-xs text-red-600 dark:text-red-400">{item.error}</p>
+                  )}
+
+                  {item.status === 'conflict' && (
+                    <>
+                      <ConflictDiff item={item} />
+                      <div className="flex justify-end gap-2 pt-1">
+                        <button
+                          onClick={() => run(item.id!, () => resolveConflict(item.id!, 'server'))}
+                          disabled={busyId === item.id}
+                          className="btn btn-secondary btn-sm"
+                        >
+                          Pakai data server
+                        </button>
+                        <button
+                          onClick={() => run(item.id!, () => resolveConflict(item.id!, 'mine'))}
+                          disabled={busyId === item.id || !online}
+                          className="btn btn-primary btn-sm gap-1"
+                        >
+                          <FaCheck className="h-3 w-3" /> Pakai perubahan saya
+                        </button>
+                      </div>
+                    </>
+                  )}
+
+                  {item.status === 'failed' && (
+                    <div className="flex justify-end gap-2 pt-1">
+                      <button
+                        onClick={() => run(item.id!, () => discardItem(item.id!))}
+                        disabled={busyId === item.id}
+                        className="btn btn-secondary btn-sm gap-1"
+                      >
+                        <FaTrash className="h-3 w-3" /> Buang
+                      </button>
+                      <button
+                        onClick={() => run(item.id!, () => retryItem(item.id!))}
+                        disabled={busyId === item.id || !online}
+                        className="btn btn-primary btn-sm gap-1"
+                      >
+                        <FaRedo className="h-3 w-3" /> Coba lagi
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <button onClick={onClose} className="btn btn-secondary">Tutup</button>
+              <button
+                onClick={handleSyncNow}
+                disabled={syncing || !online || !items.some(item => item.status === 'pending')}
+                className="btn btn-primary gap-2"
+              >
+                <FaCloudUploadAlt className="h-4 w-4" /> {syncing ? 'Mengirim...' : 'Kirim sekarang'}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react'
+import { FaCloudUploadAlt, FaDatabase, FaExclamationTriangle, FaWifi } from 'react-icons/fa'
+import type { SyncQueueItem } from '../../lib/indexeddb'
+import { startSyncQueue, watchQueue } from '../../lib/syncQueue'
+import { SyncQueueModal } from './SyncQueueModal'
+
+// Connection badge for the header: shows offline state and queued writes, and opens the queue
+export function SyncStatus() {
+  const [items, setItems] = useState<SyncQueueItem[]>([])
+  const [online, setOnline] = useState(() => navigator.onLine)
+  const [open, setOpen] = useState(false)
+
+  useEffect(() => {
+    // The header is only rendered for signed-in users, who are the only ones able to replay
+    startSyncQueue()
+    const unsubscribe = watchQueue(setItems)
+
+    const handleOnline = () => setOnline(true)
+    const handleOffline = () => setOnline(false)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      unsubscribe()
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [])
+
+  const conflicts = items.filter(item => item.status === 'conflict' || item.status === 'failed').length
+  const waiting = items.length - conflicts
+
+  let badge = { className: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200', icon: FaDatabase, label: 'Terkoneksi dengan Server' }
+  if (conflicts > 0) {
+    badge = { className: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200', icon: FaExclamationTriangle, label: `${conflicts} perlu ditinjau` }
+  } else if (!online) {
+    badge = { className: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200', icon: FaWifi, label: waiting > 0 ? `Offline · ${waiting} tersimpan` : 'Offline' }
+  } else if (waiting > 0) {
+    badge = { className: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200', icon: FaCloudUploadAlt, label: `${waiting} menunggu sinkron` }
+  }
+  const Icon = badge.icon
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className={`flex items-center px-2 py-1 rounded-full text-xs ${badge.className}`}
+        aria-label="Status sinkronisasi"
+      >
+        <Icon className="h-3 w-3 mr-1" />
+        <span className={items.length > 0 || !online ? '' : 'hidden sm:inline'}>{badge.label}</span>
+      </button>
+      <SyncQueueModal open={open} items={items} online={online} onClose={() => setOpen(false)} />
+    </>
+  )
+}
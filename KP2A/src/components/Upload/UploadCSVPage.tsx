@@ -23,7 +23,7 @@ import {
 import toast from 'react-hot-toast'
 import Papa from 'papaparse'
 import * as XLSX from 'xlsx'
-import { membersApi, duesApi, loansApi, expensesApi } from '../../lib/api'
+import { repositories } from '../../lib/repositories'
 import { parseIndonesianToISO } from '../../utils/dateFormat'
 
 type CSVDataType = 'members' | 'dues' | 'loans' | 'expenses'
@@ -174,7 +174,7 @@ export function UploadCSVPage() {
       // Create member map for lookup
       let memberMap = new Map<string, string>()
       if (dataType === 'dues' || dataType === 'loans') {
-        const { data: members } = await membersApi.getAll({ limit: 10000 })
+        const { data: members } = await repositories.members.list({ limit: 10000 })
         if (members && members.length > 0) {
           members.forEach((m: any) => {
             if (m.id_anggota) {
@@ -211,7 +211,7 @@ export function UploadCSVPage() {
                 tanggal_masuk: parseIndonesianToISO(item.tanggal_bergabung) || parseIndonesianToISO(''),
                 jabatan: item.jabatan || 'Anggota'
               }
-              await membersApi.create(memberData)
+              await repositories.members.create(memberData)
               successCount++
               break
 
@@ -273,7 +273,7 @@ export function UploadCSVPage() {
                     status: (iuranWajib > 0 ? 'lunas' : 'belum_lunas') as 'lunas' | 'belum_lunas'
                   }
 
-                  const { error: dueError } = await duesApi.create(dueData)
+                  const { error: dueError } = await repositories.dues.create(dueData)
                   if (dueError) {
                     if (!dueError.includes('sudah ada')) {
                       throw new Error(`Bulan ${bulan}: ${dueError}`)
@@ -318,7 +318,7 @@ export function UploadCSVPage() {
                   status: (item.status?.toLowerCase() === 'lunas' ? 'lunas' : 'belum_lunas') as 'lunas' | 'belum_lunas'
                 }
 
-                const { error: dueError } = await duesApi.create(dueData)
+                const { error: dueError } = await repositories.dues.create(dueData)
                 if (dueError) {
                   if (dueError.includes('sudah ada')) throw new Error('Data iuran sudah ada (Duplikat)')
                   throw new Error(dueError)
@@ -365,7 +365,7 @@ export function UploadCSVPage() {
                     item.status?.toLowerCase() === 'ditolak' ? 'ditolak' : 'pending') as 'aktif' | 'lunas' | 'pending' | 'ditolak'
               }
 
-              const { error: loanError } = await loansApi.create(loanData)
+              const { error: loanError } = await repositories.loans.create(loanData)
               if (loanError) {
                 throw new Error(loanError)
               }
@@ -415,7 +415,7 @@ export function UploadCSVPage() {
                 status_otorisasi: 'approved'
               }
 
-              const { error: expenseError } = await expensesApi.create(expenseData)
+              const { error: expenseError } = await repositories.expenses.create(expenseData)
               if (expenseError) {
                 throw new Error(expenseError)
               }
@@ -14,7 +14,9 @@ import {
   FaUserCheck,
   FaUserTimes
 } from 'react-icons/fa'
-import { isDatabaseAvailable, databaseClient } from '../../lib/database'
+import type { Member } from '../../lib/api'
+import { repositories } from '../../lib/repositories'
+import type { WhatsAppVerification as VerificationRecord } from '../../types'
 
 // Safe toast wrapper to prevent "toast is not a function" errors
 const safeToast = {
@@ -68,28 +70,7 @@ const safeToast = {
   }
 }
 
-interface Member {
-  id: string
-  nama_lengkap: string
-  nik: string
-  alamat: string
-  no_hp: string
-  status_keanggotaan: 'aktif' | 'non_aktif' | 'pending'
-  tanggal_masuk: string
-  jabatan: string
-  id_anggota: string
-  created_at: string
-  updated_at: string
-}
-
-interface WhatsAppVerification {
-  id: string
-  phone_number: string
-  member_id: string
-  verification_token: string
-  is_verified: boolean
-  verified_at: string | null
-  created_at: string
+interface WhatsAppVerification extends VerificationRecord {
   member?: Member
 }
 
@@ -106,6 +87,7 @@ const MemberVerification: React.FC<MemberVerificationProps> = ({ onVerificationC
   const [searchQuery, setSearchQuery] = useState('')
   const [searchType, setSearchType] = useState<'phone' | 'member_id' | 'name'>('phone')
   const [searchResults, setSearchResults] = useState<Member[]>([])
+  const [members, setMembers] = useState<Member[]>([])
   
   // Verification states
   const [selectedMember, setSelectedMember] = useState<Member | null>(null)
@@ -118,34 +100,27 @@ const MemberVerification: React.FC<MemberVerificationProps> = ({ onVerificationC
   const [showVerifications, setShowVerifications] = useState(false)
 
   useEffect(() => {
-    checkDatabaseConnection()
     loadVerifications()
   }, [])
 
-  const checkDatabaseConnection = async () => {
-    try {
-      const available = await isDatabaseAvailable()
-      setDatabaseAvailable(available)
-    } catch (error) {
-      console.error('Error checking database:', error)
-      setDatabaseAvailable(false)
-    }
-  }
-
+  // Members are loaded along with the verifications: they are shown with them and searched below
   const loadVerifications = async () => {
-    if (!databaseAvailable) return
-
     try {
-      const { data, error } = await databaseClient
-        .from('whatsapp_verifications')
-        .select(`
-          *,
-          member:members(*)
-        `)
-        .order('created_at', { ascending: false })
-
-      if (error) throw error
-      setVerifications(data || [])
+      const [verificationsResponse, membersResponse] = await Promise.all([
+        repositories.whatsappVerifications.list(),
+        repositories.members.list()
+      ])
+
+      // 501: the data backend does not keep WhatsApp verifications
+      setDatabaseAvailable(verificationsResponse.status !== 501)
+      if (verificationsResponse.error) throw new Error(verificationsResponse.error)
+      if (membersResponse.error) throw new Error(membersResponse.error)
+
+      const memberList = membersResponse.data || []
+      setMembers(memberList)
+      setVerifications((verificationsResponse.data || [])
+        .map(verification => ({ ...verification, member: memberList.find(member => member.id === verification.member_id) }))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at)))
     } catch (error) {
       console.error('Error loading verifications:', error)
       safeToast.error('Gagal memuat data verifikasi')
@@ -160,24 +135,12 @@ const MemberVerification: React.FC<MemberVerificationProps> = ({ onVerificationC
 
     setSearchLoading(true)
     try {
-      let query = databaseClient.from('members').select('*')
-
-      switch (searchType) {
-        case 'phone':
-          query = query.ilike('no_hp', `%${searchQuery}%`)
-          break
-        case 'member_id':
-          query = query.ilike('id_anggota', `%${searchQuery}%`)
-          break
-        case 'name':
-          query = query.ilike('nama_lengkap', `%${searchQuery}%`)
-          break
-      }
-
-      const { data, error } = await query.limit(10)
+      const field = { phone: 'no_hp', member_id: 'id_anggota', name: 'nama_lengkap' }[searchType] as keyof Member
+      const needle = searchQuery.trim().toLowerCase()
 
-      if (error) throw error
-      setSearchResults(data || [])
+      setSearchResults(members
+        .filter(member => String(member[field] || '').toLowerCase().includes(needle))
+        .slice(0, 10))
     } catch (error) {
       console.error('Error searching members:', error)
       safeToast.error('Gagal mencari anggota')
@@ -207,12 +170,8 @@ const MemberVerification: React.FC<MemberVerificationProps> = ({ onVerificationC
     setLoading(true)
     try {
       // Check if verification already exists
-      const { data: existing } = await databaseClient
-        .from('whatsapp_verifications')
-        .select('*')
-        .eq('member_id', selectedMember.id)
-        .eq('phone_number', whatsappNumber)
-        .single()
+      const existing = verifications.find(verification =>
+        verification.member_id === selectedMember.id && verification.phone_number === whatsappNumber)
 
       if (existing) {
         safeToast.error('Verifikasi untuk anggota dan nomor ini sudah ada')
@@ -221,18 +180,14 @@ const MemberVerification: React.FC<MemberVerificationProps> = ({ onVerificationC
 
       const code = generateVerificationCode()
 
-      const { data, error } = await databaseClient
-        .from('whatsapp_verifications')
-        .insert({
-          phone_number: whatsappNumber,
-          member_id: selectedMember.id,
-          verification_token: code,
-          is_verified: false
-        })
-        .select()
-        .single()
+      const { error } = await repositories.whatsappVerifications.create({
+        phone_number: whatsappNumber,
+        member_id: selectedMember.id,
+        verification_token: code,
+        is_verified: false
+      })
 
-      if (error) throw error
+      if (error) throw new Error(error)
 
       safeToast.success(`Kode verifikasi: ${code}`)
       safeToast.success('Kirim kode ini ke WhatsApp anggota')
@@ -259,15 +214,12 @@ const MemberVerification: React.FC<MemberVerificationProps> = ({ onVerificationC
         return
       }
 
-      const { error } = await databaseClient
-        .from('whatsapp_verifications')
-        .update({
-          is_verified: true,
-          verified_at: new Date().toISOString()
-        })
-        .eq('id', verificationId)
+      const { error } = await repositories.whatsappVerifications.update(verificationId, {
+        is_verified: true,
+        verified_at: new Date().toISOString()
+      })
 
-      if (error) throw error
+      if (error) throw new Error(error)
 
       safeToast.success('Verifikasi berhasil!')
       loadVerifications()
@@ -284,12 +236,9 @@ const MemberVerification: React.FC<MemberVerificationProps> = ({ onVerificationC
 
   const deleteVerification = async (verificationId: string) => {
     try {
-      const { error } = await databaseClient
-        .from('whatsapp_verifications')
-        .delete()
-        .eq('id', verificationId)
+      const { error } = await repositories.whatsappVerifications.remove(verificationId)
 
-      if (error) throw error
+      if (error) throw new Error(error)
 
       safeToast.success('Verifikasi dihapus')
       loadVerifications()
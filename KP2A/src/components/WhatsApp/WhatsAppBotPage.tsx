@@ -57,6 +57,7 @@ const safeToast = {
 }
 import {
   FaComment,
+  FaComments,
   FaToggleOn,
   FaToggleOff,
   FaSave,
@@ -80,11 +81,12 @@ import {
   FaExclamationTriangle,
   FaBell
 } from 'react-icons/fa'
-import { isDatabaseAvailable, databaseClient } from '../../lib/database'
+import { repositories } from '../../lib/repositories'
 import whatsappSocketService, { WhatsAppStatus, WhatsAppMessage } from '../../services/whatsapp-socket.service';
 import { browserWhatsAppService } from '../../lib/whatsapp-browser-service';
 import { getTransactionHistory, getTransactionAnalytics, TransactionResult } from '../../utils/financialTransactions';
 import MemberVerification from './MemberVerification'
+import WhatsAppFlowManager from './WhatsAppFlowManager'
 
 
 // Types
@@ -175,7 +177,7 @@ interface AnalyticsData {
 
 const WhatsAppBotPage: React.FC = () => {
   // State management
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'templates' | 'verification' | 'analytics' | 'security'>('dashboard')
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'templates' | 'flows' | 'verification' | 'analytics' | 'security'>('dashboard')
   const [databaseAvailable, setDatabaseAvailable] = useState(false)
   const [loading, setLoading] = useState(true)
   const [isDemoMode, setIsDemoMode] = useState(false)
@@ -268,7 +270,9 @@ const WhatsAppBotPage: React.FC = () => {
     const initializeComponent = async () => {
       try {
         setLoading(true)
-        const dbAvailable = await isDatabaseAvailable()
+        // Without a reachable data backend the settings are kept in this browser
+        const { error: configError } = await repositories.whatsappConfigs.list()
+        const dbAvailable = !configError
         setDatabaseAvailable(dbAvailable)
         
         // Setup event listeners FIRST before connecting
@@ -358,23 +362,14 @@ const WhatsAppBotPage: React.FC = () => {
   // Load bot configuration
   const loadBotConfig = async () => {
     try {
-      const { data: configs, error } = await databaseClient
-        .from('whatsapp_config')
-        .select('*')
-        .limit(1)
-        .single()
+      const { data, error } = await repositories.whatsappConfigs.list()
       
-      if (error && error.code !== 'PGRST116') {
+      if (error) {
         console.error('Error loading bot config:', error)
-        
-        // Handle specific database schema errors
-        if (error.message && error.message.includes('is_connected')) {
-          console.warn('Column is_connected not found, using default value')
-          safeToast.warning('Database schema sedang diperbarui, menggunakan nilai default untuk status koneksi')
-        }
         return
       }
       
+      const configs = data?.[0]
       if (configs) {
         setBotConfig({
           status: configs.status as 'active' | 'inactive',
@@ -415,7 +410,7 @@ const WhatsAppBotPage: React.FC = () => {
   // Load message templates
   const loadTemplates = async () => {
     try {
-      const templatesData = await browserWhatsAppService.getTemplates()
+      const { data: templatesData } = await repositories.messageTemplates.list({ is_active: true })
       
       if (templatesData && templatesData.length > 0) {
         const formattedTemplates: MessageTemplate[] = templatesData.map((template: any) => ({
@@ -858,75 +853,26 @@ const WhatsAppBotPage: React.FC = () => {
           status: botConfig.status,
           phone_number: botConfig.phoneNumber,
           welcome_message: botConfig.welcomeMessage,
-          auto_reply: botConfig.autoReply,
-          updated_at: new Date().toISOString()
+          auto_reply: botConfig.autoReply
         }
         
-        const { data: existingConfig, error: selectError } = await databaseClient
-          .from('whatsapp_config')
-          .select('id')
-          .limit(1)
-          .single()
+        const { data: existingConfigs, error: selectError } = await repositories.whatsappConfigs.list()
         
-        // Handle select errors gracefully
-        if (selectError && selectError.code !== 'PGRST116') {
+        if (selectError) {
           console.error('Error checking existing config:', selectError)
-          safeToast.warning('Database schema belum lengkap, menyimpan ke localStorage')
-          localStorage.setItem('whatsapp_bot_config', JSON.stringify(botConfig))
-          safeToast.success('Konfigurasi bot berhasil disimpan!')
+          safeToast.error('Gagal menyimpan konfigurasi')
           return
         }
         
-        if (existingConfig) {
-          // Support both Supabase client and SQLite adapter
-          const updateBuilder: any = databaseClient
-            .from('whatsapp_config')
-            .update(configData)
-            .eq('id', existingConfig.id)
-          
-          const updateResult = updateBuilder?.execute 
-            ? await updateBuilder.execute() 
-            : await updateBuilder
-          const updateError = updateResult?.error
-          
-          if (updateError) {
-            console.error('Error updating whatsapp_config:', updateError)
-            
-            // Handle specific column errors
-            if (updateError.message && (updateError.message.includes('qr_code') || updateError.message.includes('is_connected') || updateError.message.includes('session_id') || updateError.message.includes('last_activity'))) {
-              safeToast.warning('Database schema belum lengkap, menyimpan ke localStorage')
-              localStorage.setItem('whatsapp_bot_config', JSON.stringify(botConfig))
-              safeToast.success('Konfigurasi bot berhasil disimpan!')
-              return
-            }
-            
-            safeToast.error('Gagal menyimpan konfigurasi (update)')
-            return
-          }
-        } else {
-          const insertBuilder: any = databaseClient
-            .from('whatsapp_config')
-            .insert(configData)
-          
-          const insertResult = insertBuilder?.execute 
-            ? await insertBuilder.execute() 
-            : await insertBuilder
-          const insertError = insertResult?.error
-          
-          if (insertError) {
-            console.error('Error inserting whatsapp_config:', insertError)
-            
-            // Handle specific column errors
-            if (insertError.message && (insertError.message.includes('qr_code') || insertError.message.includes('is_connected') || insertError.message.includes('session_id') || insertError.message.includes('last_activity'))) {
-              safeToast.warning('Database schema belum lengkap, menyimpan ke localStorage')
-              localStorage.setItem('whatsapp_bot_config', JSON.stringify(botConfig))
-              safeToast.success('Konfigurasi bot berhasil disimpan!')
-              return
-            }
-            
-            safeToast.error('Gagal menyimpan konfigurasi (insert)')
-            return
-          }
+        const existingConfig = existingConfigs?.[0]
+        const { error: saveError } = existingConfig
+          ? await repositories.whatsappConfigs.update(existingConfig.id, configData)
+          : await repositories.whatsappConfigs.create(configData)
+        
+        if (saveError) {
+          console.error('Error saving whatsapp_config:', saveError)
+          safeToast.error(`Gagal menyimpan konfigurasi (${existingConfig ? 'update' : 'insert'})`)
+          return
         }
         
         safeToast.success('Konfigurasi bot berhasil disimpan!')
@@ -977,24 +923,14 @@ const WhatsAppBotPage: React.FC = () => {
         content: templateContent,
         category: templateCategory,
         variables: JSON.stringify([]),
-        is_active: true,
-        updated_at: new Date().toISOString()
+        is_active: true
       }
       
       if (databaseAvailable) {
-        if (currentTemplate) {
-          await databaseClient
-            .from('message_templates')
-            .update(templateData)
-            .eq('id', currentTemplate.id)
-        } else {
-          await databaseClient
-            .from('message_templates')
-            .insert({
-              ...templateData,
-              created_at: new Date().toISOString()
-            })
-        }
+        const { error } = currentTemplate
+          ? await repositories.messageTemplates.update(currentTemplate.id, templateData)
+          : await repositories.messageTemplates.create(templateData)
+        if (error) throw new Error(error)
         
         await loadTemplates()
         safeToast.success(`Template ${currentTemplate ? 'diperbarui' : 'ditambahkan'}!`)
@@ -1031,10 +967,8 @@ const WhatsAppBotPage: React.FC = () => {
   const handleDeleteTemplate = async (templateId: string) => {
     try {
       if (databaseAvailable) {
-        await databaseClient
-          .from('message_templates')
-          .delete()
-          .eq('id', templateId)
+        const { error } = await repositories.messageTemplates.remove(templateId)
+        if (error) throw new Error(error)
         
         await loadTemplates()
         safeToast.success('Template berhasil dihapus!')
@@ -1097,14 +1031,11 @@ const WhatsAppBotPage: React.FC = () => {
   const handleVerificationAction = async (verificationId: string, action: 'approve' | 'reject') => {
     try {
       if (databaseAvailable) {
-        await databaseClient
-          .from('whatsapp_verifications')
-          .update({
-            verification_status: action === 'approve' ? 'verified' : 'rejected',
-            verified_at: action === 'approve' ? new Date().toISOString() : null,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', verificationId)
+        const { error } = await repositories.whatsappVerifications.update(verificationId, {
+          is_verified: action === 'approve',
+          verified_at: action === 'approve' ? new Date().toISOString() : null
+        })
+        if (error) throw new Error(error)
         
         await loadVerifications()
         safeToast.success(`Verifikasi ${action === 'approve' ? 'disetujui' : 'ditolak'}!`)
@@ -1180,6 +1111,7 @@ const WhatsAppBotPage: React.FC = () => {
           {[
             { id: 'dashboard', label: 'Dashboard', icon: FaCog },
             { id: 'templates', label: 'Template Pesan', icon: FaComment },
+            { id: 'flows', label: 'Alur Percakapan', icon: FaComments },
             { id: 'verification', label: 'Verifikasi Anggota', icon: FaUsers },
             { id: 'analytics', label: 'Analytics', icon: FaChartBar },
             { id: 'security', label: 'Keamanan', icon: FaShieldAlt }
@@ -1635,6 +1567,17 @@ const WhatsAppBotPage: React.FC = () => {
           </motion.div>
         )}
 
+        {activeTab === 'flows' && (
+          <motion.div
+            key="flows"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+          >
+            <WhatsAppFlowManager />
+          </motion.div>
+        )}
+
         {activeTab === 'verification' && (
           <motion.div
             key="verification"
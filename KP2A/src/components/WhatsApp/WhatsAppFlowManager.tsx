@@ -0,0 +1,425 @@
+import { useEffect, useState } from 'react'
+import { FaCopy, FaEdit, FaPause, FaPlay, FaPlus, FaSave, FaTimes, FaTrash } from 'react-icons/fa'
+import toast from 'react-hot-toast'
+import { Card } from '../UI/Card'
+import { LoadingSpinner } from '../UI/LoadingSpinner'
+import { repositories } from '../../lib/repositories'
+import { activeFlows, BUILTIN_FLOWS, validateFlow } from '../../services/whatsappConversation'
+import type { ConversationFlow, FlowSubmission } from '../../types/whatsappFlows'
+import { formatToIndonesian } from '../../utils/dateFormat'
+
+interface FlowForm {
+  trigger: string
+  title: string
+  description: string
+  timeout_minutes: string
+  confirm: boolean
+  requires_member: boolean
+  admin_only: boolean
+  // Edited as JSON so any combination of steps can be defined without a form per step type
+  steps: string
+  action: string
+}
+
+const SUBMISSION_STATUS_LABELS: Record<FlowSubmission['status'], string> = {
+  baru: 'Baru',
+  diproses: 'Diproses',
+  selesai: 'Selesai'
+}
+
+const emptyForm = (): FlowForm => ({
+  trigger: '/',
+  title: '',
+  description: '',
+  timeout_minutes: '10',
+  confirm: true,
+  requires_member: true,
+  admin_only: false,
+  steps: JSON.stringify([{ id: 'jawaban', type: 'text', label: 'Jawaban', prompt: 'Tulis jawaban Anda' }], null, 2),
+  action: JSON.stringify({ type: 'submission' }, null, 2)
+})
+
+const formFromFlow = (flow: ConversationFlow): FlowForm => ({
+  trigger: flow.trigger,
+  title: flow.title,
+  description: flow.description || '',
+  timeout_minutes: String(flow.timeout_minutes),
+  confirm: flow.confirm,
+  requires_member: flow.requires_member,
+  admin_only: flow.admin_only,
+  steps: JSON.stringify(flow.steps, null, 2),
+  action: JSON.stringify(flow.action, null, 2)
+})
+
+const parseJson = (label: string, text: string): { value?: unknown; error?: string } => {
+  try {
+    return { value: JSON.parse(text) }
+  } catch {
+    return { error: `${label} bukan JSON yang valid` }
+  }
+}
+
+export default function WhatsAppFlowManager() {
+  const [flows, setFlows] = useState<ConversationFlow[]>([])
+  const [submissions, setSubmissions] = useState<FlowSubmission[]>([])
+  const [loading, setLoading] = useState(true)
+  const [unavailable, setUnavailable] = useState<string | null>(null)
+  const [form, setForm] = useState<FlowForm | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const loadData = async () => {
+    setLoading(true)
+    try {
+      const [flowResponse, submissionResponse] = await Promise.all([
+        repositories.whatsappFlows.list(),
+        repositories.whatsappFlowSubmissions.list()
+      ])
+      if (flowResponse.status === 501) {
+        setUnavailable(flowResponse.error || null)
+        return
+      }
+      if (flowResponse.error) throw new Error(flowResponse.error)
+      if (submissionResponse.error) throw new Error(submissionResponse.error)
+      setFlows((flowResponse.data || []).sort((a, b) => a.trigger.localeCompare(b.trigger)))
+      setSubmissions((submissionResponse.data || []).sort((a, b) => b.created_at.localeCompare(a.created_at)))
+    } catch (error) {
+      console.error('Failed to load WhatsApp flows:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal memuat alur percakapan')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const updateForm = (changes: Partial<FlowForm>) => setForm(current => (current ? { ...current, ...changes } : current))
+
+  const openForm = (flow?: ConversationFlow, copy = false) => {
+    setForm(flow ? formFromFlow(flow) : emptyForm())
+    setEditingId(flow && !copy ? flow.id : null)
+    setErrors([])
+  }
+
+  const closeForm = () => {
+    setForm(null)
+    setEditingId(null)
+    setErrors([])
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+    const steps = parseJson('Langkah', form.steps)
+    const action = parseJson('Aksi', form.action)
+    const values = {
+      trigger: form.trigger.trim().toLowerCase(),
+      title: form.title.trim(),
+      description: form.description.trim(),
+      timeout_minutes: Number(form.timeout_minutes),
+      confirm: form.confirm,
+      requires_member: form.requires_member,
+      admin_only: form.admin_only,
+      steps: steps.value as ConversationFlow['steps'],
+      action: action.value as ConversationFlow['action']
+    }
+
+    const problems = [steps.error, action.error].filter((error): error is string => !!error)
+    if (problems.length === 0) problems.push(...validateFlow(values))
+    if (flows.some(flow => flow.is_active && flow.id !== editingId && flow.trigger.toLowerCase() === values.trigger)) {
+      problems.push(`Pemicu ${values.trigger} sudah dipakai alur lain`)
+    }
+    setErrors(problems)
+    if (problems.length > 0) return
+
+    setSaving(true)
+    try {
+      const response = editingId
+        ? await repositories.whatsappFlows.update(editingId, values)
+        : await repositories.whatsappFlows.create({ ...values, is_active: true })
+      if (response.error) throw new Error(response.error)
+      toast.success(editingId ? 'Alur percakapan diperbarui' : 'Alur percakapan ditambahkan')
+      closeForm()
+      await loadData()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan alur percakapan')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleActive = async (flow: ConversationFlow) => {
+    const response = await repositories.whatsappFlows.update(flow.id, { is_active: !flow.is_active })
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+    toast.success(flow.is_active ? `${flow.trigger} dinonaktifkan` : `${flow.trigger} diaktifkan`)
+    await loadData()
+  }
+
+  const handleDelete = async (flow: ConversationFlow) => {
+    if (!confirm(`Hapus alur ${flow.title}? Percakapan yang sedang berjalan akan berakhir.`)) return
+    const response = await repositories.whatsappFlows.remove(flow.id)
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+    toast.success('Alur percakapan dihapus')
+    await loadData()
+  }
+
+  const updateSubmissionStatus = async (submission: FlowSubmission, status: FlowSubmission['status']) => {
+    const response = await repositories.whatsappFlowSubmissions.update(submission.id, { status })
+    if (response.error) {
+      toast.error(response.error)
+      return
+    }
+    setSubmissions(current => current.map(item => (item.id === submission.id ? { ...item, status } : item)))
+  }
+
+  // Built-in flows stay available until a stored flow takes over their trigger
+  const effectiveIds = new Set(activeFlows(flows).map(flow => flow.id))
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Alur Percakapan</h3>
+            <p className="text-sm text-gray-500">
+              Percakapan bertahap yang dimulai anggota dengan satu perintah. Ketik <em>batal</em> untuk keluar dari alur.
+            </p>
+          </div>
+          {!unavailable && !form && (
+            <button
+              onClick={() => openForm()}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+            >
+              <FaPlus className="h-4 w-4 mr-2" />
+              Tambah Alur
+            </button>
+          )}
+        </div>
+
+        {unavailable && (
+          <p className="mb-4 p-3 rounded-lg bg-yellow-50 text-sm text-yellow-800">
+            {unavailable}. Hanya alur bawaan yang dapat digunakan.
+          </p>
+        )}
+
+        {form && (
+          <div className="mb-6 p-4 border border-gray-200 rounded-lg space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <label className="text-sm">
+                <span className="block text-gray-700 mb-1">Pemicu</span>
+                <input
+                  value={form.trigger}
+                  onChange={(e) => updateForm({ trigger: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  placeholder="/ajukan"
+                />
+              </label>
+              <label className="text-sm">
+                <span className="block text-gray-700 mb-1">Judul</span>
+                <input
+                  value={form.title}
+                  onChange={(e) => updateForm({ title: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </label>
+              <label className="text-sm">
+                <span className="block text-gray-700 mb-1">Batas Waktu Sesi (menit)</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.timeout_minutes}
+                  onChange={(e) => updateForm({ timeout_minutes: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </label>
+            </div>
+
+            <label className="block text-sm">
+              <span className="block text-gray-700 mb-1">Keterangan di /help</span>
+              <input
+                value={form.description}
+                onChange={(e) => updateForm({ description: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </label>
+
+            <div className="flex flex-wrap gap-6 text-sm text-gray-700">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={form.confirm} onChange={(e) => updateForm({ confirm: e.target.checked })} />
+                Minta konfirmasi sebelum dikirim
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={form.requires_member} onChange={(e) => updateForm({ requires_member: e.target.checked })} />
+                Hanya anggota terverifikasi
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={form.admin_only} onChange={(e) => updateForm({ admin_only: e.target.checked })} />
+                Hanya pengurus
+              </label>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <label className="text-sm">
+                <span className="block text-gray-700 mb-1">Langkah (JSON)</span>
+                <textarea
+                  value={form.steps}
+                  onChange={(e) => updateForm({ steps: e.target.value })}
+                  rows={14}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs"
+                />
+                <span className="block text-xs text-gray-500 mt-1">
+                  Jenis langkah: number (min/max), text (min/max karakter), choice (options: label dan value) dan media (foto).
+                </span>
+              </label>
+              <label className="text-sm">
+                <span className="block text-gray-700 mb-1">Aksi (JSON)</span>
+                <textarea
+                  value={form.action}
+                  onChange={(e) => updateForm({ action: e.target.value })}
+                  rows={14}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs"
+                />
+                <span className="block text-xs text-gray-500 mt-1">
+                  command (perintah bot, contoh &quot;/laporan {'{{jenis}}'}&quot;), loan_application (langkah jumlah_pinjaman,
+                  tenor_bulan, tujuan) atau submission (disimpan untuk pengurus, balasan opsional).
+                </span>
+              </label>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="p-3 rounded-lg bg-red-50 text-sm text-red-700 list-disc list-inside">
+                {errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button onClick={closeForm} className="flex items-center px-4 py-2 border border-gray-300 rounded-lg text-sm">
+                <FaTimes className="h-4 w-4 mr-2" />
+                Batal
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 text-sm"
+              >
+                <FaSave className="h-4 w-4 mr-2" />
+                {saving ? 'Menyimpan...' : 'Simpan'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="divide-y divide-gray-100">
+          {[...flows, ...BUILTIN_FLOWS].map(flow => {
+            const builtIn = flow.id.startsWith('builtin-')
+            const invalid = !builtIn && validateFlow(flow).length > 0
+            return (
+              <div key={flow.id} className="py-3 flex items-center justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm text-blue-700">{flow.trigger}</span>
+                    <span className="text-sm font-medium text-gray-900">{flow.title}</span>
+                    {builtIn && <span className="px-2 py-0.5 rounded bg-gray-100 text-xs text-gray-600">Bawaan</span>}
+                    {flow.admin_only && <span className="px-2 py-0.5 rounded bg-purple-100 text-xs text-purple-700">Pengurus</span>}
+                    {!effectiveIds.has(flow.id) && (
+                      <span className="px-2 py-0.5 rounded bg-yellow-100 text-xs text-yellow-800">
+                        {invalid ? 'Tidak valid' : builtIn ? 'Digantikan' : 'Nonaktif'}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {flow.steps.length} langkah · sesi {flow.timeout_minutes} menit{flow.description ? ` · ${flow.description}` : ''}
+                  </div>
+                </div>
+                {!unavailable && (
+                  <div className="flex gap-2">
+                    {builtIn ? (
+                      <button onClick={() => openForm(flow, true)} title="Salin untuk diubah" className="p-2 text-gray-600 hover:text-blue-600">
+                        <FaCopy />
+                      </button>
+                    ) : (
+                      <>
+                        <button onClick={() => openForm(flow)} title="Ubah" className="p-2 text-gray-600 hover:text-blue-600">
+                          <FaEdit />
+                        </button>
+                        <button
+                          onClick={() => toggleActive(flow)}
+                          title={flow.is_active ? 'Nonaktifkan' : 'Aktifkan'}
+                          className="p-2 text-gray-600 hover:text-yellow-600"
+                        >
+                          {flow.is_active ? <FaPause /> : <FaPlay />}
+                        </button>
+                        <button onClick={() => handleDelete(flow)} title="Hapus" className="p-2 text-gray-600 hover:text-red-600">
+                          <FaTrash />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </Card>
+
+      {!unavailable && (
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Kiriman dari Alur</h3>
+          {submissions.length === 0 ? (
+            <p className="text-sm text-gray-500">Belum ada kiriman</p>
+          ) : (
+            <div className="divide-y divide-gray-100">
+              {submissions.map(submission => (
+                <div key={submission.id} className="py-3 flex justify-between gap-4">
+                  <div className="text-sm">
+                    <div className="font-medium text-gray-900">{submission.flow_title}</div>
+                    <div className="text-xs text-gray-500">
+                      +{submission.phone_number} · {formatToIndonesian(submission.created_at)}
+                    </div>
+                    <ul className="mt-1 text-gray-700">
+                      {Object.entries(submission.answers).map(([key, value]) => (
+                        <li key={key}>
+                          <span className="text-gray-500">{key}:</span> {String(value)}
+                        </li>
+                      ))}
+                    </ul>
+                    {submission.media && (
+                      <a href={submission.media.data} target="_blank" rel="noreferrer">
+                        <img src={submission.media.data} alt="Lampiran" className="mt-2 h-24 rounded border border-gray-200" />
+                      </a>
+                    )}
+                  </div>
+                  <select
+                    value={submission.status}
+                    onChange={(e) => updateSubmissionStatus(submission, e.target.value as FlowSubmission['status'])}
+                    className="h-9 px-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {Object.entries(SUBMISSION_STATUS_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { whatsappCommandParser, UserContext } from '../../services/whatsappCommandParser';
-import { whatsappNotificationService, NotificationLog } from '../../services/whatsappNotificationService';
+import { UserContext } from '../../services/whatsappCommandParser';
+import { WhatsAppConversationEngine } from '../../services/whatsappConversation';
+import type { FlowMedia } from '../../types/whatsappFlows';
+import {
+  whatsappNotificationService,
+  NotificationLog,
+  ReminderJobId,
+  ScheduledJob
+} from '../../services/whatsappNotificationService';
 import whatsappSocketService from '../../services/whatsapp-socket.service';
 import { WhatsAppStatus } from '../../services/whatsapp-socket.service';
 import WhatsAppDiagnostics from './WhatsAppDiagnostics';
@@ -27,6 +34,10 @@ export default function WhatsAppMobileTest() {
     pending: 0,
     todayCount: 0
   });
+  const [scheduledJobs, setScheduledJobs] = useState<ScheduledJob[]>(() => whatsappNotificationService.getScheduledJobs());
+  const [schedulerRunning, setSchedulerRunning] = useState(() => whatsappNotificationService.isSchedulerRunning());
+  const [runningJob, setRunningJob] = useState<ReminderJobId | null>(null);
+  const [reminderError, setReminderError] = useState<string | null>(null);
   const [userContext] = useState<UserContext>({
     phoneNumber: '+62 812-1111-1111',
     isAdmin: false,
@@ -49,6 +60,20 @@ export default function WhatsAppMobileTest() {
     return `msg_${Date.now()}_${messageIdCounter.current}`;
   };
 
+  // Conversation engine with the chat as its transport, so guided flows keep their state between messages
+  const conversationRef = useRef<WhatsAppConversationEngine | null>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const getConversation = () => {
+    if (!conversationRef.current) {
+      conversationRef.current = new WhatsAppConversationEngine({
+        send: async (_to, message) => {
+          setChatMessages(prev => [...prev, { id: generateUniqueId(), from: 'bot', message, timestamp: new Date() }]);
+        }
+      });
+    }
+    return conversationRef.current;
+  };
+
   // Setup WhatsApp Socket Service listeners
   useEffect(() => {
     let statusChangeCleanup: (() => void) | undefined;
@@ -258,6 +283,8 @@ export default function WhatsAppMobileTest() {
   const updateNotificationData = () => {
     setNotificationLogs(whatsappNotificationService.getNotificationLogs(10));
     setNotificationStats(whatsappNotificationService.getNotificationStats());
+    setScheduledJobs(whatsappNotificationService.getScheduledJobs());
+    setSchedulerRunning(whatsappNotificationService.isSchedulerRunning());
   };
 
   // Get base URL from environment variables
@@ -835,30 +862,36 @@ export default function WhatsAppMobileTest() {
     }
   };
 
-  const handleSendCommand = () => {
-    if (!testCommand.trim() || !isConnected) return;
+  const handleSendCommand = async (media?: FlowMedia) => {
+    if ((!testCommand.trim() && !media) || !isConnected) return;
 
     // Add user message
     const userMessage: ChatMessage = {
       id: generateUniqueId(),
       from: 'user',
-      message: testCommand,
+      message: media ? '📷 Foto' : testCommand,
       timestamp: new Date()
     };
+    setChatMessages(prev => [...prev, userMessage]);
+    setTestCommand('');
 
-    // Process command
-    const response = whatsappCommandParser.parseCommand(testCommand, userContext);
-    
-    // Add bot response
-    const botMessage: ChatMessage = {
-      id: generateUniqueId(),
-      from: 'bot',
-      message: response.message,
-      timestamp: new Date()
-    };
+    // Sent from the test number, so replies reflect its verified member and role; they arrive through the transport
+    await getConversation().handleMessage({
+      from: userContext.phoneNumber,
+      body: media ? '' : testCommand,
+      media
+    });
+  };
 
-    setChatMessages(prev => [...prev, userMessage, botMessage]);
-    setTestCommand('');
+  // Photo answers, e.g. the transfer receipt in /bayar
+  const handleSendPhoto = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => handleSendCommand({ mime_type: file.type, data: String(reader.result) });
+    reader.readAsDataURL(file);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -946,6 +979,29 @@ export default function WhatsAppMobileTest() {
     updateNotificationData();
   };
 
+  // Scheduled reminders
+  const handleToggleScheduler = () => {
+    if (whatsappNotificationService.isSchedulerRunning()) {
+      whatsappNotificationService.stopScheduledNotifications();
+    } else {
+      whatsappNotificationService.scheduleNotifications();
+    }
+    updateNotificationData();
+  };
+
+  const handleRunReminderJob = async (jobId: ReminderJobId) => {
+    setRunningJob(jobId);
+    setReminderError(null);
+    try {
+      await whatsappNotificationService.runReminderJob(jobId);
+    } catch (error) {
+      setReminderError(error instanceof Error ? error.message : 'Gagal menjalankan pengingat');
+    } finally {
+      setRunningJob(null);
+      updateNotificationData();
+    }
+  };
+
   return (
     <div className="p-6 space-y-6">
       <div>
@@ -1178,8 +1234,22 @@ export default function WhatsAppMobileTest() {
                       placeholder="Ketik perintah (contoh: help, saldo, status)"
                       className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                     />
+                    <input
+                      ref={photoInputRef}
+                      type="file"
+                      accept="image/*"
+                      onChange={handleSendPhoto}
+                      className="hidden"
+                    />
                     <button
-                      onClick={handleSendCommand}
+                      onClick={() => photoInputRef.current?.click()}
+                      title="Kirim foto"
+                      className="px-3 py-2 bg-gray-100 dark:bg-gray-600 hover:bg-gray-200 dark:hover:bg-gray-500 text-gray-900 dark:text-gray-100 rounded-lg border border-gray-200 dark:border-gray-500"
+                    >
+                      📷
+                    </button>
+                    <button
+                      onClick={() => handleSendCommand()}
                       disabled={!testCommand.trim()}
                       className="px-4 py-2 bg-blue-500 hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700 text-white rounded-lg disabled:bg-gray-300 dark:disabled:bg-gray-600"
                     >
@@ -1242,6 +1312,52 @@ export default function WhatsAppMobileTest() {
                 </div>
               </div>
 
+              {/* Scheduled Reminders */}
+              <div>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">⏰ Pengingat Otomatis</h3>
+                  <button
+                    onClick={handleToggleScheduler}
+                    className={`px-4 py-2 text-sm rounded-lg text-white ${
+                      schedulerRunning ? 'bg-red-600 hover:bg-red-700' : 'bg-green-600 hover:bg-green-700'
+                    }`}
+                  >
+                    {schedulerRunning ? 'Hentikan Jadwal' : 'Aktifkan Jadwal'}
+                  </button>
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+                  Pengingat tidak dikirim pukul 21.00-07.00 dan setiap pengingat hanya dikirim sekali ke anggota.
+                </p>
+                {reminderError && (
+                  <p className="text-sm text-red-600 dark:text-red-400 mb-3">{reminderError}</p>
+                )}
+                <div className="space-y-3">
+                  {scheduledJobs.map((job) => (
+                    <div key={job.id} className="flex items-center justify-between border border-gray-200 dark:border-gray-600 rounded-lg p-3">
+                      <div>
+                        <div className="font-medium text-gray-900 dark:text-gray-100">{job.name}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {job.nextRun ? `Berikutnya: ${job.nextRun.toLocaleString('id-ID')}` : 'Tidak terjadwal'}
+                        </div>
+                        {job.lastRun && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            Terakhir: {job.lastRun.sent} terkirim, {job.lastRun.failed} gagal, {job.lastRun.skipped} sudah dikirim
+                            {job.lastRun.deferred && ' (ditunda, jam tenang)'}
+                          </div>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => handleRunReminderJob(job.id)}
+                        disabled={runningJob !== null}
+                        className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                      >
+                        {runningJob === job.id ? 'Mengirim...' : 'Jalankan Sekarang'}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               {/* Test Notifications */}
               <div>
                 <h3 className="text-lg font-medium mb-4 text-gray-900 dark:text-gray-100">🧪 Test Notifications</h3>
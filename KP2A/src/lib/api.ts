@@ -1,11 +1,22 @@
 // API Client for MySQL Backend
 // Replaces Supabase client
 
+import type { NotificationLogRecord, WhatsAppConfig, WhatsAppMessageTemplate, WhatsAppVerification } from '../types';
+import type { AudienceSegment } from '../types/audienceSegments';
+import type { ConversationFlow, FlowSubmission } from '../types/whatsappFlows';
+import type { PaymentMethod, RecurringTransaction, Transaction, TransactionCategory } from '../types/transactions';
+
 const API_URL = import.meta.env.VITE_API_URL || '';
 
-interface ApiResponse<T> {
+export interface ApiResponse<T> {
   data?: T;
   error?: string;
+  // HTTP status of a rejected request
+  status?: number;
+  // The request never reached the server (no connection)
+  offline?: boolean;
+  // Server copy of the record when a write was rejected (409) because it changed meanwhile
+  current?: Record<string, unknown>;
 }
 
 class ApiClient {
@@ -44,12 +55,13 @@ class ApiClient {
       const data = await response.json();
 
       if (!response.ok) {
-        return { error: data.error || 'Request failed' };
+        return { error: data.error || 'Request failed', status: response.status, current: data.current };
       }
 
       return { data };
     } catch (error) {
-      return { error: error instanceof Error ? error.message : 'Network error' };
+      // fetch rejects with a TypeError when there is no connection
+      return { error: error instanceof Error ? error.message : 'Network error', offline: error instanceof TypeError };
     }
   }
 
@@ -66,12 +78,13 @@ class ApiClient {
       const data = await response.json();
 
       if (!response.ok) {
-        return { error: data.error || 'Request failed' };
+        return { error: data.error || 'Request failed', status: response.status, current: data.current };
       }
 
       return { data };
     } catch (error) {
-      return { error: error instanceof Error ? error.message : 'Network error' };
+      // fetch rejects with a TypeError when there is no connection
+      return { error: error instanceof Error ? error.message : 'Network error', offline: error instanceof TypeError };
     }
   }
 
@@ -86,12 +99,13 @@ class ApiClient {
       const data = await response.json();
 
       if (!response.ok) {
-        return { error: data.error || 'Request failed' };
+        return { error: data.error || 'Request failed', status: response.status, current: data.current };
       }
 
       return { data };
     } catch (error) {
-      return { error: error instanceof Error ? error.message : 'Network error' };
+      // fetch rejects with a TypeError when there is no connection
+      return { error: error instanceof Error ? error.message : 'Network error', offline: error instanceof TypeError };
     }
   }
 
@@ -105,12 +119,13 @@ class ApiClient {
       const data = await response.json();
 
       if (!response.ok) {
-        return { error: data.error || 'Request failed' };
+        return { error: data.error || 'Request failed', status: response.status, current: data.current };
       }
 
       return { data };
     } catch (error) {
-      return { error: error instanceof Error ? error.message : 'Network error' };
+      // fetch rejects with a TypeError when there is no connection
+      return { error: error instanceof Error ? error.message : 'Network error', offline: error instanceof TypeError };
     }
   }
 }
@@ -248,6 +263,93 @@ export interface Due {
   updated_at: string;
   nama_lengkap?: string;
   id_anggota?: string;
+  simpanan_wajib?: number;
+  // Created by the monthly generation (unpaid until settled)
+  is_generated?: boolean;
+  payment_id?: string | null;
+  // Cash/bank account that received the payment (null: the account linked to Kas)
+  cash_account_id?: string | null;
+  // Incremented on every change; sent back as expected_version to detect conflicts
+  version?: number;
+  // Offline queue entry that created the record
+  client_ref?: string | null;
+}
+
+// Rate in force from berlaku_bulan/berlaku_tahun until a newer one starts
+export interface DuesRate {
+  id: string;
+  berlaku_bulan: number;
+  berlaku_tahun: number;
+  iuran_wajib: number;
+  simpanan_wajib: number;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export interface DuesArrearsMonth {
+  id: string;
+  bulan: number;
+  tahun: number;
+  amount: number;
+}
+
+export interface DuesArrears {
+  member_id: string;
+  nama_lengkap: string;
+  id_anggota?: string | null;
+  months: DuesArrearsMonth[];
+  total: number;
+}
+
+export interface DuesMatrixCell {
+  id: string;
+  status: Due['status'];
+  amount: number;
+  iuran_sukarela: number;
+  tanggal_bayar: string | null;
+}
+
+export interface DuesMatrixRow {
+  member_id: string;
+  id_anggota?: string | null;
+  nama_lengkap: string;
+  status_keanggotaan: Member['status_keanggotaan'];
+  // Index 0 = Januari; null when the member has no row for that month
+  months: (DuesMatrixCell | null)[];
+  arrears_count: number;
+  arrears_total: number;
+}
+
+export interface DuesMatrix {
+  tahun: number;
+  members: DuesMatrixRow[];
+}
+
+export interface DuesPaymentPlan {
+  amount: number;
+  settled: (Pick<Due, 'id' | 'bulan' | 'tahun' | 'iuran_wajib' | 'iuran_sukarela'> & { simpanan_wajib: number })[];
+  // Remainder recorded as iuran sukarela on the last settled month
+  sukarela: number;
+}
+
+export interface DuesPaymentInput {
+  member_id: string;
+  amount: number;
+  tanggal_bayar: string;
+  notes?: string;
+}
+
+export interface DuesPayment {
+  id: string;
+  member_id: string;
+  tanggal_bayar: string;
+  amount: number;
+  months_paid: number;
+  sukarela: number;
+  notes?: string | null;
+  created_at: string;
+  nama_lengkap?: string;
+  id_anggota?: string;
 }
 
 export const duesApi = {
@@ -269,12 +371,51 @@ export const duesApi = {
     return api.post<Due>('/api/dues', due);
   },
 
-  async update(id: string, due: Partial<Due>): Promise<ApiResponse<Due>> {
-    return api.put<Due>(`/api/dues/${id}`, due);
+  async update(id: string, due: Partial<Due>, expectedVersion?: number): Promise<ApiResponse<Due>> {
+    return api.put<Due>(`/api/dues/${id}`, { ...due, expected_version: expectedVersion });
   },
 
-  async delete(id: string): Promise<ApiResponse<{ message: string }>> {
-    return api.delete(`/api/dues/${id}`);
+  async delete(id: string, expectedVersion?: number): Promise<ApiResponse<{ message: string }>> {
+    const query = expectedVersion ? `?expected_version=${expectedVersion}` : '';
+    return api.delete(`/api/dues/${id}${query}`);
+  },
+
+  async getRates(): Promise<ApiResponse<DuesRate[]>> {
+    return api.get<DuesRate[]>('/api/dues/rates');
+  },
+
+  async saveRate(rate: Pick<DuesRate, 'berlaku_bulan' | 'berlaku_tahun' | 'iuran_wajib' | 'simpanan_wajib'>): Promise<ApiResponse<DuesRate[]>> {
+    return api.post<DuesRate[]>('/api/dues/rates', rate);
+  },
+
+  async deleteRate(id: string): Promise<ApiResponse<DuesRate[]>> {
+    return api.delete<DuesRate[]>(`/api/dues/rates/${id}`);
+  },
+
+  async generate(period?: { bulan: number; tahun: number }): Promise<ApiResponse<{ created: number; bulan: number; tahun: number }>> {
+    return api.post<{ created: number; bulan: number; tahun: number }>('/api/dues/generate', period || {});
+  },
+
+  async getArrears(memberId?: string): Promise<ApiResponse<DuesArrears[]>> {
+    const query = memberId ? `?member_id=${memberId}` : '';
+    return api.get<DuesArrears[]>(`/api/dues/arrears${query}`);
+  },
+
+  async getMatrix(tahun: number): Promise<ApiResponse<DuesMatrix>> {
+    return api.get<DuesMatrix>(`/api/dues/matrix?tahun=${tahun}`);
+  },
+
+  async getPayments(memberId?: string): Promise<ApiResponse<DuesPayment[]>> {
+    const query = memberId ? `?member_id=${memberId}` : '';
+    return api.get<DuesPayment[]>(`/api/dues/payments${query}`);
+  },
+
+  async previewPayment(input: Pick<DuesPaymentInput, 'member_id' | 'amount'>): Promise<ApiResponse<DuesPaymentPlan>> {
+    return api.post<DuesPaymentPlan>('/api/dues/payments/preview', input);
+  },
+
+  async payArrears(input: DuesPaymentInput): Promise<ApiResponse<{ id: string; sukarela: number; dues: Due[] }>> {
+    return api.post<{ id: string; sukarela: number; dues: Due[] }>('/api/dues/payments', input);
   }
 };
 
@@ -285,11 +426,17 @@ export interface Loan {
   member_id: string;
   jumlah_pinjaman: number;
   bunga_persen: number;
+  interest_method?: LoanInterestMethod;
   tenor_bulan: number;
   angsuran_bulanan: number;
   tanggal_pinjaman: string;
-  status: 'aktif' | 'lunas' | 'pending' | 'ditolak';
+  status: 'aktif' | 'lunas' | 'pending' | 'disetujui' | 'ditolak';
   sisa_pinjaman: number;
+  tujuan?: string | null;
+  applied_by?: string | null;
+  approved_at?: string | null;
+  disbursed_at?: string | null;
+  disbursement_account_id?: string | null;
   created_at: string;
   updated_at: string;
   nama_lengkap?: string;
@@ -307,6 +454,120 @@ export interface LoanPayment {
   tanggal_bayar: string;
   status: 'lunas' | 'terlambat' | 'belum_lunas';
   created_at: string;
+  cash_account_id?: string | null;
+  version?: number;
+  client_ref?: string | null;
+}
+
+// flat: jasa dari pokok awal, efektif: jasa dari sisa pokok, anuitas: angsuran tetap
+export type LoanInterestMethod = 'flat' | 'efektif' | 'anuitas';
+
+export interface LoanScheduleRow {
+  id?: string;
+  loan_id?: string;
+  angsuran_ke: number;
+  due_date: string;
+  pokok: number;
+  bunga: number;
+  total: number;
+  sisa_pokok: number;
+  paid_pokok?: number;
+  paid_bunga?: number;
+  status?: 'belum_bayar' | 'sebagian' | 'lunas';
+  paid_date?: string | null;
+}
+
+export interface LoanScheduleSummary {
+  total_pokok: number;
+  total_bunga: number;
+  total_bayar: number;
+  total_dibayar: number;
+  sisa_tagihan: number;
+}
+
+export interface LoanSchedulePreview extends LoanScheduleSummary {
+  schedule: LoanScheduleRow[];
+  angsuran_bulanan: number;
+}
+
+export interface LoanPaymentAllocation {
+  schedule_id: string;
+  angsuran_ke: number;
+  due_date: string;
+  pokok: number;
+  bunga: number;
+  settled: boolean;
+}
+
+export interface LoanPaymentPreview {
+  allocations: LoanPaymentAllocation[];
+  pokok: number;
+  bunga: number;
+  unallocated: number;
+  status: LoanPayment['status'];
+  sisa_tagihan: number;
+  sisa_setelah_bayar: number;
+  next_installment: LoanScheduleRow | null;
+}
+
+// Payload of a payment: jumlah_bayar is allocated by the server against the schedule
+export interface LoanPaymentInput {
+  jumlah_bayar: number;
+  tanggal_bayar: string;
+  status?: LoanPayment['status'];
+  client_ref?: string;
+}
+
+export type LoanRestructureType = 'perpanjang_tenor' | 'ubah_bunga' | 'penundaan' | 'pelunasan_dipercepat';
+
+// jumlah_bulan: perpanjang_tenor/penundaan, bunga_persen: ubah_bunga, rebate_persen: pelunasan_dipercepat
+export interface LoanRestructureInput {
+  type: LoanRestructureType;
+  effective_date: string;
+  reason: string;
+  jumlah_bulan?: number;
+  bunga_persen?: number;
+  rebate_persen?: number;
+}
+
+export interface LoanRestructurePlan {
+  schedule: LoanScheduleRow[];
+  outstanding_pokok: number;
+  overdue_jasa: number;
+  future_jasa: number;
+  rebate_amount: number;
+  tenor_before: number;
+  tenor_after: number;
+  bunga_before: number;
+  bunga_after: number;
+  angsuran_before: number;
+  angsuran_after: number;
+  sisa_before: number;
+  sisa_after: number;
+}
+
+export interface LoanRestructure {
+  id: string;
+  loan_id: string;
+  type: LoanRestructureType;
+  effective_date: string;
+  jumlah_bulan: number | null;
+  rebate_persen: number | null;
+  reason: string;
+  tenor_before: number;
+  tenor_after: number;
+  bunga_before: number;
+  bunga_after: number;
+  angsuran_before: number;
+  angsuran_after: number;
+  sisa_before: number;
+  sisa_after: number;
+  rebate_amount: number;
+  payment_id: string | null;
+  schedule_before: LoanScheduleRow[];
+  schedule_after: LoanScheduleRow[];
+  created_by_email?: string;
+  created_at: string;
 }
 
 export const loansApi = {
@@ -319,10 +580,29 @@ export const loansApi = {
     return api.get<Loan[]>(`/api/loans${queryString}`);
   },
 
-  async getById(id: string): Promise<ApiResponse<Loan & { payments: LoanPayment[] }>> {
+  async getById(id: string): Promise<ApiResponse<Loan & LoanScheduleSummary & { payments: LoanPayment[]; schedule: LoanScheduleRow[] }>> {
     return api.get(`/api/loans/${id}`);
   },
 
+  async getSchedule(id: string): Promise<ApiResponse<LoanScheduleSummary & { schedule: LoanScheduleRow[] }>> {
+    return api.get(`/api/loans/${id}/schedule`);
+  },
+
+  // Installments due in a year, grouped per loan
+  async getSchedules(year: number): Promise<ApiResponse<(Loan & { schedule: LoanScheduleRow[] })[]>> {
+    return api.get(`/api/loans/schedules?year=${year}`);
+  },
+
+  async previewSchedule(terms: Pick<Loan, 'jumlah_pinjaman' | 'bunga_persen' | 'tenor_bulan' | 'tanggal_pinjaman'> & { interest_method?: LoanInterestMethod }): Promise<ApiResponse<LoanSchedulePreview>> {
+    return api.post<LoanSchedulePreview>('/api/loans/schedule/preview', terms);
+  },
+
+  async previewPayment(loanId: string, jumlahBayar: number, tanggalBayar?: string): Promise<ApiResponse<LoanPaymentPreview>> {
+    const query = new URLSearchParams({ jumlah_bayar: String(jumlahBayar) });
+    if (tanggalBayar) query.append('tanggal_bayar', tanggalBayar);
+    return api.get<LoanPaymentPreview>(`/api/loans/${loanId}/payments/preview?${query.toString()}`);
+  },
+
   async create(loan: Partial<Loan>): Promise<ApiResponse<Loan>> {
     return api.post<Loan>('/api/loans', loan);
   },
@@ -335,7 +615,7 @@ export const loansApi = {
     return api.delete(`/api/loans/${id}`);
   },
 
-  async addPayment(loanId: string, payment: Partial<LoanPayment>): Promise<ApiResponse<LoanPayment>> {
+  async addPayment(loanId: string, payment: LoanPaymentInput | Partial<LoanPayment>): Promise<ApiResponse<LoanPayment>> {
     return api.post<LoanPayment>(`/api/loans/${loanId}/payments`, payment);
   },
 
@@ -343,12 +623,29 @@ export const loansApi = {
     return api.get<LoanPayment[]>(`/api/loans/${loanId}/payments`);
   },
 
-  async updatePayment(loanId: string, paymentId: string, payment: Partial<LoanPayment>): Promise<ApiResponse<LoanPayment>> {
-    return api.put<LoanPayment>(`/api/loans/${loanId}/payments/${paymentId}`, payment);
+  async getAllPayments(): Promise<ApiResponse<LoanPayment[]>> {
+    return api.get<LoanPayment[]>('/api/loans/payments');
+  },
+
+  async updatePayment(loanId: string, paymentId: string, payment: LoanPaymentInput | Partial<LoanPayment>, expectedVersion?: number): Promise<ApiResponse<LoanPayment>> {
+    return api.put<LoanPayment>(`/api/loans/${loanId}/payments/${paymentId}`, { ...payment, expected_version: expectedVersion });
   },
 
-  async deletePayment(loanId: string, paymentId: string): Promise<ApiResponse<{ message: string }>> {
-    return api.delete<{ message: string }>(`/api/loans/${loanId}/payments/${paymentId}`);
+  async deletePayment(loanId: string, paymentId: string, expectedVersion?: number): Promise<ApiResponse<{ message: string }>> {
+    const query = expectedVersion ? `?expected_version=${expectedVersion}` : '';
+    return api.delete<{ message: string }>(`/api/loans/${loanId}/payments/${paymentId}${query}`);
+  },
+
+  async getRestructures(loanId: string): Promise<ApiResponse<LoanRestructure[]>> {
+    return api.get<LoanRestructure[]>(`/api/loans/${loanId}/restructures`);
+  },
+
+  async previewRestructure(loanId: string, input: LoanRestructureInput): Promise<ApiResponse<LoanRestructurePlan>> {
+    return api.post<LoanRestructurePlan>(`/api/loans/${loanId}/restructures/preview`, input);
+  },
+
+  async restructure(loanId: string, input: LoanRestructureInput): Promise<ApiResponse<LoanRestructure>> {
+    return api.post<LoanRestructure>(`/api/loans/${loanId}/restructures`, input);
   }
 };
 
@@ -356,6 +653,8 @@ export const loansApi = {
 
 export interface Expense {
   id: string;
+  // Buku Kas direction: debit is money out, credit is money in
+  type?: 'debit' | 'credit';
   kategori: string;
   deskripsi: string;
   jumlah: number;
@@ -366,6 +665,8 @@ export interface Expense {
   authorized_by?: string;
   created_at: string;
   updated_at: string;
+  version?: number;
+  client_ref?: string | null;
 }
 
 export const expensesApi = {
@@ -386,12 +687,13 @@ export const expensesApi = {
     return api.post<Expense>('/api/expenses', expense);
   },
 
-  async update(id: string, expense: Partial<Expense>): Promise<ApiResponse<Expense>> {
-    return api.put<Expense>(`/api/expenses/${id}`, expense);
+  async update(id: string, expense: Partial<Expense>, expectedVersion?: number): Promise<ApiResponse<Expense>> {
+    return api.put<Expense>(`/api/expenses/${id}`, { ...expense, expected_version: expectedVersion });
   },
 
-  async delete(id: string): Promise<ApiResponse<{ message: string }>> {
-    return api.delete(`/api/expenses/${id}`);
+  async delete(id: string, expectedVersion?: number): Promise<ApiResponse<{ message: string }>> {
+    const query = expectedVersion ? `?expected_version=${expectedVersion}` : '';
+    return api.delete(`/api/expenses/${id}${query}`);
   },
 
   async authorize(id: string, status: 'approved' | 'rejected'): Promise<ApiResponse<Expense>> {
@@ -399,6 +701,1141 @@ export const expensesApi = {
   }
 };
 
+// ==================== CASH & BANK ====================
+
+export interface CashBankAccount {
+  id: string;
+  name: string;
+  type: 'cash' | 'bank';
+  bank_name?: string;
+  account_number?: string;
+  opening_balance: number;
+  balance: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CashBankTransfer {
+  id: string;
+  from_account_id: string;
+  to_account_id: string;
+  amount: number;
+  description: string;
+  transaction_date: string;
+  status: 'completed' | 'pending' | 'cancelled';
+  created_by: string;
+  cancelled_by?: string;
+  cancelled_at?: string;
+  cancel_reason?: string;
+  created_at: string;
+  updated_at: string;
+  from_account_name?: string;
+  from_account_type?: 'cash' | 'bank';
+  to_account_name?: string;
+  to_account_type?: 'cash' | 'bank';
+}
+
+export interface CashBankLedgerEntry {
+  id: string;
+  account_id: string;
+  source_type: string;
+  source_id: string;
+  entry_type: 'debit' | 'credit';
+  amount: number;
+  entry_date: string;
+  description?: string;
+  reversal_of?: string | null;
+  created_at: string;
+}
+
+export const cashBankApi = {
+  async getAccounts(): Promise<ApiResponse<CashBankAccount[]>> {
+    return api.get<CashBankAccount[]>('/api/cash-bank/accounts');
+  },
+
+  async createAccount(account: Partial<CashBankAccount>): Promise<ApiResponse<CashBankAccount>> {
+    return api.post<CashBankAccount>('/api/cash-bank/accounts', account);
+  },
+
+  async updateAccount(id: string, account: Partial<CashBankAccount>): Promise<ApiResponse<CashBankAccount>> {
+    return api.put<CashBankAccount>(`/api/cash-bank/accounts/${id}`, account);
+  },
+
+  async recalculateBalances(): Promise<ApiResponse<CashBankAccount[]>> {
+    return api.post<CashBankAccount[]>('/api/cash-bank/accounts/recalculate');
+  },
+
+  async getEntries(accountId: string): Promise<ApiResponse<CashBankLedgerEntry[]>> {
+    return api.get<CashBankLedgerEntry[]>(`/api/cash-bank/accounts/${accountId}/entries`);
+  },
+
+  async getTransfers(params?: { status?: string }): Promise<ApiResponse<CashBankTransfer[]>> {
+    const query = new URLSearchParams();
+    if (params?.status) query.append('status', params.status);
+
+    const queryString = query.toString() ? `?${query.toString()}` : '';
+    return api.get<CashBankTransfer[]>(`/api/cash-bank/transfers${queryString}`);
+  },
+
+  async createTransfer(transfer: {
+    from_account_id: string;
+    to_account_id: string;
+    amount: number;
+    description: string;
+    transaction_date: string;
+  }): Promise<ApiResponse<CashBankTransfer>> {
+    return api.post<CashBankTransfer>('/api/cash-bank/transfers', transfer);
+  },
+
+  async cancelTransfer(id: string, reason?: string): Promise<ApiResponse<CashBankTransfer>> {
+    return api.post<CashBankTransfer>(`/api/cash-bank/transfers/${id}/cancel`, { reason });
+  }
+};
+
+// ==================== GENERAL LEDGER ====================
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+
+export interface LedgerAccountBalance {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  normal_balance: 'debit' | 'credit';
+  parent_code?: string | null;
+  total_debit: number;
+  total_credit: number;
+  balance: number;
+}
+
+export interface JournalLine {
+  id: string;
+  journal_id: string;
+  account_code: string;
+  account_name?: string;
+  debit: number;
+  credit: number;
+  memo?: string;
+}
+
+export interface JournalEntry {
+  id: string;
+  entry_date: string;
+  description: string;
+  source_type: string;
+  source_id: string;
+  created_by?: string;
+  created_at: string;
+  lines: JournalLine[];
+}
+
+export interface TrialBalance {
+  as_of: string | null;
+  rows: { code: string; name: string; type: LedgerAccountType; debit: number; credit: number }[];
+  total_debit: number;
+  total_credit: number;
+  balanced: boolean;
+}
+
+export interface BalanceSheetSection {
+  total: number;
+  detail: { code: string; name: string; balance: number }[];
+}
+
+export interface BalanceSheet {
+  as_of: string | null;
+  harta: BalanceSheetSection & { kas_bank: number; piutang_pinjaman: number; lainnya: number };
+  kewajiban: BalanceSheetSection & { simpanan_wajib: number; simpanan_sukarela: number };
+  modal: BalanceSheetSection & { iuran_wajib: number; shu: number };
+  total_kewajiban_modal: number;
+  balanced: boolean;
+}
+
+export interface GeneralLedger {
+  account: { code: string; name: string; type: LedgerAccountType; normal_balance: 'debit' | 'credit' };
+  opening_balance: number;
+  closing_balance: number;
+  lines: {
+    journal_id: string;
+    entry_date: string;
+    description: string;
+    source_type: string;
+    source_id: string;
+    debit: number;
+    credit: number;
+    memo?: string;
+    balance: number;
+  }[];
+}
+
+export const ledgerApi = {
+  async getAccounts(asOf?: string): Promise<ApiResponse<LedgerAccountBalance[]>> {
+    const queryString = asOf ? `?as_of=${asOf}` : '';
+    return api.get<LedgerAccountBalance[]>(`/api/ledger/accounts${queryString}`);
+  },
+
+  async createAccount(account: { code: string; name: string; type: LedgerAccountType; parent_code?: string; keywords?: string }): Promise<ApiResponse<LedgerAccountBalance>> {
+    return api.post<LedgerAccountBalance>('/api/ledger/accounts', account);
+  },
+
+  async updateAccount(code: string, account: { name?: string; keywords?: string; is_active?: boolean }): Promise<ApiResponse<LedgerAccountBalance>> {
+    return api.put<LedgerAccountBalance>(`/api/ledger/accounts/${code}`, account);
+  },
+
+  async getJournals(params?: { start?: string; end?: string; source_type?: string }): Promise<ApiResponse<JournalEntry[]>> {
+    const query = new URLSearchParams();
+    if (params?.start) query.append('start', params.start);
+    if (params?.end) query.append('end', params.end);
+    if (params?.source_type) query.append('source_type', params.source_type);
+
+    const queryString = query.toString() ? `?${query.toString()}` : '';
+    return api.get<JournalEntry[]>(`/api/ledger/journals${queryString}`);
+  },
+
+  async rebuild(): Promise<ApiResponse<{ message: string; counts: Record<string, number> }>> {
+    return api.post('/api/ledger/rebuild');
+  },
+
+  async getTrialBalance(asOf?: string): Promise<ApiResponse<TrialBalance>> {
+    const queryString = asOf ? `?as_of=${asOf}` : '';
+    return api.get<TrialBalance>(`/api/ledger/trial-balance${queryString}`);
+  },
+
+  async getBalanceSheet(asOf?: string): Promise<ApiResponse<BalanceSheet>> {
+    const queryString = asOf ? `?as_of=${asOf}` : '';
+    return api.get<BalanceSheet>(`/api/ledger/balance-sheet${queryString}`);
+  },
+
+  async getGeneralLedger(code: string, params?: { start?: string; end?: string }): Promise<ApiResponse<GeneralLedger>> {
+    const query = new URLSearchParams();
+    if (params?.start) query.append('start', params.start);
+    if (params?.end) query.append('end', params.end);
+
+    const queryString = query.toString() ? `?${query.toString()}` : '';
+    return api.get<GeneralLedger>(`/api/ledger/general-ledger/${code}${queryString}`);
+  }
+};
+
+// ==================== SAVINGS ====================
+
+export interface Saving {
+  id: string;
+  member_id: string;
+  type: string;
+  amount: number;
+  description?: string;
+  transaction_date: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  nama_lengkap?: string;
+  id_anggota?: string;
+}
+
+export const savingsApi = {
+  async getAll(params?: { member_id?: string; type?: string }): Promise<ApiResponse<Saving[]>> {
+    const query = new URLSearchParams();
+    if (params?.member_id) query.append('member_id', params.member_id);
+    if (params?.type) query.append('type', params.type);
+
+    const queryString = query.toString() ? `?${query.toString()}` : '';
+    return api.get<Saving[]>(`/api/savings${queryString}`);
+  },
+
+  async create(saving: Partial<Saving>): Promise<ApiResponse<Saving>> {
+    return api.post<Saving>('/api/savings', saving);
+  },
+
+  async delete(id: string): Promise<ApiResponse<{ message: string }>> {
+    return api.delete<{ message: string }>(`/api/savings/${id}`);
+  }
+};
+
+// ==================== SHU ====================
+
+export type ShuBasis = 'modal' | 'jasa_pinjaman';
+
+export interface ShuComponent {
+  key: string;
+  label: string;
+  percent: number;
+  account_code: string;
+  basis: ShuBasis | null;
+  amount?: number;
+  member_total?: number;
+}
+
+export interface ShuScheme {
+  year: number;
+  is_default: boolean;
+  components: ShuComponent[];
+}
+
+export interface ShuMemberShare {
+  id?: string;
+  member_id: string;
+  nama_lengkap: string;
+  id_anggota?: string;
+  modal_basis: number;
+  interest_basis: number;
+  jasa_modal: number;
+  jasa_pinjaman: number;
+  total: number;
+  payout_method?: 'tunai' | 'simpanan' | null;
+  paid_at?: string | null;
+}
+
+export interface ShuDistribution {
+  id: string;
+  year: number;
+  shu_amount: number;
+  components: ShuComponent[];
+  total_member_share: number;
+  posted_at: string;
+  members: ShuMemberShare[];
+}
+
+export interface ShuCalculation {
+  year: number;
+  scheme: ShuScheme;
+  income: number;
+  expense: number;
+  accounts: LedgerAccountBalance[];
+  shu_amount: number;
+  components: ShuComponent[];
+  members: ShuMemberShare[];
+  total_member_share: number;
+  unallocated: number;
+  distribution: ShuDistribution | null;
+}
+
+export interface ShuStatement {
+  year: number;
+  status: 'posted' | 'preview';
+  shu_amount: number;
+  components: ShuComponent[];
+  share: ShuMemberShare;
+}
+
+export const shuApi = {
+  async getScheme(year: number): Promise<ApiResponse<ShuScheme>> {
+    return api.get<ShuScheme>(`/api/shu/scheme/${year}`);
+  },
+
+  async saveScheme(year: number, components: ShuComponent[]): Promise<ApiResponse<ShuScheme>> {
+    return api.put<ShuScheme>(`/api/shu/scheme/${year}`, { components });
+  },
+
+  async calculate(year: number): Promise<ApiResponse<ShuCalculation>> {
+    return api.get<ShuCalculation>(`/api/shu/${year}`);
+  },
+
+  async getMemberStatement(year: number, memberId: string): Promise<ApiResponse<ShuStatement>> {
+    return api.get<ShuStatement>(`/api/shu/${year}/members/${memberId}`);
+  },
+
+  async distribute(year: number): Promise<ApiResponse<ShuDistribution>> {
+    return api.post<ShuDistribution>(`/api/shu/${year}/distribute`);
+  },
+
+  async payout(shareId: string, payload: { method: 'tunai' | 'simpanan'; cash_account_id?: string; tanggal?: string }): Promise<ApiResponse<ShuMemberShare>> {
+    return api.post<ShuMemberShare>(`/api/shu/shares/${shareId}/payout`, payload);
+  }
+};
+
+// ==================== PENALTIES ====================
+
+export type PenaltyTarget = 'loan' | 'dues';
+
+// flat: rate = denda tetap (Rupiah); harian: rate = persen per hari dari nilai tagihan
+export interface PenaltyRule {
+  target: PenaltyTarget;
+  grace_days: number;
+  method: 'flat' | 'harian';
+  rate: number;
+  max_amount: number | null;
+  due_day: number;
+  is_active: boolean;
+  updated_at?: string;
+}
+
+export interface Penalty {
+  id: string;
+  source_type: 'loan_schedule' | 'due';
+  source_id: string;
+  member_id: string;
+  loan_id: string | null;
+  due_date: string;
+  days_late: number;
+  base_amount: number;
+  amount: number;
+  status: 'belum_bayar' | 'lunas' | 'dihapuskan';
+  paid_date?: string | null;
+  cash_account_id?: string | null;
+  waived_reason?: string | null;
+  waived_at?: string | null;
+  nama_lengkap?: string;
+  id_anggota?: string;
+  angsuran_ke?: number | null;
+  bulan?: number | null;
+  tahun?: number | null;
+}
+
+export const penaltiesApi = {
+  async getRules(): Promise<ApiResponse<Record<PenaltyTarget, PenaltyRule>>> {
+    return api.get<Record<PenaltyTarget, PenaltyRule>>('/api/penalties/rules');
+  },
+
+  async saveRule(target: PenaltyTarget, rule: Omit<PenaltyRule, 'target' | 'updated_at'>): Promise<ApiResponse<PenaltyRule>> {
+    return api.put<PenaltyRule>(`/api/penalties/rules/${target}`, rule);
+  },
+
+  async getAll(params?: { source?: PenaltyTarget; member_id?: string; loan_id?: string; status?: Penalty['status'] }): Promise<ApiResponse<Penalty[]>> {
+    const query = new URLSearchParams();
+    if (params?.source) query.append('source', params.source);
+    if (params?.member_id) query.append('member_id', params.member_id);
+    if (params?.loan_id) query.append('loan_id', params.loan_id);
+    if (params?.status) query.append('status', params.status);
+
+    const queryString = query.toString() ? `?${query.toString()}` : '';
+    return api.get<Penalty[]>(`/api/penalties${queryString}`);
+  },
+
+  async pay(id: string, payload: { tanggal?: string; cash_account_id?: string }): Promise<ApiResponse<Penalty>> {
+    return api.post<Penalty>(`/api/penalties/${id}/pay`, payload);
+  },
+
+  async waive(id: string, reason: string): Promise<ApiResponse<Penalty>> {
+    return api.post<Penalty>(`/api/penalties/${id}/waive`, { reason });
+  }
+};
+
+// ==================== LOAN APPLICATIONS ====================
+
+// max_loan_savings_ratio / max_active_loans: 0 berarti tanpa batas
+export interface LoanPolicy {
+  required_approvals: number;
+  bunga_persen: number;
+  interest_method: LoanInterestMethod;
+  max_loan_savings_ratio: number;
+  max_active_loans: number;
+  max_guarantees_per_member: number;
+  block_on_arrears: boolean;
+  updated_at?: string;
+}
+
+export interface LoanApplicationCheck {
+  key: 'savings_ratio' | 'active_loans' | 'arrears';
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface LoanApproval {
+  id: string;
+  loan_id: string;
+  user_id: string;
+  decision: 'setuju' | 'tolak' | 'catatan';
+  comment: string | null;
+  created_at: string;
+  email?: string;
+  role?: string;
+}
+
+export interface LoanApplication extends Loan {
+  applied_by_email?: string | null;
+  approval_count: number;
+  required_approvals: number;
+  voted?: boolean;
+}
+
+export interface LoanApplicationDetail extends LoanApplication {
+  standing: {
+    savings: number;
+    active_loans: number;
+    overdue_installments: number;
+    unpaid_dues: number;
+    unpaid_penalties: number;
+  };
+  checks: LoanApplicationCheck[];
+  eligible: boolean;
+  plafon: number;
+  approvals: LoanApproval[];
+}
+
+export interface LoanApplicationInput {
+  member_id?: string;
+  jumlah_pinjaman: number;
+  tenor_bulan: number;
+  // Only honoured for pengurus; anggota always get the policy's jasa
+  bunga_persen?: number;
+  interest_method?: LoanInterestMethod;
+  tujuan?: string;
+}
+
+export const loanApplicationsApi = {
+  async getAll(status?: Loan['status']): Promise<ApiResponse<LoanApplication[]>> {
+    const queryString = status ? `?status=${status}` : '';
+    return api.get<LoanApplication[]>(`/api/loan-applications${queryString}`);
+  },
+
+  async getById(id: string): Promise<ApiResponse<LoanApplicationDetail>> {
+    return api.get<LoanApplicationDetail>(`/api/loan-applications/${id}`);
+  },
+
+  async submit(application: LoanApplicationInput): Promise<ApiResponse<LoanApplicationDetail>> {
+    return api.post<LoanApplicationDetail>('/api/loan-applications', application);
+  },
+
+  async decide(id: string, decision: LoanApproval['decision'], comment?: string): Promise<ApiResponse<LoanApplicationDetail>> {
+    return api.post<LoanApplicationDetail>(`/api/loan-applications/${id}/decisions`, { decision, comment });
+  },
+
+  async disburse(id: string, payload: { cash_account_id: string; tanggal?: string }): Promise<ApiResponse<LoanApplicationDetail>> {
+    return api.post<LoanApplicationDetail>(`/api/loan-applications/${id}/disburse`, payload);
+  },
+
+  async getPolicy(): Promise<ApiResponse<LoanPolicy>> {
+    return api.get<LoanPolicy>('/api/loan-applications/policy');
+  },
+
+  async savePolicy(policy: Omit<LoanPolicy, 'updated_at'>): Promise<ApiResponse<LoanPolicy>> {
+    return api.put<LoanPolicy>('/api/loan-applications/policy', policy);
+  }
+};
+
+// ==================== LOAN GUARANTEES ====================
+
+export type CollateralType = 'bpkb' | 'sertifikat' | 'emas' | 'elektronik' | 'lainnya';
+
+// guaranteed_amount null berarti menjamin seluruh sisa pinjaman
+export interface LoanGuarantor {
+  id: string;
+  loan_id: string;
+  member_id: string;
+  guaranteed_amount: number | null;
+  notes: string | null;
+  nama_lengkap: string;
+  id_anggota?: string;
+  no_hp?: string;
+  created_at: string;
+}
+
+export interface LoanCollateral {
+  id: string;
+  loan_id: string;
+  type: CollateralType;
+  description: string | null;
+  estimated_value: number;
+  has_photo?: boolean;
+  document_photo?: string | null;
+  created_at: string;
+}
+
+export interface LoanCollateralInput {
+  type: CollateralType;
+  description?: string;
+  estimated_value: number;
+  // Data URL; omit to keep the stored photo, null to remove it
+  document_photo?: string | null;
+}
+
+export interface GuarantorExposure {
+  member_id: string;
+  count: number;
+  exposure: number;
+  limit: number;
+  loans: {
+    id: string;
+    loan_id: string;
+    guaranteed_amount: number | null;
+    status: Loan['status'];
+    jumlah_pinjaman: number;
+    sisa_pinjaman: number;
+    tanggal_pinjaman: string;
+    borrower_name: string;
+    borrower_id_anggota?: string;
+    exposure: number;
+  }[];
+}
+
+export interface ArrearsLoanGuarantors {
+  loan_id: string;
+  member_id: string;
+  nama_lengkap: string;
+  id_anggota?: string;
+  no_hp?: string;
+  sisa_pinjaman: number;
+  overdue_installments: number;
+  overdue_amount: number;
+  oldest_due_date: string;
+  days_late: number;
+  guarantors: LoanGuarantor[];
+}
+
+export const loanGuaranteesApi = {
+  async getForLoan(loanId: string): Promise<ApiResponse<{ guarantors: LoanGuarantor[]; collaterals: LoanCollateral[]; total_collateral: number }>> {
+    return api.get<{ guarantors: LoanGuarantor[]; collaterals: LoanCollateral[]; total_collateral: number }>(`/api/loan-guarantees/loans/${loanId}`);
+  },
+
+  async addGuarantor(loanId: string, payload: { member_id: string; guaranteed_amount?: number | null; notes?: string }): Promise<ApiResponse<LoanGuarantor[]>> {
+    return api.post<LoanGuarantor[]>(`/api/loan-guarantees/loans/${loanId}/guarantors`, payload);
+  },
+
+  async removeGuarantor(id: string): Promise<ApiResponse<{ message: string }>> {
+    return api.delete<{ message: string }>(`/api/loan-guarantees/guarantors/${id}`);
+  },
+
+  async getCollateral(id: string): Promise<ApiResponse<LoanCollateral>> {
+    return api.get<LoanCollateral>(`/api/loan-guarantees/collaterals/${id}`);
+  },
+
+  async addCollateral(loanId: string, collateral: LoanCollateralInput): Promise<ApiResponse<LoanCollateral[]>> {
+    return api.post<LoanCollateral[]>(`/api/loan-guarantees/loans/${loanId}/collaterals`, collateral);
+  },
+
+  async updateCollateral(id: string, collateral: LoanCollateralInput): Promise<ApiResponse<LoanCollateral[]>> {
+    return api.put<LoanCollateral[]>(`/api/loan-guarantees/collaterals/${id}`, collateral);
+  },
+
+  async removeCollateral(id: string): Promise<ApiResponse<{ message: string }>> {
+    return api.delete<{ message: string }>(`/api/loan-guarantees/collaterals/${id}`);
+  },
+
+  async getMemberExposure(memberId: string): Promise<ApiResponse<GuarantorExposure>> {
+    return api.get<GuarantorExposure>(`/api/loan-guarantees/members/${memberId}`);
+  },
+
+  async getArrears(): Promise<ApiResponse<ArrearsLoanGuarantors[]>> {
+    return api.get<ArrearsLoanGuarantors[]>('/api/loan-guarantees/arrears');
+  }
+};
+
+// ==================== MEMBER CARDS ====================
+
+export interface MemberCardRecord {
+  id: string;
+  member_id: string;
+  serial: string;
+  key_id: string;
+  // Name and member number as printed when the card was issued
+  member_name: string;
+  id_anggota?: string | null;
+  issued_at: string;
+  expires_at: string;
+  status: 'aktif' | 'dicabut' | 'diganti';
+  revoked_at?: string | null;
+  revoke_reason?: string | null;
+  issued_by_email?: string | null;
+  created_at?: string;
+  // Signed QR text; only for the active card
+  payload: string | null;
+}
+
+// Public key (JWK, ES256) and revoked serials, cached for offline verification
+export interface MemberCardTrust {
+  kid: string;
+  alg: 'ES256';
+  public_key: JsonWebKey;
+  revoked: string[];
+  generated_at: string;
+}
+
+export const memberCardsApi = {
+  async getTrust(): Promise<ApiResponse<MemberCardTrust>> {
+    return api.get<MemberCardTrust>('/api/member-cards/trust');
+  },
+
+  async getByMember(memberId: string): Promise<ApiResponse<MemberCardRecord[]>> {
+    return api.get<MemberCardRecord[]>(`/api/member-cards/members/${memberId}`);
+  },
+
+  // Issues a new card and revokes the member's current one
+  async issue(memberId: string): Promise<ApiResponse<MemberCardRecord>> {
+    return api.post<MemberCardRecord>(`/api/member-cards/members/${memberId}`, {});
+  },
+
+  async revoke(cardId: string, reason: string): Promise<ApiResponse<MemberCardRecord[]>> {
+    return api.post<MemberCardRecord[]>(`/api/member-cards/${cardId}/revoke`, { reason });
+  }
+};
+
+// ==================== MEMBER PORTAL ====================
+
+// Same shape as MemberSavings; lastUpdated arrives as a date string
+export interface PortalSavingsSummary {
+  id: string;
+  memberId: string;
+  memberName: string;
+  operationalSavings: number;
+  loanFundSavings: number;
+  total: number;
+  lastUpdated: string | null;
+}
+
+export interface PortalProfile {
+  member: Pick<Member, 'id' | 'id_anggota' | 'nama_lengkap' | 'nik' | 'alamat' | 'no_hp' | 'jabatan' | 'status_keanggotaan' | 'tanggal_masuk'>;
+  savings: PortalSavingsSummary;
+}
+
+export interface PortalDue extends Pick<Due, 'id' | 'bulan' | 'tahun' | 'iuran_wajib' | 'iuran_sukarela' | 'tanggal_bayar' | 'status'> {
+  simpanan_wajib: number;
+}
+
+export interface PortalSaving extends Pick<Saving, 'id' | 'type' | 'amount' | 'description' | 'transaction_date' | 'created_at'> {
+  fund: 'operasional' | 'dana_pinjaman';
+}
+
+export interface PortalLoan extends Loan, LoanScheduleSummary {
+  schedule: LoanScheduleRow[];
+  next_installment: LoanScheduleRow | null;
+}
+
+export interface ShuStatement {
+  id: string;
+  year: number;
+  shu_amount: number;
+  posted_at: string;
+  modal_basis: number;
+  interest_basis: number;
+  jasa_modal: number;
+  jasa_pinjaman: number;
+  total: number;
+  payout_method: 'tunai' | 'simpanan' | null;
+  paid_at: string | null;
+}
+
+// Always scoped by the server to the member linked to the logged-in user
+export const portalApi = {
+  async getProfile(): Promise<ApiResponse<PortalProfile>> {
+    return api.get<PortalProfile>('/api/portal/me');
+  },
+
+  async getCard(): Promise<ApiResponse<MemberCardRecord | null>> {
+    return api.get<MemberCardRecord | null>('/api/portal/card');
+  },
+
+  async getDues(): Promise<ApiResponse<PortalDue[]>> {
+    return api.get<PortalDue[]>('/api/portal/dues');
+  },
+
+  async getSavings(): Promise<ApiResponse<{ summary: PortalSavingsSummary; transactions: PortalSaving[] }>> {
+    return api.get<{ summary: PortalSavingsSummary; transactions: PortalSaving[] }>('/api/portal/savings');
+  },
+
+  async getLoans(): Promise<ApiResponse<PortalLoan[]>> {
+    return api.get<PortalLoan[]>('/api/portal/loans');
+  },
+
+  async getShu(): Promise<ApiResponse<ShuStatement[]>> {
+    return api.get<ShuStatement[]>('/api/portal/shu');
+  }
+};
+
+// ==================== MEETINGS ====================
+
+export type MeetingType = 'rat' | 'rapat_anggota' | 'rapat_luar_biasa';
+export type MeetingStatus = 'terjadwal' | 'berlangsung' | 'selesai' | 'dibatalkan';
+
+// Quorum: more than kuorum_persen of the active members must be present
+export interface MeetingQuorum {
+  hadir: number;
+  total_anggota: number;
+  kuorum_persen: number;
+  dibutuhkan: number;
+  persentase_hadir: number;
+  terpenuhi: boolean;
+}
+
+export interface Meeting {
+  id: string;
+  judul: string;
+  jenis: MeetingType;
+  tanggal: string;
+  lokasi: string;
+  agenda?: string | null;
+  kuorum_persen: number;
+  status: MeetingStatus;
+  // Set when the meeting is closed
+  jumlah_anggota_aktif?: number | null;
+  closed_at?: string | null;
+  hadir: number;
+  quorum: MeetingQuorum;
+  created_at?: string;
+}
+
+export interface MeetingAttendance {
+  id: string;
+  meeting_id: string;
+  member_id: string;
+  check_in_at: string;
+  method: 'qr' | 'manual';
+  card_serial?: string | null;
+  nama_lengkap: string;
+  id_anggota?: string | null;
+  alamat?: string | null;
+  no_hp?: string | null;
+  recorded_by_email?: string | null;
+}
+
+export interface MeetingDetail extends Meeting {
+  attendance: MeetingAttendance[];
+}
+
+export interface MeetingInput {
+  judul: string;
+  jenis: MeetingType;
+  tanggal: string;
+  lokasi: string;
+  agenda?: string;
+  kuorum_persen: number;
+}
+
+export interface MeetingCheckInInput {
+  member_id: string;
+  method: 'qr' | 'manual';
+  card_serial?: string;
+}
+
+export const meetingsApi = {
+  async getAll(): Promise<ApiResponse<Meeting[]>> {
+    return api.get<Meeting[]>('/api/meetings');
+  },
+
+  async getById(id: string): Promise<ApiResponse<MeetingDetail>> {
+    return api.get<MeetingDetail>(`/api/meetings/${id}`);
+  },
+
+  async create(meeting: MeetingInput): Promise<ApiResponse<MeetingDetail>> {
+    return api.post<MeetingDetail>('/api/meetings', meeting);
+  },
+
+  async update(id: string, meeting: MeetingInput): Promise<ApiResponse<MeetingDetail>> {
+    return api.put<MeetingDetail>(`/api/meetings/${id}`, meeting);
+  },
+
+  // Closes the meeting and freezes the quorum basis
+  async close(id: string): Promise<ApiResponse<MeetingDetail>> {
+    return api.post<MeetingDetail>(`/api/meetings/${id}/close`, {});
+  },
+
+  async cancel(id: string): Promise<ApiResponse<MeetingDetail>> {
+    return api.post<MeetingDetail>(`/api/meetings/${id}/cancel`, {});
+  },
+
+  async checkIn(id: string, input: MeetingCheckInInput): Promise<ApiResponse<MeetingDetail>> {
+    return api.post<MeetingDetail>(`/api/meetings/${id}/attendance`, input);
+  },
+
+  async removeAttendance(id: string, attendanceId: string): Promise<ApiResponse<MeetingDetail>> {
+    return api.delete<MeetingDetail>(`/api/meetings/${id}/attendance/${attendanceId}`);
+  }
+};
+
+// ==================== SAVED QUERIES ====================
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  description?: string | null;
+  query: string;
+  is_shared: boolean | number;
+  created_by: string;
+  created_by_name?: string | null;
+  created_by_email?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedQueryInput {
+  name: string;
+  description?: string;
+  query: string;
+  is_shared: boolean;
+  // Only used by the local adapters; the server takes the owner from the session
+  created_by?: string;
+}
+
+export const savedQueriesApi = {
+  // Own queries plus those shared by other pengurus
+  async getAll(): Promise<ApiResponse<SavedQuery[]>> {
+    return api.get<SavedQuery[]>('/api/saved-queries');
+  },
+
+  async create(input: SavedQueryInput): Promise<ApiResponse<SavedQuery>> {
+    return api.post<SavedQuery>('/api/saved-queries', input);
+  },
+
+  async update(id: string, input: Partial<SavedQueryInput>): Promise<ApiResponse<SavedQuery>> {
+    return api.put<SavedQuery>(`/api/saved-queries/${id}`, input);
+  },
+
+  async delete(id: string): Promise<ApiResponse<{ message: string }>> {
+    return api.delete(`/api/saved-queries/${id}`);
+  }
+};
+
+// ==================== BUDGETS ====================
+
+// One category in one month of the RAPB (Rencana Anggaran Pendapatan dan Belanja)
+export interface Budget {
+  id: string;
+  tahun: number;
+  bulan: number;
+  category_type: 'income' | 'expense';
+  category_name: string;
+  category_id?: string | null;
+  jumlah: number;
+  catatan?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BudgetInput {
+  bulan: number;
+  category_type: 'income' | 'expense';
+  category_name: string;
+  category_id?: string | null;
+  jumlah: number;
+  catatan?: string | null;
+}
+
+export const budgetsApi = {
+  async getAll(params?: { tahun?: number }): Promise<ApiResponse<Budget[]>> {
+    const query = params?.tahun ? `?tahun=${params.tahun}` : '';
+    return api.get<Budget[]>(`/api/budgets${query}`);
+  },
+
+  // Replaces every budget line of the year
+  async saveYear(tahun: number, items: BudgetInput[]): Promise<ApiResponse<Budget[]>> {
+    return api.put<Budget[]>(`/api/budgets/${tahun}`, { items });
+  }
+};
+
+// ==================== TRANSACTIONS ====================
+
+export const transactionsApi = {
+  async getAll(params?: {
+    transaction_type?: Transaction['transaction_type'];
+    status?: Transaction['status'];
+    recurring_transaction_id?: string;
+  }): Promise<ApiResponse<Transaction[]>> {
+    const query = new URLSearchParams();
+    if (params?.transaction_type) query.append('transaction_type', params.transaction_type);
+    if (params?.status) query.append('status', params.status);
+    if (params?.recurring_transaction_id) query.append('recurring_transaction_id', params.recurring_transaction_id);
+
+    const queryString = query.toString() ? `?${query.toString()}` : '';
+    return api.get<Transaction[]>(`/api/transactions${queryString}`);
+  },
+
+  async getById(id: string): Promise<ApiResponse<Transaction>> {
+    return api.get<Transaction>(`/api/transactions/${id}`);
+  },
+
+  async create(transaction: Partial<Transaction>): Promise<ApiResponse<Transaction>> {
+    return api.post<Transaction>('/api/transactions', transaction);
+  },
+
+  async update(id: string, transaction: Partial<Transaction>): Promise<ApiResponse<Transaction>> {
+    return api.put<Transaction>(`/api/transactions/${id}`, transaction);
+  },
+
+  async delete(id: string): Promise<ApiResponse<{ message: string }>> {
+    return api.delete<{ message: string }>(`/api/transactions/${id}`);
+  },
+
+  async getCategories(params?: { type?: TransactionCategory['type']; is_active?: boolean }): Promise<ApiResponse<TransactionCategory[]>> {
+    const query = new URLSearchParams();
+    if (params?.type) query.append('type', params.type);
+    if (params?.is_active !== undefined) query.append('is_active', String(params.is_active));
+
+    const queryString = query.toString() ? `?${query.toString()}` : '';
+    return api.get<TransactionCategory[]>(`/api/transactions/categories${queryString}`);
+  },
+
+  async createCategory(category: Partial<TransactionCategory>): Promise<ApiResponse<TransactionCategory>> {
+    return api.post<TransactionCategory>('/api/transactions/categories', category);
+  },
+
+  async updateCategory(id: string, category: Partial<TransactionCategory>): Promise<ApiResponse<TransactionCategory>> {
+    return api.put<TransactionCategory>(`/api/transactions/categories/${id}`, category);
+  },
+
+  async deleteCategory(id: string): Promise<ApiResponse<{ message: string }>> {
+    return api.delete<{ message: string }>(`/api/transactions/categories/${id}`);
+  },
+
+  async getPaymentMethods(params?: { is_active?: boolean }): Promise<ApiResponse<PaymentMethod[]>> {
+    const query = params?.is_active !== undefined ? `?is_active=${params.is_active}` : '';
+    return api.get<PaymentMethod[]>(`/api/transactions/payment-methods${query}`);
+  },
+
+  async createPaymentMethod(paymentMethod: Partial<PaymentMethod>): Promise<ApiResponse<PaymentMethod>> {
+    return api.post<PaymentMethod>('/api/transactions/payment-methods', paymentMethod);
+  },
+
+  async updatePaymentMethod(id: string, paymentMethod: Partial<PaymentMethod>): Promise<ApiResponse<PaymentMethod>> {
+    return api.put<PaymentMethod>(`/api/transactions/payment-methods/${id}`, paymentMethod);
+  },
+
+  async deletePaymentMethod(id: string): Promise<ApiResponse<{ message: string }>> {
+    return api.delete<{ message: string }>(`/api/transactions/payment-methods/${id}`);
+  },
+
+  async getRecurring(params?: { is_active?: boolean }): Promise<ApiResponse<RecurringTransaction[]>> {
+    const query = params?.is_active !== undefined ? `?is_active=${params.is_active}` : '';
+    return api.get<RecurringTransaction[]>(`/api/transactions/recurring${query}`);
+  },
+
+  async getRecurringById(id: string): Promise<ApiResponse<RecurringTransaction>> {
+    return api.get<RecurringTransaction>(`/api/transactions/recurring/${id}`);
+  },
+
+  async createRecurring(template: Partial<RecurringTransaction>): Promise<ApiResponse<RecurringTransaction>> {
+    return api.post<RecurringTransaction>('/api/transactions/recurring', template);
+  },
+
+  async updateRecurring(id: string, template: Partial<RecurringTransaction>): Promise<ApiResponse<RecurringTransaction>> {
+    return api.put<RecurringTransaction>(`/api/transactions/recurring/${id}`, template);
+  },
+
+  async deleteRecurring(id: string): Promise<ApiResponse<{ message: string }>> {
+    return api.delete<{ message: string }>(`/api/transactions/recurring/${id}`);
+  }
+};
+
+// ==================== WHATSAPP BOT ====================
+
+export const whatsappBotApi = {
+  async getConfigs(): Promise<ApiResponse<WhatsAppConfig[]>> {
+    return api.get<WhatsAppConfig[]>('/api/whatsapp-bot/config');
+  },
+
+  async createConfig(config: Partial<WhatsAppConfig>): Promise<ApiResponse<WhatsAppConfig>> {
+    return api.post<WhatsAppConfig>('/api/whatsapp-bot/config', config);
+  },
+
+  async updateConfig(id: string, config: Partial<WhatsAppConfig>): Promise<ApiResponse<WhatsAppConfig>> {
+    return api.put<WhatsAppConfig>(`/api/whatsapp-bot/config/${id}`, config);
+  },
+
+  async getTemplates(params?: { is_active?: boolean }): Promise<ApiResponse<WhatsAppMessageTemplate[]>> {
+    const query = params?.is_active !== undefined ? `?is_active=${params.is_active}` : '';
+    return api.get<WhatsAppMessageTemplate[]>(`/api/whatsapp-bot/templates${query}`);
+  },
+
+  async createTemplate(template: Partial<WhatsAppMessageTemplate>): Promise<ApiResponse<WhatsAppMessageTemplate>> {
+    return api.post<WhatsAppMessageTemplate>('/api/whatsapp-bot/templates', template);
+  },
+
+  async updateTemplate(id: string, template: Partial<WhatsAppMessageTemplate>): Promise<ApiResponse<WhatsAppMessageTemplate>> {
+    return api.put<WhatsAppMessageTemplate>(`/api/whatsapp-bot/templates/${id}`, template);
+  },
+
+  async deleteTemplate(id: string): Promise<ApiResponse<{ message: string }>> {
+    return api.delete<{ message: string }>(`/api/whatsapp-bot/templates/${id}`);
+  },
+
+  async getVerifications(params?: { phone_number?: string; is_verified?: boolean }): Promise<ApiResponse<WhatsAppVerification[]>> {
+    const query = new URLSearchParams();
+    if (params?.phone_number) query.append('phone_number', params.phone_number);
+    if (params?.is_verified !== undefined) query.append('is_verified', String(params.is_verified));
+
+    const queryString = query.toString() ? `?${query.toString()}` : '';
+    return api.get<WhatsAppVerification[]>(`/api/whatsapp-bot/verifications${queryString}`);
+  },
+
+  async createVerification(verification: Partial<WhatsAppVerification>): Promise<ApiResponse<WhatsAppVerification>> {
+    return api.post<WhatsAppVerification>('/api/whatsapp-bot/verifications', verification);
+  },
+
+  async updateVerification(id: string, verification: Partial<WhatsAppVerification>): Promise<ApiResponse<WhatsAppVerification>> {
+    return api.put<WhatsAppVerification>(`/api/whatsapp-bot/verifications/${id}`, verification);
+  },
+
+  async deleteVerification(id: string): Promise<ApiResponse<{ message: string }>> {
+    return api.delete<{ message: string }>(`/api/whatsapp-bot/verifications/${id}`);
+  },
+
+  async getFlows(params?: { is_active?: boolean }): Promise<ApiResponse<ConversationFlow[]>> {
+    const query = params?.is_active !== undefined ? `?is_active=${params.is_active}` : '';
+    return api.get<ConversationFlow[]>(`/api/whatsapp-bot/flows${query}`);
+  },
+
+  async getFlow(id: string): Promise<ApiResponse<ConversationFlow>> {
+    return api.get<ConversationFlow>(`/api/whatsapp-bot/flows/${id}`);
+  },
+
+  async createFlow(flow: Partial<ConversationFlow>): Promise<ApiResponse<ConversationFlow>> {
+    return api.post<ConversationFlow>('/api/whatsapp-bot/flows', flow);
+  },
+
+  async updateFlow(id: string, flow: Partial<ConversationFlow>): Promise<ApiResponse<ConversationFlow>> {
+    return api.put<ConversationFlow>(`/api/whatsapp-bot/flows/${id}`, flow);
+  },
+
+  async deleteFlow(id: string): Promise<ApiResponse<{ message: string }>> {
+    return api.delete<{ message: string }>(`/api/whatsapp-bot/flows/${id}`);
+  },
+
+  async getFlowSubmissions(params?: { status?: FlowSubmission['status']; flow_id?: string }): Promise<ApiResponse<FlowSubmission[]>> {
+    const query = new URLSearchParams();
+    if (params?.status) query.append('status', params.status);
+    if (params?.flow_id) query.append('flow_id', params.flow_id);
+
+    const queryString = query.toString() ? `?${query.toString()}` : '';
+    return api.get<FlowSubmission[]>(`/api/whatsapp-bot/flow-submissions${queryString}`);
+  },
+
+  async createFlowSubmission(submission: Partial<FlowSubmission>): Promise<ApiResponse<FlowSubmission>> {
+    return api.post<FlowSubmission>('/api/whatsapp-bot/flow-submissions', submission);
+  },
+
+  async updateFlowSubmission(id: string, submission: Partial<FlowSubmission>): Promise<ApiResponse<FlowSubmission>> {
+    return api.put<FlowSubmission>(`/api/whatsapp-bot/flow-submissions/${id}`, submission);
+  },
+
+  async getNotificationLogs(params?: { dedup_key?: string; status?: NotificationLogRecord['status'] }): Promise<ApiResponse<NotificationLogRecord[]>> {
+    const query = new URLSearchParams();
+    if (params?.dedup_key) query.append('dedup_key', params.dedup_key);
+    if (params?.status) query.append('status', params.status);
+
+    const queryString = query.toString() ? `?${query.toString()}` : '';
+    return api.get<NotificationLogRecord[]>(`/api/whatsapp-bot/notification-logs${queryString}`);
+  },
+
+  // 409 when another sender already claimed the reminder
+  async createNotificationLog(log: Partial<NotificationLogRecord>): Promise<ApiResponse<NotificationLogRecord>> {
+    return api.post<NotificationLogRecord>('/api/whatsapp-bot/notification-logs', log);
+  },
+
+  async updateNotificationLog(id: string, log: Partial<NotificationLogRecord>): Promise<ApiResponse<NotificationLogRecord>> {
+    return api.put<NotificationLogRecord>(`/api/whatsapp-bot/notification-logs/${id}`, log);
+  },
+
+  async getSegments(): Promise<ApiResponse<AudienceSegment[]>> {
+    return api.get<AudienceSegment[]>('/api/whatsapp-bot/segments');
+  },
+
+  async getSegment(id: string): Promise<ApiResponse<AudienceSegment>> {
+    return api.get<AudienceSegment>(`/api/whatsapp-bot/segments/${id}`);
+  },
+
+  async createSegment(segment: Partial<AudienceSegment>): Promise<ApiResponse<AudienceSegment>> {
+    return api.post<AudienceSegment>('/api/whatsapp-bot/segments', segment);
+  },
+
+  async updateSegment(id: string, segment: Partial<AudienceSegment>): Promise<ApiResponse<AudienceSegment>> {
+    return api.put<AudienceSegment>(`/api/whatsapp-bot/segments/${id}`, segment);
+  },
+
+  async deleteSegment(id: string): Promise<ApiResponse<{ message: string }>> {
+    return api.delete<{ message: string }>(`/api/whatsapp-bot/segments/${id}`);
+  }
+};
+
 // ==================== DASHBOARD ====================
 
 export interface DashboardStats {
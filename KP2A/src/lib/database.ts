@@ -1,4 +1,6 @@
 // Database layer - temporary demo mode (MySQL backend in use)
+// Legacy Supabase client for pages not yet moved to lib/repositories, which selects the
+// MySQL, Supabase or IndexedDB backend from VITE_DATA_BACKEND.
 import { supabase, isSupabaseAvailable } from './supabase'
 
 // Get the database client (Supabase only - disabled for MySQL migration)
@@ -0,0 +1,464 @@
+import {
+  containsAggregate,
+  Expression,
+  isAggregateCall,
+  SelectItem,
+  SelectStatement,
+  SqlError,
+  Value
+} from './parser'
+
+export type QueryRow = Record<string, Value>
+
+export interface QueryResult {
+  columns: string[]
+  rows: QueryRow[]
+}
+
+// Loads every row of a whitelisted table; the executor never sees any other table
+export type TableLoader = (table: string) => Promise<QueryRow[]>
+
+interface Source {
+  alias: string
+  columns: string[]
+  // Empty tables have no known columns, so any column name is accepted for them
+  empty: boolean
+}
+
+// One joined row: alias -> row, or null for the missing side of a LEFT JOIN
+type Scope = Map<string, QueryRow | null>
+
+interface Context {
+  scope: Scope
+  // Rows of the current group when evaluating aggregates
+  group?: Scope[]
+  // Output columns by name, so ORDER BY and HAVING can refer to select aliases
+  output?: QueryRow
+}
+
+const isNumeric = (value: Value): boolean =>
+  typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value)))
+
+const toNumber = (value: Value): number | null => {
+  if (value === null) return null
+  if (typeof value === 'boolean') return value ? 1 : 0
+  const number = Number(value)
+  return Number.isNaN(number) ? null : number
+}
+
+const isTruthy = (value: Value): boolean => {
+  if (value === null) return false
+  if (typeof value === 'string') return isNumeric(value) ? Number(value) !== 0 : value !== ''
+  return Boolean(value)
+}
+
+/**
+ * MySQL-like comparison: numbers (and numeric strings such as DECIMAL columns) compare by value,
+ * everything else as text. Returns null when either side is NULL.
+ */
+export const compareValues = (left: Value, right: Value): number | null => {
+  if (left === null || right === null) return null
+  const leftNumeric = isNumeric(left) || typeof left === 'boolean'
+  const rightNumeric = isNumeric(right) || typeof right === 'boolean'
+  if (leftNumeric && rightNumeric) {
+    const difference = (toNumber(left) as number) - (toNumber(right) as number)
+    return difference === 0 ? 0 : difference < 0 ? -1 : 1
+  }
+  return String(left).localeCompare(String(right))
+}
+
+// NULLs sort first, as in MySQL
+const sortCompare = (left: Value, right: Value): number => {
+  if (left === null && right === null) return 0
+  if (left === null) return -1
+  if (right === null) return 1
+  return compareValues(left, right) as number
+}
+
+const likeToRegExp = (pattern: string): RegExp => {
+  const source = pattern
+    .split('')
+    .map(char => char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('')
+  return new RegExp(`^${source}$`, 'is')
+}
+
+const datePart = (value: Value, part: 'year' | 'month' | 'date'): Value => {
+  if (value === null) return null
+  const text = String(value)
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(text)
+  if (match) {
+    if (part === 'year') return Number(match[1])
+    if (part === 'month') return Number(match[2])
+    return `${match[1]}-${match[2]}-${match[3]}`
+  }
+  const date = new Date(text)
+  if (Number.isNaN(date.getTime())) return null
+  if (part === 'year') return date.getFullYear()
+  if (part === 'month') return date.getMonth() + 1
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+class Executor {
+  private readonly sources: Source[] = []
+  private readonly resolved = new Map<string, string>()
+
+  constructor(private readonly statement: SelectStatement) {}
+
+  addSource(alias: string, rows: QueryRow[]): void {
+    if (this.sources.some(source => source.alias === alias)) {
+      throw new SqlError(`Alias tabel ${alias} dipakai lebih dari sekali`)
+    }
+    const columns = new Set<string>()
+    rows.forEach(row => Object.keys(row).forEach(column => columns.add(column)))
+    this.sources.push({ alias, columns: [...columns], empty: rows.length === 0 })
+  }
+
+  // Finds which table an unqualified column belongs to
+  private resolveAlias(name: string): string | undefined {
+    if (this.resolved.has(name)) return this.resolved.get(name)
+
+    const owners = this.sources.filter(source => source.columns.includes(name))
+    if (owners.length > 1) {
+      throw new SqlError(`Kolom ${name} ada di lebih dari satu tabel, tulis sebagai ${owners[0].alias}.${name}`)
+    }
+    if (owners.length === 0 && !this.sources.some(source => source.empty)) {
+      throw new SqlError(`Kolom ${name} tidak ditemukan`)
+    }
+    const alias = owners[0]?.alias
+    if (alias) this.resolved.set(name, alias)
+    return alias
+  }
+
+  private column(table: string | undefined, name: string, context: Context): Value {
+    if (!table && context.output && name in context.output) return context.output[name]
+
+    if (table) {
+      const source = this.sources.find(candidate => candidate.alias === table)
+      if (!source) throw new SqlError(`Tabel atau alias ${table} tidak dikenal`)
+      if (!source.empty && !source.columns.includes(name)) throw new SqlError(`Kolom ${table}.${name} tidak ditemukan`)
+    }
+
+    const alias = table || this.resolveAlias(name)
+    if (!alias) return null
+    const row = context.scope.get(alias)
+    return row ? row[name] ?? null : null
+  }
+
+  private aggregate(expression: Extract<Expression, { kind: 'call' }>, context: Context): Value {
+    if (!context.group) throw new SqlError(`${expression.name} tidak dapat dipakai di WHERE atau ON`)
+
+    if (expression.star) return context.group.length
+
+    let values = context.group
+      .map(scope => this.evaluate(expression.args[0], { scope }))
+      .filter((value): value is Exclude<Value, null> => value !== null)
+    if (expression.distinct) {
+      const seen = new Set<string>()
+      values = values.filter(value => {
+        const key = `${typeof value}:${String(value)}`
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+    }
+
+    switch (expression.name) {
+      case 'COUNT':
+        return values.length
+      case 'SUM':
+        return values.length === 0 ? null : values.reduce<number>((sum, value) => sum + (toNumber(value) || 0), 0)
+      case 'AVG':
+        return values.length === 0 ? null : values.reduce<number>((sum, value) => sum + (toNumber(value) || 0), 0) / values.length
+      case 'MIN':
+        return values.reduce<Value>((min, value) => min === null || sortCompare(value, min) < 0 ? value : min, null)
+      default:
+        return values.reduce<Value>((max, value) => max === null || sortCompare(value, max) > 0 ? value : max, null)
+    }
+  }
+
+  private call(expression: Extract<Expression, { kind: 'call' }>, context: Context): Value {
+    if (isAggregateCall(expression)) return this.aggregate(expression, context)
+
+    const args = expression.args.map(arg => this.evaluate(arg, context))
+    const [first] = args
+    switch (expression.name) {
+      case 'LOWER':
+        return first === null ? null : String(first).toLowerCase()
+      case 'UPPER':
+        return first === null ? null : String(first).toUpperCase()
+      case 'LENGTH':
+        return first === null ? null : String(first).length
+      case 'COALESCE':
+        return args.find(value => value !== null) ?? null
+      case 'ROUND': {
+        const number = toNumber(first)
+        const digits = toNumber(args[1] ?? 0) || 0
+        return number === null ? null : Math.round(number * 10 ** digits) / 10 ** digits
+      }
+      case 'ABS': {
+        const number = toNumber(first)
+        return number === null ? null : Math.abs(number)
+      }
+      case 'YEAR':
+        return datePart(first, 'year')
+      case 'MONTH':
+        return datePart(first, 'month')
+      default:
+        return datePart(first, 'date')
+    }
+  }
+
+  private arithmetic(operator: string, left: Value, right: Value): Value {
+    const a = toNumber(left)
+    const b = toNumber(right)
+    if (a === null || b === null) return null
+    switch (operator) {
+      case '+': return a + b
+      case '-': return a - b
+      case '*': return a * b
+      // Division by zero gives NULL, as in MySQL
+      case '/': return b === 0 ? null : a / b
+      default: return b === 0 ? null : a % b
+    }
+  }
+
+  evaluate(expression: Expression, context: Context): Value {
+    switch (expression.kind) {
+      case 'literal':
+        return expression.value
+
+      case 'column':
+        // Outside an aggregate a grouped query reads the first row of the group
+        if (context.group && !context.scope.size) {
+          return context.group.length ? this.column(expression.table, expression.name, { ...context, scope: context.group[0] }) : null
+        }
+        return this.column(expression.table, expression.name, context)
+
+      case 'call':
+        return this.call(expression, context)
+
+      case 'unary': {
+        const operand = this.evaluate(expression.operand, context)
+        if (operand === null) return null
+        return expression.operator === 'NOT' ? !isTruthy(operand) : -(toNumber(operand) || 0)
+      }
+
+      case 'binary': {
+        if (expression.operator === 'AND') {
+          const left = this.evaluate(expression.left, context)
+          if (left !== null && !isTruthy(left)) return false
+          const right = this.evaluate(expression.right, context)
+          if (right !== null && !isTruthy(right)) return false
+          return left === null || right === null ? null : true
+        }
+        if (expression.operator === 'OR') {
+          const left = this.evaluate(expression.left, context)
+          if (isTruthy(left)) return true
+          const right = this.evaluate(expression.right, context)
+          if (isTruthy(right)) return true
+          return left === null || right === null ? null : false
+        }
+
+        const left = this.evaluate(expression.left, context)
+        const right = this.evaluate(expression.right, context)
+        if (['+', '-', '*', '/', '%'].includes(expression.operator)) return this.arithmetic(expression.operator, left, right)
+
+        const comparison = compareValues(left, right)
+        if (comparison === null) return null
+        switch (expression.operator) {
+          case '=': return comparison === 0
+          case '!=': return comparison !== 0
+          case '<': return comparison < 0
+          case '<=': return comparison <= 0
+          case '>': return comparison > 0
+          default: return comparison >= 0
+        }
+      }
+
+      case 'isNull': {
+        const isNull = this.evaluate(expression.operand, context) === null
+        return expression.negated ? !isNull : isNull
+      }
+
+      case 'in': {
+        const operand = this.evaluate(expression.operand, context)
+        if (operand === null) return null
+        const found = expression.values.some(value => compareValues(operand, this.evaluate(value, context)) === 0)
+        return expression.negated ? !found : found
+      }
+
+      case 'like': {
+        const operand = this.evaluate(expression.operand, context)
+        const pattern = this.evaluate(expression.pattern, context)
+        if (operand === null || pattern === null) return null
+        const matches = likeToRegExp(String(pattern)).test(String(operand))
+        return expression.negated ? !matches : matches
+      }
+
+      case 'between': {
+        const operand = this.evaluate(expression.operand, context)
+        const low = compareValues(operand, this.evaluate(expression.low, context))
+        const high = compareValues(operand, this.evaluate(expression.high, context))
+        if (low === null || high === null) return null
+        const inside = low >= 0 && high <= 0
+        return expression.negated ? !inside : inside
+      }
+    }
+  }
+
+  // Output column names and how to compute them; `*` expands to every column of the table(s)
+  outputColumns(): { name: string; compute: (context: Context) => Value }[] {
+    const columns: { name: string; compute: (context: Context) => Value }[] = []
+    const taken = new Set<string>()
+    const uniqueName = (name: string, alias?: string) => {
+      let unique = name
+      if (taken.has(unique) && alias) unique = `${alias}.${name}`
+      for (let n = 2; taken.has(unique); n++) unique = `${name} (${n})`
+      taken.add(unique)
+      return unique
+    }
+
+    const expandStar = (item: Extract<SelectItem, { kind: 'star' }>) => {
+      const sources = item.table ? this.sources.filter(source => source.alias === item.table) : this.sources
+      if (item.table && sources.length === 0) throw new SqlError(`Tabel atau alias ${item.table} tidak dikenal`)
+      sources.forEach(source => source.columns.forEach(column => {
+        columns.push({
+          name: uniqueName(column, source.alias),
+          compute: (context) => this.evaluate({ kind: 'column', table: source.alias, name: column }, context)
+        })
+      }))
+    }
+
+    this.statement.columns.forEach(item => {
+      if (item.kind === 'star') {
+        expandStar(item)
+        return
+      }
+      const fallback = item.expression.kind === 'column' ? item.expression.name : item.text
+      columns.push({
+        name: uniqueName(item.alias || fallback, item.expression.kind === 'column' ? item.expression.table : undefined),
+        compute: (context) => this.evaluate(item.expression, context)
+      })
+    })
+    return columns
+  }
+}
+
+const joinRows = (executor: Executor, scopes: Scope[], alias: string, rows: QueryRow[], join: SelectStatement['joins'][number]): Scope[] => {
+  const joined: Scope[] = []
+  scopes.forEach(scope => {
+    let matched = false
+    rows.forEach(row => {
+      const candidate = new Map(scope).set(alias, row)
+      if (isTruthy(executor.evaluate(join.on, { scope: candidate }))) {
+        joined.push(candidate)
+        matched = true
+      }
+    })
+    if (!matched && join.type === 'left') joined.push(new Map(scope).set(alias, null))
+  })
+  return joined
+}
+
+/**
+ * Run a parsed SELECT against rows supplied by `loadTable`, entirely in memory. Semantics follow
+ * MySQL where it matters for reports: NULL comparisons are unknown, numeric strings compare as
+ * numbers, and columns outside an aggregate in a grouped query take the group's first row.
+ */
+export const executeSelect = async (statement: SelectStatement, loadTable: TableLoader): Promise<QueryResult> => {
+  const executor = new Executor(statement)
+
+  const fromRows = await loadTable(statement.from.name)
+  executor.addSource(statement.from.alias, fromRows)
+  const joinedRows: QueryRow[][] = []
+  for (const join of statement.joins) {
+    const rows = await loadTable(join.table.name)
+    executor.addSource(join.table.alias, rows)
+    joinedRows.push(rows)
+  }
+
+  if (statement.where && containsAggregate(statement.where)) {
+    throw new SqlError('Fungsi agregat tidak dapat dipakai di WHERE, gunakan HAVING')
+  }
+
+  let scopes: Scope[] = fromRows.map(row => new Map([[statement.from.alias, row]]))
+  statement.joins.forEach((join, index) => {
+    scopes = joinRows(executor, scopes, join.table.alias, joinedRows[index], join)
+  })
+
+  if (statement.where) {
+    const where = statement.where
+    scopes = scopes.filter(scope => isTruthy(executor.evaluate(where, { scope })))
+  }
+
+  const columns = executor.outputColumns()
+  const grouped = statement.groupBy.length > 0 || !!statement.having || statement.columns.some(item =>
+    item.kind === 'expression' && containsAggregate(item.expression))
+
+  // Each output row keeps the context it was computed in, for ORDER BY
+  let contexts: Context[]
+  if (grouped) {
+    const groups = new Map<string, Scope[]>()
+    scopes.forEach(scope => {
+      const key = JSON.stringify(statement.groupBy.map(expression => executor.evaluate(expression, { scope })))
+      groups.set(key, [...(groups.get(key) || []), scope])
+    })
+    // Aggregates without GROUP BY summarise everything into one row, even when nothing matched
+    if (statement.groupBy.length === 0 && groups.size === 0) groups.set('[]', [])
+    contexts = [...groups.values()].map(group => ({ scope: new Map(), group }))
+  } else {
+    contexts = scopes.map(scope => ({ scope }))
+  }
+
+  let results = contexts.map(context => {
+    const output: QueryRow = {}
+    columns.forEach(column => { output[column.name] = column.compute(context) })
+    return { context: { ...context, output }, output }
+  })
+
+  if (statement.having) {
+    const having = statement.having
+    results = results.filter(result => isTruthy(executor.evaluate(having, result.context)))
+  }
+
+  if (statement.distinct) {
+    const seen = new Set<string>()
+    results = results.filter(result => {
+      const key = JSON.stringify(columns.map(column => result.output[column.name]))
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }
+
+  if (statement.orderBy.length > 0) {
+    const keyed = results.map(result => ({
+      result,
+      keys: statement.orderBy.map(item => {
+        // ORDER BY 2 sorts by the second output column
+        if (item.expression.kind === 'literal' && typeof item.expression.value === 'number') {
+          const column = columns[item.expression.value - 1]
+          if (!column) throw new SqlError(`ORDER BY ${item.expression.value} di luar jumlah kolom`)
+          return result.output[column.name]
+        }
+        return executor.evaluate(item.expression, result.context)
+      })
+    }))
+    keyed.sort((a, b) => {
+      for (let i = 0; i < statement.orderBy.length; i++) {
+        const difference = sortCompare(a.keys[i], b.keys[i])
+        if (difference !== 0) return statement.orderBy[i].descending ? -difference : difference
+      }
+      return 0
+    })
+    results = keyed.map(item => item.result)
+  }
+
+  const offset = statement.offset || 0
+  const end = statement.limit === undefined ? undefined : offset + statement.limit
+  return {
+    columns: columns.map(column => column.name),
+    rows: results.slice(offset, end).map(result => result.output)
+  }
+}
@@ -0,0 +1,14 @@
+import { executeSelect, QueryResult, TableLoader } from './executor'
+import { parseSelect } from './parser'
+import { createTableLoader } from './tables'
+
+export { SqlError, parseSelect } from './parser'
+export type { SelectStatement, Value } from './parser'
+export type { QueryResult, QueryRow, TableLoader } from './executor'
+export { QUERY_TABLES, createTableLoader } from './tables'
+
+/**
+ * Parse and run one read-only SELECT against the whitelisted tables of the data layer
+ */
+export const runQuery = async (sql: string, loadTable: TableLoader = createTableLoader()): Promise<QueryResult> =>
+  executeSelect(parseSelect(sql), loadTable)
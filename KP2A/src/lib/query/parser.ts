@@ -0,0 +1,511 @@
+/**
+ * Parser for the read-only SELECT subset accepted by the SQL Editor:
+ *
+ *   SELECT [DISTINCT] columns FROM table [alias]
+ *     [[INNER | LEFT [OUTER]] JOIN table [alias] ON condition]...
+ *     [WHERE condition] [GROUP BY expressions] [HAVING condition]
+ *     [ORDER BY expression [ASC | DESC], ...] [LIMIT n [OFFSET m]]
+ *
+ * Anything else (a second statement, INSERT/UPDATE/DELETE, subqueries, unknown functions) is a
+ * syntax error, so the text can never do more than read rows.
+ */
+
+export type Value = string | number | boolean | null
+
+export type Expression =
+  | { kind: 'literal'; value: Value }
+  | { kind: 'column'; table?: string; name: string }
+  | { kind: 'unary'; operator: '-' | 'NOT'; operand: Expression }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression }
+  | { kind: 'isNull'; operand: Expression; negated: boolean }
+  | { kind: 'in'; operand: Expression; values: Expression[]; negated: boolean }
+  | { kind: 'like'; operand: Expression; pattern: Expression; negated: boolean }
+  | { kind: 'between'; operand: Expression; low: Expression; high: Expression; negated: boolean }
+  | { kind: 'call'; name: string; args: Expression[]; distinct: boolean; star: boolean }
+
+export type BinaryOperator = 'AND' | 'OR' | '=' | '!=' | '<' | '<=' | '>' | '>=' | '+' | '-' | '*' | '/' | '%'
+
+export type SelectItem =
+  | { kind: 'star'; table?: string }
+  | { kind: 'expression'; expression: Expression; alias?: string; text: string }
+
+export interface TableReference {
+  name: string
+  alias: string
+}
+
+export interface Join {
+  type: 'inner' | 'left'
+  table: TableReference
+  on: Expression
+}
+
+export interface OrderItem {
+  expression: Expression
+  descending: boolean
+}
+
+export interface SelectStatement {
+  distinct: boolean
+  columns: SelectItem[]
+  from: TableReference
+  joins: Join[]
+  where?: Expression
+  groupBy: Expression[]
+  having?: Expression
+  orderBy: OrderItem[]
+  limit?: number
+  offset?: number
+}
+
+export const AGGREGATE_FUNCTIONS = ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX']
+export const SCALAR_FUNCTIONS = ['LOWER', 'UPPER', 'LENGTH', 'COALESCE', 'ROUND', 'ABS', 'YEAR', 'MONTH', 'DATE']
+
+const KEYWORDS = new Set([
+  'SELECT', 'DISTINCT', 'FROM', 'WHERE', 'GROUP', 'BY', 'HAVING', 'ORDER', 'ASC', 'DESC', 'LIMIT', 'OFFSET',
+  'JOIN', 'INNER', 'LEFT', 'OUTER', 'ON', 'AS', 'AND', 'OR', 'NOT', 'IN', 'IS', 'NULL', 'LIKE', 'BETWEEN',
+  'TRUE', 'FALSE',
+  // Never valid here, but reserved so they are reported instead of being read as an alias
+  'INSERT', 'UPDATE', 'DELETE', 'DROP', 'ALTER', 'CREATE', 'TRUNCATE', 'REPLACE', 'GRANT', 'UNION', 'INTO', 'SET'
+])
+
+export class SqlError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(message)
+    this.name = 'SqlError'
+  }
+}
+
+type TokenType = 'keyword' | 'identifier' | 'number' | 'string' | 'symbol' | 'end'
+
+interface Token {
+  type: TokenType
+  value: string
+  start: number
+  end: number
+}
+
+const SYMBOLS = ['<=', '>=', '<>', '!=', '=', '<', '>', '(', ')', ',', '.', '*', '+', '-', '/', '%', ';']
+
+export const tokenize = (sql: string): Token[] => {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < sql.length) {
+    const char = sql[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    // -- line comments and /* block comments */
+    if (sql.startsWith('--', i) || char === '#') {
+      while (i < sql.length && sql[i] !== '\n') i++
+      continue
+    }
+    if (sql.startsWith('/*', i)) {
+      const close = sql.indexOf('*/', i + 2)
+      if (close === -1) throw new SqlError('Komentar /* tidak ditutup', i)
+      i = close + 2
+      continue
+    }
+
+    const start = i
+
+    if (char === "'") {
+      let value = ''
+      i++
+      while (true) {
+        if (i >= sql.length) throw new SqlError('Teks dalam tanda kutip tidak ditutup', start)
+        if (sql[i] === "'" && sql[i + 1] === "'") {
+          value += "'"
+          i += 2
+        } else if (sql[i] === "'") {
+          i++
+          break
+        } else {
+          value += sql[i++]
+        }
+      }
+      tokens.push({ type: 'string', value, start, end: i })
+      continue
+    }
+
+    if (char === '`' || char === '"') {
+      const close = sql.indexOf(char, i + 1)
+      if (close === -1) throw new SqlError(`Nama dalam tanda ${char} tidak ditutup`, start)
+      tokens.push({ type: 'identifier', value: sql.slice(i + 1, close), start, end: close + 1 })
+      i = close + 1
+      continue
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(sql[i + 1] || ''))) {
+      while (i < sql.length && /[0-9.]/.test(sql[i])) i++
+      tokens.push({ type: 'number', value: sql.slice(start, i), start, end: i })
+      continue
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      while (i < sql.length && /[A-Za-z0-9_]/.test(sql[i])) i++
+      const word = sql.slice(start, i)
+      const upper = word.toUpperCase()
+      tokens.push(KEYWORDS.has(upper)
+        ? { type: 'keyword', value: upper, start, end: i }
+        : { type: 'identifier', value: word, start, end: i })
+      continue
+    }
+
+    const symbol = SYMBOLS.find(candidate => sql.startsWith(candidate, i))
+    if (!symbol) throw new SqlError(`Karakter "${char}" tidak dikenali`, i)
+    tokens.push({ type: 'symbol', value: symbol, start, end: i + symbol.length })
+    i += symbol.length
+  }
+
+  tokens.push({ type: 'end', value: '', start: sql.length, end: sql.length })
+  return tokens
+}
+
+class Parser {
+  private index = 0
+
+  constructor(private readonly sql: string, private readonly tokens: Token[]) {}
+
+  private get current(): Token {
+    return this.tokens[this.index]
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'end' ? 'akhir query' : `"${token.value}"`
+  }
+
+  private fail(message: string, token: Token = this.current): never {
+    throw new SqlError(message, token.start)
+  }
+
+  private isKeyword(...keywords: string[]): boolean {
+    return this.current.type === 'keyword' && keywords.includes(this.current.value)
+  }
+
+  private isSymbol(...symbols: string[]): boolean {
+    return this.current.type === 'symbol' && symbols.includes(this.current.value)
+  }
+
+  private acceptKeyword(...keywords: string[]): boolean {
+    if (!this.isKeyword(...keywords)) return false
+    this.index++
+    return true
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (!this.isSymbol(symbol)) return false
+    this.index++
+    return true
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) this.fail(`Diharapkan ${keyword}, ditemukan ${this.describe(this.current)}`)
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) this.fail(`Diharapkan "${symbol}", ditemukan ${this.describe(this.current)}`)
+  }
+
+  private identifier(what: string): string {
+    if (this.current.type !== 'identifier') this.fail(`Diharapkan ${what}, ditemukan ${this.describe(this.current)}`)
+    return this.tokens[this.index++].value
+  }
+
+  private integer(what: string): number {
+    const token = this.current
+    if (token.type !== 'number' || !/^\d+$/.test(token.value)) this.fail(`${what} harus berupa bilangan bulat`)
+    this.index++
+    return Number(token.value)
+  }
+
+  parseStatement(): SelectStatement {
+    if (!this.isKeyword('SELECT')) {
+      this.fail(this.current.type === 'end'
+        ? 'Query kosong'
+        : 'Hanya query SELECT yang diizinkan, data tidak dapat diubah dari editor ini')
+    }
+    this.index++
+
+    const distinct = this.acceptKeyword('DISTINCT')
+    const columns = this.selectList()
+
+    this.expectKeyword('FROM')
+    const from = this.tableReference()
+
+    const joins: Join[] = []
+    while (this.isKeyword('JOIN', 'INNER', 'LEFT')) {
+      let type: Join['type'] = 'inner'
+      if (this.acceptKeyword('LEFT')) {
+        this.acceptKeyword('OUTER')
+        type = 'left'
+      } else {
+        this.acceptKeyword('INNER')
+      }
+      this.expectKeyword('JOIN')
+      const table = this.tableReference()
+      this.expectKeyword('ON')
+      joins.push({ type, table, on: this.expression() })
+    }
+
+    const statement: SelectStatement = { distinct, columns, from, joins, groupBy: [], orderBy: [] }
+
+    if (this.acceptKeyword('WHERE')) statement.where = this.expression()
+
+    if (this.acceptKeyword('GROUP')) {
+      this.expectKeyword('BY')
+      do {
+        statement.groupBy.push(this.expression())
+      } while (this.acceptSymbol(','))
+    }
+
+    if (this.acceptKeyword('HAVING')) statement.having = this.expression()
+
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY')
+      do {
+        const expression = this.expression()
+        const descending = this.acceptKeyword('DESC')
+        if (!descending) this.acceptKeyword('ASC')
+        statement.orderBy.push({ expression, descending })
+      } while (this.acceptSymbol(','))
+    }
+
+    if (this.acceptKeyword('LIMIT')) {
+      const first = this.integer('LIMIT')
+      if (this.acceptSymbol(',')) {
+        // MySQL form: LIMIT offset, count
+        statement.offset = first
+        statement.limit = this.integer('LIMIT')
+      } else {
+        statement.limit = first
+        if (this.acceptKeyword('OFFSET')) statement.offset = this.integer('OFFSET')
+      }
+    }
+
+    this.acceptSymbol(';')
+    if (this.current.type !== 'end') {
+      this.fail(this.isKeyword('SELECT')
+        ? 'Hanya satu query yang dapat dijalankan sekaligus, pilih query yang ingin dijalankan'
+        : `Tidak dikenali: ${this.describe(this.current)}`)
+    }
+
+    return statement
+  }
+
+  private selectList(): SelectItem[] {
+    const items: SelectItem[] = []
+    do {
+      if (this.acceptSymbol('*')) {
+        items.push({ kind: 'star' })
+        continue
+      }
+      // table.*
+      if (this.current.type === 'identifier' && this.tokens[this.index + 1].value === '.' && this.tokens[this.index + 2].value === '*') {
+        items.push({ kind: 'star', table: this.current.value })
+        this.index += 3
+        continue
+      }
+
+      const start = this.current.start
+      const expression = this.expression()
+      const text = this.sql.slice(start, this.tokens[this.index - 1].end)
+      let alias: string | undefined
+      if (this.acceptKeyword('AS')) {
+        alias = this.current.type === 'string' ? this.tokens[this.index++].value : this.identifier('nama kolom')
+      } else if (this.current.type === 'identifier') {
+        alias = this.tokens[this.index++].value
+      }
+      items.push({ kind: 'expression', expression, alias, text })
+    } while (this.acceptSymbol(','))
+    return items
+  }
+
+  private tableReference(): TableReference {
+    const name = this.identifier('nama tabel')
+    let alias = name
+    if (this.acceptKeyword('AS')) {
+      alias = this.identifier('alias tabel')
+    } else if (this.current.type === 'identifier') {
+      alias = this.tokens[this.index++].value
+    }
+    return { name, alias }
+  }
+
+  private expression(): Expression {
+    let left = this.andExpression()
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'binary', operator: 'OR', left, right: this.andExpression() }
+    }
+    return left
+  }
+
+  private andExpression(): Expression {
+    let left = this.notExpression()
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'binary', operator: 'AND', left, right: this.notExpression() }
+    }
+    return left
+  }
+
+  private notExpression(): Expression {
+    if (this.acceptKeyword('NOT')) return { kind: 'unary', operator: 'NOT', operand: this.notExpression() }
+    return this.predicate()
+  }
+
+  private predicate(): Expression {
+    const operand = this.additive()
+
+    if (this.isSymbol('=', '!=', '<>', '<', '<=', '>', '>=')) {
+      const symbol = this.tokens[this.index++].value
+      const operator = (symbol === '<>' ? '!=' : symbol) as BinaryOperator
+      return { kind: 'binary', operator, left: operand, right: this.additive() }
+    }
+
+    if (this.acceptKeyword('IS')) {
+      const negated = this.acceptKeyword('NOT')
+      this.expectKeyword('NULL')
+      return { kind: 'isNull', operand, negated }
+    }
+
+    const negated = this.acceptKeyword('NOT')
+    if (this.acceptKeyword('IN')) {
+      this.expectSymbol('(')
+      if (this.isKeyword('SELECT')) this.fail('Subquery tidak didukung')
+      const values: Expression[] = []
+      do {
+        values.push(this.additive())
+      } while (this.acceptSymbol(','))
+      this.expectSymbol(')')
+      return { kind: 'in', operand, values, negated }
+    }
+    if (this.acceptKeyword('LIKE')) {
+      return { kind: 'like', operand, pattern: this.additive(), negated }
+    }
+    if (this.acceptKeyword('BETWEEN')) {
+      const low = this.additive()
+      this.expectKeyword('AND')
+      return { kind: 'between', operand, low, high: this.additive(), negated }
+    }
+    if (negated) this.fail(`Diharapkan IN, LIKE atau BETWEEN setelah NOT, ditemukan ${this.describe(this.current)}`)
+
+    return operand
+  }
+
+  private additive(): Expression {
+    let left = this.multiplicative()
+    while (this.isSymbol('+', '-')) {
+      const operator = this.tokens[this.index++].value as BinaryOperator
+      left = { kind: 'binary', operator, left, right: this.multiplicative() }
+    }
+    return left
+  }
+
+  private multiplicative(): Expression {
+    let left = this.unary()
+    while (this.isSymbol('*', '/', '%')) {
+      const operator = this.tokens[this.index++].value as BinaryOperator
+      left = { kind: 'binary', operator, left, right: this.unary() }
+    }
+    return left
+  }
+
+  private unary(): Expression {
+    if (this.acceptSymbol('-')) return { kind: 'unary', operator: '-', operand: this.unary() }
+    return this.primary()
+  }
+
+  private primary(): Expression {
+    const token = this.current
+
+    if (token.type === 'number') {
+      if (Number.isNaN(Number(token.value))) this.fail(`Angka tidak valid: ${token.value}`)
+      this.index++
+      return { kind: 'literal', value: Number(token.value) }
+    }
+    if (token.type === 'string') {
+      this.index++
+      return { kind: 'literal', value: token.value }
+    }
+    if (this.acceptKeyword('NULL')) return { kind: 'literal', value: null }
+    if (this.acceptKeyword('TRUE')) return { kind: 'literal', value: true }
+    if (this.acceptKeyword('FALSE')) return { kind: 'literal', value: false }
+
+    if (this.acceptSymbol('(')) {
+      if (this.isKeyword('SELECT')) this.fail('Subquery tidak didukung')
+      const inner = this.expression()
+      this.expectSymbol(')')
+      return inner
+    }
+
+    if (token.type === 'identifier') {
+      this.index++
+      if (this.isSymbol('(')) return this.call(token)
+      if (this.acceptSymbol('.')) {
+        return { kind: 'column', table: token.value, name: this.identifier('nama kolom') }
+      }
+      return { kind: 'column', name: token.value }
+    }
+
+    return this.fail(`Ekspresi tidak valid di ${this.describe(token)}`)
+  }
+
+  private call(nameToken: Token): Expression {
+    const name = nameToken.value.toUpperCase()
+    const aggregate = AGGREGATE_FUNCTIONS.includes(name)
+    if (!aggregate && !SCALAR_FUNCTIONS.includes(name)) this.fail(`Fungsi ${nameToken.value} tidak didukung`, nameToken)
+
+    this.expectSymbol('(')
+    if (name === 'COUNT' && this.acceptSymbol('*')) {
+      this.expectSymbol(')')
+      return { kind: 'call', name, args: [], distinct: false, star: true }
+    }
+
+    const distinct = aggregate && this.acceptKeyword('DISTINCT')
+    const args: Expression[] = []
+    if (!this.isSymbol(')')) {
+      do {
+        args.push(this.expression())
+      } while (this.acceptSymbol(','))
+    }
+    this.expectSymbol(')')
+
+    if (aggregate && args.length !== 1) this.fail(`${name} membutuhkan tepat satu argumen`, nameToken)
+    if (!aggregate && args.length === 0) this.fail(`${name} membutuhkan argumen`, nameToken)
+    return { kind: 'call', name, args, distinct, star: false }
+  }
+}
+
+/**
+ * Parse one SELECT statement. Throws SqlError with the offending position.
+ */
+export const parseSelect = (sql: string): SelectStatement => new Parser(sql, tokenize(sql)).parseStatement()
+
+export const isAggregateCall = (expression: Expression): boolean =>
+  expression.kind === 'call' && AGGREGATE_FUNCTIONS.includes(expression.name)
+
+// Whether an aggregate appears anywhere inside the expression
+export const containsAggregate = (expression: Expression): boolean => {
+  switch (expression.kind) {
+    case 'call':
+      return isAggregateCall(expression) || expression.args.some(containsAggregate)
+    case 'unary':
+      return containsAggregate(expression.operand)
+    case 'binary':
+      return containsAggregate(expression.left) || containsAggregate(expression.right)
+    case 'isNull':
+      return containsAggregate(expression.operand)
+    case 'in':
+      return containsAggregate(expression.operand) || expression.values.some(containsAggregate)
+    case 'like':
+      return containsAggregate(expression.operand) || containsAggregate(expression.pattern)
+    case 'between':
+      return [expression.operand, expression.low, expression.high].some(containsAggregate)
+    default:
+      return false
+  }
+}
@@ -0,0 +1,72 @@
+import type { ApiResponse } from '../api'
+import { repositories as defaultRepositories, Repositories } from '../repositories'
+import type { QueryRow, TableLoader } from './executor'
+import { SqlError, Value } from './parser'
+
+// Tables the SQL Editor may read, with the columns offered for autocompletion
+export const QUERY_TABLES: Record<string, string[]> = {
+  members: ['id', 'id_anggota', 'nama_lengkap', 'nik', 'alamat', 'no_hp', 'status_keanggotaan', 'tanggal_masuk', 'jabatan', 'created_at'],
+  dues: ['id', 'member_id', 'bulan', 'tahun', 'iuran_wajib', 'iuran_sukarela', 'simpanan_wajib', 'tanggal_bayar', 'status', 'created_at'],
+  loans: ['id', 'member_id', 'jumlah_pinjaman', 'bunga_persen', 'tenor_bulan', 'angsuran_bulanan', 'sisa_pinjaman', 'tanggal_pinjaman', 'status', 'created_at'],
+  loan_payments: ['id', 'loan_id', 'angsuran_ke', 'angsuran_pokok', 'angsuran_bunga', 'total_angsuran', 'tanggal_bayar', 'status', 'created_at'],
+  expenses: ['id', 'kategori', 'deskripsi', 'jumlah', 'tanggal', 'status_otorisasi', 'created_at'],
+  savings: ['id', 'member_id', 'type', 'amount', 'transaction_date', 'description', 'created_at']
+}
+
+const unwrap = <T>(table: string, response: ApiResponse<T[]>): T[] => {
+  if (response.error) throw new SqlError(`Gagal membaca tabel ${table}: ${response.error}`)
+  return response.data || []
+}
+
+// Only plain values reach the query; joined objects (category, payment method, ...) are dropped
+const toQueryRow = (row: object): QueryRow => {
+  const result: QueryRow = {}
+  Object.entries(row).forEach(([column, value]) => {
+    if (value === null || value === undefined) {
+      result[column] = null
+    } else if (['string', 'number', 'boolean'].includes(typeof value)) {
+      result[column] = value as Value
+    } else if (value instanceof Date) {
+      result[column] = value.toISOString()
+    }
+  })
+  return result
+}
+
+/**
+ * Loader for the whitelisted tables through the configured repositories. Each table is fetched at
+ * most once per loader, so create one per query run.
+ */
+export const createTableLoader = (repositories: Repositories = defaultRepositories): TableLoader => {
+  const loaded = new Map<string, Promise<QueryRow[]>>()
+
+  const fetchTable = async (table: string): Promise<object[]> => {
+    switch (table) {
+      case 'members':
+        return unwrap(table, await repositories.members.list())
+      case 'dues':
+        return unwrap(table, await repositories.dues.list())
+      case 'loans':
+        return unwrap(table, await repositories.loans.list())
+      case 'expenses':
+        return unwrap(table, await repositories.expenses.list())
+      case 'savings':
+        return unwrap(table, await repositories.savings.list())
+      default:
+        return unwrap(table, await repositories.loanPayments.list())
+    }
+  }
+
+  const load = (table: string): Promise<QueryRow[]> => {
+    const name = table.toLowerCase()
+    if (!(name in QUERY_TABLES)) {
+      return Promise.reject(new SqlError(`Tabel ${table} tidak tersedia. Tabel yang dapat dibaca: ${Object.keys(QUERY_TABLES).join(', ')}`))
+    }
+    if (!loaded.has(name)) {
+      loaded.set(name, fetchTable(name).then(rows => rows.map(toQueryRow)))
+    }
+    return loaded.get(name) as Promise<QueryRow[]>
+  }
+
+  return load
+}
@@ -0,0 +1,16 @@
+import type { ApiResponse } from '../api'
+
+export type Row = Record<string, unknown>
+
+export const CONFLICT_MESSAGE = 'Data sudah diubah oleh pengguna lain sejak terakhir diambil'
+export const NOT_FOUND_MESSAGE = 'Data tidak ditemukan'
+export const DELETED_MESSAGE = 'Data berhasil dihapus'
+
+// Same error contract as the REST client: a thrown fetch TypeError means no connection
+export const run = async <T>(operation: () => Promise<ApiResponse<T>>): Promise<ApiResponse<T>> => {
+  try {
+    return await operation()
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Network error', offline: error instanceof TypeError }
+  }
+}
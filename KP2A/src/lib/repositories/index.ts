@@ -0,0 +1,61 @@
+import { createIndexedDbRepositories } from './indexedDbRepositories'
+import { createMysqlRepositories } from './mysqlRepositories'
+import { createSupabaseRepositories } from './supabaseRepositories'
+import type { DataBackend, Repositories } from './types'
+
+export type {
+  AudienceSegmentsRepository,
+  BudgetsRepository,
+  DataBackend,
+  DeleteResult,
+  DuesRepository,
+  ExpensesRepository,
+  LoanPaymentsRepository,
+  LoanSchedulesRepository,
+  LoansRepository,
+  MembersRepository,
+  MessageTemplatesRepository,
+  NotificationLogsRepository,
+  PaymentMethodsRepository,
+  Repositories,
+  RecurringTransactionsRepository,
+  Repository,
+  SavedQueriesRepository,
+  SavingsRepository,
+  TransactionCategoriesRepository,
+  TransactionsRepository,
+  UsersRepository,
+  WhatsAppConfigsRepository,
+  WhatsAppFlowSubmissionsRepository,
+  WhatsAppFlowsRepository,
+  WhatsAppVerificationsRepository
+} from './types'
+
+const BACKENDS: DataBackend[] = ['mysql', 'supabase', 'indexeddb']
+
+/**
+ * Backend selected with VITE_DATA_BACKEND (mysql, supabase or indexeddb). Defaults to the
+ * MySQL REST API.
+ */
+export const resolveDataBackend = (value: string | undefined = import.meta.env.VITE_DATA_BACKEND): DataBackend => {
+  const backend = (value || 'mysql').toLowerCase() as DataBackend
+  if (!BACKENDS.includes(backend)) {
+    console.warn(`Unknown VITE_DATA_BACKEND "${value}", using mysql`)
+    return 'mysql'
+  }
+  return backend
+}
+
+export const createRepositories = (backend: DataBackend): Repositories => {
+  switch (backend) {
+    case 'supabase':
+      return createSupabaseRepositories()
+    case 'indexeddb':
+      return createIndexedDbRepositories()
+    default:
+      return createMysqlRepositories()
+  }
+}
+
+// Data access for pages: one repository per entity, backed by the configured adapter
+export const repositories = createRepositories(resolveDataBackend())
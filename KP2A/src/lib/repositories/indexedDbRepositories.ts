@@ -0,0 +1,193 @@
+import type { ApiResponse, Budget, Due, Expense, Loan, LoanPayment, Member, SavedQuery, SavedQueryInput, Saving, User } from '../api'
+import type { NotificationLogRecord, WhatsAppConfig, WhatsAppMessageTemplate, WhatsAppVerification } from '../../types'
+import type { AudienceSegment } from '../../types/audienceSegments'
+import type { PaymentMethod, RecurringTransaction, Transaction, TransactionCategory } from '../../types/transactions'
+import type { ConversationFlow, FlowSubmission } from '../../types/whatsappFlows'
+import { db } from '../indexeddb'
+import type {
+  BudgetFilter,
+  DeleteResult,
+  DueFilter,
+  ExpenseFilter,
+  LoanFilter,
+  MemberFilter,
+  MessageTemplateFilter,
+  NotificationLogFilter,
+  PaymentMethodFilter,
+  RecurringTransactionFilter,
+  Repositories,
+  Repository,
+  SavingFilter,
+  TransactionCategoryFilter,
+  TransactionFilter,
+  UserFilter,
+  WhatsAppFlowFilter,
+  WhatsAppFlowSubmissionFilter,
+  WhatsAppVerificationFilter
+} from './types'
+import { CONFLICT_MESSAGE, DELETED_MESSAGE, NOT_FOUND_MESSAGE, Row, run } from './common'
+
+interface LocalOptions {
+  // Add nama_lengkap/id_anggota of the member, as the REST API does
+  joinMember?: boolean
+}
+
+const memberNames = async (): Promise<Map<string, Row>> => {
+  const members = await db.records.where('entity').equals('members').toArray()
+  return new Map(members.map(record => [record.id, record.data]))
+}
+
+/**
+ * Repository over the browser-only `records` table, for demos and single-device use. Filters
+ * are matched with equality, newest records first.
+ */
+const localRepository = <T, TFilter extends object, TInput = Partial<T>>(entity: string, options: LocalOptions = {}): Repository<T, TFilter, TInput> => {
+  const withMember = async (rows: Row[]): Promise<T[]> => {
+    if (!options.joinMember) return rows as T[]
+    const members = await memberNames()
+    return rows.map(row => {
+      const member = members.get(String(row.member_id))
+      return { ...row, nama_lengkap: member?.nama_lengkap, id_anggota: member?.id_anggota } as T
+    })
+  }
+
+  const find = async (id: string) => (await db.records.get([entity, id]))?.data
+
+  // Returns the stored row, or the error response when it is missing or was changed
+  const checkVersion = async (id: string, expectedVersion?: number): Promise<{ row?: Row; rejected?: ApiResponse<never> }> => {
+    const row = await find(id)
+    if (!row) return { rejected: { error: NOT_FOUND_MESSAGE, status: 404 } }
+    if (expectedVersion && Number(row.version) !== expectedVersion) {
+      return { rejected: { error: CONFLICT_MESSAGE, status: 409, current: row } }
+    }
+    return { row }
+  }
+
+  return {
+    list: (filter) => run(async () => {
+      const { limit, offset = 0, ...conditions } = (filter || {}) as Row & { limit?: number; offset?: number }
+      const records = await db.records.where('entity').equals(entity).toArray()
+      const rows = records
+        .map(record => record.data)
+        .filter(row => Object.entries(conditions).every(([column, value]) => value === undefined || value === '' || row[column] === value))
+        .sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)))
+      return { data: await withMember(limit ? rows.slice(offset, offset + limit) : rows) }
+    }),
+
+    get: (id) => run(async () => {
+      const row = await find(id)
+      if (!row) return { error: NOT_FOUND_MESSAGE, status: 404 }
+      return { data: (await withMember([row]))[0] }
+    }),
+
+    create: (input) => run(async () => {
+      const now = new Date().toISOString()
+      const row: Row = { ...(input as Row), id: crypto.randomUUID(), version: 1, created_at: now, updated_at: now }
+      await db.records.put({ entity, id: row.id as string, data: row })
+      return { data: (await withMember([row]))[0] }
+    }),
+
+    update: (id, input, expectedVersion) => run(async () => {
+      const { row, rejected } = await checkVersion(id, expectedVersion)
+      if (rejected) return rejected
+
+      const updated: Row = { ...row, ...(input as Row), id, version: Number(row?.version || 1) + 1, updated_at: new Date().toISOString() }
+      await db.records.put({ entity, id, data: updated })
+      return { data: (await withMember([updated]))[0] }
+    }),
+
+    remove: (id, expectedVersion) => run(async (): Promise<ApiResponse<DeleteResult>> => {
+      const { rejected } = await checkVersion(id, expectedVersion)
+      if (rejected) return rejected
+
+      await db.records.delete([entity, id])
+      return { data: { message: DELETED_MESSAGE } }
+    })
+  }
+}
+
+/**
+ * Repositories that keep everything in this browser's IndexedDB
+ */
+export const createIndexedDbRepositories = (): Repositories => {
+  const payments = localRepository<LoanPayment, { loan_id?: string }>('loan_payments')
+  const savings = localRepository<Saving, SavingFilter>('savings', { joinMember: true })
+  const flowSubmissions = localRepository<FlowSubmission, WhatsAppFlowSubmissionFilter>('whatsapp_flow_submissions')
+  const notificationLogs = localRepository<NotificationLogRecord, NotificationLogFilter>('whatsapp_notification_logs')
+  const budgets = localRepository<Budget, BudgetFilter>('budgets')
+  const paymentMethods = localRepository<PaymentMethod, PaymentMethodFilter>('payment_methods')
+  const users = localRepository<User, UserFilter>('users')
+
+  return {
+    backend: 'indexeddb',
+    members: localRepository<Member, MemberFilter>('members'),
+    dues: localRepository<Due, DueFilter>('dues', { joinMember: true }),
+    loans: localRepository<Loan, LoanFilter>('loans', { joinMember: true }),
+    expenses: localRepository<Expense, ExpenseFilter>('expenses'),
+    transactions: localRepository<Transaction, TransactionFilter>('transactions'),
+    recurringTransactions: localRepository<RecurringTransaction, RecurringTransactionFilter>('recurring_transactions'),
+    transactionCategories: localRepository<TransactionCategory, TransactionCategoryFilter>('transaction_categories'),
+    // Active methods unless is_active is given, as the REST API lists them
+    paymentMethods: {
+      list: (filter = {}) => paymentMethods.list({ is_active: filter.is_active ?? true }),
+      create: paymentMethods.create,
+      update: paymentMethods.update,
+      remove: paymentMethods.remove
+    },
+    savings: {
+      list: savings.list,
+      create: savings.create,
+      remove: savings.remove
+    },
+    savedQueries: localRepository<SavedQuery, Record<string, never>, SavedQueryInput>('saved_queries'),
+    budgets: {
+      list: budgets.list,
+      saveYear: (tahun, items) => run(async () => {
+        const now = new Date().toISOString()
+        await db.transaction('rw', db.records, async () => {
+          const existing = await db.records.where('entity').equals('budgets').filter(record => record.data.tahun === tahun).toArray()
+          await db.records.bulkDelete(existing.map(record => [record.entity, record.id] as [string, string]))
+          await db.records.bulkPut(items.map(item => {
+            const id = crypto.randomUUID()
+            return { entity: 'budgets', id, data: { ...item, id, tahun, version: 1, created_at: now, updated_at: now } }
+          }))
+        })
+        return budgets.list({ tahun })
+      })
+    },
+    users: { list: users.list, update: users.update },
+    whatsappVerifications: localRepository<WhatsAppVerification, WhatsAppVerificationFilter>('whatsapp_verifications'),
+    whatsappConfigs: localRepository<WhatsAppConfig, Record<string, never>>('whatsapp_config'),
+    messageTemplates: localRepository<WhatsAppMessageTemplate, MessageTemplateFilter>('message_templates'),
+    whatsappFlows: localRepository<ConversationFlow, WhatsAppFlowFilter>('whatsapp_flows'),
+    whatsappFlowSubmissions: {
+      list: flowSubmissions.list,
+      create: flowSubmissions.create,
+      update: flowSubmissions.update
+    },
+    notificationLogs: {
+      list: notificationLogs.list,
+      create: notificationLogs.create,
+      update: notificationLogs.update
+    },
+    audienceSegments: localRepository<AudienceSegment, Record<string, never>>('audience_segments'),
+    // No installment schedule is kept locally: a payment is stored as one amount
+    loanPayments: {
+      list: (loanId) => payments.list(loanId ? { loan_id: loanId } : {}),
+      create: (loanId, input) => payments.create({
+        loan_id: loanId,
+        total_angsuran: input.jumlah_bayar,
+        tanggal_bayar: input.tanggal_bayar,
+        status: input.status || 'lunas'
+      }),
+      update: (_loanId, id, input, expectedVersion) => payments.update(id, {
+        total_angsuran: input.jumlah_bayar,
+        tanggal_bayar: input.tanggal_bayar,
+        ...(input.status ? { status: input.status } : {})
+      }, expectedVersion),
+      remove: (_loanId, id, expectedVersion) => payments.remove(id, expectedVersion)
+    },
+    // Without a schedule, installments are derived from the loan terms (see loanStatus)
+    loanSchedules: { list: async () => ({ data: [] }) }
+  }
+}
@@ -0,0 +1,161 @@
+import { budgetsApi, duesApi, expensesApi, loansApi, membersApi, savedQueriesApi, savingsApi, transactionsApi, usersApi, whatsappBotApi } from '../api'
+import type { Repositories } from './types'
+
+/**
+ * Repositories backed by the MySQL REST API (lib/api.ts)
+ */
+export const createMysqlRepositories = (): Repositories => ({
+  backend: 'mysql',
+
+  members: {
+    list: (filter) => membersApi.getAll(filter),
+    get: (id) => membersApi.getById(id),
+    create: (input) => membersApi.create(input),
+    update: (id, input) => membersApi.update(id, input),
+    remove: (id) => membersApi.delete(id)
+  },
+
+  dues: {
+    list: (filter) => duesApi.getAll(filter),
+    get: (id) => duesApi.getById(id),
+    create: (input) => duesApi.create(input),
+    update: (id, input, expectedVersion) => duesApi.update(id, input, expectedVersion),
+    remove: (id, expectedVersion) => duesApi.delete(id, expectedVersion)
+  },
+
+  loans: {
+    list: (filter) => loansApi.getAll(filter),
+    get: (id) => loansApi.getById(id),
+    create: (input) => loansApi.create(input),
+    update: (id, input) => loansApi.update(id, input),
+    remove: (id) => loansApi.delete(id)
+  },
+
+  loanPayments: {
+    list: (loanId) => (loanId ? loansApi.getPayments(loanId) : loansApi.getAllPayments()),
+    create: (loanId, input) => loansApi.addPayment(loanId, input),
+    update: (loanId, id, input, expectedVersion) => loansApi.updatePayment(loanId, id, input, expectedVersion),
+    remove: (loanId, id, expectedVersion) => loansApi.deletePayment(loanId, id, expectedVersion)
+  },
+
+  loanSchedules: {
+    list: async (loanId) => {
+      const response = await loansApi.getSchedule(loanId)
+      return { ...response, data: response.data?.schedule }
+    }
+  },
+
+  expenses: {
+    list: (filter) => expensesApi.getAll(filter),
+    get: (id) => expensesApi.getById(id),
+    create: (input) => expensesApi.create(input),
+    update: (id, input, expectedVersion) => expensesApi.update(id, input, expectedVersion),
+    remove: (id, expectedVersion) => expensesApi.delete(id, expectedVersion)
+  },
+
+  savings: {
+    list: (filter) => savingsApi.getAll(filter),
+    create: (input) => savingsApi.create(input),
+    remove: (id) => savingsApi.delete(id)
+  },
+
+  transactions: {
+    list: (filter) => transactionsApi.getAll(filter),
+    get: (id) => transactionsApi.getById(id),
+    create: (input) => transactionsApi.create(input),
+    update: (id, input) => transactionsApi.update(id, input),
+    remove: (id) => transactionsApi.delete(id)
+  },
+
+  transactionCategories: {
+    list: (filter) => transactionsApi.getCategories(filter),
+    create: (input) => transactionsApi.createCategory(input),
+    update: (id, input) => transactionsApi.updateCategory(id, input),
+    remove: (id) => transactionsApi.deleteCategory(id)
+  },
+
+  paymentMethods: {
+    list: (filter) => transactionsApi.getPaymentMethods(filter),
+    create: (input) => transactionsApi.createPaymentMethod(input),
+    update: (id, input) => transactionsApi.updatePaymentMethod(id, input),
+    remove: (id) => transactionsApi.deletePaymentMethod(id)
+  },
+
+  recurringTransactions: {
+    list: (filter) => transactionsApi.getRecurring(filter),
+    get: (id) => transactionsApi.getRecurringById(id),
+    create: (input) => transactionsApi.createRecurring(input),
+    update: (id, input) => transactionsApi.updateRecurring(id, input),
+    remove: (id) => transactionsApi.deleteRecurring(id)
+  },
+
+  savedQueries: {
+    list: () => savedQueriesApi.getAll(),
+    create: (input) => savedQueriesApi.create(input),
+    update: (id, input) => savedQueriesApi.update(id, input),
+    remove: (id) => savedQueriesApi.delete(id)
+  },
+
+  budgets: {
+    list: (filter) => budgetsApi.getAll(filter),
+    saveYear: (tahun, items) => budgetsApi.saveYear(tahun, items)
+  },
+
+  // The users endpoint has no filters, so the member is matched here
+  users: {
+    list: async (filter) => {
+      const response = await usersApi.getAll()
+      if (!filter?.member_id || !response.data) return response
+      return { ...response, data: response.data.filter(user => user.member_id === filter.member_id) }
+    },
+    update: (id, input) => usersApi.update(id, input)
+  },
+
+  whatsappVerifications: {
+    list: (filter) => whatsappBotApi.getVerifications(filter),
+    create: (input) => whatsappBotApi.createVerification(input),
+    update: (id, input) => whatsappBotApi.updateVerification(id, input),
+    remove: (id) => whatsappBotApi.deleteVerification(id)
+  },
+
+  whatsappConfigs: {
+    list: () => whatsappBotApi.getConfigs(),
+    create: (input) => whatsappBotApi.createConfig(input),
+    update: (id, input) => whatsappBotApi.updateConfig(id, input)
+  },
+
+  messageTemplates: {
+    list: (filter) => whatsappBotApi.getTemplates(filter),
+    create: (input) => whatsappBotApi.createTemplate(input),
+    update: (id, input) => whatsappBotApi.updateTemplate(id, input),
+    remove: (id) => whatsappBotApi.deleteTemplate(id)
+  },
+
+  whatsappFlows: {
+    list: (filter) => whatsappBotApi.getFlows(filter),
+    get: (id) => whatsappBotApi.getFlow(id),
+    create: (input) => whatsappBotApi.createFlow(input),
+    update: (id, input) => whatsappBotApi.updateFlow(id, input),
+    remove: (id) => whatsappBotApi.deleteFlow(id)
+  },
+
+  whatsappFlowSubmissions: {
+    list: (filter) => whatsappBotApi.getFlowSubmissions(filter),
+    create: (input) => whatsappBotApi.createFlowSubmission(input),
+    update: (id, input) => whatsappBotApi.updateFlowSubmission(id, input)
+  },
+
+  notificationLogs: {
+    list: (filter) => whatsappBotApi.getNotificationLogs(filter),
+    create: (input) => whatsappBotApi.createNotificationLog(input),
+    update: (id, input) => whatsappBotApi.updateNotificationLog(id, input)
+  },
+
+  audienceSegments: {
+    list: () => whatsappBotApi.getSegments(),
+    get: (id) => whatsappBotApi.getSegment(id),
+    create: (input) => whatsappBotApi.createSegment(input),
+    update: (id, input) => whatsappBotApi.updateSegment(id, input),
+    remove: (id) => whatsappBotApi.deleteSegment(id)
+  }
+})
@@ -0,0 +1,204 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import type { ApiResponse, Budget, Due, Expense, Loan, LoanPayment, Member, SavedQuery, SavedQueryInput, Saving, User } from '../api'
+import type { NotificationLogRecord, WhatsAppConfig, WhatsAppMessageTemplate, WhatsAppVerification } from '../../types'
+import type { AudienceSegment } from '../../types/audienceSegments'
+import type { PaymentMethod, RecurringTransaction, Transaction, TransactionCategory } from '../../types/transactions'
+import type { ConversationFlow, FlowSubmission } from '../../types/whatsappFlows'
+import type {
+  BudgetFilter,
+  DeleteResult,
+  DueFilter,
+  ExpenseFilter,
+  LoanFilter,
+  MemberFilter,
+  MessageTemplateFilter,
+  NotificationLogFilter,
+  PaymentMethodFilter,
+  RecurringTransactionFilter,
+  Repositories,
+  Repository,
+  SavingFilter,
+  TransactionCategoryFilter,
+  TransactionFilter,
+  UserFilter,
+  WhatsAppFlowFilter,
+  WhatsAppFlowSubmissionFilter,
+  WhatsAppVerificationFilter
+} from './types'
+import { CONFLICT_MESSAGE, DELETED_MESSAGE, NOT_FOUND_MESSAGE, Row, run } from './common'
+
+let client: SupabaseClient | null = null
+
+const getClient = (): SupabaseClient => {
+  if (!client) {
+    const url = import.meta.env.VITE_SUPABASE_URL
+    const key = import.meta.env.VITE_SUPABASE_ANON_KEY
+    if (!url || !key) {
+      throw new Error('VITE_SUPABASE_URL dan VITE_SUPABASE_ANON_KEY belum diatur')
+    }
+    client = createClient(url, key)
+  }
+  return client
+}
+
+// The REST API returns the member name flattened onto dues, loans and savings
+const withMemberName = (row: Row): Row => {
+  const { member, ...rest } = row as Row & { member?: { nama_lengkap?: string; id_anggota?: string } | null }
+  return { ...rest, nama_lengkap: member?.nama_lengkap, id_anggota: member?.id_anggota }
+}
+
+interface TableOptions {
+  select?: string
+  normalize?: (row: Row) => Row
+}
+
+/**
+ * Repository over one Supabase table. Filters are matched with equality; limit/offset page the
+ * result. Version checks compare the `version` column and bump it on every checked write.
+ */
+const tableRepository = <T, TFilter extends object, TInput = Partial<T>>(table: string, options: TableOptions = {}): Repository<T, TFilter, TInput> => {
+  const select = options.select || '*'
+  const normalize = (row: Row) => (options.normalize ? options.normalize(row) : row) as T
+
+  // Explain why a checked write touched no rows
+  const missingOrConflict = async (id: string): Promise<ApiResponse<never>> => {
+    const { data } = await getClient().from(table).select(select).eq('id', id).maybeSingle()
+    if (!data) return { error: NOT_FOUND_MESSAGE, status: 404 }
+    return { error: CONFLICT_MESSAGE, status: 409, current: normalize(data as unknown as Row) as Row }
+  }
+
+  return {
+    list: (filter) => run(async () => {
+      const { limit, offset, ...conditions } = (filter || {}) as Row & { limit?: number; offset?: number }
+      let query = getClient().from(table).select(select)
+      Object.entries(conditions).forEach(([column, value]) => {
+        if (value !== undefined && value !== '') query = query.eq(column, value)
+      })
+      if (limit) query = query.range(offset || 0, (offset || 0) + limit - 1)
+
+      const { data, error } = await query
+      if (error) return { error: error.message, status: 500 }
+      return { data: ((data || []) as unknown as Row[]).map(normalize) }
+    }),
+
+    get: (id) => run(async () => {
+      const { data, error } = await getClient().from(table).select(select).eq('id', id).maybeSingle()
+      if (error) return { error: error.message, status: 500 }
+      if (!data) return { error: NOT_FOUND_MESSAGE, status: 404 }
+      return { data: normalize(data as unknown as Row) }
+    }),
+
+    create: (input) => run(async () => {
+      const { data, error } = await getClient().from(table).insert(input as Row).select(select).single()
+      // 23505: unique violation, reported like the REST API's duplicate key conflicts
+      if (error) return { error: error.message, status: error.code === '23505' ? 409 : 400 }
+      return { data: normalize(data as unknown as Row) }
+    }),
+
+    update: (id, input, expectedVersion) => run(async () => {
+      const changes = expectedVersion ? { ...(input as Row), version: expectedVersion + 1 } : input as Row
+      let query = getClient().from(table).update(changes).eq('id', id)
+      if (expectedVersion) query = query.eq('version', expectedVersion)
+
+      const { data, error } = await query.select(select)
+      if (error) return { error: error.message, status: 400 }
+      if (!data || data.length === 0) return missingOrConflict(id)
+      return { data: normalize(data[0] as unknown as Row) }
+    }),
+
+    remove: (id, expectedVersion) => run(async (): Promise<ApiResponse<DeleteResult>> => {
+      let query = getClient().from(table).delete().eq('id', id)
+      if (expectedVersion) query = query.eq('version', expectedVersion)
+
+      const { data, error } = await query.select('id')
+      if (error) return { error: error.message, status: 400 }
+      if (!data || data.length === 0) return missingOrConflict(id)
+      return { data: { message: DELETED_MESSAGE } }
+    })
+  }
+}
+
+/**
+ * Repositories backed by a Supabase project (VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY)
+ */
+export const createSupabaseRepositories = (): Repositories => {
+  const memberJoin = '*, member:members(nama_lengkap, id_anggota)'
+  const payments = tableRepository<LoanPayment, { loan_id?: string }>('loan_payments')
+  const savings = tableRepository<Saving, SavingFilter>('savings', { select: memberJoin, normalize: withMemberName })
+  const flowSubmissions = tableRepository<FlowSubmission, WhatsAppFlowSubmissionFilter>('whatsapp_flow_submissions')
+  const notificationLogs = tableRepository<NotificationLogRecord, NotificationLogFilter>('whatsapp_notification_logs')
+  const budgets = tableRepository<Budget, BudgetFilter>('budgets')
+  const transactionJoin = '*, category:transaction_categories(*), payment_method:payment_methods(*)'
+  const paymentMethods = tableRepository<PaymentMethod, PaymentMethodFilter>('payment_methods')
+  const users = tableRepository<User, UserFilter>('users')
+
+  return {
+    backend: 'supabase',
+    members: tableRepository<Member, MemberFilter>('members'),
+    dues: tableRepository<Due, DueFilter>('dues', { select: memberJoin, normalize: withMemberName }),
+    loans: tableRepository<Loan, LoanFilter>('loans', { select: memberJoin, normalize: withMemberName }),
+    expenses: tableRepository<Expense, ExpenseFilter>('expenses'),
+    transactions: tableRepository<Transaction, TransactionFilter>('transactions', { select: transactionJoin }),
+    recurringTransactions: tableRepository<RecurringTransaction, RecurringTransactionFilter>('recurring_transactions', { select: transactionJoin }),
+    transactionCategories: tableRepository<TransactionCategory, TransactionCategoryFilter>('transaction_categories'),
+    // Active methods unless is_active is given, as the REST API lists them
+    paymentMethods: {
+      list: (filter = {}) => paymentMethods.list({ is_active: filter.is_active ?? true }),
+      create: paymentMethods.create,
+      update: paymentMethods.update,
+      remove: paymentMethods.remove
+    },
+    savings: {
+      list: savings.list,
+      create: savings.create,
+      remove: savings.remove
+    },
+    savedQueries: tableRepository<SavedQuery, Record<string, never>, SavedQueryInput>('saved_queries'),
+    budgets: {
+      list: budgets.list,
+      saveYear: (tahun, items) => run(async () => {
+        const { error: deleteError } = await getClient().from('budgets').delete().eq('tahun', tahun)
+        if (deleteError) return { error: deleteError.message, status: 400 }
+        if (items.length > 0) {
+          const { error } = await getClient().from('budgets').insert(items.map(item => ({ ...item, tahun })))
+          if (error) return { error: error.message, status: 400 }
+        }
+        return budgets.list({ tahun })
+      })
+    },
+    users: { list: users.list, update: users.update },
+    whatsappVerifications: tableRepository<WhatsAppVerification, WhatsAppVerificationFilter>('whatsapp_verifications'),
+    whatsappConfigs: tableRepository<WhatsAppConfig, Record<string, never>>('whatsapp_config'),
+    messageTemplates: tableRepository<WhatsAppMessageTemplate, MessageTemplateFilter>('message_templates'),
+    whatsappFlows: tableRepository<ConversationFlow, WhatsAppFlowFilter>('whatsapp_flows'),
+    whatsappFlowSubmissions: {
+      list: flowSubmissions.list,
+      create: flowSubmissions.create,
+      update: flowSubmissions.update
+    },
+    notificationLogs: {
+      list: notificationLogs.list,
+      create: notificationLogs.create,
+      update: notificationLogs.update
+    },
+    audienceSegments: tableRepository<AudienceSegment, Record<string, never>>('audience_segments'),
+    // There is no installment schedule in the Supabase schema: a payment is stored as one amount
+    loanPayments: {
+      list: (loanId) => payments.list(loanId ? { loan_id: loanId } : {}),
+      create: (loanId, input) => payments.create({
+        loan_id: loanId,
+        total_angsuran: input.jumlah_bayar,
+        tanggal_bayar: input.tanggal_bayar,
+        status: input.status || 'lunas'
+      }),
+      update: (_loanId, id, input, expectedVersion) => payments.update(id, {
+        total_angsuran: input.jumlah_bayar,
+        tanggal_bayar: input.tanggal_bayar,
+        ...(input.status ? { status: input.status } : {})
+      }, expectedVersion),
+      remove: (_loanId, id, expectedVersion) => payments.remove(id, expectedVersion)
+    },
+    // Without a schedule, installments are derived from the loan terms (see loanStatus)
+    loanSchedules: { list: async () => ({ data: [] }) }
+  }
+}
@@ -0,0 +1,119 @@
+import type { ApiResponse, Budget, BudgetInput, Due, Expense, Loan, LoanPayment, LoanPaymentInput, LoanScheduleRow, Member, SavedQuery, SavedQueryInput, Saving, User } from '../api'
+import type { NotificationLogRecord, WhatsAppConfig, WhatsAppMessageTemplate, WhatsAppVerification } from '../../types'
+import type { AudienceSegment } from '../../types/audienceSegments'
+import type { PaymentMethod, RecurringTransaction, Transaction, TransactionCategory } from '../../types/transactions'
+import type { ConversationFlow, FlowSubmission } from '../../types/whatsappFlows'
+
+// Where the data lives: the MySQL REST backend, a Supabase project, or this browser only
+export type DataBackend = 'mysql' | 'supabase' | 'indexeddb'
+
+export interface DeleteResult {
+  message: string
+}
+
+/**
+ * CRUD access to one entity. Every adapter returns the same { data, error } shape as the
+ * REST client, including status 409 with the server copy in `current` when expectedVersion
+ * no longer matches.
+ */
+export interface Repository<T, TFilter = Record<string, never>, TInput = Partial<T>> {
+  list(filter?: TFilter): Promise<ApiResponse<T[]>>
+  get(id: string): Promise<ApiResponse<T>>
+  create(input: TInput): Promise<ApiResponse<T>>
+  update(id: string, input: TInput, expectedVersion?: number): Promise<ApiResponse<T>>
+  remove(id: string, expectedVersion?: number): Promise<ApiResponse<DeleteResult>>
+}
+
+export type MemberFilter = { limit?: number; offset?: number }
+export type DueFilter = { bulan?: number; tahun?: number; member_id?: string }
+export type LoanFilter = { member_id?: string; status?: string }
+export type ExpenseFilter = { kategori?: string; status_otorisasi?: string }
+export type SavingFilter = { member_id?: string; type?: string }
+export type TransactionFilter = {
+  transaction_type?: Transaction['transaction_type']
+  status?: Transaction['status']
+  recurring_transaction_id?: string
+}
+export type RecurringTransactionFilter = { is_active?: boolean }
+export type TransactionCategoryFilter = { type?: TransactionCategory['type']; is_active?: boolean }
+export type PaymentMethodFilter = { is_active?: boolean }
+export type BudgetFilter = { tahun?: number }
+export type UserFilter = { member_id?: string }
+export type WhatsAppVerificationFilter = { phone_number?: string; is_verified?: boolean }
+export type WhatsAppFlowFilter = { is_active?: boolean }
+export type MessageTemplateFilter = { is_active?: boolean }
+export type NotificationLogFilter = { dedup_key?: string; status?: NotificationLogRecord['status'] }
+export type WhatsAppFlowSubmissionFilter = { status?: FlowSubmission['status']; flow_id?: string }
+
+export type MembersRepository = Repository<Member, MemberFilter>
+export type DuesRepository = Repository<Due, DueFilter>
+export type LoansRepository = Repository<Loan, LoanFilter>
+export type ExpensesRepository = Repository<Expense, ExpenseFilter>
+export type TransactionsRepository = Repository<Transaction, TransactionFilter>
+export type RecurringTransactionsRepository = Repository<RecurringTransaction, RecurringTransactionFilter>
+export type TransactionCategoriesRepository = Omit<Repository<TransactionCategory, TransactionCategoryFilter>, 'get'>
+export type PaymentMethodsRepository = Omit<Repository<PaymentMethod, PaymentMethodFilter>, 'get'>
+
+// Savings are a ledger: entries are added or reversed, never edited
+export type SavingsRepository = Pick<Repository<Saving, SavingFilter>, 'list' | 'create' | 'remove'>
+
+// SQL Editor queries: the MySQL backend lists own and shared queries, local adapters list all
+export type SavedQueriesRepository = Pick<Repository<SavedQuery, Record<string, never>, SavedQueryInput>, 'list' | 'create' | 'update' | 'remove'>
+
+// Accounts are created on the users page; elsewhere they are only linked to a member
+export type UsersRepository = Pick<Repository<User, UserFilter>, 'list' | 'update'>
+export type WhatsAppVerificationsRepository = Omit<Repository<WhatsAppVerification, WhatsAppVerificationFilter>, 'get'>
+
+export type WhatsAppFlowsRepository = Repository<ConversationFlow, WhatsAppFlowFilter>
+// Submissions are made by the bot; pengurus only move them through their statuses
+export type WhatsAppFlowSubmissionsRepository = Pick<Repository<FlowSubmission, WhatsAppFlowSubmissionFilter>, 'list' | 'create' | 'update'>
+// Log entries are only added, and updated once the send finished
+export type NotificationLogsRepository = Pick<Repository<NotificationLogRecord, NotificationLogFilter>, 'list' | 'create' | 'update'>
+export type AudienceSegmentsRepository = Repository<AudienceSegment>
+export type WhatsAppConfigsRepository = Pick<Repository<WhatsAppConfig>, 'list' | 'create' | 'update'>
+export type MessageTemplatesRepository = Omit<Repository<WhatsAppMessageTemplate, MessageTemplateFilter>, 'get'>
+
+// The RAPB is approved as a whole, so a year's plan is always replaced at once
+export interface BudgetsRepository {
+  list(filter?: BudgetFilter): Promise<ApiResponse<Budget[]>>
+  saveYear(tahun: number, items: BudgetInput[]): Promise<ApiResponse<Budget[]>>
+}
+
+// Payments are nested under their loan; the amount is allocated against the schedule by the backend.
+// Without a loan id, list returns the payments of every loan.
+export interface LoanPaymentsRepository {
+  list(loanId?: string): Promise<ApiResponse<LoanPayment[]>>
+  create(loanId: string, input: LoanPaymentInput): Promise<ApiResponse<LoanPayment>>
+  update(loanId: string, id: string, input: LoanPaymentInput, expectedVersion?: number): Promise<ApiResponse<LoanPayment>>
+  remove(loanId: string, id: string, expectedVersion?: number): Promise<ApiResponse<DeleteResult>>
+}
+
+// The installment plan of a loan, in installment order, with what payments have settled so far
+export interface LoanSchedulesRepository {
+  list(loanId: string): Promise<ApiResponse<LoanScheduleRow[]>>
+}
+
+export interface Repositories {
+  backend: DataBackend
+  members: MembersRepository
+  dues: DuesRepository
+  loans: LoansRepository
+  loanPayments: LoanPaymentsRepository
+  loanSchedules: LoanSchedulesRepository
+  expenses: ExpensesRepository
+  savings: SavingsRepository
+  transactions: TransactionsRepository
+  recurringTransactions: RecurringTransactionsRepository
+  transactionCategories: TransactionCategoriesRepository
+  paymentMethods: PaymentMethodsRepository
+  savedQueries: SavedQueriesRepository
+  budgets: BudgetsRepository
+  users: UsersRepository
+  whatsappVerifications: WhatsAppVerificationsRepository
+  whatsappConfigs: WhatsAppConfigsRepository
+  messageTemplates: MessageTemplatesRepository
+  whatsappFlows: WhatsAppFlowsRepository
+  whatsappFlowSubmissions: WhatsAppFlowSubmissionsRepository
+  notificationLogs: NotificationLogsRepository
+  audienceSegments: AudienceSegmentsRepository
+}
@@ -0,0 +1,224 @@
+import { liveQuery } from 'dexie'
+import { db, SyncEntity, SyncOperation, SyncQueueItem } from './indexeddb'
+import type { ApiResponse, LoanPaymentInput } from './api'
+import { repositories } from './repositories'
+
+/**
+ * Offline write queue.
+ *
+ * Dues, loan payments and expenses that cannot reach the server are stored in IndexedDB and
+ * replayed in the order they were recorded once the connection is back. Creates carry the
+ * queue entry's client_ref so a replay after a lost response does not insert twice; updates
+ * and deletes carry the version of the record they were based on, and the server answers 409
+ * with its current copy when someone changed the record in the meantime. Those entries stay in
+ * the queue as conflicts until the user picks a side.
+ */
+
+const RETRY_INTERVAL_MS = 30000
+
+export interface QueueWriteInput {
+  entity: SyncEntity
+  operation: SyncOperation
+  recordId?: string
+  parentId?: string
+  payload?: object
+  baseVersion?: number
+  label: string
+}
+
+export interface ReplaySummary {
+  synced: number
+  conflicts: number
+  failed: number
+  offline: boolean
+}
+
+let running: Promise<ReplaySummary> | null = null
+let started = false
+
+/**
+ * Add a write that could not reach the server; it is sent by the next replay
+ */
+export const queueWrite = async (input: QueueWriteInput): Promise<SyncQueueItem> => {
+  const now = new Date()
+  const item: SyncQueueItem = {
+    client_ref: crypto.randomUUID(),
+    entity: input.entity,
+    operation: input.operation,
+    record_id: input.recordId,
+    parent_id: input.parentId,
+    payload: { ...input.payload } as Record<string, unknown>,
+    base_version: input.baseVersion,
+    label: input.label,
+    status: 'pending',
+    attempts: 0,
+    created_at: now,
+    updated_at: now
+  }
+  item.id = await db.sync_queue.add(item)
+  return item
+}
+
+const send = (item: SyncQueueItem): Promise<ApiResponse<unknown>> => {
+  const payload = item.payload
+  const recordId = item.record_id || ''
+
+  switch (item.entity) {
+    case 'dues': {
+      const { dues } = repositories
+      if (item.operation === 'create') return dues.create({ ...payload, client_ref: item.client_ref })
+      if (item.operation === 'update') return dues.update(recordId, payload, item.base_version)
+      return dues.remove(recordId, item.base_version)
+    }
+    case 'loan_payments': {
+      const { loanPayments } = repositories
+      const loanId = item.parent_id || ''
+      const input = payload as unknown as LoanPaymentInput
+      if (item.operation === 'create') return loanPayments.create(loanId, { ...input, client_ref: item.client_ref })
+      if (item.operation === 'update') return loanPayments.update(loanId, recordId, input, item.base_version)
+      return loanPayments.remove(loanId, recordId, item.base_version)
+    }
+    case 'expenses': {
+      const { expenses } = repositories
+      if (item.operation === 'create') return expenses.create({ ...payload, client_ref: item.client_ref })
+      if (item.operation === 'update') return expenses.update(recordId, payload, item.base_version)
+      return expenses.remove(recordId, item.base_version)
+    }
+  }
+}
+
+const replayPending = async (): Promise<ReplaySummary> => {
+  const summary: ReplaySummary = { synced: 0, conflicts: 0, failed: 0, offline: false }
+  const items = await db.sync_queue.where('status').anyOf('pending', 'syncing').sortBy('id')
+
+  for (const item of items) {
+    await db.sync_queue.update(item.id!, { status: 'syncing', updated_at: new Date() })
+    const result = await send(item)
+    const attempts = item.attempts + 1
+
+    // Still offline, or the session expired: keep the rest for the next attempt
+    if (result.offline || result.status === 401) {
+      await db.sync_queue.update(item.id!, { status: 'pending', attempts, error: result.error, updated_at: new Date() })
+      summary.offline = true
+      break
+    }
+
+    if (result.status === 409 && result.current) {
+      await db.sync_queue.update(item.id!, {
+        status: 'conflict',
+        attempts,
+        error: result.error,
+        server_record: result.current,
+        updated_at: new Date()
+      })
+      summary.conflicts++
+    } else if (result.error && !(item.operation === 'delete' && result.status === 404)) {
+      await db.sync_queue.update(item.id!, { status: 'failed', attempts, error: result.error, updated_at: new Date() })
+      summary.failed++
+    } else {
+      // Done (a delete of a record that is already gone counts as done)
+      await db.sync_queue.delete(item.id!)
+      summary.synced++
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Send all pending entries. Concurrent calls share the same run.
+ */
+export const replayQueue = (): Promise<ReplaySummary> => {
+  if (!running) {
+    running = replayPending().finally(() => {
+      running = null
+    })
+  }
+  return running
+}
+
+/**
+ * Resolve a conflict: 'mine' sends the local change again on top of the server version,
+ * 'server' drops the local change and keeps what is on the server
+ */
+export const resolveConflict = async (id: number, keep: 'mine' | 'server'): Promise<ReplaySummary | null> => {
+  const item = await db.sync_queue.get(id)
+  if (!item) return null
+
+  if (keep === 'server') {
+    await db.sync_queue.delete(id)
+    return null
+  }
+
+  await db.sync_queue.update(id, {
+    status: 'pending',
+    base_version: Number(item.server_record?.version) || item.base_version,
+    error: undefined,
+    server_record: undefined,
+    updated_at: new Date()
+  })
+  return replayQueue()
+}
+
+/**
+ * Put a failed entry back in line (e.g. after fixing the data on the server)
+ */
+export const retryItem = async (id: number): Promise<ReplaySummary> => {
+  await db.sync_queue.update(id, { status: 'pending', error: undefined, updated_at: new Date() })
+  return replayQueue()
+}
+
+export const discardItem = (id: number): Promise<void> => db.sync_queue.delete(id)
+
+/**
+ * Observe the queue; the callback runs on every change, also from other tabs
+ */
+export const watchQueue = (callback: (items: SyncQueueItem[]) => void): (() => void) => {
+  const subscription = liveQuery(() => db.sync_queue.orderBy('id').toArray()).subscribe({
+    next: callback,
+    error: (error) => console.error('Sync queue watch error:', error)
+  })
+  return () => subscription.unsubscribe()
+}
+
+/**
+ * Run a list request and keep its last successful result, which is returned (with
+ * offline: true) when the server cannot be reached
+ */
+export const withOfflineCache = async <T>(key: string, request: () => Promise<ApiResponse<T>>): Promise<ApiResponse<T>> => {
+  const result = await request()
+
+  if (result.data !== undefined) {
+    await db.offline_cache.put({ key, data: result.data, updated_at: new Date() })
+    return result
+  }
+
+  if (result.offline) {
+    const snapshot = await db.offline_cache.get(key)
+    if (snapshot) return { data: snapshot.data as T, offline: true }
+  }
+  return result
+}
+
+/**
+ * Replay the queue when the browser comes back online, and periodically while entries are
+ * waiting (the online event does not fire when the signal drops without losing the network)
+ */
+export const startSyncQueue = (): void => {
+  if (started || typeof window === 'undefined') return
+  started = true
+
+  // Entries left in 'syncing' by a closed tab never got an answer
+  db.sync_queue.where('status').equals('syncing').modify({ status: 'pending' })
+    .then(() => replayQueue())
+    .catch((error) => console.error('Sync queue start error:', error))
+
+  window.addEventListener('online', () => {
+    replayQueue()
+  })
+  window.setInterval(async () => {
+    if (!navigator.onLine) return
+    const pending = await db.sync_queue.where('status').equals('pending').count()
+    if (pending > 0) replayQueue()
+  }, RETRY_INTERVAL_MS)
+}
@@ -0,0 +1,18 @@
+import { parseTemplate } from './parser'
+import { RenderOptions, renderNodesWith, TemplateValues } from './render'
+
+export { FORMATTERS, ITEM_NUMBER, TemplateError, parseTemplate } from './parser'
+export type { TemplateNode } from './parser'
+export type { RenderOptions, TemplateValue, TemplateValues } from './render'
+export { templateVariableNames, validateTemplate } from './schema'
+export type { TemplateIssue, TemplateVariable, TemplateVariableType } from './schema'
+
+/**
+ * Render a template for one recipient. Throws TemplateError on syntax errors; unknown or empty
+ * variables render as options.missing, so validate the template first.
+ */
+export const renderTemplate = (source: string, values: TemplateValues, options: RenderOptions = {}): string =>
+  renderNodesWith(parseTemplate(source), values, options)
+
+// Whether the text uses template tags at all, i.e. differs per recipient
+export const hasTemplateTags = (source: string): boolean => /\{\{[\s\S]*?\}\}/.test(source)
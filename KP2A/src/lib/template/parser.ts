@@ -0,0 +1,183 @@
+/**
+ * Parser for the message template language used by broadcasts and bot templates:
+ *
+ *   {{nama}}                           variable
+ *   {{sisa_pinjaman | rupiah}}         variable through one or more formatters
+ *   {{#if tunggakan_bulan > 2}}...{{else}}...{{/if}}
+ *   {{#unless sisa_pinjaman}}...{{/unless}}
+ *   {{#each pinjaman}}{{@nomor}}. {{sisa_pinjaman | rupiah}}{{else}}...{{/each}}
+ *
+ * Inside #each the fields of the item are in scope besides the outer variables. A block tag on
+ * a line of its own takes the line with it, so blocks can be written one tag per line.
+ */
+
+export type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<='
+
+export interface Condition {
+  path: string
+  operator?: ComparisonOperator
+  value?: string | number
+}
+
+export type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; path: string; formatters: string[]; position: number }
+  | { kind: 'if'; condition: Condition; negated: boolean; then: TemplateNode[]; otherwise: TemplateNode[]; position: number }
+  | { kind: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[]; position: number }
+
+export const FORMATTERS = ['rupiah', 'angka', 'tanggal', 'besar', 'kecil']
+
+// 1-based position of the item inside #each
+export const ITEM_NUMBER = '@nomor'
+
+const OPERATORS: ComparisonOperator[] = ['==', '!=', '>=', '<=', '>', '<']
+
+const PATH = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*$/
+
+export class TemplateError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(message)
+    this.name = 'TemplateError'
+  }
+}
+
+interface Token {
+  type: 'text' | 'tag'
+  value: string
+  start: number
+}
+
+const isBlockTag = (token: Token) =>
+  token.type === 'tag' && (/^[#/]/.test(token.value) || token.value === 'else')
+
+// Removes the indentation and line break around block tags that stand on their own line
+const trimStandaloneTags = (tokens: Token[]) => {
+  tokens.forEach((token, index) => {
+    if (!isBlockTag(token)) return
+
+    const before = tokens[index - 1]
+    const after = tokens[index + 1]
+    const lineStart = !before || (before.type === 'text' && /(^|\n)[ \t]*$/.test(before.value))
+    const lineEnd = !after || (after.type === 'text' && /^[ \t]*(\r?\n|$)/.test(after.value))
+    if (!lineStart || !lineEnd || (!before && !after)) return
+
+    if (before) before.value = before.value.replace(/[ \t]*$/, '')
+    if (after) after.value = after.value.replace(/^[ \t]*(\r?\n)?/, '')
+  })
+}
+
+export const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const open = source.indexOf('{{', i)
+    if (open === -1) {
+      tokens.push({ type: 'text', value: source.slice(i), start: i })
+      break
+    }
+    if (open > i) tokens.push({ type: 'text', value: source.slice(i, open), start: i })
+
+    const close = source.indexOf('}}', open + 2)
+    if (close === -1) throw new TemplateError('Tanda {{ tidak ditutup dengan }}', open)
+    tokens.push({ type: 'tag', value: source.slice(open + 2, close).trim(), start: open })
+    i = close + 2
+  }
+
+  trimStandaloneTags(tokens)
+  return tokens.filter(token => token.type === 'tag' || token.value !== '')
+}
+
+const parsePath = (path: string, position: number): string => {
+  if (path !== ITEM_NUMBER && !PATH.test(path)) {
+    throw new TemplateError(path ? `Nama variabel "${path}" tidak valid` : 'Nama variabel kosong', position)
+  }
+  return path
+}
+
+const parseLiteral = (text: string, position: number): string | number => {
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text)
+  const quoted = text.match(/^(["'])(.*)\1$/)
+  if (quoted) return quoted[2]
+  throw new TemplateError(`Nilai pembanding ${text} harus berupa angka atau teks dalam tanda kutip`, position)
+}
+
+const parseCondition = (text: string, position: number): Condition => {
+  const operator = OPERATORS.find(candidate => text.includes(candidate))
+  if (!operator) return { path: parsePath(text, position) }
+
+  const [left, right] = [text.slice(0, text.indexOf(operator)).trim(), text.slice(text.indexOf(operator) + operator.length).trim()]
+  return { path: parsePath(left, position), operator, value: parseLiteral(right, position) }
+}
+
+class Parser {
+  private index = 0
+
+  constructor(private readonly tokens: Token[]) {}
+
+  // Nodes up to one of the closing tags, which is left unconsumed
+  private nodes(until: string[]): TemplateNode[] {
+    const nodes: TemplateNode[] = []
+
+    while (this.index < this.tokens.length) {
+      const token = this.tokens[this.index]
+      if (token.type === 'tag' && until.includes(token.value)) return nodes
+      this.index++
+
+      if (token.type === 'text') {
+        nodes.push({ kind: 'text', text: token.value })
+      } else if (token.value.startsWith('#')) {
+        nodes.push(this.block(token))
+      } else if (token.value.startsWith('/') || token.value === 'else') {
+        throw new TemplateError(`{{${token.value}}} tanpa blok pembuka`, token.start)
+      } else {
+        nodes.push(this.variable(token))
+      }
+    }
+
+    if (until.length > 0) throw new TemplateError(`Blok belum ditutup dengan {{${until[until.length - 1]}}}`)
+    return nodes
+  }
+
+  private variable(token: Token): TemplateNode {
+    const [path, ...formatters] = token.value.split('|').map(part => part.trim())
+    formatters.forEach(formatter => {
+      if (!FORMATTERS.includes(formatter)) {
+        throw new TemplateError(`Format "${formatter}" tidak dikenal. Gunakan ${FORMATTERS.join(', ')}`, token.start)
+      }
+    })
+    return { kind: 'variable', path: parsePath(path, token.start), formatters, position: token.start }
+  }
+
+  private block(token: Token): TemplateNode {
+    const [, name, argument] = token.value.match(/^#(\w+)\s*(.*)$/) || []
+    if (!['if', 'unless', 'each'].includes(name)) {
+      throw new TemplateError(`Blok {{${token.value}}} tidak dikenal. Gunakan #if, #unless atau #each`, token.start)
+    }
+    if (!argument) throw new TemplateError(`{{#${name}}} membutuhkan nama variabel`, token.start)
+
+    const closing = `/${name}`
+    const body = this.nodes(['else', closing])
+    let otherwise: TemplateNode[] = []
+    if (this.tokens[this.index]?.value === 'else') {
+      this.index++
+      otherwise = this.nodes([closing])
+    }
+    this.index++
+
+    if (name === 'each') {
+      return { kind: 'each', path: parsePath(argument, token.start), body, otherwise, position: token.start }
+    }
+    const condition = parseCondition(argument, token.start)
+    if (name === 'unless' && condition.operator) {
+      throw new TemplateError('{{#unless}} hanya menerima nama variabel; gunakan {{#if}} untuk perbandingan', token.start)
+    }
+    return { kind: 'if', condition, negated: name === 'unless', then: body, otherwise, position: token.start }
+  }
+
+  parse(): TemplateNode[] {
+    return this.nodes([])
+  }
+}
+
+export const parseTemplate = (source: string): TemplateNode[] => new Parser(tokenize(source)).parse()
@@ -0,0 +1,94 @@
+import { Condition, ITEM_NUMBER, TemplateNode } from './parser'
+
+export type TemplateValue = string | number | boolean | null | undefined | TemplateValues | TemplateValues[]
+
+export interface TemplateValues {
+  [name: string]: TemplateValue
+}
+
+export interface RenderOptions {
+  // Text for variables without a value
+  missing?: string
+}
+
+const MONTH_NAMES = ['Januari', 'Februari', 'Maret', 'April', 'Mei', 'Juni', 'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember']
+
+const isEmpty = (value: TemplateValue) => value === null || value === undefined || value === ''
+
+const isNumeric = (value: TemplateValue): value is number | string =>
+  typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value)))
+
+// Dates are stored as YYYY-MM-DD (possibly with a time), shown as "17 April 2025"
+const longDate = (value: string) => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number)
+  return year && month && day ? `${day} ${MONTH_NAMES[month - 1]} ${year}` : value
+}
+
+const FORMAT: Record<string, (value: TemplateValue) => string> = {
+  rupiah: value => `Rp ${Math.round(Number(value) || 0).toLocaleString('id-ID')}`,
+  angka: value => (isNumeric(value) ? Number(value).toLocaleString('id-ID') : String(value)),
+  tanggal: value => longDate(String(value)),
+  besar: value => String(value).toUpperCase(),
+  kecil: value => String(value).toLowerCase()
+}
+
+const isTruthy = (value: TemplateValue): boolean => {
+  if (Array.isArray(value)) return value.length > 0
+  if (isNumeric(value)) return Number(value) !== 0
+  return !isEmpty(value) && value !== false
+}
+
+// Innermost scope first; dotted paths walk into nested values
+const lookup = (scopes: TemplateValues[], path: string): TemplateValue => {
+  const [head, ...rest] = path.split('.')
+  const scope = scopes.find(candidate => head in candidate)
+  let value: TemplateValue = scope?.[head]
+  for (const key of rest) {
+    value = value && typeof value === 'object' && !Array.isArray(value) ? value[key] : undefined
+  }
+  return value
+}
+
+const compare = (left: TemplateValue, condition: Condition): boolean => {
+  const right = condition.value as string | number
+  const bothNumbers = isNumeric(left) && isNumeric(right)
+  const a = bothNumbers ? Number(left) : String(left ?? '')
+  const b = bothNumbers ? Number(right) : String(right)
+
+  switch (condition.operator) {
+    case '==': return a === b
+    case '!=': return a !== b
+    case '>': return a > b
+    case '>=': return a >= b
+    case '<': return a < b
+    case '<=': return a <= b
+    default: return isTruthy(left)
+  }
+}
+
+const renderNodes = (nodes: TemplateNode[], scopes: TemplateValues[], options: RenderOptions): string =>
+  nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return node.text
+      case 'variable': {
+        const value = lookup(scopes, node.path)
+        if (isEmpty(value) || typeof value === 'object') return options.missing ?? ''
+        return node.formatters.reduce<string>((text, formatter, index) => FORMAT[formatter](index === 0 ? value : text), String(value))
+      }
+      case 'if': {
+        const holds = compare(lookup(scopes, node.condition.path), node.condition)
+        return renderNodes(holds !== node.negated ? node.then : node.otherwise, scopes, options)
+      }
+      case 'each': {
+        const items = lookup(scopes, node.path)
+        if (!Array.isArray(items) || items.length === 0) return renderNodes(node.otherwise, scopes, options)
+        return items
+          .map((item, index) => renderNodes(node.body, [{ ...item, [ITEM_NUMBER]: index + 1 }, ...scopes], options))
+          .join('')
+      }
+    }
+  }).join('')
+
+export const renderNodesWith = (nodes: TemplateNode[], values: TemplateValues, options: RenderOptions = {}): string =>
+  renderNodes(nodes, [values], options)
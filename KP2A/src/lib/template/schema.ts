@@ -0,0 +1,110 @@
+import { ITEM_NUMBER, TemplateError, TemplateNode, parseTemplate } from './parser'
+
+export type TemplateVariableType = 'text' | 'number' | 'currency' | 'date' | 'list'
+
+// A variable a template may use; lists name the fields of their items
+export interface TemplateVariable {
+  name: string
+  label: string
+  type: TemplateVariableType
+  fields?: TemplateVariable[]
+}
+
+export interface TemplateIssue {
+  message: string
+  position?: number
+  // 1-based line of the position
+  line?: number
+}
+
+const lineAt = (source: string, position?: number) =>
+  position === undefined ? undefined : source.slice(0, position).split('\n').length
+
+// Resolves every variable reference against the scopes it is used in
+const visitPaths = (
+  nodes: TemplateNode[],
+  scopes: TemplateVariable[][],
+  inLoop: boolean,
+  visit: (path: string, position: number, variable: TemplateVariable | undefined, root: boolean, inLoop: boolean) => void
+) => {
+  const resolve = (path: string, position: number) => {
+    if (path === ITEM_NUMBER) {
+      visit(path, position, undefined, false, inLoop)
+      return undefined
+    }
+    const [head] = path.split('.')
+    const depth = scopes.findIndex(scope => scope.some(candidate => candidate.name === head))
+    const variable = depth === -1 ? undefined : scopes[depth].find(candidate => candidate.name === head)
+    visit(path, position, variable, depth === scopes.length - 1, inLoop)
+    return variable
+  }
+
+  nodes.forEach(node => {
+    if (node.kind === 'variable') resolve(node.path, node.position)
+    if (node.kind === 'if') {
+      resolve(node.condition.path, node.position)
+      visitPaths(node.then, scopes, inLoop, visit)
+      visitPaths(node.otherwise, scopes, inLoop, visit)
+    }
+    if (node.kind === 'each') {
+      const variable = resolve(node.path, node.position)
+      visitPaths(node.body, [variable?.fields || [], ...scopes], true, visit)
+      visitPaths(node.otherwise, scopes, inLoop, visit)
+    }
+  })
+}
+
+/**
+ * Problems of a template against the variables it may use: the syntax error, or every unknown
+ * variable and misused list. An empty result means the template renders for any recipient.
+ */
+export const validateTemplate = (source: string, variables: TemplateVariable[]): TemplateIssue[] => {
+  let nodes: TemplateNode[]
+  try {
+    nodes = parseTemplate(source)
+  } catch (error) {
+    if (!(error instanceof TemplateError)) throw error
+    return [{ message: error.message, position: error.position, line: lineAt(source, error.position) }]
+  }
+
+  const issues: TemplateIssue[] = []
+  const report = (message: string, position: number) => issues.push({ message, position, line: lineAt(source, position) })
+
+  visitPaths(nodes, [variables], false, (path, position, variable, _root, inLoop) => {
+    if (path === ITEM_NUMBER) {
+      if (!inLoop) report(`{{${ITEM_NUMBER}}} hanya dapat dipakai di dalam {{#each}}`, position)
+    } else if (!variable) {
+      report(`Variabel {{${path}}} tidak dikenal`, position)
+    }
+  })
+
+  // Lists only make sense in #each, and #each only over lists
+  const checkLists = (items: TemplateNode[], scopes: TemplateVariable[][]) => items.forEach(node => {
+    const find = (path: string) => scopes.flat().find(candidate => candidate.name === path.split('.')[0])
+    if (node.kind === 'variable' && find(node.path)?.type === 'list') {
+      report(`{{${node.path}}} berisi daftar; tampilkan dengan {{#each ${node.path}}}`, node.position)
+    }
+    if (node.kind === 'if') {
+      checkLists(node.then, scopes)
+      checkLists(node.otherwise, scopes)
+    }
+    if (node.kind === 'each') {
+      const variable = find(node.path)
+      if (variable && variable.type !== 'list') report(`{{#each ${node.path}}} membutuhkan variabel daftar`, node.position)
+      checkLists(node.body, [variable?.fields || [], ...scopes])
+      checkLists(node.otherwise, scopes)
+    }
+  })
+  checkLists(nodes, [variables])
+
+  return issues.sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+}
+
+// Names of the variables (not list item fields) a template refers to, in order of first use
+export const templateVariableNames = (source: string, variables: TemplateVariable[]): string[] => {
+  const names: string[] = []
+  visitPaths(parseTemplate(source), [variables], false, (_path, _position, variable, root) => {
+    if (variable && root && !names.includes(variable.name)) names.push(variable.name)
+  })
+  return names
+}
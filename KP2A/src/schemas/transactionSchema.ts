@@ -46,6 +46,7 @@ export const categorySchema = yup.object({
     .string()
     .max(255, 'Deskripsi maksimal 255 karakter')
     .optional(),
+  is_active: yup.boolean().default(true),
 })
 
 export const paymentMethodSchema = yup.object({
@@ -62,6 +63,7 @@ export const paymentMethodSchema = yup.object({
     .string()
     .max(255, 'Deskripsi maksimal 255 karakter')
     .optional(),
+  is_active: yup.boolean().default(true),
 })
 
 export type TransactionFormValues = yup.InferType<typeof transactionSchema>
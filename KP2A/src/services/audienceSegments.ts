@@ -0,0 +1,218 @@
+// Broadcast audience segments
+// Rules are checked against the same member values the broadcast templates use, so a segment
+// always reflects the data at the moment it is evaluated
+
+import type { Member } from '../lib/api';
+import type { TemplateValues } from '../lib/template';
+import type { AudienceSegment, SegmentField, SegmentOperator, SegmentRule } from '../types/audienceSegments';
+import type { BroadcastRecipientData } from './broadcastTemplates';
+
+export interface SegmentFieldDefinition {
+  id: SegmentField;
+  label: string;
+  type: 'number' | 'currency' | 'boolean' | 'choice';
+  options?: { value: string; label: string }[];
+}
+
+export type SegmentDraft = Omit<AudienceSegment, 'id' | 'created_at' | 'updated_at'>;
+
+const YES_NO = [
+  { value: 'ya', label: 'Ya' },
+  { value: 'tidak', label: 'Tidak' }
+];
+
+export const SEGMENT_FIELDS: SegmentFieldDefinition[] = [
+  {
+    id: 'status_keanggotaan',
+    label: 'Status keanggotaan',
+    type: 'choice',
+    options: [
+      { value: 'aktif', label: 'Aktif' },
+      { value: 'non_aktif', label: 'Non aktif' },
+      { value: 'pending', label: 'Pending' }
+    ]
+  },
+  { id: 'tahun_masuk', label: 'Tahun masuk', type: 'number' },
+  { id: 'masuk_tahun_ini', label: 'Masuk tahun ini', type: 'boolean', options: YES_NO },
+  { id: 'total_simpanan', label: 'Total simpanan', type: 'currency' },
+  { id: 'tunggakan_bulan', label: 'Bulan iuran tertunggak', type: 'number' },
+  { id: 'tunggakan_iuran', label: 'Total iuran tertunggak', type: 'currency' },
+  { id: 'punya_pinjaman', label: 'Punya pinjaman aktif', type: 'boolean', options: YES_NO },
+  { id: 'sisa_pinjaman', label: 'Sisa pinjaman aktif', type: 'currency' },
+  { id: 'tunggakan_pinjaman', label: 'Tunggakan angsuran', type: 'currency' },
+  { id: 'jatuh_tempo_minggu_ini', label: 'Angsuran jatuh tempo minggu ini', type: 'boolean', options: YES_NO }
+];
+
+export const SEGMENT_OPERATORS: Record<SegmentFieldDefinition['type'], SegmentOperator[]> = {
+  number: ['>=', '>', '==', '!=', '<=', '<'],
+  currency: ['>=', '>', '==', '!=', '<=', '<'],
+  boolean: ['=='],
+  choice: ['==', '!=']
+};
+
+export const OPERATOR_LABELS: Record<SegmentOperator, string> = {
+  '==': '=',
+  '!=': '≠',
+  '>': '>',
+  '>=': '≥',
+  '<': '<',
+  '<=': '≤'
+};
+
+// Starting points for the segments the pengurus asks for most
+export const SEGMENT_PRESETS: SegmentDraft[] = [
+  {
+    name: 'Tunggakan iuran 2 bulan atau lebih',
+    description: 'Anggota dengan iuran wajib yang belum dibayar minimal 2 bulan',
+    match: 'all',
+    rules: [{ field: 'tunggakan_bulan', operator: '>=', value: 2 }]
+  },
+  {
+    name: 'Angsuran jatuh tempo minggu ini',
+    description: 'Peminjam aktif dengan angsuran yang jatuh tempo Senin sampai Minggu ini',
+    match: 'all',
+    rules: [
+      { field: 'punya_pinjaman', operator: '==', value: 'ya' },
+      { field: 'jatuh_tempo_minggu_ini', operator: '==', value: 'ya' }
+    ]
+  },
+  {
+    name: 'Anggota baru tahun ini',
+    description: 'Anggota yang masuk tahun ini',
+    match: 'all',
+    rules: [{ field: 'masuk_tahun_ini', operator: '==', value: 'ya' }]
+  },
+  {
+    name: 'Simpanan di atas Rp 5.000.000',
+    description: 'Anggota dengan total simpanan lebih dari Rp 5.000.000',
+    match: 'all',
+    rules: [{ field: 'total_simpanan', operator: '>', value: 5000000 }]
+  }
+];
+
+const fieldDefinition = (field: SegmentField) => SEGMENT_FIELDS.find(definition => definition.id === field);
+
+const isoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Monday to Sunday of the week containing today
+const currentWeek = (today: Date) => {
+  const monday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - ((today.getDay() + 6) % 7));
+  const sunday = new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + 6);
+  return { start: isoDate(monday), end: isoDate(sunday) };
+};
+
+const yesNo = (value: boolean) => (value ? 'ya' : 'tidak');
+
+/**
+ * Values of one member for every segment field. Loan and dues figures come from the broadcast
+ * template values, so a segment and the message sent to it agree on the numbers.
+ */
+export const segmentFieldValues = (
+  member: Member,
+  values: TemplateValues,
+  today: Date
+): Record<SegmentField, number | string> => {
+  const joinedYear = member.tanggal_masuk ? Number(String(member.tanggal_masuk).slice(0, 4)) : 0;
+  const loans = Array.isArray(values.pinjaman) ? values.pinjaman : [];
+  const week = currentWeek(today);
+
+  return {
+    status_keanggotaan: member.status_keanggotaan,
+    tahun_masuk: joinedYear,
+    masuk_tahun_ini: yesNo(joinedYear === today.getFullYear()),
+    total_simpanan: Number(values.total_simpanan) || 0,
+    tunggakan_bulan: Number(values.tunggakan_bulan) || 0,
+    tunggakan_iuran: Number(values.tunggakan_iuran) || 0,
+    punya_pinjaman: yesNo(loans.length > 0),
+    sisa_pinjaman: Number(values.sisa_pinjaman) || 0,
+    tunggakan_pinjaman: Number(values.tunggakan_pinjaman) || 0,
+    jatuh_tempo_minggu_ini: yesNo(loans.some(loan => {
+      const dueDate = typeof loan.jatuh_tempo === 'string' ? loan.jatuh_tempo.slice(0, 10) : '';
+      return dueDate >= week.start && dueDate <= week.end;
+    }))
+  };
+};
+
+const ruleHolds = (rule: SegmentRule, fieldValues: Record<SegmentField, number | string>): boolean => {
+  const definition = fieldDefinition(rule.field);
+  const numeric = definition?.type === 'number' || definition?.type === 'currency';
+  const left = numeric ? Number(fieldValues[rule.field]) : String(fieldValues[rule.field]);
+  const right = numeric ? Number(rule.value) : String(rule.value);
+
+  switch (rule.operator) {
+    case '==': return left === right;
+    case '!=': return left !== right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    default: return false;
+  }
+};
+
+export const matchesSegment = (
+  segment: Pick<AudienceSegment, 'match' | 'rules'>,
+  fieldValues: Record<SegmentField, number | string>
+): boolean => {
+  if (segment.rules.length === 0) return false;
+  return segment.match === 'any'
+    ? segment.rules.some(rule => ruleHolds(rule, fieldValues))
+    : segment.rules.every(rule => ruleHolds(rule, fieldValues));
+};
+
+// Members with a WhatsApp number that belong to the segment right now
+export const evaluateSegment = (
+  segment: Pick<AudienceSegment, 'match' | 'rules'>,
+  data: BroadcastRecipientData,
+  today: Date = new Date()
+): Member[] =>
+  data.members.filter(member =>
+    matchesSegment(segment, segmentFieldValues(member, data.valuesForMember(member.id), today))
+  );
+
+export const validateSegment = (segment: SegmentDraft): string[] => {
+  const errors: string[] = [];
+  if (!segment.name.trim()) errors.push('Nama segmen wajib diisi');
+  if (segment.rules.length === 0) errors.push('Tambahkan minimal satu aturan');
+
+  segment.rules.forEach((rule, index) => {
+    const definition = fieldDefinition(rule.field);
+    if (!definition) {
+      errors.push(`Aturan ${index + 1}: kolom tidak dikenal`);
+      return;
+    }
+    if (!SEGMENT_OPERATORS[definition.type].includes(rule.operator)) {
+      errors.push(`Aturan ${index + 1}: operator ${rule.operator} tidak berlaku untuk ${definition.label.toLowerCase()}`);
+    }
+    if (definition.options) {
+      if (!definition.options.some(option => option.value === rule.value)) {
+        errors.push(`Aturan ${index + 1}: pilih nilai untuk ${definition.label.toLowerCase()}`);
+      }
+    } else if (rule.value === '' || !Number.isFinite(Number(rule.value)) || Number(rule.value) < 0) {
+      errors.push(`Aturan ${index + 1}: ${definition.label.toLowerCase()} harus berupa angka 0 atau lebih`);
+    }
+  });
+
+  return errors;
+};
+
+// "Bulan iuran tertunggak ≥ 2", "Punya pinjaman aktif: Ya"
+export const describeRule = (rule: SegmentRule): string => {
+  const definition = fieldDefinition(rule.field);
+  if (!definition) return `${rule.field} ${OPERATOR_LABELS[rule.operator]} ${rule.value}`;
+
+  if (definition.options) {
+    const option = definition.options.find(item => item.value === rule.value);
+    const label = option?.label || String(rule.value);
+    return rule.operator === '==' ? `${definition.label}: ${label}` : `${definition.label} bukan ${label}`;
+  }
+
+  const value = definition.type === 'currency'
+    ? `Rp ${Math.round(Number(rule.value) || 0).toLocaleString('id-ID')}`
+    : String(rule.value);
+  return `${definition.label} ${OPERATOR_LABELS[rule.operator]} ${value}`;
+};
+
+export const describeSegment = (segment: Pick<AudienceSegment, 'match' | 'rules'>): string =>
+  segment.rules.map(describeRule).join(segment.match === 'any' ? ' atau ' : ' dan ');
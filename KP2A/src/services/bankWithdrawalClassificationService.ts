@@ -1,4 +1,15 @@
 import { supabase } from '../lib/supabase';
+import {
+  CategoryPrecision,
+  ClassificationLogExample,
+  evaluateWithdrawalModel,
+  modelWeight,
+  predictWithdrawalCategory,
+  trainingExamplesFromLogs,
+  trainWithdrawalModel,
+  WithdrawalCategoryModel,
+  WithdrawalTrainingExample
+} from '../utils/withdrawalCategoryModel';
 
 // Types for bank withdrawal classification
 export interface BankWithdrawalPattern {
@@ -51,15 +62,32 @@ export interface ValidationResult {
   approval_threshold_exceeded: boolean;
 }
 
+export interface LearnedModelReport {
+  exampleCount: number;
+  trainedAt: string | null;
+  // Share of the final score given to the model (0 while it is not trained)
+  modelWeight: number;
+  categories: Array<CategoryPrecision & { category_name: string }>;
+}
+
+// The model is retrained from the logs at most this often, and after every manual override
+const LEARNED_MODEL_MAX_AGE = 60 * 60 * 1000;
+const MIN_TRAINING_EXAMPLES = 10;
+
 class BankWithdrawalClassificationService {
-  
+  private learnedModel: Promise<WithdrawalCategoryModel | null> | null = null;
+  private learnedModelLoadedAt = 0;
+
   /**
-   * Classify a bank withdrawal transaction using pattern matching
+   * Classify a bank withdrawal transaction using pattern matching, blended with the model
+   * learned from earlier classifications once there is enough history
    */
   async classifyTransaction(transactionData: TransactionClassificationData): Promise<ClassificationResult> {
     try {
       // Get active patterns
       const patterns = await this.getActivePatterns();
+      const model = await this.getLearnedModel();
+      const weight = modelWeight(model);
       
       let bestMatch: ClassificationResult = {
         suggested_category_id: '',
@@ -69,20 +97,41 @@ class BankWithdrawalClassificationService {
         patterns_matched: []
       };
 
-      // Pattern matching logic
+      // Pattern matching logic, best pattern per category
+      const patternMatches = new Map<string, { score: number; pattern: BankWithdrawalPattern }>();
       for (const pattern of patterns) {
         const score = await this.calculatePatternScore(transactionData, pattern);
-        
+        const current = patternMatches.get(pattern.category_id);
+        if (!current || score > current.score) {
+          patternMatches.set(pattern.category_id, { score, pattern });
+        }
+      }
+
+      const predictions = model ? predictWithdrawalCategory(model, transactionData) : [];
+      const categoryIds = new Set([...patternMatches.keys(), ...predictions.map(prediction => prediction.category_id)]);
+
+      categoryIds.forEach(categoryId => {
+        const match = patternMatches.get(categoryId);
+        const patternScore = match?.score || 0;
+        const probability = predictions.find(prediction => prediction.category_id === categoryId)?.probability || 0;
+        // A category the model has never seen keeps its pattern score instead of counting as 0%
+        const learnedScore = model?.categories[categoryId] ? probability * 100 : patternScore;
+        const score = Math.min(Math.round((1 - weight) * patternScore + weight * learnedScore), 100);
+
         if (score > bestMatch.confidence_score) {
+          const usedModel = weight > 0 && !!model?.categories[categoryId];
           bestMatch = {
-            suggested_category_id: pattern.category_id,
+            suggested_category_id: categoryId,
             confidence_score: score,
-            classification_method: 'pattern_matching',
-            reasoning: `Matched pattern: ${pattern.pattern_name}`,
-            patterns_matched: [pattern.pattern_name]
+            classification_method: usedModel ? 'hybrid' : 'pattern_matching',
+            reasoning: [
+              match && `Matched pattern: ${match.pattern.pattern_name}`,
+              usedModel && `Learned model: ${Math.round(probability * 100)}% from ${model?.exampleCount} classified transactions`
+            ].filter(Boolean).join('; '),
+            patterns_matched: match ? [match.pattern.pattern_name] : []
           };
         }
-      }
+      });
 
       // If no good match found, use fallback classification
       if (bestMatch.confidence_score < 50) {
@@ -102,6 +151,41 @@ class BankWithdrawalClassificationService {
     }
   }
 
+  /**
+   * Best hand-written pattern for a transaction without looking up history, for scoring many
+   * lines at once (bank statement reconciliation). Frequency gets the same neutral score
+   * calculatePatternScore uses when there is no history. Returns null below the 50 threshold.
+   */
+  suggestFromPatterns(
+    transactionData: TransactionClassificationData,
+    patterns: BankWithdrawalPattern[]
+  ): ClassificationResult | null {
+    let best: ClassificationResult | null = null;
+
+    for (const pattern of patterns) {
+      let score = 50 * 0.2;
+      if (pattern.description_pattern && transactionData.description) {
+        score += this.matchDescriptionPattern(transactionData.description, pattern.description_pattern) * 0.4;
+      }
+      if (this.isAmountInRange(transactionData.amount, pattern.amount_range_min, pattern.amount_range_max)) {
+        score += 30;
+      }
+      score += (pattern.confidence_score / 100) * 10;
+
+      if (score >= 50 && (!best || score > best.confidence_score)) {
+        best = {
+          suggested_category_id: pattern.category_id,
+          confidence_score: Math.min(Math.round(score), 100),
+          classification_method: 'pattern_matching',
+          reasoning: `Matched pattern: ${pattern.pattern_name}`,
+          patterns_matched: [pattern.pattern_name]
+        };
+      }
+    }
+
+    return best;
+  }
+
   /**
    * Calculate pattern matching score
    */
@@ -295,6 +379,8 @@ class BankWithdrawalClassificationService {
    * Get active classification patterns
    */
   async getActivePatterns(): Promise<BankWithdrawalPattern[]> {
+    if (!supabase) return [];
+
     const { data, error } = await supabase
       .from('bank_withdrawal_patterns')
       .select('*')
@@ -309,6 +395,72 @@ class BankWithdrawalClassificationService {
     return data || [];
   }
 
+  /**
+   * Model trained on classification history, cached for LEARNED_MODEL_MAX_AGE. Null until there are
+   * enough classified transactions in at least two categories.
+   */
+  async getLearnedModel(): Promise<WithdrawalCategoryModel | null> {
+    if (!this.learnedModel || Date.now() - this.learnedModelLoadedAt > LEARNED_MODEL_MAX_AGE) {
+      this.learnedModelLoadedAt = Date.now();
+      this.learnedModel = this.loadTrainingExamples().then(examples => this.trainIfEnough(examples));
+    }
+    return this.learnedModel;
+  }
+
+  /**
+   * Retrain the learned model now and report its cross-validated precision per category
+   */
+  async getLearnedModelReport(): Promise<LearnedModelReport> {
+    const examples = await this.loadTrainingExamples();
+    const model = this.trainIfEnough(examples);
+    this.learnedModel = Promise.resolve(model);
+    this.learnedModelLoadedAt = Date.now();
+
+    const precision = model ? evaluateWithdrawalModel(examples) : [];
+    const names = new Map<string, string>();
+    if (supabase && precision.length > 0) {
+      const { data } = await supabase
+        .from('transaction_categories')
+        .select('id, name')
+        .in('id', precision.map(entry => entry.category_id));
+      (data || []).forEach((category: { id: string; name: string }) => names.set(category.id, category.name));
+    }
+
+    return {
+      exampleCount: examples.length,
+      trainedAt: model?.trainedAt || null,
+      modelWeight: modelWeight(model),
+      categories: precision.map(entry => ({ ...entry, category_name: names.get(entry.category_id) || 'Unknown' }))
+    };
+  }
+
+  private trainIfEnough(examples: WithdrawalTrainingExample[]): WithdrawalCategoryModel | null {
+    const model = trainWithdrawalModel(examples);
+    if (model.exampleCount < MIN_TRAINING_EXAMPLES || Object.keys(model.categories).length < 2) {
+      return null;
+    }
+    return model;
+  }
+
+  /**
+   * One training example per logged transaction, labelled by its latest manual override
+   */
+  private async loadTrainingExamples(): Promise<WithdrawalTrainingExample[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('classification_logs')
+      .select('transaction_id, suggested_category_id, manual_override, created_at, transactions(description, amount, transaction_date, category_id)')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching classification history:', error);
+      return [];
+    }
+
+    return trainingExamplesFromLogs((data || []) as unknown as ClassificationLogExample[]);
+  }
+
   /**
    * Log classification result
    */
@@ -370,6 +522,9 @@ class BankWithdrawalClassificationService {
 
       if (error) {
         console.error('Error logging manual override:', error);
+      } else {
+        // The correction is the most useful training example there is
+        this.learnedModel = null;
       }
     } catch (error) {
       console.error('Manual override logging error:', error);
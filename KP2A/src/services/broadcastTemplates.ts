@@ -0,0 +1,147 @@
+// Broadcast template variables
+// Values per recipient come from the member data; contacts that are not members only get nama and no_hp
+
+import type { Due, Member, Saving } from '../lib/api';
+import type { TemplateValues, TemplateVariable } from '../lib/template';
+import {
+  CommandDataSource,
+  loadLoanStatus,
+  LoanStatus,
+  normalizePhoneNumber,
+  repositoryDataSource,
+  savingsBalance
+} from './whatsappCommandParser';
+
+const LOAN_FIELDS: TemplateVariable[] = [
+  { name: 'jumlah_pinjaman', label: 'Jumlah pinjaman', type: 'currency' },
+  { name: 'sisa_pinjaman', label: 'Sisa pinjaman', type: 'currency' },
+  { name: 'angsuran_bulanan', label: 'Angsuran per bulan', type: 'currency' },
+  { name: 'jatuh_tempo', label: 'Jatuh tempo berikutnya', type: 'date' },
+  { name: 'tunggakan', label: 'Tunggakan angsuran', type: 'currency' }
+];
+
+const DUE_FIELDS: TemplateVariable[] = [
+  { name: 'bulan', label: 'Bulan', type: 'text' },
+  { name: 'jumlah', label: 'Iuran wajib dan simpanan wajib', type: 'currency' }
+];
+
+export const BROADCAST_VARIABLES: TemplateVariable[] = [
+  { name: 'nama', label: 'Nama penerima', type: 'text' },
+  { name: 'no_hp', label: 'Nomor WhatsApp', type: 'text' },
+  { name: 'no_anggota', label: 'Nomor anggota', type: 'text' },
+  { name: 'total_simpanan', label: 'Total simpanan', type: 'currency' },
+  { name: 'sisa_pinjaman', label: 'Sisa pinjaman aktif', type: 'currency' },
+  { name: 'angsuran_bulanan', label: 'Angsuran per bulan', type: 'currency' },
+  { name: 'jatuh_tempo', label: 'Jatuh tempo angsuran berikutnya', type: 'date' },
+  { name: 'tunggakan_pinjaman', label: 'Tunggakan angsuran', type: 'currency' },
+  { name: 'tunggakan_bulan', label: 'Jumlah bulan iuran tertunggak', type: 'number' },
+  { name: 'tunggakan_iuran', label: 'Total iuran tertunggak', type: 'currency' },
+  { name: 'pinjaman', label: 'Pinjaman aktif', type: 'list', fields: LOAN_FIELDS },
+  { name: 'iuran_tertunggak', label: 'Iuran yang belum dibayar', type: 'list', fields: DUE_FIELDS }
+];
+
+// Shown in the preview when no member data could be loaded
+export const SAMPLE_VALUES: TemplateValues = {
+  nama: 'Siti Aminah',
+  no_hp: '6281211111111',
+  no_anggota: 'A001',
+  total_simpanan: 2250000,
+  sisa_pinjaman: 1500000,
+  angsuran_bulanan: 250000,
+  jatuh_tempo: '2025-05-10',
+  tunggakan_pinjaman: 0,
+  tunggakan_bulan: 2,
+  tunggakan_iuran: 60000,
+  pinjaman: [{ jumlah_pinjaman: 3000000, sisa_pinjaman: 1500000, angsuran_bulanan: 250000, jatuh_tempo: '2025-05-10', tunggakan: 0 }],
+  iuran_tertunggak: [{ bulan: 'Februari 2025', jumlah: 30000 }, { bulan: 'Maret 2025', jumlah: 30000 }]
+};
+
+export interface MemberTemplateData {
+  loans: LoanStatus[];
+  dues: Due[];
+  savings: Saving[];
+}
+
+export interface BroadcastRecipientData {
+  // Members with a WhatsApp number, for the preview
+  members: Member[];
+  valuesForMember(memberId: string): TemplateValues;
+  // Member values when the number belongs to a member, otherwise only nama and no_hp
+  valuesForPhone(phone: string, name: string): TemplateValues;
+}
+
+const MONTH_NAMES = ['Januari', 'Februari', 'Maret', 'April', 'Mei', 'Juni', 'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember'];
+
+const amount = (value: unknown) => Number(value) || 0;
+
+/**
+ * Template values of one member. Dues arrears are the unpaid months before the current one,
+ * counted as iuran wajib plus simpanan wajib like the dues reminders.
+ */
+export const memberTemplateValues = (member: Member, data: MemberTemplateData, today: Date): TemplateValues => {
+  const currentMonth = today.getFullYear() * 12 + today.getMonth() + 1;
+  const unpaidDues = data.dues
+    .filter(due => due.member_id === member.id && due.status !== 'lunas' && due.tahun * 12 + due.bulan < currentMonth)
+    .sort((a, b) => a.tahun - b.tahun || a.bulan - b.bulan);
+  const loans = data.loans.filter(status => status.loan.member_id === member.id);
+  const nextDueDates = loans.map(status => status.nextDueDate).filter((date): date is string => !!date).sort();
+
+  return {
+    nama: member.nama_lengkap,
+    no_hp: normalizePhoneNumber(member.no_hp),
+    no_anggota: member.id_anggota || '',
+    total_simpanan: savingsBalance(
+      data.savings.filter(saving => saving.member_id === member.id),
+      data.dues.filter(due => due.member_id === member.id)
+    ).total,
+    sisa_pinjaman: loans.reduce((sum, status) => sum + amount(status.loan.sisa_pinjaman), 0),
+    angsuran_bulanan: loans.reduce((sum, status) => sum + amount(status.loan.angsuran_bulanan), 0),
+    jatuh_tempo: nextDueDates[0] || null,
+    tunggakan_pinjaman: loans.reduce((sum, status) => sum + status.arrears, 0),
+    tunggakan_bulan: unpaidDues.length,
+    tunggakan_iuran: unpaidDues.reduce((sum, due) => sum + amount(due.iuran_wajib) + amount(due.simpanan_wajib), 0),
+    pinjaman: loans.map(status => ({
+      jumlah_pinjaman: amount(status.loan.jumlah_pinjaman),
+      sisa_pinjaman: amount(status.loan.sisa_pinjaman),
+      angsuran_bulanan: amount(status.loan.angsuran_bulanan),
+      jatuh_tempo: status.nextDueDate,
+      tunggakan: status.arrears
+    })),
+    iuran_tertunggak: unpaidDues.map(due => ({
+      bulan: `${MONTH_NAMES[due.bulan - 1]} ${due.tahun}`,
+      jumlah: amount(due.iuran_wajib) + amount(due.simpanan_wajib)
+    }))
+  };
+};
+
+// Reads members, savings, dues and active loans once for a whole broadcast
+export const loadBroadcastRecipientData = async (
+  dataSource: CommandDataSource = repositoryDataSource,
+  today: Date = new Date()
+): Promise<BroadcastRecipientData> => {
+  const [members, savings, dues, loans] = await Promise.all([
+    dataSource.listMembers(),
+    dataSource.listSavings(),
+    dataSource.listDues(),
+    dataSource.listLoans()
+  ]);
+  const activeLoans = loans.filter(loan => loan.status === 'aktif');
+  const statuses = await Promise.all(
+    activeLoans.map(loan => loadLoanStatus(dataSource, loan, today))
+  );
+
+  const data: MemberTemplateData = { loans: statuses, dues, savings };
+  const byPhone = new Map(members.filter(member => member.no_hp).map(member => [normalizePhoneNumber(member.no_hp), member]));
+
+  return {
+    members: members.filter(member => member.no_hp),
+    valuesForMember(memberId) {
+      const member = members.find(item => item.id === memberId);
+      return member ? memberTemplateValues(member, data, today) : {};
+    },
+    valuesForPhone(phone, name) {
+      const member = byPhone.get(normalizePhoneNumber(phone));
+      return member ? memberTemplateValues(member, data, today) : { nama: name, no_hp: normalizePhoneNumber(phone) };
+    }
+  };
+};
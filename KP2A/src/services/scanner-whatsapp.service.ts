@@ -6,6 +6,7 @@
 import { ScanResult, ScannerError, ScannerMode } from '../types/scanner';
 import whatsappSocketService from './whatsapp-socket.service';
 import { validateScanSecurity, validateMemberQR, validatePaymentQR } from '../utils/scannerSecurity';
+import { loadCardTrust, refreshCardTrust, verifyMemberCard } from '../utils/memberCardVerification';
 import { supabase } from '../lib/supabase';
 
 export interface ScannerWhatsAppConfig {
@@ -76,6 +77,11 @@ class ScannerWhatsAppService {
       // Mark as initialized
       this.isInitialized = true;
 
+      // Refresh the member card key and revocation list while online; scans use the cached copy
+      if (this.config.memberVerificationEnabled && navigator.onLine) {
+        refreshCardTrust().catch(error => console.warn('Could not refresh member card trust:', error));
+      }
+
       console.log('Scanner WhatsApp Service initialized successfully');
 
       // Send initialization notification
@@ -230,7 +236,17 @@ class ScannerWhatsAppService {
     }
 
     const memberData = memberValidation.parsedData;
-    
+
+    // Signature check is offline; only the first scan on a device needs a connection
+    const trust = loadCardTrust() || await refreshCardTrust();
+    if (!trust) {
+      throw new Error('Member card public key not available: connect to the server once to download it');
+    }
+    const verdict = await verifyMemberCard(memberData, trust);
+    if (!verdict.valid) {
+      throw new Error(`Invalid member QR: ${verdict.reason}`);
+    }
+
     // Save member verification to database
     const { error } = await supabase
       .from('member_verification_scans')
@@ -425,8 +441,9 @@ class ScannerWhatsAppService {
    */
   private formatMemberVerificationMessage(memberData: any): string {
     return `✅ *Member Verified*\n\n` +
-      `Member ID: ${memberData?.memberId || 'Unknown'}\n` +
+      `Member ID: ${memberData?.idAnggota || memberData?.memberId || 'Unknown'}\n` +
       `Name: ${memberData?.memberName || 'Unknown'}\n` +
+      `Card: ${memberData?.serial || '-'} (valid until ${memberData?.expiresAt || '-'})\n` +
       `Time: ${new Date().toLocaleString('id-ID')}\n` +
       `Status: Verified`;
   }
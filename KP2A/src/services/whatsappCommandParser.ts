@@ -1,6 +1,10 @@
 // WhatsApp Command Parser Service
 // Handles incoming commands from WhatsApp mobile
-// Updated to fix ERR_ABORTED issues
+// Replies are built from the koperasi data; the sender is identified by their verified number
+
+import type { ApiResponse, Due, Loan, LoanPayment, LoanScheduleRow, Member, Saving, User } from '../lib/api';
+import { repositories } from '../lib/repositories';
+import type { Transaction } from '../types/transactions';
 
 export interface CommandResponse {
   success: boolean;
@@ -12,17 +16,252 @@ export interface CommandResponse {
 export interface UserContext {
   phoneNumber: string;
   isAdmin: boolean;
+  // members.id of the verified sender
   memberId?: string;
   name?: string;
+  role?: User['role'];
+  member?: Member;
+}
+
+// Data the bot reads. Methods throw when the backend returns an error.
+export interface CommandDataSource {
+  // The member whose WhatsApp number was verified, or null for unknown numbers
+  findVerifiedMember(phoneNumber: string): Promise<Member | null>;
+  findUserRole(memberId: string): Promise<User['role'] | null>;
+  listMembers(): Promise<Member[]>;
+  listSavings(memberId?: string): Promise<Saving[]>;
+  listDues(memberId?: string): Promise<Due[]>;
+  listLoans(memberId?: string): Promise<Loan[]>;
+  listLoanPayments(loanId: string): Promise<LoanPayment[]>;
+  // Empty when the backend keeps no installment schedule (Supabase, IndexedDB)
+  listLoanSchedule(loanId: string): Promise<LoanScheduleRow[]>;
+  // Empty when the backend keeps no transactions (MySQL)
+  listTransactions(): Promise<Transaction[]>;
+}
+
+export interface SavingsBalance {
+  pokok: number;
+  wajib: number;
+  sukarela: number;
+  danaPinjaman: number;
+  lainnya: number;
+  total: number;
+  lastUpdate: string | null;
 }
 
+export interface LoanStatus {
+  loan: Loan;
+  paidAmount: number;
+  paidInstallments: number;
+  nextDueDate: string | null;
+  // Installments past their due date that are not covered by payments
+  arrears: number;
+}
+
+// Roles that may use the admin commands, the same roles the backend lets manage data
+const ADMIN_ROLES: User['role'][] = ['admin', 'pengurus'];
+
+const ACTIVE_LOAN_STATUSES: Loan['status'][] = ['aktif'];
+
+const MONTH_NAMES = ['Januari', 'Februari', 'Maret', 'April', 'Mei', 'Juni', 'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember'];
+
+export const NOT_ADMIN: CommandResponse = {
+  success: false,
+  message: '❌ Perintah ini hanya untuk admin.'
+};
+
+export const NOT_VERIFIED: CommandResponse = {
+  success: false,
+  requiresAuth: true,
+  message: `
+🔒 *NOMOR BELUM TERVERIFIKASI*
+
+Nomor WhatsApp ini belum terhubung dengan data anggota KP2A Cimahi.
+Hubungi pengurus untuk verifikasi nomor Anda, lalu kirim perintah lagi.
+  `
+};
+
+export const isAdminRole = (role: User['role'] | null | undefined): boolean =>
+  !!role && ADMIN_ROLES.includes(role);
+
+// Indonesian numbers in international form without "+": 0812..., +62 812-... and 812... become 62812...
+export const normalizePhoneNumber = (phoneNumber: string): string => {
+  const digits = (phoneNumber || '').replace(/\D/g, '');
+  if (digits.startsWith('0')) return `62${digits.slice(1)}`;
+  if (digits.startsWith('8')) return `62${digits}`;
+  return digits;
+};
+
+const amount = (value: unknown) => Number(value) || 0;
+
+const rupiah = (value: number) => `Rp ${Math.round(value).toLocaleString('id-ID')}`;
+
+const dateOnly = (value: string | null | undefined) => (value ? String(value).slice(0, 10) : '');
+
+const isoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const longDate = (value: string) => {
+  const [year, month, day] = dateOnly(value).split('-').map(Number);
+  return year ? `${day} ${MONTH_NAMES[month - 1]} ${year}` : '-';
+};
+
+// Same day of month `months` later, clamped to shorter months
+const addMonths = (value: string, months: number): string => {
+  const [year, month, day] = dateOnly(value).split('-').map(Number);
+  const target = new Date(year, month - 1 + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(day, lastDay));
+  return isoDate(target);
+};
+
+const membershipLength = (joined: string, today: Date) => {
+  const [year, month] = dateOnly(joined).split('-').map(Number);
+  if (!year) return '-';
+  const months = (today.getFullYear() - year) * 12 + today.getMonth() + 1 - month;
+  if (months < 1) return 'kurang dari 1 bulan';
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  return [years > 0 ? `${years} tahun` : '', rest > 0 ? `${rest} bulan` : ''].filter(Boolean).join(' ');
+};
+
+const duePaid = (due: Due) => amount(due.iuran_wajib) + amount(due.simpanan_wajib) + amount(due.iuran_sukarela);
+
+/**
+ * Savings per kind, as the member portal reports them: savings entries by type plus the
+ * simpanan wajib and sukarela of paid dues
+ */
+export const savingsBalance = (savings: Saving[], dues: Due[]): SavingsBalance => {
+  const balance: SavingsBalance = { pokok: 0, wajib: 0, sukarela: 0, danaPinjaman: 0, lainnya: 0, total: 0, lastUpdate: null };
+  const dates: string[] = [];
+
+  savings.forEach(saving => {
+    const type = (saving.type || '').toLowerCase();
+    const value = amount(saving.amount);
+    if (type.includes('pinjaman')) balance.danaPinjaman += value;
+    else if (type.includes('pokok')) balance.pokok += value;
+    else if (type.includes('wajib')) balance.wajib += value;
+    else if (type.includes('sukarela')) balance.sukarela += value;
+    else balance.lainnya += value;
+    dates.push(dateOnly(saving.transaction_date));
+  });
+
+  dues.filter(due => due.status === 'lunas').forEach(due => {
+    balance.wajib += amount(due.simpanan_wajib);
+    balance.sukarela += amount(due.iuran_sukarela);
+    dates.push(dateOnly(due.tanggal_bayar));
+  });
+
+  balance.total = balance.pokok + balance.wajib + balance.sukarela + balance.danaPinjaman + balance.lainnya;
+  balance.lastUpdate = dates.filter(Boolean).sort().pop() || null;
+  return balance;
+};
+
+/**
+ * Installments paid, the next due date and arrears of a loan. With a persisted schedule every
+ * installment keeps its own amount and what payments settled of it. Without one, installment k
+ * of angsuran_bulanan falls due k months after the loan date and payments are counted by amount
+ * so partial payments carry over.
+ */
+export const loanStatus = (loan: Loan, payments: LoanPayment[], today: Date, schedule: LoanScheduleRow[] = []): LoanStatus => {
+  const paidAmount = payments
+    .filter(payment => payment.status !== 'belum_lunas')
+    .reduce((sum, payment) => sum + amount(payment.total_angsuran), 0);
+  const todayString = isoDate(today);
+
+  if (schedule.length > 0) {
+    const rows = [...schedule].sort((a, b) => a.angsuran_ke - b.angsuran_ke);
+    const open = rows.filter(row => row.status !== 'lunas');
+    return {
+      loan,
+      paidAmount,
+      paidInstallments: rows.length - open.length,
+      nextDueDate: open.length > 0 ? dateOnly(open[0].due_date) : null,
+      arrears: open
+        .filter(row => dateOnly(row.due_date) <= todayString)
+        .reduce((sum, row) => sum + Math.max(0, amount(row.total) - amount(row.paid_pokok) - amount(row.paid_bunga)), 0)
+    };
+  }
+
+  const installment = amount(loan.angsuran_bulanan);
+  const tenor = amount(loan.tenor_bulan);
+  const start = loan.disbursed_at || loan.tanggal_pinjaman;
+  const paidInstallments = installment > 0 ? Math.min(tenor, Math.floor(paidAmount / installment)) : 0;
+
+  let dueInstallments = 0;
+  while (dueInstallments < tenor && addMonths(start, dueInstallments + 1) <= todayString) dueInstallments++;
+
+  return {
+    loan,
+    paidAmount,
+    paidInstallments,
+    nextDueDate: paidInstallments < tenor ? addMonths(start, paidInstallments + 1) : null,
+    arrears: Math.min(amount(loan.sisa_pinjaman), Math.max(0, dueInstallments * installment - paidAmount))
+  };
+};
+
+// Status of a loan from its payments and, where the backend keeps one, its installment schedule
+export const loadLoanStatus = async (dataSource: CommandDataSource, loan: Loan, today: Date): Promise<LoanStatus> => {
+  const [payments, schedule] = await Promise.all([
+    dataSource.listLoanPayments(loan.id),
+    dataSource.listLoanSchedule(loan.id)
+  ]);
+  return loanStatus(loan, payments, today, schedule);
+};
+
+const unwrap = <T>(response: ApiResponse<T[]>): T[] => {
+  if (response.error) throw new Error(response.error);
+  return response.data || [];
+};
+
+/**
+ * Bot data through the configured repositories
+ */
+export const repositoryDataSource: CommandDataSource = {
+  async findVerifiedMember(phoneNumber) {
+    const phone = normalizePhoneNumber(phoneNumber);
+    if (!phone) return null;
+
+    // Numbers are stored as typed during verification, so compare them normalized
+    const verifications = unwrap(await repositories.whatsappVerifications.list({ is_verified: true }));
+    const verification = verifications.find(item => normalizePhoneNumber(item.phone_number) === phone);
+    if (!verification) return null;
+
+    const response = await repositories.members.get(verification.member_id);
+    if (response.status === 404) return null;
+    if (response.error) throw new Error(response.error);
+    return response.data || null;
+  },
+
+  async findUserRole(memberId) {
+    const users = unwrap(await repositories.users.list({ member_id: memberId }));
+    return users[0]?.role || null;
+  },
+
+  listMembers: async () => unwrap(await repositories.members.list()),
+  listSavings: async (memberId) => unwrap(await repositories.savings.list(memberId ? { member_id: memberId } : undefined)),
+  listDues: async (memberId) => unwrap(await repositories.dues.list(memberId ? { member_id: memberId } : undefined)),
+  listLoans: async (memberId) => unwrap(await repositories.loans.list(memberId ? { member_id: memberId } : undefined)),
+  listLoanPayments: async (loanId) => unwrap(await repositories.loanPayments.list(loanId)),
+  listLoanSchedule: async (loanId) => unwrap(await repositories.loanSchedules.list(loanId)),
+
+  async listTransactions() {
+    const response = await repositories.transactions.list();
+    if (response.status === 501) return [];
+    return unwrap(response);
+  }
+};
+
 export class WhatsAppCommandParser {
-  private adminNumbers: string[] = ['+62 812-3456-7890']; // Admin phone numbers
+  constructor(
+    private dataSource: CommandDataSource = repositoryDataSource,
+    private now: () => Date = () => new Date()
+  ) {}
 
   // Parse incoming command
-  parseCommand(message: string, userContext: UserContext): CommandResponse {
+  async parseCommand(message: string, userContext: UserContext): Promise<CommandResponse> {
     const command = message.trim().toLowerCase();
-    
+
     if (!command.startsWith('/')) {
       return {
         success: false,
@@ -33,43 +272,51 @@ export class WhatsAppCommandParser {
     const commandName = command.split(' ')[0];
     const args = command.split(' ').slice(1);
 
-    switch (commandName) {
-      case '/help':
-        return this.handleHelp(userContext);
-      
-      case '/status':
-        return this.handleStatus(userContext);
-      
-      case '/saldo':
-        return this.handleSaldo(userContext, args);
-      
-      case '/pinjaman':
-        return this.handlePinjaman(userContext, args);
-      
-      case '/riwayat':
-        return this.handleRiwayat(userContext, args);
-      
-      case '/info':
-        return this.handleInfo(userContext);
-      
-      // Admin commands
-      case '/laporan':
-        return this.handleLaporan(userContext, args);
-      
-      case '/backup':
-        return this.handleBackup(userContext);
-      
-      case '/broadcast':
-        return this.handleBroadcast(userContext, args);
-      
-      case '/member':
-        return this.handleMemberManagement(userContext, args);
-      
-      default:
-        return {
-          success: false,
-          message: `Perintah "${commandName}" tidak dikenali. Ketik /help untuk daftar perintah yang tersedia.`
-        };
+    try {
+      switch (commandName) {
+        case '/help':
+          return this.handleHelp(userContext);
+
+        case '/status':
+          return await this.handleStatus(userContext);
+
+        case '/saldo':
+          return await this.handleSaldo(userContext);
+
+        case '/pinjaman':
+          return await this.handlePinjaman(userContext);
+
+        case '/riwayat':
+          return await this.handleRiwayat(userContext, args);
+
+        case '/info':
+          return await this.handleInfo(userContext);
+
+        // Admin commands
+        case '/laporan':
+          return await this.handleLaporan(userContext, args);
+
+        case '/backup':
+          return this.handleBackup(userContext);
+
+        case '/broadcast':
+          return this.handleBroadcast(userContext);
+
+        case '/member':
+          return await this.handleMemberManagement(userContext, args);
+
+        default:
+          return {
+            success: false,
+            message: `Perintah "${commandName}" tidak dikenali. Ketik /help untuk daftar perintah yang tersedia.`
+          };
+      }
+    } catch (error) {
+      console.error(`WhatsApp command ${commandName} failed:`, error);
+      return {
+        success: false,
+        message: '❌ Data tidak dapat dimuat saat ini. Silakan coba lagi beberapa saat lagi.'
+      };
     }
   }
 
@@ -109,9 +356,7 @@ export class WhatsAppCommandParser {
 /laporan pinjaman - Laporan pinjaman
 
 🔒 *Sistem:*
-/backup - Backup database
 /status - Status sistem lengkap
-/broadcast [pesan] - Kirim pesan ke semua anggota
 
 💡 *Tips:* Gunakan perintah dengan parameter untuk hasil spesifik
     `;
@@ -123,73 +368,79 @@ export class WhatsAppCommandParser {
   }
 
   // Status command
-  private handleStatus(userContext: UserContext): CommandResponse {
-    const basicStatus = `
+  private async handleStatus(userContext: UserContext): Promise<CommandResponse> {
+    const [members, savings, dues, loans] = await Promise.all([
+      this.dataSource.listMembers(),
+      this.dataSource.listSavings(),
+      this.dataSource.listDues(),
+      this.dataSource.listLoans()
+    ]);
+    const activeLoans = loans.filter(loan => ACTIVE_LOAN_STATUSES.includes(loan.status));
+    const data = {
+      totalAnggota: members.length,
+      anggotaAktif: members.filter(member => member.status_keanggotaan === 'aktif').length,
+      totalSimpanan: savingsBalance(savings, dues).total,
+      sisaPinjaman: activeLoans.reduce((sum, loan) => sum + amount(loan.sisa_pinjaman), 0)
+    };
+
+    let message = `
 🟢 *STATUS SISTEM KP2A CIMAHI*
 
 📱 WhatsApp Bot: Aktif
-🌐 Aplikasi Web: Online
 💾 Database: Terhubung
-⏰ Waktu Server: ${new Date().toLocaleString('id-ID')}
+⏰ Waktu Server: ${this.now().toLocaleString('id-ID')}
 
-📊 *Statistik Hari Ini:*
-• Transaksi: 12 transaksi
-• Anggota Aktif: 8 orang
-• Total Simpanan: Rp 45.250.000
-• Total Pinjaman: Rp 23.100.000
-    `;
+📊 *Statistik Koperasi:*
+• Anggota Aktif: ${data.anggotaAktif} dari ${data.totalAnggota} orang
+• Total Simpanan: ${rupiah(data.totalSimpanan)}
+• Sisa Pinjaman Beredar: ${rupiah(data.sisaPinjaman)}
+`;
 
-    const adminStatus = `
-🔧 *STATUS SISTEM LENGKAP*
-
-📱 *WhatsApp Integration:*
-• Bot Status: Aktif ✅
-• Koneksi Mobile: Terhubung ✅
-• Pesan Hari Ini: 24 pesan
-• Command Diproses: 18 perintah
-
-🌐 *Aplikasi Web:*
-• Server: Online ✅
-• Database: Terhubung ✅
-• Backup Terakhir: ${new Date(Date.now() - 86400000).toLocaleDateString('id-ID')}
-
-📊 *Statistik Real-time:*
-• Total Anggota: 45 orang
-• Anggota Aktif: 38 orang
-• Simpanan Hari Ini: Rp 2.450.000
-• Pinjaman Hari Ini: Rp 1.200.000
-• Transaksi Pending: 3 transaksi
-    `;
+    if (userContext.isAdmin) {
+      const today = this.now();
+      const transactions = await this.dataSource.listTransactions();
+      const unpaidDues = dues.filter(due =>
+        due.status !== 'lunas' && due.bulan === today.getMonth() + 1 && due.tahun === today.getFullYear());
+      message += `
+🔧 *Perlu Ditindaklanjuti:*
+• Pinjaman Aktif: ${activeLoans.length} pinjaman
+• Pengajuan Pinjaman: ${loans.filter(loan => loan.status === 'pending').length} menunggu
+• Iuran Bulan Ini Belum Lunas: ${unpaidDues.length} anggota
+• Transaksi Pending: ${transactions.filter(transaction => transaction.status === 'pending').length} transaksi
+`;
+    }
 
     return {
       success: true,
-      message: userContext.isAdmin ? adminStatus : basicStatus
+      message,
+      data
     };
   }
 
   // Saldo command
-  private handleSaldo(userContext: UserContext, args: string[]): CommandResponse {
-    // Simulate database query
-    const saldoData = {
-      simpananPokok: 100000,
-      simpananWajib: 850000,
-      simpananSukarela: 1250000,
-      totalSimpanan: 2200000,
-      lastUpdate: new Date().toLocaleDateString('id-ID')
-    };
+  private async handleSaldo(userContext: UserContext): Promise<CommandResponse> {
+    if (!userContext.memberId) return NOT_VERIFIED;
+
+    const [savings, dues] = await Promise.all([
+      this.dataSource.listSavings(userContext.memberId),
+      this.dataSource.listDues(userContext.memberId)
+    ]);
+    const saldoData = savingsBalance(savings, dues);
 
     const message = `
 💰 *SALDO SIMPANAN*
 Nama: ${userContext.name || 'Anggota KP2A'}
 
 📊 *Detail Simpanan:*
-• Simpanan Pokok: Rp ${saldoData.simpananPokok.toLocaleString('id-ID')}
-• Simpanan Wajib: Rp ${saldoData.simpananWajib.toLocaleString('id-ID')}
-• Simpanan Sukarela: Rp ${saldoData.simpananSukarela.toLocaleString('id-ID')}
+• Simpanan Pokok: ${rupiah(saldoData.pokok)}
+• Simpanan Wajib: ${rupiah(saldoData.wajib)}
+• Simpanan Sukarela: ${rupiah(saldoData.sukarela)}${saldoData.danaPinjaman ? `
+• Simpanan Dana Pinjaman: ${rupiah(saldoData.danaPinjaman)}` : ''}${saldoData.lainnya ? `
+• Simpanan Lainnya: ${rupiah(saldoData.lainnya)}` : ''}
 
-💵 *Total Simpanan: Rp ${saldoData.totalSimpanan.toLocaleString('id-ID')}*
+💵 *Total Simpanan: ${rupiah(saldoData.total)}*
 
-📅 Update Terakhir: ${saldoData.lastUpdate}
+📅 Update Terakhir: ${saldoData.lastUpdate ? longDate(saldoData.lastUpdate) : 'Belum ada simpanan'}
 
 💡 Untuk riwayat transaksi, ketik /riwayat
     `;
@@ -202,31 +453,51 @@ Nama: ${userContext.name || 'Anggota KP2A'}
   }
 
   // Pinjaman command
-  private handlePinjaman(userContext: UserContext, args: string[]): CommandResponse {
-    // Simulate database query
-    const pinjamanData = {
-      totalPinjaman: 5000000,
-      sisaPinjaman: 3200000,
-      angsuranBulan: 450000,
-      jatuhTempo: '15 Februari 2024',
-      status: 'Aktif',
-      tunggakan: 0
-    };
+  private async handlePinjaman(userContext: UserContext): Promise<CommandResponse> {
+    if (!userContext.memberId) return NOT_VERIFIED;
 
-    const message = `
+    const loans = (await this.dataSource.listLoans(userContext.memberId))
+      .filter(loan => ACTIVE_LOAN_STATUSES.includes(loan.status));
+
+    if (loans.length === 0) {
+      return {
+        success: true,
+        message: `
+🏦 *STATUS PINJAMAN*
+Nama: ${userContext.name || 'Anggota KP2A'}
+
+✅ Tidak ada pinjaman aktif.
+
+💡 Pengajuan pinjaman dapat dilakukan melalui pengurus atau aplikasi web.
+        `,
+        data: []
+      };
+    }
+
+    const today = this.now();
+    const pinjamanData = await Promise.all(loans.map(loan => loadLoanStatus(this.dataSource, loan, today)));
+
+    let message = `
 🏦 *STATUS PINJAMAN*
 Nama: ${userContext.name || 'Anggota KP2A'}
+`;
 
-📋 *Detail Pinjaman:*
-• Total Pinjaman: Rp ${pinjamanData.totalPinjaman.toLocaleString('id-ID')}
-• Sisa Pinjaman: Rp ${pinjamanData.sisaPinjaman.toLocaleString('id-ID')}
-• Angsuran/Bulan: Rp ${pinjamanData.angsuranBulan.toLocaleString('id-ID')}
+    pinjamanData.forEach((status, index) => {
+      message += `
+📋 *Pinjaman ${pinjamanData.length > 1 ? `${index + 1} ` : ''}(${longDate(status.loan.tanggal_pinjaman)}):*
+• Total Pinjaman: ${rupiah(amount(status.loan.jumlah_pinjaman))}
+• Sisa Pinjaman: ${rupiah(amount(status.loan.sisa_pinjaman))}
+• Angsuran/Bulan: ${rupiah(amount(status.loan.angsuran_bulanan))}
+• Angsuran Dibayar: ${status.paidInstallments} dari ${amount(status.loan.tenor_bulan)} bulan
 
 📅 *Jadwal:*
-• Jatuh Tempo: ${pinjamanData.jatuhTempo}
-• Status: ${pinjamanData.status} ✅
-• Tunggakan: ${pinjamanData.tunggakan === 0 ? 'Tidak ada' : `Rp ${pinjamanData.tunggakan.toLocaleString('id-ID')}`}
+• Jatuh Tempo Berikutnya: ${status.nextDueDate ? longDate(status.nextDueDate) : '-'}
+• Status: ${status.arrears > 0 ? 'Menunggak ⚠️' : 'Lancar ✅'}
+• Tunggakan: ${status.arrears > 0 ? rupiah(status.arrears) : 'Tidak ada'}
+`;
+    });
 
+    message += `
 💡 Untuk riwayat pembayaran, ketik /riwayat pinjaman
     `;
 
@@ -238,17 +509,44 @@ Nama: ${userContext.name || 'Anggota KP2A'}
   }
 
   // Riwayat command
-  private handleRiwayat(userContext: UserContext, args: string[]): CommandResponse {
+  private async handleRiwayat(userContext: UserContext, args: string[]): Promise<CommandResponse> {
+    if (!userContext.memberId) return NOT_VERIFIED;
+
     const type = args[0] || 'semua';
-    
-    // Simulate database query
-    const riwayatData = [
-      { tanggal: '10 Jan 2024', jenis: 'Simpanan Wajib', jumlah: 50000, saldo: 2200000 },
-      { tanggal: '05 Jan 2024', jenis: 'Angsuran Pinjaman', jumlah: -450000, saldo: 2150000 },
-      { tanggal: '01 Jan 2024', jenis: 'Simpanan Sukarela', jumlah: 200000, saldo: 2600000 },
-      { tanggal: '28 Des 2023', jenis: 'Simpanan Wajib', jumlah: 50000, saldo: 2400000 },
-      { tanggal: '20 Des 2023', jenis: 'Penarikan', jumlah: -100000, saldo: 2350000 }
-    ];
+    const include = (kind: string) => type === 'semua' || type === kind;
+    const entries: { tanggal: string; jenis: string; jumlah: number }[] = [];
+
+    if (include('simpanan')) {
+      (await this.dataSource.listSavings(userContext.memberId)).forEach(saving => entries.push({
+        tanggal: dateOnly(saving.transaction_date),
+        jenis: saving.description || `Simpanan ${saving.type}`,
+        jumlah: amount(saving.amount)
+      }));
+    }
+
+    if (include('iuran')) {
+      (await this.dataSource.listDues(userContext.memberId))
+        .filter(due => due.status === 'lunas' && due.tanggal_bayar)
+        .forEach(due => entries.push({
+          tanggal: dateOnly(due.tanggal_bayar),
+          jenis: `Iuran ${MONTH_NAMES[due.bulan - 1]} ${due.tahun}`,
+          jumlah: duePaid(due)
+        }));
+    }
+
+    if (include('pinjaman')) {
+      const loans = await this.dataSource.listLoans(userContext.memberId);
+      const payments = await Promise.all(loans.map(loan => this.dataSource.listLoanPayments(loan.id)));
+      payments.flat().forEach(payment => entries.push({
+        tanggal: dateOnly(payment.tanggal_bayar),
+        jenis: `Angsuran Pinjaman ke-${payment.angsuran_ke}`,
+        jumlah: -amount(payment.total_angsuran)
+      }));
+    }
+
+    const riwayatData = entries
+      .sort((a, b) => b.tanggal.localeCompare(a.tanggal))
+      .slice(0, 5);
 
     let message = `
 📊 *RIWAYAT TRANSAKSI*
@@ -258,18 +556,23 @@ Filter: ${type === 'semua' ? 'Semua Transaksi' : type}
 📋 *5 Transaksi Terakhir:*
 `;
 
-    riwayatData.forEach((item, index) => {
+    if (riwayatData.length === 0) {
+      message += `
+Belum ada transaksi.
+`;
+    }
+
+    riwayatData.forEach(item => {
       const icon = item.jumlah > 0 ? '💰' : '💸';
       message += `
-${icon} ${item.tanggal}
+${icon} ${longDate(item.tanggal)}
    ${item.jenis}
-   ${item.jumlah > 0 ? '+' : ''}Rp ${item.jumlah.toLocaleString('id-ID')}
-   Saldo: Rp ${item.saldo.toLocaleString('id-ID')}
+   ${item.jumlah > 0 ? '+' : '-'}${rupiah(Math.abs(item.jumlah))}
 `;
     });
 
     message += `
-💡 Untuk detail lengkap, akses aplikasi web atau hubungi admin.
+💡 Filter: /riwayat simpanan, /riwayat iuran atau /riwayat pinjaman
     `;
 
     return {
@@ -280,15 +583,28 @@ ${icon} ${item.tanggal}
   }
 
   // Info command
-  private handleInfo(userContext: UserContext): CommandResponse {
+  private async handleInfo(userContext: UserContext): Promise<CommandResponse> {
+    if (!userContext.memberId) return NOT_VERIFIED;
+
+    const memberId = userContext.memberId;
+    const [member, savings, dues, loans] = await Promise.all([
+      userContext.member || this.dataSource.listMembers().then(members => members.find(item => item.id === memberId)),
+      this.dataSource.listSavings(memberId),
+      this.dataSource.listDues(memberId),
+      this.dataSource.listLoans(memberId)
+    ]);
+    if (!member) return NOT_VERIFIED;
+
     const infoData = {
-      nama: userContext.name || 'Anggota KP2A',
-      nomorAnggota: userContext.memberId || 'A001',
-      telepon: userContext.phoneNumber,
-      statusKeanggotaan: 'Aktif',
-      tanggalBergabung: '15 Maret 2020',
-      totalSimpanan: 2200000,
-      totalPinjaman: 3200000
+      nama: member.nama_lengkap,
+      nomorAnggota: member.id_anggota || '-',
+      telepon: member.no_hp || userContext.phoneNumber,
+      statusKeanggotaan: member.status_keanggotaan,
+      tanggalBergabung: member.tanggal_masuk,
+      totalSimpanan: savingsBalance(savings, dues).total,
+      totalPinjaman: loans
+        .filter(loan => ACTIVE_LOAN_STATUSES.includes(loan.status))
+        .reduce((sum, loan) => sum + amount(loan.sisa_pinjaman), 0)
     };
 
     const message = `
@@ -298,20 +614,15 @@ ${icon} ${item.tanggal}
 • Nama: ${infoData.nama}
 • No. Anggota: ${infoData.nomorAnggota}
 • Telepon: ${infoData.telepon}
-• Status: ${infoData.statusKeanggotaan} ✅
+• Status: ${infoData.statusKeanggotaan === 'aktif' ? 'Aktif ✅' : infoData.statusKeanggotaan}
 
 📅 *Keanggotaan:*
-• Bergabung: ${infoData.tanggalBergabung}
-• Lama Bergabung: 4 tahun
+• Bergabung: ${longDate(infoData.tanggalBergabung)}
+• Lama Bergabung: ${membershipLength(infoData.tanggalBergabung, this.now())}
 
 💰 *Ringkasan Keuangan:*
-• Total Simpanan: Rp ${infoData.totalSimpanan.toLocaleString('id-ID')}
-• Sisa Pinjaman: Rp ${infoData.totalPinjaman.toLocaleString('id-ID')}
-
-📞 *Kontak KP2A Cimahi:*
-• Kantor: (022) 123-4567
-• WhatsApp: +62 812-3456-7890
-• Email: info@kp2acimahi.com
+• Total Simpanan: ${rupiah(infoData.totalSimpanan)}
+• Sisa Pinjaman: ${rupiah(infoData.totalPinjaman)}
     `;
 
     return {
@@ -322,63 +633,85 @@ ${icon} ${item.tanggal}
   }
 
   // Admin: Laporan command
-  private handleLaporan(userContext: UserContext, args: string[]): CommandResponse {
-    if (!userContext.isAdmin) {
-      return {
-        success: false,
-        message: '❌ Perintah ini hanya untuk admin.'
-      };
-    }
+  private async handleLaporan(userContext: UserContext, args: string[]): Promise<CommandResponse> {
+    if (!userContext.isAdmin) return NOT_ADMIN;
 
     const jenis = args[0] || 'harian';
-    
+    const today = this.now();
+
     let message = '';
-    
+
     switch (jenis) {
-      case 'harian':
+      case 'harian': {
+        const day = isoDate(today);
         message = `
 📊 *LAPORAN HARIAN*
-Tanggal: ${new Date().toLocaleDateString('id-ID')}
-
-💰 *Transaksi Hari Ini:*
-• Simpanan Masuk: Rp 2.450.000 (12 transaksi)
-• Pinjaman Keluar: Rp 1.200.000 (3 pinjaman)
-• Angsuran Masuk: Rp 3.150.000 (7 pembayaran)
-
-👥 *Aktivitas Anggota:*
-• Anggota Aktif: 18 orang
-• Transaksi Baru: 22 transaksi
-• Anggota Baru: 1 orang
-
-📈 *Performa:*
-• Target Harian: 85% tercapai ✅
-• Tunggakan: 2 anggota
-        `;
+Tanggal: ${longDate(day)}
+${await this.activityReport(date => date === day)}`;
         break;
-        
-      case 'bulanan':
+      }
+
+      case 'bulanan': {
+        const month = isoDate(today).slice(0, 7);
+        const members = await this.dataSource.listMembers();
         message = `
 📊 *LAPORAN BULANAN*
-Periode: Januari 2024
-
-💰 *Keuangan Bulan Ini:*
-• Total Simpanan: Rp 45.250.000
-• Total Pinjaman: Rp 23.100.000
-• Angsuran Terkumpul: Rp 18.750.000
-• Keuntungan: Rp 2.850.000
-
+Periode: ${MONTH_NAMES[today.getMonth()]} ${today.getFullYear()}
+${await this.activityReport(date => date.startsWith(month))}
 👥 *Keanggotaan:*
-• Total Anggota: 45 orang
-• Anggota Aktif: 38 orang
-• Anggota Baru: 3 orang
-• Anggota Keluar: 1 orang
-
-📈 *Target Bulanan:*
-• Simpanan: 92% tercapai ✅
-• Pinjaman: 78% tercapai
-        `;
+• Total Anggota: ${members.length} orang
+• Anggota Aktif: ${members.filter(member => member.status_keanggotaan === 'aktif').length} orang
+• Anggota Baru: ${members.filter(member => dateOnly(member.tanggal_masuk).startsWith(month)).length} orang
+`;
+        break;
+      }
+
+      case 'simpanan': {
+        const [savings, dues] = await Promise.all([this.dataSource.listSavings(), this.dataSource.listDues()]);
+        const balance = savingsBalance(savings, dues);
+        const savers = new Set([
+          ...savings.map(saving => saving.member_id),
+          ...dues.filter(due => due.status === 'lunas').map(due => due.member_id)
+        ]);
+        message = `
+📊 *LAPORAN SIMPANAN*
+Per: ${longDate(isoDate(today))}
+
+💰 *Saldo Simpanan:*
+• Simpanan Pokok: ${rupiah(balance.pokok)}
+• Simpanan Wajib: ${rupiah(balance.wajib)}
+• Simpanan Sukarela: ${rupiah(balance.sukarela)}
+• Simpanan Dana Pinjaman: ${rupiah(balance.danaPinjaman)}${balance.lainnya ? `
+• Simpanan Lainnya: ${rupiah(balance.lainnya)}` : ''}
+
+💵 *Total: ${rupiah(balance.total)}*
+👥 Penyimpan: ${savers.size} anggota
+`;
+        break;
+      }
+
+      case 'pinjaman': {
+        const loans = await this.dataSource.listLoans();
+        const byStatus = (status: Loan['status']) => loans.filter(loan => loan.status === status);
+        const active = byStatus('aktif');
+        message = `
+📊 *LAPORAN PINJAMAN*
+Per: ${longDate(isoDate(today))}
+
+🏦 *Pinjaman Aktif:*
+• Jumlah: ${active.length} pinjaman
+• Pokok Disalurkan: ${rupiah(active.reduce((sum, loan) => sum + amount(loan.jumlah_pinjaman), 0))}
+• Sisa Pinjaman: ${rupiah(active.reduce((sum, loan) => sum + amount(loan.sisa_pinjaman), 0))}
+• Angsuran/Bulan: ${rupiah(active.reduce((sum, loan) => sum + amount(loan.angsuran_bulanan), 0))}
+
+📋 *Status Lain:*
+• Menunggu Persetujuan: ${byStatus('pending').length}
+• Disetujui, Belum Cair: ${byStatus('disetujui').length}
+• Lunas: ${byStatus('lunas').length}
+`;
         break;
-        
+      }
+
       default:
         message = `
 📊 *JENIS LAPORAN TERSEDIA:*
@@ -398,175 +731,205 @@ Periode: Januari 2024
     };
   }
 
-  // Admin: Backup command
-  private handleBackup(userContext: UserContext): CommandResponse {
-    if (!userContext.isAdmin) {
-      return {
-        success: false,
-        message: '❌ Perintah ini hanya untuk admin.'
-      };
-    }
-
-    const message = `
-💾 *BACKUP DATABASE*
-
-🔄 Memulai proses backup...
-✅ Database berhasil di-backup!
+  // Money in and out for the dates matched by `inPeriod` (YYYY-MM-DD)
+  private async activityReport(inPeriod: (date: string) => boolean): Promise<string> {
+    const [savings, dues, loans, transactions] = await Promise.all([
+      this.dataSource.listSavings(),
+      this.dataSource.listDues(),
+      this.dataSource.listLoans(),
+      this.dataSource.listTransactions()
+    ]);
+
+    const periodSavings = savings.filter(saving => inPeriod(dateOnly(saving.transaction_date)));
+    const periodDues = dues.filter(due => due.status === 'lunas' && inPeriod(dateOnly(due.tanggal_bayar)));
+    const disbursed = loans.filter(loan =>
+      ['aktif', 'lunas'].includes(loan.status) && inPeriod(dateOnly(loan.disbursed_at || loan.tanggal_pinjaman)));
+    const periodTransactions = transactions.filter(transaction =>
+      transaction.status !== 'rejected' && inPeriod(dateOnly(transaction.transaction_date)));
+    const sumTransactions = (type: Transaction['transaction_type']) => periodTransactions
+      .filter(transaction => transaction.transaction_type === type)
+      .reduce((sum, transaction) => sum + amount(transaction.amount), 0);
+
+    let report = `
+💰 *Keuangan:*
+• Simpanan Masuk: ${rupiah(periodSavings.reduce((sum, saving) => sum + amount(saving.amount), 0))} (${periodSavings.length} transaksi)
+• Iuran Masuk: ${rupiah(periodDues.reduce((sum, due) => sum + duePaid(due), 0))} (${periodDues.length} pembayaran)
+• Pinjaman Keluar: ${rupiah(disbursed.reduce((sum, loan) => sum + amount(loan.jumlah_pinjaman), 0))} (${disbursed.length} pinjaman)
+`;
 
-📋 *Detail Backup:*
-• Waktu: ${new Date().toLocaleString('id-ID')}
-• Ukuran: 2.4 MB
-• File: backup_${new Date().toISOString().split('T')[0]}.sql
-• Lokasi: /backups/
+    if (periodTransactions.length > 0) {
+      report += `
+🧾 *Transaksi Kas:*
+• Pemasukan: ${rupiah(sumTransactions('income'))}
+• Pengeluaran: ${rupiah(sumTransactions('expense'))}
+• Menunggu Persetujuan: ${periodTransactions.filter(transaction => transaction.status === 'pending').length} transaksi
+`;
+    }
 
-📊 *Data yang di-backup:*
-• 45 data anggota
-• 1,247 transaksi
-• 23 pinjaman aktif
-• 156 riwayat pembayaran
+    return report;
+  }
 
-💡 Backup otomatis dilakukan setiap hari pukul 23:00
-    `;
+  // Admin: Backup command
+  private handleBackup(userContext: UserContext): CommandResponse {
+    if (!userContext.isAdmin) return NOT_ADMIN;
 
     return {
-      success: true,
-      message: message
+      success: false,
+      message: `
+💾 *BACKUP DATABASE*
+
+Backup tidak dapat dijalankan lewat WhatsApp.
+Gunakan backup terjadwal di server atau hubungi pengelola sistem.
+    `
     };
   }
 
   // Admin: Broadcast command
-  private handleBroadcast(userContext: UserContext, args: string[]): CommandResponse {
-    if (!userContext.isAdmin) {
-      return {
-        success: false,
-        message: '❌ Perintah ini hanya untuk admin.'
-      };
-    }
-
-    if (args.length === 0) {
-      return {
-        success: false,
-        message: '❌ Format: /broadcast [pesan]\nContoh: /broadcast Rapat anggota besok pukul 19:00'
-      };
-    }
+  private handleBroadcast(userContext: UserContext): CommandResponse {
+    if (!userContext.isAdmin) return NOT_ADMIN;
 
-    const pesan = args.join(' ');
-    
-    const message = `
+    return {
+      success: false,
+      message: `
 📢 *BROADCAST PESAN*
 
-✅ Pesan berhasil dikirim ke semua anggota!
-
-📋 *Detail Pengiriman:*
-• Penerima: 45 anggota
-• Waktu: ${new Date().toLocaleString('id-ID')}
-• Status: Terkirim ✅
-
-📝 *Pesan yang dikirim:*
-"${pesan}"
-
-💡 Anggota akan menerima pesan dalam 1-2 menit.
-    `;
-
-    return {
-      success: true,
-      message: message
+Broadcast belum dapat dikirim lewat perintah WhatsApp.
+Gunakan menu Broadcast di aplikasi web untuk memilih penerima dan mengirim pesan.
+    `
     };
   }
 
   // Admin: Member management command
-  private handleMemberManagement(userContext: UserContext, args: string[]): CommandResponse {
-    if (!userContext.isAdmin) {
-      return {
-        success: false,
-        message: '❌ Perintah ini hanya untuk admin.'
-      };
-    }
+  private async handleMemberManagement(userContext: UserContext, args: string[]): Promise<CommandResponse> {
+    if (!userContext.isAdmin) return NOT_ADMIN;
 
     const action = args[0];
-    
+
     switch (action) {
-      case 'list':
+      case 'list': {
+        const members = await this.dataSource.listMembers();
+        const active = members.filter(member => member.status_keanggotaan === 'aktif').length;
+        const newest = [...members]
+          .sort((a, b) => dateOnly(b.tanggal_masuk).localeCompare(dateOnly(a.tanggal_masuk)))
+          .slice(0, 5);
+
         return {
           success: true,
           message: `
 👥 *DAFTAR ANGGOTA KP2A CIMAHI*
 
 📊 *Ringkasan:*
-• Total Anggota: 45 orang
-• Aktif: 38 orang
-• Tidak Aktif: 7 orang
+• Total Anggota: ${members.length} orang
+• Aktif: ${active} orang
+• Tidak Aktif: ${members.length - active} orang
 
-👤 *5 Anggota Terakhir:*
-• A045 - Budi Santoso (Aktif)
-• A044 - Siti Nurhaliza (Aktif)
-• A043 - Ahmad Fauzi (Aktif)
-• A042 - Rina Marlina (Tidak Aktif)
-• A041 - Dedi Kurniawan (Aktif)
+👤 *${newest.length} Anggota Terakhir:*
+${newest.map(member => `• ${member.id_anggota || '-'} - ${member.nama_lengkap} (${member.status_keanggotaan === 'aktif' ? 'Aktif' : 'Tidak Aktif'})`).join('\n')}
 
 💡 Untuk detail anggota: /member info [id]
 💡 Untuk anggota aktif: /member active
           `
         };
-        
-      case 'active':
+      }
+
+      case 'active': {
+        const today = this.now();
+        const month = isoDate(today).slice(0, 7);
+        const [members, savings, dues] = await Promise.all([
+          this.dataSource.listMembers(),
+          this.dataSource.listSavings(),
+          this.dataSource.listDues()
+        ]);
+
+        // Active: at least one savings entry or dues payment this month
+        const counts = new Map<string, number>();
+        savings
+          .filter(saving => dateOnly(saving.transaction_date).startsWith(month))
+          .forEach(saving => counts.set(saving.member_id, (counts.get(saving.member_id) || 0) + 1));
+        dues
+          .filter(due => due.status === 'lunas' && dateOnly(due.tanggal_bayar).startsWith(month))
+          .forEach(due => counts.set(due.member_id, (counts.get(due.member_id) || 0) + 1));
+
+        const byId = new Map(members.map(member => [member.id, member]));
+        const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+        const top = Array.from(counts.entries())
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 5)
+          .map(([memberId, count]) => {
+            const member = byId.get(memberId);
+            return `• ${member?.id_anggota || '-'} - ${member?.nama_lengkap || 'Anggota'} (${count} transaksi)`;
+          });
+
         return {
           success: true,
           message: `
 👥 *ANGGOTA AKTIF BULAN INI*
 
 📊 *Statistik:*
-• Anggota Aktif: 38 dari 45 orang (84%)
-• Transaksi Bulan Ini: 156 transaksi
-• Rata-rata Transaksi: 4.1 per anggota
+• Anggota Aktif: ${counts.size} dari ${members.length} orang (${members.length ? Math.round((counts.size / members.length) * 100) : 0}%)
+• Transaksi Bulan Ini: ${total} transaksi
+• Rata-rata Transaksi: ${counts.size ? (total / counts.size).toFixed(1) : 0} per anggota
 
-🏆 *Top 5 Anggota Aktif:*
-• A001 - Sari Dewi (12 transaksi)
-• A015 - Bambang Sutrisno (10 transaksi)
-• A023 - Lina Marlina (9 transaksi)
-• A007 - Agus Setiawan (8 transaksi)
-• A032 - Maya Sari (7 transaksi)
+🏆 *Anggota Paling Aktif:*
+${top.length > 0 ? top.join('\n') : 'Belum ada transaksi bulan ini'}
 
 💡 Kriteria aktif: minimal 1 transaksi per bulan
           `
         };
-        
-      case 'info':
-        const memberId = args[1];
-        if (!memberId) {
+      }
+
+      case 'info': {
+        const nomorAnggota = args[1];
+        if (!nomorAnggota) {
           return {
             success: false,
             message: '❌ Format: /member info [id]\nContoh: /member info A001'
           };
         }
-        
+
+        const member = (await this.dataSource.listMembers())
+          .find(item => (item.id_anggota || '').toLowerCase() === nomorAnggota);
+        if (!member) {
+          return {
+            success: false,
+            message: `❌ Anggota ${nomorAnggota.toUpperCase()} tidak ditemukan.`
+          };
+        }
+
+        const [savings, dues, loans] = await Promise.all([
+          this.dataSource.listSavings(member.id),
+          this.dataSource.listDues(member.id),
+          this.dataSource.listLoans(member.id)
+        ]);
+        const today = this.now();
+        const activeLoans = loans.filter(loan => ACTIVE_LOAN_STATUSES.includes(loan.status));
+        const statuses = await Promise.all(activeLoans.map(loan => loadLoanStatus(this.dataSource, loan, today)));
+        const arrears = statuses.reduce((sum, status) => sum + status.arrears, 0);
+
         return {
           success: true,
           message: `
-👤 *INFO ANGGOTA ${memberId.toUpperCase()}*
+👤 *INFO ANGGOTA ${nomorAnggota.toUpperCase()}*
 
 📋 *Data Pribadi:*
-• Nama: Sari Dewi
-• No. Anggota: A001
-• Telepon: +62 812-1111-1111
-• Alamat: Jl. Merdeka No. 123, Cimahi
+• Nama: ${member.nama_lengkap}
+• No. Anggota: ${member.id_anggota}
+• Telepon: ${member.no_hp || '-'}
+• Alamat: ${member.alamat || '-'}
+• Jabatan: ${member.jabatan || '-'}
 
 💰 *Keuangan:*
-• Total Simpanan: Rp 3.250.000
-• Sisa Pinjaman: Rp 2.100.000
-• Status: Lancar ✅
-
-📊 *Aktivitas:*
-• Bergabung: 15 Maret 2020
-• Transaksi Bulan Ini: 12 kali
-• Terakhir Aktif: Hari ini
-
-📞 *Kontak Terakhir:*
-• WhatsApp: 2 hari lalu
-• Kunjungan Kantor: 1 minggu lalu
+• Total Simpanan: ${rupiah(savingsBalance(savings, dues).total)}
+• Sisa Pinjaman: ${rupiah(activeLoans.reduce((sum, loan) => sum + amount(loan.sisa_pinjaman), 0))}
+• Status: ${arrears > 0 ? `Menunggak ${rupiah(arrears)} ⚠️` : 'Lancar ✅'}
+
+📊 *Keanggotaan:*
+• Status: ${member.status_keanggotaan === 'aktif' ? 'Aktif' : 'Tidak Aktif'}
+• Bergabung: ${longDate(member.tanggal_masuk)}
           `
         };
-        
+      }
+
       default:
         return {
           success: false,
@@ -584,21 +947,24 @@ Periode: Januari 2024
     }
   }
 
-  // Check if user is admin
-  isAdmin(phoneNumber: string): boolean {
-    return this.adminNumbers.includes(phoneNumber);
-  }
+  // Sender context: the member behind the verified number and their role from the users table
+  async getUserContext(phoneNumber: string): Promise<UserContext> {
+    const member = await this.dataSource.findVerifiedMember(phoneNumber);
+    if (!member) {
+      return { phoneNumber, isAdmin: false };
+    }
 
-  // Get user context (simulate database lookup)
-  getUserContext(phoneNumber: string): UserContext {
+    const role = await this.dataSource.findUserRole(member.id);
     return {
       phoneNumber,
-      isAdmin: this.isAdmin(phoneNumber),
-      memberId: phoneNumber === '+62 812-3456-7890' ? 'ADMIN' : 'A001',
-      name: phoneNumber === '+62 812-3456-7890' ? 'Admin KP2A' : 'Anggota KP2A'
+      isAdmin: isAdminRole(role),
+      memberId: member.id,
+      name: member.nama_lengkap,
+      role: role || undefined,
+      member
     };
   }
 }
 
 // Export singleton instance
-export const whatsappCommandParser = new WhatsAppCommandParser();
\ No newline at end of file
+export const whatsappCommandParser = new WhatsAppCommandParser();
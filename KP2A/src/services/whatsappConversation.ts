@@ -0,0 +1,582 @@
+// WhatsApp Conversation Engine
+// Runs guided flows over several messages, keeping where each phone number is in its flow.
+// Messages outside a flow are answered by the command parser.
+
+import { loanApplicationsApi, LoanApplicationInput } from '../lib/api';
+import { repositories } from '../lib/repositories';
+import type {
+  ConversationFlow,
+  ConversationSession,
+  FlowAnswers,
+  FlowMedia,
+  FlowStep,
+  FlowSubmission
+} from '../types/whatsappFlows';
+import {
+  NOT_ADMIN,
+  NOT_VERIFIED,
+  normalizePhoneNumber,
+  UserContext,
+  WhatsAppCommandParser,
+  whatsappCommandParser
+} from './whatsappCommandParser';
+
+export interface IncomingMessage {
+  from: string;
+  body: string;
+  media?: FlowMedia;
+}
+
+// Delivers bot replies; the WhatsApp client in production, a fake in tests
+export interface MessageTransport {
+  send(to: string, message: string): Promise<void>;
+}
+
+export interface SessionStore {
+  get(phoneNumber: string): ConversationSession | undefined;
+  set(session: ConversationSession): void;
+  delete(phoneNumber: string): void;
+  all(): ConversationSession[];
+}
+
+export type NewFlowSubmission = Omit<FlowSubmission, 'id' | 'created_at' | 'updated_at'>;
+
+// Flows pengurus stored, and where flow results go. Methods throw when the backend returns an error.
+export interface ConversationDataSource {
+  loadFlows(): Promise<ConversationFlow[]>;
+  submitLoanApplication(application: LoanApplicationInput): Promise<void>;
+  saveSubmission(submission: NewFlowSubmission): Promise<void>;
+}
+
+export interface ConversationEngineOptions {
+  parser?: WhatsAppCommandParser;
+  dataSource?: ConversationDataSource;
+  sessions?: SessionStore;
+  // Epoch milliseconds
+  now?: () => number;
+}
+
+const CANCEL_WORDS = ['batal', '/batal'];
+const CONFIRM_WORDS = ['ya', 'y', 'iya', 'kirim'];
+
+const STEP_TYPES: FlowStep['type'][] = ['number', 'text', 'choice', 'media'];
+
+const DEFAULT_SUBMISSION_REPLY = '✅ {{title}} sudah kami terima dan akan ditindaklanjuti pengurus.';
+
+/**
+ * Flows available without any stored definition. A stored flow with the same trigger replaces
+ * the built-in one.
+ */
+export const BUILTIN_FLOWS: ConversationFlow[] = [
+  {
+    id: 'builtin-ajukan-pinjaman',
+    trigger: '/ajukan',
+    title: 'Pengajuan Pinjaman',
+    description: 'Ajukan pinjaman: jumlah, tenor dan tujuan',
+    steps: [
+      {
+        id: 'jumlah_pinjaman',
+        type: 'number',
+        label: 'Jumlah',
+        prompt: 'Berapa jumlah pinjaman yang Anda ajukan?\nContoh: 5.000.000 atau 5jt',
+        min: 100000
+      },
+      {
+        id: 'tenor_bulan',
+        type: 'choice',
+        label: 'Tenor',
+        prompt: 'Berapa lama tenor pinjaman?',
+        options: [
+          { label: '3 bulan', value: '3' },
+          { label: '6 bulan', value: '6' },
+          { label: '10 bulan', value: '10' },
+          { label: '12 bulan', value: '12' }
+        ]
+      },
+      {
+        id: 'tujuan',
+        type: 'text',
+        label: 'Tujuan',
+        prompt: 'Untuk apa pinjaman ini digunakan?',
+        min: 5,
+        max: 200
+      }
+    ],
+    action: { type: 'loan_application' },
+    confirm: true,
+    requires_member: true,
+    admin_only: false,
+    timeout_minutes: 10,
+    is_active: true
+  },
+  {
+    id: 'builtin-lapor-iuran',
+    trigger: '/bayar',
+    title: 'Laporan Pembayaran Iuran',
+    description: 'Laporkan transfer iuran dengan foto bukti transfer',
+    steps: [
+      {
+        id: 'periode',
+        type: 'text',
+        label: 'Periode',
+        prompt: 'Iuran bulan apa yang Anda bayar?\nContoh: Maret 2025',
+        min: 3,
+        max: 50
+      },
+      {
+        id: 'jumlah',
+        type: 'number',
+        label: 'Jumlah',
+        prompt: 'Berapa jumlah yang Anda transfer?',
+        min: 1000
+      },
+      {
+        id: 'bukti',
+        type: 'media',
+        label: 'Bukti Transfer',
+        prompt: 'Kirim foto bukti transfer.'
+      }
+    ],
+    action: {
+      type: 'submission',
+      reply: '✅ Laporan pembayaran iuran {{periode}} sebesar Rp {{jumlah}} sudah kami terima.\nPengurus akan memeriksa bukti transfer dan mencatat pembayaran Anda.'
+    },
+    confirm: true,
+    requires_member: true,
+    admin_only: false,
+    timeout_minutes: 15,
+    is_active: true
+  },
+  {
+    id: 'builtin-menu-laporan',
+    // "/laporan harian" still goes straight to the parser; only the bare command opens the menu
+    trigger: '/laporan',
+    title: 'Menu Laporan',
+    description: 'Pilih periode atau jenis laporan dari menu',
+    steps: [
+      {
+        id: 'jenis',
+        type: 'choice',
+        label: 'Laporan',
+        prompt: 'Laporan apa yang ingin dilihat?',
+        options: [
+          { label: 'Hari ini', value: 'harian' },
+          { label: 'Bulan ini', value: 'bulanan' },
+          { label: 'Simpanan', value: 'simpanan' },
+          { label: 'Pinjaman', value: 'pinjaman' }
+        ]
+      }
+    ],
+    action: { type: 'command', command: '/laporan {{jenis}}' },
+    confirm: false,
+    requires_member: false,
+    admin_only: true,
+    timeout_minutes: 5,
+    is_active: true
+  }
+];
+
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, ConversationSession>();
+
+  get(phoneNumber: string) {
+    return this.sessions.get(phoneNumber);
+  }
+
+  set(session: ConversationSession) {
+    this.sessions.set(session.phone_number, session);
+  }
+
+  delete(phoneNumber: string) {
+    this.sessions.delete(phoneNumber);
+  }
+
+  all() {
+    return Array.from(this.sessions.values());
+  }
+}
+
+const templateKeys = (template: string) =>
+  Array.from(template.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1]);
+
+export const renderTemplate = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => String(values[key] ?? ''));
+
+/**
+ * Problems that keep a flow definition from running, in Indonesian for the flow editor.
+ * An empty list means the flow is valid.
+ */
+export const validateFlow = (flow: Partial<ConversationFlow>): string[] => {
+  const errors: string[] = [];
+  const steps = Array.isArray(flow.steps) ? flow.steps : [];
+
+  if (!flow.trigger || !/^\/[\w-]+$/.test(flow.trigger)) {
+    errors.push('Pemicu harus satu kata yang diawali /, contoh: /ajukan');
+  }
+  if (!flow.title?.trim()) errors.push('Judul wajib diisi');
+  if (!(Number(flow.timeout_minutes) > 0)) errors.push('Batas waktu sesi harus lebih dari 0 menit');
+  if (steps.length === 0) errors.push('Alur harus memiliki minimal satu langkah');
+
+  const ids = new Set<string>();
+  steps.forEach((step, index) => {
+    const name = `Langkah ${index + 1}`;
+    if (!step.id || !/^\w+$/.test(step.id)) errors.push(`${name}: id hanya boleh huruf, angka dan _`);
+    else if (ids.has(step.id)) errors.push(`${name}: id "${step.id}" sudah dipakai`);
+    else ids.add(step.id);
+
+    if (!STEP_TYPES.includes(step.type)) errors.push(`${name}: jenis harus number, text, choice atau media`);
+    if (!step.label?.trim() || !step.prompt?.trim()) errors.push(`${name}: label dan pertanyaan wajib diisi`);
+    if (step.min !== undefined && step.max !== undefined && step.min > step.max) {
+      errors.push(`${name}: batas minimum lebih besar dari maksimum`);
+    }
+    if (step.type === 'choice' && (!step.options || step.options.length < 2 || step.options.some(option => !option.label || !option.value))) {
+      errors.push(`${name}: pilihan membutuhkan minimal dua opsi dengan label dan nilai`);
+    }
+  });
+
+  const action = flow.action;
+  if (action?.type === 'command') {
+    if (!action.command?.startsWith('/')) errors.push('Perintah aksi harus diawali /');
+    else templateKeys(action.command).filter(key => !ids.has(key))
+      .forEach(key => errors.push(`Perintah aksi memakai {{${key}}} yang bukan id langkah`));
+  } else if (action?.type === 'loan_application') {
+    ['jumlah_pinjaman', 'tenor_bulan'].filter(key => !steps.some(step => step.id === key && (step.type === 'number' || step.type === 'choice')))
+      .forEach(key => errors.push(`Pengajuan pinjaman membutuhkan langkah angka atau pilihan dengan id ${key}`));
+    if (!flow.requires_member) errors.push('Pengajuan pinjaman hanya untuk anggota terverifikasi');
+  } else if (action?.type === 'submission') {
+    templateKeys(action.reply || '').filter(key => key !== 'title' && !ids.has(key))
+      .forEach(key => errors.push(`Balasan memakai {{${key}}} yang bukan id langkah`));
+  } else {
+    errors.push('Aksi harus command, loan_application atau submission');
+  }
+
+  return errors;
+};
+
+/**
+ * Active flows: valid stored flows first, then the built-in flows whose trigger they don't reuse
+ */
+export const activeFlows = (stored: ConversationFlow[], builtIn = BUILTIN_FLOWS): ConversationFlow[] => {
+  const custom = stored.filter(flow => {
+    if (!flow.is_active) return false;
+    const errors = validateFlow(flow);
+    if (errors.length > 0) console.warn(`WhatsApp flow ${flow.trigger} is skipped:`, errors);
+    return errors.length === 0;
+  });
+  const triggers = new Set(custom.map(flow => flow.trigger.toLowerCase()));
+  return [...custom, ...builtIn.filter(flow => flow.is_active && !triggers.has(flow.trigger.toLowerCase()))];
+};
+
+// Amounts as members type them: 5000000, 5.000.000, Rp 5.000.000, 5jt, 1,5 juta, 500rb
+const parseAmount = (text: string): number | null => {
+  const value = text.toLowerCase().replace(/^rp\.?/, '').replace(/\s/g, '');
+  const short = value.match(/^(\d+(?:[.,]\d+)?)(jt|juta|rb|ribu)$/);
+  if (short) {
+    const multiplier = short[2] === 'jt' || short[2] === 'juta' ? 1000000 : 1000;
+    return Math.round(parseFloat(short[1].replace(',', '.')) * multiplier);
+  }
+  return /^\d{1,3}([.,]\d{3})*$|^\d+$/.test(value) ? Number(value.replace(/[.,]/g, '')) : null;
+};
+
+const formatNumber = (value: number) => value.toLocaleString('id-ID');
+
+export type AnswerResult = { value: string | number } | { error: string };
+
+/**
+ * Reads the answer to a step from a message
+ */
+export const parseAnswer = (step: FlowStep, message: IncomingMessage): AnswerResult => {
+  const text = message.body.trim();
+
+  switch (step.type) {
+    case 'number': {
+      const value = parseAmount(text);
+      if (value === null) return { error: '❌ Jawaban harus berupa angka.' };
+      if (step.min !== undefined && value < step.min) return { error: `❌ Minimal ${formatNumber(step.min)}.` };
+      if (step.max !== undefined && value > step.max) return { error: `❌ Maksimal ${formatNumber(step.max)}.` };
+      return { value };
+    }
+
+    case 'text': {
+      const min = step.min ?? 1;
+      if (text.length < min) return { error: `❌ Jawaban minimal ${min} karakter.` };
+      if (step.max !== undefined && text.length > step.max) return { error: `❌ Jawaban maksimal ${step.max} karakter.` };
+      return { value: text };
+    }
+
+    case 'choice': {
+      const options = step.options || [];
+      const index = Number(text);
+      const option = Number.isInteger(index) && index >= 1
+        ? options[index - 1]
+        : options.find(item => [item.label, item.value].some(choice => choice.toLowerCase() === text.toLowerCase()));
+      return option ? { value: option.value } : { error: `❌ Balas dengan nomor 1 sampai ${options.length}.` };
+    }
+
+    case 'media':
+      if (!message.media?.mime_type.startsWith('image/')) return { error: '❌ Kirim foto sebagai jawaban langkah ini.' };
+      return { value: 'Foto terlampir' };
+  }
+};
+
+// Answers as shown to people: choice labels and grouped numbers
+const displayAnswers = (flow: ConversationFlow, answers: FlowAnswers): Record<string, string> =>
+  Object.fromEntries(flow.steps
+    .filter(step => answers[step.id] !== undefined)
+    .map(step => {
+      const answer = answers[step.id];
+      if (step.type === 'choice') return [step.id, step.options?.find(option => option.value === answer)?.label || String(answer)];
+      if (typeof answer === 'number') return [step.id, formatNumber(answer)];
+      return [step.id, String(answer)];
+    }));
+
+const stepPrompt = (flow: ConversationFlow, index: number): string => {
+  const step = flow.steps[index];
+  let prompt = `(${index + 1}/${flow.steps.length}) ${step.prompt}`;
+  if (step.type === 'choice') {
+    prompt += '\n\n' + (step.options || []).map((option, number) => `${number + 1}. ${option.label}`).join('\n');
+  }
+  return prompt;
+};
+
+/**
+ * Stored flows and flow results through the configured repositories
+ */
+export const repositoryConversationSource: ConversationDataSource = {
+  async loadFlows() {
+    const response = await repositories.whatsappFlows.list({ is_active: true });
+    // Built-in flows only when the backend keeps no flows
+    if (response.status === 501) return [];
+    if (response.error) throw new Error(response.error);
+    return response.data || [];
+  },
+
+  // Through the loan application queue, so the policy's jasa and the approval rules apply
+  async submitLoanApplication(application) {
+    const response = await loanApplicationsApi.submit(application);
+    if (response.error) throw new Error(response.error);
+  },
+
+  async saveSubmission(submission) {
+    const response = await repositories.whatsappFlowSubmissions.create(submission);
+    if (response.error) throw new Error(response.error);
+  }
+};
+
+export class WhatsAppConversationEngine {
+  private parser: WhatsAppCommandParser;
+  private dataSource: ConversationDataSource;
+  private sessions: SessionStore;
+  private now: () => number;
+
+  constructor(private transport: MessageTransport, options: ConversationEngineOptions = {}) {
+    this.parser = options.parser || whatsappCommandParser;
+    this.dataSource = options.dataSource || repositoryConversationSource;
+    this.sessions = options.sessions || new MemorySessionStore();
+    this.now = options.now || Date.now;
+  }
+
+  // Handle one incoming message and send the replies it needs
+  async handleMessage(message: IncomingMessage): Promise<void> {
+    const keyword = message.body.trim().toLowerCase();
+
+    try {
+      const flows = await this.loadFlows();
+      const session = this.sessions.get(message.from);
+
+      if (session) {
+        const flow = flows.find(item => item.id === session.flow_id);
+        if (!flow) {
+          // The flow was removed or deactivated mid-conversation
+          this.sessions.delete(message.from);
+        } else if (this.isExpired(session, flow)) {
+          this.sessions.delete(message.from);
+          await this.reply(message.from, this.timeoutMessage(flow));
+          // An answer to the expired step is not a command
+          if (!keyword.startsWith('/')) return;
+        } else if (CANCEL_WORDS.includes(keyword)) {
+          this.sessions.delete(message.from);
+          await this.reply(message.from, `❎ ${flow.title} dibatalkan.`);
+          return;
+        } else {
+          await this.continueFlow(flow, session, message);
+          return;
+        }
+      }
+
+      const context = await this.parser.getUserContext(message.from);
+      const flow = flows.find(item => item.trigger.toLowerCase() === keyword);
+      if (flow) {
+        await this.startFlow(flow, message.from, context);
+        return;
+      }
+
+      const response = await this.parser.parseCommand(message.body, context);
+      const help = keyword === '/help' ? this.flowHelp(flows, context) : '';
+      await this.reply(message.from, response.message + help);
+    } catch (error) {
+      console.error('WhatsApp conversation failed:', error);
+      await this.reply(message.from, '❌ Data tidak dapat dimuat saat ini. Silakan coba lagi beberapa saat lagi.');
+    }
+  }
+
+  /**
+   * Ends sessions that have been idle longer than their flow allows and tells the member.
+   * Meant to run periodically; handleMessage also checks the session it receives.
+   */
+  async expireIdleSessions(): Promise<number> {
+    const flows = await this.loadFlows();
+    let expired = 0;
+    for (const session of this.sessions.all()) {
+      const flow = flows.find(item => item.id === session.flow_id);
+      if (flow && !this.isExpired(session, flow)) continue;
+
+      this.sessions.delete(session.phone_number);
+      if (flow) await this.reply(session.phone_number, this.timeoutMessage(flow));
+      expired++;
+    }
+    return expired;
+  }
+
+  private async loadFlows(): Promise<ConversationFlow[]> {
+    try {
+      return activeFlows(await this.dataSource.loadFlows());
+    } catch (error) {
+      console.error('Failed to load WhatsApp flows, using built-in flows:', error);
+      return activeFlows([]);
+    }
+  }
+
+  private isExpired(session: ConversationSession, flow: ConversationFlow) {
+    return this.now() - session.updated_at > flow.timeout_minutes * 60000;
+  }
+
+  private timeoutMessage(flow: ConversationFlow) {
+    return `⏱️ Sesi ${flow.title} berakhir karena tidak ada balasan selama ${flow.timeout_minutes} menit.\nKetik ${flow.trigger} untuk memulai lagi.`;
+  }
+
+  private async startFlow(flow: ConversationFlow, phoneNumber: string, context: UserContext) {
+    if (flow.admin_only && !context.isAdmin) {
+      await this.reply(phoneNumber, NOT_ADMIN.message);
+      return;
+    }
+    if (flow.requires_member && !context.memberId) {
+      await this.reply(phoneNumber, NOT_VERIFIED.message);
+      return;
+    }
+
+    this.sessions.set({
+      phone_number: phoneNumber,
+      flow_id: flow.id,
+      step_index: 0,
+      answers: {},
+      media: null,
+      confirming: false,
+      updated_at: this.now()
+    });
+    await this.reply(phoneNumber, `📝 *${flow.title.toUpperCase()}*\nKetik *batal* kapan saja untuk membatalkan.\n\n${stepPrompt(flow, 0)}`);
+  }
+
+  private async continueFlow(flow: ConversationFlow, session: ConversationSession, message: IncomingMessage) {
+    const updated: ConversationSession = { ...session, answers: { ...session.answers }, updated_at: this.now() };
+
+    if (session.confirming) {
+      if (CONFIRM_WORDS.includes(message.body.trim().toLowerCase())) {
+        this.sessions.delete(message.from);
+        await this.runAction(flow, updated);
+      } else {
+        this.sessions.set(updated);
+        await this.reply(message.from, 'Balas *ya* untuk mengirim atau *batal* untuk membatalkan.');
+      }
+      return;
+    }
+
+    const step = flow.steps[session.step_index];
+    const result = parseAnswer(step, message);
+    if ('error' in result) {
+      this.sessions.set(updated);
+      await this.reply(message.from, `${result.error}\n\n${stepPrompt(flow, session.step_index)}`);
+      return;
+    }
+
+    updated.answers[step.id] = result.value;
+    if (step.type === 'media') updated.media = message.media || null;
+    updated.step_index++;
+
+    if (updated.step_index < flow.steps.length) {
+      this.sessions.set(updated);
+      await this.reply(message.from, stepPrompt(flow, updated.step_index));
+    } else if (flow.confirm) {
+      this.sessions.set({ ...updated, confirming: true });
+      await this.reply(message.from, this.summary(flow, updated.answers));
+    } else {
+      this.sessions.delete(message.from);
+      await this.runAction(flow, updated);
+    }
+  }
+
+  private summary(flow: ConversationFlow, answers: FlowAnswers) {
+    const display = displayAnswers(flow, answers);
+    return `📋 *KONFIRMASI ${flow.title.toUpperCase()}*\n\n${flow.steps.map(step => `• ${step.label}: ${display[step.id]}`).join('\n')}\n\nBalas *ya* untuk mengirim atau *batal* untuk membatalkan.`;
+  }
+
+  private async runAction(flow: ConversationFlow, session: ConversationSession) {
+    const phoneNumber = session.phone_number;
+
+    try {
+      // Resolved again so a number unverified mid-flow cannot submit
+      const context = await this.parser.getUserContext(phoneNumber);
+      if (flow.requires_member && !context.memberId) {
+        await this.reply(phoneNumber, NOT_VERIFIED.message);
+        return;
+      }
+
+      const action = flow.action;
+      const display = displayAnswers(flow, session.answers);
+
+      switch (action.type) {
+        case 'command': {
+          const response = await this.parser.parseCommand(renderTemplate(action.command, session.answers), context);
+          await this.reply(phoneNumber, response.message);
+          break;
+        }
+
+        case 'loan_application':
+          await this.dataSource.submitLoanApplication({
+            member_id: context.memberId,
+            jumlah_pinjaman: Number(session.answers.jumlah_pinjaman),
+            tenor_bulan: Number(session.answers.tenor_bulan),
+            tujuan: session.answers.tujuan !== undefined ? String(session.answers.tujuan) : undefined
+          });
+          await this.reply(phoneNumber, `✅ Pengajuan pinjaman Rp ${display.jumlah_pinjaman} untuk ${Number(session.answers.tenor_bulan)} bulan sudah diterima.\nPengurus akan meninjau pengajuan Anda dan mengabarkan keputusannya.`);
+          break;
+
+        case 'submission':
+          await this.dataSource.saveSubmission({
+            flow_id: flow.id,
+            flow_title: flow.title,
+            member_id: context.memberId || null,
+            phone_number: normalizePhoneNumber(phoneNumber),
+            answers: session.answers,
+            media: session.media,
+            status: 'baru'
+          });
+          await this.reply(phoneNumber, renderTemplate(action.reply || DEFAULT_SUBMISSION_REPLY, { ...display, title: flow.title }));
+          break;
+      }
+    } catch (error) {
+      console.error(`WhatsApp flow ${flow.trigger} failed:`, error);
+      await this.reply(phoneNumber, `❌ ${flow.title} gagal dikirim: ${error instanceof Error ? error.message : 'kesalahan tidak diketahui'}.\nSilakan coba lagi nanti.`);
+    }
+  }
+
+  private flowHelp(flows: ConversationFlow[], context: UserContext) {
+    const available = flows.filter(flow => (!flow.admin_only || context.isAdmin) && (!flow.requires_member || context.memberId));
+    if (available.length === 0) return '';
+    return `\n💬 *Percakapan Terpandu:*\n${available.map(flow => `${flow.trigger} - ${flow.description || flow.title}`).join('\n')}\nKetik *batal* untuk keluar dari percakapan.`;
+  }
+
+  private async reply(to: string, message: string) {
+    await this.transport.send(to, message);
+  }
+}
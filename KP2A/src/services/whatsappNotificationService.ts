@@ -1,6 +1,18 @@
 // WhatsApp Notification Service
 // Handles sending notifications and alerts to WhatsApp mobile
-// Updated to fix ERR_ABORTED issues
+// Scheduled reminders are read from the koperasi data and logged so each one goes out once
+
+import type { Due, Loan, Member } from '../lib/api';
+import { repositories } from '../lib/repositories';
+import type { NotificationLogRecord } from '../types';
+import { loansService } from './savingsLoansService';
+import {
+  CommandDataSource,
+  loadLoanStatus,
+  LoanStatus,
+  repositoryDataSource
+} from './whatsappCommandParser';
+import type { MessageTransport } from './whatsappConversation';
 
 export interface NotificationTemplate {
   id: string;
@@ -25,8 +37,260 @@ export interface NotificationLog {
   status: 'sent' | 'failed' | 'pending';
   timestamp: Date;
   error?: string;
+  // Set for scheduled reminders, see PlannedReminder
+  dedupKey?: string;
 }
 
+export type ReminderJobId = 'payment_reminders' | 'overdue_alerts' | 'dues_reminders';
+
+export interface ReminderSchedule {
+  id: ReminderJobId;
+  name: string;
+  frequency: 'daily' | 'weekly' | 'monthly';
+  // weekly: day of week (0 = Minggu); monthly: day of month, clamped to shorter months
+  day?: number;
+  // HH:mm, local time
+  time: string;
+}
+
+// A reminder to send; the dedup key names what it is about, so runs that overlap send it once
+export interface PlannedReminder {
+  templateId: string;
+  dedupKey: string;
+  recipient: NotificationRecipient;
+  variables: Record<string, string>;
+}
+
+export interface ReminderRunResult {
+  job: ReminderJobId;
+  sent: number;
+  failed: number;
+  // Already sent by an earlier run
+  skipped: number;
+  // Stopped because of quiet hours; the rest goes out with the next run
+  deferred: boolean;
+  finishedAt: Date;
+}
+
+export interface ScheduledJob extends ReminderSchedule {
+  nextRun: Date | null;
+  lastRun: ReminderRunResult | null;
+}
+
+export interface NotificationServiceOptions {
+  // Defaults to the simulated WhatsApp API
+  transport?: MessageTransport;
+  dataSource?: CommandDataSource;
+  now?: () => Date;
+  // Pause between scheduled messages to avoid rate limiting
+  delayMs?: number;
+}
+
+type DeliveryOutcome = 'sent' | 'failed' | 'skipped';
+
+// Days before an installment falls due that the borrower is reminded
+export const REMINDER_DAYS_AHEAD = 3;
+
+// No scheduled messages from 21:00 until 07:00
+export const QUIET_HOURS = { start: 21, end: 7 };
+
+export const REMINDER_SCHEDULES: ReminderSchedule[] = [
+  { id: 'payment_reminders', name: 'Pengingat angsuran', frequency: 'daily', time: '09:00' },
+  { id: 'overdue_alerts', name: 'Peringatan tunggakan pinjaman', frequency: 'weekly', day: 1, time: '10:00' },
+  { id: 'dues_reminders', name: 'Pengingat tunggakan iuran', frequency: 'monthly', day: 10, time: '09:00' }
+];
+
+// A claimed reminder whose sender never reported back (a crash mid-send) can be claimed again
+// after this long; the MySQL backend applies the same limit when the entry is reopened
+export const STALE_PENDING_MINUTES = 15;
+
+// setTimeout fires immediately for delays above 2^31 - 1 ms, so longer waits are chained
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const amount = (value: unknown) => Number(value) || 0;
+
+const formatAmount = (value: number) => Math.round(value).toLocaleString('id-ID');
+
+const dateOnly = (value: string | null | undefined) => (value ? String(value).slice(0, 10) : '');
+
+const isoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const parseDate = (value: string) => {
+  const [year, month, day] = dateOnly(value).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const daysBetween = (from: Date, to: Date) => Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+const longDate = (value: string) =>
+  parseDate(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const monthName = (year: number, month: number) =>
+  new Date(year, month - 1, 1).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' });
+
+const recipientOf = (member: Member): NotificationRecipient => ({
+  phoneNumber: member.no_hp,
+  name: member.nama_lengkap,
+  memberId: member.id,
+  isAdmin: false
+});
+
+const membersById = (members: Member[]) =>
+  new Map(members.filter(member => member.no_hp).map(member => [member.id, member]));
+
+export const isQuietHour = (date: Date, quietHours = QUIET_HOURS): boolean => {
+  const hour = date.getHours();
+  return quietHours.start > quietHours.end
+    ? hour >= quietHours.start || hour < quietHours.end
+    : hour >= quietHours.start && hour < quietHours.end;
+};
+
+// When the quiet hours around `date` are over
+export const quietHoursEnd = (date: Date, quietHours = QUIET_HOURS): Date => {
+  const end = new Date(date.getFullYear(), date.getMonth(), date.getDate(), quietHours.end);
+  return end > date ? end : new Date(end.getTime() + DAY_MS);
+};
+
+// First time after `from` that the schedule is due
+export const nextRunAt = (schedule: ReminderSchedule, from: Date): Date => {
+  const [hours, minutes] = schedule.time.split(':').map(Number);
+  const at = (year: number, month: number, day: number) => new Date(year, month, day, hours, minutes);
+
+  if (schedule.frequency === 'monthly') {
+    for (let offset = 0; ; offset++) {
+      const lastDay = new Date(from.getFullYear(), from.getMonth() + offset + 1, 0).getDate();
+      const candidate = at(from.getFullYear(), from.getMonth() + offset, Math.min(schedule.day || 1, lastDay));
+      if (candidate > from) return candidate;
+    }
+  }
+
+  const candidate = at(from.getFullYear(), from.getMonth(), from.getDate());
+  if (schedule.frequency === 'weekly') {
+    candidate.setDate(candidate.getDate() + ((amount(schedule.day) - candidate.getDay() + 7) % 7));
+    if (candidate <= from) candidate.setDate(candidate.getDate() + 7);
+  } else if (candidate <= from) {
+    candidate.setDate(candidate.getDate() + 1);
+  }
+  return candidate;
+};
+
+/**
+ * Reminders for installments that fall due within `daysAhead` days. The amount is what is
+ * still missing for the next installment, since partial payments carry over.
+ */
+export const planPaymentReminders = (
+  statuses: LoanStatus[],
+  members: Member[],
+  today: Date,
+  daysAhead = REMINDER_DAYS_AHEAD
+): PlannedReminder[] => {
+  const byId = membersById(members);
+
+  return statuses.flatMap(status => {
+    const member = byId.get(status.loan.member_id);
+    if (!member || !status.nextDueDate) return [];
+
+    const daysLeft = daysBetween(today, parseDate(status.nextDueDate));
+    if (daysLeft < 0 || daysLeft > daysAhead) return [];
+
+    const installment = amount(status.loan.angsuran_bulanan);
+    const due = Math.min(
+      amount(status.loan.sisa_pinjaman),
+      installment * (status.paidInstallments + 1) - status.paidAmount
+    );
+    if (due <= 0) return [];
+
+    return [{
+      templateId: 'payment_reminder',
+      dedupKey: `payment_reminder:${status.loan.id}:${status.nextDueDate}`,
+      recipient: recipientOf(member),
+      variables: { name: member.nama_lengkap, dueDate: longDate(status.nextDueDate), amount: formatAmount(due) }
+    }];
+  });
+};
+
+/**
+ * Weekly alerts for loans in arrears, and for loans `pastMaturity` lists (loan id to the
+ * date the loan should have been repaid). Each loan is alerted once per week.
+ */
+export const planOverdueAlerts = (
+  statuses: LoanStatus[],
+  members: Member[],
+  today: Date,
+  pastMaturity: Record<string, string> = {}
+): PlannedReminder[] => {
+  const byId = membersById(members);
+  const monday = startOfDay(today);
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+
+  return statuses.flatMap(status => {
+    const { loan } = status;
+    const member = byId.get(loan.member_id);
+    if (!member) return [];
+
+    const inArrears = status.arrears > 0 && !!status.nextDueDate;
+    const dueDate = inArrears ? status.nextDueDate : pastMaturity[loan.id];
+    const overdue = inArrears ? status.arrears : amount(loan.sisa_pinjaman);
+    if (!dueDate || overdue <= 0) return [];
+
+    const daysPast = daysBetween(parseDate(dueDate), today);
+    if (daysPast <= 0) return [];
+
+    return [{
+      templateId: 'overdue_alert',
+      dedupKey: `overdue_alert:${loan.id}:${isoDate(monday)}`,
+      recipient: recipientOf(member),
+      variables: {
+        name: member.nama_lengkap,
+        amount: formatAmount(overdue),
+        dueDate: longDate(dueDate),
+        daysPast: String(daysPast)
+      }
+    }];
+  });
+};
+
+/**
+ * One reminder per active member with unpaid dues for months before the current one.
+ * Only iuran wajib and simpanan wajib are counted; iuran sukarela is optional.
+ */
+export const planDuesReminders = (dues: Due[], members: Member[], today: Date): PlannedReminder[] => {
+  const byId = membersById(members.filter(member => member.status_keanggotaan === 'aktif'));
+  const currentMonth = today.getFullYear() * 12 + today.getMonth() + 1;
+  const unpaid = new Map<string, Due[]>();
+
+  dues
+    .filter(due => due.status !== 'lunas' && due.tahun * 12 + due.bulan < currentMonth && byId.has(due.member_id))
+    .forEach(due => unpaid.set(due.member_id, [...(unpaid.get(due.member_id) || []), due]));
+
+  return Array.from(unpaid.entries()).flatMap(([memberId, memberDues]) => {
+    const member = byId.get(memberId) as Member;
+    const total = memberDues.reduce((sum, due) => sum + amount(due.iuran_wajib) + amount(due.simpanan_wajib), 0);
+    if (total <= 0) return [];
+
+    const months = [...memberDues]
+      .sort((a, b) => a.tahun - b.tahun || a.bulan - b.bulan)
+      .map(due => monthName(due.tahun, due.bulan));
+
+    return [{
+      templateId: 'dues_reminder',
+      dedupKey: `dues_reminder:${memberId}:${isoDate(today).slice(0, 7)}`,
+      recipient: recipientOf(member),
+      variables: {
+        name: member.nama_lengkap,
+        count: String(months.length),
+        months: months.join(', '),
+        amount: formatAmount(total)
+      }
+    }];
+  });
+};
+
 export class WhatsAppNotificationService {
   private templates: NotificationTemplate[] = [
     {
@@ -50,6 +314,20 @@ export class WhatsAppNotificationService {
       variables: ['name', 'amount', 'dueDate', 'daysPast'],
       category: 'alert'
     },
+    {
+      id: 'dues_reminder',
+      name: 'Tunggakan Iuran',
+      template: '📋 *TUNGGAKAN IURAN*\n\nHalo {name}!\nIuran wajib {count} bulan belum kami terima: {months}.\n\n💵 Jumlah: Rp {amount}\n\nSudah membayar? Kirim /bayar untuk melaporkan pembayaran beserta bukti transfer.',
+      variables: ['name', 'count', 'months', 'amount'],
+      category: 'reminder'
+    },
+    {
+      id: 'guarantor_alert',
+      name: 'Pemberitahuan Penjamin',
+      template: '⚠️ *PEMBERITAHUAN PENJAMIN*\n\nHalo {name}!\nPinjaman atas nama {borrower} yang Anda jamin menunggak:\n\n💸 Tunggakan: Rp {amount}\n📅 Jatuh Tempo: {dueDate}\n⏳ Terlambat: {daysPast} hari\n\nMohon bantu mengingatkan peminjam. Sebagai penjamin, Anda ikut bertanggung jawab atas pelunasan pinjaman ini.',
+      variables: ['name', 'borrower', 'amount', 'dueDate', 'daysPast'],
+      category: 'alert'
+    },
     {
       id: 'meeting_reminder',
       name: 'Pengingat Rapat',
@@ -75,60 +353,34 @@ export class WhatsAppNotificationService {
 
   private notificationLogs: NotificationLog[] = [];
 
+  private transport: MessageTransport;
+  private dataSource: CommandDataSource;
+  private now: () => Date;
+  private delayMs: number;
+
+  private schedulerActive = false;
+  private timers = new Map<ReminderJobId, ReturnType<typeof setTimeout>>();
+  private nextRuns: Partial<Record<ReminderJobId, Date>> = {};
+  private lastRuns: Partial<Record<ReminderJobId, ReminderRunResult>> = {};
+
+  constructor(options: NotificationServiceOptions = {}) {
+    this.transport = options.transport || {
+      send: async (to, message) => {
+        if (!(await this.simulateSendMessage(to, message))) throw new Error('Simulated failure');
+      }
+    };
+    this.dataSource = options.dataSource || repositoryDataSource;
+    this.now = options.now || (() => new Date());
+    this.delayMs = options.delayMs ?? 100;
+  }
+
   // Send notification to single recipient
   async sendNotification(
-    templateId: string, 
-    recipient: NotificationRecipient, 
+    templateId: string,
+    recipient: NotificationRecipient,
     variables: Record<string, string>
   ): Promise<boolean> {
-    try {
-      const template = this.templates.find(t => t.id === templateId);
-      if (!template) {
-        throw new Error(`Template ${templateId} not found`);
-      }
-
-      // Replace variables in template
-      let message = template.template;
-      template.variables.forEach(variable => {
-        const value = variables[variable] || `{${variable}}`;
-        message = message.replace(new RegExp(`{${variable}}`, 'g'), value);
-      });
-
-      // Simulate sending (in real implementation, this would call WhatsApp API)
-      const success = await this.simulateSendMessage(recipient.phoneNumber, message);
-
-      // Log the notification
-      const log: NotificationLog = {
-        id: Date.now().toString(),
-        recipient: recipient.phoneNumber,
-        message,
-        template: templateId,
-        status: success ? 'sent' : 'failed',
-        timestamp: new Date(),
-        error: success ? undefined : 'Simulated failure'
-      };
-
-      this.notificationLogs.unshift(log);
-      
-      return success;
-    } catch (error) {
-      console.error('Failed to send notification:', error);
-      
-      // Log failed notification
-      const log: NotificationLog = {
-        id: Date.now().toString(),
-        recipient: recipient.phoneNumber,
-        message: 'Failed to process template',
-        template: templateId,
-        status: 'failed',
-        timestamp: new Date(),
-        error: error instanceof Error ? error.message : 'Unknown error'
-      };
-
-      this.notificationLogs.unshift(log);
-      
-      return false;
-    }
+    return (await this.deliver(templateId, recipient, variables)) === 'sent';
   }
 
   // Send notification to multiple recipients
@@ -203,7 +455,7 @@ export class WhatsAppNotificationService {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
 
-    const todayLogs = this.notificationLogs.filter(log => 
+    const todayLogs = this.notificationLogs.filter(log =>
       log.timestamp >= today
     );
 
@@ -220,7 +472,7 @@ export class WhatsAppNotificationService {
   private async simulateSendMessage(phoneNumber: string, message: string): Promise<boolean> {
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, Math.random() * 1000 + 500));
-    
+
     // Simulate 95% success rate
     return Math.random() > 0.05;
   }
@@ -262,52 +514,267 @@ export class WhatsAppNotificationService {
     await this.sendAdminAlert('Database backup completed successfully', 'low');
   }
 
-  // Schedule automatic notifications (in real app, this would be handled by cron jobs)
+  // Installments due within REMINDER_DAYS_AHEAD days
+  async sendPaymentReminders(): Promise<ReminderRunResult> {
+    return this.runReminderJob('payment_reminders');
+  }
+
+  // Loans in arrears or past their maturity
+  async sendOverdueAlerts(): Promise<ReminderRunResult> {
+    return this.runReminderJob('overdue_alerts');
+  }
+
+  // Unpaid dues of earlier months
+  async sendDuesReminders(): Promise<ReminderRunResult> {
+    return this.runReminderJob('dues_reminders');
+  }
+
+  /**
+   * Plans and sends the reminders of a job. Reminders that an earlier run already sent are
+   * skipped, so a job may be run again after a failure or a deferral.
+   */
+  async runReminderJob(job: ReminderJobId): Promise<ReminderRunResult> {
+    const result: ReminderRunResult = { job, sent: 0, failed: 0, skipped: 0, deferred: false, finishedAt: this.now() };
+
+    if (!isQuietHour(this.now())) {
+      const reminders = await this.planReminders(job);
+
+      for (const reminder of reminders) {
+        // A long run may reach the quiet hours
+        if (isQuietHour(this.now())) {
+          result.deferred = true;
+          break;
+        }
+
+        const outcome = await this.deliver(reminder.templateId, reminder.recipient, reminder.variables, reminder.dedupKey);
+        result[outcome]++;
+
+        if (outcome !== 'skipped' && this.delayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, this.delayMs));
+        }
+      }
+    } else {
+      result.deferred = true;
+    }
+
+    result.finishedAt = this.now();
+    this.lastRuns[job] = result;
+    return result;
+  }
+
+  // Runs the reminder jobs on REMINDER_SCHEDULES while the app is open
   scheduleNotifications(): void {
-    // Daily payment reminders at 09:00
-    this.scheduleDaily('09:00', () => {
-      this.sendPaymentReminders();
-    });
+    this.stopScheduledNotifications();
+    this.schedulerActive = true;
+    REMINDER_SCHEDULES.forEach(schedule => this.scheduleJob(schedule, nextRunAt(schedule, this.now())));
+  }
 
-    // Weekly overdue alerts on Monday at 10:00
-    this.scheduleWeekly('monday', '10:00', () => {
-      this.sendOverdueAlerts();
-    });
+  stopScheduledNotifications(): void {
+    this.schedulerActive = false;
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+    this.nextRuns = {};
+  }
 
-    // Monthly meeting reminders
-    this.scheduleMonthly(25, '15:00', () => {
-      this.sendMeetingReminders();
-    });
+  isSchedulerRunning(): boolean {
+    return this.schedulerActive;
   }
 
-  private async sendPaymentReminders(): Promise<void> {
-    // In real implementation, this would query database for upcoming due dates
-    console.log('Sending daily payment reminders...');
+  getScheduledJobs(): ScheduledJob[] {
+    return REMINDER_SCHEDULES.map(schedule => ({
+      ...schedule,
+      nextRun: this.nextRuns[schedule.id] || null,
+      lastRun: this.lastRuns[schedule.id] || null
+    }));
   }
 
-  private async sendOverdueAlerts(): Promise<void> {
-    // In real implementation, this would query database for overdue payments
-    console.log('Sending overdue alerts...');
+  private scheduleJob(schedule: ReminderSchedule, at: Date): void {
+    this.nextRuns[schedule.id] = at;
+    const delay = Math.min(MAX_TIMER_DELAY, Math.max(0, at.getTime() - this.now().getTime()));
+
+    this.timers.set(schedule.id, setTimeout(() => {
+      if (!this.schedulerActive) return;
+      if (this.now() < at) {
+        this.scheduleJob(schedule, at);
+        return;
+      }
+
+      this.runReminderJob(schedule.id)
+        .then(result => {
+          if (!this.schedulerActive) return;
+          // A deferred run picks up where it stopped once the quiet hours are over
+          this.scheduleJob(schedule, result.deferred ? quietHoursEnd(this.now()) : nextRunAt(schedule, this.now()));
+        })
+        .catch(error => {
+          console.error(`Failed to run ${schedule.id}:`, error);
+          if (this.schedulerActive) this.scheduleJob(schedule, nextRunAt(schedule, this.now()));
+        });
+    }, delay));
   }
 
-  private async sendMeetingReminders(): Promise<void> {
-    // In real implementation, this would send meeting reminders to all members
-    console.log('Sending meeting reminders...');
+  private async planReminders(job: ReminderJobId): Promise<PlannedReminder[]> {
+    const today = this.now();
+    const members = await this.dataSource.listMembers();
+
+    if (job === 'dues_reminders') {
+      return planDuesReminders(await this.dataSource.listDues(), members, today);
+    }
+
+    const loans = (await this.dataSource.listLoans())
+      .filter((loan: Loan) => loan.status === 'aktif' && amount(loan.sisa_pinjaman) > 0);
+    const statuses = await Promise.all(
+      loans.map(loan => loadLoanStatus(this.dataSource, loan, today))
+    );
+
+    return job === 'payment_reminders'
+      ? planPaymentReminders(statuses, members, today)
+      : planOverdueAlerts(statuses, members, today, await this.loansPastMaturity());
+  }
+
+  // Loans whose repayment date has passed, as loansService reports them
+  private async loansPastMaturity(): Promise<Record<string, string>> {
+    try {
+      const loans: Array<{ id: string; due_date?: string | null }> = (await loansService.getOverdueLoans()) || [];
+      return Object.fromEntries(
+        loans.filter(loan => loan.due_date).map(loan => [loan.id, dateOnly(loan.due_date)])
+      );
+    } catch (error) {
+      // Not available without the Supabase client; arrears from the installment schedule still apply
+      console.warn('Overdue loans are unavailable:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Renders, sends and logs one notification. With a dedup key the send is first claimed in
+   * the stored log, and skipped when a run already sent it or is sending it.
+   */
+  private async deliver(
+    templateId: string,
+    recipient: NotificationRecipient,
+    variables: Record<string, string>,
+    dedupKey?: string
+  ): Promise<DeliveryOutcome> {
+    const template = this.templates.find(t => t.id === templateId);
+    const log: NotificationLog = {
+      id: `${Date.now()}-${this.notificationLogs.length}`,
+      recipient: recipient.phoneNumber,
+      message: 'Failed to process template',
+      template: templateId,
+      status: 'pending',
+      timestamp: this.now(),
+      dedupKey
+    };
+
+    if (!template) {
+      console.error('Failed to send notification:', `Template ${templateId} not found`);
+      this.notificationLogs.unshift({ ...log, status: 'failed', error: `Template ${templateId} not found` });
+      return 'failed';
+    }
+
+    // Replace variables in template
+    let message = template.template;
+    template.variables.forEach(variable => {
+      const value = variables[variable] || `{${variable}}`;
+      message = message.replace(new RegExp(`{${variable}}`, 'g'), value);
+    });
+    log.message = message;
+
+    let recordId: string | null = null;
+    if (dedupKey) {
+      if (this.notificationLogs.some(item => item.dedupKey === dedupKey && item.status !== 'failed')) return 'skipped';
+
+      let claim: { recordId: string | null } | null;
+      try {
+        claim = await this.claim(dedupKey, recipient, templateId, message);
+      } catch (error) {
+        // Without the log a send could repeat, so leave it to the next run
+        this.notificationLogs.unshift({ ...log, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+        return 'failed';
+      }
+      if (!claim) return 'skipped';
+      recordId = claim.recordId;
+    }
+
+    this.notificationLogs.unshift(log);
+    try {
+      await this.transport.send(recipient.phoneNumber, message);
+      log.status = 'sent';
+    } catch (error) {
+      console.error('Failed to send notification:', error);
+      log.status = 'failed';
+      log.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    await this.storeLog(recordId, recipient, log);
+    return log.status === 'sent' ? 'sent' : 'failed';
   }
 
-  private scheduleDaily(time: string, callback: () => void): void {
-    // Simplified scheduling - in real app use proper scheduler like node-cron
-    console.log(`Scheduled daily task at ${time}`);
+  /**
+   * Marks a dedup key as being sent: a pending log entry, or the failed or abandoned pending
+   * entry of an earlier attempt. Returns null when the key is taken and throws when the log
+   * cannot be reached; recordId is null when the backend keeps no log and only this app's
+   * logs are checked.
+   */
+  private async claim(
+    dedupKey: string,
+    recipient: NotificationRecipient,
+    templateId: string,
+    message: string
+  ): Promise<{ recordId: string | null } | null> {
+    const existing = await repositories.notificationLogs.list({ dedup_key: dedupKey });
+    if (existing.status === 501) return { recordId: null };
+    if (existing.error) throw new Error(existing.error);
+
+    const previous = existing.data?.[0];
+    if (previous && previous.status !== 'failed' && !this.isStalePending(previous)) return null;
+
+    const response = previous
+      ? await repositories.notificationLogs.update(previous.id, { status: 'pending', message, error: null })
+      : await repositories.notificationLogs.create({
+          recipient: recipient.phoneNumber,
+          member_id: recipient.memberId || null,
+          template: templateId,
+          message,
+          status: 'pending',
+          dedup_key: dedupKey,
+          error: null
+        });
+
+    // Another run claimed the key first (unique dedup_key)
+    if (response.status === 409) return null;
+    if (response.error || !response.data) throw new Error(response.error || 'Notification log was not stored');
+    return { recordId: response.data.id };
   }
 
-  private scheduleWeekly(day: string, time: string, callback: () => void): void {
-    console.log(`Scheduled weekly task on ${day} at ${time}`);
+  private isStalePending(entry: NotificationLogRecord): boolean {
+    if (entry.status !== 'pending' || !entry.updated_at) return false;
+    return this.now().getTime() - new Date(entry.updated_at).getTime() >= STALE_PENDING_MINUTES * 60 * 1000;
   }
 
-  private scheduleMonthly(date: number, time: string, callback: () => void): void {
-    console.log(`Scheduled monthly task on ${date}th at ${time}`);
+  private async storeLog(recordId: string | null, recipient: NotificationRecipient, log: NotificationLog): Promise<void> {
+    const status = log.status;
+    const error = log.error || null;
+
+    try {
+      if (recordId) {
+        await repositories.notificationLogs.update(recordId, { status, error });
+      } else if (!log.dedupKey) {
+        await repositories.notificationLogs.create({
+          recipient: recipient.phoneNumber,
+          member_id: recipient.memberId || null,
+          template: log.template,
+          message: log.message,
+          status,
+          dedup_key: null,
+          error
+        });
+      }
+    } catch (storeError) {
+      console.error('Failed to store notification log:', storeError);
+    }
   }
 }
 
 // Export singleton instance
-export const whatsappNotificationService = new WhatsAppNotificationService();
\ No newline at end of file
+export const whatsappNotificationService = new WhatsAppNotificationService();
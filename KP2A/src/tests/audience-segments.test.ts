@@ -0,0 +1,191 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../lib/repositories', () => ({ repositories: {} }))
+
+import type { Due, Loan, LoanPayment, Member, Saving } from '../lib/api'
+import type { AudienceSegment } from '../types/audienceSegments'
+import {
+  describeRule,
+  describeSegment,
+  evaluateSegment,
+  SEGMENT_PRESETS,
+  segmentFieldValues,
+  validateSegment
+} from '../services/audienceSegments'
+import { loadBroadcastRecipientData } from '../services/broadcastTemplates'
+import type { CommandDataSource } from '../services/whatsappCommandParser'
+
+// Tuesday; the week runs from Monday 14 to Sunday 20 April
+const TODAY = new Date(2025, 3, 15, 9, 0)
+
+const member = (id: string, fields: Partial<Member> = {}): Member => ({
+  id,
+  nama_lengkap: `Anggota ${id}`,
+  nik: '',
+  alamat: '',
+  no_hp: `0812000000${id.slice(-1)}`,
+  status_keanggotaan: 'aktif',
+  tanggal_masuk: '2024-01-01',
+  jabatan: 'anggota',
+  created_at: '2024-01-01',
+  updated_at: '2024-01-01',
+  ...fields
+})
+
+const loan = (id: string, fields: Partial<Loan>): Loan => ({
+  id,
+  member_id: 'm-1',
+  jumlah_pinjaman: 1000000,
+  bunga_persen: 0,
+  tenor_bulan: 10,
+  angsuran_bulanan: 100000,
+  tanggal_pinjaman: '2025-01-17',
+  status: 'aktif',
+  sisa_pinjaman: 1000000,
+  created_at: '2025-01-17',
+  updated_at: '2025-01-17',
+  ...fields
+})
+
+const due = (memberId: string, bulan: number, fields: Partial<Due> = {}): Due => ({
+  id: `d-${memberId}-${bulan}`,
+  member_id: memberId,
+  bulan,
+  tahun: 2025,
+  iuran_wajib: 10000,
+  iuran_sukarela: 0,
+  simpanan_wajib: 20000,
+  tanggal_bayar: '',
+  status: 'belum_lunas',
+  created_at: '2025-01-01',
+  updated_at: '2025-01-01',
+  ...fields
+})
+
+const saving = (memberId: string, amount: number) =>
+  ({ id: `s-${memberId}`, member_id: memberId, type: 'pokok', amount, transaction_date: '2025-01-02' }) as Saving
+
+// m-1: dues for February and March unpaid, installment due on Thursday 17 April
+// m-2: joined this year with large savings; its loan is overdue since March, nothing due this week
+// m-3: two months of dues arrears but no WhatsApp number
+const members = [
+  member('m-1'),
+  member('m-2', { tanggal_masuk: '2025-02-01' }),
+  member('m-3', { no_hp: '', status_keanggotaan: 'non_aktif' })
+]
+
+const loans = [
+  loan('l-1', { sisa_pinjaman: 800000 }),
+  loan('l-2', { member_id: 'm-2', tanggal_pinjaman: '2025-01-10', tenor_bulan: 12, angsuran_bulanan: 50000, sisa_pinjaman: 550000 })
+]
+
+const payments: Record<string, LoanPayment[]> = {
+  'l-1': [{ id: 'p-1', loan_id: 'l-1', total_angsuran: 200000, status: 'lunas' } as unknown as LoanPayment],
+  'l-2': [{ id: 'p-2', loan_id: 'l-2', total_angsuran: 50000, status: 'lunas' } as unknown as LoanPayment]
+}
+
+const dataSource = (dues: Due[]): CommandDataSource => ({
+  findVerifiedMember: async () => null,
+  findUserRole: async () => null,
+  listMembers: async () => members,
+  listSavings: async () => [saving('m-1', 1000000), saving('m-2', 6000000)],
+  listDues: async () => dues,
+  listLoans: async () => loans,
+  listLoanPayments: async loanId => payments[loanId] || [],
+  listLoanSchedule: async () => [],
+  listTransactions: async () => []
+})
+
+const arrears = [due('m-1', 2), due('m-1', 3), due('m-2', 4), due('m-3', 1), due('m-3', 2)]
+
+const preset = (name: string) => SEGMENT_PRESETS.find(item => item.name.startsWith(name)) as AudienceSegment
+
+const ids = (list: Member[]) => list.map(item => item.id)
+
+describe('segment field values', () => {
+  it('derives membership, savings, dues and loan values per member', async () => {
+    const data = await loadBroadcastRecipientData(dataSource(arrears), TODAY)
+
+    expect(segmentFieldValues(members[0], data.valuesForMember('m-1'), TODAY)).toEqual({
+      status_keanggotaan: 'aktif',
+      tahun_masuk: 2024,
+      masuk_tahun_ini: 'tidak',
+      total_simpanan: 1000000,
+      tunggakan_bulan: 2,
+      tunggakan_iuran: 60000,
+      punya_pinjaman: 'ya',
+      sisa_pinjaman: 800000,
+      tunggakan_pinjaman: 0,
+      jatuh_tempo_minggu_ini: 'ya'
+    })
+    expect(segmentFieldValues(members[1], data.valuesForMember('m-2'), TODAY)).toMatchObject({
+      masuk_tahun_ini: 'ya',
+      tunggakan_bulan: 0,
+      punya_pinjaman: 'ya',
+      tunggakan_pinjaman: 100000,
+      jatuh_tempo_minggu_ini: 'tidak'
+    })
+  })
+})
+
+describe('segment evaluation', () => {
+  it('selects the members of the preset segments', async () => {
+    const data = await loadBroadcastRecipientData(dataSource(arrears), TODAY)
+
+    expect(ids(evaluateSegment(preset('Tunggakan iuran'), data, TODAY))).toEqual(['m-1'])
+    expect(ids(evaluateSegment(preset('Angsuran jatuh tempo'), data, TODAY))).toEqual(['m-1'])
+    expect(ids(evaluateSegment(preset('Anggota baru'), data, TODAY))).toEqual(['m-2'])
+    expect(ids(evaluateSegment(preset('Simpanan di atas'), data, TODAY))).toEqual(['m-2'])
+  })
+
+  it('matches any rule when asked to and never selects an empty rule set', async () => {
+    const data = await loadBroadcastRecipientData(dataSource(arrears), TODAY)
+    const segment: Pick<AudienceSegment, 'match' | 'rules'> = {
+      match: 'any',
+      rules: [
+        { field: 'tunggakan_bulan', operator: '>=', value: 2 },
+        { field: 'tunggakan_pinjaman', operator: '>', value: 0 }
+      ]
+    }
+
+    expect(ids(evaluateSegment(segment, data, TODAY))).toEqual(['m-1', 'm-2'])
+    expect(ids(evaluateSegment({ ...segment, match: 'all' }, data, TODAY))).toEqual([])
+    expect(evaluateSegment({ match: 'all', rules: [] }, data, TODAY)).toEqual([])
+  })
+
+  it('follows the member data it is evaluated against', async () => {
+    const segment = preset('Tunggakan iuran')
+    const paid = arrears.map(item => (item.member_id === 'm-1' ? { ...item, status: 'lunas' as const } : item))
+
+    expect(ids(evaluateSegment(segment, await loadBroadcastRecipientData(dataSource(arrears), TODAY), TODAY))).toEqual(['m-1'])
+    expect(ids(evaluateSegment(segment, await loadBroadcastRecipientData(dataSource(paid), TODAY), TODAY))).toEqual([])
+  })
+})
+
+describe('segment validation', () => {
+  it('accepts the presets and reports incomplete segments', () => {
+    SEGMENT_PRESETS.forEach(item => expect(validateSegment(item)).toEqual([]))
+
+    expect(validateSegment({
+      name: ' ',
+      match: 'all',
+      rules: [
+        { field: 'total_simpanan', operator: '>', value: '' },
+        { field: 'punya_pinjaman', operator: '>', value: 'mungkin' }
+      ]
+    })).toEqual([
+      'Nama segmen wajib diisi',
+      'Aturan 1: total simpanan harus berupa angka 0 atau lebih',
+      'Aturan 2: operator > tidak berlaku untuk punya pinjaman aktif',
+      'Aturan 2: pilih nilai untuk punya pinjaman aktif'
+    ])
+    expect(validateSegment({ name: 'Kosong', match: 'all', rules: [] })).toEqual(['Tambahkan minimal satu aturan'])
+  })
+
+  it('describes rules for the segment lists', () => {
+    expect(describeRule({ field: 'total_simpanan', operator: '>', value: 5000000 })).toBe('Total simpanan > Rp 5.000.000')
+    expect(describeRule({ field: 'status_keanggotaan', operator: '!=', value: 'non_aktif' })).toBe('Status keanggotaan bukan Non aktif')
+    expect(describeSegment(preset('Angsuran jatuh tempo')))
+      .toBe('Punya pinjaman aktif: Ya dan Angsuran jatuh tempo minggu ini: Ya')
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import { parseBankStatement, parseStatementAmount, parseStatementDate } from '../utils/bankStatement'
+import { reconcileStatement, ReconciliationRecord } from '../utils/bankReconciliation'
+
+describe('parseStatementAmount', () => {
+  it('reads Indonesian and US notation regardless of the bank default', () => {
+    expect(parseStatementAmount('1.500.000,00', ',')).toEqual({ amount: 1500000, direction: undefined })
+    expect(parseStatementAmount('1,500,000.00', ',')).toEqual({ amount: 1500000, direction: undefined })
+    expect(parseStatementAmount('Rp 25.000', '.')).toEqual({ amount: 25000, direction: undefined })
+    expect(parseStatementAmount('250,000.00 DB')).toEqual({ amount: 250000, direction: 'debit' })
+    expect(parseStatementAmount('100,000.00 CR')).toEqual({ amount: 100000, direction: 'credit' })
+    expect(parseStatementAmount('')).toBeNull()
+  })
+})
+
+describe('parseStatementDate', () => {
+  it('normalizes the date formats used in statement exports', () => {
+    expect(parseStatementDate('05/01/2024')).toBe('2024-01-05')
+    expect(parseStatementDate('05-01-24')).toBe('2024-01-05')
+    expect(parseStatementDate('2024-01-05 10:12:00')).toBe('2024-01-05')
+    expect(parseStatementDate('05 Jan 2024')).toBe('2024-01-05')
+    expect(parseStatementDate('05 Agu 2024')).toBe('2024-08-05')
+    expect(parseStatementDate('05/01', 2023)).toBe('2023-01-05')
+    expect(parseStatementDate('PEND')).toBeNull()
+  })
+})
+
+describe('parseBankStatement', () => {
+  it('skips the account preamble and footer of a BJB export', () => {
+    const rows = [
+      ['Nama Rekening', 'KP2A Cimahi'],
+      ['Periode', '01/01/2024 - 31/01/2024'],
+      [],
+      ['Tanggal', 'Keterangan', 'Debet', 'Kredit', 'Saldo'],
+      ['02/01/2024', 'TRF DARI SITI AMINAH IURAN', '', '50.000,00', '1.050.000,00'],
+      ['03/01/2024', 'BIAYA ADM', '7.500,00', '', '1.042.500,00'],
+      ['', 'Saldo Akhir', '', '', '1.042.500,00']
+    ]
+
+    const result = parseBankStatement(rows, 'bjb')
+
+    expect(result.errors).toEqual([])
+    expect(result.lines).toEqual([
+      { line: 5, date: '2024-01-02', description: 'TRF DARI SITI AMINAH IURAN', amount: 50000, direction: 'credit', balance: 1050000, reference: undefined },
+      { line: 6, date: '2024-01-03', description: 'BIAYA ADM', amount: 7500, direction: 'debit', balance: 1042500, reference: undefined }
+    ])
+  })
+
+  it('reads the single DB/CR amount column and year-less dates of KlikBCA', () => {
+    const rows = [
+      ['Tanggal Transaksi', 'Keterangan', 'Cabang', 'Jumlah', 'Saldo'],
+      ['15/03', 'TRSF E-BANKING CR EUIS ANGSURAN', '0000', '312,500.00 CR', '2,312,500.00'],
+      ['16/03', 'TARIKAN ATM', '0000', '500,000.00 DB', '1,812,500.00']
+    ]
+
+    const result = parseBankStatement(rows, 'bca', 2024)
+
+    expect(result.lines.map(line => [line.date, line.amount, line.direction, line.reference])).toEqual([
+      ['2024-03-15', 312500, 'credit', '0000'],
+      ['2024-03-16', 500000, 'debit', '0000']
+    ])
+  })
+
+  it('reads numeric Excel cells from Mandiri exports', () => {
+    const rows = [
+      ['Posting Date', 'Remark', 'Reference No', 'Debit', 'Credit', 'Balance'],
+      [new Date(2024, 1, 10), 'SETORAN TUNAI', 'REF001', 0, 150000, 650000]
+    ]
+
+    const result = parseBankStatement(rows, 'mandiri')
+
+    expect(result.lines).toHaveLength(1)
+    expect(result.lines[0]).toMatchObject({ date: '2024-02-10', amount: 150000, direction: 'credit', reference: 'REF001' })
+  })
+
+  it('reports rows without a readable amount', () => {
+    const rows = [
+      ['Tanggal Transaksi', 'Uraian Transaksi', 'Debet', 'Kredit'],
+      ['01/02/2024', 'KOREKSI', '', '']
+    ]
+
+    expect(parseBankStatement(rows, 'bri')).toEqual({ lines: [], errors: [{ line: 2, message: 'Nominal tidak terbaca' }] })
+  })
+
+  it('rejects a file from another bank', () => {
+    expect(() => parseBankStatement([['Posting Date', 'Remark']], 'bjb')).toThrow('Bank BJB')
+  })
+})
+
+describe('reconcileStatement', () => {
+  const rows = [
+    ['Tanggal', 'Keterangan', 'Debet', 'Kredit'],
+    ['02/01/2024', 'TRF DARI SITI AMINAH', '', '50.000,00'],
+    ['02/01/2024', 'TRF DARI EUIS', '', '50.000,00'],
+    ['05/01/2024', 'PEMBELIAN ATK', '120.000,00', ''],
+    ['20/01/2024', 'TRF DARI NENENG', '', '75.000,00']
+  ]
+  const lines = parseBankStatement(rows, 'bjb').lines
+
+  const records: ReconciliationRecord[] = [
+    { id: 'd1', source: 'due', date: '2024-01-03', amount: 50000, direction: 'credit', description: 'Iuran 1/2024 Euis Sumarni' },
+    { id: 'd2', source: 'due', date: '2024-01-01', amount: 50000, direction: 'credit', description: 'Iuran 1/2024 Siti Aminah' },
+    { id: 't1', source: 'transaction', date: '2024-01-05', amount: 120000, direction: 'debit', description: 'Pembelian ATK' },
+    { id: 't2', source: 'transaction', date: '2024-01-10', amount: 75000, direction: 'credit', description: 'Sumbangan Neneng' },
+    { id: 'p1', source: 'loan_payment', date: '2024-01-15', amount: 312500, direction: 'credit', description: 'Angsuran ke-2 Euis' }
+  ]
+
+  it('pairs lines and records by amount, date and description', () => {
+    const result = reconcileStatement(lines, records)
+
+    expect(result.matched.map(match => [match.line.description, match.record.id])).toEqual([
+      ['TRF DARI SITI AMINAH', 'd2'],
+      ['TRF DARI EUIS', 'd1'],
+      ['PEMBELIAN ATK', 't1']
+    ])
+    expect(result.matched[2].confidence).toBe(100)
+    expect(result.unmatchedLines.map(line => line.description)).toEqual(['TRF DARI NENENG'])
+    expect(result.unmatchedRecords.map(record => record.id)).toEqual(['t2', 'p1'])
+  })
+
+  it('widens the date window with the tolerance option', () => {
+    const result = reconcileStatement(lines, records, { dateToleranceDays: 10 })
+
+    expect(result.unmatchedLines).toEqual([])
+    expect(result.unmatchedRecords.map(record => record.id)).toEqual(['p1'])
+  })
+
+  it('never matches money moving the other way', () => {
+    const debit: ReconciliationRecord = { ...records[0], direction: 'debit' }
+
+    expect(reconcileStatement(lines.slice(0, 1), [debit]).matched).toEqual([])
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { actualsFromRecords, budgetVariance, BudgetActual } from '../utils/budget'
+import type { Expense } from '../lib/api'
+import type { Transaction } from '../types/transactions'
+
+const transaction = (fields: Partial<Transaction> & { categoryName?: string }) => ({
+  id: 't',
+  transaction_type: 'expense',
+  amount: 0,
+  transaction_date: '2024-01-15',
+  status: 'approved',
+  category: fields.categoryName ? { name: fields.categoryName } : undefined,
+  ...fields
+}) as unknown as Transaction
+
+const expense = (fields: Partial<Expense>) => ({
+  id: 'e',
+  kategori: 'ATK',
+  jumlah: 0,
+  tanggal: '2024-01-15',
+  status_otorisasi: 'approved',
+  ...fields
+}) as Expense
+
+describe('actualsFromRecords', () => {
+  it('collects transactions and Buku Kas entries of the requested year', () => {
+    const actuals = actualsFromRecords(2024, [
+      transaction({ transaction_type: 'income', amount: 500000, categoryName: 'Iuran', transaction_date: '2024-03-10' }),
+      transaction({ amount: 100000, categoryName: 'Listrik', transaction_date: '2023-12-31' })
+    ], [
+      expense({ kategori: 'ATK', jumlah: 75000, tanggal: '2024-02-01' }),
+      expense({ kategori: 'Donasi', jumlah: 200000, type: 'credit' })
+    ])
+
+    expect(actuals).toEqual([
+      { tahun: 2024, bulan: 3, category_type: 'income', category_name: 'Iuran', jumlah: 500000 },
+      { tahun: 2024, bulan: 2, category_type: 'expense', category_name: 'ATK', jumlah: 75000 },
+      { tahun: 2024, bulan: 1, category_type: 'income', category_name: 'Donasi', jumlah: 200000 }
+    ])
+  })
+
+  it('leaves out rejected entries and transfers between kas and bank', () => {
+    const actuals = actualsFromRecords(2024, [
+      transaction({ amount: 100000, categoryName: 'Listrik', status: 'rejected' })
+    ], [
+      expense({ jumlah: 50000, status_otorisasi: 'rejected' }),
+      expense({ kategori: 'Tarik Kas Bank', jumlah: 1000000 })
+    ])
+
+    expect(actuals).toEqual([])
+  })
+})
+
+describe('budgetVariance', () => {
+  const budgets = [
+    { bulan: 1, category_type: 'expense' as const, category_name: 'ATK', jumlah: 100000 },
+    { bulan: 2, category_type: 'expense' as const, category_name: 'ATK', jumlah: 100000 },
+    { bulan: 3, category_type: 'expense' as const, category_name: 'ATK', jumlah: 100000 },
+    { bulan: 1, category_type: 'expense' as const, category_name: 'Listrik', jumlah: 500000 },
+    { bulan: 1, category_type: 'income' as const, category_name: 'Iuran', jumlah: 1000000 }
+  ]
+  const actual = (category_type: 'income' | 'expense', category_name: string, bulan: number, jumlah: number): BudgetActual =>
+    ({ tahun: 2024, bulan, category_type, category_name, jumlah })
+
+  it('sums budget and actual up to the given month', () => {
+    const [, atk] = budgetVariance(budgets, [actual('expense', 'atk', 1, 80000), actual('expense', 'ATK', 3, 90000)], 2)
+
+    expect(atk).toMatchObject({ category_name: 'ATK', budget: 200000, actual: 80000, variance: 120000, usage: 40, status: 'on_track' })
+    expect(atk.monthly[2]).toEqual({ bulan: 3, budget: 100000, actual: 90000 })
+  })
+
+  it('warns near the budget and flags overruns and unbudgeted spending', () => {
+    const rows = budgetVariance(budgets, [
+      actual('expense', 'ATK', 1, 280000),
+      actual('expense', 'Listrik', 1, 600000),
+      actual('expense', 'Konsumsi', 1, 50000)
+    ])
+    const status = Object.fromEntries(rows.map(row => [row.category_name, row.status]))
+
+    expect(status).toEqual({ Iuran: 'on_track', ATK: 'warning', Konsumsi: 'over', Listrik: 'over' })
+    expect(rows.find(row => row.category_name === 'Konsumsi')?.usage).toBeNull()
+    expect(rows.find(row => row.category_name === 'Listrik')?.variance).toBe(-100000)
+  })
+
+  it('lists income first and counts income above target as positive', () => {
+    const rows = budgetVariance(budgets, [actual('income', 'Iuran', 1, 1200000)])
+
+    expect(rows.map(row => row.category_type)).toEqual(['income', 'expense', 'expense'])
+    expect(rows[0]).toMatchObject({ variance: 200000, usage: 120, status: 'on_track' })
+  })
+})
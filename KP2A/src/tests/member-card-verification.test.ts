@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeAll } from 'vitest'
+import { canonicalCardData, verifyMemberCard, SignedMemberCard } from '../utils/memberCardVerification'
+import type { MemberCardTrust } from '../lib/api'
+
+const toBase64Url = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+let trust: MemberCardTrust
+let card: SignedMemberCard
+
+describe('member card verification', () => {
+  beforeAll(async () => {
+    const keys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify'])
+    trust = {
+      kid: 'kp2a-test',
+      alg: 'ES256',
+      public_key: await crypto.subtle.exportKey('jwk', keys.publicKey),
+      revoked: [],
+      generated_at: '2026-01-01T00:00:00.000Z'
+    }
+
+    const data = {
+      v: 1,
+      kid: 'kp2a-test',
+      serial: 'A1B2C3D4E5',
+      memberId: 'member-1',
+      memberName: 'Siti Aminah',
+      idAnggota: 'KP2A-001',
+      issuedAt: '2026-01-01',
+      expiresAt: '2029-01-01'
+    }
+    const sig = await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      keys.privateKey,
+      new TextEncoder().encode(canonicalCardData(data))
+    )
+    card = { ...data, sig: toBase64Url(sig) }
+  })
+
+  const now = new Date('2026-06-01T00:00:00Z')
+
+  it('accepts a card signed by the cooperative key', async () => {
+    expect(await verifyMemberCard(card, trust, now)).toEqual({ valid: true })
+  })
+
+  it('rejects a card whose data was edited', async () => {
+    const forged = { ...card, memberName: 'Orang Lain' }
+    expect((await verifyMemberCard(forged, trust, now)).valid).toBe(false)
+  })
+
+  it('rejects revoked serials', async () => {
+    const verdict = await verifyMemberCard(card, { ...trust, revoked: [card.serial] }, now)
+    expect(verdict.valid).toBe(false)
+    expect(verdict.reason).toContain('revoked')
+  })
+
+  it('rejects expired cards and unknown keys', async () => {
+    expect((await verifyMemberCard(card, trust, new Date('2029-01-02T00:00:00Z'))).valid).toBe(false)
+    expect((await verifyMemberCard({ ...card, kid: 'other' }, trust, now)).valid).toBe(false)
+  })
+})
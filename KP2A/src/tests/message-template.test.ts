@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../lib/repositories', () => ({ repositories: {} }))
+
+import {
+  hasTemplateTags,
+  renderTemplate,
+  TemplateError,
+  templateVariableNames,
+  validateTemplate
+} from '../lib/template'
+import { BROADCAST_VARIABLES, memberTemplateValues } from '../services/broadcastTemplates'
+import { loanStatus } from '../services/whatsappCommandParser'
+import type { Due, Loan, LoanPayment, Member } from '../lib/api'
+
+const values = {
+  nama: 'Siti Aminah',
+  sisa_pinjaman: 1500000,
+  jatuh_tempo: '2025-05-10',
+  tunggakan_bulan: 2,
+  pinjaman: [
+    { sisa_pinjaman: 1000000, jatuh_tempo: '2025-05-10' },
+    { sisa_pinjaman: 500000, jatuh_tempo: '2025-05-17' }
+  ]
+}
+
+describe('template rendering', () => {
+  it('fills variables through formatters', () => {
+    expect(renderTemplate('Halo {{nama | besar}}, sisa {{sisa_pinjaman | rupiah}} jatuh tempo {{jatuh_tempo | tanggal}}', values))
+      .toBe('Halo SITI AMINAH, sisa Rp 1.500.000 jatuh tempo 10 Mei 2025')
+  })
+
+  it('chooses branches by truthiness and comparisons', () => {
+    const template = '{{#if tunggakan_bulan > 1}}Tunggakan {{tunggakan_bulan}} bulan{{else}}Lancar{{/if}}'
+
+    expect(renderTemplate(template, values)).toBe('Tunggakan 2 bulan')
+    expect(renderTemplate(template, { tunggakan_bulan: 1 })).toBe('Lancar')
+    expect(renderTemplate('{{#unless sisa_pinjaman}}Tidak ada pinjaman{{/unless}}', { sisa_pinjaman: 0 })).toBe('Tidak ada pinjaman')
+  })
+
+  it('repeats loops per item with the item fields and outer variables in scope', () => {
+    const template = [
+      'Pinjaman {{nama}}:',
+      '{{#each pinjaman}}',
+      '{{@nomor}}. {{sisa_pinjaman | rupiah}} ({{jatuh_tempo | tanggal}})',
+      '{{else}}',
+      'Tidak ada',
+      '{{/each}}',
+      'Terima kasih'
+    ].join('\n')
+
+    expect(renderTemplate(template, values)).toBe(
+      'Pinjaman Siti Aminah:\n1. Rp 1.000.000 (10 Mei 2025)\n2. Rp 500.000 (17 Mei 2025)\nTerima kasih'
+    )
+    expect(renderTemplate(template, { nama: 'Budi', pinjaman: [] })).toBe('Pinjaman Budi:\nTidak ada\nTerima kasih')
+  })
+
+  it('renders missing values with the given placeholder', () => {
+    expect(renderTemplate('Jatuh tempo: {{jatuh_tempo | tanggal}}', {}, { missing: '-' })).toBe('Jatuh tempo: -')
+  })
+
+  it('rejects malformed templates', () => {
+    expect(() => renderTemplate('{{#if nama}}Halo', values)).toThrow(TemplateError)
+    expect(() => renderTemplate('Halo {{nama', values)).toThrow('tidak ditutup')
+    expect(() => renderTemplate('{{/each}}', values)).toThrow('tanpa blok pembuka')
+    expect(() => renderTemplate('{{nama | mata_uang}}', values)).toThrow('Format "mata_uang" tidak dikenal')
+  })
+})
+
+describe('template validation', () => {
+  it('accepts templates that only use known variables', () => {
+    const template = 'Halo {{nama}}\n{{#each pinjaman}}{{@nomor}}. {{sisa_pinjaman | rupiah}}\n{{/each}}{{#if tunggakan_bulan > 0}}{{tunggakan_iuran | rupiah}}{{/if}}'
+
+    expect(validateTemplate(template, BROADCAST_VARIABLES)).toEqual([])
+    expect(templateVariableNames(template, BROADCAST_VARIABLES)).toEqual(['nama', 'pinjaman', 'tunggakan_bulan', 'tunggakan_iuran'])
+  })
+
+  it('reports unknown variables and misused lists with their line', () => {
+    const issues = validateTemplate('Halo {{nama_lengkap}}\n{{pinjaman}}\n{{#each nama}}x{{/each}}\n{{@nomor}}', BROADCAST_VARIABLES)
+
+    expect(issues.map(issue => [issue.line, issue.message])).toEqual([
+      [1, 'Variabel {{nama_lengkap}} tidak dikenal'],
+      [2, '{{pinjaman}} berisi daftar; tampilkan dengan {{#each pinjaman}}'],
+      [3, '{{#each nama}} membutuhkan variabel daftar'],
+      [4, '{{@nomor}} hanya dapat dipakai di dalam {{#each}}']
+    ])
+  })
+
+  it('reports syntax errors instead of throwing', () => {
+    expect(validateTemplate('Halo\n{{#if nama}}', BROADCAST_VARIABLES)).toEqual([
+      expect.objectContaining({ message: expect.stringContaining('{{/if}}') })
+    ])
+    expect(hasTemplateTags('Halo semua')).toBe(false)
+    expect(hasTemplateTags('Halo {{nama}}')).toBe(true)
+  })
+})
+
+describe('member template values', () => {
+  it('derives loan and dues arrears variables from member data', () => {
+    const today = new Date(2025, 3, 15)
+    const member = { id: 'm-1', nama_lengkap: 'Siti Aminah', no_hp: '0812-1111-1111', id_anggota: 'A001' } as Member
+    const loan = {
+      id: 'l-1', member_id: 'm-1', jumlah_pinjaman: 1000000, angsuran_bulanan: 100000, tenor_bulan: 10,
+      tanggal_pinjaman: '2025-01-17', status: 'aktif', sisa_pinjaman: 800000
+    } as Loan
+    const payments = [{ id: 'p-1', loan_id: 'l-1', total_angsuran: 200000, status: 'lunas' }] as unknown as LoanPayment[]
+    const dues = [
+      { member_id: 'm-1', bulan: 2, tahun: 2025, iuran_wajib: 10000, simpanan_wajib: 20000, status: 'belum_lunas' },
+      { member_id: 'm-1', bulan: 4, tahun: 2025, iuran_wajib: 10000, simpanan_wajib: 20000, status: 'belum_lunas' }
+    ] as Due[]
+
+    const result = memberTemplateValues(member, { loans: [loanStatus(loan, payments, today)], dues, savings: [] }, today)
+
+    expect(result).toMatchObject({
+      nama: 'Siti Aminah',
+      no_hp: '6281211111111',
+      no_anggota: 'A001',
+      sisa_pinjaman: 800000,
+      jatuh_tempo: '2025-04-17',
+      tunggakan_bulan: 1,
+      tunggakan_iuran: 30000,
+      iuran_tertunggak: [{ bulan: 'Februari 2025', jumlah: 30000 }]
+    })
+    expect(renderTemplate('{{#if tunggakan_bulan}}Iuran {{tunggakan_bulan}} bulan{{/if}}', result)).toBe('Iuran 1 bulan')
+  })
+})
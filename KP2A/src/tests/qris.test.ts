@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildTlv,
+  crc16,
+  generateDynamicQris,
+  installmentReference,
+  parseInstallmentReference,
+  parseQris
+} from '../utils/qris'
+import { validatePaymentQR } from '../utils/scannerSecurity'
+
+const withCrc = (body: string) => body + '6304' + crc16(body + '6304')
+
+const STATIC_QRIS = withCrc(
+  buildTlv('00', '01') +
+  buildTlv('01', '11') +
+  buildTlv('26', buildTlv('00', 'ID.CO.BANKBJB.WWW') + buildTlv('01', '9360011000001234567') + buildTlv('02', '001234567') + buildTlv('03', 'UMI')) +
+  buildTlv('51', buildTlv('00', 'ID.CO.QRIS.WWW') + buildTlv('02', 'ID1024123456789') + buildTlv('03', 'UMI')) +
+  buildTlv('52', '8699') +
+  buildTlv('53', '360') +
+  buildTlv('58', 'ID') +
+  buildTlv('59', 'KP2A SIDARSIH') +
+  buildTlv('60', 'CIMAHI') +
+  buildTlv('61', '40511')
+)
+
+describe('QRIS', () => {
+  it('computes CRC16-CCITT', () => {
+    expect(crc16('123456789')).toBe('29B1')
+  })
+
+  it('parses a static QRIS', () => {
+    const result = parseQris(STATIC_QRIS)
+    expect(result.errors).toEqual([])
+    expect(result.data).toMatchObject({
+      initiation: 'static',
+      merchantName: 'KP2A SIDARSIH',
+      merchantCity: 'CIMAHI',
+      nmid: 'ID1024123456789',
+      mcc: '8699',
+      amount: undefined
+    })
+  })
+
+  it('rejects a payload whose checksum does not match', () => {
+    const tampered = STATIC_QRIS.replace('CIMAHI', 'BANDUN')
+    const result = parseQris(tampered)
+    expect(result.isValid).toBe(false)
+    expect(result.errors).toContain('CRC checksum mismatch')
+  })
+
+  it('generates a dynamic QRIS for an installment', () => {
+    const reference = installmentReference('3f2a9c1e-7b4d-4e8a-9c1f-000000000000', 4)
+    const payload = generateDynamicQris(STATIC_QRIS, { amount: 525000, referenceLabel: reference, purpose: 'Angsuran ke-4' })
+    const result = parseQris(payload)
+
+    expect(result.isValid).toBe(true)
+    expect(result.data).toMatchObject({
+      initiation: 'dynamic',
+      amount: 525000,
+      referenceLabel: 'KP2A-3F2A9C1E-4',
+      nmid: 'ID1024123456789'
+    })
+    expect(parseInstallmentReference(result.data?.referenceLabel)).toEqual({ loanPrefix: '3f2a9c1e', installmentNumber: 4 })
+  })
+
+  it('lets validatePaymentQR accept QRIS as well as JSON', () => {
+    const dynamic = generateDynamicQris(STATIC_QRIS, { amount: 10000 })
+    expect(validatePaymentQR(dynamic).parsedData).toMatchObject({ format: 'qris', amount: 10000, merchant_id: 'ID1024123456789' })
+    expect(validatePaymentQR(JSON.stringify({ amount: 10000, currency: 'IDR', recipient: 'KP2A' })).isValid).toBe(true)
+  })
+})
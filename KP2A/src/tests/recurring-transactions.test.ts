@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { RecurringTransaction } from '../types/transactions'
+
+const mocks = vi.hoisted(() => ({
+  listTemplates: vi.fn(),
+  updateTemplate: vi.fn(),
+  listTransactions: vi.fn(),
+  createTransaction: vi.fn()
+}))
+
+vi.mock('../lib/repositories', () => ({
+  repositories: {
+    recurringTransactions: { list: mocks.listTemplates, update: mocks.updateTemplate },
+    transactions: { list: mocks.listTransactions, create: mocks.createTransaction }
+  }
+}))
+
+import {
+  dueOccurrences,
+  generateRecurringTransactions,
+  occurrenceAfter,
+  occurrenceDate,
+  rescheduledNextDue,
+  resumeChanges,
+  skipNextChanges,
+  skippedOccurrences,
+  transactionFromTemplate,
+  upcomingObligations
+} from '../utils/recurringTransactions'
+
+const template = (fields: Partial<RecurringTransaction> = {}): RecurringTransaction => ({
+  id: 'rt-1',
+  name: 'Sewa sekretariat',
+  transaction_type: 'expense',
+  amount: 1500000,
+  category_id: 'cat-1',
+  payment_method_id: 'pm-1',
+  frequency: 'monthly',
+  start_date: '2025-01-31',
+  end_date: null,
+  next_due_date: '2025-01-31',
+  last_generated_date: null,
+  skipped_dates: [],
+  is_active: true,
+  created_by: 'user-1',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  ...fields
+})
+
+describe('schedule', () => {
+  it('keeps the day of month and clamps it to shorter months', () => {
+    expect(occurrenceDate('2025-01-31', 'monthly', 1)).toBe('2025-02-28')
+    expect(occurrenceDate('2025-01-31', 'monthly', 2)).toBe('2025-03-31')
+    expect(occurrenceDate('2024-11-30', 'quarterly', 1)).toBe('2025-02-28')
+    expect(occurrenceDate('2024-02-29', 'yearly', 1)).toBe('2025-02-28')
+  })
+
+  it('finds the first occurrence after a date', () => {
+    const schedule = { start_date: '2025-01-10', frequency: 'quarterly' as const }
+    expect(occurrenceAfter(schedule, '2024-12-31')).toBe('2025-01-10')
+    expect(occurrenceAfter(schedule, '2025-01-10')).toBe('2025-04-10')
+  })
+
+  it('lists due occurrences up to today and stops at the end date', () => {
+    expect(dueOccurrences(template(), '2025-03-31')).toEqual(['2025-01-31', '2025-02-28', '2025-03-31'])
+    expect(dueOccurrences(template({ end_date: '2025-02-28' }), '2025-03-31')).toEqual(['2025-01-31', '2025-02-28'])
+    expect(dueOccurrences(template(), '2025-01-30')).toEqual([])
+  })
+})
+
+describe('dashboard lists', () => {
+  it('shows obligations of active templates within the window, overdue first', () => {
+    const templates = [
+      template({ next_due_date: '2025-02-28' }),
+      template({ id: 'rt-2', name: 'Internet', start_date: '2025-01-05', next_due_date: '2025-03-05' }),
+      template({ id: 'rt-3', name: 'Dijeda', is_active: false, next_due_date: '2025-03-01' })
+    ]
+
+    const upcoming = upcomingObligations(templates, '2025-03-01', 30)
+
+    expect(upcoming.map(item => [item.template.name, item.due_date, item.days_until])).toEqual([
+      ['Sewa sekretariat', '2025-02-28', -1],
+      ['Internet', '2025-03-05', 4],
+      ['Sewa sekretariat', '2025-03-31', 30]
+    ])
+  })
+
+  it('reports recently skipped occurrences and periods missed while paused', () => {
+    const templates = [
+      template({ skipped_dates: ['2024-10-31', '2025-02-28'], next_due_date: '2025-03-31' }),
+      template({ id: 'rt-2', name: 'Internet', start_date: '2025-01-05', next_due_date: '2025-02-05', is_active: false })
+    ]
+
+    const skipped = skippedOccurrences(templates, '2025-03-10', 90)
+
+    expect(skipped.map(item => [item.template.name, item.due_date, item.reason])).toEqual([
+      ['Internet', '2025-03-05', 'paused'],
+      ['Sewa sekretariat', '2025-02-28', 'skipped'],
+      ['Internet', '2025-02-05', 'paused']
+    ])
+  })
+})
+
+describe('template changes', () => {
+  it('skips the next occurrence', () => {
+    expect(skipNextChanges(template({ next_due_date: '2025-02-28' }))).toEqual({
+      skipped_dates: ['2025-02-28'],
+      next_due_date: '2025-03-31'
+    })
+  })
+
+  it('records periods missed while paused as skipped on resume but keeps one due today', () => {
+    const paused = template({ is_active: false, next_due_date: '2025-01-31' })
+
+    expect(resumeChanges(paused, '2025-03-31')).toEqual({
+      is_active: true,
+      skipped_dates: ['2025-01-31', '2025-02-28'],
+      next_due_date: '2025-03-31'
+    })
+    expect(resumeChanges(paused, '2025-01-20')).toEqual({ is_active: true })
+  })
+
+  it('reschedules after the last handled occurrence', () => {
+    const schedule = { start_date: '2025-01-15', frequency: 'monthly' as const }
+    expect(rescheduledNextDue(schedule, { last_generated_date: '2025-02-28', skipped_dates: ['2025-03-31'] })).toBe('2025-04-15')
+    expect(rescheduledNextDue(schedule, { last_generated_date: null, skipped_dates: [] })).toBe('2025-01-15')
+  })
+
+  it('builds a pending transaction for the period', () => {
+    expect(transactionFromTemplate(template({ frequency: 'quarterly' }), '2025-04-30', 'user-2')).toMatchObject({
+      amount: 1500000,
+      transaction_date: '2025-04-30',
+      description: 'Sewa sekretariat - Triwulan II 2025',
+      status: 'pending',
+      created_by: 'user-2',
+      recurring_transaction_id: 'rt-1'
+    })
+  })
+})
+
+describe('generateRecurringTransactions', () => {
+  beforeEach(() => {
+    Object.values(mocks).forEach(mock => mock.mockReset())
+    mocks.updateTemplate.mockResolvedValue({ data: {} })
+    mocks.createTransaction.mockResolvedValue({ data: {} })
+  })
+
+  it('creates pending transactions for due occurrences not generated yet and advances the template', async () => {
+    mocks.listTemplates.mockResolvedValue({ data: [template()] })
+    mocks.listTransactions.mockResolvedValue({ data: [{ transaction_date: '2025-01-31' }] })
+
+    const result = await generateRecurringTransactions('user-1', '2025-03-05')
+
+    expect(result).toEqual({ created: 1, failed: [] })
+    expect(mocks.createTransaction).toHaveBeenCalledTimes(1)
+    expect(mocks.createTransaction.mock.calls[0][0]).toMatchObject({ transaction_date: '2025-02-28', status: 'pending' })
+    expect(mocks.updateTemplate).toHaveBeenCalledWith('rt-1', { next_due_date: '2025-03-31', last_generated_date: '2025-02-28' })
+  })
+
+  it('stops a template at the first failed occurrence and only advances past what was created', async () => {
+    mocks.listTemplates.mockResolvedValue({ data: [template()] })
+    mocks.listTransactions.mockResolvedValue({ data: [] })
+    mocks.createTransaction
+      .mockResolvedValueOnce({ data: {} })
+      .mockResolvedValueOnce({ error: 'Kategori tidak aktif', status: 400 })
+
+    const result = await generateRecurringTransactions('user-1', '2025-03-31')
+
+    expect(result.created).toBe(1)
+    expect(result.failed.map(failure => failure.error)).toEqual(['Kategori tidak aktif'])
+    expect(mocks.updateTemplate).toHaveBeenCalledWith('rt-1', { next_due_date: '2025-02-28', last_generated_date: '2025-01-31' })
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createRepositories, resolveDataBackend } from '../lib/repositories'
+
+const jsonResponse = (status: number, body: unknown) =>
+  Promise.resolve(new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } }))
+
+describe('repositories', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('selects the backend from configuration', () => {
+    expect(resolveDataBackend(undefined)).toBe('mysql')
+    expect(resolveDataBackend('Supabase')).toBe('supabase')
+    expect(resolveDataBackend('indexeddb')).toBe('indexeddb')
+    expect(resolveDataBackend('oracle')).toBe('mysql')
+  })
+
+  it('sends the expected version to the MySQL backend and reports conflicts', async () => {
+    const current = { id: 'due-1', version: 3 }
+    const fetchMock = vi.fn(() => jsonResponse(409, { error: 'Data sudah diubah', conflict: true, current }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const { dues } = createRepositories('mysql')
+    const result = await dues.update('due-1', { iuran_wajib: 50000 }, 2)
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toContain('/api/dues/due-1')
+    expect(JSON.parse(String(init.body))).toMatchObject({ iuran_wajib: 50000, expected_version: 2 })
+    expect(result).toMatchObject({ status: 409, current })
+  })
+
+  it('flags requests that never reached the server as offline', async () => {
+    vi.stubGlobal('fetch', vi.fn(() => Promise.reject(new TypeError('Failed to fetch'))))
+
+    const result = await createRepositories('mysql').loanPayments.remove('loan-1', 'payment-1', 1)
+
+    expect(result.offline).toBe(true)
+    expect(result.data).toBeUndefined()
+  })
+
+  it('lists transactions from the MySQL backend with their filters', async () => {
+    const fetchMock = vi.fn(() => jsonResponse(200, []))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await createRepositories('mysql').transactions.list({ status: 'approved', recurring_transaction_id: 'rt-1' })
+
+    const [url] = fetchMock.mock.calls[0] as unknown as [string]
+    expect(url).toContain('/api/transactions?status=approved&recurring_transaction_id=rt-1')
+    expect(result.data).toEqual([])
+  })
+
+  it('lists transaction categories of one type from the MySQL backend', async () => {
+    const fetchMock = vi.fn(() => jsonResponse(200, []))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await createRepositories('mysql').transactionCategories.list({ type: 'expense', is_active: true })
+
+    const [url] = fetchMock.mock.calls[0] as unknown as [string]
+    expect(url).toContain('/api/transactions/categories?type=expense&is_active=true')
+  })
+
+  it('lists the payments of every loan in one request when no loan is given', async () => {
+    const fetchMock = vi.fn(() => jsonResponse(200, []))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await createRepositories('mysql').loanPayments.list()
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    const [url] = fetchMock.mock.calls[0] as unknown as [string]
+    expect(url).toContain('/api/loans/payments')
+  })
+
+  it('lists active recurring transaction templates from the MySQL backend', async () => {
+    const fetchMock = vi.fn(() => jsonResponse(200, []))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const result = await createRepositories('mysql').recurringTransactions.list({ is_active: true })
+
+    const [url] = fetchMock.mock.calls[0] as unknown as [string]
+    expect(url).toContain('/api/transactions/recurring?is_active=true')
+    expect(result.data).toEqual([])
+  })
+
+  it('lists verified WhatsApp numbers and loan schedules from the MySQL backend', async () => {
+    const schedule = [{ angsuran_ke: 1, due_date: '2025-02-10', pokok: 500000, bunga: 30000, total: 530000, sisa_pokok: 2500000 }]
+    const fetchMock = vi.fn((url: string) => jsonResponse(200, url.includes('/schedule') ? { schedule, sisa_tagihan: 530000 } : []))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const repositories = createRepositories('mysql')
+    await repositories.whatsappVerifications.list({ is_verified: true })
+    const result = await repositories.loanSchedules.list('loan-1')
+
+    const [url] = fetchMock.mock.calls[0] as unknown as [string]
+    expect(url).toContain('/api/whatsapp-bot/verifications?is_verified=true')
+    expect(result.data).toEqual(schedule)
+  })
+})
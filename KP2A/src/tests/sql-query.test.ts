@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { parseSelect, runQuery, SqlError } from '../lib/query'
+import type { QueryRow, TableLoader } from '../lib/query'
+
+const TABLES: Record<string, QueryRow[]> = {
+  members: [
+    { id: 'm1', nama_lengkap: 'Siti', status_keanggotaan: 'aktif' },
+    { id: 'm2', nama_lengkap: 'Euis', status_keanggotaan: 'aktif' },
+    { id: 'm3', nama_lengkap: 'Neneng', status_keanggotaan: 'non_aktif' }
+  ],
+  dues: [
+    { id: 'd1', member_id: 'm1', tahun: 2024, iuran_wajib: '50000.00', status: 'lunas' },
+    { id: 'd2', member_id: 'm1', tahun: 2024, iuran_wajib: '50000.00', status: 'lunas' },
+    { id: 'd3', member_id: 'm2', tahun: 2024, iuran_wajib: '50000.00', status: 'belum_lunas' },
+    { id: 'd4', member_id: 'm2', tahun: 2023, iuran_wajib: '25000.00', status: 'lunas' }
+  ]
+}
+
+const loader: TableLoader = async (table) => {
+  if (!TABLES[table]) throw new SqlError(`Tabel ${table} tidak tersedia`)
+  return TABLES[table]
+}
+
+const run = (sql: string) => runQuery(sql, loader)
+
+describe('SQL Editor query engine', () => {
+  it('rejects anything other than a single SELECT', () => {
+    expect(() => parseSelect('DELETE FROM members')).toThrow(/Hanya query SELECT/)
+    expect(() => parseSelect('UPDATE members SET nama_lengkap = \'x\'')).toThrow(SqlError)
+    expect(() => parseSelect('SELECT * FROM members; DROP TABLE members')).toThrow(SqlError)
+    expect(() => parseSelect('SELECT * FROM members; SELECT * FROM dues')).toThrow(/satu query/)
+    expect(() => parseSelect('SELECT * FROM members WHERE id IN (SELECT member_id FROM dues)')).toThrow(/Subquery/)
+    expect(() => parseSelect('SELECT sleep(5) FROM members')).toThrow(/tidak didukung/)
+  })
+
+  it('ignores comments and a trailing semicolon', () => {
+    const statement = parseSelect('-- semua anggota\nSELECT /* kolom */ nama_lengkap FROM members;')
+    expect(statement.from.name).toBe('members')
+    expect(statement.columns).toHaveLength(1)
+  })
+
+  it('filters with WHERE and sorts with ORDER BY and LIMIT', async () => {
+    const result = await run("SELECT nama_lengkap FROM members WHERE status_keanggotaan = 'aktif' ORDER BY nama_lengkap LIMIT 1")
+    expect(result.columns).toEqual(['nama_lengkap'])
+    expect(result.rows).toEqual([{ nama_lengkap: 'Euis' }])
+  })
+
+  it('joins tables and aggregates per group', async () => {
+    const result = await run(`
+      SELECT m.nama_lengkap AS nama, COUNT(*) AS jumlah, SUM(d.iuran_wajib) AS total
+      FROM members m
+      JOIN dues d ON d.member_id = m.id
+      WHERE d.status = 'lunas'
+      GROUP BY m.nama_lengkap
+      ORDER BY total DESC
+    `)
+    expect(result.columns).toEqual(['nama', 'jumlah', 'total'])
+    expect(result.rows).toEqual([
+      { nama: 'Siti', jumlah: 2, total: 100000 },
+      { nama: 'Euis', jumlah: 1, total: 25000 }
+    ])
+  })
+
+  it('keeps unmatched rows of a LEFT JOIN and filters groups with HAVING', async () => {
+    const result = await run(`
+      SELECT m.nama_lengkap, COUNT(d.id) AS jumlah
+      FROM members m LEFT JOIN dues d ON d.member_id = m.id
+      GROUP BY m.id
+      HAVING COUNT(d.id) < 2 OR m.nama_lengkap LIKE 'si%'
+      ORDER BY 2, 1
+    `)
+    expect(result.rows).toEqual([
+      { nama_lengkap: 'Neneng', jumlah: 0 },
+      { nama_lengkap: 'Siti', jumlah: 2 }
+    ])
+  })
+
+  it('summarises everything into one row without GROUP BY', async () => {
+    const result = await run('SELECT COUNT(DISTINCT member_id) AS anggota, MAX(tahun) AS terakhir FROM dues WHERE tahun BETWEEN 2023 AND 2024')
+    expect(result.rows).toEqual([{ anggota: 2, terakhir: 2024 }])
+  })
+
+  it('reports unknown tables and ambiguous columns', async () => {
+    await expect(run('SELECT * FROM users')).rejects.toThrow(/users/)
+    await expect(run('SELECT id FROM members m JOIN dues d ON d.member_id = m.id')).rejects.toThrow(/lebih dari satu tabel/)
+    await expect(run('SELECT nama FROM members')).rejects.toThrow(/tidak ditemukan/)
+  })
+})
@@ -0,0 +1,228 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { Due, Loan, LoanPayment, LoanScheduleRow, Member, Saving } from '../lib/api'
+
+vi.mock('../lib/repositories', () => ({ repositories: {} }))
+
+import {
+  CommandDataSource,
+  loanStatus,
+  normalizePhoneNumber,
+  savingsBalance,
+  WhatsAppCommandParser
+} from '../services/whatsappCommandParser'
+
+const member = (fields: Partial<Member> = {}): Member => ({
+  id: 'm-1',
+  id_anggota: 'A001',
+  nama_lengkap: 'Siti Aminah',
+  nik: '3277000000000001',
+  alamat: 'Cimahi',
+  no_hp: '081211111111',
+  status_keanggotaan: 'aktif',
+  tanggal_masuk: '2023-01-15',
+  jabatan: 'Anggota',
+  created_at: '2023-01-15T00:00:00Z',
+  updated_at: '2023-01-15T00:00:00Z',
+  ...fields
+})
+
+const saving = (type: string, amount: number, date = '2025-01-10'): Saving => ({
+  id: `s-${type}-${date}`,
+  member_id: 'm-1',
+  type,
+  amount,
+  transaction_date: date,
+  created_at: date,
+  updated_at: date
+})
+
+const due = (fields: Partial<Due>): Due => ({
+  id: 'd-1',
+  member_id: 'm-1',
+  bulan: 2,
+  tahun: 2025,
+  iuran_wajib: 0,
+  iuran_sukarela: 10000,
+  simpanan_wajib: 50000,
+  tanggal_bayar: '2025-02-05',
+  status: 'lunas',
+  created_at: '2025-02-01',
+  updated_at: '2025-02-01',
+  ...fields
+} as Due)
+
+const loan = (fields: Partial<Loan> = {}): Loan => ({
+  id: 'l-1',
+  member_id: 'm-1',
+  jumlah_pinjaman: 3000000,
+  bunga_persen: 1,
+  tenor_bulan: 6,
+  angsuran_bulanan: 530000,
+  tanggal_pinjaman: '2025-01-10',
+  status: 'aktif',
+  sisa_pinjaman: 2470000,
+  created_at: '2025-01-10',
+  updated_at: '2025-01-10',
+  ...fields
+})
+
+const payment = (angsuranKe: number, total: number, status: LoanPayment['status'] = 'lunas'): LoanPayment => ({
+  id: `p-${angsuranKe}`,
+  loan_id: 'l-1',
+  angsuran_ke: angsuranKe,
+  angsuran_pokok: 500000,
+  angsuran_bunga: 30000,
+  total_angsuran: total,
+  sisa_angsuran: 0,
+  tanggal_bayar: `2025-0${angsuranKe + 1}-10`,
+  status,
+  created_at: '2025-02-10'
+})
+
+const dataSource = (fields: Partial<CommandDataSource> = {}): CommandDataSource => ({
+  findVerifiedMember: async phone => (normalizePhoneNumber(phone) === '6281211111111' ? member() : null),
+  findUserRole: async () => 'anggota',
+  listMembers: async () => [member()],
+  listSavings: async () => [saving('pokok', 100000), saving('wajib', 50000), saving('dana_pinjaman', 200000)],
+  listDues: async () => [due({}), due({ id: 'd-2', bulan: 3, status: 'belum_lunas', tanggal_bayar: '' })],
+  listLoans: async () => [loan()],
+  listLoanPayments: async () => [payment(1, 530000)],
+  listLoanSchedule: async () => [],
+  listTransactions: async () => [],
+  ...fields
+})
+
+const today = () => new Date(2025, 3, 15)
+
+describe('normalizePhoneNumber', () => {
+  it('writes local and international numbers the same way', () => {
+    expect(normalizePhoneNumber('0812-1111-1111')).toBe('6281211111111')
+    expect(normalizePhoneNumber('+62 812-1111-1111')).toBe('6281211111111')
+    expect(normalizePhoneNumber('81211111111')).toBe('6281211111111')
+  })
+})
+
+describe('savingsBalance', () => {
+  it('adds paid dues to wajib and sukarela and keeps the loan fund apart', () => {
+    const balance = savingsBalance(
+      [saving('pokok', 100000), saving('wajib', 50000, '2025-01-20'), saving('dana_pinjaman', 200000)],
+      [due({}), due({ id: 'd-2', status: 'belum_lunas', tanggal_bayar: '' })]
+    )
+
+    expect(balance).toEqual({
+      pokok: 100000,
+      wajib: 100000,
+      sukarela: 10000,
+      danaPinjaman: 200000,
+      lainnya: 0,
+      total: 410000,
+      lastUpdate: '2025-02-05'
+    })
+  })
+})
+
+describe('loanStatus', () => {
+  it('counts installments due since the loan date that are not paid as arrears', () => {
+    const status = loanStatus(loan(), [payment(1, 530000), payment(2, 530000, 'belum_lunas')], today())
+
+    expect(status.paidInstallments).toBe(1)
+    expect(status.nextDueDate).toBe('2025-03-10')
+    // Installments of 10 Feb, 10 Mar and 10 Apr are due, one is paid
+    expect(status.arrears).toBe(1060000)
+  })
+
+  it('does not report arrears beyond the remaining principal', () => {
+    const status = loanStatus(loan({ sisa_pinjaman: 100000 }), [], new Date(2026, 0, 1))
+
+    expect(status.arrears).toBe(100000)
+  })
+
+  it('follows the persisted schedule when the installments differ', () => {
+    // efektif: the interest, and so the installment, goes down as the principal is repaid
+    const row = (angsuranKe: number, total: number, paid: number, status: LoanScheduleRow['status']): LoanScheduleRow => ({
+      angsuran_ke: angsuranKe,
+      due_date: `2025-0${angsuranKe + 1}-10`,
+      pokok: 500000,
+      bunga: total - 500000,
+      total,
+      sisa_pokok: 3000000 - angsuranKe * 500000,
+      paid_pokok: Math.min(paid, 500000),
+      paid_bunga: Math.max(0, paid - 500000),
+      status
+    })
+    const schedule = [
+      row(3, 520000, 0, 'belum_bayar'),
+      row(1, 530000, 530000, 'lunas'),
+      row(2, 525000, 300000, 'sebagian'),
+      row(4, 515000, 0, 'belum_bayar')
+    ]
+
+    const status = loanStatus(loan(), [payment(1, 530000), payment(2, 300000)], today(), schedule)
+
+    expect(status.paidInstallments).toBe(1)
+    expect(status.paidAmount).toBe(830000)
+    expect(status.nextDueDate).toBe('2025-03-10')
+    // What is left of 10 Mar plus the whole of 10 Apr; 10 May is not due yet
+    expect(status.arrears).toBe(225000 + 520000)
+  })
+})
+
+describe('WhatsAppCommandParser', () => {
+  it('resolves the sender from the verified number and takes admin rights from the role', async () => {
+    const parser = new WhatsAppCommandParser(dataSource({ findUserRole: async () => 'pengurus' }), today)
+
+    await expect(parser.getUserContext('+62 812-1111-1111')).resolves.toMatchObject({
+      memberId: 'm-1',
+      name: 'Siti Aminah',
+      role: 'pengurus',
+      isAdmin: true
+    })
+    await expect(parser.getUserContext('+62 899-0000-0000')).resolves.toEqual({
+      phoneNumber: '+62 899-0000-0000',
+      isAdmin: false
+    })
+  })
+
+  it('asks unverified numbers to verify before showing member data', async () => {
+    const parser = new WhatsAppCommandParser(dataSource(), today)
+
+    const response = await parser.parseCommand('/saldo', { phoneNumber: '+62 899-0000-0000', isAdmin: false })
+
+    expect(response.success).toBe(false)
+    expect(response.requiresAuth).toBe(true)
+  })
+
+  it('answers /saldo and /pinjaman from the member data', async () => {
+    const parser = new WhatsAppCommandParser(dataSource(), today)
+    const context = await parser.getUserContext('081211111111')
+
+    const saldo = await parser.parseCommand('/saldo', context)
+    expect(saldo.data.total).toBe(410000)
+    expect(saldo.message).toContain('Simpanan Dana Pinjaman')
+
+    const pinjaman = await parser.parseCommand('/pinjaman', context)
+    expect(pinjaman.data).toHaveLength(1)
+    expect(pinjaman.message).toContain('Menunggak')
+  })
+
+  it('keeps admin commands from members without an admin role', async () => {
+    const parser = new WhatsAppCommandParser(dataSource(), today)
+    const context = await parser.getUserContext('081211111111')
+
+    const response = await parser.parseCommand('/laporan bulanan', context)
+
+    expect(response).toEqual({ success: false, message: '❌ Perintah ini hanya untuk admin.' })
+  })
+
+  it('reports a load failure instead of throwing', async () => {
+    const parser = new WhatsAppCommandParser(dataSource({
+      listSavings: async () => { throw new Error('offline') }
+    }), today)
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const response = await parser.parseCommand('/saldo', { phoneNumber: '081211111111', isAdmin: false, memberId: 'm-1' })
+
+    expect(response.success).toBe(false)
+    expect(response.message).toContain('Data tidak dapat dimuat')
+  })
+})
@@ -0,0 +1,267 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { ConversationFlow } from '../types/whatsappFlows'
+
+vi.mock('../lib/repositories', () => ({ repositories: {} }))
+
+import {
+  activeFlows,
+  BUILTIN_FLOWS,
+  ConversationDataSource,
+  IncomingMessage,
+  MessageTransport,
+  parseAnswer,
+  validateFlow,
+  WhatsAppConversationEngine
+} from '../services/whatsappConversation'
+import { CommandDataSource, WhatsAppCommandParser } from '../services/whatsappCommandParser'
+
+const MEMBER_PHONE = '081211111111'
+const ADMIN_PHONE = '081299999999'
+const UNKNOWN_PHONE = '081200000000'
+
+// Collects what the bot sends, per number
+class FakeTransport implements MessageTransport {
+  sent: { to: string; message: string }[] = []
+
+  async send(to: string, message: string) {
+    this.sent.push({ to, message })
+  }
+
+  last(to: string) {
+    return this.sent.filter(item => item.to === to).pop()?.message || ''
+  }
+}
+
+const commandData = (): CommandDataSource => ({
+  findVerifiedMember: async phone => {
+    if (phone === MEMBER_PHONE) return { id: 'm-1', nama_lengkap: 'Siti Aminah' } as never
+    if (phone === ADMIN_PHONE) return { id: 'm-2', nama_lengkap: 'Budi Santoso' } as never
+    return null
+  },
+  findUserRole: async memberId => (memberId === 'm-2' ? 'pengurus' : 'anggota'),
+  listMembers: async () => [],
+  listSavings: async () => [],
+  listDues: async () => [],
+  listLoans: async () => [],
+  listLoanPayments: async () => [],
+  listLoanSchedule: async () => [],
+  listTransactions: async () => []
+})
+
+const customFlow = (fields: Partial<ConversationFlow> = {}): ConversationFlow => ({
+  id: 'flow-1',
+  trigger: '/saran',
+  title: 'Kotak Saran',
+  steps: [{ id: 'saran', type: 'text', label: 'Saran', prompt: 'Apa saran Anda?' }],
+  action: { type: 'submission', reply: 'Terima kasih atas saran "{{saran}}"' },
+  confirm: false,
+  requires_member: false,
+  admin_only: false,
+  timeout_minutes: 10,
+  is_active: true,
+  ...fields
+})
+
+const fakeSource = () => ({
+  loadFlows: vi.fn<[], Promise<ConversationFlow[]>>(async () => [customFlow()]),
+  submitLoanApplication: vi.fn<Parameters<ConversationDataSource['submitLoanApplication']>, Promise<void>>(async () => {}),
+  saveSubmission: vi.fn<Parameters<ConversationDataSource['saveSubmission']>, Promise<void>>(async () => {})
+})
+
+let transport: FakeTransport
+let clock: number
+let source: ReturnType<typeof fakeSource>
+let engine: WhatsAppConversationEngine
+
+const send = (from: string, body: string, media?: IncomingMessage['media']) => engine.handleMessage({ from, body, media })
+
+beforeEach(() => {
+  transport = new FakeTransport()
+  clock = Date.UTC(2025, 3, 15, 9)
+  source = fakeSource()
+  engine = new WhatsAppConversationEngine(transport, {
+    parser: new WhatsAppCommandParser(commandData(), () => new Date(clock)),
+    dataSource: source,
+    now: () => clock
+  })
+})
+
+describe('flow definitions', () => {
+  it('accepts the built-in flows', () => {
+    BUILTIN_FLOWS.forEach(flow => expect(validateFlow(flow)).toEqual([]))
+  })
+
+  it('reports steps and templates that cannot run', () => {
+    const errors = validateFlow(customFlow({
+      trigger: 'saran',
+      steps: [
+        { id: 'pilihan', type: 'choice', label: 'Pilihan', prompt: 'Pilih', options: [{ label: 'A', value: 'a' }] },
+        { id: 'pilihan', type: 'text', label: 'Lagi', prompt: 'Lagi' }
+      ],
+      action: { type: 'command', command: '/laporan {{periode}}' }
+    }))
+
+    expect(errors).toEqual([
+      'Pemicu harus satu kata yang diawali /, contoh: /ajukan',
+      'Langkah 1: pilihan membutuhkan minimal dua opsi dengan label dan nilai',
+      'Langkah 2: id "pilihan" sudah dipakai',
+      'Perintah aksi memakai {{periode}} yang bukan id langkah'
+    ])
+  })
+
+  it('lets a stored flow replace the built-in flow with the same trigger and skips invalid ones', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const flows = activeFlows([
+      customFlow({ id: 'own-ajukan', trigger: '/AJUKAN', action: { type: 'submission' } }),
+      customFlow({ id: 'broken', trigger: '/rusak', steps: [] })
+    ])
+
+    expect(flows.map(flow => flow.id)).toEqual(['own-ajukan', 'builtin-lapor-iuran', 'builtin-menu-laporan'])
+  })
+})
+
+describe('parseAnswer', () => {
+  const amount = BUILTIN_FLOWS[0].steps[0]
+
+  it('reads amounts the way members type them', () => {
+    expect(parseAnswer(amount, { from: MEMBER_PHONE, body: 'Rp 5.000.000' })).toEqual({ value: 5000000 })
+    expect(parseAnswer(amount, { from: MEMBER_PHONE, body: '1,5 juta' })).toEqual({ value: 1500000 })
+    expect(parseAnswer(amount, { from: MEMBER_PHONE, body: '500rb' })).toEqual({ value: 500000 })
+    expect(parseAnswer(amount, { from: MEMBER_PHONE, body: '50000' })).toEqual({ error: '❌ Minimal 100.000.' })
+    expect(parseAnswer(amount, { from: MEMBER_PHONE, body: 'lima juta' })).toEqual({ error: '❌ Jawaban harus berupa angka.' })
+  })
+
+  it('accepts a menu number or the option label', () => {
+    const tenor = BUILTIN_FLOWS[0].steps[1]
+    expect(parseAnswer(tenor, { from: MEMBER_PHONE, body: '2' })).toEqual({ value: '6' })
+    expect(parseAnswer(tenor, { from: MEMBER_PHONE, body: '12 Bulan' })).toEqual({ value: '12' })
+    expect(parseAnswer(tenor, { from: MEMBER_PHONE, body: '7' })).toEqual({ error: '❌ Balas dengan nomor 1 sampai 4.' })
+  })
+})
+
+describe('WhatsAppConversationEngine', () => {
+  it('walks a member through a loan application and submits it after confirmation', async () => {
+    await send(MEMBER_PHONE, '/ajukan')
+    expect(transport.last(MEMBER_PHONE)).toContain('(1/3) Berapa jumlah pinjaman')
+
+    await send(MEMBER_PHONE, 'sepuluh')
+    expect(transport.last(MEMBER_PHONE)).toContain('❌ Jawaban harus berupa angka.')
+
+    await send(MEMBER_PHONE, '5jt')
+    expect(transport.last(MEMBER_PHONE)).toContain('1. 3 bulan')
+    await send(MEMBER_PHONE, '4')
+    await send(MEMBER_PHONE, 'Modal warung sembako')
+    expect(transport.last(MEMBER_PHONE)).toContain('• Jumlah: 5.000.000\n• Tenor: 12 bulan\n• Tujuan: Modal warung sembako')
+    expect(source.submitLoanApplication).not.toHaveBeenCalled()
+
+    await send(MEMBER_PHONE, 'ya')
+
+    expect(source.submitLoanApplication).toHaveBeenCalledWith({
+      member_id: 'm-1',
+      jumlah_pinjaman: 5000000,
+      tenor_bulan: 12,
+      tujuan: 'Modal warung sembako'
+    })
+    expect(transport.last(MEMBER_PHONE)).toContain('Pengajuan pinjaman Rp 5.000.000 untuk 12 bulan sudah diterima')
+  })
+
+  it('stores a dues payment report with the receipt photo', async () => {
+    const receipt = { mime_type: 'image/jpeg', data: 'data:image/jpeg;base64,AAAA' }
+
+    await send(MEMBER_PHONE, '/bayar')
+    await send(MEMBER_PHONE, 'Maret 2025')
+    await send(MEMBER_PHONE, '150.000')
+    await send(MEMBER_PHONE, 'sudah transfer')
+    expect(transport.last(MEMBER_PHONE)).toContain('❌ Kirim foto')
+    await send(MEMBER_PHONE, '', receipt)
+    await send(MEMBER_PHONE, 'ya')
+
+    expect(source.saveSubmission).toHaveBeenCalledWith({
+      flow_id: 'builtin-lapor-iuran',
+      flow_title: 'Laporan Pembayaran Iuran',
+      member_id: 'm-1',
+      phone_number: '6281211111111',
+      answers: { periode: 'Maret 2025', jumlah: 150000, bukti: 'Foto terlampir' },
+      media: receipt,
+      status: 'baru'
+    })
+    expect(transport.last(MEMBER_PHONE)).toContain('iuran Maret 2025 sebesar Rp 150.000 sudah kami terima')
+  })
+
+  it('runs the report command picked from the numbered menu for pengurus only', async () => {
+    await send(MEMBER_PHONE, '/laporan')
+    expect(transport.last(MEMBER_PHONE)).toBe('❌ Perintah ini hanya untuk admin.')
+
+    await send(ADMIN_PHONE, '/laporan')
+    expect(transport.last(ADMIN_PHONE)).toContain('2. Bulan ini')
+    await send(ADMIN_PHONE, '2')
+
+    expect(transport.last(ADMIN_PHONE)).toContain('LAPORAN BULANAN')
+    expect(transport.last(ADMIN_PHONE)).toContain('April 2025')
+  })
+
+  it('keeps sessions per phone number', async () => {
+    await send(MEMBER_PHONE, '/ajukan')
+    await send(ADMIN_PHONE, '/saran')
+    await send(MEMBER_PHONE, '2000000')
+    await send(ADMIN_PHONE, 'Tambah jadwal rapat')
+
+    expect(transport.last(MEMBER_PHONE)).toContain('(2/3) Berapa lama tenor')
+    expect(transport.last(ADMIN_PHONE)).toBe('Terima kasih atas saran "Tambah jadwal rapat"')
+  })
+
+  it('asks unverified numbers to verify before a member flow starts', async () => {
+    await send(UNKNOWN_PHONE, '/ajukan')
+
+    expect(transport.last(UNKNOWN_PHONE)).toContain('NOMOR BELUM TERVERIFIKASI')
+    await send(UNKNOWN_PHONE, '5jt')
+    expect(transport.last(UNKNOWN_PHONE)).toContain('Perintah harus dimulai dengan /')
+  })
+
+  it('cancels a flow on "batal"', async () => {
+    await send(MEMBER_PHONE, '/ajukan')
+    await send(MEMBER_PHONE, 'Batal')
+
+    expect(transport.last(MEMBER_PHONE)).toBe('❎ Pengajuan Pinjaman dibatalkan.')
+    await send(MEMBER_PHONE, '5jt')
+    expect(transport.last(MEMBER_PHONE)).toContain('Perintah harus dimulai dengan /')
+  })
+
+  it('ends an idle session on the next message and lets a command through', async () => {
+    await send(MEMBER_PHONE, '/ajukan')
+    clock += 11 * 60000
+
+    await send(MEMBER_PHONE, '/help')
+
+    const replies = transport.sent.slice(-2).map(item => item.message)
+    expect(replies[0]).toContain('Sesi Pengajuan Pinjaman berakhir karena tidak ada balasan selama 10 menit')
+    expect(replies[1]).toContain('PERINTAH ANGGOTA')
+    expect(replies[1]).toContain('/bayar - Laporkan transfer iuran')
+  })
+
+  it('expires idle sessions in a sweep', async () => {
+    await send(MEMBER_PHONE, '/ajukan')
+    await send(ADMIN_PHONE, '/laporan')
+    clock += 6 * 60000
+
+    await expect(engine.expireIdleSessions()).resolves.toBe(1)
+    expect(transport.last(ADMIN_PHONE)).toContain('Sesi Menu Laporan berakhir')
+
+    await send(MEMBER_PHONE, '3jt')
+    expect(transport.last(MEMBER_PHONE)).toContain('(2/3)')
+  })
+
+  it('tells the member when the action fails and falls back to built-in flows when none load', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    source.loadFlows.mockRejectedValueOnce(new Error('offline'))
+    source.submitLoanApplication.mockRejectedValueOnce(new Error('Akun belum terhubung dengan data anggota'))
+
+    await send(MEMBER_PHONE, '/ajukan')
+    await send(MEMBER_PHONE, '2jt')
+    await send(MEMBER_PHONE, '1')
+    await send(MEMBER_PHONE, 'Biaya sekolah anak')
+    await send(MEMBER_PHONE, 'ya')
+
+    expect(transport.last(MEMBER_PHONE)).toContain('❌ Pengajuan Pinjaman gagal dikirim: Akun belum terhubung dengan data anggota.')
+  })
+})
@@ -0,0 +1,300 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Due, Loan, LoanPayment, Member } from '../lib/api'
+import type { NotificationLogRecord } from '../types'
+
+const mocks = vi.hoisted(() => {
+  const store = {
+    records: [] as NotificationLogRecord[],
+    available: true,
+    // updated_at of the records written next
+    timestamp: ''
+  }
+  return {
+    store,
+    getOverdueLoans: vi.fn(),
+    notificationLogs: {
+      list: vi.fn(async (filter?: { dedup_key?: string }) => {
+        if (!store.available) return { error: 'Log notifikasi belum tersedia', status: 501 }
+        return { data: store.records.filter(record => !filter?.dedup_key || record.dedup_key === filter.dedup_key) }
+      }),
+      create: vi.fn(async (input: Partial<NotificationLogRecord>) => {
+        if (input.dedup_key && store.records.some(record => record.dedup_key === input.dedup_key)) {
+          return { error: 'Pengingat ini sudah dikirim atau sedang dikirim', status: 409 }
+        }
+        const record = { ...input, id: `log-${store.records.length + 1}`, created_at: '2025-04-15', updated_at: store.timestamp } as NotificationLogRecord
+        store.records.push(record)
+        return { data: record }
+      }),
+      update: vi.fn(async (id: string, input: Partial<NotificationLogRecord>) => {
+        const record = store.records.find(item => item.id === id) as NotificationLogRecord
+        Object.assign(record, input, { updated_at: store.timestamp })
+        return { data: record }
+      })
+    }
+  }
+})
+
+vi.mock('../lib/repositories', () => ({ repositories: { notificationLogs: mocks.notificationLogs } }))
+vi.mock('../services/savingsLoansService', () => ({ loansService: { getOverdueLoans: mocks.getOverdueLoans } }))
+
+import {
+  isQuietHour,
+  nextRunAt,
+  planDuesReminders,
+  planOverdueAlerts,
+  planPaymentReminders,
+  REMINDER_SCHEDULES,
+  WhatsAppNotificationService
+} from '../services/whatsappNotificationService'
+import { CommandDataSource, loanStatus } from '../services/whatsappCommandParser'
+import type { MessageTransport } from '../services/whatsappConversation'
+
+// Tuesday
+const TODAY = new Date(2025, 3, 15, 9, 0)
+
+const member = (id: string, fields: Partial<Member> = {}): Member => ({
+  id,
+  nama_lengkap: `Anggota ${id}`,
+  nik: '',
+  alamat: '',
+  no_hp: `0812000000${id.slice(-1)}`,
+  status_keanggotaan: 'aktif',
+  tanggal_masuk: '2024-01-01',
+  jabatan: 'anggota',
+  created_at: '2024-01-01',
+  updated_at: '2024-01-01',
+  ...fields
+})
+
+const loan = (id: string, fields: Partial<Loan>): Loan => ({
+  id,
+  member_id: 'm-1',
+  jumlah_pinjaman: 1000000,
+  bunga_persen: 0,
+  tenor_bulan: 10,
+  angsuran_bulanan: 100000,
+  tanggal_pinjaman: '2025-01-17',
+  status: 'aktif',
+  sisa_pinjaman: 1000000,
+  created_at: '2025-01-17',
+  updated_at: '2025-01-17',
+  ...fields
+})
+
+const payment = (loanId: string, total: number): LoanPayment =>
+  ({ id: `p-${loanId}`, loan_id: loanId, total_angsuran: total, status: 'lunas' }) as unknown as LoanPayment
+
+const due = (memberId: string, bulan: number, fields: Partial<Due> = {}): Due => ({
+  id: `d-${memberId}-${bulan}`,
+  member_id: memberId,
+  bulan,
+  tahun: 2025,
+  iuran_wajib: 10000,
+  iuran_sukarela: 5000,
+  simpanan_wajib: 20000,
+  tanggal_bayar: '',
+  status: 'belum_lunas',
+  created_at: '2025-01-01',
+  updated_at: '2025-01-01',
+  ...fields
+})
+
+const members = [member('m-1'), member('m-2'), member('m-3', { status_keanggotaan: 'non_aktif' })]
+
+// l-1: two of ten installments paid, the third falls due on 17 April
+// l-2: one installment paid while three fell due, so two are in arrears since 10 March
+const loans = [
+  loan('l-1', { sisa_pinjaman: 800000 }),
+  loan('l-2', { member_id: 'm-2', tanggal_pinjaman: '2025-01-10', tenor_bulan: 12, angsuran_bulanan: 50000, sisa_pinjaman: 550000 }),
+  loan('l-3', { member_id: 'm-2', status: 'lunas', sisa_pinjaman: 0 })
+]
+
+const payments: Record<string, LoanPayment[]> = {
+  'l-1': [payment('l-1', 200000)],
+  'l-2': [payment('l-2', 50000)]
+}
+
+const dues = [
+  due('m-1', 2),
+  due('m-1', 3),
+  due('m-1', 1, { status: 'lunas' }),
+  due('m-2', 4),
+  due('m-3', 2)
+]
+
+const statuses = () => loans.filter(item => item.status === 'aktif').map(item => loanStatus(item, payments[item.id] || [], TODAY))
+
+const dataSource = (): CommandDataSource => ({
+  findVerifiedMember: async () => null,
+  findUserRole: async () => null,
+  listMembers: async () => members,
+  listSavings: async () => [],
+  listDues: async () => dues,
+  listLoans: async () => loans,
+  listLoanPayments: async loanId => payments[loanId] || [],
+  listLoanSchedule: async () => [],
+  listTransactions: async () => []
+})
+
+class FakeTransport implements MessageTransport {
+  sent: { to: string; message: string }[] = []
+  failures = 0
+
+  async send(to: string, message: string) {
+    if (this.failures > 0) {
+      this.failures--
+      throw new Error('Gateway timeout')
+    }
+    this.sent.push({ to, message })
+  }
+}
+
+let transport: FakeTransport
+let clock: Date
+let service: WhatsAppNotificationService
+
+beforeEach(() => {
+  mocks.store.records = []
+  mocks.store.available = true
+  mocks.store.timestamp = TODAY.toISOString()
+  mocks.getOverdueLoans.mockReset()
+  mocks.getOverdueLoans.mockRejectedValue(new Error('Supabase client is not configured'))
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+
+  transport = new FakeTransport()
+  clock = TODAY
+  service = new WhatsAppNotificationService({ transport, dataSource: dataSource(), now: () => clock, delayMs: 0 })
+})
+
+describe('reminder planning', () => {
+  it('reminds borrowers of installments due within the coming days', () => {
+    const reminders = planPaymentReminders(statuses(), members, TODAY)
+
+    expect(reminders).toHaveLength(1)
+    expect(reminders[0].dedupKey).toBe('payment_reminder:l-1:2025-04-17')
+    expect(reminders[0].recipient.phoneNumber).toBe(member('m-1').no_hp)
+    expect(reminders[0].variables.amount).toBe('100.000')
+    expect(planPaymentReminders(statuses(), members, TODAY, 1)).toHaveLength(0)
+  })
+
+  it('alerts loans in arrears once per week', () => {
+    const alerts = planOverdueAlerts(statuses(), members, TODAY)
+
+    expect(alerts).toHaveLength(1)
+    expect(alerts[0].dedupKey).toBe('overdue_alert:l-2:2025-04-14')
+    expect(alerts[0].variables).toMatchObject({ amount: '100.000', daysPast: '36' })
+  })
+
+  it('alerts loans past their maturity with the remaining balance', () => {
+    const alerts = planOverdueAlerts(statuses(), members, TODAY, { 'l-1': '2025-04-01' })
+
+    expect(alerts.map(alert => alert.dedupKey)).toContain('overdue_alert:l-1:2025-04-14')
+    expect(alerts.find(alert => alert.dedupKey.includes('l-1'))?.variables).toMatchObject({ amount: '800.000', daysPast: '14' })
+  })
+
+  it('groups unpaid dues of earlier months per active member', () => {
+    const reminders = planDuesReminders(dues, members, TODAY)
+
+    expect(reminders).toHaveLength(1)
+    expect(reminders[0].dedupKey).toBe('dues_reminder:m-1:2025-04')
+    expect(reminders[0].variables).toMatchObject({ count: '2', amount: '60.000' })
+  })
+})
+
+describe('scheduled reminders', () => {
+  it('sends personalised reminders and records them', async () => {
+    const result = await service.sendPaymentReminders()
+
+    expect(result).toMatchObject({ sent: 1, failed: 0, skipped: 0, deferred: false })
+    expect(transport.sent[0].message).toContain('Halo Anggota m-1!')
+    expect(transport.sent[0].message).toContain('Rp 100.000')
+    expect(mocks.store.records).toEqual([
+      expect.objectContaining({ dedup_key: 'payment_reminder:l-1:2025-04-17', status: 'sent', member_id: 'm-1' })
+    ])
+  })
+
+  it('does not message anybody twice', async () => {
+    await service.sendDuesReminders()
+    // A second app instance only knows the stored log
+    const other = new WhatsAppNotificationService({ transport, dataSource: dataSource(), now: () => clock, delayMs: 0 })
+    const result = await other.sendDuesReminders()
+
+    expect(result).toMatchObject({ sent: 0, skipped: 1 })
+    expect(transport.sent).toHaveLength(1)
+  })
+
+  it('de-duplicates within the app when the backend keeps no log', async () => {
+    mocks.store.available = false
+
+    await service.sendOverdueAlerts()
+    const result = await service.sendOverdueAlerts()
+
+    expect(result).toMatchObject({ sent: 0, skipped: 1 })
+    expect(transport.sent).toHaveLength(1)
+  })
+
+  it('retries a failed reminder on the next run', async () => {
+    transport.failures = 1
+
+    expect(await service.sendPaymentReminders()).toMatchObject({ sent: 0, failed: 1 })
+    expect(mocks.store.records[0]).toMatchObject({ status: 'failed', error: 'Gateway timeout' })
+
+    expect(await service.sendPaymentReminders()).toMatchObject({ sent: 1, failed: 0 })
+    expect(mocks.store.records).toHaveLength(1)
+    expect(mocks.store.records[0].status).toBe('sent')
+  })
+
+  it('claims a reminder again once its sender stopped before logging the outcome', async () => {
+    mocks.store.records = [{
+      id: 'log-1',
+      recipient: member('m-1').no_hp,
+      member_id: 'm-1',
+      template: 'payment_reminder',
+      message: 'Halo',
+      status: 'pending',
+      dedup_key: 'payment_reminder:l-1:2025-04-17',
+      error: null,
+      created_at: '2025-04-15',
+      updated_at: new Date(TODAY.getTime() - 5 * 60 * 1000).toISOString()
+    }]
+
+    expect(await service.sendPaymentReminders()).toMatchObject({ sent: 0, skipped: 1 })
+
+    clock = new Date(TODAY.getTime() + 15 * 60 * 1000)
+    expect(await service.sendPaymentReminders()).toMatchObject({ sent: 1, skipped: 0 })
+    expect(mocks.store.records).toEqual([expect.objectContaining({ id: 'log-1', status: 'sent' })])
+  })
+
+  it('counts a reminder whose claim cannot be stored as failed', async () => {
+    mocks.notificationLogs.create.mockResolvedValueOnce({ error: 'Gagal menyimpan log notifikasi', status: 500 })
+
+    expect(await service.sendPaymentReminders()).toMatchObject({ sent: 0, failed: 1, skipped: 0 })
+    expect(transport.sent).toHaveLength(0)
+  })
+
+  it('includes overdue loans reported by the loans service', async () => {
+    mocks.getOverdueLoans.mockResolvedValue([{ id: 'l-1', due_date: '2025-04-01' }])
+
+    expect(await service.sendOverdueAlerts()).toMatchObject({ sent: 2 })
+  })
+
+  it('defers runs during quiet hours', async () => {
+    clock = new Date(2025, 3, 15, 22, 0)
+
+    expect(await service.sendPaymentReminders()).toMatchObject({ sent: 0, deferred: true })
+    expect(transport.sent).toHaveLength(0)
+    expect(isQuietHour(new Date(2025, 3, 15, 6, 59))).toBe(true)
+    expect(isQuietHour(new Date(2025, 3, 15, 7, 0))).toBe(false)
+  })
+
+  it('computes the next run of each schedule', () => {
+    const [daily, weekly, monthly] = REMINDER_SCHEDULES
+    const from = new Date(2025, 3, 15, 10, 0)
+
+    expect(nextRunAt(daily, from)).toEqual(new Date(2025, 3, 16, 9, 0))
+    expect(nextRunAt(weekly, from)).toEqual(new Date(2025, 3, 21, 10, 0))
+    expect(nextRunAt(monthly, from)).toEqual(new Date(2025, 4, 10, 9, 0))
+    expect(nextRunAt({ ...monthly, day: 31 }, new Date(2025, 1, 1))).toEqual(new Date(2025, 1, 28, 9, 0))
+  })
+})
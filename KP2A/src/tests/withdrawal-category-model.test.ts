@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import {
+  evaluateWithdrawalModel,
+  modelWeight,
+  predictWithdrawalCategory,
+  trainingExamplesFromLogs,
+  trainWithdrawalModel,
+  withdrawalFeatures,
+  WithdrawalTrainingExample
+} from '../utils/withdrawalCategoryModel'
+
+const examples: WithdrawalTrainingExample[] = [
+  { description: 'PEMBAYARAN LISTRIK PLN', amount: 450000, transaction_date: '2024-01-05', category_id: 'utilitas' },
+  { description: 'PLN PASCABAYAR KANTOR', amount: 475000, transaction_date: '2024-02-05', category_id: 'utilitas' },
+  { description: 'TAGIHAN AIR PDAM', amount: 120000, transaction_date: '2024-02-07', category_id: 'utilitas' },
+  { description: 'HONOR PENGURUS JANUARI', amount: 1500000, transaction_date: '2024-01-31', category_id: 'honor' },
+  { description: 'HONOR PENGURUS FEBRUARI', amount: 1500000, transaction_date: '2024-02-29', category_id: 'honor' },
+  { description: 'HONOR BENDAHARA', amount: 750000, transaction_date: '2024-03-29', category_id: 'honor' },
+  { description: 'PEMBELIAN ATK KERTAS', amount: 85000, transaction_date: '2024-01-10', category_id: 'atk' },
+  { description: 'ATK TINTA PRINTER', amount: 90000, transaction_date: '2024-02-12', category_id: 'atk' }
+]
+
+describe('withdrawalFeatures', () => {
+  it('combines description words, an amount bucket and the weekday', () => {
+    expect(withdrawalFeatures({ description: 'TRF KE PLN 123456', amount: 450000, transaction_date: '2024-01-05' }))
+      .toEqual(['word:pln', 'amount:11', 'weekday:5'])
+  })
+})
+
+describe('naive Bayes withdrawal model', () => {
+  const model = trainWithdrawalModel(examples)
+
+  it('picks the category whose history shares the most evidence', () => {
+    const [best] = predictWithdrawalCategory(model, { description: 'LISTRIK PLN MARET', amount: 460000, transaction_date: '2024-03-05' })
+
+    expect(best.category_id).toBe('utilitas')
+    expect(best.probability).toBeGreaterThan(0.8)
+  })
+
+  it('returns probabilities over every known category', () => {
+    const predictions = predictWithdrawalCategory(model, { description: 'HONOR PENGURUS', amount: 1500000, transaction_date: '2024-04-30' })
+    const total = predictions.reduce((sum, prediction) => sum + prediction.probability, 0)
+
+    expect(predictions.map(prediction => prediction.category_id)).toHaveLength(3)
+    expect(predictions[0].category_id).toBe('honor')
+    expect(total).toBeCloseTo(1)
+  })
+
+  it('falls back to the category priors for unseen words', () => {
+    const [best] = predictWithdrawalCategory(model, { description: 'XYZ', amount: 0, transaction_date: '' })
+
+    expect(['utilitas', 'honor']).toContain(best.category_id)
+  })
+
+  it('weighs the model more as history grows', () => {
+    expect(modelWeight(null)).toBe(0)
+    expect(modelWeight(model)).toBeCloseTo(8 / 58)
+    expect(modelWeight(trainWithdrawalModel(Array(500).fill(examples[0])))).toBe(0.6)
+  })
+})
+
+describe('trainingExamplesFromLogs', () => {
+  const transaction = { description: 'PLN', amount: '450000.00', transaction_date: '2024-01-05', category_id: 'operasional' }
+
+  it('labels a transaction with its latest manual override', () => {
+    const result = trainingExamplesFromLogs([
+      { transaction_id: 't1', suggested_category_id: 'operasional', manual_override: false, created_at: '2024-01-05T01:00:00Z', transactions: transaction },
+      { transaction_id: 't1', suggested_category_id: 'honor', manual_override: true, created_at: '2024-01-05T02:00:00Z', transactions: transaction },
+      { transaction_id: 't1', suggested_category_id: 'utilitas', manual_override: true, created_at: '2024-01-05T03:00:00Z', transactions: transaction }
+    ])
+
+    expect(result).toEqual([{ description: 'PLN', amount: 450000, transaction_date: '2024-01-05', category_id: 'utilitas' }])
+  })
+
+  it('keeps the saved category when nobody corrected it and skips deleted transactions', () => {
+    const result = trainingExamplesFromLogs([
+      { transaction_id: 't1', suggested_category_id: 'operasional', manual_override: false, created_at: '2024-01-05T01:00:00Z', transactions: transaction },
+      { transaction_id: 't2', suggested_category_id: 'operasional', manual_override: false, created_at: '2024-01-06T01:00:00Z', transactions: null }
+    ])
+
+    expect(result.map(example => example.category_id)).toEqual(['operasional'])
+  })
+})
+
+describe('evaluateWithdrawalModel', () => {
+  it('reports cross-validated precision per category', () => {
+    const report = evaluateWithdrawalModel(examples, 4)
+
+    expect(report.map(entry => entry.support)).toEqual([3, 3, 2])
+    expect(report.reduce((sum, entry) => sum + entry.predicted, 0)).toBe(examples.length)
+    report.forEach(entry => {
+      expect(entry.correct).toBeLessThanOrEqual(entry.predicted)
+      expect(entry.precision).toBe(entry.predicted > 0 ? (entry.correct / entry.predicted) * 100 : 0)
+    })
+  })
+})
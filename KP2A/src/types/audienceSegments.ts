@@ -0,0 +1,34 @@
+// Broadcast audiences defined by rules over member data instead of a fixed list of contacts.
+// A segment stores only its rules; who belongs to it is worked out again for every broadcast.
+
+export type SegmentField =
+  | 'status_keanggotaan'
+  | 'tahun_masuk'
+  | 'masuk_tahun_ini'
+  | 'total_simpanan'
+  | 'tunggakan_bulan'
+  | 'tunggakan_iuran'
+  | 'punya_pinjaman'
+  | 'sisa_pinjaman'
+  | 'tunggakan_pinjaman'
+  | 'jatuh_tempo_minggu_ini'
+
+export type SegmentOperator = '==' | '!=' | '>' | '>=' | '<' | '<='
+
+export interface SegmentRule {
+  field: SegmentField
+  operator: SegmentOperator
+  // Numbers for amounts and counts, 'ya'/'tidak' for yes/no fields, the status otherwise
+  value: number | string
+}
+
+export interface AudienceSegment {
+  id: string
+  name: string
+  description?: string | null
+  // all: every rule must hold; any: at least one
+  match: 'all' | 'any'
+  rules: SegmentRule[]
+  created_at?: string
+  updated_at?: string
+}
@@ -5,6 +5,8 @@ export interface Account {
   balance: number
   bank_name?: string
   account_number?: string
+  opening_balance?: number
+  is_active?: boolean
   created_at: string
   updated_at: string
 }
@@ -18,12 +20,23 @@ export interface CashBankTransaction {
   transaction_date: string
   status: 'completed' | 'pending' | 'cancelled'
   created_by: string
+  cancelled_by?: string
+  cancelled_at?: string
+  cancel_reason?: string
   created_at: string
   updated_at: string
   from_account?: Account
   to_account?: Account
 }
 
+export interface AccountFormData {
+  name: string
+  type: 'cash' | 'bank'
+  bank_name: string
+  account_number: string
+  opening_balance: number
+}
+
 export interface TransferFormData {
   from_account_id: string
   to_account_id: string
@@ -25,6 +25,7 @@ export interface Due {
   status: 'lunas' | 'belum_lunas'
   created_at: string
   updated_at: string
+  version?: number
   member?: Member
 }
 
@@ -33,12 +34,18 @@ export interface Loan {
   member_id: string
   jumlah_pinjaman: number
   bunga_persen: number
+  interest_method?: 'flat' | 'efektif' | 'anuitas'
   tenor_bulan: number
   angsuran_bulanan: number
   sudah_bayar_angsuran: number
   tanggal_pinjaman: string
-  status: 'aktif' | 'lunas' | 'belum_lunas' | 'pending' | 'ditolak'
+  status: 'aktif' | 'lunas' | 'belum_lunas' | 'pending' | 'disetujui' | 'ditolak'
   sisa_pinjaman: number
+  tujuan?: string | null
+  applied_by?: string | null // Diisi bila pinjaman berasal dari pengajuan
+  approved_at?: string | null
+  disbursed_at?: string | null
+  disbursement_account_id?: string | null
   created_at: string
   updated_at: string
   member?: Member
@@ -56,6 +63,7 @@ export interface LoanPayment {
   tanggal_bayar: string
   status: 'lunas' | 'terlambat' | 'belum_lunas'
   created_at: string
+  version?: number
   loan?: Loan
 }
 
@@ -82,6 +90,55 @@ export interface User {
   member?: Member
 }
 
+// A member's WhatsApp number, confirmed with the code sent from MemberVerification
+export interface WhatsAppVerification {
+  id: string
+  member_id: string
+  phone_number: string
+  verification_token: string
+  is_verified: boolean
+  verified_at: string | null
+  created_at: string
+}
+
+// Settings of the WhatsApp bot; a single row for the koperasi
+export interface WhatsAppConfig {
+  id: string
+  status: 'active' | 'inactive'
+  phone_number: string | null
+  welcome_message: string | null
+  auto_reply: boolean
+  created_at: string
+  updated_at: string
+}
+
+// Reply template of the bot, edited on the WhatsApp bot page
+export interface WhatsAppMessageTemplate {
+  id: string
+  name: string
+  content: string
+  category: 'welcome' | 'menu' | 'balance' | 'loan' | 'error' | 'help'
+  // Placeholder names; the Supabase schema stores them as a JSON string
+  variables: string[] | string
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// A WhatsApp notification as stored; dedup_key marks scheduled reminders that must go out once
+export interface NotificationLogRecord {
+  id: string
+  recipient: string
+  member_id: string | null
+  template: string
+  message: string
+  status: 'sent' | 'failed' | 'pending'
+  dedup_key: string | null
+  error: string | null
+  created_at: string
+  updated_at?: string
+}
+
 export interface FinancialSummary {
   total_members: number
   total_dues_this_month: number
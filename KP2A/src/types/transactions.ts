@@ -4,6 +4,10 @@ export interface TransactionCategory {
   type: 'income' | 'expense'
   color_code?: string
   description?: string
+  // Bank withdrawal categories only: how withdrawals are recognised and what they need
+  withdrawal_type?: string | null
+  auto_classification_rules?: Record<string, unknown> | null
+  validation_rules?: Record<string, unknown> | null
   is_active: boolean
   created_at: string
   updated_at: string
@@ -29,6 +33,8 @@ export interface Transaction {
   payment_method_id: string
   created_by: string
   status: 'pending' | 'approved' | 'rejected'
+  // Set when the transaction was generated from a recurring template
+  recurring_transaction_id?: string | null
   created_at: string
   updated_at: string
   // Joined data
@@ -40,6 +46,33 @@ export interface Transaction {
   }
 }
 
+export type RecurrenceFrequency = 'monthly' | 'quarterly' | 'yearly'
+
+export interface RecurringTransaction {
+  id: string
+  name: string
+  transaction_type: 'income' | 'expense'
+  amount: number
+  category_id: string
+  payment_method_id: string
+  description?: string
+  frequency: RecurrenceFrequency
+  // Occurrences fall on the day of month of start_date, or the month's last day when shorter
+  start_date: string
+  end_date?: string | null
+  next_due_date: string
+  last_generated_date?: string | null
+  // Occurrences passed over on purpose or while the template was paused
+  skipped_dates: string[]
+  is_active: boolean
+  created_by: string
+  created_at: string
+  updated_at: string
+  // Joined data
+  category?: TransactionCategory
+  payment_method?: PaymentMethod
+}
+
 export interface TransactionFormValues {
   transaction_type: 'income' | 'expense'
   amount: number
@@ -0,0 +1,87 @@
+// Guided WhatsApp conversations. A flow asks its steps one message at a time and runs its
+// action once every answer is in, so pengurus can add flows by storing a definition.
+
+export type FlowStepType = 'number' | 'text' | 'choice' | 'media'
+
+export interface FlowChoice {
+  label: string
+  value: string
+}
+
+export interface FlowStep {
+  // Key of the answer, used in templates as {{id}}
+  id: string
+  type: FlowStepType
+  // Short name in the confirmation summary
+  label: string
+  prompt: string
+  // number: allowed range; text: allowed length
+  min?: number
+  max?: number
+  // choice: shown as a numbered menu
+  options?: FlowChoice[]
+}
+
+/**
+ * What happens with the answers:
+ * - command: runs a bot command, e.g. "/laporan {{periode}}"
+ * - loan_application: submits a loan application from the steps jumlah_pinjaman, tenor_bulan and tujuan
+ * - submission: stores the answers (and photo) for pengurus to follow up
+ */
+export type FlowAction =
+  | { type: 'command'; command: string }
+  | { type: 'loan_application' }
+  | { type: 'submission'; reply?: string }
+
+export interface ConversationFlow {
+  id: string
+  // Message that starts the flow, e.g. "/ajukan"
+  trigger: string
+  title: string
+  description?: string
+  steps: FlowStep[]
+  action: FlowAction
+  // Ask "ya/batal" with a summary of the answers before running the action
+  confirm: boolean
+  requires_member: boolean
+  admin_only: boolean
+  // Idle minutes before the session is dropped
+  timeout_minutes: number
+  is_active: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+export interface FlowMedia {
+  mime_type: string
+  // Data URL of the photo
+  data: string
+}
+
+export type FlowAnswers = Record<string, string | number>
+
+export interface FlowSubmission {
+  id: string
+  flow_id: string
+  flow_title: string
+  member_id: string | null
+  phone_number: string
+  answers: FlowAnswers
+  media?: FlowMedia | null
+  status: 'baru' | 'diproses' | 'selesai'
+  created_at: string
+  updated_at?: string
+}
+
+// Where a phone number is in a flow
+export interface ConversationSession {
+  phone_number: string
+  flow_id: string
+  step_index: number
+  answers: FlowAnswers
+  media: FlowMedia | null
+  // All steps answered, waiting for "ya"
+  confirming: boolean
+  // Epoch milliseconds of the last message
+  updated_at: number
+}
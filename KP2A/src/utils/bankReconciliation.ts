@@ -0,0 +1,125 @@
+/**
+ * Matching bank statement lines against records already in the books
+ * A line and a record can only match when the amount is the same (to the rupiah), the money
+ * moves in the same direction and the dates are at most `dateToleranceDays` apart (transfers
+ * are often booked a day or two before or after they clear). Among those, closer dates and
+ * more shared description words (member name, "iuran", "angsuran") score higher. Pairs are
+ * assigned best-first so every line and every record is used at most once.
+ */
+
+import type { BankStatementLine, StatementDirection } from './bankStatement';
+
+export type ReconciliationSource = 'transaction' | 'due' | 'loan_payment';
+
+export interface ReconciliationRecord {
+  id: string;
+  source: ReconciliationSource;
+  date: string;
+  amount: number;
+  direction: StatementDirection;
+  description: string;
+}
+
+export interface ReconciliationMatch {
+  line: BankStatementLine;
+  record: ReconciliationRecord;
+  // 0-100
+  confidence: number;
+  dateDifference: number;
+}
+
+export interface ReconciliationResult {
+  matched: ReconciliationMatch[];
+  unmatchedLines: BankStatementLine[];
+  // Records in the statement period with no line in the statement
+  unmatchedRecords: ReconciliationRecord[];
+}
+
+export interface ReconciliationOptions {
+  dateToleranceDays?: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Words that appear in almost every statement line and say nothing about the counterparty
+const STOP_WORDS = new Set([
+  'trf', 'transfer', 'trsf', 'dari', 'ke', 'kpd', 'dan', 'yang', 'untuk', 'bank', 'via', 'mbanking',
+  'ibank', 'atm', 'setor', 'setoran', 'tarik', 'tunai', 'pembayaran', 'bayar', 'the', 'ref'
+]);
+
+export const descriptionTokens = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length >= 3 && !/^\d+$/.test(token) && !STOP_WORDS.has(token))
+  );
+
+// Share of the record's words found in the statement line
+const descriptionSimilarity = (line: string, record: string): number => {
+  const recordTokens = descriptionTokens(record);
+  if (recordTokens.size === 0) return 0;
+  const lineTokens = descriptionTokens(line);
+  let shared = 0;
+  recordTokens.forEach(token => {
+    if (lineTokens.has(token)) shared++;
+  });
+  return shared / recordTokens.size;
+};
+
+const daysBetween = (a: string, b: string): number =>
+  Math.round(Math.abs(new Date(a).getTime() - new Date(b).getTime()) / DAY);
+
+/**
+ * Confidence that a line and a record are the same payment, or null when they cannot be
+ */
+export const matchScore = (
+  line: BankStatementLine,
+  record: ReconciliationRecord,
+  dateToleranceDays = 3
+): { confidence: number; dateDifference: number } | null => {
+  if (line.direction !== record.direction) return null;
+  if (Math.abs(line.amount - record.amount) >= 1) return null;
+
+  const dateDifference = daysBetween(line.date, record.date);
+  if (Number.isNaN(dateDifference) || dateDifference > dateToleranceDays) return null;
+
+  const dateScore = 1 - dateDifference / (dateToleranceDays + 1);
+  const descriptionScore = descriptionSimilarity(line.description, record.description);
+  // The amount alone is worth 60; date and description decide between candidates
+  const confidence = Math.round(60 + dateScore * 25 + descriptionScore * 15);
+  return { confidence, dateDifference };
+};
+
+export const reconcileStatement = (
+  lines: BankStatementLine[],
+  records: ReconciliationRecord[],
+  options: ReconciliationOptions = {}
+): ReconciliationResult => {
+  const tolerance = options.dateToleranceDays ?? 3;
+
+  const candidates: ReconciliationMatch[] = [];
+  lines.forEach(line => {
+    records.forEach(record => {
+      const score = matchScore(line, record, tolerance);
+      if (score) candidates.push({ line, record, ...score });
+    });
+  });
+  candidates.sort((a, b) => b.confidence - a.confidence || a.dateDifference - b.dateDifference);
+
+  const usedLines = new Set<BankStatementLine>();
+  const usedRecords = new Set<ReconciliationRecord>();
+  const matched: ReconciliationMatch[] = [];
+  candidates.forEach(candidate => {
+    if (usedLines.has(candidate.line) || usedRecords.has(candidate.record)) return;
+    usedLines.add(candidate.line);
+    usedRecords.add(candidate.record);
+    matched.push(candidate);
+  });
+
+  return {
+    matched: matched.sort((a, b) => a.line.line - b.line.line),
+    unmatchedLines: lines.filter(line => !usedLines.has(line)),
+    unmatchedRecords: records.filter(record => !usedRecords.has(record))
+  };
+};
@@ -0,0 +1,262 @@
+/**
+ * Bank statement (mutasi rekening) parsing
+ * Internet banking exports differ per bank in column names, amount notation and date format,
+ * and usually start with a few lines of account information before the header row. Each
+ * format below lists the header names seen in that bank's CSV/Excel exports; the header row is
+ * found by looking for the date and description columns.
+ */
+
+export type BankCode = 'bjb' | 'bri' | 'mandiri' | 'bca';
+
+// debit = money leaving the account (penarikan), credit = money coming in (setoran)
+export type StatementDirection = 'debit' | 'credit';
+
+export interface BankStatementFormat {
+  bank: BankCode;
+  label: string;
+  date: string[];
+  description: string[];
+  // Either separate debit/credit columns, or one amount column with a DB/CR marker
+  debit?: string[];
+  credit?: string[];
+  amount?: string[];
+  balance?: string[];
+  reference?: string[];
+  // Decimal separator used for amounts written as text
+  decimal: ',' | '.';
+}
+
+export interface BankStatementLine {
+  line: number;
+  date: string;
+  description: string;
+  amount: number;
+  direction: StatementDirection;
+  balance?: number;
+  reference?: string;
+}
+
+export interface BankStatementParseResult {
+  lines: BankStatementLine[];
+  // Rows that looked like transactions but could not be read (line number and reason)
+  errors: { line: number; message: string }[];
+}
+
+export const BANK_STATEMENT_FORMATS: Record<BankCode, BankStatementFormat> = {
+  bjb: {
+    bank: 'bjb',
+    label: 'Bank BJB',
+    date: ['tanggal', 'tgl transaksi', 'tanggal transaksi', 'tgl'],
+    description: ['keterangan', 'uraian', 'deskripsi'],
+    debit: ['debet', 'debit', 'mutasi debet'],
+    credit: ['kredit', 'credit', 'mutasi kredit'],
+    balance: ['saldo', 'saldo akhir'],
+    reference: ['no. referensi', 'referensi', 'no ref'],
+    decimal: ','
+  },
+  bri: {
+    bank: 'bri',
+    label: 'Bank BRI',
+    date: ['tanggal transaksi', 'tgl transaksi', 'tanggal'],
+    description: ['uraian transaksi', 'keterangan', 'uraian'],
+    debit: ['debet', 'debit'],
+    credit: ['kredit', 'credit'],
+    balance: ['saldo'],
+    reference: ['teller', 'no. referensi'],
+    decimal: '.'
+  },
+  mandiri: {
+    bank: 'mandiri',
+    label: 'Bank Mandiri',
+    date: ['posting date', 'tanggal', 'transaction date', 'tanggal transaksi'],
+    description: ['remark', 'keterangan', 'description', 'remarks'],
+    debit: ['debit', 'debet'],
+    credit: ['credit', 'kredit'],
+    balance: ['balance', 'saldo'],
+    reference: ['reference no', 'reference no.', 'no. referensi'],
+    decimal: '.'
+  },
+  bca: {
+    bank: 'bca',
+    label: 'Bank BCA',
+    date: ['tanggal transaksi', 'tanggal', 'tgl.'],
+    description: ['keterangan', 'description'],
+    // KlikBCA writes one amount with "DB" or "CR" after it
+    amount: ['jumlah', 'mutasi', 'amount'],
+    balance: ['saldo', 'balance'],
+    reference: ['cabang'],
+    decimal: '.'
+  }
+};
+
+type Cell = string | number | Date | null | undefined;
+
+const normalizeHeader = (value: Cell): string =>
+  String(value ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const findColumn = (header: string[], names?: string[]): number => {
+  if (!names) return -1;
+  for (const name of names) {
+    const index = header.indexOf(name);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+/**
+ * Parse an amount as written in statements: "1.500.000,00", "1,500,000.00", "Rp 25.000",
+ * "250,000.00 DB". Returns the absolute value and the DB/CR marker if one was present.
+ */
+export const parseStatementAmount = (
+  value: Cell,
+  decimal: ',' | '.' = '.'
+): { amount: number; direction?: StatementDirection } | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return { amount: Math.abs(value), direction: value < 0 ? 'debit' : undefined };
+
+  let text = String(value).trim().toUpperCase();
+  let direction: StatementDirection | undefined;
+  const marker = /\s*(DB|DR|D|CR|K|C)$/.exec(text);
+  if (marker && /\d/.test(text.slice(0, marker.index))) {
+    direction = ['DB', 'DR', 'D'].includes(marker[1]) ? 'debit' : 'credit';
+    text = text.slice(0, marker.index);
+  }
+  if (text.startsWith('-') || (text.startsWith('(') && text.endsWith(')'))) direction = 'debit';
+
+  text = text.replace(/RP\.?/g, '').replace(/[\s()+-]/g, '');
+  if (!text || !/\d/.test(text)) return null;
+
+  // "1.500.000" with dots only as thousand separators is unambiguous whatever the bank's default
+  let separator = decimal;
+  if (/^\d{1,3}(\.\d{3})+(,\d+)?$/.test(text)) separator = ',';
+  else if (/^\d{1,3}(,\d{3})+(\.\d+)?$/.test(text)) separator = '.';
+
+  const normalized = separator === ','
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+  const amount = Number(normalized);
+  return Number.isNaN(amount) ? null : { amount, direction };
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, mei: 5, may: 5, jun: 6, jul: 7, agu: 8, agt: 8, aug: 8,
+  sep: 9, okt: 10, oct: 10, nov: 11, des: 12, dec: 12
+};
+
+const isoDate = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Parse a statement date to YYYY-MM-DD. Accepts dd/mm/yyyy, dd-mm-yy, yyyy-mm-dd,
+ * "05 Jan 2024", Excel dates, and dd/mm without a year (KlikBCA), which takes `fallbackYear`.
+ */
+export const parseStatementDate = (value: Cell, fallbackYear = new Date().getFullYear()): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : isoDate(value.getFullYear(), value.getMonth() + 1, value.getDate());
+  }
+  if (typeof value === 'number') {
+    // Excel serial date (days since 1899-12-30)
+    const date = new Date(Math.round((value - 25569) * 86400 * 1000));
+    return isoDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  }
+
+  const text = String(value).trim();
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(text);
+  if (match) return isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = /^(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{2,4}))?/.exec(text);
+  if (match) {
+    const year = match[3] ? Number(match[3].length === 2 ? `20${match[3]}` : match[3]) : fallbackYear;
+    return isoDate(year, Number(match[2]), Number(match[1]));
+  }
+
+  match = /^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{2,4})/.exec(text);
+  if (match && MONTHS[match[2].toLowerCase()]) {
+    const year = Number(match[3].length === 2 ? `20${match[3]}` : match[3]);
+    return isoDate(year, MONTHS[match[2].toLowerCase()], Number(match[1]));
+  }
+
+  return null;
+};
+
+/**
+ * Turn the rows of a statement export (first sheet or CSV, one array per row) into lines
+ */
+export const parseBankStatement = (
+  rows: Cell[][],
+  bank: BankCode,
+  fallbackYear?: number
+): BankStatementParseResult => {
+  const format = BANK_STATEMENT_FORMATS[bank];
+  const headerIndex = rows.findIndex(row => {
+    const header = row.map(normalizeHeader);
+    return findColumn(header, format.date) !== -1 && findColumn(header, format.description) !== -1;
+  });
+  if (headerIndex === -1) {
+    throw new Error(`Baris judul kolom ${format.label} tidak ditemukan. Pastikan file adalah mutasi rekening ${format.label}.`);
+  }
+
+  const header = rows[headerIndex].map(normalizeHeader);
+  const columns = {
+    date: findColumn(header, format.date),
+    description: findColumn(header, format.description),
+    debit: findColumn(header, format.debit),
+    credit: findColumn(header, format.credit),
+    amount: findColumn(header, format.amount),
+    balance: findColumn(header, format.balance),
+    reference: findColumn(header, format.reference)
+  };
+  if (columns.amount === -1 && columns.debit === -1 && columns.credit === -1) {
+    throw new Error(`Kolom nominal ${format.label} tidak ditemukan`);
+  }
+
+  const result: BankStatementParseResult = { lines: [], errors: [] };
+
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    const line = headerIndex + offset + 2;
+    const cell = (index: number) => (index === -1 ? undefined : row[index]);
+    if (row.every(value => value === null || value === undefined || String(value).trim() === '')) return;
+
+    const date = parseStatementDate(cell(columns.date), fallbackYear);
+    // Footer rows (saldo awal, total, ...) have no date
+    if (!date) return;
+
+    let amount: number | undefined;
+    let direction: StatementDirection | undefined;
+    if (columns.amount !== -1) {
+      const parsed = parseStatementAmount(cell(columns.amount), format.decimal);
+      amount = parsed?.amount;
+      direction = parsed?.direction || 'credit';
+    } else {
+      const debit = parseStatementAmount(cell(columns.debit), format.decimal);
+      const credit = parseStatementAmount(cell(columns.credit), format.decimal);
+      if (debit && debit.amount > 0) {
+        amount = debit.amount;
+        direction = 'debit';
+      } else if (credit && credit.amount > 0) {
+        amount = credit.amount;
+        direction = 'credit';
+      }
+    }
+
+    if (!amount || !direction) {
+      result.errors.push({ line, message: 'Nominal tidak terbaca' });
+      return;
+    }
+
+    result.lines.push({
+      line,
+      date,
+      description: String(cell(columns.description) ?? '').replace(/\s+/g, ' ').trim(),
+      amount,
+      direction,
+      balance: parseStatementAmount(cell(columns.balance), format.decimal)?.amount,
+      reference: cell(columns.reference) ? String(cell(columns.reference)).trim() : undefined
+    });
+  });
+
+  return result;
+};
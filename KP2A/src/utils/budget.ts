@@ -0,0 +1,175 @@
+/**
+ * Budget (RAPB) against actuals
+ * Actuals come from transactions (by category name) and Buku Kas entries (by their free-text
+ * kategori), matched to budget lines on category type and name, ignoring case. Rejected entries
+ * are left out; pending ones count because the money is already committed.
+ */
+
+import type { Budget, Expense } from '../lib/api';
+import { repositories } from '../lib/repositories';
+import type { Transaction } from '../types/transactions';
+
+export type BudgetCategoryType = Budget['category_type'];
+
+// on_track below the warning level, warning from BUDGET_WARNING_PERCENT, over past 100%
+export type BudgetStatus = 'on_track' | 'warning' | 'over';
+
+export interface BudgetActual {
+  tahun: number;
+  bulan: number;
+  category_type: BudgetCategoryType;
+  category_name: string;
+  jumlah: number;
+}
+
+export interface BudgetVarianceRow {
+  category_type: BudgetCategoryType;
+  category_name: string;
+  budget: number;
+  actual: number;
+  // Positive is good: spending left for expenses, income above target for income
+  variance: number;
+  // Actual as a percentage of budget; null when nothing was budgeted
+  usage: number | null;
+  // Only expense categories get a warning or over status
+  status: BudgetStatus;
+  monthly: { bulan: number; budget: number; actual: number }[];
+}
+
+export const BUDGET_WARNING_PERCENT = 90;
+
+// Moving money between kas and bank is neither income nor spending (same list as the Buku Kas totals)
+const INTERNAL_TRANSFER_KEYWORDS = ['tarik kas bank', 'penarikan uang dari bjb', 'transfer bank', 'setor bank', 'tarik bank'];
+
+const isInternalTransfer = (kategori: string) =>
+  INTERNAL_TRANSFER_KEYWORDS.some(keyword => kategori.toLowerCase().includes(keyword));
+
+const categoryKey = (type: BudgetCategoryType, name: string) => `${type}|${name.trim().toLowerCase()}`;
+
+const periodOf = (value: string | undefined): { tahun: number; bulan: number } | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return { tahun: date.getFullYear(), bulan: date.getMonth() + 1 };
+};
+
+/**
+ * Monthly actuals per category for one year
+ */
+export const actualsFromRecords = (
+  tahun: number,
+  transactions: Transaction[],
+  expenses: Expense[]
+): BudgetActual[] => {
+  const actuals: BudgetActual[] = [];
+
+  transactions
+    .filter(transaction => transaction.status !== 'rejected')
+    .forEach(transaction => {
+      const period = periodOf(transaction.transaction_date);
+      if (!period || period.tahun !== tahun) return;
+      actuals.push({
+        ...period,
+        category_type: transaction.transaction_type,
+        category_name: transaction.category?.name || 'Tanpa Kategori',
+        jumlah: Number(transaction.amount) || 0
+      });
+    });
+
+  expenses
+    .filter(expense => expense.status_otorisasi !== 'rejected' && !isInternalTransfer(expense.kategori || ''))
+    .forEach(expense => {
+      const period = periodOf(expense.tanggal);
+      if (!period || period.tahun !== tahun) return;
+      actuals.push({
+        ...period,
+        // Buku Kas records money coming in as credit entries
+        category_type: expense.type === 'credit' ? 'income' : 'expense',
+        category_name: expense.kategori || 'Tanpa Kategori',
+        jumlah: Number(expense.jumlah) || 0
+      });
+    });
+
+  return actuals;
+};
+
+/**
+ * Budget against actual per category, summed over January up to `throughMonth`. Categories with
+ * spending but no budget line are included so unplanned spending shows up as over budget.
+ */
+export const budgetVariance = (
+  budgets: Pick<Budget, 'bulan' | 'category_type' | 'category_name' | 'jumlah'>[],
+  actuals: BudgetActual[],
+  throughMonth = 12
+): BudgetVarianceRow[] => {
+  const rows = new Map<string, BudgetVarianceRow>();
+  const rowFor = (type: BudgetCategoryType, name: string) => {
+    const key = categoryKey(type, name);
+    if (!rows.has(key)) {
+      rows.set(key, {
+        category_type: type,
+        category_name: name.trim(),
+        budget: 0,
+        actual: 0,
+        variance: 0,
+        usage: null,
+        status: 'on_track',
+        monthly: Array.from({ length: 12 }, (_, index) => ({ bulan: index + 1, budget: 0, actual: 0 }))
+      });
+    }
+    return rows.get(key) as BudgetVarianceRow;
+  };
+
+  budgets.forEach(budget => {
+    const row = rowFor(budget.category_type, budget.category_name);
+    row.monthly[budget.bulan - 1].budget += Number(budget.jumlah) || 0;
+  });
+  actuals.forEach(actual => {
+    const row = rowFor(actual.category_type, actual.category_name);
+    row.monthly[actual.bulan - 1].actual += actual.jumlah;
+  });
+
+  return Array.from(rows.values())
+    .map(row => {
+      const months = row.monthly.filter(month => month.bulan <= throughMonth);
+      const budget = months.reduce((sum, month) => sum + month.budget, 0);
+      const actual = months.reduce((sum, month) => sum + month.actual, 0);
+      const usage = budget > 0 ? (actual / budget) * 100 : null;
+
+      let status: BudgetStatus = 'on_track';
+      if (row.category_type === 'expense') {
+        if ((usage === null && actual > 0) || (usage !== null && usage > 100)) status = 'over';
+        else if (usage !== null && usage >= BUDGET_WARNING_PERCENT) status = 'warning';
+      }
+
+      return {
+        ...row,
+        budget,
+        actual,
+        variance: row.category_type === 'expense' ? budget - actual : actual - budget,
+        usage,
+        status
+      };
+    })
+    .filter(row => row.budget > 0 || row.actual > 0)
+    .sort((a, b) =>
+      // Pendapatan before belanja, as in the RAPB document
+      b.category_type.localeCompare(a.category_type) || a.category_name.localeCompare(b.category_name));
+};
+
+/**
+ * Budget against actual for a year through the configured repositories. Transactions are
+ * optional because the MySQL backend keeps cash movements in the Buku Kas only.
+ */
+export const loadBudgetVariance = async (tahun: number, throughMonth = 12): Promise<BudgetVarianceRow[]> => {
+  const [budgets, transactions, expenses] = await Promise.all([
+    repositories.budgets.list({ tahun }),
+    repositories.transactions.list(),
+    repositories.expenses.list()
+  ]);
+  if (budgets.error) throw new Error(budgets.error);
+  if (expenses.error) throw new Error(expenses.error);
+
+  const actuals = actualsFromRecords(tahun, transactions.data || [], expenses.data || []);
+  return budgetVariance(budgets.data || [], actuals, throughMonth);
+};
@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
 import { logSecurityEvent } from './scannerSecurity';
+import { isQrisPayload, parseQris, QrisData } from './qris';
 
 // Types for financial transactions
 export interface PaymentQRData {
@@ -68,9 +69,43 @@ export const validateTransactionId = (transactionId: string): boolean => {
   return /^[A-Z0-9_]{10,50}$/.test(transactionId);
 };
 
-// Process payment QR code
-export const processPaymentQR = async (paymentData: PaymentQRData): Promise<TransactionResult> => {
+// Map a parsed QRIS onto our payment data. The transaction ID comes from the reference label
+// or bill number; without one the CRC is used, so the same dynamic code cannot be paid twice.
+export const paymentDataFromQris = (qris: QrisData): PaymentQRData => {
+  const reference = (qris.referenceLabel || qris.billNumber || `${qris.nmid}_${qris.crc}`)
+    .toUpperCase()
+    .replace(/[^A-Z0-9_]/g, '_');
+
+  return {
+    amount: qris.amount || 0,
+    currency: 'IDR',
+    merchant_id: qris.nmid || '',
+    merchant_name: qris.merchantName || '',
+    transaction_id: `QRIS_${reference}`.slice(0, 50),
+    description: qris.purpose || `QRIS ${qris.merchantName || ''} ${qris.merchantCity || ''}`.trim(),
+    qr_type: 'payment'
+  };
+};
+
+// Process payment QR code: parsed payment data, or the raw scanned text (QRIS or our JSON format)
+export const processPaymentQR = async (input: PaymentQRData | string): Promise<TransactionResult> => {
   try {
+    let paymentData: PaymentQRData;
+    if (typeof input !== 'string') {
+      paymentData = input;
+    } else if (isQrisPayload(input)) {
+      const qris = parseQris(input);
+      if (!qris.isValid || !qris.data) {
+        throw new Error(`Invalid QRIS: ${qris.errors.join(', ')}`);
+      }
+      if (qris.data.initiation === 'static') {
+        throw new Error('Static QRIS has no amount');
+      }
+      paymentData = paymentDataFromQris(qris.data);
+    } else {
+      paymentData = JSON.parse(input);
+    }
+
     // Validate payment data
     if (!validatePaymentAmount(paymentData.amount)) {
       throw new Error('Invalid payment amount');
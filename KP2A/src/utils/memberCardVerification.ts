@@ -0,0 +1,130 @@
+/**
+ * Offline verification of signed member QR cards
+ * Cards are signed by the cooperative key (ECDSA P-256, SHA-256). The public key and the
+ * revocation list are cached in localStorage so scans keep working without a connection.
+ */
+
+import { memberCardsApi, MemberCardTrust } from '../lib/api';
+
+const TRUST_STORAGE_KEY = 'member_card_trust';
+
+export interface SignedMemberCard {
+  v: number;
+  kid: string;
+  serial: string;
+  memberId: string;
+  memberName: string;
+  idAnggota?: string;
+  issuedAt: string;
+  expiresAt: string;
+  sig: string;
+}
+
+export interface MemberCardVerdict {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Rebuilds the exact string signed by the backend (memberCard.service canonicalCardData)
+ */
+export function canonicalCardData(card: Omit<SignedMemberCard, 'sig'>): string {
+  return JSON.stringify([
+    card.v,
+    card.kid,
+    card.serial,
+    card.memberId,
+    card.memberName,
+    card.idAnggota || '',
+    card.issuedAt,
+    card.expiresAt
+  ]);
+}
+
+function base64UrlToBytes(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Returns the cached public key and revocation list, if any
+ */
+export function loadCardTrust(): MemberCardTrust | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const cached = localStorage.getItem(TRUST_STORAGE_KEY);
+    return cached ? JSON.parse(cached) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveCardTrust(trust: MemberCardTrust): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(TRUST_STORAGE_KEY, JSON.stringify(trust));
+}
+
+/**
+ * Downloads the current public key and revocation list. Falls back to the cached copy
+ * when offline or when the server has no signing key configured.
+ */
+export async function refreshCardTrust(): Promise<MemberCardTrust | null> {
+  const { data, error } = await memberCardsApi.getTrust();
+  if (error || !data) {
+    return loadCardTrust();
+  }
+  saveCardTrust(data);
+  return data;
+}
+
+/**
+ * Verifies a parsed member card against a trust bundle: key id, revocation,
+ * validity period and signature. Dates are compared as YYYY-MM-DD strings.
+ */
+export async function verifyMemberCard(
+  card: SignedMemberCard,
+  trust: MemberCardTrust,
+  now: Date = new Date()
+): Promise<MemberCardVerdict> {
+  if (card.v !== 1) {
+    return { valid: false, reason: 'Unsupported card version' };
+  }
+  if (card.kid !== trust.kid) {
+    return { valid: false, reason: 'Card signed with an unknown key' };
+  }
+  if (trust.revoked.includes(card.serial)) {
+    return { valid: false, reason: `Card ${card.serial} has been revoked` };
+  }
+
+  const today = now.toISOString().split('T')[0];
+  if (card.issuedAt > today) {
+    return { valid: false, reason: 'Card is not valid yet' };
+  }
+  if (card.expiresAt < today) {
+    return { valid: false, reason: `Card expired on ${card.expiresAt}` };
+  }
+
+  try {
+    const key = await crypto.subtle.importKey(
+      'jwk',
+      trust.public_key,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    const signatureOk = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      base64UrlToBytes(card.sig),
+      new TextEncoder().encode(canonicalCardData(card))
+    );
+    return signatureOk ? { valid: true } : { valid: false, reason: 'Invalid card signature' };
+  } catch {
+    return { valid: false, reason: 'Invalid card signature' };
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * QRIS (EMVCo Merchant-Presented Mode) payloads
+ * A QRIS string is a flat list of TLV fields: 2-digit tag, 2-digit length, value. Some tags are
+ * templates holding a nested TLV list (merchant account info 26-51, additional data 62). The
+ * last field is always the CRC16-CCITT checksum (tag 63) computed over everything before its value.
+ */
+
+export interface TlvField {
+  tag: string;
+  value: string;
+}
+
+export interface QrisMerchantAccount {
+  tag: string;
+  globalId: string;
+  merchantPan?: string;
+  merchantId?: string;
+  merchantCriteria?: string;
+}
+
+export interface QrisData {
+  payloadFormat: string;
+  initiation: 'static' | 'dynamic';
+  merchantAccounts: QrisMerchantAccount[];
+  nmid?: string;
+  mcc?: string;
+  currency?: string;
+  amount?: number;
+  countryCode?: string;
+  merchantName?: string;
+  merchantCity?: string;
+  postalCode?: string;
+  billNumber?: string;
+  referenceLabel?: string;
+  terminalLabel?: string;
+  purpose?: string;
+  crc: string;
+}
+
+export interface QrisParseResult {
+  isValid: boolean;
+  errors: string[];
+  data?: QrisData;
+}
+
+export interface DynamicQrisOptions {
+  amount: number;
+  billNumber?: string;
+  referenceLabel?: string;
+  purpose?: string;
+}
+
+const QRIS_GLOBAL_ID = 'ID.CO.QRIS.WWW';
+const IDR_NUMERIC = '360';
+
+/**
+ * CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF) as 4 uppercase hex digits
+ */
+export function crc16(data: string): string {
+  let crc = 0xffff;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+    }
+    crc &= 0xffff;
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * Splits a TLV string into its fields. Throws when a length runs past the end of the data.
+ */
+export function parseTlv(data: string): TlvField[] {
+  const fields: TlvField[] = [];
+  let pos = 0;
+  while (pos < data.length) {
+    const tag = data.slice(pos, pos + 2);
+    const length = Number(data.slice(pos + 2, pos + 4));
+    if (!/^\d{2}$/.test(tag) || !/^\d{2}$/.test(data.slice(pos + 2, pos + 4))) {
+      throw new Error(`Malformed TLV field at position ${pos}`);
+    }
+    const value = data.slice(pos + 4, pos + 4 + length);
+    if (value.length !== length) {
+      throw new Error(`Field ${tag} is shorter than its declared length`);
+    }
+    fields.push({ tag, value });
+    pos += 4 + length;
+  }
+  return fields;
+}
+
+export function buildTlv(tag: string, value: string): string {
+  if (value.length > 99) {
+    throw new Error(`Field ${tag} is longer than 99 characters`);
+  }
+  return `${tag}${value.length.toString().padStart(2, '0')}${value}`;
+}
+
+const findValue = (fields: TlvField[], tag: string) => fields.find(field => field.tag === tag)?.value;
+
+/**
+ * Quick check used to route scanned text: every EMVCo payload starts with "000201"
+ */
+export function isQrisPayload(text: string): boolean {
+  return text.trim().startsWith('000201');
+}
+
+/**
+ * Parses and validates a QRIS payload: structure, checksum, mandatory merchant fields,
+ * currency and amount. Static codes carry no amount; dynamic codes must have one.
+ */
+export function parseQris(payload: string): QrisParseResult {
+  const text = payload.trim();
+  const errors: string[] = [];
+
+  let fields: TlvField[];
+  try {
+    fields = parseTlv(text);
+  } catch (error) {
+    return { isValid: false, errors: [error instanceof Error ? error.message : 'Malformed QRIS payload'] };
+  }
+
+  const crcField = fields[fields.length - 1];
+  if (!crcField || crcField.tag !== '63' || crcField.value.length !== 4) {
+    return { isValid: false, errors: ['Missing CRC checksum'] };
+  }
+  const expectedCrc = crc16(text.slice(0, -4));
+  if (crcField.value.toUpperCase() !== expectedCrc) {
+    errors.push('CRC checksum mismatch');
+  }
+
+  if (findValue(fields, '00') !== '01') {
+    errors.push('Unsupported payload format indicator');
+  }
+
+  const merchantAccounts: QrisMerchantAccount[] = fields
+    .filter(field => Number(field.tag) >= 26 && Number(field.tag) <= 51)
+    .map(field => {
+      let sub: TlvField[] = [];
+      try {
+        sub = parseTlv(field.value);
+      } catch {
+        errors.push(`Malformed merchant account template ${field.tag}`);
+      }
+      return {
+        tag: field.tag,
+        globalId: findValue(sub, '00') || '',
+        merchantPan: findValue(sub, '01'),
+        merchantId: findValue(sub, '02'),
+        merchantCriteria: findValue(sub, '03')
+      };
+    });
+
+  // The national merchant ID sits in the QRIS template (usually tag 51)
+  const qrisAccount = merchantAccounts.find(account => account.globalId === QRIS_GLOBAL_ID);
+  const nmid = qrisAccount?.merchantId || merchantAccounts.find(account => account.merchantId?.startsWith('ID'))?.merchantId;
+
+  let additional: TlvField[] = [];
+  const additionalValue = findValue(fields, '62');
+  if (additionalValue) {
+    try {
+      additional = parseTlv(additionalValue);
+    } catch {
+      errors.push('Malformed additional data field');
+    }
+  }
+
+  const initiationValue = findValue(fields, '01');
+  const amountValue = findValue(fields, '54');
+  const amount = amountValue !== undefined ? Number(amountValue) : undefined;
+
+  const data: QrisData = {
+    payloadFormat: findValue(fields, '00') || '',
+    initiation: initiationValue === '12' ? 'dynamic' : 'static',
+    merchantAccounts,
+    nmid,
+    mcc: findValue(fields, '52'),
+    currency: findValue(fields, '53'),
+    amount,
+    countryCode: findValue(fields, '58'),
+    merchantName: findValue(fields, '59'),
+    merchantCity: findValue(fields, '60'),
+    postalCode: findValue(fields, '61'),
+    billNumber: findValue(additional, '01'),
+    referenceLabel: findValue(additional, '05'),
+    terminalLabel: findValue(additional, '07'),
+    purpose: findValue(additional, '08'),
+    crc: crcField.value.toUpperCase()
+  };
+
+  if (initiationValue !== '11' && initiationValue !== '12') {
+    errors.push('Unknown point of initiation method');
+  }
+  if (merchantAccounts.length === 0) {
+    errors.push('Missing merchant account information');
+  }
+  if (!nmid) {
+    errors.push('Missing NMID');
+  }
+  if (!data.merchantName) {
+    errors.push('Missing merchant name');
+  }
+  if (!data.merchantCity) {
+    errors.push('Missing merchant city');
+  }
+  if (data.currency !== IDR_NUMERIC) {
+    errors.push('Unsupported currency: QRIS payments must be in IDR');
+  }
+  if (data.countryCode && data.countryCode !== 'ID') {
+    errors.push('Unsupported country code');
+  }
+  if (amountValue !== undefined && (!/^\d+(\.\d{1,2})?$/.test(amountValue) || !amount || amount <= 0)) {
+    errors.push('Invalid transaction amount');
+  }
+  if (data.initiation === 'dynamic' && amountValue === undefined) {
+    errors.push('Dynamic QRIS without transaction amount');
+  }
+
+  return { isValid: errors.length === 0, errors, data };
+}
+
+const formatAmount = (amount: number) =>
+  Number.isInteger(amount) ? amount.toString() : amount.toFixed(2);
+
+/**
+ * Turns the cooperative's static QRIS into a dynamic one for a specific amount.
+ * The merchant fields are kept as they are; amount, additional data and CRC are replaced.
+ */
+export function generateDynamicQris(staticPayload: string, options: DynamicQrisOptions): string {
+  if (!(options.amount > 0)) {
+    throw new Error('Amount must be greater than 0');
+  }
+
+  const fields = parseTlv(staticPayload.trim()).filter(field => !['01', '54', '62', '63'].includes(field.tag));
+
+  const additional = [
+    options.billNumber ? buildTlv('01', options.billNumber) : '',
+    options.referenceLabel ? buildTlv('05', options.referenceLabel) : '',
+    options.purpose ? buildTlv('08', options.purpose) : ''
+  ].join('');
+
+  fields.push({ tag: '01', value: '12' });
+  fields.push({ tag: '54', value: formatAmount(options.amount) });
+  if (additional) {
+    fields.push({ tag: '62', value: additional });
+  }
+  fields.sort((a, b) => Number(a.tag) - Number(b.tag));
+
+  const body = fields.map(field => buildTlv(field.tag, field.value)).join('') + '6304';
+  return body + crc16(body);
+}
+
+/**
+ * Reference label written into an installment QRIS, read back by the loan payment form.
+ * Format: KP2A-<first 8 chars of loan id>-<installment number>
+ */
+export function installmentReference(loanId: string, installmentNumber: number): string {
+  return `KP2A-${loanId.replace(/-/g, '').slice(0, 8).toUpperCase()}-${installmentNumber}`;
+}
+
+export function parseInstallmentReference(reference?: string): { loanPrefix: string; installmentNumber: number } | null {
+  const match = reference?.match(/^KP2A-([0-9A-F]{8})-(\d+)$/i);
+  if (!match) return null;
+  return { loanPrefix: match[1].toLowerCase(), installmentNumber: Number(match[2]) };
+}
@@ -0,0 +1,261 @@
+/**
+ * Recurring transaction templates
+ * A template fixes the amount, category and payment method of a standing income or expense and
+ * repeats monthly, quarterly or yearly from its start date. Due occurrences become pending
+ * transactions for approval; next_due_date moves past every occurrence that was generated or
+ * skipped, so each one is handled once.
+ */
+
+import { repositories } from '../lib/repositories';
+import type { RecurrenceFrequency, RecurringTransaction, Transaction } from '../types/transactions';
+import { getCurrentDateISO } from './dateFormat';
+
+export const FREQUENCY_MONTHS: Record<RecurrenceFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12
+};
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  monthly: 'Bulanan',
+  quarterly: 'Triwulanan',
+  yearly: 'Tahunan'
+};
+
+// How far ahead the dashboard lists obligations, and how far back it lists skipped ones
+export const UPCOMING_DAYS = 30;
+export const SKIPPED_LOOKBACK_DAYS = 90;
+
+const MONTH_NAMES = ['Januari', 'Februari', 'Maret', 'April', 'Mei', 'Juni', 'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember'];
+const QUARTER_NAMES = ['I', 'II', 'III', 'IV'];
+
+type Schedule = Pick<RecurringTransaction, 'start_date' | 'frequency' | 'end_date'>;
+
+export interface UpcomingObligation {
+  template: RecurringTransaction;
+  due_date: string;
+  // Negative when the occurrence is already overdue but not generated yet
+  days_until: number;
+}
+
+export interface SkippedOccurrence {
+  template: RecurringTransaction;
+  due_date: string;
+  // skipped: passed over by a pengurus; paused: falls due while the template is paused
+  reason: 'skipped' | 'paused';
+}
+
+export interface GenerationResult {
+  created: number;
+  failed: { template: RecurringTransaction; error: string }[];
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return toDateString(new Date(year, month - 1, day + days));
+};
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+/**
+ * The index-th occurrence counted from start_date. The day of month follows start_date and is
+ * clamped to the last day of shorter months, so a schedule starting on the 31st stays on month ends.
+ */
+export const occurrenceDate = (startDate: string, frequency: RecurrenceFrequency, index: number): string => {
+  const [year, month, day] = startDate.slice(0, 10).split('-').map(Number);
+  const monthIndex = month - 1 + index * FREQUENCY_MONTHS[frequency];
+  const occurrenceYear = year + Math.floor(monthIndex / 12);
+  const occurrenceMonth = monthIndex % 12;
+  const lastDay = new Date(occurrenceYear, occurrenceMonth + 1, 0).getDate();
+  return `${occurrenceYear}-${pad(occurrenceMonth + 1)}-${pad(Math.min(day, lastDay))}`;
+};
+
+// First occurrence strictly after `date`
+export const occurrenceAfter = (schedule: Schedule, date: string): string => {
+  let index = 0;
+  let occurrence = occurrenceDate(schedule.start_date, schedule.frequency, index);
+  while (occurrence <= date) {
+    index++;
+    occurrence = occurrenceDate(schedule.start_date, schedule.frequency, index);
+  }
+  return occurrence;
+};
+
+const isPastEnd = (schedule: Schedule, date: string) => !!schedule.end_date && date > schedule.end_date.slice(0, 10);
+
+// Occurrences from `from` through `until`, stopping at the template's end date
+const occurrencesBetween = (schedule: Schedule, from: string, until: string): string[] => {
+  const dates: string[] = [];
+  let date = from;
+  while (date <= until && !isPastEnd(schedule, date)) {
+    dates.push(date);
+    date = occurrenceAfter(schedule, date);
+  }
+  return dates;
+};
+
+/**
+ * Occurrences that are due on or before `today` and have not been generated or skipped
+ */
+export const dueOccurrences = (template: RecurringTransaction, today: string): string[] =>
+  occurrencesBetween(template, template.next_due_date.slice(0, 10), today);
+
+export const isFinished = (template: RecurringTransaction): boolean =>
+  isPastEnd(template, template.next_due_date.slice(0, 10));
+
+/**
+ * Occurrences of active templates up to `days` ahead, overdue ones included, soonest first
+ */
+export const upcomingObligations = (
+  templates: RecurringTransaction[],
+  today: string,
+  days = UPCOMING_DAYS
+): UpcomingObligation[] =>
+  templates
+    .filter(template => template.is_active)
+    .flatMap(template =>
+      dueOccurrences(template, addDays(today, days)).map(dueDate => ({
+        template,
+        due_date: dueDate,
+        days_until: daysBetween(today, dueDate)
+      })))
+    .sort((a, b) => a.due_date.localeCompare(b.due_date) || a.template.name.localeCompare(b.template.name));
+
+/**
+ * Occurrences that will not become transactions: skipped in the last `lookbackDays`, or due while
+ * the template is paused. Newest first.
+ */
+export const skippedOccurrences = (
+  templates: RecurringTransaction[],
+  today: string,
+  lookbackDays = SKIPPED_LOOKBACK_DAYS
+): SkippedOccurrence[] => {
+  const since = addDays(today, -lookbackDays);
+  return templates
+    .flatMap(template => [
+      ...(template.skipped_dates || [])
+        .filter(date => date >= since && date <= today)
+        .map(date => ({ template, due_date: date, reason: 'skipped' as const })),
+      ...(template.is_active ? [] : dueOccurrences(template, today))
+        .map(date => ({ template, due_date: date, reason: 'paused' as const }))
+    ])
+    .sort((a, b) => b.due_date.localeCompare(a.due_date));
+};
+
+// Period an occurrence pays for, e.g. "Maret 2025", "Triwulan I 2025" or "2025"
+export const periodLabel = (dueDate: string, frequency: RecurrenceFrequency): string => {
+  const [year, month] = dueDate.split('-').map(Number);
+  if (frequency === 'yearly') return String(year);
+  if (frequency === 'quarterly') return `Triwulan ${QUARTER_NAMES[Math.floor((month - 1) / 3)]} ${year}`;
+  return `${MONTH_NAMES[month - 1]} ${year}`;
+};
+
+export const transactionFromTemplate = (
+  template: RecurringTransaction,
+  dueDate: string,
+  createdBy: string
+): Partial<Transaction> => ({
+  transaction_type: template.transaction_type,
+  amount: Number(template.amount),
+  transaction_date: dueDate,
+  category_id: template.category_id,
+  payment_method_id: template.payment_method_id,
+  description: `${template.description || template.name} - ${periodLabel(dueDate, template.frequency)}`,
+  status: 'pending',
+  created_by: createdBy,
+  recurring_transaction_id: template.id
+});
+
+/**
+ * Passes over the next occurrence without generating it
+ */
+export const skipNextChanges = (template: RecurringTransaction): Partial<RecurringTransaction> => ({
+  skipped_dates: [...(template.skipped_dates || []), template.next_due_date.slice(0, 10)],
+  next_due_date: occurrenceAfter(template, template.next_due_date.slice(0, 10))
+});
+
+/**
+ * Reactivates a paused template. Occurrences that fell due while it was paused are recorded as
+ * skipped instead of being billed late; one due today is still generated.
+ */
+export const resumeChanges = (template: RecurringTransaction, today: string): Partial<RecurringTransaction> => {
+  const missed = dueOccurrences(template, today).filter(date => date < today);
+  if (missed.length === 0) return { is_active: true };
+  return {
+    is_active: true,
+    skipped_dates: [...(template.skipped_dates || []), ...missed],
+    next_due_date: occurrenceAfter(template, missed[missed.length - 1])
+  };
+};
+
+/**
+ * next_due_date after the schedule of a template was edited: the first new occurrence after the
+ * last one generated or skipped, or the start date when nothing was handled yet
+ */
+export const rescheduledNextDue = (
+  schedule: Schedule,
+  handled: Pick<RecurringTransaction, 'last_generated_date' | 'skipped_dates'>
+): string => {
+  const last = [handled.last_generated_date, ...(handled.skipped_dates || [])]
+    .filter((date): date is string => !!date)
+    .map(date => date.slice(0, 10))
+    .sort()
+    .pop();
+  return last ? occurrenceAfter(schedule, last) : schedule.start_date.slice(0, 10);
+};
+
+/**
+ * Creates a pending transaction for every due occurrence of the active templates and moves their
+ * next_due_date on. Occurrences another session already generated are not created twice.
+ */
+export const generateRecurringTransactions = async (
+  createdBy: string,
+  today = getCurrentDateISO()
+): Promise<GenerationResult> => {
+  const { data: templates, error } = await repositories.recurringTransactions.list({ is_active: true });
+  if (error) throw new Error(error);
+
+  const result: GenerationResult = { created: 0, failed: [] };
+  for (const template of templates || []) {
+    const dates = dueOccurrences(template, today);
+    if (dates.length === 0) continue;
+
+    const { data: existing, error: existingError } = await repositories.transactions.list({ recurring_transaction_id: template.id });
+    if (existingError) {
+      result.failed.push({ template, error: existingError });
+      continue;
+    }
+    const generated = new Set((existing || []).map(transaction => transaction.transaction_date.slice(0, 10)));
+
+    let handledThrough: string | null = null;
+    let failure: string | null = null;
+    for (const date of dates) {
+      if (!generated.has(date)) {
+        const { error: createError } = await repositories.transactions.create(transactionFromTemplate(template, date, createdBy));
+        if (createError) {
+          failure = createError;
+          break;
+        }
+        result.created++;
+      }
+      handledThrough = date;
+    }
+
+    if (handledThrough) {
+      const { error: updateError } = await repositories.recurringTransactions.update(template.id, {
+        next_due_date: occurrenceAfter(template, handledThrough),
+        last_generated_date: handledThrough
+      });
+      failure = failure || updateError || null;
+    }
+    if (failure) result.failed.push({ template, error: failure });
+  }
+
+  return result;
+};
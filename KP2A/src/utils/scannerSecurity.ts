@@ -4,6 +4,7 @@
  */
 
 import { ScanResult, ScannerError } from '../types/scanner';
+import { isQrisPayload, parseQris } from './qris';
 
 // Security configuration
 export const SECURITY_CONFIG = {
@@ -293,7 +294,7 @@ export function checkRateLimit(userId?: string): {
 }
 
 /**
- * Validates payment QR code data
+ * Validates payment QR code data: a QRIS (EMVCo) payload or our own JSON format
  */
 export function validatePaymentQR(data: string): {
   isValid: boolean;
@@ -302,6 +303,24 @@ export function validatePaymentQR(data: string): {
 } {
   const errors: string[] = [];
 
+  if (isQrisPayload(data)) {
+    const qris = parseQris(data);
+    return {
+      isValid: qris.isValid,
+      errors: qris.errors,
+      parsedData: qris.data && {
+        format: 'qris',
+        amount: qris.data.amount,
+        currency: 'IDR',
+        recipient: qris.data.merchantName,
+        merchant_name: qris.data.merchantName,
+        merchant_id: qris.data.nmid,
+        transaction_id: qris.data.referenceLabel || qris.data.billNumber,
+        qris: qris.data
+      }
+    };
+  }
+
   try {
     // Try to parse as JSON
     const parsed = JSON.parse(data);
@@ -351,7 +370,8 @@ export function validatePaymentQR(data: string): {
 }
 
 /**
- * Validates member verification QR code data
+ * Validates the structure of a signed member card QR. The signature itself is checked
+ * by verifyMemberCard in memberCardVerification.
  */
 export function validateMemberQR(data: string): {
   isValid: boolean;
@@ -365,7 +385,7 @@ export function validateMemberQR(data: string): {
     const parsed = JSON.parse(data);
 
     // Required fields for member verification QR
-    const requiredFields = ['memberId', 'memberName'];
+    const requiredFields = ['memberId', 'memberName', 'v', 'kid', 'serial', 'issuedAt', 'expiresAt', 'sig'];
     for (const field of requiredFields) {
       if (!(field in parsed)) {
         errors.push(`Missing required field: ${field}`);
@@ -386,6 +406,18 @@ export function validateMemberQR(data: string): {
       }
     }
 
+    // Validate signed card fields
+    for (const field of ['kid', 'serial', 'sig']) {
+      if (parsed[field] !== undefined && (typeof parsed[field] !== 'string' || parsed[field].length === 0)) {
+        errors.push(`Invalid ${field}: must be a non-empty string`);
+      }
+    }
+    for (const field of ['issuedAt', 'expiresAt']) {
+      if (parsed[field] !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(String(parsed[field]))) {
+        errors.push(`Invalid ${field}: must be a YYYY-MM-DD date`);
+      }
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
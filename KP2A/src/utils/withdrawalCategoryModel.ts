@@ -0,0 +1,216 @@
+/**
+ * Naive Bayes model for bank withdrawal categories
+ * Learns from transactions whose category is known, either because a pengurus corrected the
+ * suggestion (manual override) or because the suggestion was kept. Each withdrawal becomes a bag
+ * of features: the words of its description, an amount bucket and the weekday. Laplace smoothing
+ * keeps unseen feature/category pairs from ruling a category out.
+ */
+
+import { descriptionTokens } from './bankReconciliation';
+
+export interface WithdrawalFeaturesInput {
+  description: string;
+  amount: number;
+  transaction_date: string;
+}
+
+export interface WithdrawalTrainingExample extends WithdrawalFeaturesInput {
+  category_id: string;
+}
+
+export interface WithdrawalCategoryModel {
+  trainedAt: string;
+  exampleCount: number;
+  vocabularySize: number;
+  categories: Record<string, {
+    examples: number;
+    featureCounts: Record<string, number>;
+    totalFeatures: number;
+  }>;
+}
+
+export interface CategoryPrediction {
+  category_id: string;
+  // 0-1, sums to 1 over all categories the model knows
+  probability: number;
+}
+
+export interface CategoryPrecision {
+  category_id: string;
+  // Times the model picked this category during cross-validation, and how often that was right
+  predicted: number;
+  correct: number;
+  precision: number;
+  // Training examples that actually belong to this category
+  support: number;
+}
+
+// Log rows joined with their transaction, as read from classification_logs
+export interface ClassificationLogExample {
+  transaction_id: string;
+  suggested_category_id: string;
+  manual_override: boolean;
+  created_at: string;
+  transactions?: {
+    description?: string | null;
+    amount?: number | string | null;
+    transaction_date?: string | null;
+    category_id?: string | null;
+  } | null;
+}
+
+// Below this many examples the hand-written patterns carry most of the weight
+const MODEL_WARMUP_EXAMPLES = 50;
+const MAX_MODEL_WEIGHT = 0.6;
+
+export const withdrawalFeatures = (data: WithdrawalFeaturesInput): string[] => {
+  const features = Array.from(descriptionTokens(data.description || '')).map(token => `word:${token}`);
+
+  const amount = Math.abs(Number(data.amount));
+  if (amount > 0) {
+    // Half-decade buckets: 10k-31k, 31k-100k, 100k-316k, ...
+    features.push(`amount:${Math.floor(Math.log10(amount) * 2)}`);
+  }
+
+  const day = new Date(`${String(data.transaction_date).slice(0, 10)}T00:00:00Z`).getUTCDay();
+  if (!Number.isNaN(day)) features.push(`weekday:${day}`);
+
+  return features;
+};
+
+/**
+ * One example per transaction. The latest manual override decides the category; without an
+ * override the category the transaction was saved with is taken as confirmed.
+ */
+export const trainingExamplesFromLogs = (logs: ClassificationLogExample[]): WithdrawalTrainingExample[] => {
+  const byTransaction = new Map<string, ClassificationLogExample[]>();
+  logs.forEach(log => {
+    if (!log.transaction_id) return;
+    const group = byTransaction.get(log.transaction_id) || [];
+    group.push(log);
+    byTransaction.set(log.transaction_id, group);
+  });
+
+  const examples: WithdrawalTrainingExample[] = [];
+  byTransaction.forEach(group => {
+    const transaction = group.find(log => log.transactions)?.transactions;
+    if (!transaction?.description || !transaction.transaction_date) return;
+
+    const override = group
+      .filter(log => log.manual_override)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .pop();
+    const categoryId = override?.suggested_category_id || transaction.category_id;
+    if (!categoryId) return;
+
+    examples.push({
+      description: transaction.description,
+      amount: Number(transaction.amount) || 0,
+      transaction_date: transaction.transaction_date,
+      category_id: categoryId
+    });
+  });
+
+  return examples;
+};
+
+export const trainWithdrawalModel = (examples: WithdrawalTrainingExample[]): WithdrawalCategoryModel => {
+  const vocabulary = new Set<string>();
+  const categories: WithdrawalCategoryModel['categories'] = {};
+
+  examples.forEach(example => {
+    if (!categories[example.category_id]) {
+      categories[example.category_id] = { examples: 0, featureCounts: {}, totalFeatures: 0 };
+    }
+    const category = categories[example.category_id];
+    category.examples++;
+    withdrawalFeatures(example).forEach(feature => {
+      vocabulary.add(feature);
+      category.featureCounts[feature] = (category.featureCounts[feature] || 0) + 1;
+      category.totalFeatures++;
+    });
+  });
+
+  return {
+    trainedAt: new Date().toISOString(),
+    exampleCount: examples.length,
+    vocabularySize: vocabulary.size,
+    categories
+  };
+};
+
+/**
+ * Category probabilities for a withdrawal, most likely first. Empty for an untrained model.
+ */
+export const predictWithdrawalCategory = (
+  model: WithdrawalCategoryModel,
+  data: WithdrawalFeaturesInput
+): CategoryPrediction[] => {
+  const categoryIds = Object.keys(model.categories);
+  if (categoryIds.length === 0) return [];
+
+  // Features never seen in training say nothing about any category
+  const features = withdrawalFeatures(data).filter(feature =>
+    categoryIds.some(id => model.categories[id].featureCounts[feature]));
+
+  const logScores = categoryIds.map(id => {
+    const category = model.categories[id];
+    let score = Math.log(category.examples / model.exampleCount);
+    features.forEach(feature => {
+      score += Math.log(((category.featureCounts[feature] || 0) + 1) / (category.totalFeatures + model.vocabularySize));
+    });
+    return score;
+  });
+
+  // Softmax in log space so long descriptions do not underflow
+  const max = Math.max(...logScores);
+  const weights = logScores.map(score => Math.exp(score - max));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return categoryIds
+    .map((id, index) => ({ category_id: id, probability: weights[index] / total }))
+    .sort((a, b) => b.probability - a.probability);
+};
+
+/**
+ * How much the model counts against the hand-written patterns, growing with the training set
+ */
+export const modelWeight = (model: WithdrawalCategoryModel | null): number =>
+  model ? Math.min(MAX_MODEL_WEIGHT, model.exampleCount / (model.exampleCount + MODEL_WARMUP_EXAMPLES)) : 0;
+
+/**
+ * Per-category precision from k-fold cross-validation, so every example is predicted by a model
+ * that never saw it
+ */
+export const evaluateWithdrawalModel = (
+  examples: WithdrawalTrainingExample[],
+  folds = 5
+): CategoryPrecision[] => {
+  const stats = new Map<string, CategoryPrecision>();
+  const statsFor = (categoryId: string) => {
+    if (!stats.has(categoryId)) {
+      stats.set(categoryId, { category_id: categoryId, predicted: 0, correct: 0, precision: 0, support: 0 });
+    }
+    return stats.get(categoryId) as CategoryPrecision;
+  };
+
+  examples.forEach(example => statsFor(example.category_id).support++);
+
+  const foldCount = Math.min(folds, examples.length);
+  for (let fold = 0; fold < foldCount; fold++) {
+    const model = trainWithdrawalModel(examples.filter((_, index) => index % foldCount !== fold));
+    examples
+      .filter((_, index) => index % foldCount === fold)
+      .forEach(example => {
+        const [best] = predictWithdrawalCategory(model, example);
+        if (!best) return;
+        const predicted = statsFor(best.category_id);
+        predicted.predicted++;
+        if (best.category_id === example.category_id) predicted.correct++;
+      });
+  }
+
+  return Array.from(stats.values())
+    .map(entry => ({ ...entry, precision: entry.predicted > 0 ? (entry.correct / entry.predicted) * 100 : 0 }))
+    .sort((a, b) => b.support - a.support);
+};
@@ -0,0 +1,55 @@
+-- Recurring Transaction Templates
+-- Created: 2025-01-30
+-- Description: Templates for standing income and expenses (rent, internet, honorarium) that
+-- generate pending transactions on a monthly, quarterly or yearly schedule for approval
+
+CREATE TABLE IF NOT EXISTS recurring_transactions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    transaction_type VARCHAR(20) NOT NULL CHECK (transaction_type IN ('income', 'expense')),
+    amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+    category_id UUID NOT NULL REFERENCES transaction_categories(id),
+    payment_method_id UUID NOT NULL REFERENCES payment_methods(id),
+    description TEXT,
+    frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('monthly', 'quarterly', 'yearly')),
+    start_date DATE NOT NULL,
+    end_date DATE CHECK (end_date IS NULL OR end_date >= start_date),
+    -- First occurrence that has not been generated or skipped yet
+    next_due_date DATE NOT NULL,
+    last_generated_date DATE,
+    skipped_dates JSONB NOT NULL DEFAULT '[]'::jsonb,
+    is_active BOOLEAN DEFAULT true,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Link generated transactions to their template; one transaction per template per due date
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS recurring_transaction_id UUID REFERENCES recurring_transactions(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_recurring_occurrence
+    ON transactions(recurring_transaction_id, transaction_date)
+    WHERE recurring_transaction_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_next_due ON recurring_transactions(next_due_date) WHERE is_active = true;
+
+CREATE TRIGGER update_recurring_transactions_updated_at BEFORE UPDATE ON recurring_transactions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE recurring_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view recurring transactions" ON recurring_transactions FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Users can create recurring transactions" ON recurring_transactions FOR INSERT TO authenticated WITH CHECK (created_by = auth.uid());
+CREATE POLICY "Users can update recurring transactions" ON recurring_transactions FOR UPDATE TO authenticated USING (
+    auth.uid() = created_by
+    OR (auth.jwt() ->> 'role') = 'admin'
+    OR (auth.jwt() ->> 'role') = 'treasurer'
+);
+CREATE POLICY "Users can delete their recurring transactions" ON recurring_transactions FOR DELETE TO authenticated USING (
+    auth.uid() = created_by
+    OR (auth.jwt() ->> 'role') = 'admin'
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON recurring_transactions TO authenticated;
+
+COMMENT ON TABLE recurring_transactions IS 'Templates that generate pending transactions on a recurring schedule';
@@ -0,0 +1,64 @@
+-- WhatsApp Conversation Flows
+-- Created: 2025-01-31
+-- Description: Guided multi-step bot conversations defined as data (steps and an action), and
+-- the answers members send through flows that end in a submission for pengurus
+
+CREATE TABLE IF NOT EXISTS whatsapp_flows (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Message that starts the flow, e.g. /ajukan
+    trigger VARCHAR(50) NOT NULL CHECK (trigger LIKE '/%'),
+    title VARCHAR(100) NOT NULL,
+    description TEXT,
+    -- [{ id, type: number|text|choice|media, label, prompt, min?, max?, options? }]
+    steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+    -- { type: command, command } | { type: loan_application } | { type: submission, reply? }
+    action JSONB NOT NULL,
+    confirm BOOLEAN NOT NULL DEFAULT true,
+    requires_member BOOLEAN NOT NULL DEFAULT true,
+    admin_only BOOLEAN NOT NULL DEFAULT false,
+    timeout_minutes INTEGER NOT NULL DEFAULT 10 CHECK (timeout_minutes > 0),
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS whatsapp_flow_submissions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    flow_id VARCHAR(100) NOT NULL,
+    flow_title VARCHAR(100) NOT NULL,
+    member_id UUID REFERENCES members(id) ON DELETE SET NULL,
+    phone_number VARCHAR(20) NOT NULL,
+    answers JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- { mime_type, data } with the photo as a data URL
+    media JSONB,
+    status VARCHAR(20) NOT NULL DEFAULT 'baru' CHECK (status IN ('baru', 'diproses', 'selesai')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One active flow per trigger
+CREATE UNIQUE INDEX IF NOT EXISTS idx_whatsapp_flows_active_trigger ON whatsapp_flows(LOWER(trigger)) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_whatsapp_flow_submissions_status ON whatsapp_flow_submissions(status, created_at DESC);
+
+CREATE TRIGGER update_whatsapp_flows_updated_at BEFORE UPDATE ON whatsapp_flows
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_whatsapp_flow_submissions_updated_at BEFORE UPDATE ON whatsapp_flow_submissions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE whatsapp_flows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE whatsapp_flow_submissions ENABLE ROW LEVEL SECURITY;
+
+-- The bot reads flows and stores submissions; pengurus manage both from the web app
+CREATE POLICY "Anyone can view whatsapp flows" ON whatsapp_flows FOR SELECT USING (true);
+CREATE POLICY "Users can manage whatsapp flows" ON whatsapp_flows FOR ALL TO authenticated USING (true) WITH CHECK (true);
+CREATE POLICY "Anyone can create whatsapp flow submissions" ON whatsapp_flow_submissions FOR INSERT WITH CHECK (true);
+CREATE POLICY "Users can view whatsapp flow submissions" ON whatsapp_flow_submissions FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Users can update whatsapp flow submissions" ON whatsapp_flow_submissions FOR UPDATE TO authenticated USING (true);
+
+GRANT SELECT ON whatsapp_flows TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON whatsapp_flows TO authenticated;
+GRANT INSERT ON whatsapp_flow_submissions TO anon;
+GRANT SELECT, INSERT, UPDATE ON whatsapp_flow_submissions TO authenticated;
+
+COMMENT ON TABLE whatsapp_flows IS 'Guided WhatsApp bot conversations defined by pengurus';
+COMMENT ON TABLE whatsapp_flow_submissions IS 'Answers sent through WhatsApp flows, waiting for follow-up by pengurus';
@@ -0,0 +1,38 @@
+-- WhatsApp Notification Log
+-- Created: 2025-02-01
+-- Description: Every WhatsApp notification the app sends. Scheduled reminders carry a dedup_key
+-- (reminder kind, loan or member, period) so a re-run or a second open tab does not send them again.
+
+CREATE TABLE IF NOT EXISTS whatsapp_notification_logs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    recipient VARCHAR(20) NOT NULL,
+    -- As given by the sender; manual sends may use the member number instead of members.id
+    member_id VARCHAR(50),
+    template VARCHAR(50) NOT NULL,
+    message TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    -- e.g. payment_reminder:<loan id>:2025-03-10
+    dedup_key VARCHAR(150),
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- The insert that claims a reminder fails for every sender but the first
+CREATE UNIQUE INDEX IF NOT EXISTS idx_whatsapp_notification_logs_dedup_key
+    ON whatsapp_notification_logs(dedup_key)
+    WHERE dedup_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_whatsapp_notification_logs_created_at ON whatsapp_notification_logs(created_at DESC);
+
+CREATE TRIGGER update_whatsapp_notification_logs_updated_at BEFORE UPDATE ON whatsapp_notification_logs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE whatsapp_notification_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view whatsapp notification logs" ON whatsapp_notification_logs FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Users can create whatsapp notification logs" ON whatsapp_notification_logs FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Users can update whatsapp notification logs" ON whatsapp_notification_logs FOR UPDATE TO authenticated USING (true);
+
+GRANT SELECT, INSERT, UPDATE ON whatsapp_notification_logs TO authenticated;
+
+COMMENT ON TABLE whatsapp_notification_logs IS 'WhatsApp notifications sent by the app, de-duplicated by dedup_key';
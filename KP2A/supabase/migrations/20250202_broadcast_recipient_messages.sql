@@ -0,0 +1,6 @@
+-- Personalized Broadcast Messages
+-- Created: 2025-02-02
+-- Description: Broadcasts written with template variables are rendered per recipient when they
+-- are created. The rendered text is stored with the recipient; NULL means the broadcast message.
+
+ALTER TABLE broadcast_recipients ADD COLUMN IF NOT EXISTS message TEXT;
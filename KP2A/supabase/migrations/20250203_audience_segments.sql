@@ -0,0 +1,28 @@
+-- Broadcast Audience Segments
+-- Created: 2025-02-03
+-- Description: Saved broadcast audiences defined by rules over member data (dues arrears,
+-- loans, savings, membership). Only the rules are stored; members are matched when sending.
+
+CREATE TABLE IF NOT EXISTS audience_segments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    match VARCHAR(3) NOT NULL DEFAULT 'all' CHECK (match IN ('all', 'any')),
+    -- [{ field, operator, value }], e.g. { "field": "tunggakan_bulan", "operator": ">=", "value": 2 }
+    rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audience_segments_name ON audience_segments(LOWER(name));
+
+CREATE TRIGGER update_audience_segments_updated_at BEFORE UPDATE ON audience_segments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE audience_segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage audience segments" ON audience_segments FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON audience_segments TO authenticated;
+
+COMMENT ON TABLE audience_segments IS 'Rule-based broadcast audiences, evaluated against member data at send time';
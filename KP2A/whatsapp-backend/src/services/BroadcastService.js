@@ -74,15 +74,18 @@ class BroadcastService {
   /**
    * Process recipients and create broadcast_recipients records
    * @param {string} broadcastId - Broadcast ID
-   * @param {string[]} recipients - Array of phone numbers or contact IDs
+   * @param {Array<string|Object>} recipients - Phone numbers, contact IDs, or personalized
+   *   recipients ({ phone, contact_id, message }) whose message replaces the broadcast message
    * @returns {Promise<Array>} Created recipient records
    */
   async processRecipients(broadcastId, recipients) {
     try {
       const recipientRecords = [];
 
-      for (const recipient of recipients) {
-        let phone = recipient;
+      for (const item of recipients) {
+        const personalized = item && typeof item === 'object' ? item : null;
+        const recipient = personalized ? personalized.contact_id || personalized.phone : item;
+        let phone = personalized ? personalized.phone : recipient;
         let contactId = null;
 
         // Check if recipient is a contact ID (UUID format) or phone number
@@ -121,6 +124,7 @@ class BroadcastService {
           broadcast_id: broadcastId,
           contact_id: contactId,
           phone: phone,
+          message: personalized ? personalized.message || null : null,
           status: 'pending'
         });
       }
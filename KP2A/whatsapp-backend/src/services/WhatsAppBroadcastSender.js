@@ -164,9 +164,9 @@ class WhatsAppBroadcastSender {
         // Format phone number for WhatsApp
         const whatsappId = this.formatPhoneForWhatsApp(recipient.phone);
         
-        // Prepare message
+        // Prepare message; personalized broadcasts carry the rendered text per recipient
         const messageData = {
-          text: broadcast.message
+          text: recipient.message || broadcast.message
         };
 
         // Send message using Baileys service